@@ -0,0 +1,198 @@
+/**
+ * Realtime gateway state tests
+ */
+
+import { MESSAGE_TYPES, type WebSocketMessage } from "../../../src/lib/websocket";
+import { RealtimeGateway, type GatewayConnection } from "../gateway";
+
+interface TestConnection extends GatewayConnection {
+  received: WebSocketMessage[];
+  ofType: (type: string) => unknown[];
+}
+
+let connectionCount = 0;
+
+function connection(userId: string, email = `${userId}@example.com`): TestConnection {
+  const received: WebSocketMessage[] = [];
+  connectionCount++;
+
+  return {
+    id: `conn-${connectionCount}`,
+    user: { id: userId, email },
+    send: (data) => received.push(JSON.parse(data)),
+    received,
+    ofType: (type) => received.filter((m) => m.type === type).map((m) => m.payload),
+  };
+}
+
+function send(gateway: RealtimeGateway, conn: GatewayConnection, type: string, payload: unknown = null) {
+  return gateway.handleMessage(conn, JSON.stringify({ type, payload, timestamp: Date.now() }));
+}
+
+describe("RealtimeGateway", () => {
+  let now: number;
+  let gateway: RealtimeGateway;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    gateway = new RealtimeGateway({ now: () => now, historyLimit: 3 });
+  });
+
+  it("answers ping and reports unknown messages", async () => {
+    const alice = connection("alice");
+    gateway.connect(alice);
+
+    await send(gateway, alice, MESSAGE_TYPES.PING);
+    await gateway.handleMessage(alice, "not json");
+    await send(gateway, alice, "chat:unknown");
+
+    expect(alice.received.map((m) => m.type)).toEqual([
+      MESSAGE_TYPES.PONG,
+      MESSAGE_TYPES.ERROR,
+      MESSAGE_TYPES.ERROR,
+    ]);
+    expect(alice.ofType(MESSAGE_TYPES.ERROR)[1]).toMatchObject({ code: "unknown_type" });
+  });
+
+  describe("rooms", () => {
+    it("delivers chat only to joined connections, with the sender taken from the token", async () => {
+      const alice = connection("alice");
+      const bob = connection("bob");
+      const carol = connection("carol");
+      [alice, bob, carol].forEach((c) => gateway.connect(c));
+
+      await send(gateway, alice, MESSAGE_TYPES.ROOM_JOIN, { roomId: "walk-club" });
+      await send(gateway, bob, MESSAGE_TYPES.ROOM_JOIN, { roomId: "walk-club" });
+      await send(gateway, alice, MESSAGE_TYPES.CHAT_MESSAGE, {
+        roomId: "walk-club",
+        content: "  산책 가요 ",
+        senderId: "mallory",
+      });
+
+      const [message] = bob.ofType(MESSAGE_TYPES.CHAT_MESSAGE);
+      expect(message).toMatchObject({ roomId: "walk-club", content: "산책 가요", senderId: "alice" });
+      expect(alice.ofType(MESSAGE_TYPES.CHAT_MESSAGE)).toHaveLength(1);
+      expect(carol.received).toEqual([]);
+    });
+
+    it("sends typing and read receipts to the other members only", async () => {
+      const alice = connection("alice");
+      const bob = connection("bob");
+      [alice, bob].forEach((c) => gateway.connect(c));
+      await send(gateway, alice, MESSAGE_TYPES.ROOM_JOIN, { roomId: "r1" });
+      await send(gateway, bob, MESSAGE_TYPES.ROOM_JOIN, { roomId: "r1" });
+
+      await send(gateway, alice, MESSAGE_TYPES.CHAT_TYPING, { roomId: "r1", isTyping: true });
+      await send(gateway, bob, MESSAGE_TYPES.CHAT_READ, { roomId: "r1", messageId: "m1" });
+
+      expect(bob.ofType(MESSAGE_TYPES.CHAT_TYPING)).toEqual([{ userId: "alice", roomId: "r1", isTyping: true }]);
+      expect(alice.ofType(MESSAGE_TYPES.CHAT_TYPING)).toEqual([]);
+      expect(alice.ofType(MESSAGE_TYPES.CHAT_READ)).toEqual([
+        { roomId: "r1", userId: "bob", messageId: "m1", readAt: new Date(now).toISOString() },
+      ]);
+    });
+
+    it("rejects chat outside joined rooms and rooms the authorizer denies", async () => {
+      gateway = new RealtimeGateway({ authorizeRoom: async (user, roomId) => roomId !== "dm:other" });
+      const alice = connection("alice");
+      gateway.connect(alice);
+
+      await send(gateway, alice, MESSAGE_TYPES.CHAT_MESSAGE, { roomId: "r1", content: "hi" });
+      await send(gateway, alice, MESSAGE_TYPES.ROOM_JOIN, { roomId: "dm:other" });
+
+      expect(alice.ofType(MESSAGE_TYPES.ERROR)).toEqual([
+        expect.objectContaining({ code: "not_in_room" }),
+        expect.objectContaining({ code: "forbidden_room" }),
+      ]);
+      expect(gateway.stats().rooms).toBe(0);
+    });
+
+    it("cleans up rooms when connections close", async () => {
+      const alice = connection("alice");
+      gateway.connect(alice);
+      await send(gateway, alice, MESSAGE_TYPES.ROOM_JOIN, { roomId: "r1" });
+
+      gateway.disconnect(alice);
+
+      expect(gateway.stats()).toEqual({ connections: 0, users: 0, rooms: 0 });
+    });
+  });
+
+  describe("presence", () => {
+    it("reports current status on subscribe and changes afterwards", async () => {
+      const watcher = connection("watcher");
+      const bobPhone = connection("bob");
+      const bobLaptop = connection("bob");
+      gateway.connect(watcher);
+      gateway.connect(bobPhone);
+
+      await send(gateway, watcher, MESSAGE_TYPES.PRESENCE_SUBSCRIBE, { userIds: ["bob", "carol"] });
+      gateway.connect(bobLaptop);
+      await send(gateway, bobLaptop, MESSAGE_TYPES.PRESENCE_UPDATE, { status: "away" });
+      gateway.disconnect(bobPhone);
+      now += 1000;
+      gateway.disconnect(bobLaptop);
+
+      expect(watcher.ofType(MESSAGE_TYPES.PRESENCE_UPDATE)).toEqual([
+        { userId: "bob", status: "online" },
+        { userId: "carol", status: "offline" },
+        { userId: "bob", status: "away" },
+        { userId: "bob", status: "offline", lastSeen: new Date(now).toISOString() },
+      ]);
+    });
+  });
+
+  describe("publish and sync", () => {
+    it("fans out to every connection of the user and replays missed events", async () => {
+      const phone = connection("alice");
+      const laptop = connection("alice");
+      gateway.connect(phone);
+      gateway.connect(laptop);
+
+      const delivered = gateway.publish(["alice", "bob"], MESSAGE_TYPES.PET_UPDATE, { petId: "p1", action: "created" });
+      expect(delivered).toBe(2);
+      expect(phone.ofType(MESSAGE_TYPES.PET_UPDATE)).toEqual([{ petId: "p1", action: "created" }]);
+
+      // bob은 접속해 있지 않았지만 재접속 후 동기화로 받음
+      now += 1000;
+      const bob = connection("bob");
+      gateway.connect(bob);
+      await send(gateway, bob, MESSAGE_TYPES.SYNC_REQUEST, { since: now - 5000 });
+
+      const [response] = bob.ofType(MESSAGE_TYPES.SYNC_RESPONSE) as { events: WebSocketMessage[]; serverTime: number }[];
+      expect(response.serverTime).toBe(now);
+      expect(response.events.map((e) => e.payload)).toEqual([{ petId: "p1", action: "created" }]);
+    });
+
+    it("keeps only the latest events and honours since", async () => {
+      const alice = connection("alice");
+      gateway.connect(alice);
+
+      for (let i = 1; i <= 5; i++) {
+        now += 1000;
+        gateway.publish(["alice"], MESSAGE_TYPES.NOTIFICATION, { id: `n${i}` });
+      }
+      await send(gateway, alice, MESSAGE_TYPES.SYNC_REQUEST, { since: now - 1500 });
+      await send(gateway, alice, MESSAGE_TYPES.SYNC_REQUEST, {});
+
+      const responses = alice.ofType(MESSAGE_TYPES.SYNC_RESPONSE) as { events: WebSocketMessage[] }[];
+      expect(responses[0].events.map((e) => (e.payload as { id: string }).id)).toEqual(["n4", "n5"]);
+      expect(responses[1].events.map((e) => (e.payload as { id: string }).id)).toEqual(["n3", "n4", "n5"]);
+    });
+
+    it("syncs notification reads across the user's connections", async () => {
+      const phone = connection("alice");
+      const laptop = connection("alice");
+      gateway.connect(phone);
+      gateway.connect(laptop);
+      gateway.publish(["alice"], MESSAGE_TYPES.NOTIFICATION, { id: "n1" });
+
+      await send(gateway, phone, MESSAGE_TYPES.NOTIFICATION_READ, { id: "n1" });
+      await send(gateway, phone, MESSAGE_TYPES.SYNC_REQUEST, {});
+
+      expect(laptop.ofType(MESSAGE_TYPES.NOTIFICATION_READ)).toEqual([{ id: "n1" }]);
+      expect(phone.ofType(MESSAGE_TYPES.NOTIFICATION_READ)).toEqual([]);
+      expect(phone.ofType(MESSAGE_TYPES.SYNC_RESPONSE)).toEqual([{ events: [], serverTime: now }]);
+    });
+  });
+});
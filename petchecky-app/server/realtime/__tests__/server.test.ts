@@ -0,0 +1,159 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ *
+ * Realtime gateway end-to-end tests (real HTTP + WebSocket on a random port)
+ */
+
+import { createHmac } from "crypto";
+import { request } from "http";
+import { WebSocket } from "ws";
+import { verifySupabaseJwt } from "../auth";
+import { readGatewayConfig } from "../config";
+import { startGateway, type RunningGateway } from "../index";
+import { MESSAGE_TYPES, type WebSocketMessage } from "../../../src/lib/websocket";
+
+const JWT_SECRET = "test-jwt-secret";
+const PUBLISH_SECRET = "test-publish-secret";
+
+function signToken(claims: Record<string, unknown>, secret = JWT_SECRET): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createHmac("sha256", secret).update(unsigned).digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+// jsdom 환경에는 fetch가 없어 http 모듈로 요청
+function postJson(url: string, authorization: string, body: unknown): Promise<{ status: number; body: unknown }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: "POST", headers: { "Content-Type": "application/json", Authorization: authorization } },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => (data += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+      }
+    );
+    req.on("error", reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+function userToken(sub: string, expiresInSeconds = 3600): string {
+  return signToken({
+    sub,
+    email: `${sub}@example.com`,
+    aud: "authenticated",
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+  });
+}
+
+describe("verifySupabaseJwt", () => {
+  it("accepts valid tokens and rejects tampered, expired or foreign ones", () => {
+    expect(verifySupabaseJwt(userToken("alice"), JWT_SECRET)).toEqual({ id: "alice", email: "alice@example.com" });
+    expect(verifySupabaseJwt(userToken("alice"), "other-secret")).toBeNull();
+    expect(verifySupabaseJwt(userToken("alice", -10), JWT_SECRET)).toBeNull();
+    expect(verifySupabaseJwt(signToken({ sub: "svc", aud: "service", exp: 9999999999 }), JWT_SECRET)).toBeNull();
+    expect(verifySupabaseJwt("not.a.token", JWT_SECRET)).toBeNull();
+  });
+});
+
+describe("gateway server", () => {
+  let running: RunningGateway;
+  let baseUrl: string;
+  const sockets: WebSocket[] = [];
+
+  beforeAll(async () => {
+    const config = {
+      ...readGatewayConfig({}),
+      port: 0,
+      jwtSecret: JWT_SECRET,
+      publishSecret: PUBLISH_SECRET,
+    };
+    running = await startGateway(config);
+    baseUrl = `localhost:${running.port}`;
+  });
+
+  afterAll(async () => {
+    sockets.forEach((socket) => socket.terminate());
+    await running.close();
+  });
+
+  // 연결 직후부터 받은 메시지를 모아두고, 원하는 타입이 올 때까지 기다림
+  async function connect(token: string) {
+    const socket = new WebSocket(`ws://${baseUrl}/?access_token=${token}`);
+    sockets.push(socket);
+    const received: WebSocketMessage[] = [];
+    socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+
+    const next = (type: string) =>
+      new Promise<WebSocketMessage>((resolve) => {
+        const check = () => {
+          const index = received.findIndex((m) => m.type === type);
+          if (index >= 0) {
+            resolve(received.splice(index, 1)[0]);
+          } else {
+            setTimeout(check, 10);
+          }
+        };
+        check();
+      });
+
+    const send = (type: string, payload: unknown) =>
+      socket.send(JSON.stringify({ type, payload, timestamp: Date.now() }));
+
+    return { socket, next, send };
+  }
+
+  it("rejects connections without a valid token", async () => {
+    const socket = new WebSocket(`ws://${baseUrl}/?access_token=${userToken("alice", -10)}`);
+    const status = await new Promise((resolve) => socket.once("unexpected-response", (_req, res) => resolve(res.statusCode)));
+    expect(status).toBe(401);
+  });
+
+  it("relays room chat between authenticated users", async () => {
+    const alice = await connect(userToken("alice"));
+    const bob = await connect(userToken("bob"));
+
+    alice.send(MESSAGE_TYPES.PING, null);
+    await alice.next(MESSAGE_TYPES.PONG);
+
+    alice.send(MESSAGE_TYPES.ROOM_JOIN, { roomId: "room-1" });
+    bob.send(MESSAGE_TYPES.ROOM_JOIN, { roomId: "room-1" });
+    // join 처리 후 메시지를 보내도록 ping 왕복으로 순서 보장
+    bob.send(MESSAGE_TYPES.PING, null);
+    await bob.next(MESSAGE_TYPES.PONG);
+
+    alice.send(MESSAGE_TYPES.CHAT_MESSAGE, { roomId: "room-1", content: "안녕하세요" });
+    const message = await bob.next(MESSAGE_TYPES.CHAT_MESSAGE);
+
+    expect(message.payload).toMatchObject({ roomId: "room-1", senderId: "alice", content: "안녕하세요" });
+  });
+
+  it("publishes server events with the shared secret only", async () => {
+    const carol = await connect(userToken("carol"));
+    const publish = (authorization: string, body: unknown) => postJson(`http://${baseUrl}/publish`, authorization, body);
+
+    const unauthorized = await publish("Bearer wrong", { userIds: ["carol"], type: MESSAGE_TYPES.NOTIFICATION });
+    expect(unauthorized.status).toBe(401);
+
+    const invalid = await publish(`Bearer ${PUBLISH_SECRET}`, { userIds: ["carol"], type: MESSAGE_TYPES.CHAT_MESSAGE });
+    expect(invalid.status).toBe(400);
+
+    const response = await publish(`Bearer ${PUBLISH_SECRET}`, {
+      userIds: ["carol"],
+      type: MESSAGE_TYPES.NOTIFICATION,
+      payload: { id: "n1", title: "예방접종 알림", body: "내일입니다", type: "info" },
+    });
+    expect(response.body).toEqual({ delivered: 1 });
+    expect((await carol.next(MESSAGE_TYPES.NOTIFICATION)).payload).toMatchObject({ id: "n1" });
+
+    carol.send(MESSAGE_TYPES.SYNC_REQUEST, { since: 0 });
+    const sync = await carol.next(MESSAGE_TYPES.SYNC_RESPONSE);
+    expect((sync.payload as { events: WebSocketMessage[] }).events).toHaveLength(1);
+  });
+});
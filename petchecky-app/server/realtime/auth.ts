@@ -0,0 +1,82 @@
+/**
+ * 게이트웨이 접속 인증
+ *
+ * 브라우저 WebSocket은 헤더를 보낼 수 없으므로 Supabase access token을 쿼리(?access_token=)로 받습니다.
+ * SUPABASE_JWT_SECRET이 있으면 HS256 서명을 직접 검증하고(로컬 개발/통합 테스트),
+ * 없으면 Supabase Auth(getUser)에 토큰을 확인합니다.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { GatewayConfig } from './config';
+
+export interface GatewayUser {
+  id: string;
+  email?: string;
+}
+
+export type TokenVerifier = (token: string) => Promise<GatewayUser | null>;
+
+interface SupabaseJwtClaims {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  aud?: string | string[];
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Supabase access token(HS256) 검증
+ * 서명, 만료, audience(authenticated)를 확인하고 사용자 정보를 돌려줍니다.
+ */
+export function verifySupabaseJwt(token: string, secret: string, now: number = Date.now()): GatewayUser | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [headerSegment, claimsSegment, signatureSegment] = parts;
+  const header = decodeSegment<{ alg?: string }>(headerSegment);
+  if (header?.alg !== 'HS256') return null;
+
+  const expected = createHmac('sha256', secret).update(`${headerSegment}.${claimsSegment}`).digest();
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  const claims = decodeSegment<SupabaseJwtClaims>(claimsSegment);
+  if (!claims?.sub) return null;
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes('authenticated')) return null;
+
+  return { id: claims.sub, email: claims.email };
+}
+
+export function createTokenVerifier(config: GatewayConfig): TokenVerifier {
+  if (config.jwtSecret) {
+    const secret = config.jwtSecret;
+    return async (token) => verifySupabaseJwt(token, secret);
+  }
+
+  if (!config.supabaseUrl || !config.supabaseKey) {
+    throw new Error('SUPABASE_JWT_SECRET or NEXT_PUBLIC_SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY is required');
+  }
+
+  const supabase = createClient(config.supabaseUrl, config.supabaseKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) return null;
+    return { id: data.user.id, email: data.user.email };
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * 게이트웨이 환경 변수
+ */
+
+export interface GatewayConfig {
+  port: number;
+  /** 접속을 허용할 Origin (비어 있으면 모두 허용) */
+  allowedOrigins: string[];
+  jwtSecret?: string;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  /** POST /publish 인증용 (Next 서버와 같은 값) */
+  publishSecret?: string;
+  /** 사용자별로 보관하는 이벤트 수 (sync:request 응답용) */
+  historyLimit: number;
+  heartbeatIntervalMs: number;
+}
+
+const DEFAULT_PORT = 3001;
+const DEFAULT_HISTORY_LIMIT = 100;
+// 클라이언트 heartbeat(30초)보다 길게
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 45 * 1000;
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function readGatewayConfig(env: Record<string, string | undefined> = process.env): GatewayConfig {
+  return {
+    port: parsePositiveInt(env.REALTIME_GATEWAY_PORT || env.PORT, DEFAULT_PORT),
+    allowedOrigins: (env.REALTIME_ALLOWED_ORIGINS || '')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    jwtSecret: env.SUPABASE_JWT_SECRET || undefined,
+    supabaseUrl: env.NEXT_PUBLIC_SUPABASE_URL || undefined,
+    supabaseKey: env.SUPABASE_SERVICE_ROLE_KEY || undefined,
+    publishSecret: env.REALTIME_GATEWAY_SECRET || undefined,
+    historyLimit: parsePositiveInt(env.REALTIME_HISTORY_LIMIT, DEFAULT_HISTORY_LIMIT),
+    heartbeatIntervalMs: DEFAULT_HEARTBEAT_INTERVAL_MS,
+  };
+}
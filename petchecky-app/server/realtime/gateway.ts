@@ -0,0 +1,442 @@
+/**
+ * 실시간 게이트웨이 (lib/websocket.ts 프로토콜의 서버 측)
+ *
+ * 소켓 구현과 분리된 상태 관리만 담당합니다 (index.ts가 ws 연결을 GatewayConnection으로 감싸 넘김).
+ * - 방(room): room:join 한 연결끼리 chat:message / chat:typing / chat:read 전달
+ * - 접속 상태(presence): 사용자의 첫 연결이 열리면 online, 마지막 연결이 닫히면 offline
+ * - 서버 발행(publish): 알림, 펫 기록 변경, 건강 알림을 사용자의 모든 연결로 전달하고 보관
+ * - 동기화(sync:request): 재접속한 클라이언트에 since 이후 보관된 이벤트를 다시 보냄
+ *
+ * 방 참여자와 접속 상태는 메모리에만 있으므로 게이트웨이는 단일 인스턴스로 실행합니다.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  MESSAGE_TYPES,
+  type ChatMessagePayload,
+  type ErrorPayload,
+  type PresencePayload,
+  type SyncResponsePayload,
+  type TypingPayload,
+  type WebSocketMessage,
+} from '../../src/lib/websocket';
+import { anonymizeEmail } from '../../src/lib/sanitize';
+import type { GatewayUser } from './auth';
+
+export interface GatewayConnection {
+  id: string;
+  user: GatewayUser;
+  send: (data: string) => void;
+}
+
+export type RoomAuthorizer = (user: GatewayUser, roomId: string) => Promise<boolean>;
+
+export interface RealtimeGatewayOptions {
+  historyLimit?: number;
+  authorizeRoom?: RoomAuthorizer;
+  now?: () => number;
+}
+
+// 서버(POST /publish)에서만 보낼 수 있는 메시지
+export const PUBLISHABLE_TYPES: ReadonlySet<string> = new Set([
+  MESSAGE_TYPES.NOTIFICATION,
+  MESSAGE_TYPES.PET_UPDATE,
+  MESSAGE_TYPES.HEALTH_ALERT,
+]);
+
+const CHAT_MESSAGE_MAX_LENGTH = 1000;
+const ROOM_ID_MAX_LENGTH = 100;
+const PRESENCE_SUBSCRIBE_LIMIT = 100;
+
+interface ConnectionState {
+  connection: GatewayConnection;
+  rooms: Set<string>;
+  watching: Set<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRoomId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= ROOM_ID_MAX_LENGTH;
+}
+
+export class RealtimeGateway {
+  private states = new Map<string, ConnectionState>();
+  private userConnections = new Map<string, Set<string>>();
+  private rooms = new Map<string, Set<string>>();
+  private presence = new Map<string, PresencePayload>();
+  private presenceWatchers = new Map<string, Set<string>>();
+  private history = new Map<string, WebSocketMessage[]>();
+
+  private readonly historyLimit: number;
+  private readonly authorizeRoom: RoomAuthorizer;
+  private readonly now: () => number;
+
+  constructor(options: RealtimeGatewayOptions = {}) {
+    this.historyLimit = options.historyLimit ?? 100;
+    this.authorizeRoom = options.authorizeRoom ?? (async () => true);
+    this.now = options.now ?? Date.now;
+  }
+
+  // ============================================
+  // Connection Lifecycle
+  // ============================================
+
+  connect(connection: GatewayConnection): void {
+    this.states.set(connection.id, { connection, rooms: new Set(), watching: new Set() });
+
+    const userId = connection.user.id;
+    const connections = this.userConnections.get(userId) ?? new Set<string>();
+    connections.add(connection.id);
+    this.userConnections.set(userId, connections);
+
+    if (connections.size === 1) {
+      this.setPresence(userId, 'online');
+    }
+  }
+
+  disconnect(connection: GatewayConnection): void {
+    const state = this.states.get(connection.id);
+    if (!state) return;
+
+    state.rooms.forEach((roomId) => this.removeFromSet(this.rooms, roomId, connection.id));
+    state.watching.forEach((userId) => this.removeFromSet(this.presenceWatchers, userId, connection.id));
+    this.states.delete(connection.id);
+
+    const userId = connection.user.id;
+    this.removeFromSet(this.userConnections, userId, connection.id);
+    if (!this.userConnections.has(userId)) {
+      this.setPresence(userId, 'offline');
+    }
+  }
+
+  // ============================================
+  // Incoming Messages
+  // ============================================
+
+  async handleMessage(connection: GatewayConnection, raw: string): Promise<void> {
+    const state = this.states.get(connection.id);
+    if (!state) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.sendError(connection, 'invalid_message', '메시지 형식이 올바르지 않습니다');
+      return;
+    }
+
+    if (!isRecord(message) || typeof message.type !== 'string') {
+      this.sendError(connection, 'invalid_message', '메시지 형식이 올바르지 않습니다');
+      return;
+    }
+
+    const payload = isRecord(message.payload) ? message.payload : {};
+
+    switch (message.type) {
+      case MESSAGE_TYPES.PING:
+        this.sendTo(connection, MESSAGE_TYPES.PONG, null);
+        return;
+
+      case MESSAGE_TYPES.PRESENCE_UPDATE:
+        if (payload.status === 'online' || payload.status === 'away') {
+          this.setPresence(connection.user.id, payload.status);
+        }
+        return;
+
+      case MESSAGE_TYPES.PRESENCE_SUBSCRIBE:
+        this.subscribePresence(state, payload.userIds);
+        return;
+
+      case MESSAGE_TYPES.ROOM_JOIN:
+        await this.joinRoom(state, payload.roomId);
+        return;
+
+      case MESSAGE_TYPES.ROOM_LEAVE:
+        if (isRoomId(payload.roomId)) {
+          state.rooms.delete(payload.roomId);
+          this.removeFromSet(this.rooms, payload.roomId, connection.id);
+        }
+        return;
+
+      case MESSAGE_TYPES.CHAT_MESSAGE:
+        this.handleChatMessage(state, payload);
+        return;
+
+      case MESSAGE_TYPES.CHAT_TYPING:
+        if (this.requireRoom(state, payload.roomId)) {
+          const typing: TypingPayload = {
+            userId: connection.user.id,
+            roomId: payload.roomId,
+            isTyping: payload.isTyping === true,
+          };
+          this.broadcastToRoom(payload.roomId, MESSAGE_TYPES.CHAT_TYPING, typing, connection.id);
+        }
+        return;
+
+      case MESSAGE_TYPES.CHAT_READ:
+        if (this.requireRoom(state, payload.roomId)) {
+          this.broadcastToRoom(
+            payload.roomId,
+            MESSAGE_TYPES.CHAT_READ,
+            {
+              roomId: payload.roomId,
+              userId: connection.user.id,
+              messageId: typeof payload.messageId === 'string' ? payload.messageId : undefined,
+              readAt: new Date(this.now()).toISOString(),
+            },
+            connection.id
+          );
+        }
+        return;
+
+      case MESSAGE_TYPES.NOTIFICATION_READ:
+        if (typeof payload.id === 'string') {
+          this.handleNotificationRead(connection, payload.id);
+        }
+        return;
+
+      case MESSAGE_TYPES.SYNC_REQUEST:
+        this.handleSyncRequest(connection, payload.since);
+        return;
+
+      default:
+        this.sendError(connection, 'unknown_type', `지원하지 않는 메시지입니다: ${message.type}`);
+    }
+  }
+
+  // ============================================
+  // Server Publish
+  // ============================================
+
+  /**
+   * 사용자들의 모든 연결로 전달하고, 재접속 동기화를 위해 보관
+   * @returns 전달된 연결 수
+   */
+  publish(userIds: string[], type: string, payload: unknown): number {
+    const message = this.createMessage(type, payload);
+    const data = JSON.stringify(message);
+    let delivered = 0;
+
+    for (const userId of new Set(userIds)) {
+      this.remember(userId, message);
+
+      this.userConnections.get(userId)?.forEach((connectionId) => {
+        const state = this.states.get(connectionId);
+        if (state && this.deliver(state.connection, data)) delivered++;
+      });
+    }
+
+    return delivered;
+  }
+
+  stats(): { connections: number; users: number; rooms: number } {
+    return {
+      connections: this.states.size,
+      users: this.userConnections.size,
+      rooms: this.rooms.size,
+    };
+  }
+
+  // ============================================
+  // Rooms & Chat
+  // ============================================
+
+  private async joinRoom(state: ConnectionState, roomId: unknown): Promise<void> {
+    const { connection } = state;
+    if (!isRoomId(roomId)) {
+      this.sendError(connection, 'invalid_room', '방 정보가 올바르지 않습니다');
+      return;
+    }
+
+    const allowed = await this.authorizeRoom(connection.user, roomId).catch(() => false);
+    // 권한 확인 중에 연결이 닫혔을 수 있음
+    if (!this.states.has(connection.id)) return;
+
+    if (!allowed) {
+      this.sendError(connection, 'forbidden_room', '참여할 수 없는 방입니다');
+      return;
+    }
+
+    state.rooms.add(roomId);
+    const members = this.rooms.get(roomId) ?? new Set<string>();
+    members.add(connection.id);
+    this.rooms.set(roomId, members);
+  }
+
+  private requireRoom(state: ConnectionState, roomId: unknown): roomId is string {
+    if (isRoomId(roomId) && state.rooms.has(roomId)) return true;
+
+    this.sendError(state.connection, 'not_in_room', '먼저 방에 참여해주세요');
+    return false;
+  }
+
+  private handleChatMessage(state: ConnectionState, payload: Record<string, unknown>): void {
+    if (!this.requireRoom(state, payload.roomId)) return;
+
+    const content = typeof payload.content === 'string' ? payload.content.trim() : '';
+    if (!content || content.length > CHAT_MESSAGE_MAX_LENGTH) {
+      this.sendError(state.connection, 'invalid_message', `메시지는 1~${CHAT_MESSAGE_MAX_LENGTH}자로 입력해주세요`);
+      return;
+    }
+
+    // 보낸 사람 정보는 클라이언트 값을 믿지 않고 인증된 사용자로 채움
+    const { user } = state.connection;
+    const chatMessage: ChatMessagePayload = {
+      id: randomUUID(),
+      senderId: user.id,
+      senderName: anonymizeEmail(user.email || ''),
+      content,
+      roomId: payload.roomId as string,
+      createdAt: new Date(this.now()).toISOString(),
+    };
+
+    // 보낸 사람의 화면도 수신 메시지로 목록을 갱신하므로 본인 연결에도 보냄
+    this.broadcastToRoom(chatMessage.roomId, MESSAGE_TYPES.CHAT_MESSAGE, chatMessage);
+  }
+
+  private broadcastToRoom(roomId: string, type: string, payload: unknown, exceptConnectionId?: string): void {
+    const data = JSON.stringify(this.createMessage(type, payload));
+
+    this.rooms.get(roomId)?.forEach((connectionId) => {
+      if (connectionId === exceptConnectionId) return;
+      const state = this.states.get(connectionId);
+      if (state) this.deliver(state.connection, data);
+    });
+  }
+
+  // ============================================
+  // Presence
+  // ============================================
+
+  private subscribePresence(state: ConnectionState, userIds: unknown): void {
+    if (!Array.isArray(userIds)) {
+      this.sendError(state.connection, 'invalid_message', '사용자 목록이 올바르지 않습니다');
+      return;
+    }
+
+    const next = new Set(
+      userIds.filter((id): id is string => typeof id === 'string').slice(0, PRESENCE_SUBSCRIBE_LIMIT)
+    );
+
+    // 구독 목록은 매번 새로 받은 목록으로 교체
+    state.watching.forEach((userId) => {
+      if (!next.has(userId)) this.removeFromSet(this.presenceWatchers, userId, state.connection.id);
+    });
+
+    next.forEach((userId) => {
+      const watchers = this.presenceWatchers.get(userId) ?? new Set<string>();
+      watchers.add(state.connection.id);
+      this.presenceWatchers.set(userId, watchers);
+
+      this.sendTo(
+        state.connection,
+        MESSAGE_TYPES.PRESENCE_UPDATE,
+        this.presence.get(userId) ?? { userId, status: 'offline' }
+      );
+    });
+
+    state.watching = next;
+  }
+
+  private setPresence(userId: string, status: PresencePayload['status']): void {
+    const presence: PresencePayload = { userId, status };
+    if (status === 'offline') {
+      presence.lastSeen = new Date(this.now()).toISOString();
+    }
+    this.presence.set(userId, presence);
+
+    const watchers = this.presenceWatchers.get(userId);
+    if (!watchers) return;
+
+    const data = JSON.stringify(this.createMessage(MESSAGE_TYPES.PRESENCE_UPDATE, presence));
+    watchers.forEach((connectionId) => {
+      const state = this.states.get(connectionId);
+      if (state) this.deliver(state.connection, data);
+    });
+  }
+
+  // ============================================
+  // Notifications & Sync
+  // ============================================
+
+  private handleNotificationRead(connection: GatewayConnection, notificationId: string): void {
+    const userId = connection.user.id;
+    const events = this.history.get(userId);
+    if (events) {
+      this.history.set(
+        userId,
+        events.filter(
+          (event) =>
+            !(
+              event.type === MESSAGE_TYPES.NOTIFICATION &&
+              isRecord(event.payload) &&
+              event.payload.id === notificationId
+            )
+        )
+      );
+    }
+
+    // 같은 사용자의 다른 탭/기기에서도 읽음 처리
+    const data = JSON.stringify(this.createMessage(MESSAGE_TYPES.NOTIFICATION_READ, { id: notificationId }));
+    this.userConnections.get(userId)?.forEach((connectionId) => {
+      if (connectionId === connection.id) return;
+      const state = this.states.get(connectionId);
+      if (state) this.deliver(state.connection, data);
+    });
+  }
+
+  private handleSyncRequest(connection: GatewayConnection, since: unknown): void {
+    const after = typeof since === 'number' && Number.isFinite(since) ? since : 0;
+    const events = (this.history.get(connection.user.id) ?? []).filter((event) => event.timestamp > after);
+
+    const response: SyncResponsePayload = { events, serverTime: this.now() };
+    this.sendTo(connection, MESSAGE_TYPES.SYNC_RESPONSE, response);
+  }
+
+  private remember(userId: string, message: WebSocketMessage): void {
+    const events = this.history.get(userId) ?? [];
+    events.push(message);
+    if (events.length > this.historyLimit) {
+      events.splice(0, events.length - this.historyLimit);
+    }
+    this.history.set(userId, events);
+  }
+
+  // ============================================
+  // Helpers
+  // ============================================
+
+  private createMessage<T>(type: string, payload: T): WebSocketMessage<T> {
+    return { type, payload, timestamp: this.now(), id: randomUUID() };
+  }
+
+  private sendTo(connection: GatewayConnection, type: string, payload: unknown): void {
+    this.deliver(connection, JSON.stringify(this.createMessage(type, payload)));
+  }
+
+  private sendError(connection: GatewayConnection, code: string, message: string): void {
+    const payload: ErrorPayload = { code, message };
+    this.sendTo(connection, MESSAGE_TYPES.ERROR, payload);
+  }
+
+  private deliver(connection: GatewayConnection, data: string): boolean {
+    try {
+      connection.send(data);
+      return true;
+    } catch (error) {
+      console.error('[Realtime] Send failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private removeFromSet(map: Map<string, Set<string>>, key: string, value: string): void {
+    const set = map.get(key);
+    if (!set) return;
+
+    set.delete(value);
+    if (set.size === 0) map.delete(key);
+  }
+}
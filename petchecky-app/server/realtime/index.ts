@@ -0,0 +1,251 @@
+/**
+ * 실시간 게이트웨이 서버 (Next 앱과 별도 프로세스)
+ *
+ * - ws://<host>:<port>/?access_token=<Supabase access token> : 클라이언트 연결 (lib/websocket.ts)
+ * - POST /publish (Authorization: Bearer <REALTIME_GATEWAY_SECRET>) : Next 서버에서 알림/펫 변경 발행
+ * - GET /health : 연결 수 확인
+ *
+ * 실행: npm run realtime
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { Duplex } from 'stream';
+import { createClient } from '@supabase/supabase-js';
+import { WebSocketServer, WebSocket } from 'ws';
+import { createTokenVerifier, type GatewayUser, type TokenVerifier } from './auth';
+import { readGatewayConfig, type GatewayConfig } from './config';
+import { PUBLISHABLE_TYPES, RealtimeGateway, type GatewayConnection, type RoomAuthorizer } from './gateway';
+
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+const PUBLISH_USER_LIMIT = 1000;
+
+export interface RunningGateway {
+  port: number;
+  gateway: RealtimeGateway;
+  close: () => Promise<void>;
+}
+
+interface PublishRequest {
+  userIds: string[];
+  type: string;
+  payload: unknown;
+}
+
+/**
+ * 1:1 메시지 방(dm:<conversationId>)은 대화 참여자만 들어올 수 있음
+ * Supabase 설정이 없는 로컬 실행에서는 모든 방을 허용합니다.
+ */
+function createRoomAuthorizer(config: GatewayConfig): RoomAuthorizer | undefined {
+  if (!config.supabaseUrl || !config.supabaseKey) return undefined;
+
+  const supabase = createClient(config.supabaseUrl, config.supabaseKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return async (user, roomId) => {
+    if (!roomId.startsWith('dm:')) return true;
+
+    const { data, error } = await supabase
+      .from('direct_conversations')
+      .select('id')
+      .eq('id', roomId.slice(3))
+      .or(`user_a.eq.${user.id},user_b.eq.${user.id}`)
+      .maybeSingle();
+
+    return !error && data !== null;
+  };
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PAYLOAD_BYTES) {
+        reject(new Error('Payload too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+function parsePublishRequest(body: string): PublishRequest | null {
+  try {
+    const data = JSON.parse(body) as Partial<PublishRequest>;
+    if (
+      !Array.isArray(data.userIds) ||
+      data.userIds.length === 0 ||
+      data.userIds.length > PUBLISH_USER_LIMIT ||
+      !data.userIds.every((id) => typeof id === 'string') ||
+      typeof data.type !== 'string' ||
+      !PUBLISHABLE_TYPES.has(data.type)
+    ) {
+      return null;
+    }
+    return { userIds: data.userIds, type: data.type, payload: data.payload ?? null };
+  } catch {
+    return null;
+  }
+}
+
+async function handleHttpRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  gateway: RealtimeGateway,
+  config: GatewayConfig
+): Promise<void> {
+  const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+  if (request.method === 'GET' && pathname === '/health') {
+    sendJson(response, 200, { status: 'ok', ...gateway.stats() });
+    return;
+  }
+
+  if (request.method === 'POST' && pathname === '/publish') {
+    if (!config.publishSecret) {
+      sendJson(response, 503, { error: 'Publishing is not configured' });
+      return;
+    }
+    const authorization = Buffer.from(request.headers.authorization || '');
+    const expected = Buffer.from(`Bearer ${config.publishSecret}`);
+    if (authorization.length !== expected.length || !timingSafeEqual(authorization, expected)) {
+      sendJson(response, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    const body = await readBody(request).catch(() => null);
+    const publish = body === null ? null : parsePublishRequest(body);
+    if (!publish) {
+      sendJson(response, 400, { error: 'Invalid publish request' });
+      return;
+    }
+
+    const delivered = gateway.publish(publish.userIds, publish.type, publish.payload);
+    sendJson(response, 200, { delivered });
+    return;
+  }
+
+  sendJson(response, 404, { error: 'Not found' });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function startGateway(
+  config: GatewayConfig = readGatewayConfig(),
+  verifyToken: TokenVerifier = createTokenVerifier(config)
+): Promise<RunningGateway> {
+  const gateway = new RealtimeGateway({
+    historyLimit: config.historyLimit,
+    authorizeRoom: createRoomAuthorizer(config),
+  });
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  const server = createServer((request, response) => {
+    handleHttpRequest(request, response, gateway, config).catch((error) => {
+      console.error('[Realtime] HTTP error:', error instanceof Error ? error.message : error);
+      if (!response.headersSent) sendJson(response, 500, { error: 'Internal error' });
+    });
+  });
+
+  server.on('upgrade', async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const origin = request.headers.origin;
+    if (config.allowedOrigins.length > 0 && (!origin || !config.allowedOrigins.includes(origin))) {
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    const token = new URL(request.url || '/', 'http://localhost').searchParams.get('access_token');
+    const user: GatewayUser | null = token ? await verifyToken(token).catch(() => null) : null;
+    if (!user) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      const connection: GatewayConnection = {
+        id: randomUUID(),
+        user,
+        send: (data) => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(data);
+        },
+      };
+
+      alive.set(ws, true);
+      gateway.connect(connection);
+
+      ws.on('pong', () => alive.set(ws, true));
+      ws.on('message', (data) => {
+        alive.set(ws, true);
+        gateway.handleMessage(connection, data.toString()).catch((error) => {
+          console.error('[Realtime] Message error:', error instanceof Error ? error.message : error);
+        });
+      });
+      ws.on('close', () => gateway.disconnect(connection));
+      ws.on('error', (error) => console.error('[Realtime] Socket error:', error.message));
+    });
+  });
+
+  // 응답 없는 연결 정리 (브라우저 탭이 강제 종료된 경우 close 이벤트가 오지 않음)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, config.heartbeatIntervalMs);
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      clearInterval(heartbeat);
+      wss.clients.forEach((ws) => ws.close(1001, 'Server shutting down'));
+      wss.close();
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : config.port;
+      resolve({ port, gateway, close });
+    });
+  });
+}
+
+if (require.main === module) {
+  startGateway()
+    .then(({ port, close }) => {
+      console.log(`[Realtime] Gateway listening on ws://localhost:${port}`);
+
+      const shutdown = () => {
+        console.log('[Realtime] Shutting down');
+        close().then(() => process.exit(0));
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch((error) => {
+      console.error('[Realtime] Failed to start:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+import { ModerationDashboard } from "@/components/dashboard";
+
+export const metadata: Metadata = {
+  title: "Community Moderation | Admin | 펫체키",
+  description: "커뮤니티 신고/검토 관리",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function ModerationPage() {
+  return <ModerationDashboard />;
+}
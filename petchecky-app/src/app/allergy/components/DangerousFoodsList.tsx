@@ -1,20 +1,21 @@
 "use client";
 
+import { getSpecies } from "@/lib/species";
 import { Pet } from "../types";
-import { DANGEROUS_FOODS } from "../constants";
 
 interface DangerousFoodsListProps {
   selectedPet: Pet | undefined;
 }
 
 export default function DangerousFoodsList({ selectedPet }: DangerousFoodsListProps) {
-  const dangerousFoods = selectedPet ? DANGEROUS_FOODS[selectedPet.species] : DANGEROUS_FOODS.dog;
+  const species = getSpecies(selectedPet?.species);
+  const dangerousFoods = species.toxicFoods;
 
   return (
     <div className="space-y-4">
       <div className="rounded-2xl bg-red-50 border border-red-200 p-4 dark:bg-red-900/20 dark:border-red-800">
         <p className="text-sm text-red-800 dark:text-red-300">
-          ⚠️ 아래 식품들은 {selectedPet?.species === "cat" ? "고양이" : "강아지"}에게 <strong>절대 주면 안 됩니다</strong>
+          ⚠️ 아래 식품들은 {species.names.ko}에게 <strong>절대 주면 안 됩니다</strong>
         </p>
       </div>
 
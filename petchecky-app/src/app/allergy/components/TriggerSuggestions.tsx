@@ -0,0 +1,59 @@
+"use client";
+
+import { TRIGGER_WINDOW_HOURS, type TriggerSuggestion } from "@/lib/dietAllergy";
+
+interface TriggerSuggestionsProps {
+  suggestions: TriggerSuggestion[];
+  reactionCount: number;
+  restrictedFoods: string[];
+  onRestrict: (foodName: string) => void;
+}
+
+// 보여줄 의심 음식 수
+const MAX_SUGGESTIONS = 3;
+
+export default function TriggerSuggestions({ suggestions, reactionCount, restrictedFoods, onRestrict }: TriggerSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl bg-orange-50 border border-orange-200 p-5 dark:bg-orange-900/20 dark:border-orange-800">
+      <h3 className="font-bold text-gray-800 dark:text-white">🔍 의심되는 음식</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-3">
+        식품 알레르기 반응 {reactionCount}회 전 {TRIGGER_WINDOW_HOURS}시간 안에 먹은 음식이에요
+      </p>
+
+      <ul className="space-y-2">
+        {suggestions.slice(0, MAX_SUGGESTIONS).map(suggestion => {
+          const restricted = restrictedFoods.includes(suggestion.foodName);
+          return (
+            <li
+              key={suggestion.foodName}
+              className="flex items-center justify-between gap-3 rounded-xl bg-white px-4 py-3 dark:bg-gray-800"
+            >
+              <div>
+                <p className="font-medium text-gray-800 dark:text-white">{suggestion.foodName}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  반응 전 {suggestion.reactionCount}/{reactionCount}회 · 식사 기록 {suggestion.mealCount}회
+                  {suggestion.allergens.length > 0 && (
+                    <span className="text-red-600 dark:text-red-400"> · {suggestion.allergens.join(", ")} 포함</span>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => onRestrict(suggestion.foodName)}
+                disabled={restricted}
+                className={`shrink-0 px-3 py-1.5 rounded-full text-xs font-medium ${
+                  restricted
+                    ? "bg-gray-200 text-gray-400 dark:bg-gray-600"
+                    : "bg-white border border-gray-200 text-gray-700 hover:border-red-400 hover:text-red-500 dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300"
+                }`}
+              >
+                {restricted ? "제한 중" : "+ 식이 제한"}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -3,3 +3,4 @@ export { default as AllergyFormModal } from "./AllergyFormModal";
 export { default as RestrictionFormModal } from "./RestrictionFormModal";
 export { default as ReactionFormModal } from "./ReactionFormModal";
 export { default as DangerousFoodsList } from "./DangerousFoodsList";
+export { default as TriggerSuggestions } from "./TriggerSuggestions";
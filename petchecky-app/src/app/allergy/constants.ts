@@ -1,3 +1,4 @@
+import type { PetSpecies } from "@/lib/species";
 import { AllergyType } from "./types";
 
 export const ALLERGY_TYPES: { value: AllergyType; label: string; icon: string; color: string }[] = [
@@ -7,7 +8,9 @@ export const ALLERGY_TYPES: { value: AllergyType; label: string; icon: string; c
   { value: "contact", label: "접촉 알레르기", icon: "🧴", color: "blue" },
 ];
 
-export const COMMON_ALLERGENS = {
+// 종별 흔한 알레르겐 (준비되지 않은 종은 GENERIC_ALLERGENS 사용)
+// 위험 음식은 종 레지스트리(lib/species.ts)의 toxicFoods를 사용
+export const COMMON_ALLERGENS: Partial<Record<PetSpecies, Record<AllergyType, string[]>>> = {
   dog: {
     food: ["소고기", "닭고기", "돼지고기", "유제품", "밀", "옥수수", "콩", "계란", "생선"],
     environmental: ["집먼지진드기", "꽃가루", "곰팡이", "풀", "벼룩"],
@@ -22,34 +25,18 @@ export const COMMON_ALLERGENS = {
   },
 };
 
+export const GENERIC_ALLERGENS: Record<AllergyType, string[]> = {
+  food: ["사료/펠릿 성분", "과일", "채소", "씨앗/견과류"],
+  environmental: ["집먼지진드기", "꽃가루", "곰팡이", "담배연기", "베딩(깔짚)"],
+  medication: ["항생제", "구충제", "마취제"],
+  contact: ["세제", "향수/방향제", "플라스틱"],
+};
+
 export const COMMON_SYMPTOMS = [
   "가려움증", "피부 발진", "귀 감염", "구토", "설사", "재채기",
   "눈물", "발 핥기", "탈모", "두드러기", "얼굴 부기", "호흡곤란"
 ];
 
-export const DANGEROUS_FOODS = {
-  dog: [
-    { name: "초콜릿", danger: "high" as const, effect: "테오브로민 중독" },
-    { name: "포도/건포도", danger: "high" as const, effect: "급성 신부전" },
-    { name: "양파/마늘", danger: "high" as const, effect: "적혈구 손상" },
-    { name: "자일리톨", danger: "high" as const, effect: "저혈당, 간부전" },
-    { name: "아보카도", danger: "medium" as const, effect: "구토, 설사" },
-    { name: "카페인", danger: "high" as const, effect: "심장/신경계 이상" },
-    { name: "알코올", danger: "high" as const, effect: "중추신경 억제" },
-    { name: "마카다미아", danger: "medium" as const, effect: "무기력, 구토" },
-  ],
-  cat: [
-    { name: "초콜릿", danger: "high" as const, effect: "테오브로민 중독" },
-    { name: "양파/마늘", danger: "high" as const, effect: "적혈구 손상" },
-    { name: "알코올", danger: "high" as const, effect: "중추신경 억제" },
-    { name: "카페인", danger: "high" as const, effect: "심장/신경계 이상" },
-    { name: "포도/건포도", danger: "high" as const, effect: "신부전 가능" },
-    { name: "날생선", danger: "medium" as const, effect: "티아민 결핍" },
-    { name: "우유", danger: "low" as const, effect: "유당불내증" },
-    { name: "날계란", danger: "medium" as const, effect: "살모넬라" },
-  ],
-};
-
 export const getSeverityColor = (severity: string) => {
   switch (severity) {
     case "severe": return "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400";
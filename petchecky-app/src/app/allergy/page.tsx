@@ -1,19 +1,25 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { v4 as uuidv4 } from "uuid";
 import { Allergy, AllergyReaction, DietaryRestriction, Pet } from "./types";
-import { ALLERGY_TYPES, COMMON_ALLERGENS } from "./constants";
+import { ALLERGY_TYPES, COMMON_ALLERGENS, GENERIC_ALLERGENS } from "./constants";
 import {
   AllergyCard,
   AllergyFormModal,
   RestrictionFormModal,
   ReactionFormModal,
   DangerousFoodsList,
+  TriggerSuggestions,
 } from "./components";
+import { getSpeciesData, getSpeciesEmoji } from "@/lib/species";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import { collectDietAllergens, suggestReactionTriggers } from "@/lib/dietAllergy";
 
 export default function AllergyPage() {
+  const { user, getAccessToken } = useAuth();
   const [allergies, setAllergies] = useState<Allergy[]>([]);
   const [restrictions, setRestrictions] = useState<DietaryRestriction[]>([]);
   const [pets, setPets] = useState<Pet[]>([]);
@@ -23,6 +29,11 @@ export default function AllergyPage() {
   const [showRestrictionForm, setShowRestrictionForm] = useState(false);
   const [showReactionForm, setShowReactionForm] = useState<Allergy | null>(null);
   const [typeFilter, setTypeFilter] = useState<string>("all");
+  const { records: dietLogs } = usePetRecords(
+    "diet-logs",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
 
   // Load data
   useEffect(() => {
@@ -61,7 +72,7 @@ export default function AllergyPage() {
   }, [restrictions]);
 
   const selectedPet = pets.find(p => p.id === selectedPetId);
-  const allergens = selectedPet ? COMMON_ALLERGENS[selectedPet.species] : COMMON_ALLERGENS.dog;
+  const allergens = getSpeciesData(COMMON_ALLERGENS, selectedPet?.species ?? "dog", GENERIC_ALLERGENS);
 
   const handleAddAllergy = (data: Omit<Allergy, "id" | "petId" | "reactions">) => {
     const newAllergy: Allergy = {
@@ -129,6 +140,16 @@ export default function AllergyPage() {
 
   const petRestrictions = restrictions.filter(r => r.petId === selectedPetId);
 
+  // 식품 알레르기 반응과 직전 식사 기록 비교
+  const foodReactions = useMemo(
+    () => allergies.filter(a => a.petId === selectedPetId && a.type === "food").flatMap(a => a.reactions),
+    [allergies, selectedPetId]
+  );
+  const triggerSuggestions = useMemo(
+    () => suggestReactionTriggers(foodReactions, dietLogs, collectDietAllergens(selectedPetId, allergies, restrictions)),
+    [foodReactions, dietLogs, selectedPetId, allergies, restrictions]
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-red-50 to-white dark:from-gray-900 dark:to-gray-800">
       {/* Header */}
@@ -156,7 +177,7 @@ export default function AllergyPage() {
                     : "bg-white border border-gray-200 text-gray-700 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -229,6 +250,13 @@ export default function AllergyPage() {
               ))}
             </div>
 
+            <TriggerSuggestions
+              suggestions={triggerSuggestions}
+              reactionCount={foodReactions.length}
+              restrictedFoods={petRestrictions.map(r => r.ingredient)}
+              onRestrict={handleQuickAddRestriction}
+            />
+
             {/* Allergy List */}
             {filteredAllergies.length === 0 ? (
               <div className="text-center py-12">
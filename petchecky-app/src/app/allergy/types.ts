@@ -1,3 +1,5 @@
+import type { PetSpecies } from "@/lib/species";
+
 export interface Allergy {
   id: string;
   petId: string;
@@ -31,7 +33,7 @@ export interface DietaryRestriction {
 export interface Pet {
   id: string;
   name: string;
-  species: "dog" | "cat";
+  species: PetSpecies;
 }
 
 export type AllergyType = Allergy["type"];
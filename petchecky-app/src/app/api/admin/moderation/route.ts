@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeApiAccess } from "@/lib/auth";
+import {
+  applyModerationAction,
+  listCommunityBans,
+  listModerationItems,
+} from "@/lib/communityModeration";
+import { ApiErrors, createErrorResponse, ERROR_CODES, getErrorMessage } from "@/lib/errors";
+import { extractClientIp } from "@/lib/security";
+import { logSecurityEvent } from "@/lib/securityLogger";
+import { validateModerationAction, validateModerationQueueQuery } from "@/lib/validations/moderation";
+
+const REQUIRED_PERMISSIONS = ["admin:moderation"];
+
+// 관리자 확인 (로그인 안 됨 401, 권한 없음 403)
+async function authorizeAdmin(request: NextRequest) {
+  const { authorized, user, error } = await authorizeApiAccess(
+    request.headers.get("authorization"),
+    REQUIRED_PERMISSIONS
+  );
+
+  if (!user) {
+    return { response: ApiErrors.unauthorized() };
+  }
+  if (!authorized) {
+    return {
+      response: createErrorResponse({
+        code: ERROR_CODES.UNAUTHORIZED,
+        message: error || "이 작업을 수행할 권한이 없습니다.",
+        status: 403,
+      }),
+    };
+  }
+  return { admin: user };
+}
+
+// GET: 검토 목록 (?view=queue|hidden|bans)
+export async function GET(request: NextRequest) {
+  try {
+    const { admin, response } = await authorizeAdmin(request);
+    if (!admin) {
+      return response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateModerationQueueQuery({
+      view: searchParams.get("view") ?? undefined,
+    });
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { view } = validation.data;
+    if (view === "bans") {
+      return NextResponse.json({ bans: await listCommunityBans() });
+    }
+    return NextResponse.json({ items: await listModerationItems(view) });
+  } catch (error) {
+    console.error("Moderation queue error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 숨김/복구/신고 종료/이용 제한/제한 해제 (모든 작업은 감사 기록을 남김)
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, response } = await authorizeAdmin(request);
+    if (!admin) {
+      return response;
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateModerationAction(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const input = validation.data;
+    const result = await applyModerationAction(admin.id, input);
+    if (!result) {
+      return ApiErrors.notFound("userId" in input ? "사용자" : "대상");
+    }
+
+    logSecurityEvent(
+      "admin_action",
+      {
+        ip: extractClientIp(request.headers),
+        path: request.nextUrl.pathname,
+        method: request.method,
+        userAgent: request.headers.get("user-agent") || undefined,
+        userId: admin.id,
+      },
+      `moderation:${input.action}`,
+      { ...input, targetUserId: result.userId }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Moderation action error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
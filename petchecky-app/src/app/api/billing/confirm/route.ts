@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { issueBillingKey, chargeBilling, getOrderName } from "@/lib/toss";
 import { authenticateRequest, supabaseAdmin } from "@/lib/auth";
+import { retryWithNewCard } from "@/lib/billing";
+import { getPlanPrice } from "@/lib/billing/proration";
+import { monthlyVetConsultations } from "@/lib/billing/schedule";
 import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { PREMIUM_ACCESS_STATUSES } from "@/types/subscription";
 
 interface ConfirmRequest {
   authKey: string;
@@ -34,15 +38,16 @@ export async function POST(request: NextRequest) {
       return ApiErrors.invalidInput("ko", "유효하지 않은 플랜입니다.");
     }
 
-    // 1. 기존 활성 구독 확인
+    // 1. 기존 활성 구독 확인 (결제 실패 중인 구독은 새 카드로 다시 결제)
     const { data: existingSub } = await supabaseAdmin
       .from("subscriptions")
-      .select("id")
+      .select("id, status")
       .eq("user_id", userId)
-      .eq("status", "active")
-      .single();
+      .in("status", PREMIUM_ACCESS_STATUSES)
+      .limit(1)
+      .maybeSingle();
 
-    if (existingSub) {
+    if (existingSub && existingSub.status !== "payment_failed") {
       return ApiErrors.invalidInput("ko", "이미 활성화된 구독이 있습니다.");
     }
 
@@ -55,8 +60,37 @@ export async function POST(request: NextRequest) {
       return ApiErrors.invalidInput("ko", error instanceof Error ? error.message : "빌링키 발급에 실패했습니다.");
     }
 
+    // 결제 실패 중: 결제 수단을 바꾸고 밀린 결제를 바로 다시 시도
+    if (existingSub) {
+      const retry = await retryWithNewCard(existingSub.id, {
+        billingKey: billingData.billingKey,
+        customerKey,
+        cardCompany: billingData.card?.company || null,
+        cardNumber: billingData.card?.number || null,
+      });
+
+      if (!retry.success) {
+        return ApiErrors.invalidInput(
+          "ko",
+          retry.error === "in_progress"
+            ? "결제가 처리 중입니다. 잠시 후 다시 확인해주세요."
+            : retry.message || "결제에 실패했습니다."
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        subscription: {
+          id: existingSub.id,
+          plan_type: retry.planType,
+          current_period_end: retry.periodEnd,
+        },
+        message: "결제 수단이 변경되어 구독이 다시 활성화되었습니다!",
+      });
+    }
+
     // 3. 첫 결제 실행
-    const price = planType === "premium" ? 5900 : 9900;
+    const price = getPlanPrice(planType);
     const orderId = `SUB_${userId.slice(0, 8)}_${Date.now()}`;
     const orderName = getOrderName(planType);
 
@@ -92,7 +126,7 @@ export async function POST(request: NextRequest) {
         status: "active",
         current_period_start: now.toISOString(),
         current_period_end: periodEnd.toISOString(),
-        vet_consultations_remaining: planType === "premium_plus" ? 2 : 0,
+        vet_consultations_remaining: monthlyVetConsultations(planType),
       })
       .select()
       .single();
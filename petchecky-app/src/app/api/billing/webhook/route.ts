@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reconcileTossPayment } from "@/lib/billing";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getPayment, TossPaymentError } from "@/lib/toss";
+import { validateTossWebhook } from "@/lib/validations/billing";
+
+/**
+ * POST: 토스페이먼츠 웹훅 (개발자센터 > 웹훅에 https://<도메인>/api/billing/webhook 등록)
+ *
+ * 결제 상태 변경 웹훅에는 서명이 없으므로 본문의 paymentKey로 결제 조회 API를 호출해
+ * 시크릿 키로 받은 결제 정보만 반영합니다. 200이 아니면 토스가 재전송합니다.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const validation = validateTossWebhook(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { eventType, data } = validation.data;
+    if (eventType !== "PAYMENT_STATUS_CHANGED") {
+      return NextResponse.json({ success: true, result: "ignored" });
+    }
+
+    let payment;
+    try {
+      payment = await getPayment(data.paymentKey);
+    } catch (error) {
+      if (error instanceof TossPaymentError && error.status === 404) {
+        return ApiErrors.notFound("Payment");
+      }
+      throw error;
+    }
+
+    if (payment.orderId !== data.orderId) {
+      return ApiErrors.invalidInput("ko", "주문 정보가 일치하지 않습니다.");
+    }
+
+    const result = await reconcileTossPayment(payment);
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error("Toss webhook error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
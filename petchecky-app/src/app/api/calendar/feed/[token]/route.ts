@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { buildFeedCalendar, findFeedOwner, parseFeedToken } from "@/lib/calendarFeed";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// GET: iCal 구독 피드 (캘린더 앱이 로그인 없이 주기적으로 가져감)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { allowed } = checkRateLimit(
+      `calendar-feed:${getClientIdentifier(request)}`,
+      RATE_LIMITS.READS_PER_MINUTE,
+      RATE_LIMITS.READS_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const token = parseFeedToken((await params).token);
+    const userId = token ? await findFeedOwner(token) : null;
+    if (!userId) {
+      return ApiErrors.notFound("캘린더");
+    }
+
+    const calendar = await buildFeedCalendar(userId);
+    if (!calendar) {
+      return ApiErrors.serverError();
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="petchecky.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getOrCreateFeedToken, rotateFeedToken } from "@/lib/calendarFeed";
+
+function feedUrl(request: NextRequest, token: string): string {
+  return new URL(`/api/calendar/feed/${token}.ics`, request.nextUrl.origin).toString();
+}
+
+// GET: 내 캘린더 구독 주소 (없으면 발급)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const token = await getOrCreateFeedToken(user.id);
+    if (!token) {
+      return ApiErrors.serverError();
+    }
+
+    return NextResponse.json({ url: feedUrl(request, token) });
+  } catch (error) {
+    console.error("Calendar feed fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 구독 주소 재발급 (이전 주소는 더 이상 동작하지 않음)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const token = await rotateFeedToken(user.id);
+    if (!token) {
+      return ApiErrors.serverError();
+    }
+
+    return NextResponse.json({ url: feedUrl(request, token) }, { status: 201 });
+  } catch (error) {
+    console.error("Calendar feed rotate error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
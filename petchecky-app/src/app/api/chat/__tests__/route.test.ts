@@ -8,9 +8,28 @@
  * - Error handling
  */
 
+import { TextEncoder, TextDecoder } from 'util';
+import { ReadableStream } from 'stream/web';
 import { NextRequest } from 'next/server';
 import { POST } from '../route';
 import { LIMITS } from '@/lib/constants';
+import { readSSEStream, type SSEEvent } from '@/lib/sse';
+
+// jsdom 환경에는 스트림 API와 Response가 없으므로 스트리밍 테스트용으로 채움
+class StreamingResponse {
+  status: number;
+  headers: Map<string, string>;
+
+  constructor(public body: ReadableStream<Uint8Array>, init: { status?: number; headers?: Record<string, string> } = {}) {
+    this.status = init.status ?? 200;
+    this.headers = new Map(Object.entries(init.headers || {}));
+  }
+}
+
+Object.assign(global, { TextEncoder, TextDecoder, ReadableStream });
+if (typeof global.Response === 'undefined') {
+  Object.assign(global, { Response: StreamingResponse });
+}
 
 // Mock dependencies
 jest.mock('@/lib/supabase', () => ({
@@ -34,10 +53,12 @@ global.fetch = mockFetch;
 
 import { getUsage, incrementUsage } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
+import { analyzeCombinedSeverity } from '@/lib/severity';
 
 const mockGetUsage = getUsage as jest.MockedFunction<typeof getUsage>;
 const mockIncrementUsage = incrementUsage as jest.MockedFunction<typeof incrementUsage>;
 const mockAuthenticateRequest = authenticateRequest as jest.MockedFunction<typeof authenticateRequest>;
+const mockAnalyzeCombinedSeverity = analyzeCombinedSeverity as jest.MockedFunction<typeof analyzeCombinedSeverity>;
 
 // Helper to create mock NextRequest
 function createMockRequest(body: object, headers: Record<string, string> = {}): NextRequest {
@@ -469,4 +490,253 @@ describe('Chat API', () => {
       // The API should only use the last 4 messages
     });
   });
+
+  describe('LLM provider selection', () => {
+    // 다른 테스트와 rate limit 버킷을 공유하지 않도록 별도 사용자 사용
+    const providerUserAuth = {
+      ...freeUserAuth,
+      user: { id: 'user-provider', email: 'provider@example.com' },
+    };
+
+    afterEach(() => {
+      delete process.env.LLM_PROVIDER;
+      delete process.env.LLM_FALLBACK_PROVIDER;
+    });
+
+    it('should answer with the fake provider without calling fetch', async () => {
+      process.env.LLM_PROVIDER = 'fake';
+      delete process.env.GEMINI_API_KEY;
+      mockAuthenticateRequest.mockResolvedValue(providerUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+
+      const response = await POST(createMockRequest(validChatBody));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toContain('[fake]');
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockIncrementUsage).toHaveBeenCalledWith('user-provider');
+    });
+
+    it('should fall back when Gemini returns 5xx', async () => {
+      process.env.LLM_FALLBACK_PROVIDER = 'fake';
+      mockAuthenticateRequest.mockResolvedValue(providerUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        text: async () => 'Service unavailable',
+      });
+
+      const response = await POST(createMockRequest(validChatBody));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(data.message).toContain('[fake]');
+    });
+  });
+
+  describe('Structured triage', () => {
+    const triageUserAuth = {
+      ...freeUserAuth,
+      user: { id: 'user-triage', email: 'triage@example.com' },
+    };
+
+    function mockGeminiText(text: string) {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text }] } }],
+        }),
+      });
+    }
+
+    it('should use the triage block instead of keyword severity', async () => {
+      mockAuthenticateRequest.mockResolvedValue(triageUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+      mockGeminiText(
+        '응급 상황은 아니에요. 하루 정도 지켜봐 주세요.\n' +
+          '<triage>{"severity":"low","suspectedCauses":["스트레스"],"redFlags":["구토"],"vetTimeframe":"monitor"}</triage>'
+      );
+
+      const response = await POST(createMockRequest(validChatBody));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe('응급 상황은 아니에요. 하루 정도 지켜봐 주세요.');
+      expect(data.severity).toBe('low');
+      expect(data.triage).toEqual({
+        severity: 'low',
+        suspectedCauses: ['스트레스'],
+        redFlags: ['구토'],
+        vetTimeframe: 'monitor',
+      });
+      expect(mockAnalyzeCombinedSeverity).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to keyword severity when the block is invalid', async () => {
+      mockAuthenticateRequest.mockResolvedValue(triageUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+      mockAnalyzeCombinedSeverity.mockReturnValueOnce('medium');
+      mockGeminiText('답변 본문\n<triage>{"severity":"unknown"}</triage>');
+
+      const response = await POST(createMockRequest(validChatBody));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe('답변 본문');
+      expect(data.severity).toBe('medium');
+      expect(data.triage).toBeUndefined();
+    });
+  });
+
+  describe('Pet health records', () => {
+    const recordsUserAuth = {
+      ...freeUserAuth,
+      user: { id: 'user-records', email: 'records@example.com' },
+    };
+
+    const healthRecords = {
+      allergies: [{ name: '닭고기', severity: 'severe' }],
+      medications: [{ name: '심장사상충약', dosage: '1정' }],
+      vetVisits: [{ date: '2026-05-10', diagnosis: '외이염' }],
+      overdueVaccines: [],
+    };
+
+    it('should include shared records in the prompt and response', async () => {
+      mockAuthenticateRequest.mockResolvedValue(recordsUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+      mockFetch.mockResolvedValue(mockGeminiResponse);
+
+      const response = await POST(createMockRequest({ ...validChatBody, healthRecords }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).contents[0].parts[0].text;
+      expect(prompt).toContain('- 알레르기: 닭고기 (심각)');
+      expect(prompt).toContain('- 복용 중인 약: 심장사상충약 1정');
+      expect(data.sharedRecords).toEqual([
+        { category: 'allergy', label: '닭고기' },
+        { category: 'medication', label: '심장사상충약' },
+        { category: 'vetVisit', label: '2026-05-10 외이염' },
+      ]);
+    });
+
+    it('should not include records when the user has not opted in', async () => {
+      mockAuthenticateRequest.mockResolvedValue(recordsUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+      mockFetch.mockResolvedValue(mockGeminiResponse);
+
+      const response = await POST(createMockRequest(validChatBody));
+      const data = await response.json();
+
+      const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).contents[0].parts[0].text;
+      expect(prompt).not.toContain('건강 기록 (보호자가 공유함)');
+      expect(data.sharedRecords).toBeUndefined();
+    });
+  });
+
+  describe('Streaming', () => {
+    const streamUserAuth = {
+      ...freeUserAuth,
+      user: { id: 'user-stream', email: 'stream@example.com' },
+    };
+
+    // Gemini streamGenerateContent(alt=sse) 응답 본문 (failAfter번째 조각 대신 연결 오류)
+    function geminiStream(texts: string[], failAfter?: number): ReadableStream<Uint8Array> {
+      const encoder = new TextEncoder();
+      let index = 0;
+      return new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (index === failAfter) {
+            controller.error(new Error('connection reset'));
+          } else if (index >= texts.length) {
+            controller.close();
+          } else {
+            const chunk = { candidates: [{ content: { parts: [{ text: texts[index] }] } }] };
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\r\n\r\n`));
+          }
+          index++;
+        },
+      });
+    }
+
+    async function readEvents(response: Response): Promise<SSEEvent[]> {
+      const events: SSEEvent[] = [];
+      for await (const event of readSSEStream(response.body as unknown as globalThis.ReadableStream<Uint8Array>)) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    beforeEach(() => {
+      mockAuthenticateRequest.mockResolvedValue(streamUserAuth);
+      mockGetUsage.mockResolvedValue(0);
+    });
+
+    it('should stream token events and finish with a done event', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        body: geminiStream([
+          '펫체키: 응급 상황은 ',
+          '아니에요.\n<triage>{"severity":"low","suspectedCauses":[],',
+          '"redFlags":[],"vetTimeframe":"monitor"}</triage>',
+        ]),
+      });
+
+      const response = await POST(createMockRequest({ ...validChatBody, stream: true }));
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+
+      const events = await readEvents(response as unknown as Response);
+      const tokens = events.filter((event) => event.event === 'token');
+      const done = events.filter((event) => event.event === 'done');
+
+      expect(tokens.map((event) => JSON.parse(event.data).text).join('')).toBe('응급 상황은 아니에요.\n');
+      expect(done).toHaveLength(1);
+      expect(JSON.parse(done[0].data)).toEqual({
+        message: '응급 상황은 아니에요.',
+        severity: 'low',
+        triage: { severity: 'low', suspectedCauses: [], redFlags: [], vetTimeframe: 'monitor' },
+      });
+      expect(mockFetch.mock.calls[0][0]).toContain('streamGenerateContent?alt=sse');
+      expect(mockIncrementUsage).toHaveBeenCalledTimes(1);
+      expect(mockIncrementUsage).toHaveBeenCalledWith('user-stream');
+    });
+
+    it('should fall back to keyword severity when the streamed block is invalid', async () => {
+      mockAnalyzeCombinedSeverity.mockReturnValueOnce('high');
+      mockFetch.mockResolvedValue({
+        ok: true,
+        body: geminiStream(['바로 병원에 가주세요.', '\n<triage>{"severity":"unknown"}</triage>']),
+      });
+
+      const response = await POST(createMockRequest({ ...validChatBody, stream: true }));
+      const events = await readEvents(response as unknown as Response);
+      const done = JSON.parse(events[events.length - 1].data);
+
+      expect(events[events.length - 1].event).toBe('done');
+      expect(done.message).toBe('바로 병원에 가주세요.');
+      expect(done.severity).toBe('high');
+      expect(done.triage).toBeUndefined();
+      expect(mockIncrementUsage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send an error event and not count usage when the stream fails', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetch.mockResolvedValue({
+        ok: true,
+        body: geminiStream(['첫 번째 조각 ', '두 번째 조각'], 1),
+      });
+
+      const response = await POST(createMockRequest({ ...validChatBody, stream: true }));
+      const events = await readEvents(response as unknown as Response);
+
+      expect(events.map((event) => event.event)).toEqual(['token', 'error']);
+      expect(JSON.parse(events[1].data).severity).toBe('low');
+      expect(mockIncrementUsage).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+  });
 });
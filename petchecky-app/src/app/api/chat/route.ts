@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getUsage, incrementUsage } from "@/lib/supabase";
 import { authenticateRequest, sanitizeUserInput, sanitizePetProfile } from "@/lib/auth";
-import { LIMITS, API_CONFIG, RATE_LIMITS } from "@/lib/constants";
+import { LIMITS, RATE_LIMITS } from "@/lib/constants";
 import { getErrorMessage } from "@/lib/errors";
 import { analyzeCombinedSeverity } from "@/lib/severity";
+import { extractTriage, getTriageInstruction, hideTriageBlock } from "@/lib/triage";
+import { buildPetHealthSummary } from "@/lib/petHealthSummary";
+import { describeSpeciesForPrompt } from "@/lib/species";
+import { describeBreedForPrompt } from "@/lib/breeds";
 import { validateChatRequest } from "@/lib/validations/chat";
 import { checkRateLimit, getClientIdentifier } from "@/lib/rateLimit";
+import { encodeSSE } from "@/lib/sse";
+import { getLLMProvider, LLMProviderError, type LLMPart } from "@/lib/llm";
+import type { Severity } from "@/lib/constants";
+import type { Triage } from "@/lib/validations/triage";
+import type { SharedHealthRecord } from "@/types/chat";
 
 const SYSTEM_PROMPT = `당신은 반려동물 건강 상담 AI 전문가 "펫체키"입니다.
 
@@ -24,7 +33,137 @@ const SYSTEM_PROMPT = `당신은 반려동물 건강 상담 AI 전문가 "펫체
 주의:
 - 불필요하게 불안감을 조성하지 마세요
 - 반려동물 정보(종류, 품종, 나이, 체중)를 고려하세요
-- 절대 JSON 형식으로 응답하지 마세요. 일반 텍스트로만 응답하세요.`;
+- 건강 기록이 주어지면 알레르기와 복용 중인 약, 최근 진단을 고려해 답하세요
+- 본문에는 JSON이나 코드 블록을 쓰지 마세요. (마지막 triage 블록만 예외)
+
+${getTriageInstruction("ko")}`;
+
+const ASSISTANT_PREFIX = "펫체키:";
+const FALLBACK_MESSAGE = "증상에 대해 더 자세히 설명해주시겠어요?";
+const GENERIC_ERROR_MESSAGE = "죄송합니다. 일시적인 오류가 발생했어요. 잠시 후 다시 시도해주세요.";
+
+// 응답 텍스트 정리
+function cleanResponseText(rawText: string): string {
+  return rawText
+    .replace(/^펫체키:\s*/i, "")
+    .replace(/```[\s\S]*?```/g, "")
+    .trim();
+}
+
+// 스트리밍 중 화면에 보여줄 텍스트 (접두어와 triage 블록 제외, 코드 블록 정리는 최종 이벤트에서)
+function visibleStreamText(rawText: string): string {
+  const trimmed = rawText.trimStart();
+  // 접두어가 아직 다 도착하지 않았으면 보류
+  if (ASSISTANT_PREFIX.startsWith(trimmed)) return "";
+  return hideTriageBlock(trimmed.replace(/^펫체키:\s*/i, ""));
+}
+
+// LLM 프로바이더 오류를 사용자 응답으로 변환 (스트리밍 여부와 관계없이 동일)
+function handleProviderError(error: unknown): NextResponse {
+  if (error instanceof LLMProviderError) {
+    // Rate limit 처리
+    if (error.status === 429) {
+      return NextResponse.json(
+        {
+          message: "현재 많은 분들이 이용 중이에요. 잠시 후 다시 시도해주세요.",
+          severity: "low"
+        },
+        { status: 429 }
+      );
+    }
+
+    // API 키 오류
+    if (error.status === 400 || error.status === 403) {
+      return NextResponse.json(
+        {
+          message: "서비스 연결에 문제가 있어요. 잠시 후 다시 시도해주세요.",
+          severity: "low"
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  throw error;
+}
+
+// 응답 확정에 필요한 요청 정보
+interface ResponseContext {
+  userMessage: string;
+  countUsageFor: string | null;
+  // 건강 기록 사용 시 프롬프트에 실제로 포함된 항목
+  sharedRecords?: SharedHealthRecord[];
+}
+
+/**
+ * 최종 응답 확정: 위험도 판단 + 사용량 증가
+ * 스트리밍/일반 응답 모두 완성된 전체 텍스트로 한 번만 실행합니다.
+ */
+async function finalizeResponse(
+  rawText: string,
+  { userMessage, countUsageFor, sharedRecords }: ResponseContext
+): Promise<{ message: string; severity: Severity; triage?: Triage; sharedRecords?: SharedHealthRecord[] }> {
+  const { text, triage } = extractTriage(rawText);
+  const cleanMessage = cleanResponseText(text);
+
+  // 모델의 triage 블록을 우선 사용하고, 없거나 형식이 틀리면 키워드 분석으로 대체
+  const severity = triage?.severity ?? analyzeCombinedSeverity(userMessage, cleanMessage);
+
+  // 로그인 사용자 사용량 증가 (프리미엄 구독자는 카운트 제외)
+  if (countUsageFor) {
+    await incrementUsage(countUsageFor);
+  }
+
+  return {
+    message: cleanMessage || FALLBACK_MESSAGE,
+    severity,
+    ...(triage && { triage }),
+    ...(sharedRecords && { sharedRecords }),
+  };
+}
+
+/**
+ * LLM 텍스트 스트림을 클라이언트용 SSE로 중계합니다.
+ * - token: { text } 새로 도착한 텍스트 조각
+ * - done: { message, severity, triage?, sharedRecords? } 정리된 전체 응답
+ * - error: { message } 중간 실패
+ */
+function createChatEventStream(
+  upstream: AsyncIterable<string>,
+  context: ResponseContext
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(encodeSSE(event, data)));
+      };
+
+      let rawText = "";
+      let sentLength = 0;
+
+      try {
+        for await (const chunk of upstream) {
+          rawText += chunk;
+
+          const visible = visibleStreamText(rawText);
+          if (visible.length > sentLength) {
+            send("token", { text: visible.slice(sentLength) });
+            sentLength = visible.length;
+          }
+        }
+
+        send("done", await finalizeResponse(rawText, context));
+      } catch (error) {
+        console.error("Chat stream error:", getErrorMessage(error));
+        send("error", { message: GENERIC_ERROR_MESSAGE, severity: "low" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -78,7 +217,7 @@ export async function POST(request: NextRequest) {
     }
 
     const validatedData = validation.data;
-    const { message, petProfile: rawPetProfile, history, image } = validatedData;
+    const { message, petProfile: rawPetProfile, history, image, stream, healthRecords } = validatedData;
 
     // 이미지 분석은 프리미엄+ 전용 (서버에서 검증된 구독 상태 사용)
     if (image && !isPremiumPlus) {
@@ -122,8 +261,8 @@ export async function POST(request: NextRequest) {
       content: sanitizeUserInput(msg.content),
     }));
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    const provider = getLLMProvider();
+    if (!provider) {
       return NextResponse.json(
         { message: "서비스 설정이 완료되지 않았습니다. 관리자에게 문의해주세요.", severity: "low" },
         { status: 500 }
@@ -131,13 +270,22 @@ export async function POST(request: NextRequest) {
     }
 
     // 정제된 데이터로 컨텍스트 생성
+    const breedContext = describeBreedForPrompt(petProfile);
     const petContext = `
 반려동물 정보:
 - 이름: ${petProfile.name}
-- 종류: ${petProfile.species === "dog" ? "강아지" : "고양이"}
 - 품종: ${petProfile.breed}
 - 나이: ${petProfile.age}세
-- 체중: ${petProfile.weight}kg`;
+- 체중: ${petProfile.weight}kg
+${describeSpeciesForPrompt(petProfile.species)}${breedContext ? `\n${breedContext}` : ""}`;
+
+    // 보호자가 건강 기록 사용을 켠 경우에만 요약 포함 (항목별 정제 + 토큰 예산)
+    const healthSummary = healthRecords
+      ? buildPetHealthSummary(healthRecords, { sanitize: sanitizeUserInput })
+      : null;
+    const healthContext = healthSummary?.text
+      ? `\n\n건강 기록 (보호자가 공유함):\n${healthSummary.text}`
+      : "";
 
     const conversationHistory = sanitizedHistory
       .map((msg: { role: string; content: string }) => `${msg.role === "user" ? "보호자" : "펫체키"}: ${msg.content}`)
@@ -151,105 +299,61 @@ export async function POST(request: NextRequest) {
     // 정제된 메시지 사용
     const fullPrompt = `${SYSTEM_PROMPT}${imagePrompt}
 
-${petContext}
+${petContext}${healthContext}
 
 ${conversationHistory ? `이전 대화:\n${conversationHistory}\n` : ""}
 보호자: ${sanitizedMessage}
 
 펫체키:`;
 
-    // API 요청 본문 구성
-    const parts: Array<{ text: string } | { inline_data: { mime_type: string; data: string } }> = [];
-
-    // 이미지가 있으면 먼저 추가
+    // 멀티모달 입력 구성 (이미지가 있으면 먼저 추가)
+    const parts: LLMPart[] = [];
     if (image) {
-      parts.push({
-        inline_data: {
-          mime_type: image.mimeType,
-          data: image.data,
-        },
-      });
+      parts.push({ type: "image", mimeType: image.mimeType, data: image.data });
     }
+    parts.push({ type: "text", text: fullPrompt });
+
+    const llmRequest = { parts, temperature: 0.7, maxOutputTokens: 2048 };
+
+    const responseContext: ResponseContext = {
+      userMessage: message,
+      // 프리미엄 구독자는 사용량 카운트 제외
+      countUsageFor: userId && !isPremium ? userId : null,
+      sharedRecords: healthSummary?.shared,
+    };
+
+    // 스트리밍 모드: 토큰 단위로 SSE 중계
+    if (stream) {
+      let upstream: AsyncIterable<string>;
+      try {
+        upstream = await provider.stream(llmRequest);
+      } catch (error) {
+        return handleProviderError(error);
+      }
 
-    // 텍스트 프롬프트 추가
-    parts.push({ text: fullPrompt });
-
-    const response = await fetch(
-      `${API_CONFIG.GEMINI_BASE_URL}/${API_CONFIG.GEMINI_MODEL}:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
+      return new Response(createChatEventStream(upstream, responseContext), {
         headers: {
-          "Content-Type": "application/json",
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
         },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts,
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Gemini API Error:", response.status, error);
-
-      // Rate limit 처리
-      if (response.status === 429) {
-        return NextResponse.json(
-          {
-            message: "현재 많은 분들이 이용 중이에요. 잠시 후 다시 시도해주세요.",
-            severity: "low"
-          },
-          { status: 429 }
-        );
-      }
-
-      // API 키 오류
-      if (response.status === 400 || response.status === 403) {
-        return NextResponse.json(
-          {
-            message: "서비스 연결에 문제가 있어요. 잠시 후 다시 시도해주세요.",
-            severity: "low"
-          },
-          { status: 500 }
-        );
-      }
-
-      throw new Error("Gemini API 요청 실패");
+      });
     }
 
-    const data = await response.json();
-    const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-    // 응답 텍스트 정리
-    const cleanMessage = rawText
-      .replace(/^펫체키:\s*/i, "")
-      .replace(/```[\s\S]*?```/g, "")
-      .trim();
-
-    // 위험도 자동 판단 (공통 유틸리티 사용)
-    const severity = analyzeCombinedSeverity(message, cleanMessage);
-
-    // 로그인 사용자 사용량 증가 (프리미엄 구독자는 카운트 제외)
-    if (userId && !isPremium) {
-      await incrementUsage(userId);
+    let rawText: string;
+    try {
+      ({ text: rawText } = await provider.generate(llmRequest));
+    } catch (error) {
+      return handleProviderError(error);
     }
 
-    return NextResponse.json({
-      message: cleanMessage || "증상에 대해 더 자세히 설명해주시겠어요?",
-      severity,
-    });
+    return NextResponse.json(await finalizeResponse(rawText, responseContext));
   } catch (error) {
     console.error("Chat API Error:", getErrorMessage(error));
     return NextResponse.json(
       {
-        message: "죄송합니다. 일시적인 오류가 발생했어요. 잠시 후 다시 시도해주세요.",
+        message: GENERIC_ERROR_MESSAGE,
         severity: "low",
       },
       { status: 500 }
@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getComments, createComment, deleteComment, getCommunityPost } from '@/lib/supabase';
+import { getCommunityPost } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
+import {
+  createThreadComment,
+  deleteThreadComment,
+  listCommentTree,
+  listReplies,
+  type CreateCommentError,
+} from '@/lib/communityComments';
+import { isCommunityBanned } from '@/lib/communityModeration';
+import { screenContent } from '@/lib/contentScreening';
 import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit';
 import { RATE_LIMITS } from '@/lib/constants';
-import { sanitizeContent, anonymizeEmail } from '@/lib/sanitize';
+import { sanitizeContent } from '@/lib/sanitize';
+import { validateCreateComment, validateReplyQuery } from '@/lib/validations/comments';
 
 // Rate Limit 응답 헤더 생성
 function createRateLimitHeaders(remaining: number, resetIn: number) {
@@ -13,7 +23,14 @@ function createRateLimitHeaders(remaining: number, resetIn: number) {
   };
 }
 
-// GET: 댓글 목록 조회
+// 답글 작성 실패 사유별 응답
+const CREATE_COMMENT_ERRORS: Record<CreateCommentError, { message: string; status: number }> = {
+  parent_not_found: { message: '답글을 달 댓글을 찾을 수 없습니다', status: 404 },
+  parent_deleted: { message: '삭제된 댓글에는 답글을 달 수 없습니다', status: 400 },
+  parent_hidden: { message: '검토 중인 댓글에는 답글을 달 수 없습니다', status: 400 },
+};
+
+// GET: 댓글 트리 조회 (?parentId=...&after=...: 답글 더 보기)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -48,10 +65,35 @@ export async function GET(
       );
     }
 
-    const comments = await getComments(id);
+    const { searchParams } = new URL(request.url);
+
+    // 답글 더 보기
+    if (searchParams.has('parentId')) {
+      const validation = validateReplyQuery({
+        parentId: searchParams.get('parentId'),
+        after: searchParams.get('after') || undefined,
+        limit: searchParams.get('limit') || undefined,
+      });
+
+      if (!validation.success || !validation.data) {
+        return NextResponse.json(
+          { error: validation.error },
+          { status: 400 }
+        );
+      }
+
+      const { replies, has_more } = await listReplies(id, validation.data);
+
+      return NextResponse.json(
+        { replies, has_more },
+        { headers: createRateLimitHeaders(remaining, resetIn) }
+      );
+    }
+
+    const { comments, total } = await listCommentTree(id);
 
     return NextResponse.json(
-      { comments },
+      { comments, total },
       { headers: createRateLimitHeaders(remaining, resetIn) }
     );
   } catch (error) {
@@ -63,7 +105,7 @@ export async function GET(
   }
 }
 
-// POST: 댓글 작성
+// POST: 댓글/답글 작성
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -82,6 +124,13 @@ export async function POST(
       );
     }
 
+    if (await isCommunityBanned(user.id)) {
+      return NextResponse.json(
+        { error: '커뮤니티 이용이 제한된 계정입니다' },
+        { status: 403 }
+      );
+    }
+
     // Rate Limiting (사용자 기반)
     const identifier = getClientIdentifier(request, user.id);
     const { allowed, remaining, resetIn } = checkRateLimit(
@@ -109,18 +158,18 @@ export async function POST(
       );
     }
 
-    const body = await request.json();
-    const { content, parent_id } = body;
+    const body = await request.json().catch(() => null);
+    const validation = validateCreateComment(body);
 
-    if (!content?.trim()) {
+    if (!validation.success || !validation.data) {
       return NextResponse.json(
-        { error: '댓글 내용을 입력해주세요' },
+        { error: validation.error },
         { status: 400 }
       );
     }
 
     // XSS 방지: 입력값 정제
-    const sanitizedContent = sanitizeContent(content, 1000);
+    const sanitizedContent = sanitizeContent(validation.data.content, 1000);
 
     if (!sanitizedContent) {
       return NextResponse.json(
@@ -129,23 +178,24 @@ export async function POST(
       );
     }
 
-    const comment = await createComment({
-      post_id: id,
-      user_id: user.id,
+    // 자동 검사 (정제 전 원문 기준), 걸리면 검토 후 공개
+    const screening = await screenContent(validation.data.content);
+
+    const result = await createThreadComment(user, post, {
       content: sanitizedContent,
-      author_name: anonymizeEmail(user.email || ''),
-      parent_id: parent_id || undefined
+      parentId: validation.data.parent_id,
+      ...(screening.status === 'pending' && {
+        moderation: { status: 'pending', reason: screening.reason },
+      }),
     });
 
-    if (!comment) {
-      return NextResponse.json(
-        { error: '댓글 작성에 실패했습니다' },
-        { status: 500 }
-      );
+    if ('error' in result) {
+      const { message, status } = CREATE_COMMENT_ERRORS[result.error];
+      return NextResponse.json({ error: message }, { status });
     }
 
     return NextResponse.json(
-      { comment },
+      { comment: result.comment },
       { headers: createRateLimitHeaders(remaining, resetIn) }
     );
   } catch (error) {
@@ -157,12 +207,14 @@ export async function POST(
   }
 }
 
-// DELETE: 댓글 삭제
+// DELETE: 본인 댓글 삭제 (답글이 있으면 "삭제된 댓글" 자리만 남김)
 export async function DELETE(
   request: NextRequest,
-  _context: { params: Promise<{ id: string }> }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const { id } = await params;
+
     // 인증 확인
     const authHeader = request.headers.get('authorization');
     const { user, error: authError } = await authenticateRequest(authHeader);
@@ -184,16 +236,23 @@ export async function DELETE(
       );
     }
 
-    const success = await deleteComment(commentId);
+    const result = await deleteThreadComment(user.id, id, commentId);
+
+    if (result === 'not_found') {
+      return NextResponse.json(
+        { error: '댓글을 찾을 수 없습니다' },
+        { status: 404 }
+      );
+    }
 
-    if (!success) {
+    if (result === 'forbidden') {
       return NextResponse.json(
-        { error: '댓글 삭제에 실패했습니다' },
-        { status: 500 }
+        { error: '본인 댓글만 삭제할 수 있습니다' },
+        { status: 403 }
       );
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, soft_deleted: result === 'soft_deleted' });
   } catch (error) {
     console.error('Error deleting comment:', error);
     return NextResponse.json(
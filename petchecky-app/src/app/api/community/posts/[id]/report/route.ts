@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { isCommunityBanned, reportContent } from "@/lib/communityModeration";
+import { ApiErrors, createErrorResponse, ERROR_CODES, getErrorMessage } from "@/lib/errors";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+import { validateReportContent } from "@/lib/validations/moderation";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST: 게시글/댓글 신고 (body.commentId가 있으면 댓글)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    if (await isCommunityBanned(user.id)) {
+      return createErrorResponse({
+        code: ERROR_CODES.UNAUTHORIZED,
+        message: "커뮤니티 이용이 제한된 계정입니다",
+        status: 403,
+      });
+    }
+
+    const { allowed } = checkRateLimit(
+      `report:${getClientIdentifier(request, user.id)}`,
+      RATE_LIMITS.REPORTS_PER_HOUR,
+      RATE_LIMITS.REPORTS_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateReportContent(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { id } = await params;
+    const result = await reportContent(user.id, id, validation.data);
+    if ("error" in result) {
+      if (result.error === "own_content") {
+        return ApiErrors.invalidInput("ko", "본인이 작성한 글은 신고할 수 없습니다");
+      }
+      if (result.error === "duplicate") {
+        return ApiErrors.invalidInput("ko", "이미 신고한 글입니다");
+      }
+      return ApiErrors.notFound(validation.data.commentId ? "댓글" : "게시글");
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Content report error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCommunityPost, updateCommunityPost, deleteCommunityPost, supabase } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
+import { holdContent, isCommunityBanned } from '@/lib/communityModeration';
+import { collectHashtags } from '@/lib/communitySearch';
+import { screenContent } from '@/lib/contentScreening';
 
 // GET: 게시글 상세 조회
 export async function GET(
@@ -69,14 +72,25 @@ export async function PATCH(
       );
     }
 
+    if (await isCommunityBanned(user.id)) {
+      return NextResponse.json(
+        { error: '커뮤니티 이용이 제한된 계정입니다' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
-    const { title, content, category, pet_species } = body;
+    const { title, content, category, pet_species, hashtags } = body;
 
     const post = await updateCommunityPost(id, {
       ...(title && { title: title.trim() }),
       ...(content && { content: content.trim() }),
       ...(category && { category }),
-      ...(pet_species !== undefined && { pet_species })
+      ...(pet_species !== undefined && { pet_species }),
+      // 본문의 #태그도 함께 반영
+      ...((hashtags !== undefined || content) && {
+        hashtags: collectHashtags(hashtags ?? existingPost.hashtags, content || existingPost.content)
+      })
     });
 
     if (!post) {
@@ -86,6 +100,17 @@ export async function PATCH(
       );
     }
 
+    // 수정한 내용도 자동 검사, 걸리면 검토 대기로 돌림
+    if (title || content) {
+      const screening = await screenContent(`${title || ''}\n${content || ''}`);
+      if (screening.status === 'pending' && post.moderation_status !== 'hidden') {
+        await holdContent('post', id, screening.reason || '');
+        return NextResponse.json({
+          post: { ...post, moderation_status: 'pending', moderation_reason: screening.reason },
+        });
+      }
+    }
+
     return NextResponse.json({ post });
   } catch (error) {
     console.error('Error updating post:', error);
@@ -2,23 +2,32 @@
  * Community Posts API Route Tests
  *
  * Tests for the community posts API endpoints:
- * - GET: Fetch posts with filtering and pagination
- * - POST: Create new posts with authentication
+ * - GET: Search posts with filters and keyset pagination
+ * - POST: Create new posts with authentication, screening and community bans
  */
 
 import { NextRequest } from 'next/server';
 import { GET, POST } from '../route';
 
 // Mock dependencies
-jest.mock('@/lib/supabase', () => ({
-  getCommunityPosts: jest.fn(),
-  createCommunityPost: jest.fn(),
+jest.mock('@/lib/communitySearch', () => ({
+  ...jest.requireActual('@/lib/communitySearch'),
+  searchCommunityPosts: jest.fn(),
 }));
 
 jest.mock('@/lib/auth', () => ({
   authenticateRequest: jest.fn(),
 }));
 
+jest.mock('@/lib/communityModeration', () => ({
+  isCommunityBanned: jest.fn().mockResolvedValue(false),
+  createScreenedPost: jest.fn(),
+}));
+
+jest.mock('@/lib/contentScreening', () => ({
+  screenContent: jest.fn().mockResolvedValue({ status: 'visible', flags: [] }),
+}));
+
 // Mock rate limiting to always allow requests in tests
 jest.mock('@/lib/rateLimit', () => ({
   checkRateLimit: jest.fn().mockReturnValue({ allowed: true, remaining: 10, resetTime: Date.now() + 60000 }),
@@ -31,12 +40,16 @@ jest.mock('@/lib/rateLimit', () => ({
   },
 }));
 
-import { getCommunityPosts, createCommunityPost } from '@/lib/supabase';
+import { searchCommunityPosts } from '@/lib/communitySearch';
 import { authenticateRequest } from '@/lib/auth';
+import { createScreenedPost, isCommunityBanned } from '@/lib/communityModeration';
+import { screenContent } from '@/lib/contentScreening';
 
-const mockGetCommunityPosts = getCommunityPosts as jest.MockedFunction<typeof getCommunityPosts>;
-const mockCreateCommunityPost = createCommunityPost as jest.MockedFunction<typeof createCommunityPost>;
+const mockSearchCommunityPosts = searchCommunityPosts as jest.MockedFunction<typeof searchCommunityPosts>;
+const mockCreateScreenedPost = createScreenedPost as jest.MockedFunction<typeof createScreenedPost>;
 const mockAuthenticateRequest = authenticateRequest as jest.MockedFunction<typeof authenticateRequest>;
+const mockIsCommunityBanned = isCommunityBanned as jest.MockedFunction<typeof isCommunityBanned>;
+const mockScreenContent = screenContent as jest.MockedFunction<typeof screenContent>;
 
 // Helper to create mock NextRequest
 function createMockRequest(
@@ -82,7 +95,7 @@ describe('Community Posts API', () => {
 
   describe('GET /api/community/posts', () => {
     it('should return posts with default parameters', async () => {
-      mockGetCommunityPosts.mockResolvedValue([samplePost]);
+      mockSearchCommunityPosts.mockResolvedValue({ posts: [samplePost], next_cursor: null });
 
       const request = createMockRequest('http://localhost/api/community/posts');
       const response = await GET(request);
@@ -91,47 +104,82 @@ describe('Community Posts API', () => {
       expect(response.status).toBe(200);
       expect(data.posts).toHaveLength(1);
       expect(data.posts[0].title).toBe('Test Post');
-      expect(mockGetCommunityPosts).toHaveBeenCalledWith({
+      expect(data.next_cursor).toBeNull();
+      expect(mockSearchCommunityPosts).toHaveBeenCalledWith({
         category: 'all',
         limit: 20,
-        offset: 0,
+        query: undefined,
+        hashtags: undefined,
       });
     });
 
-    it('should filter posts by category', async () => {
-      mockGetCommunityPosts.mockResolvedValue([samplePost]);
+    it('should filter posts by category, species and hashtags', async () => {
+      mockSearchCommunityPosts.mockResolvedValue({ posts: [samplePost], next_cursor: null });
 
       const request = createMockRequest(
-        'http://localhost/api/community/posts?category=question'
+        'http://localhost/api/community/posts?category=question&species=cat&tags=%EC%82%B0%EC%B1%85,%EA%B0%84%EC%8B%9D'
       );
       const response = await GET(request);
 
       expect(response.status).toBe(200);
-      expect(mockGetCommunityPosts).toHaveBeenCalledWith({
-        category: 'question',
-        limit: 20,
-        offset: 0,
-      });
+      expect(mockSearchCommunityPosts).toHaveBeenCalledWith(
+        expect.objectContaining({
+          category: 'question',
+          species: 'cat',
+          hashtags: ['산책', '간식'],
+        })
+      );
     });
 
-    it('should handle pagination parameters', async () => {
-      mockGetCommunityPosts.mockResolvedValue([]);
+    it('should pass a sanitized search query and sort', async () => {
+      mockSearchCommunityPosts.mockResolvedValue({ posts: [], next_cursor: null });
 
       const request = createMockRequest(
-        'http://localhost/api/community/posts?limit=10&offset=20'
+        `http://localhost/api/community/posts?q=${encodeURIComponent("강아지 '산책'")}&sort=likes`
       );
       const response = await GET(request);
 
       expect(response.status).toBe(200);
-      expect(mockGetCommunityPosts).toHaveBeenCalledWith({
-        category: 'all',
-        limit: 10,
-        offset: 20,
-      });
+      expect(mockSearchCommunityPosts).toHaveBeenCalledWith(
+        expect.objectContaining({ query: '강아지 산책', sort: 'likes' })
+      );
+    });
+
+    it('should handle cursor pagination parameters', async () => {
+      mockSearchCommunityPosts.mockResolvedValue({ posts: [samplePost], next_cursor: 'next-page' });
+
+      const request = createMockRequest(
+        'http://localhost/api/community/posts?limit=10&cursor=abc'
+      );
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.next_cursor).toBe('next-page');
+      expect(mockSearchCommunityPosts).toHaveBeenCalledWith(
+        expect.objectContaining({ limit: 10, cursor: 'abc' })
+      );
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+      mockSearchCommunityPosts.mockResolvedValue(null);
+
+      const request = createMockRequest('http://localhost/api/community/posts?cursor=broken');
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for invalid filters', async () => {
+      const request = createMockRequest('http://localhost/api/community/posts?sort=random');
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      expect(mockSearchCommunityPosts).not.toHaveBeenCalled();
     });
 
     it('should return empty array when no posts found', async () => {
-      mockGetCommunityPosts.mockResolvedValue([]);
+      mockSearchCommunityPosts.mockResolvedValue({ posts: [], next_cursor: null });
 
       const request = createMockRequest('http://localhost/api/community/posts');
       const response = await GET(request);
@@ -142,7 +190,7 @@ describe('Community Posts API', () => {
     });
 
     it('should handle database errors', async () => {
-      mockGetCommunityPosts.mockRejectedValue(new Error('Database error'));
+      mockSearchCommunityPosts.mockRejectedValue(new Error('Database error'));
 
       const request = createMockRequest('http://localhost/api/community/posts');
       const response = await GET(request);
@@ -169,7 +217,7 @@ describe('Community Posts API', () => {
 
     it('should create post for authenticated user', async () => {
       mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
-      mockCreateCommunityPost.mockResolvedValue(samplePost);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -182,7 +230,7 @@ describe('Community Posts API', () => {
 
       expect(response.status).toBe(200);
       expect(data.post).toBeDefined();
-      expect(mockCreateCommunityPost).toHaveBeenCalledWith({
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith({
         user_id: 'user-1',
         title: 'New Post',
         content: 'Post content',
@@ -313,7 +361,7 @@ describe('Community Posts API', () => {
 
     it('should trim title and content', async () => {
       mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
-      mockCreateCommunityPost.mockResolvedValue(samplePost);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -323,7 +371,7 @@ describe('Community Posts API', () => {
 
       await POST(request);
 
-      expect(mockCreateCommunityPost).toHaveBeenCalledWith(
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
         expect.objectContaining({
           title: 'Trimmed Title',
           content: 'Trimmed Content',
@@ -333,7 +381,7 @@ describe('Community Posts API', () => {
 
     it('should handle null pet_species', async () => {
       mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
-      mockCreateCommunityPost.mockResolvedValue(samplePost);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -343,7 +391,7 @@ describe('Community Posts API', () => {
 
       await POST(request);
 
-      expect(mockCreateCommunityPost).toHaveBeenCalledWith(
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
         expect.objectContaining({
           pet_species: null,
         })
@@ -352,7 +400,7 @@ describe('Community Posts API', () => {
 
     it('should return 500 when database insert fails', async () => {
       mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
-      mockCreateCommunityPost.mockResolvedValue(null);
+      mockCreateScreenedPost.mockRejectedValue(new Error('community_posts insert failed: insert error'));
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -369,7 +417,7 @@ describe('Community Posts API', () => {
 
     it('should handle unexpected errors', async () => {
       mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
-      mockCreateCommunityPost.mockRejectedValue(new Error('Unexpected error'));
+      mockCreateScreenedPost.mockRejectedValue(new Error('Unexpected error'));
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -389,7 +437,7 @@ describe('Community Posts API', () => {
         ...authenticatedUser,
         user: { id: 'user-1', email: 'myname@example.com' },
       });
-      mockCreateCommunityPost.mockResolvedValue(samplePost);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -399,7 +447,7 @@ describe('Community Posts API', () => {
 
       await POST(request);
 
-      expect(mockCreateCommunityPost).toHaveBeenCalledWith(
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
         expect.objectContaining({
           author_name: 'myn***',
         })
@@ -411,7 +459,7 @@ describe('Community Posts API', () => {
         ...authenticatedUser,
         user: { id: 'user-1', email: '' },
       });
-      mockCreateCommunityPost.mockResolvedValue(samplePost);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
 
       const request = createMockRequest('http://localhost/api/community/posts', {
         method: 'POST',
@@ -421,11 +469,69 @@ describe('Community Posts API', () => {
 
       await POST(request);
 
-      expect(mockCreateCommunityPost).toHaveBeenCalledWith(
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
         expect.objectContaining({
           author_name: '익명',
         })
       );
     });
+
+    it('should hold post for review when screening flags it', async () => {
+      mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
+      mockScreenContent.mockResolvedValueOnce({ status: 'pending', flags: ['phone_number'], reason: '전화번호 노출' });
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
+
+      const request = createMockRequest('http://localhost/api/community/posts', {
+        method: 'POST',
+        headers: { authorization: 'Bearer valid-token' },
+        body: validPostBody,
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(mockScreenContent).toHaveBeenCalledWith('New Post\nPost content');
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
+        expect.objectContaining({
+          moderation_status: 'pending',
+          moderation_reason: '전화번호 노출',
+        })
+      );
+    });
+
+    it('should return 403 for banned user', async () => {
+      mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
+      mockIsCommunityBanned.mockResolvedValueOnce(true);
+
+      const request = createMockRequest('http://localhost/api/community/posts', {
+        method: 'POST',
+        headers: { authorization: 'Bearer valid-token' },
+        body: validPostBody,
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toContain('제한');
+      expect(mockCreateScreenedPost).not.toHaveBeenCalled();
+    });
+
+    it('should save hashtags from the field and the content', async () => {
+      mockAuthenticateRequest.mockResolvedValue(authenticatedUser);
+      mockCreateScreenedPost.mockResolvedValue(samplePost);
+
+      const request = createMockRequest('http://localhost/api/community/posts', {
+        method: 'POST',
+        headers: { authorization: 'Bearer valid-token' },
+        body: { ...validPostBody, content: '오늘 #산책 다녀왔어요', hashtags: '#Walk 간식' },
+      });
+
+      await POST(request);
+
+      expect(mockCreateScreenedPost).toHaveBeenCalledWith(
+        expect.objectContaining({ hashtags: ['walk', '간식', '산책'] })
+      );
+    });
   });
 });
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCommunityPosts, createCommunityPost } from '@/lib/supabase';
 import { authenticateRequest } from '@/lib/auth';
 import { checkRateLimit, getClientIdentifier } from '@/lib/rateLimit';
 import { RATE_LIMITS } from '@/lib/constants';
-import { sanitizeTitle, sanitizeContent, anonymizeEmail } from '@/lib/sanitize';
+import { sanitizeTitle, sanitizeContent, sanitizeSearchQuery, anonymizeEmail } from '@/lib/sanitize';
+import { createScreenedPost, isCommunityBanned } from '@/lib/communityModeration';
+import { collectHashtags, searchCommunityPosts } from '@/lib/communitySearch';
+import { screenContent } from '@/lib/contentScreening';
+import { validatePostSearchQuery } from '@/lib/validations/posts';
 
 // Rate Limit 응답 헤더 생성
 function createRateLimitHeaders(remaining: number, resetIn: number) {
@@ -13,7 +16,8 @@ function createRateLimitHeaders(remaining: number, resetIn: number) {
   };
 }
 
-// GET: 게시글 목록 조회
+// GET: 게시글 목록/검색
+// ?q=검색어&category=&species=&tags=태그1,태그2&sort=relevance|recent|likes&cursor=&limit=
 export async function GET(request: NextRequest) {
   try {
     // Rate Limiting (IP 기반)
@@ -35,14 +39,39 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const category = searchParams.get('category') || 'all';
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    const validation = validatePostSearchQuery({
+      q: searchParams.get('q') ?? undefined,
+      category: searchParams.get('category') ?? undefined,
+      species: searchParams.get('species') ?? undefined,
+      tags: searchParams.get('tags') ?? undefined,
+      sort: searchParams.get('sort') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    });
 
-    const posts = await getCommunityPosts({ category, limit, offset });
+    if (!validation.success || !validation.data) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { q, tags, ...options } = validation.data;
+    const result = await searchCommunityPosts({
+      ...options,
+      query: q ? sanitizeSearchQuery(q) : undefined,
+      hashtags: tags,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: '목록 위치가 올바르지 않습니다. 처음부터 다시 불러와주세요.' },
+        { status: 400 }
+      );
+    }
 
     return NextResponse.json(
-      { posts },
+      result,
       { headers: createRateLimitHeaders(remaining, resetIn) }
     );
   } catch (error) {
@@ -68,6 +97,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (await isCommunityBanned(user.id)) {
+      return NextResponse.json(
+        { error: '커뮤니티 이용이 제한된 계정입니다' },
+        { status: 403 }
+      );
+    }
+
     // Rate Limiting (사용자 기반)
     const identifier = getClientIdentifier(request, user.id);
     const { allowed, remaining, resetIn } = checkRateLimit(
@@ -87,7 +123,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { title, content, category, pet_species } = body;
+    const { title, content, category, pet_species, hashtags } = body;
 
     // 유효성 검사
     if (!title?.trim() || !content?.trim() || !category) {
@@ -115,22 +151,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const post = await createCommunityPost({
+    // 자동 검사 (정제 전 원문 기준), 걸리면 검토 후 공개
+    const screening = await screenContent(`${title}\n${content}`);
+    const postHashtags = collectHashtags(hashtags, content);
+
+    const post = await createScreenedPost({
       user_id: user.id,
       title: sanitizedTitle,
       content: sanitizedContent,
       category,
       pet_species: pet_species || null,
-      author_name: anonymizeEmail(user.email || '')
+      author_name: anonymizeEmail(user.email || ''),
+      ...(postHashtags.length > 0 && { hashtags: postHashtags }),
+      ...(screening.status === 'pending' && {
+        moderation_status: 'pending',
+        moderation_reason: screening.reason,
+      })
     });
 
-    if (!post) {
-      return NextResponse.json(
-        { error: '게시글 작성에 실패했습니다' },
-        { status: 500 }
-      );
-    }
-
     return NextResponse.json(
       { post },
       { headers: createRateLimitHeaders(remaining, resetIn) }
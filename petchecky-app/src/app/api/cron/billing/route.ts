@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runBillingRenewalJob } from "@/lib/billing";
+import { verifyCronRequest } from "@/lib/cron";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+
+// GET: 정기결제 갱신 및 실패 결제 재시도 (vercel.json crons에서 매시간 호출)
+export async function GET(request: NextRequest) {
+  const rejected = verifyCronRequest(request, "Billing");
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    const result = await runBillingRenewalJob();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Billing cron error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/cron";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { runReminderJob } from "@/lib/reminders";
+
+// GET: 예정된 리마인더 발송 (vercel.json crons에서 15분마다 호출)
+export async function GET(request: NextRequest) {
+  const rejected = verifyCronRequest(request, "Reminder");
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    const result = await runReminderJob();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Reminder cron error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { findActivePetTag, sendFinderMessage } from "@/lib/petTags";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+import { isValidTagToken, validateFinderMessage } from "@/lib/validations/petTags";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// POST: 발견자 메시지를 보호자에게 중계 (보호자 연락처는 공개하지 않음)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { allowed } = checkRateLimit(
+      `found-message:${getClientIdentifier(request)}`,
+      RATE_LIMITS.TAG_MESSAGES_PER_HOUR,
+      RATE_LIMITS.TAG_MESSAGES_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateFinderMessage(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { token } = await params;
+    const tag = isValidTagToken(token) ? await findActivePetTag(token) : null;
+    if (!tag) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    const sent = await sendFinderMessage(tag, validation.data);
+    if (!sent) {
+      return ApiErrors.serverError();
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Finder message error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
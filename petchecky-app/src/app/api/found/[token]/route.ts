@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { findActivePetTag } from "@/lib/petTags";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+import { isValidTagToken } from "@/lib/validations/petTags";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// GET: 발견자 페이지 정보 (비로그인, 보호자 연락처는 포함하지 않음)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { allowed } = checkRateLimit(
+      `found:${getClientIdentifier(request)}`,
+      RATE_LIMITS.READS_PER_MINUTE,
+      RATE_LIMITS.READS_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const { token } = await params;
+    // 폐기된 토큰도 존재하지 않는 토큰과 같은 응답
+    const tag = isValidTagToken(token) ? await findActivePetTag(token) : null;
+    if (!tag) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    return NextResponse.json({ pet: tag.profile }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Found pet fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
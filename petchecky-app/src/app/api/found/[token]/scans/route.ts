@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { findActivePetTag, recordTagScan } from "@/lib/petTags";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+import { isValidTagToken, validateTagScan } from "@/lib/validations/petTags";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// POST: 스캔 기록 (발견자가 위치 공유에 동의하면 scanId와 함께 위치를 다시 보냄)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { allowed } = checkRateLimit(
+      `found-scan:${getClientIdentifier(request)}`,
+      RATE_LIMITS.TAG_SCANS_PER_MINUTE,
+      RATE_LIMITS.TAG_SCANS_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateTagScan(body ?? {});
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { token } = await params;
+    const tag = isValidTagToken(token) ? await findActivePetTag(token) : null;
+    if (!tag) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    const scanId = await recordTagScan(tag, validation.data, request.headers.get("user-agent"));
+    if (!scanId) {
+      return ApiErrors.notFound("스캔 기록");
+    }
+
+    return NextResponse.json({ scanId }, { status: validation.data.scanId ? 200 : 201 });
+  } catch (error) {
+    console.error("Pet tag scan error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest, sanitizeUserInput } from "@/lib/auth";
-import { API_CONFIG, FILE_LIMITS, Language } from "@/lib/constants";
+import { FILE_LIMITS, Language } from "@/lib/constants";
 import { getErrorMessage } from "@/lib/errors";
 import { analyzeSeverity } from "@/lib/severity";
+import { extractTriage, getTriageInstruction } from "@/lib/triage";
 import { convertToWebP, shouldConvertToWebP } from "@/lib/imageUtils";
+import { getLLMProvider, LLMProviderError } from "@/lib/llm";
+import { getSpeciesName, isPetSpecies } from "@/lib/species";
 
 interface ImageAnalysisRequest {
   image: {
@@ -13,6 +16,7 @@ interface ImageAnalysisRequest {
   category: string;
   description?: string;
   petName?: string;
+  petSpecies?: string;
   language?: "ko" | "en" | "ja";
 }
 
@@ -73,7 +77,7 @@ function getSystemPrompt(language: string, category: string, petName?: string):
 주의:
 - 불필요하게 불안감을 조성하지 마세요
 - 이미지가 불명확하면 그 점을 언급하세요
-- 절대 JSON 형식으로 응답하지 마세요`,
+- 본문에는 JSON이나 코드 블록을 쓰지 마세요 (마지막 triage 블록만 예외)`,
 
     en: `You are "PetChecky", an AI pet health specialist.
 
@@ -93,7 +97,7 @@ Analysis Rules:
 Notes:
 - Don't create unnecessary anxiety
 - Mention if the image is unclear
-- Never respond in JSON format`,
+- Do not use JSON or code blocks in the body (except the final triage block)`,
 
     ja: `あなたは「ペットチェッキー」、ペット健康専門AIです。
 
@@ -113,10 +117,11 @@ Notes:
 注意:
 - 不必要に不安を煽らないでください
 - 画像が不鮮明な場合はその点に言及してください
-- 絶対にJSON形式で応答しないでください`,
+- 本文にはJSONやコードブロックを使わないでください(最後のtriageブロックのみ例外)`,
   };
 
-  return prompts[language as keyof typeof prompts] || prompts.ko;
+  const prompt = prompts[language as keyof typeof prompts] || prompts.ko;
+  return `${prompt}\n\n${getTriageInstruction(language as Language)}`;
 }
 
 export async function POST(request: NextRequest) {
@@ -137,7 +142,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: ImageAnalysisRequest = await request.json();
-    const { image, category, description, petName, language = "ko" } = body;
+    const { image, category, description, petName, petSpecies, language = "ko" } = body;
 
     // Validate image
     if (!image || !image.data || !image.mimeType) {
@@ -174,9 +179,9 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check API key
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    // Check LLM provider configuration
+    const provider = getLLMProvider();
+    if (!provider) {
       return NextResponse.json(
         {
           message: language === "ko" ? "서비스 설정이 완료되지 않았습니다." :
@@ -205,43 +210,31 @@ export async function POST(request: NextRequest) {
          language === "ja" ? "上の写真を分析してください。" :
          "Please analyze the above photo.");
 
-    const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
-
-    // Call Gemini API (상수 사용)
-    const response = await fetch(
-      `${API_CONFIG.GEMINI_BASE_URL}/${API_CONFIG.GEMINI_MODEL}:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  inline_data: {
-                    mime_type: optimizedImage.mimeType,
-                    data: optimizedImage.data,
-                  },
-                },
-                { text: fullPrompt },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-          },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("Gemini API Error:", response.status, error);
-
-      if (response.status === 429) {
+    // 종에 따라 정상 소견이 다르므로 (예: 토끼 앞니, 파충류 탈피) 종류를 함께 전달
+    const speciesName = isPetSpecies(petSpecies) ? getSpeciesName(petSpecies, language) : null;
+    const speciesPrompt = speciesName
+      ? (language === "ko" ? `반려동물 종류: ${speciesName}` :
+         language === "ja" ? `ペットの種類: ${speciesName}` :
+         `Pet species: ${speciesName}`)
+      : null;
+
+    const fullPrompt = speciesPrompt
+      ? `${systemPrompt}\n\n${speciesPrompt}\n\n${userPrompt}`
+      : `${systemPrompt}\n\n${userPrompt}`;
+
+    // Call LLM provider
+    let rawText: string;
+    try {
+      ({ text: rawText } = await provider.generate({
+        parts: [
+          { type: "image", mimeType: optimizedImage.mimeType, data: optimizedImage.data },
+          { type: "text", text: fullPrompt },
+        ],
+        temperature: 0.7,
+        maxOutputTokens: 2048,
+      }));
+    } catch (error) {
+      if (error instanceof LLMProviderError && error.status === 429) {
         return NextResponse.json(
           {
             message: language === "ko" ? "현재 많은 분들이 이용 중이에요. 잠시 후 다시 시도해주세요." :
@@ -252,25 +245,24 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      throw new Error("Gemini API request failed");
+      throw error;
     }
 
-    const data = await response.json();
-    const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-    // Clean up response
-    const cleanAnalysis = rawText
+    // Clean up response (triage 블록 분리)
+    const { text, triage } = extractTriage(rawText);
+    const cleanAnalysis = text
       .replace(/```[\s\S]*?```/g, "")
       .trim();
 
-    // Determine severity (공통 유틸리티 사용)
-    const severity = analyzeSeverity(cleanAnalysis, language as Language);
+    // Determine severity (triage 블록이 없으면 공통 키워드 분석으로 대체)
+    const severity = triage?.severity ?? analyzeSeverity(cleanAnalysis, language as Language);
 
     return NextResponse.json({
       analysis: cleanAnalysis || (language === "ko" ? "이미지를 분석할 수 없습니다. 다른 사진을 시도해주세요." :
                                   language === "ja" ? "画像を分析できません。別の写真をお試しください。" :
                                   "Unable to analyze the image. Please try a different photo."),
       severity,
+      ...(triage && { triage }),
     });
   } catch (error) {
     console.error("Image Analysis API Error:", getErrorMessage(error));
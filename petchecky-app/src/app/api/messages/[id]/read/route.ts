@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getConversation, markConversationRead } from "@/lib/directMessages";
+import { isValidConversationId } from "@/lib/validations/messages";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST: 상대가 보낸 메시지 읽음 처리 (보낸 사람에게는 Realtime UPDATE로 전달)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id } = await params;
+    const conversation = isValidConversationId(id) ? await getConversation(user.id, id) : null;
+    if (!conversation) {
+      return ApiErrors.notFound("대화");
+    }
+
+    const readAt = await markConversationRead(user.id, conversation.id);
+    return NextResponse.json({ readAt });
+  } catch (error) {
+    console.error("Message read error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
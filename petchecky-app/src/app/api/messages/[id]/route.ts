@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, createErrorResponse, ERROR_CODES, getErrorMessage } from "@/lib/errors";
+import { getConversation, listMessages, sendDirectMessage } from "@/lib/directMessages";
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from "@/lib/rateLimit";
+import {
+  isValidConversationId,
+  validateMessageHistoryQuery,
+  validateSendDirectMessage,
+} from "@/lib/validations/messages";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: 이전 메시지 (?before=<ISO 시각>&limit=)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateMessageHistoryQuery({
+      before: searchParams.get("before") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { id } = await params;
+    const conversation = isValidConversationId(id) ? await getConversation(user.id, id) : null;
+    if (!conversation) {
+      return ApiErrors.notFound("대화");
+    }
+
+    const { messages, hasMore } = await listMessages(conversation.id, validation.data);
+    return NextResponse.json({ conversation, messages, hasMore });
+  } catch (error) {
+    console.error("Messages fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 메시지 보내기
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { allowed } = checkRateLimit(
+      `direct-message:${getClientIdentifier(request, user.id)}`,
+      RATE_LIMITS.DIRECT_MESSAGES_PER_MINUTE,
+      RATE_LIMITS.DIRECT_MESSAGES_WINDOW_MS
+    );
+    if (!allowed) {
+      return ApiErrors.limitExceeded();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateSendDirectMessage(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { id } = await params;
+    const conversation = isValidConversationId(id) ? await getConversation(user.id, id) : null;
+    if (!conversation) {
+      return ApiErrors.notFound("대화");
+    }
+
+    const result = await sendDirectMessage(user, conversation, validation.data.content);
+    if ("error" in result) {
+      return createErrorResponse({
+        code: ERROR_CODES.UNAUTHORIZED,
+        message: "차단한 사용자이거나 상대가 메시지를 받지 않습니다.",
+        status: 403,
+      });
+    }
+
+    return NextResponse.json({ message: result.message }, { status: 201 });
+  } catch (error) {
+    console.error("Message send error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
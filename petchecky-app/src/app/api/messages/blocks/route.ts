@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { blockUser, listBlockedUsers, unblockUser } from "@/lib/directMessages";
+import { validateBlockUser } from "@/lib/validations/messages";
+
+// GET: 내가 차단한 사용자 목록
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const blocks = await listBlockedUsers(user.id);
+    return NextResponse.json({ blocks });
+  } catch (error) {
+    console.error("Blocks fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 사용자 차단 (서로 메시지를 보낼 수 없게 됨)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateBlockUser(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const blocked = await blockUser(user.id, validation.data.userId);
+    if (!blocked) {
+      return ApiErrors.notFound("사용자");
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Block error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// DELETE: 차단 해제 (?userId=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateBlockUser({ userId: searchParams.get("userId") });
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    await unblockUser(user.id, validation.data.userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Unblock error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
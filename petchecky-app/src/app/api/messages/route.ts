@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { listConversations, startConversation } from "@/lib/directMessages";
+import { validateStartConversation } from "@/lib/validations/messages";
+
+// GET: 내 대화 목록 (안 읽은 메시지 수 포함)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const conversations = await listConversations(user.id);
+    const unreadCount = conversations.reduce((sum, conversation) => sum + conversation.unreadCount, 0);
+    return NextResponse.json({ conversations, unreadCount });
+  } catch (error) {
+    console.error("Conversations fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 상대와의 대화방 열기 (이미 있으면 기존 대화방)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateStartConversation(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const result = await startConversation(user, validation.data.participantId);
+    if ("error" in result) {
+      if (result.error === "self") {
+        return ApiErrors.invalidInput("ko", "자기 자신에게는 메시지를 보낼 수 없습니다");
+      }
+      // 차단 여부는 상대에게 알려주지 않음
+      return ApiErrors.notFound("사용자");
+    }
+
+    return NextResponse.json({ conversation: result.conversation }, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    console.error("Conversation start error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
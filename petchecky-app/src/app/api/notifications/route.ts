@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, supabaseAdmin } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import type { Notification } from "@/lib/notifications";
+
+const MAX_NOTIFICATIONS = 50;
+
+// GET: 아직 가져가지 않은 서버 알림 (리마인더 작업 등) 조회 후 전달 처리
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("notifications")
+      .select("id, type, title, message, priority, link, created_at")
+      .eq("user_id", user.id)
+      .is("fetched_at", null)
+      .order("created_at", { ascending: false })
+      .limit(MAX_NOTIFICATIONS);
+
+    if (error) {
+      console.error("Notifications fetch error:", error.message);
+      return ApiErrors.databaseError();
+    }
+
+    const rows = data || [];
+    if (rows.length > 0) {
+      const { error: updateError } = await supabaseAdmin
+        .from("notifications")
+        .update({ fetched_at: new Date().toISOString() })
+        .in("id", rows.map((row) => row.id));
+
+      if (updateError) {
+        console.error("Notifications mark fetched error:", updateError.message);
+      }
+    }
+
+    const notifications: Notification[] = rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      priority: row.priority,
+      read: false,
+      createdAt: row.created_at,
+      link: row.link ?? undefined,
+    }));
+
+    return NextResponse.json({ notifications });
+  } catch (error) {
+    console.error("Notifications error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
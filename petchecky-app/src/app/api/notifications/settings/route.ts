@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, supabaseAdmin } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { validateNotificationSettings } from "@/lib/validations/notifications";
+
+// PUT: 알림 설정과 시간대 저장 (서버 리마인더 발송 기준)
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json();
+    const validation = validateNotificationSettings(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { error } = await supabaseAdmin
+      .from("notification_settings")
+      .upsert(
+        {
+          user_id: user.id,
+          timezone: validation.data.timezone,
+          settings: validation.data.settings,
+        },
+        { onConflict: "user_id" }
+      );
+
+    if (error) {
+      console.error("Notification settings save error:", error.message);
+      return ApiErrors.databaseError();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Notification settings error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
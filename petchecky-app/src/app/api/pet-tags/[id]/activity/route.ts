@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getPetTagActivity } from "@/lib/petTags";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET: 인식표 스캔 기록과 발견자 메시지
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id } = await params;
+    const activity = await getPetTagActivity(user.id, id);
+    if (!activity) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    return NextResponse.json(activity);
+  } catch (error) {
+    console.error("Pet tag activity error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
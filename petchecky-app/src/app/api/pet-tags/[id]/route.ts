@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { revokePetTag, updatePetTag } from "@/lib/petTags";
+import { validateUpdatePetTag } from "@/lib/validations/petTags";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// PATCH: 발견자 페이지에 보여줄 사진/특이사항 수정
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateUpdatePetTag(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { id } = await params;
+    // user_id 조건으로 수정하므로 타인의 인식표나 폐기된 인식표는 null
+    const tag = await updatePetTag(user.id, id, validation.data);
+    if (!tag) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    return NextResponse.json({ tag });
+  } catch (error) {
+    console.error("Pet tag update error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// DELETE: 인식표 폐기 (기록은 유지)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id } = await params;
+    const tag = await revokePetTag(user.id, id);
+    if (!tag) {
+      return ApiErrors.notFound("인식표");
+    }
+
+    return NextResponse.json({ tag });
+  } catch (error) {
+    console.error("Pet tag revoke error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getOwnedPet } from "@/lib/petRecords";
+import { createPetTag, listPetTags } from "@/lib/petTags";
+import { validateCreatePetTag } from "@/lib/validations/petTags";
+
+// GET: 내 인식표 목록 (폐기된 것 포함)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const tags = await listPetTags(user.id);
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error("Pet tags fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 인식표 발급
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateCreatePetTag(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const pet = await getOwnedPet(user.id, validation.data.petId);
+    if (!pet) {
+      return ApiErrors.notFound("반려동물");
+    }
+
+    const tag = await createPetTag(user.id, validation.data);
+    if (!tag) {
+      return ApiErrors.serverError();
+    }
+
+    return NextResponse.json({ tag }, { status: 201 });
+  } catch (error) {
+    console.error("Pet tag create error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
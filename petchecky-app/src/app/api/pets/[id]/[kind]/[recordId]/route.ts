@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { updatePetRecord, deletePetRecord } from "@/lib/petRecords";
+import { publishRealtime } from "@/lib/realtimeGateway";
+import { validatePetRecordInput } from "@/lib/validations/petRecords";
+import { MESSAGE_TYPES, type PetUpdatePayload } from "@/lib/websocket";
+import { isPetRecordKind } from "@/types/petRecords";
+
+type RouteContext = { params: Promise<{ id: string; kind: string; recordId: string }> };
+
+// PATCH: 기록 수정
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id, kind, recordId } = await params;
+    if (!isPetRecordKind(kind)) {
+      return ApiErrors.notFound("기록 종류");
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validatePetRecordInput(kind, body, true);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    // user_id + pet_id 조건으로 수정하므로 타인의 기록은 null
+    const record = await updatePetRecord(kind, user.id, id, recordId, validation.data);
+    if (!record) {
+      return ApiErrors.notFound("기록");
+    }
+
+    const update: PetUpdatePayload = { petId: id, kind, recordId, action: "updated" };
+    await publishRealtime([user.id], MESSAGE_TYPES.PET_UPDATE, update);
+
+    return NextResponse.json({ record });
+  } catch (error) {
+    console.error("Pet record update error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// DELETE: 기록 삭제
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id, kind, recordId } = await params;
+    if (!isPetRecordKind(kind)) {
+      return ApiErrors.notFound("기록 종류");
+    }
+
+    const success = await deletePetRecord(kind, user.id, id, recordId);
+    if (!success) {
+      return ApiErrors.notFound("기록");
+    }
+
+    const update: PetUpdatePayload = { petId: id, kind, recordId, action: "deleted" };
+    await publishRealtime([user.id], MESSAGE_TYPES.PET_UPDATE, update);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Pet record delete error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { getOwnedPet, listPetRecords, createPetRecord } from "@/lib/petRecords";
+import { publishRealtime } from "@/lib/realtimeGateway";
+import { validatePetRecordInput } from "@/lib/validations/petRecords";
+import { MESSAGE_TYPES, type PetUpdatePayload } from "@/lib/websocket";
+import { isPetRecordKind } from "@/types/petRecords";
+
+type RouteContext = { params: Promise<{ id: string; kind: string }> };
+
+// GET: 펫의 기록 목록 조회
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id, kind } = await params;
+    if (!isPetRecordKind(kind)) {
+      return ApiErrors.notFound("기록 종류");
+    }
+
+    // 본인 소유 펫인지 확인
+    const pet = await getOwnedPet(user.id, id);
+    if (!pet) {
+      return ApiErrors.notFound("반려동물");
+    }
+
+    const records = await listPetRecords(kind, user.id, id);
+    if (!records) {
+      return ApiErrors.databaseError();
+    }
+
+    return NextResponse.json({ records });
+  } catch (error) {
+    console.error("Pet records fetch error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 기록 추가
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id, kind } = await params;
+    if (!isPetRecordKind(kind)) {
+      return ApiErrors.notFound("기록 종류");
+    }
+
+    const pet = await getOwnedPet(user.id, id);
+    if (!pet) {
+      return ApiErrors.notFound("반려동물");
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validatePetRecordInput(kind, body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const record = await createPetRecord(kind, user.id, id, validation.data);
+    if (!record) {
+      return ApiErrors.databaseError();
+    }
+
+    // 같은 계정으로 열어둔 다른 기기에 변경 알림
+    const update: PetUpdatePayload = { petId: id, kind, recordId: record.id, action: "created" };
+    await publishRealtime([user.id], MESSAGE_TYPES.PET_UPDATE, update);
+
+    return NextResponse.json({ record });
+  } catch (error) {
+    console.error("Pet record create error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { generateHealthReportPdf } from "@/lib/healthReport";
+import { getOwnedPet } from "@/lib/petRecords";
+import { validateHealthReportRequest } from "@/lib/validations/report";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST: 선택한 기간의 건강 리포트 PDF 생성
+// 알레르기/체중 기록은 아직 기기에만 저장되므로 본문으로 함께 받습니다.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { id } = await params;
+    const pet = await getOwnedPet(user.id, id);
+    if (!pet) {
+      return ApiErrors.notFound("반려동물");
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateHealthReportRequest(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const { from, to } = validation.data;
+    const pdf = await generateHealthReportPdf(user.id, pet, validation.data);
+    const fileName = `${pet.name}_건강리포트_${from}_${to}.pdf`;
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="health-report.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Health report error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { importLegacyPetData } from "@/lib/petRecords";
+import { validateLegacyMigration } from "@/lib/validations/petRecords";
+
+// POST: 레거시 localStorage 펫/기록 일괄 가져오기 (클라이언트에서 1회 호출)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validateLegacyMigration(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const result = await importLegacyPetData(user.id, validation.data);
+    if (!result) {
+      return ApiErrors.databaseError();
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Pet data migration error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
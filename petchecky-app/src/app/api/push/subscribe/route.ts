@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { savePushSubscription } from "@/lib/pushSubscriptions";
+import { validatePushSubscribe } from "@/lib/validations/push";
+
+// POST: 현재 기기의 푸시 구독 등록
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json();
+    const validation = validatePushSubscribe(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const saved = await savePushSubscription(
+      user.id,
+      validation.data,
+      request.headers.get("user-agent")
+    );
+    if (!saved) {
+      return ApiErrors.databaseError();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Push subscribe error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
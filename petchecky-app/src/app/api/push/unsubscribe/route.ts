@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { deletePushSubscriptions } from "@/lib/pushSubscriptions";
+import { validatePushUnsubscribe } from "@/lib/validations/push";
+
+// POST: 푸시 구독 해제 (endpoint가 없으면 사용자의 모든 기기)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = validatePushUnsubscribe(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const deleted = await deletePushSubscriptions(user.id, validation.data.endpoint);
+    if (!deleted) {
+      return ApiErrors.databaseError();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Push unsubscribe error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
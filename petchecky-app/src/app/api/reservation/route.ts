@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest, supabaseAdmin, sanitizeUserInput } from "@/lib/auth";
 import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import type { PetSpecies } from "@/lib/species";
 
 interface ReservationRequest {
   hospitalId: string;
@@ -8,7 +9,7 @@ interface ReservationRequest {
   hospitalAddress: string;
   hospitalPhone: string;
   petName: string;
-  petSpecies: "dog" | "cat";
+  petSpecies: PetSpecies;
   symptoms: string;
   preferredDate: string;
   preferredTime: string;
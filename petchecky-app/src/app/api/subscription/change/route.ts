@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest } from "@/lib/auth";
+import {
+  cancelScheduledPlanChange,
+  changePlan,
+  previewPlanChange,
+  type PlanChangeResult,
+} from "@/lib/billing";
+import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { validatePlanChange } from "@/lib/validations/billing";
+
+function toErrorResponse(result: Extract<PlanChangeResult, { success: false }>) {
+  switch (result.error) {
+    case "no_subscription":
+      return ApiErrors.notFound("활성 구독");
+    case "same_plan":
+      return ApiErrors.invalidInput("ko", "이미 이용 중인 플랜입니다.");
+    case "in_progress":
+      return ApiErrors.invalidInput("ko", "플랜 변경이 처리 중입니다. 잠시 후 다시 시도해주세요.");
+    case "payment_failed":
+      return ApiErrors.invalidInput("ko", result.message || "결제에 실패했습니다.");
+  }
+}
+
+// GET: 플랜 변경 견적 (?planType=premium_plus)
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validation = validatePlanChange({ planType: searchParams.get("planType") });
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const result = await previewPlanChange(user.id, validation.data.planType);
+    if (!result.success) {
+      return toErrorResponse(result);
+    }
+
+    return NextResponse.json({ quote: result.quote });
+  } catch (error) {
+    console.error("Plan change preview error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// POST: 플랜 변경 (업그레이드는 차액 즉시 결제, 다운그레이드는 다음 결제일부터)
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = validatePlanChange(body);
+    if (!validation.success || !validation.data) {
+      return ApiErrors.invalidInput("ko", validation.error);
+    }
+
+    const result = await changePlan(user.id, validation.data.planType);
+    if (!result.success) {
+      return toErrorResponse(result);
+    }
+
+    const { quote } = result;
+    return NextResponse.json({
+      success: true,
+      quote,
+      message: quote.direction === "upgrade"
+        ? "플랜이 변경되었습니다!"
+        : "다음 결제일부터 플랜이 변경됩니다.",
+    });
+  } catch (error) {
+    console.error("Plan change error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
+
+// DELETE: 예약된 다운그레이드 취소
+export async function DELETE(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization");
+    const { user } = await authenticateRequest(authHeader);
+
+    if (!user) {
+      return ApiErrors.unauthorized();
+    }
+
+    const cancelled = await cancelScheduledPlanChange(user.id);
+    if (!cancelled) {
+      return ApiErrors.notFound("예약된 플랜 변경");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Plan change cancel error:", getErrorMessage(error));
+    return ApiErrors.serverError();
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { authenticateRequest, supabaseAdmin } from "@/lib/auth";
 import { ApiErrors, getErrorMessage } from "@/lib/errors";
+import { PREMIUM_ACCESS_STATUSES } from "@/types/subscription";
 
 // GET: 구독 상태 조회
 export async function GET(request: NextRequest) {
@@ -25,8 +26,9 @@ export async function GET(request: NextRequest) {
       .from("subscriptions")
       .select("*")
       .eq("user_id", userId)
-      .eq("status", "active")
-      .gte("current_period_end", now)
+      .in("status", PREMIUM_ACCESS_STATUSES)
+      // 결제 실패 구독은 유예 기간까지 이용 가능
+      .or(`current_period_end.gte."${now}",grace_period_end.gte."${now}"`)
       .order("created_at", { ascending: false })
       .limit(1)
       .single();
@@ -65,7 +67,9 @@ export async function DELETE(request: NextRequest) {
       .from("subscriptions")
       .select("id")
       .eq("user_id", userId)
-      .eq("status", "active")
+      .in("status", PREMIUM_ACCESS_STATUSES)
+      .order("created_at", { ascending: false })
+      .limit(1)
       .single();
 
     if (fetchError || !subscription) {
@@ -1,25 +1,25 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
-
-interface PetProfile {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-}
-
-interface CalendarEvent {
-  id: string;
-  petId: string;
-  petName: string;
-  type: "vaccination" | "reminder" | "health" | "walk" | "vet_visit";
-  title: string;
-  date: string;
-  time?: string;
-  description?: string;
-}
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import { getSpeciesEmoji } from "@/lib/species";
+import { formatDateForInput, getTodayString } from "@/lib/dateUtils";
+import {
+  buildICalendar,
+  collectCalendarEvents,
+  shiftDate,
+  CALENDAR_FUTURE_DAYS,
+  CALENDAR_PAST_DAYS,
+  type CalendarData,
+  type CalendarEvent,
+  type CalendarHealthRecord,
+  type CalendarReservation,
+} from "@/lib/calendar";
+import { calendarService } from "@/lib/services";
 
 const DAYS_OF_WEEK_KO = ["일", "월", "화", "수", "목", "금", "토"];
 const DAYS_OF_WEEK_EN = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -31,113 +31,96 @@ const MONTHS_JA = ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月
 
 const EVENT_ICONS: Record<CalendarEvent["type"], string> = {
   vaccination: "💉",
+  medication: "💊",
   reminder: "🔔",
   health: "📊",
   walk: "🚶",
   vet_visit: "🏥",
+  reservation: "📋",
+  insurance: "🧾",
 };
 
 const EVENT_COLORS: Record<CalendarEvent["type"], string> = {
   vaccination: "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300",
+  medication: "bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-300",
   reminder: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
   health: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
   walk: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
   vet_visit: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  reservation: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300",
+  insurance: "bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300",
 };
 
+// 건강 체크 기록은 기기에만 저장됨 (health-tracking 페이지)
+function loadHealthRecords(petIds: string[]): CalendarHealthRecord[] {
+  return petIds.flatMap((petId) => {
+    try {
+      const saved: CalendarHealthRecord[] = JSON.parse(localStorage.getItem(`petchecky_health_${petId}`) || "[]");
+      return saved.map((record) => ({ ...record, petId }));
+    } catch {
+      return [];
+    }
+  });
+}
+
 export default function CalendarPage() {
   const { t, language } = useLanguage();
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets } = usePets({ userId: user?.id, authLoading, getAccessToken });
+  const petIds = pets.flatMap((pet) => (pet.id ? [pet.id] : []));
+  const recordOptions = { userId: user?.id, getAccessToken };
+  const { records: medications } = usePetRecords("medications", petIds, recordOptions);
+  const { records: vetRecords } = usePetRecords("vet-records", petIds, recordOptions);
+  const { records: walks } = usePetRecords("walks", petIds, recordOptions);
+  const { records: vaccinations } = usePetRecords("vaccinations", petIds, recordOptions);
+  const { records: insuranceClaims } = usePetRecords("insurance-claims", petIds, recordOptions);
+  const { records: reminders } = usePetRecords("reminders", petIds, recordOptions);
+  const [reservations, setReservations] = useState<CalendarReservation[]>([]);
+  const [healthRecords, setHealthRecords] = useState<CalendarHealthRecord[]>([]);
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedError, setFeedError] = useState<string | null>(null);
 
   const daysOfWeek = language === "ko" ? DAYS_OF_WEEK_KO : language === "ja" ? DAYS_OF_WEEK_JA : DAYS_OF_WEEK_EN;
   const months = language === "ko" ? MONTHS_KO : language === "ja" ? MONTHS_JA : MONTHS_EN;
 
-  const loadEvents = () => {
-    const allEvents: CalendarEvent[] = [];
-
-    // Load vaccination records
-    try {
-      const vaccinations = JSON.parse(localStorage.getItem("petchecky_vaccination") || "[]");
-      vaccinations.forEach((v: { id: string; petId: string; petName: string; vaccineType: string; vaccinationDate: string; nextVaccination?: string }) => {
-        if (v.nextVaccination) {
-          allEvents.push({
-            id: `vac_${v.id}`,
-            petId: v.petId,
-            petName: v.petName || "Pet",
-            type: "vaccination",
-            title: v.vaccineType,
-            date: v.nextVaccination,
-          });
-        }
-      });
-    } catch {}
-
-    // Load reminders
-    try {
-      const reminders = JSON.parse(localStorage.getItem("petchecky_reminders") || "[]");
-      reminders.forEach((r: { id: string; petId: string; petName: string; title: string; date: string; time: string; type: string; enabled: boolean }) => {
-        if (r.enabled) {
-          allEvents.push({
-            id: `rem_${r.id}`,
-            petId: r.petId,
-            petName: r.petName,
-            type: r.type === "vet_visit" ? "vet_visit" : "reminder",
-            title: r.title,
-            date: r.date,
-            time: r.time,
-          });
-        }
-      });
-    } catch {}
-
-    // Load health records
-    try {
-      const healthRecords = JSON.parse(localStorage.getItem("petchecky_health_records") || "[]");
-      healthRecords.forEach((h: { id: string; petId: string; petName: string; date: string; weight: number }) => {
-        allEvents.push({
-          id: `health_${h.id}`,
-          petId: h.petId,
-          petName: h.petName || "Pet",
-          type: "health",
-          title: `${h.weight}kg`,
-          date: h.date,
-        });
-      });
-    } catch {}
-
-    // Load walk records
-    try {
-      const walkRecords = JSON.parse(localStorage.getItem("petchecky_walk_records") || "[]");
-      walkRecords.forEach((w: { id: string; petId: string; petName: string; date: string; duration: number; distance: number }) => {
-        allEvents.push({
-          id: `walk_${w.id}`,
-          petId: w.petId,
-          petName: w.petName || "Pet",
-          type: "walk",
-          title: `${w.duration}min / ${w.distance}km`,
-          date: w.date,
-        });
-      });
-    } catch {}
-
-    setEvents(allEvents);
-  };
-
-  // Load pets and events
+  const petIdsKey = petIds.join(",");
   useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsed = JSON.parse(savedPets);
-      const petsArray = Array.isArray(parsed) ? parsed : [{ ...parsed, id: `local_${Date.now()}` }];
-      setPets(petsArray);
-    }
+    setHealthRecords(loadHealthRecords(petIdsKey ? petIdsKey.split(",") : []));
+  }, [petIdsKey]);
 
-    loadEvents();
-  }, []);
+  // 병원 예약 (로그인 사용자만 서버에 저장됨)
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      const token = await getAccessToken();
+      if (!token) return;
+      const result = await calendarService.listReservations(token);
+      if (result.success && result.data) {
+        setReservations(result.data);
+      }
+    })();
+  }, [user, getAccessToken]);
+
+  const calendarData = useMemo<CalendarData>(
+    () => ({
+      pets,
+      records: {
+        medications,
+        "vet-records": vetRecords,
+        walks,
+        vaccinations,
+        "insurance-claims": insuranceClaims,
+        reminders,
+      },
+      reservations,
+      healthRecords,
+      today: getTodayString(),
+    }),
+    [pets, medications, vetRecords, walks, vaccinations, insuranceClaims, reminders, reservations, healthRecords]
+  );
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
@@ -172,6 +155,16 @@ export default function CalendarPage() {
     return days;
   }, [year, month]);
 
+  // 화면에 보이는 6주 동안의 이벤트
+  const events = useMemo(
+    () =>
+      collectCalendarEvents(calendarData, {
+        from: formatDateForInput(calendarDays[0].date),
+        to: formatDateForInput(calendarDays[calendarDays.length - 1].date),
+      }),
+    [calendarData, calendarDays]
+  );
+
   const getEventsForDate = (dateStr: string) => {
     let filtered = events.filter((e) => e.date === dateStr);
     if (selectedPetId) {
@@ -180,12 +173,49 @@ export default function CalendarPage() {
     return filtered;
   };
 
-  const formatDateStr = (date: Date) => {
-    return date.toISOString().split("T")[0];
-  };
+  const formatDateStr = formatDateForInput;
 
   const today = formatDateStr(new Date());
 
+  // .ics 파일로 내보내기 (구독 피드와 같은 기간)
+  const handleExport = () => {
+    const exported = collectCalendarEvents(calendarData, {
+      from: shiftDate(today, -CALENDAR_PAST_DAYS),
+      to: shiftDate(today, CALENDAR_FUTURE_DAYS),
+    }).filter((event) => !selectedPetId || event.petId === selectedPetId);
+    const blob = new Blob([buildICalendar(exported, { name: t.calendar.title })], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `petchecky-calendar-${today}.ics`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // iCal 구독 주소 (캘린더 앱에서 자동으로 동기화)
+  const loadFeedUrl = useCallback(
+    async (rotate: boolean) => {
+      setFeedError(null);
+      const token = await getAccessToken();
+      if (!token) return;
+      const result = rotate ? await calendarService.rotateFeedUrl(token) : await calendarService.getFeedUrl(token);
+      if (result.success && result.data) {
+        setFeedUrl(result.data);
+      } else {
+        setFeedError(t.calendar.subscribeError);
+      }
+    },
+    [getAccessToken, t.calendar.subscribeError]
+  );
+
+  const handleRotateFeed = () => {
+    if (confirm(t.calendar.rotateConfirm)) {
+      loadFeedUrl(true);
+    }
+  };
+
   const goToPreviousMonth = () => {
     setCurrentDate(new Date(year, month - 1, 1));
   };
@@ -217,15 +247,65 @@ export default function CalendarPage() {
               {t.calendar.title}
             </h1>
           </div>
-          <button
-            onClick={goToToday}
-            className="rounded-lg bg-blue-100 px-3 py-1.5 text-sm font-medium text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300"
-          >
-            {t.calendar.today}
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              className="rounded-lg bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
+            >
+              {t.calendar.export}
+            </button>
+            {user && (
+              <button
+                onClick={() => loadFeedUrl(false)}
+                className="rounded-lg bg-gray-100 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
+              >
+                {t.calendar.subscribe}
+              </button>
+            )}
+            <button
+              onClick={goToToday}
+              className="rounded-lg bg-blue-100 px-3 py-1.5 text-sm font-medium text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300"
+            >
+              {t.calendar.today}
+            </button>
+          </div>
         </div>
       </header>
 
+      {/* iCal 구독 주소 */}
+      {(feedUrl || feedError) && (
+        <div className="border-b border-gray-200 bg-white px-4 py-3 dark:border-gray-700 dark:bg-gray-800">
+          {feedError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{feedError}</p>
+          ) : (
+            <>
+              <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">{t.calendar.subscribeHint}</p>
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  value={feedUrl ?? ""}
+                  onFocus={(e) => e.target.select()}
+                  aria-label={t.calendar.subscribe}
+                  className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                />
+                <button
+                  onClick={() => feedUrl && navigator.clipboard?.writeText(feedUrl)}
+                  className="rounded-lg bg-blue-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-600"
+                >
+                  {t.calendar.copy}
+                </button>
+                <button
+                  onClick={handleRotateFeed}
+                  className="rounded-lg px-3 py-1.5 text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  {t.calendar.rotate}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Pet Selector */}
       {pets.length > 1 && (
         <div className="border-b border-gray-200 bg-white px-4 py-2 dark:border-gray-700 dark:bg-gray-800">
@@ -242,15 +322,15 @@ export default function CalendarPage() {
             </button>
             {pets.map((pet) => (
               <button
-                key={pet.id}
-                onClick={() => setSelectedPetId(pet.id)}
+                key={pet.id ?? pet.name}
+                onClick={() => setSelectedPetId(pet.id ?? null)}
                 className={`flex items-center gap-1 whitespace-nowrap rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
                   selectedPetId === pet.id
                     ? "bg-blue-500 text-white"
                     : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
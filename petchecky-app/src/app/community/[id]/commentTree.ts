@@ -0,0 +1,55 @@
+import { CommunityCommentNode } from "@/lib/supabase";
+
+// 새 답글을 트리에 반영 (아직 다 불러오지 않은 답글 목록이면 개수만 늘리고 "더 보기"로 받음)
+export function addCommentToTree(nodes: CommunityCommentNode[], comment: CommunityCommentNode): CommunityCommentNode[] {
+  if (!comment.parent_id) {
+    return [...nodes, comment];
+  }
+
+  return nodes.map((node) => {
+    if (node.id === comment.parent_id) {
+      return {
+        ...node,
+        reply_count: node.reply_count + 1,
+        replies: node.has_more_replies ? node.replies : [...node.replies, comment],
+      };
+    }
+    return { ...node, replies: addCommentToTree(node.replies, comment) };
+  });
+}
+
+// "답글 더 보기"로 받은 답글 이어 붙이기
+export function appendReplies(
+  nodes: CommunityCommentNode[],
+  parentId: string,
+  replies: CommunityCommentNode[],
+  hasMore: boolean
+): CommunityCommentNode[] {
+  return nodes.map((node) => {
+    if (node.id === parentId) {
+      return { ...node, replies: [...node.replies, ...replies], has_more_replies: hasMore };
+    }
+    return { ...node, replies: appendReplies(node.replies, parentId, replies, hasMore) };
+  });
+}
+
+// 답글이 남아 있는 댓글은 "삭제된 댓글" 자리로 바꿈
+export function markCommentDeleted(nodes: CommunityCommentNode[], commentId: string): CommunityCommentNode[] {
+  return nodes.map((node) => {
+    if (node.id === commentId) {
+      return { ...node, is_deleted: true, content: "", author_name: "", user_id: "" };
+    }
+    return { ...node, replies: markCommentDeleted(node.replies, commentId) };
+  });
+}
+
+// 댓글을 빼고, 답글이 모두 사라진 "삭제된 댓글"/숨김 자리도 함께 정리 (서버와 같은 규칙)
+export function removeCommentFromTree(nodes: CommunityCommentNode[], commentId: string): CommunityCommentNode[] {
+  return nodes
+    .filter((node) => node.id !== commentId)
+    .map((node) => {
+      const replies = removeCommentFromTree(node.replies, commentId);
+      return { ...node, replies, reply_count: node.reply_count - (node.replies.length - replies.length) };
+    })
+    .filter((node) => !(node.is_deleted || node.is_hidden) || node.reply_count > 0);
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { CommunityCommentNode } from "@/lib/supabase";
+import { formatRelativeTime } from "@/lib/dateUtils";
+
+const REPLY_MAX_LENGTH = 500;
+
+interface CommentThreadProps {
+  comments: CommunityCommentNode[];
+  currentUserId?: string;
+  loadingRepliesId: string | null;
+  onReply: (parent: CommunityCommentNode, content: string) => Promise<boolean>;
+  onDelete: (comment: CommunityCommentNode) => void;
+  onReport: (comment: CommunityCommentNode) => void;
+  onLoadMoreReplies: (parent: CommunityCommentNode) => void;
+}
+
+// @이름은 강조해서 표시
+function CommentContent({ content }: { content: string }) {
+  return (
+    <p className="text-gray-700 whitespace-pre-wrap">
+      {content.split(/(@\S+)/).map((part, index) =>
+        part.startsWith("@") ? (
+          <span key={index} className="font-medium text-blue-600">{part}</span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function CommentItem({ comment, ...props }: Omit<CommentThreadProps, "comments"> & { comment: CommunityCommentNode }) {
+  const { currentUserId, loadingRepliesId, onReply, onDelete, onReport, onLoadMoreReplies } = props;
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const startReply = () => {
+    // 답글에 답할 때는 상대를 멘션해서 누구에게 답하는지 남김
+    setReplyText(comment.depth > 0 ? `@${comment.author_name} ` : "");
+    setIsReplying(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyText.trim()) return;
+
+    setIsSubmitting(true);
+    const success = await onReply(comment, replyText.trim());
+    setIsSubmitting(false);
+    if (success) {
+      setReplyText("");
+      setIsReplying(false);
+    }
+  };
+
+  const hiddenReplies = comment.reply_count - comment.replies.length;
+
+  return (
+    <div>
+      <div className="rounded-xl bg-white border border-gray-100 p-4">
+        {comment.is_deleted ? (
+          <p className="text-sm text-gray-400">삭제된 댓글입니다</p>
+        ) : comment.is_hidden ? (
+          <p className="text-sm text-gray-400">운영 정책에 따라 숨겨진 댓글입니다</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-800">{comment.author_name}</span>
+                <span className="text-xs text-gray-400">{formatRelativeTime(comment.created_at)}</span>
+                {comment.moderation_status === "pending" && (
+                  <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs text-yellow-700">검토 중</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                {currentUserId && (
+                  <button
+                    onClick={() => (isReplying ? setIsReplying(false) : startReply())}
+                    className="text-xs text-gray-400 hover:text-blue-500"
+                  >
+                    답글
+                  </button>
+                )}
+                {currentUserId === comment.user_id ? (
+                  <button
+                    onClick={() => onDelete(comment)}
+                    className="text-xs text-gray-400 hover:text-red-500"
+                  >
+                    삭제
+                  </button>
+                ) : currentUserId && (
+                  <button
+                    onClick={() => onReport(comment)}
+                    className="text-xs text-gray-400 hover:text-red-500"
+                  >
+                    신고
+                  </button>
+                )}
+              </div>
+            </div>
+            <CommentContent content={comment.content} />
+          </>
+        )}
+      </div>
+
+      {isReplying && (
+        <form onSubmit={handleSubmit} className="mt-2 ml-6 flex gap-2">
+          <input
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            placeholder="답글을 입력하세요"
+            maxLength={REPLY_MAX_LENGTH}
+            autoFocus
+            className="flex-1 rounded-full border border-gray-200 px-4 py-2 text-sm focus:outline-none focus:border-blue-400"
+          />
+          <button
+            type="submit"
+            disabled={!replyText.trim() || isSubmitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-full hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "등록 중..." : "등록"}
+          </button>
+        </form>
+      )}
+
+      {(comment.replies.length > 0 || hiddenReplies > 0) && (
+        <div className="mt-2 ml-6 space-y-2 border-l-2 border-gray-100 pl-3">
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} {...props} />
+          ))}
+          {comment.has_more_replies && hiddenReplies > 0 && (
+            <button
+              onClick={() => onLoadMoreReplies(comment)}
+              disabled={loadingRepliesId === comment.id}
+              className="text-sm text-blue-500 hover:underline disabled:text-gray-400"
+            >
+              {loadingRepliesId === comment.id ? "불러오는 중..." : `답글 ${hiddenReplies}개 더 보기`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CommentThread({ comments, ...props }: CommentThreadProps) {
+  return (
+    <div className="space-y-3">
+      {comments.map((comment) => (
+        <CommentItem key={comment.id} comment={comment} {...props} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import type { ReportReason } from "@/lib/validations/moderation";
+
+const REASON_OPTIONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "스팸/광고" },
+  { value: "scam", label: "사기/거래 유도" },
+  { value: "abuse", label: "욕설/비방" },
+  { value: "dangerous_medical", label: "위험한 의료 정보" },
+  { value: "other", label: "기타" },
+];
+
+interface ReportModalProps {
+  targetLabel: string;
+  onClose: () => void;
+  onSubmit: (reason: ReportReason, details: string) => Promise<boolean>;
+}
+
+export default function ReportModal({ targetLabel, onClose, onSubmit }: ReportModalProps) {
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const success = await onSubmit(reason, details.trim());
+    setIsSubmitting(false);
+    if (success) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">{targetLabel} 신고</h3>
+
+        <div className="space-y-2 mb-4">
+          {REASON_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-gray-700">
+              <input
+                type="radio"
+                name="reason"
+                value={option.value}
+                checked={reason === option.value}
+                onChange={() => setReason(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          placeholder="상세 내용 (선택)"
+          rows={3}
+          maxLength={500}
+          className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm resize-none focus:outline-none focus:border-blue-400 mb-4"
+        />
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 py-3 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            취소
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 py-3 rounded-lg bg-red-500 text-white font-medium hover:bg-red-600 disabled:bg-gray-300"
+          >
+            {isSubmitting ? "신고 중..." : "신고"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
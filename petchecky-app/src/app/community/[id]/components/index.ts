@@ -0,0 +1,2 @@
+export { default as CommentThread } from "./CommentThread";
+export { default as ReportModal } from "./ReportModal";
@@ -4,8 +4,17 @@ import { useState, useEffect, use } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
-import { CommunityPost, CommunityComment } from "@/lib/supabase";
+import { CommunityPost, CommunityCommentNode } from "@/lib/supabase";
 import { formatRelativeTime } from "@/lib/dateUtils";
+import { getSpeciesEmoji } from "@/lib/species";
+import type { ReportReason } from "@/lib/validations/moderation";
+import { CommentThread, ReportModal } from "./components";
+import {
+  addCommentToTree,
+  appendReplies,
+  markCommentDeleted,
+  removeCommentFromTree,
+} from "./commentTree";
 
 const CATEGORIES = [
   { id: "question", label: "질문", emoji: "?" },
@@ -20,7 +29,9 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
   const { user, session } = useAuth();
 
   const [post, setPost] = useState<CommunityPost | null>(null);
-  const [comments, setComments] = useState<CommunityComment[]>([]);
+  const [comments, setComments] = useState<CommunityCommentNode[]>([]);
+  const [commentsTotal, setCommentsTotal] = useState(0);
+  const [loadingRepliesId, setLoadingRepliesId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLiked, setIsLiked] = useState(false);
   const [likesCount, setLikesCount] = useState(0);
@@ -29,6 +40,8 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
   const [isLiking, setIsLiking] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  // 신고 대상 (commentId가 없으면 게시글)
+  const [reportTarget, setReportTarget] = useState<{ commentId?: string } | null>(null);
 
   // 게시글 조회
   useEffect(() => {
@@ -60,6 +73,7 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
         if (res.ok) {
           const data = await res.json();
           setComments(data.comments);
+          setCommentsTotal(data.total);
         }
       } catch (error) {
         console.error("Error fetching comments:", error);
@@ -121,12 +135,10 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
     }
   };
 
-  // 댓글 작성
-  const handleSubmitComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim() || !user || !session?.access_token) return;
+  // 댓글/답글 작성
+  const postComment = async (content: string, parentId?: string): Promise<boolean> => {
+    if (!user || !session?.access_token) return false;
 
-    setIsSubmittingComment(true);
     try {
       const res = await fetch(`/api/community/posts/${id}/comments`, {
         method: "POST",
@@ -134,40 +146,108 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
           "Content-Type": "application/json",
           Authorization: `Bearer ${session.access_token}`,
         },
-        body: JSON.stringify({ content: newComment.trim() }),
+        body: JSON.stringify({ content, parent_id: parentId }),
       });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        alert(data?.error || "댓글 작성에 실패했습니다");
+        return false;
+      }
+      const data = await res.json();
+      setComments((prev) => addCommentToTree(prev, data.comment));
+      if (data.comment.moderation_status === "pending") {
+        alert("운영 정책 확인이 필요한 내용이 있어 검토 후 공개됩니다.");
+      } else {
+        setCommentsTotal((prev) => prev + 1);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error creating comment:", error);
+      return false;
+    }
+  };
+
+  const handleSubmitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+
+    setIsSubmittingComment(true);
+    if (await postComment(newComment.trim())) {
+      setNewComment("");
+    }
+    setIsSubmittingComment(false);
+  };
+
+  // 답글 더 보기
+  const handleLoadMoreReplies = async (parent: CommunityCommentNode) => {
+    const last = parent.replies[parent.replies.length - 1];
+    const query = new URLSearchParams({ parentId: parent.id });
+    if (last) query.set("after", last.created_at);
+
+    setLoadingRepliesId(parent.id);
+    try {
+      const res = await fetch(`/api/community/posts/${id}/comments?${query.toString()}`);
       if (res.ok) {
         const data = await res.json();
-        setComments([...comments, data.comment]);
-        setNewComment("");
+        setComments((prev) => appendReplies(prev, parent.id, data.replies, data.has_more));
       }
     } catch (error) {
-      console.error("Error creating comment:", error);
+      console.error("Error fetching replies:", error);
     } finally {
-      setIsSubmittingComment(false);
+      setLoadingRepliesId(null);
     }
   };
 
-  // 댓글 삭제
-  const handleDeleteComment = async (commentId: string) => {
+  // 댓글 삭제 (답글이 있으면 "삭제된 댓글"로 남음)
+  const handleDeleteComment = async (comment: CommunityCommentNode) => {
     if (!session?.access_token) return;
     if (!confirm("댓글을 삭제하시겠습니까?")) return;
 
     try {
-      const res = await fetch(`/api/community/posts/${id}/comments?commentId=${commentId}`, {
+      const res = await fetch(`/api/community/posts/${id}/comments?commentId=${comment.id}`, {
         method: "DELETE",
         headers: {
           Authorization: `Bearer ${session.access_token}`,
         },
       });
       if (res.ok) {
-        setComments(comments.filter((c) => c.id !== commentId));
+        const data = await res.json();
+        setComments((prev) =>
+          data.soft_deleted ? markCommentDeleted(prev, comment.id) : removeCommentFromTree(prev, comment.id)
+        );
+        setCommentsTotal((prev) => Math.max(prev - 1, 0));
       }
     } catch (error) {
       console.error("Error deleting comment:", error);
     }
   };
 
+  // 게시글/댓글 신고
+  const handleReport = async (reason: ReportReason, details: string): Promise<boolean> => {
+    if (!reportTarget || !session?.access_token) return false;
+
+    try {
+      const res = await fetch(`/api/community/posts/${id}/report`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ ...reportTarget, reason, details: details || undefined }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(data?.error || "신고에 실패했습니다");
+        return false;
+      }
+      alert("신고가 접수되었습니다. 검토 후 조치하겠습니다.");
+      return true;
+    } catch (error) {
+      console.error("Error reporting content:", error);
+      return false;
+    }
+  };
+
   // 게시글 삭제
   const handleDeletePost = async () => {
     if (!session?.access_token) return;
@@ -251,7 +331,7 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
               </span>
               {post.pet_species && (
                 <span className="text-lg">
-                  {post.pet_species === "dog" ? "🐕" : "🐈"}
+                  {getSpeciesEmoji(post.pet_species)}
                 </span>
               )}
             </div>
@@ -264,6 +344,16 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
               <div className="flex items-center gap-3">
                 <span className="font-medium text-gray-700">{post.author_name}</span>
                 <span>{formatRelativeTime(post.created_at)}</span>
+                {user && !isAuthor && (
+                  <>
+                    <Link href={`/messages?to=${post.user_id}`} className="text-blue-500 hover:underline">
+                      메시지 보내기
+                    </Link>
+                    <button onClick={() => setReportTarget({})} className="text-gray-400 hover:text-red-500">
+                      신고
+                    </button>
+                  </>
+                )}
               </div>
               <div className="flex items-center gap-3">
                 <span>조회 {post.views_count}</span>
@@ -293,7 +383,7 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
               </button>
               <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-gray-100 text-gray-600">
                 <span>💬</span>
-                <span className="font-medium">{comments.length}</span>
+                <span className="font-medium">{commentsTotal}</span>
               </div>
             </div>
 
@@ -319,7 +409,7 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
         {/* 댓글 섹션 */}
         <section className="mt-6">
           <h2 className="text-lg font-bold text-gray-800 mb-4">
-            댓글 {comments.length}개
+            댓글 {commentsTotal}개
           </h2>
 
           {/* 댓글 작성 */}
@@ -366,40 +456,27 @@ export default function PostDetailPage({ params }: { params: Promise<{ id: strin
               아직 댓글이 없습니다. 첫 댓글을 남겨보세요!
             </div>
           ) : (
-            <div className="space-y-3">
-              {comments.map((comment) => (
-                <div
-                  key={comment.id}
-                  className="rounded-xl bg-white border border-gray-100 p-4"
-                >
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                      <span className="font-medium text-gray-800">
-                        {comment.author_name}
-                      </span>
-                      <span className="text-xs text-gray-400">
-                        {formatRelativeTime(comment.created_at)}
-                      </span>
-                    </div>
-                    {user?.id === comment.user_id && (
-                      <button
-                        onClick={() => handleDeleteComment(comment.id)}
-                        className="text-xs text-gray-400 hover:text-red-500"
-                      >
-                        삭제
-                      </button>
-                    )}
-                  </div>
-                  <p className="text-gray-700 whitespace-pre-wrap">
-                    {comment.content}
-                  </p>
-                </div>
-              ))}
-            </div>
+            <CommentThread
+              comments={comments}
+              currentUserId={user?.id}
+              loadingRepliesId={loadingRepliesId}
+              onReply={(parent, content) => postComment(content, parent.id)}
+              onDelete={handleDeleteComment}
+              onReport={(comment) => setReportTarget({ commentId: comment.id })}
+              onLoadMoreReplies={handleLoadMoreReplies}
+            />
           )}
         </section>
       </main>
 
+      {reportTarget && (
+        <ReportModal
+          targetLabel={reportTarget.commentId ? "댓글" : "게시글"}
+          onClose={() => setReportTarget(null)}
+          onSubmit={handleReport}
+        />
+      )}
+
       {/* 삭제 확인 모달 */}
       {showDeleteModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
@@ -6,6 +6,8 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { CommunityPost } from "@/lib/supabase";
 import { formatRelativeTime } from "@/lib/dateUtils";
+import { getSpeciesEmoji, getSpeciesName, PET_SPECIES, type PetSpecies } from "@/lib/species";
+import { buildPostSearchQuery, type PostSearchParams } from "@/lib/services";
 
 const CATEGORIES = [
   { id: "all", label: "전체", emoji: "#" },
@@ -15,35 +17,73 @@ const CATEGORIES = [
   { id: "review", label: "후기", emoji: "*" },
 ];
 
+const SORTS: { id: NonNullable<PostSearchParams["sort"]>; label: string }[] = [
+  { id: "recent", label: "최신순" },
+  { id: "relevance", label: "관련도순" },
+  { id: "likes", label: "인기순" },
+];
+
+const PAGE_SIZE = 20;
+
 export default function CommunityPage() {
   const { user, session } = useAuth();
   const router = useRouter();
   const [posts, setPosts] = useState<CommunityPost[]>([]);
   const [selectedCategory, setSelectedCategory] = useState("all");
+  const [selectedSpecies, setSelectedSpecies] = useState<"" | PetSpecies>("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [sort, setSort] = useState<NonNullable<PostSearchParams["sort"]>>("recent");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [showWriteModal, setShowWriteModal] = useState(false);
 
-  // 게시글 목록 조회
-  const fetchPosts = useCallback(async () => {
-    setIsLoading(true);
+  // 게시글 목록/검색 조회 (cursor가 있으면 이어서 불러오기)
+  const fetchPosts = useCallback(async (cursor: string | null = null) => {
+    if (cursor) setIsLoadingMore(true);
+    else setIsLoading(true);
     try {
-      const url = `/api/community/posts?category=${selectedCategory}&limit=50`;
-      const res = await fetch(url);
+      const query = buildPostSearchQuery({
+        q: searchQuery,
+        category: selectedCategory,
+        species: selectedSpecies || undefined,
+        tags: selectedTags,
+        sort,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      const res = await fetch(`/api/community/posts${query}`);
       if (res.ok) {
         const data = await res.json();
-        setPosts(data.posts);
+        setPosts((prev) => (cursor ? [...prev, ...data.posts] : data.posts));
+        setNextCursor(data.next_cursor);
       }
     } catch (error) {
       console.error("Error fetching posts:", error);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [selectedCategory]);
+  }, [searchQuery, selectedCategory, selectedSpecies, selectedTags, sort]);
 
   useEffect(() => {
     fetchPosts();
   }, [fetchPosts]);
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchInput.trim();
+    setSearchQuery(query);
+    // 검색하면 관련도순, 검색어를 지우면 최신순
+    setSort(query ? "relevance" : "recent");
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
   const getCategoryInfo = (category: string) => {
     return CATEGORIES.find((c) => c.id === category) || CATEGORIES[0];
   };
@@ -66,6 +106,25 @@ export default function CommunityPage() {
       </header>
 
       <main className="mx-auto max-w-3xl px-4 py-6">
+        {/* 검색 */}
+        <form onSubmit={handleSearch} className="mb-4 flex gap-2" role="search">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="제목, 내용, 댓글, #태그 검색"
+            maxLength={100}
+            className="flex-1 rounded-full border border-gray-200 bg-white px-4 py-2 text-sm focus:border-blue-400 focus:outline-none"
+            aria-label="게시글 검색어"
+          />
+          <button
+            type="submit"
+            className="rounded-full bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600"
+          >
+            검색
+          </button>
+        </form>
+
         {/* 카테고리 필터 */}
         <div className="flex gap-2 overflow-x-auto pb-4 -mx-4 px-4 scrollbar-hide">
           {CATEGORIES.map((category) => (
@@ -86,6 +145,53 @@ export default function CommunityPage() {
           ))}
         </div>
 
+        {/* 반려동물 종류 & 정렬 */}
+        <div className="mb-4 flex items-center gap-2">
+          <select
+            value={selectedSpecies}
+            onChange={(e) => setSelectedSpecies(e.target.value as "" | PetSpecies)}
+            className="rounded-full border border-gray-200 bg-white px-3 py-1.5 text-sm text-gray-600 focus:outline-none"
+            aria-label="반려동물 종류 필터"
+          >
+            <option value="">모든 반려동물</option>
+            {PET_SPECIES.map((species) => (
+              <option key={species} value={species}>
+                {getSpeciesEmoji(species)} {getSpeciesName(species)}
+              </option>
+            ))}
+          </select>
+          <div className="ml-auto flex gap-1">
+            {SORTS.filter((option) => option.id !== "relevance" || searchQuery).map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setSort(option.id)}
+                className={`rounded-full px-3 py-1.5 text-xs font-medium ${
+                  sort === option.id ? "bg-gray-800 text-white" : "text-gray-500 hover:bg-gray-100"
+                }`}
+                aria-pressed={sort === option.id}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* 선택한 해시태그 */}
+        {selectedTags.length > 0 && (
+          <div className="mb-4 flex flex-wrap gap-2">
+            {selectedTags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className="rounded-full bg-blue-100 px-3 py-1 text-xs font-medium text-blue-700"
+                aria-label={`#${tag} 필터 해제`}
+              >
+                #{tag} ✕
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* 글쓰기 버튼 */}
         {user && (
           <button
@@ -106,8 +212,10 @@ export default function CommunityPage() {
         ) : posts.length === 0 ? (
           <div className="text-center py-12 bg-white rounded-2xl">
             <span className="text-5xl">#</span>
-            <p className="mt-4 text-gray-500">아직 게시글이 없습니다</p>
-            {user && (
+            <p className="mt-4 text-gray-500">
+              {searchQuery || selectedTags.length > 0 || selectedSpecies ? "조건에 맞는 게시글이 없습니다" : "아직 게시글이 없습니다"}
+            </p>
+            {user && !searchQuery && (
               <button
                 onClick={() => setShowWriteModal(true)}
                 className="mt-4 rounded-full bg-blue-500 px-6 py-2 text-sm font-medium text-white"
@@ -141,7 +249,7 @@ export default function CommunityPage() {
                         </span>
                         {post.pet_species && (
                           <span className="text-sm">
-                            {post.pet_species === "dog" ? "🐕" : "🐈"}
+                            {getSpeciesEmoji(post.pet_species)}
                           </span>
                         )}
                       </div>
@@ -156,6 +264,24 @@ export default function CommunityPage() {
                         {post.content}
                       </p>
 
+                      {/* 해시태그 */}
+                      {post.hashtags && post.hashtags.length > 0 && (
+                        <div className="mb-2 flex flex-wrap gap-1.5">
+                          {post.hashtags.map((tag) => (
+                            <button
+                              key={tag}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleTag(tag);
+                              }}
+                              className="text-xs text-blue-500 hover:underline"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
                       {/* 메타 정보 */}
                       <div className="flex items-center gap-4 text-xs text-gray-400">
                         <span>{post.author_name}</span>
@@ -172,6 +298,15 @@ export default function CommunityPage() {
                 </article>
               );
             })}
+            {nextCursor && (
+              <button
+                onClick={() => fetchPosts(nextCursor)}
+                disabled={isLoadingMore}
+                className="w-full rounded-xl border border-gray-200 bg-white py-3 text-sm text-gray-600 hover:bg-gray-50 disabled:text-gray-400"
+              >
+                {isLoadingMore ? "불러오는 중..." : "더 보기"}
+              </button>
+            )}
           </div>
         )}
 
@@ -197,8 +332,13 @@ export default function CommunityPage() {
           session={session}
           onClose={() => setShowWriteModal(false)}
           onSuccess={(newPost) => {
-            setPosts([newPost, ...posts]);
             setShowWriteModal(false);
+            // 자동 검사에 걸린 글은 검토 후 공개
+            if (newPost.moderation_status === "pending") {
+              alert("운영 정책 확인이 필요한 내용이 있어 검토 후 공개됩니다.");
+              return;
+            }
+            setPosts([newPost, ...posts]);
             router.push(`/community/${newPost.id}`);
           }}
         />
@@ -244,7 +384,8 @@ function WritePostModal({
     title: "",
     content: "",
     category: "question" as CommunityPost["category"],
-    pet_species: "" as "" | "dog" | "cat",
+    pet_species: "" as "" | PetSpecies,
+    hashtags: "",
   });
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -270,6 +411,7 @@ function WritePostModal({
           content: form.content.trim(),
           category: form.category,
           pet_species: form.pet_species || null,
+          hashtags: form.hashtags,
         }),
       });
 
@@ -338,33 +480,23 @@ function WritePostModal({
             <label className="block text-sm font-medium text-gray-700 mb-2">
               반려동물 (선택)
             </label>
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setForm((prev) => ({ ...prev, pet_species: prev.pet_species === "dog" ? "" : "dog" }))}
-                className={`flex-1 rounded-lg border-2 py-3 font-medium transition-all ${
-                  form.pet_species === "dog"
-                    ? "border-blue-500 bg-blue-50 text-blue-700"
-                    : "border-gray-200 text-gray-600 hover:border-gray-300"
-                }`}
-                aria-label="강아지 선택"
-                aria-pressed={form.pet_species === "dog"}
-              >
-                🐕 강아지
-              </button>
-              <button
-                type="button"
-                onClick={() => setForm((prev) => ({ ...prev, pet_species: prev.pet_species === "cat" ? "" : "cat" }))}
-                className={`flex-1 rounded-lg border-2 py-3 font-medium transition-all ${
-                  form.pet_species === "cat"
-                    ? "border-blue-500 bg-blue-50 text-blue-700"
-                    : "border-gray-200 text-gray-600 hover:border-gray-300"
-                }`}
-                aria-label="고양이 선택"
-                aria-pressed={form.pet_species === "cat"}
-              >
-                🐈 고양이
-              </button>
+            <div className="grid grid-cols-4 gap-2">
+              {PET_SPECIES.map((species) => (
+                <button
+                  key={species}
+                  type="button"
+                  onClick={() => setForm((prev) => ({ ...prev, pet_species: prev.pet_species === species ? "" : species }))}
+                  className={`rounded-lg border-2 py-2 text-sm font-medium transition-all ${
+                    form.pet_species === species
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 text-gray-600 hover:border-gray-300"
+                  }`}
+                  aria-label={`${getSpeciesName(species)} 선택`}
+                  aria-pressed={form.pet_species === species}
+                >
+                  {getSpeciesEmoji(species)} {getSpeciesName(species)}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -403,6 +535,22 @@ function WritePostModal({
             </p>
           </div>
 
+          {/* 해시태그 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              해시태그 (선택)
+            </label>
+            <input
+              type="text"
+              value={form.hashtags}
+              onChange={(e) => setForm((prev) => ({ ...prev, hashtags: e.target.value }))}
+              placeholder="#산책 #간식 (띄어쓰기로 구분)"
+              maxLength={200}
+              className="w-full rounded-lg border border-gray-300 px-4 py-3 focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-400 mt-1">본문에 쓴 #태그도 함께 등록됩니다 (최대 10개)</p>
+          </div>
+
           {/* 버튼 */}
           <div className="flex gap-3 pt-2">
             <button
@@ -1,8 +1,25 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
-import { PetProfile } from "@/app/page";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { DietLog } from "@/types/petRecords";
+import { getSpecies, getSpeciesEmoji, type PetSpecies } from "@/lib/species";
+import { formatWeightRange, getWeightStatus, resolveBreed, type BreedSize, type WeightStatus } from "@/lib/breeds";
+import { getStorageItem } from "@/lib/safeJson";
+import {
+  ALLERGY_STORAGE_KEY,
+  RESTRICTION_STORAGE_KEY,
+  collectDietAllergens,
+  findDietConflicts,
+  isBlockingConflict,
+  type DietAllergen,
+  type DietConflict,
+  type StoredAllergy,
+  type StoredRestriction,
+} from "@/lib/dietAllergy";
 
 interface FoodRecommendation {
   id: string;
@@ -10,7 +27,9 @@ interface FoodRecommendation {
   brand: string;
   type: "dry" | "wet" | "raw" | "treat";
   targetAge: "puppy" | "adult" | "senior" | "all";
-  targetSpecies: "dog" | "cat";
+  targetSpecies: PetSpecies;
+  // 없으면 모든 크기
+  targetSizes?: BreedSize[];
   features: string[];
   ingredients: string[];
   rating: number;
@@ -18,15 +37,13 @@ interface FoodRecommendation {
   suitableFor: string[];
 }
 
-interface DietLog {
-  id: string;
-  petId: string;
-  date: string;
-  foodName: string;
-  amount: string;
-  mealTime: "breakfast" | "lunch" | "dinner" | "snack";
-  notes?: string;
-}
+// 품종 권장 체중 대비 급여 조언
+const WEIGHT_STATUS_ADVICE: Record<WeightStatus, string> = {
+  under: "체중이 부족해요. 급여량을 조금 늘려보세요",
+  normal: "지금 체중을 잘 유지하고 있어요",
+  slightlyOver: "간식을 줄이고 급여량을 확인해보세요",
+  over: "체중 관리용 사료와 간식 조절을 추천해요",
+};
 
 // Sample food recommendations
 const FOOD_RECOMMENDATIONS: FoodRecommendation[] = [
@@ -50,6 +67,7 @@ const FOOD_RECOMMENDATIONS: FoodRecommendation[] = [
     type: "dry",
     targetAge: "adult",
     targetSpecies: "dog",
+    targetSizes: ["toy", "small"],
     features: ["소형견 전용", "소화 건강", "피모 건강"],
     ingredients: ["닭고기", "쌀", "옥수수"],
     rating: 4.5,
@@ -69,6 +87,20 @@ const FOOD_RECOMMENDATIONS: FoodRecommendation[] = [
     priceRange: "mid",
     suitableFor: ["과체중", "관절 케어"],
   },
+  {
+    id: "6",
+    name: "로얄캐닌 맥시 어덜트",
+    brand: "로얄캐닌",
+    type: "dry",
+    targetAge: "adult",
+    targetSpecies: "dog",
+    targetSizes: ["large", "giant"],
+    features: ["대형견 전용", "관절 건강", "큰 알갱이"],
+    ingredients: ["닭고기", "쌀", "글루코사민"],
+    rating: 4.5,
+    priceRange: "mid",
+    suitableFor: ["대형견", "관절 케어"],
+  },
   {
     id: "4",
     name: "로얄캐닌 인도어 캣",
@@ -97,7 +129,7 @@ const FOOD_RECOMMENDATIONS: FoodRecommendation[] = [
   },
 ];
 
-const DIET_TIPS = {
+const DIET_TIPS: Record<PetSpecies, string[]> = {
   dog: [
     "하루 2~3회 규칙적인 식사가 좋습니다",
     "사람 음식, 특히 포도, 초콜릿, 양파는 위험해요",
@@ -112,50 +144,87 @@ const DIET_TIPS = {
     "타우린이 포함된 사료를 선택하세요",
     "식사 장소는 화장실과 떨어진 곳에",
   ],
+  rabbit: [
+    "식단의 80% 이상은 무제한 건초(티모시)로 주세요",
+    "펠릿은 체중 1kg당 하루 한 큰술 정도가 적당해요",
+    "잎채소는 조금씩 종류를 늘려가며 주세요",
+    "과일은 당분이 많아 간식으로 소량만",
+  ],
+  hamster: [
+    "햄스터 전용 펠릿을 주식으로 주세요",
+    "볼주머니에 저장하므로 먹이통 잔량으로 식사량을 판단하지 마세요",
+    "채소는 물기를 닦아 소량만 주세요",
+    "삶은 달걀흰자, 밀웜 등 단백질 간식은 주 1~2회",
+  ],
+  ferret: [
+    "페럿은 육식동물이라 고단백·고지방 사료가 필요해요",
+    "소화가 빨라 하루 여러 번 나눠 먹어요, 사료를 항상 채워주세요",
+    "과일, 채소, 곡물 간식은 소화하지 못해요",
+    "단 간식은 인슐린종 위험을 높여요",
+  ],
+  bird: [
+    "씨앗만 먹이면 영양이 부족해요, 펠릿 위주로 바꿔주세요",
+    "신선한 채소를 매일 조금씩 주세요",
+    "먹다 남은 생과일·채소는 상하기 전에 치워주세요",
+    "물은 매일 갈아주세요",
+  ],
+  reptile: [
+    "종에 따라 초식·충식·육식이 달라요, 종별 식단을 확인하세요",
+    "먹이 곤충에는 칼슘 파우더를 더스팅해주세요",
+    "UVB 조명이 없으면 칼슘을 흡수하지 못해요",
+    "먹이 크기는 눈 사이 간격보다 작게",
+  ],
+};
+
+// 종별 건강한 간식
+const HEALTHY_SNACKS: Record<PetSpecies, string[]> = {
+  dog: ["당근", "사과 (씨 제외)", "블루베리", "수박", "오이", "호박"],
+  cat: ["익힌 닭가슴살", "삶은 생선", "호박", "브로콜리", "참외", "수박"],
+  rabbit: ["로메인", "청경채", "바질", "민들레잎", "파슬리", "사과 (씨 제외)"],
+  hamster: ["브로콜리", "당근", "오이", "삶은 달걀흰자", "밀웜", "호박씨"],
+  ferret: ["익힌 닭고기", "삶은 달걀", "페럿 전용 육포", "익힌 칠면조"],
+  bird: ["브로콜리", "당근", "피망", "케일", "사과 (씨 제외)", "조"],
+  reptile: ["귀뚜라미", "듀비아", "청경채", "호박", "케일", "민들레잎"],
 };
 
 export default function DietPage() {
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
-  const [dietLogs, setDietLogs] = useState<DietLog[]>([]);
+  const { records: dietLogs, addRecord } = usePetRecords(
+    "diet-logs",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
   const [showLogModal, setShowLogModal] = useState(false);
   const [activeTab, setActiveTab] = useState<"recommendations" | "log" | "tips">("recommendations");
 
   const selectedPet = pets.find((p) => p.id === selectedPetId);
+  const selectedBreed = selectedPet ? resolveBreed(selectedPet) : null;
+  const weightStatus = selectedPet && selectedBreed?.weight ? getWeightStatus(selectedPet.weight, selectedBreed.weight) : null;
+
+  // 알레르기 페이지에 등록한 식품 알레르기 + 식이 제한
+  const allergens = useMemo(() => {
+    if (!selectedPetId) return [];
+    return collectDietAllergens(
+      selectedPetId,
+      getStorageItem<StoredAllergy[]>(ALLERGY_STORAGE_KEY, []),
+      getStorageItem<StoredRestriction[]>(RESTRICTION_STORAGE_KEY, [])
+    );
+  }, [selectedPetId]);
 
-  // Load pets
+  // Select first pet once loaded
   useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsedPets = JSON.parse(savedPets);
-      setPets(parsedPets);
-      if (parsedPets.length > 0) {
-        setSelectedPetId(parsedPets[0].id);
-      }
+    if (petsLoaded && pets.length > 0) {
+      setSelectedPetId(pets[0].id || null);
     }
-  }, []);
-
-  // Load diet logs
-  useEffect(() => {
-    if (selectedPetId) {
-      const saved = localStorage.getItem(`petchecky_diet_${selectedPetId}`);
-      setDietLogs(saved ? JSON.parse(saved) : []);
-    }
-  }, [selectedPetId]);
+  }, [petsLoaded, pets]);
 
   // Save diet log
-  const handleSaveDietLog = (log: Omit<DietLog, "id" | "petId">) => {
+  const handleSaveDietLog = async (log: Omit<DietLog, "id" | "petId">) => {
     if (!selectedPetId) return;
 
-    const newLog: DietLog = {
-      ...log,
-      id: Date.now().toString(),
-      petId: selectedPetId,
-    };
-
-    const updated = [...dietLogs, newLog];
-    setDietLogs(updated);
-    localStorage.setItem(`petchecky_diet_${selectedPetId}`, JSON.stringify(updated));
+    await addRecord(selectedPetId, log);
     setShowLogModal(false);
   };
 
@@ -167,12 +236,22 @@ export default function DietPage() {
       // Filter by species
       if (food.targetSpecies !== selectedPet.species) return false;
 
+      // Filter by breed size (품종을 모르면 크기 제한 없이 표시)
+      if (food.targetSizes && selectedBreed?.size && !food.targetSizes.includes(selectedBreed.size)) return false;
+
       // Could add more filtering based on pet age, weight, health conditions
       return true;
     });
   };
 
-  const recommendations = getRecommendations();
+  // 알레르겐/제한 재료가 든 사료는 추천에서 제외
+  const candidates = getRecommendations();
+  const recommendations = candidates.filter(
+    (food) => findDietConflicts([food.name, ...food.ingredients], allergens).length === 0
+  );
+  const excludedCount = candidates.length - recommendations.length;
+
+  const getLogConflicts = (log: DietLog) => findDietConflicts([log.foodName, ...(log.ingredients ?? [])], allergens);
 
   // Get meal time label
   const getMealTimeLabel = (mealTime: string) => {
@@ -247,7 +326,7 @@ export default function DietPage() {
                     : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -279,6 +358,25 @@ export default function DietPage() {
                 <p className="text-sm text-green-700 dark:text-green-300">
                   🐾 <strong>{selectedPet.name}</strong>({selectedPet.breed}, {selectedPet.age}세, {selectedPet.weight}kg)에게 맞는 사료를 추천해드려요
                 </p>
+                {selectedBreed?.weight && (
+                  <p className="mt-1 text-xs text-green-600 dark:text-green-400">
+                    {selectedBreed.names.ko} 성체 권장 체중 {formatWeightRange(selectedBreed.weight)}
+                    {weightStatus && ` · ${WEIGHT_STATUS_ADVICE[weightStatus]}`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {allergens.length > 0 && (
+              <div className="rounded-xl bg-orange-50 border border-orange-200 p-4 dark:bg-orange-900/20 dark:border-orange-700">
+                <p className="text-sm text-orange-700 dark:text-orange-300">
+                  🚫 피해야 할 재료: <strong>{allergens.map((allergen) => allergen.name).join(", ")}</strong>
+                </p>
+                {excludedCount > 0 && (
+                  <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+                    이 재료가 든 사료 {excludedCount}개는 추천에서 제외했어요
+                  </p>
+                )}
               </div>
             )}
 
@@ -334,7 +432,9 @@ export default function DietPage() {
               <div className="rounded-xl bg-white border border-gray-200 p-8 text-center dark:bg-gray-800 dark:border-gray-700">
                 <div className="text-4xl mb-3">🍽️</div>
                 <p className="text-gray-500 dark:text-gray-400">
-                  펫 프로필을 등록하면 맞춤 사료를 추천받을 수 있어요
+                  {excludedCount > 0
+                    ? "알레르기·식이 제한에 맞는 추천 사료가 없어요. 수의사와 처방식을 상담해보세요"
+                    : "펫 프로필을 등록하면 맞춤 사료를 추천받을 수 있어요"}
                 </p>
               </div>
             )}
@@ -361,6 +461,7 @@ export default function DietPage() {
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             {getMealTimeLabel(log.mealTime)} · {log.amount}
                           </p>
+                          <ConflictNote conflicts={getLogConflicts(log)} />
                         </div>
                       </div>
                     ))}
@@ -385,6 +486,7 @@ export default function DietPage() {
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             {log.date} · {getMealTimeLabel(log.mealTime)} · {log.amount}
                           </p>
+                          <ConflictNote conflicts={getLogConflicts(log)} />
                         </div>
                       </div>
                     ))}
@@ -412,7 +514,7 @@ export default function DietPage() {
           <div className="space-y-4">
             <div className="rounded-xl bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 p-4 dark:from-green-900/20 dark:to-emerald-900/20 dark:border-green-700">
               <h3 className="font-bold text-gray-800 mb-3 dark:text-gray-100">
-                {selectedPet.species === "dog" ? "🐕 강아지" : "🐈 고양이"} 식이 팁
+                {getSpeciesEmoji(selectedPet.species)} {getSpecies(selectedPet.species).names.ko} 식이 팁
               </h3>
               <ul className="space-y-2">
                 {DIET_TIPS[selectedPet.species].map((tip, idx) => (
@@ -428,10 +530,10 @@ export default function DietPage() {
             <div className="rounded-xl bg-red-50 border border-red-200 p-4 dark:bg-red-900/20 dark:border-red-700">
               <h3 className="font-bold text-red-700 mb-3 dark:text-red-300">🚫 위험한 음식</h3>
               <div className="grid grid-cols-2 gap-2">
-                {["초콜릿", "포도/건포도", "양파/마늘", "자일리톨", "카페인", "알코올"].map((food, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-sm text-red-600 dark:text-red-300">
+                {getSpecies(selectedPet.species).toxicFoods.map((food) => (
+                  <div key={food.name} className="flex items-center gap-2 text-sm text-red-600 dark:text-red-300">
                     <span>❌</span>
-                    <span>{food}</span>
+                    <span>{food.name}</span>
                   </div>
                 ))}
               </div>
@@ -441,10 +543,7 @@ export default function DietPage() {
             <div className="rounded-xl bg-blue-50 border border-blue-200 p-4 dark:bg-blue-900/20 dark:border-blue-700">
               <h3 className="font-bold text-blue-700 mb-3 dark:text-blue-300">✅ 건강한 간식</h3>
               <div className="grid grid-cols-2 gap-2">
-                {(selectedPet.species === "dog"
-                  ? ["당근", "사과 (씨 제외)", "블루베리", "수박", "오이", "호박"]
-                  : ["익힌 닭가슴살", "삶은 생선", "호박", "브로콜리", "참외", "수박"]
-                ).map((food, idx) => (
+                {HEALTHY_SNACKS[selectedPet.species].map((food, idx) => (
                   <div key={idx} className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-300">
                     <span>✓</span>
                     <span>{food}</span>
@@ -460,6 +559,8 @@ export default function DietPage() {
       {showLogModal && selectedPet && (
         <DietLogModal
           petName={selectedPet.name}
+          allergens={allergens}
+          foods={FOOD_RECOMMENDATIONS.filter((food) => food.targetSpecies === selectedPet.species)}
           onSave={handleSaveDietLog}
           onClose={() => setShowLogModal(false)}
         />
@@ -468,31 +569,76 @@ export default function DietPage() {
   );
 }
 
+// 알레르겐이 든 식사 기록 표시
+function ConflictNote({ conflicts }: { conflicts: DietConflict[] }) {
+  if (conflicts.length === 0) return null;
+  return (
+    <p className="text-xs text-red-600 dark:text-red-400">
+      ⚠️ {conflicts.map((conflict) => conflict.allergen.name).join(", ")} 포함
+    </p>
+  );
+}
+
+function getConflictLabel(allergen: DietAllergen): string {
+  if (allergen.source === "allergy") {
+    return allergen.severity === "severe" ? "심각한 알레르기" : "알레르기";
+  }
+  return allergen.reason === "preference" ? "기호로 피하는 재료" : "식이 제한";
+}
+
 // Diet Log Modal Component
 function DietLogModal({
   petName,
+  allergens,
+  foods,
   onSave,
   onClose,
 }: {
   petName: string;
+  allergens: DietAllergen[];
+  foods: FoodRecommendation[];
   onSave: (log: Omit<DietLog, "id" | "petId">) => void;
   onClose: () => void;
 }) {
   const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
   const [foodName, setFoodName] = useState("");
+  const [ingredients, setIngredients] = useState("");
   const [amount, setAmount] = useState("");
   const [mealTime, setMealTime] = useState<"breakfast" | "lunch" | "dinner" | "snack">("breakfast");
   const [notes, setNotes] = useState("");
 
+  const ingredientList = ingredients
+    .split(",")
+    .map((ingredient) => ingredient.trim())
+    .filter(Boolean);
+  const conflicts = findDietConflicts([foodName, ...ingredientList], allergens);
+
+  // 추천 사료를 고르면 주요 재료를 채움
+  const handleFoodNameChange = (value: string) => {
+    setFoodName(value);
+    const food = foods.find((f) => f.name === value.trim());
+    if (food && !ingredients.trim()) {
+      setIngredients(food.ingredients.join(", "));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!foodName.trim() || !amount.trim()) return;
 
+    if (
+      conflicts.some(isBlockingConflict) &&
+      !confirm(`${conflicts.map((conflict) => conflict.allergen.name).join(", ")}이(가) 들어 있어요. 그래도 기록할까요?`)
+    ) {
+      return;
+    }
+
     onSave({
       date,
       foodName: foodName.trim(),
       amount: amount.trim(),
       mealTime,
+      ingredients: ingredientList.length > 0 ? ingredientList : undefined,
       notes: notes.trim() || undefined,
     });
   };
@@ -558,11 +704,45 @@ function DietLogModal({
             <input
               type="text"
               value={foodName}
-              onChange={(e) => setFoodName(e.target.value)}
+              onChange={(e) => handleFoodNameChange(e.target.value)}
               placeholder="예: 로얄캐닌 어덜트"
+              list="diet-food-options"
               className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-green-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
               required
             />
+            <datalist id="diet-food-options">
+              {foods.map((food) => (
+                <option key={food.id} value={food.name} />
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1 dark:text-gray-300">주요 재료</label>
+            <input
+              type="text"
+              value={ingredients}
+              onChange={(e) => setIngredients(e.target.value)}
+              placeholder="예: 닭고기, 쌀 (쉼표로 구분)"
+              className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-green-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+            />
+            {conflicts.length > 0 && (
+              <ul className="mt-2 space-y-1" role="alert">
+                {conflicts.map((conflict) => (
+                  <li
+                    key={conflict.allergen.name}
+                    className={`rounded-lg px-3 py-2 text-sm ${
+                      isBlockingConflict(conflict)
+                        ? "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300"
+                        : "bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300"
+                    }`}
+                  >
+                    {isBlockingConflict(conflict) ? "⛔" : "⚠️"} <strong>{conflict.ingredient}</strong>에{" "}
+                    {getConflictLabel(conflict.allergen)} 재료 &apos;{conflict.allergen.name}&apos;이(가) 들어 있어요
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           <div>
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface Expense {
   id: string;
@@ -227,7 +228,7 @@ export default function ExpensePage() {
                     : "bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { petTagsService } from "@/lib/services";
+import type { FoundPetProfile } from "@/types/petTags";
+import { getSpeciesEmoji, getSpeciesName } from "@/lib/species";
+
+type LocationState = "idle" | "locating" | "shared" | "error";
+
+export default function FoundPetPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const { t, language } = useLanguage();
+  const [pet, setPet] = useState<FoundPetProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [scanId, setScanId] = useState<string | null>(null);
+  const [locationState, setLocationState] = useState<LocationState>("idle");
+  const [message, setMessage] = useState("");
+  const [contact, setContact] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [sendError, setSendError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const result = await petTagsService.getFoundPet(token);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setPet(result.data);
+        // 페이지를 연 것만으로 보호자에게 스캔 알림 (위치는 발견자가 동의할 때만)
+        const scan = await petTagsService.recordScan(token, {});
+        if (!cancelled && scan.success && scan.data) {
+          setScanId(scan.data);
+        }
+      }
+      setIsLoading(false);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleShareLocation = () => {
+    if (!("geolocation" in navigator)) {
+      setLocationState("error");
+      return;
+    }
+
+    setLocationState("locating");
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const result = await petTagsService.recordScan(token, {
+          scanId: scanId ?? undefined,
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        });
+        if (result.success) {
+          if (result.data) setScanId(result.data);
+          setLocationState("shared");
+        } else {
+          setLocationState("error");
+        }
+      },
+      () => setLocationState("error"),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+    );
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    setIsSending(true);
+    setSendError(false);
+    const result = await petTagsService.sendMessage(token, {
+      scanId: scanId ?? undefined,
+      message: message.trim(),
+      contact: contact.trim() || undefined,
+    });
+    setIsSending(false);
+
+    if (result.success) {
+      setSent(true);
+      setMessage("");
+    } else {
+      setSendError(true);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-blue-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!pet) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-gray-50 p-4 text-center dark:bg-gray-900">
+        <div className="text-5xl mb-4">🔍</div>
+        <h1 className="text-lg font-bold text-gray-800 dark:text-gray-100">{t.found.notFound}</h1>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{t.found.notFoundDescription}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white px-4 py-3 dark:border-gray-700 dark:bg-gray-800">
+        <h1 className="text-center text-lg font-bold text-gray-800 dark:text-gray-100">
+          🐾 {t.found.title}
+        </h1>
+      </header>
+
+      <main className="mx-auto w-full max-w-md flex-1 space-y-4 p-4">
+        {/* Pet */}
+        <section className="rounded-xl border border-gray-200 bg-white p-4 text-center dark:border-gray-700 dark:bg-gray-800">
+          {pet.photo ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={pet.photo} alt={pet.name} className="mx-auto h-48 w-48 rounded-xl object-cover" />
+          ) : (
+            <div className="text-6xl">{getSpeciesEmoji(pet.species)}</div>
+          )}
+          <h2 className="mt-3 text-xl font-bold text-gray-800 dark:text-gray-100">{pet.name}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {getSpeciesName(pet.species, language)} · {pet.breed}
+          </p>
+          <p className="mt-3 text-sm text-gray-600 dark:text-gray-300">{t.found.description}</p>
+        </section>
+
+        {/* Emergency Note */}
+        {pet.emergencyNote && (
+          <section className="rounded-xl border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-900/20">
+            <h3 className="text-sm font-semibold text-red-700 dark:text-red-300">⚠️ {t.found.emergencyNote}</h3>
+            <p className="mt-1 whitespace-pre-wrap text-sm text-red-800 dark:text-red-200">{pet.emergencyNote}</p>
+          </section>
+        )}
+
+        {/* Location */}
+        <section className="rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
+          {locationState === "shared" ? (
+            <p className="text-center text-sm text-green-600 dark:text-green-400">📍 {t.found.locationShared}</p>
+          ) : (
+            <>
+              <button
+                onClick={handleShareLocation}
+                disabled={locationState === "locating"}
+                className="w-full rounded-lg bg-green-500 py-3 font-medium text-white hover:bg-green-600 disabled:opacity-50"
+              >
+                📍 {locationState === "locating" ? t.found.locating : t.found.shareLocation}
+              </button>
+              {locationState === "error" && (
+                <p className="mt-2 text-center text-sm text-red-500">{t.found.locationError}</p>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* Message */}
+        <section className="rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
+          <h3 className="mb-3 font-semibold text-gray-800 dark:text-gray-100">{t.found.messageTitle}</h3>
+          {sent ? (
+            <p className="text-center text-sm text-green-600 dark:text-green-400">✅ {t.found.sent}</p>
+          ) : (
+            <form onSubmit={handleSend} className="space-y-3">
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                placeholder={t.found.messagePlaceholder}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              />
+              <div>
+                <label className="block text-sm text-gray-600 mb-1 dark:text-gray-400">{t.found.contact}</label>
+                <input
+                  type="text"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  maxLength={100}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                />
+                <p className="mt-1 text-xs text-gray-400">{t.found.contactHint}</p>
+              </div>
+              {sendError && <p className="text-sm text-red-500">{t.found.sendError}</p>}
+              <button
+                type="submit"
+                disabled={!message.trim() || isSending}
+                className="w-full rounded-lg bg-blue-500 py-3 font-medium text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                {isSending ? t.found.sending : t.found.send}
+              </button>
+            </form>
+          )}
+        </section>
+
+        <p className="text-center text-xs text-gray-400 dark:text-gray-500">🔒 {t.found.privacy}</p>
+      </main>
+    </div>
+  );
+}
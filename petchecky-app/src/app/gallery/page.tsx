@@ -16,6 +16,7 @@ import {
   migratePhotosFromLocalStorage,
 } from "@/lib/indexedDB";
 import { safeJsonParse } from "@/lib/safeJson";
+import { getSpeciesEmoji } from "@/lib/species";
 
 export interface GalleryPhoto {
   id: string;
@@ -309,7 +310,7 @@ export default function GalleryPage() {
                     : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700 dark:hover:bg-gray-700"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -3,12 +3,15 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { formatWeightRange, getBreedName, getWeightStatus, resolveBreed, type ExerciseNeeds } from "@/lib/breeds";
+import { getSpecies, getSpeciesData, getSpeciesEmoji, getSpeciesName, type PetSpecies, type SpeciesVitals, type VitalRange } from "@/lib/species";
 
 interface Pet {
   id: string;
   name: string;
-  species: "dog" | "cat";
+  species: PetSpecies;
   breed: string;
+  breedId?: string;
   age: number;
   weight: number;
 }
@@ -31,69 +34,15 @@ interface HealthInsight {
   riskLevel?: "low" | "medium" | "high";
 }
 
-interface BreedHealthInfo {
-  commonIssues: string[];
-  lifeExpectancy: string;
-  weightRange: { min: number; max: number };
-  exerciseNeeds: string;
-}
-
-// Breed-specific health information database
-const BREED_HEALTH_DATA: { [key: string]: BreedHealthInfo } = {
-  // Dogs
-  "골든 리트리버": {
-    commonIssues: ["고관절 이형성증", "백내장", "심장질환", "피부 알레르기"],
-    lifeExpectancy: "10-12년",
-    weightRange: { min: 25, max: 34 },
-    exerciseNeeds: "높음",
-  },
-  "시바 이누": {
-    commonIssues: ["알레르기", "슬개골 탈구", "녹내장", "갑상선 질환"],
-    lifeExpectancy: "12-15년",
-    weightRange: { min: 8, max: 11 },
-    exerciseNeeds: "중간",
-  },
-  "포메라니안": {
-    commonIssues: ["슬개골 탈구", "기관허탈", "치아 문제", "탈모"],
-    lifeExpectancy: "12-16년",
-    weightRange: { min: 1.5, max: 3 },
-    exerciseNeeds: "낮음",
-  },
-  "푸들": {
-    commonIssues: ["슬개골 탈구", "백내장", "간질", "갑상선 질환"],
-    lifeExpectancy: "12-15년",
-    weightRange: { min: 3, max: 32 },
-    exerciseNeeds: "중간",
-  },
-  "말티즈": {
-    commonIssues: ["슬개골 탈구", "치아 문제", "눈물 자국", "저혈당"],
-    lifeExpectancy: "12-15년",
-    weightRange: { min: 2, max: 4 },
-    exerciseNeeds: "낮음",
-  },
-  // Cats
-  "페르시안": {
-    commonIssues: ["다낭성 신장질환", "호흡기 문제", "눈 질환", "피부 질환"],
-    lifeExpectancy: "12-17년",
-    weightRange: { min: 3, max: 5.5 },
-    exerciseNeeds: "낮음",
-  },
-  "러시안 블루": {
-    commonIssues: ["비만", "요로 결석", "스트레스 질환"],
-    lifeExpectancy: "15-20년",
-    weightRange: { min: 3.5, max: 6 },
-    exerciseNeeds: "중간",
-  },
-  "코리안 숏헤어": {
-    commonIssues: ["비만", "치주 질환", "요로 질환"],
-    lifeExpectancy: "12-18년",
-    weightRange: { min: 3, max: 5 },
-    exerciseNeeds: "중간",
-  },
+// 운동 필요량 표시
+const EXERCISE_LABELS: Record<ExerciseNeeds, string> = {
+  low: "낮음",
+  medium: "중간",
+  high: "높음",
 };
 
-// Age-based health milestones
-const AGE_MILESTONES = {
+// Age-based health milestones (준비되지 않은 종은 레지스트리의 노령 기준 나이만 사용)
+const AGE_MILESTONES: Partial<Record<PetSpecies, { age: number; message: string }[]>> = {
   dog: [
     { age: 1, message: "성장기 완료, 성견 사료로 전환 권장" },
     { age: 7, message: "시니어 건강검진 시작 권장" },
@@ -108,7 +57,7 @@ const AGE_MILESTONES = {
 
 export default function HealthInsightsPage() {
   const router = useRouter();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [pets, setPets] = useState<Pet[]>([]);
   const [selectedPetId, setSelectedPetId] = useState<string>("");
   const [healthData, setHealthData] = useState<HealthData[]>([]);
@@ -140,22 +89,23 @@ export default function HealthInsightsPage() {
 
     const newInsights: HealthInsight[] = [];
     const petHealthData = healthData.find((h) => h.petId === selectedPetId);
-    const breedInfo = BREED_HEALTH_DATA[selectedPet.breed];
+    const breedInfo = resolveBreed(selectedPet);
 
-    // Weight analysis
-    if (breedInfo) {
-      const { min, max } = breedInfo.weightRange;
-      if (selectedPet.weight < min) {
+    // Weight analysis (품종 성체 체중 기준)
+    if (breedInfo?.weight) {
+      const weightRange = formatWeightRange(breedInfo.weight);
+      const weightStatus = getWeightStatus(selectedPet.weight, breedInfo.weight);
+      if (weightStatus === "under") {
         newInsights.push({
           id: "weight-low",
           type: "warning",
           category: "weight",
           title: t.healthInsights?.underweight || "저체중 주의",
-          description: `${selectedPet.name}의 현재 체중(${selectedPet.weight}kg)이 품종 권장 범위(${min}-${max}kg)보다 낮습니다.`,
+          description: `${selectedPet.name}의 현재 체중(${selectedPet.weight}kg)이 품종 권장 범위(${weightRange})보다 낮습니다.`,
           recommendation: "수의사와 상담하여 적절한 영양 보충 방법을 확인하세요.",
           riskLevel: "medium",
         });
-      } else if (selectedPet.weight > max * 1.2) {
+      } else if (weightStatus === "over") {
         newInsights.push({
           id: "weight-high",
           type: "alert",
@@ -165,7 +115,7 @@ export default function HealthInsightsPage() {
           recommendation: "식이 조절과 운동량 증가가 필요합니다. 수의사와 상담하세요.",
           riskLevel: "high",
         });
-      } else if (selectedPet.weight > max) {
+      } else if (weightStatus === "slightlyOver") {
         newInsights.push({
           id: "weight-over",
           type: "warning",
@@ -185,15 +135,17 @@ export default function HealthInsightsPage() {
           riskLevel: "low",
         });
       }
+    }
 
-      // Breed-specific health risks
+    // Breed-specific health risks
+    if (breedInfo) {
       breedInfo.commonIssues.forEach((issue, index) => {
         newInsights.push({
           id: `breed-risk-${index}`,
           type: "info",
           category: "breed",
           title: `${issue} 주의`,
-          description: `${selectedPet.breed}은(는) ${issue}에 취약할 수 있습니다.`,
+          description: `${breedInfo.names.ko}은(는) ${issue}에 취약할 수 있습니다.`,
           recommendation: "정기 검진 시 관련 검사를 받아보세요.",
           riskLevel: "medium",
         });
@@ -201,7 +153,10 @@ export default function HealthInsightsPage() {
     }
 
     // Age-based insights
-    const milestones = AGE_MILESTONES[selectedPet.species];
+    const speciesInfo = getSpecies(selectedPet.species);
+    const milestones = getSpeciesData(AGE_MILESTONES, selectedPet.species, [
+      { age: speciesInfo.seniorAge, message: "시니어 건강검진 시작 권장" },
+    ]);
     const applicableMilestone = milestones.find((m) => selectedPet.age >= m.age);
     if (applicableMilestone) {
       newInsights.push({
@@ -215,10 +170,7 @@ export default function HealthInsightsPage() {
     }
 
     // Senior pet alert
-    if (
-      (selectedPet.species === "dog" && selectedPet.age >= 7) ||
-      (selectedPet.species === "cat" && selectedPet.age >= 10)
-    ) {
+    if (selectedPet.age >= speciesInfo.seniorAge) {
       newInsights.push({
         id: "senior-care",
         type: "warning",
@@ -377,7 +329,13 @@ export default function HealthInsightsPage() {
   };
 
   const healthScore = calculateHealthScore();
-  const breedInfo = selectedPet ? BREED_HEALTH_DATA[selectedPet.breed] : null;
+  const breedInfo = selectedPet ? resolveBreed(selectedPet) : null;
+  const vitals: SpeciesVitals = selectedPet ? getSpecies(selectedPet.species).vitals : {};
+  const vitalRows = [
+    { label: t.healthInsights?.temperature || "체온", range: vitals.temperature, unit: "°C" },
+    { label: t.healthInsights?.heartRate || "심박수", range: vitals.heartRate, unit: t.healthInsights?.perMinute || "회/분" },
+    { label: t.healthInsights?.respiratoryRate || "호흡수", range: vitals.respiratoryRate, unit: t.healthInsights?.perMinute || "회/분" },
+  ].filter((row): row is { label: string; range: VitalRange; unit: string } => row.range !== undefined);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -417,7 +375,7 @@ export default function HealthInsightsPage() {
                     : "bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -435,7 +393,7 @@ export default function HealthInsightsPage() {
                   <p className="text-sm opacity-75">/100</p>
                 </div>
                 <div className="text-center">
-                  <div className="text-6xl mb-2">{selectedPet.species === "dog" ? "🐕" : "🐈"}</div>
+                  <div className="text-6xl mb-2">{getSpeciesEmoji(selectedPet.species)}</div>
                   <p className="font-medium">{selectedPet.name}</p>
                   <p className="text-sm opacity-75">
                     {selectedPet.age}{t.pet?.years || "세"} · {selectedPet.weight}kg
@@ -459,25 +417,25 @@ export default function HealthInsightsPage() {
             </div>
 
             {/* Breed Info */}
-            {breedInfo && (
+            {breedInfo?.lifeExpectancy && (
               <div className="mb-6 rounded-2xl bg-white p-4 shadow-sm dark:bg-gray-800">
                 <h3 className="mb-3 font-semibold text-gray-800 dark:text-gray-200">
-                  📊 {selectedPet.breed} {t.healthInsights?.breedInfo || "품종 정보"}
+                  📊 {getBreedName(breedInfo, language)} {t.healthInsights?.breedInfo || "품종 정보"}
                 </h3>
                 <div className="grid grid-cols-2 gap-3 text-sm">
                   <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
                     <p className="text-gray-500 dark:text-gray-400">{t.healthInsights?.lifeExpectancy || "기대 수명"}</p>
-                    <p className="font-medium text-gray-800 dark:text-gray-200">{breedInfo.lifeExpectancy}</p>
+                    <p className="font-medium text-gray-800 dark:text-gray-200">{breedInfo.lifeExpectancy.min}-{breedInfo.lifeExpectancy.max}년</p>
                   </div>
                   <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
                     <p className="text-gray-500 dark:text-gray-400">{t.healthInsights?.idealWeight || "권장 체중"}</p>
                     <p className="font-medium text-gray-800 dark:text-gray-200">
-                      {breedInfo.weightRange.min}-{breedInfo.weightRange.max}kg
+                      {breedInfo.weight ? formatWeightRange(breedInfo.weight) : "-"}
                     </p>
                   </div>
                   <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
                     <p className="text-gray-500 dark:text-gray-400">{t.healthInsights?.exerciseNeeds || "운동 필요량"}</p>
-                    <p className="font-medium text-gray-800 dark:text-gray-200">{breedInfo.exerciseNeeds}</p>
+                    <p className="font-medium text-gray-800 dark:text-gray-200">{breedInfo.exerciseNeeds ? EXERCISE_LABELS[breedInfo.exerciseNeeds] : "-"}</p>
                   </div>
                   <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
                     <p className="text-gray-500 dark:text-gray-400">{t.healthInsights?.commonIssues || "주의 질환"}</p>
@@ -487,6 +445,30 @@ export default function HealthInsightsPage() {
               </div>
             )}
 
+            {/* Normal Vitals (종 레지스트리 기준) */}
+            <div className="mb-6 rounded-2xl bg-white p-4 shadow-sm dark:bg-gray-800">
+              <h3 className="mb-3 font-semibold text-gray-800 dark:text-gray-200">
+                🩺 {getSpeciesName(selectedPet.species, language)} {t.healthInsights?.normalVitals || "정상 활력징후"}
+              </h3>
+              {vitalRows.length > 0 ? (
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  {vitalRows.map((row) => (
+                    <div key={row.label} className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700">
+                      <p className="text-gray-500 dark:text-gray-400">{row.label}</p>
+                      <p className="font-medium text-gray-800 dark:text-gray-200">
+                        {row.range.min}-{row.range.max}
+                        <span className="ml-0.5 text-xs text-gray-500 dark:text-gray-400">{row.unit}</span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t.healthInsights?.vitalsVaryWithEnvironment || "변온동물이라 체온과 심박수가 사육 온도에 따라 달라져요."}
+                </p>
+              )}
+            </div>
+
             {/* Quick Stats */}
             <div className="mb-6 grid grid-cols-3 gap-3">
               <div className="rounded-2xl bg-white p-4 text-center shadow-sm dark:bg-gray-800">
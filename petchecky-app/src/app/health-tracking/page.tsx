@@ -6,6 +6,8 @@ import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
 import HealthRecordList from "@/components/health/HealthRecordList";
 import { PetProfile } from "@/app/page";
+import { getSpeciesEmoji } from "@/lib/species";
+import { resolveBreed } from "@/lib/breeds";
 
 // 차트 컴포넌트 Dynamic Import (recharts 번들 분리)
 const WeightChart = dynamic(() => import("@/components/health/WeightChart"), {
@@ -198,7 +200,7 @@ export default function HealthTrackingPage() {
                     : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -294,7 +296,11 @@ export default function HealthTrackingPage() {
         {/* 콘텐츠 영역 */}
         {records.length > 0 ? (
           viewMode === "chart" ? (
-            <WeightChart records={filteredRecords} petName={selectedPet?.name || ""} />
+            <WeightChart
+              records={filteredRecords}
+              petName={selectedPet?.name || ""}
+              idealRange={selectedPet ? resolveBreed(selectedPet)?.weight : undefined}
+            />
           ) : (
             <HealthRecordList
               records={filteredRecords}
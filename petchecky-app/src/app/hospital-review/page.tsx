@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { getSpeciesEmoji, getSpeciesName, isPetSpecies, PET_SPECIES, type PetSpecies } from "@/lib/species";
 
 export interface HospitalReview {
   id: string;
@@ -9,7 +10,7 @@ export interface HospitalReview {
   hospitalAddress?: string;
   rating: number; // 1-5
   visitDate: string;
-  petType: "dog" | "cat" | "other";
+  petType: PetSpecies | "other";
   treatmentType: string;
   pros: string;
   cons?: string;
@@ -238,7 +239,7 @@ export default function HospitalReviewPage() {
                   {TREATMENT_TYPES.find((t) => t.value === review.treatmentType)?.label}
                 </span>
                 <span className="rounded-full bg-gray-100 px-2 py-1 text-xs text-gray-600 dark:bg-gray-700 dark:text-gray-300">
-                  {review.petType === "dog" ? "🐕 강아지" : review.petType === "cat" ? "🐈 고양이" : "🐾 기타"}
+                  {isPetSpecies(review.petType) ? `${getSpeciesEmoji(review.petType)} ${getSpeciesName(review.petType)}` : "🐾 기타"}
                 </span>
                 {review.cost && (
                   <span className="rounded-full bg-green-100 px-2 py-1 text-xs text-green-700 dark:bg-green-900/30 dark:text-green-300">
@@ -355,7 +356,7 @@ function ReviewModal({
   const [visitDate, setVisitDate] = useState(
     review?.visitDate || new Date().toISOString().split("T")[0]
   );
-  const [petType, setPetType] = useState<"dog" | "cat" | "other">(review?.petType || "dog");
+  const [petType, setPetType] = useState<HospitalReview["petType"]>(review?.petType || "dog");
   const [treatmentType, setTreatmentType] = useState(review?.treatmentType || "checkup");
   const [pros, setPros] = useState(review?.pros || "");
   const [cons, setCons] = useState(review?.cons || "");
@@ -470,11 +471,14 @@ function ReviewModal({
               </label>
               <select
                 value={petType}
-                onChange={(e) => setPetType(e.target.value as "dog" | "cat" | "other")}
+                onChange={(e) => setPetType(e.target.value as HospitalReview["petType"])}
                 className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
               >
-                <option value="dog">🐕 강아지</option>
-                <option value="cat">🐈 고양이</option>
+                {PET_SPECIES.map((species) => (
+                  <option key={species} value={species}>
+                    {getSpeciesEmoji(species)} {getSpeciesName(species)}
+                  </option>
+                ))}
                 <option value="other">🐾 기타</option>
               </select>
             </div>
@@ -42,6 +42,7 @@ export default function ImageAnalysisPage() {
   const [analysisHistory, setAnalysisHistory] = useState<AnalysisResult[]>([]);
   const [showHistory, setShowHistory] = useState(false);
   const [petName, setPetName] = useState("");
+  const [petSpecies, setPetSpecies] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load history from localStorage
@@ -55,13 +56,14 @@ export default function ImageAnalysisPage() {
       }
     }
 
-    // Load pet name from localStorage
+    // Load pet name/species from localStorage
     const pets = localStorage.getItem("petchecky_pets");
     if (pets) {
       try {
         const parsed = JSON.parse(pets);
         if (Array.isArray(parsed) && parsed.length > 0) {
           setPetName(parsed[0].name);
+          setPetSpecies(parsed[0].species || "");
         }
       } catch (e) {
         console.error("Failed to load pet name:", e);
@@ -144,6 +146,7 @@ export default function ImageAnalysisPage() {
           category: selectedCategory,
           description,
           petName,
+          petSpecies,
           language,
         }),
       });
@@ -3,15 +3,11 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
-
-interface PetProfile {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-  breed: string;
-  age: number;
-  weight: number;
-}
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { InsuranceClaim } from "@/types/petRecords";
+import { getSpeciesEmoji, type PetSpecies } from "@/lib/species";
 
 interface InsuranceProduct {
   id: string;
@@ -23,22 +19,10 @@ interface InsuranceProduct {
   deductible: number;
   features: string[];
   excludedConditions: string[];
-  targetSpecies: "dog" | "cat" | "all";
+  targetSpecies: PetSpecies | "all";
   maxAge: number;
 }
 
-interface InsuranceClaim {
-  id: string;
-  petId: string;
-  date: string;
-  hospitalName: string;
-  treatmentType: string;
-  totalAmount: number;
-  claimedAmount: number;
-  status: "pending" | "approved" | "rejected" | "paid";
-  notes?: string;
-}
-
 // Sample insurance products
 const INSURANCE_PRODUCTS: InsuranceProduct[] = [
   {
@@ -110,23 +94,18 @@ const INSURANCE_PRODUCTS: InsuranceProduct[] = [
 
 export default function InsurancePage() {
   const { t } = useLanguage();
-  const [_pets, setPets] = useState<PetProfile[]>([]);
-  const [selectedPet, setSelectedPet] = useState<PetProfile | null>(null);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { selectedPet } = usePets({ userId: user?.id, authLoading, getAccessToken });
+  const { records: claims, addRecord } = usePetRecords(
+    "insurance-claims",
+    selectedPet?.id ? [selectedPet.id] : [],
+    { userId: user?.id, getAccessToken }
+  );
   const [activeTab, setActiveTab] = useState<"products" | "claims" | "info">("products");
-  const [claims, setClaims] = useState<InsuranceClaim[]>([]);
   const [showClaimModal, setShowClaimModal] = useState(false);
   const [enrolledProducts, setEnrolledProducts] = useState<string[]>([]);
 
   useEffect(() => {
-    // Load pet profile
-    const savedProfile = localStorage.getItem("petProfile");
-    if (savedProfile) {
-      const profile = JSON.parse(savedProfile);
-      const petWithId = { ...profile, id: profile.id || "pet-1" };
-      setPets([petWithId]);
-      setSelectedPet(petWithId);
-    }
-
     // Load enrolled products
     const savedEnrolled = localStorage.getItem("petchecky_enrolled_insurance");
     if (savedEnrolled) {
@@ -134,18 +113,6 @@ export default function InsurancePage() {
     }
   }, []);
 
-  useEffect(() => {
-    if (selectedPet) {
-      // Load claims for selected pet
-      const savedClaims = localStorage.getItem(`petchecky_insurance_claims_${selectedPet.id}`);
-      if (savedClaims) {
-        setClaims(JSON.parse(savedClaims));
-      } else {
-        setClaims([]);
-      }
-    }
-  }, [selectedPet]);
-
   const handleEnroll = (productId: string) => {
     const newEnrolled = [...enrolledProducts, productId];
     setEnrolledProducts(newEnrolled);
@@ -153,19 +120,10 @@ export default function InsurancePage() {
     alert(t.insurance.enrollSuccess);
   };
 
-  const handleSaveClaim = (claim: Omit<InsuranceClaim, "id" | "petId" | "status">) => {
-    if (!selectedPet) return;
-
-    const newClaim: InsuranceClaim = {
-      ...claim,
-      id: Date.now().toString(),
-      petId: selectedPet.id,
-      status: "pending",
-    };
+  const handleSaveClaim = async (claim: Omit<InsuranceClaim, "id" | "petId" | "status">) => {
+    if (!selectedPet?.id) return;
 
-    const updatedClaims = [...claims, newClaim];
-    setClaims(updatedClaims);
-    localStorage.setItem(`petchecky_insurance_claims_${selectedPet.id}`, JSON.stringify(updatedClaims));
+    await addRecord(selectedPet.id, { ...claim, status: "pending" });
     setShowClaimModal(false);
   };
 
@@ -234,7 +192,7 @@ export default function InsurancePage() {
       {/* Pet Info */}
       <div className="border-b border-gray-200 bg-white px-4 py-3 dark:border-gray-700 dark:bg-gray-800">
         <div className="flex items-center gap-3">
-          <span className="text-2xl">{selectedPet.species === "dog" ? "🐕" : "🐈"}</span>
+          <span className="text-2xl">{getSpeciesEmoji(selectedPet.species)}</span>
           <div>
             <p className="font-medium text-gray-800 dark:text-gray-100">{selectedPet.name}</p>
             <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -1,39 +1,25 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { v4 as uuidv4 } from "uuid";
-
-interface Medication {
-  id: string;
-  petId: string;
-  name: string;
-  dosage: string;
-  frequency: "once" | "twice" | "three" | "asNeeded";
-  timeOfDay: ("morning" | "afternoon" | "evening" | "night")[];
-  startDate: string;
-  endDate?: string;
-  prescribedBy?: string;
-  notes?: string;
-  refillDate?: string;
-  remainingDoses?: number;
-  isActive: boolean;
-  logs: MedicationLog[];
-}
-
-interface MedicationLog {
-  id: string;
-  date: string;
-  time: string;
-  taken: boolean;
-  notes?: string;
-}
-
-interface Pet {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-}
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { Medication } from "@/types/petRecords";
+import { getSpeciesEmoji } from "@/lib/species";
+import { getTodayString } from "@/lib/dateUtils";
+import {
+  MEDICATION_SLOT_TIMES,
+  computeAdherence,
+  getTodaySlots,
+  predictRefillDate,
+  predictRunOutDate,
+  recordDose,
+  type DoseSlot,
+  type DoseSlotStatus,
+} from "@/lib/medicationSchedule";
+import { checkMedicationSafety } from "@/lib/medicationSafety";
 
 const FREQUENCY_OPTIONS: { value: Medication["frequency"]; label: string; times: number }[] = [
   { value: "once", label: "1일 1회", times: 1 },
@@ -42,16 +28,30 @@ const FREQUENCY_OPTIONS: { value: Medication["frequency"]; label: string; times:
   { value: "asNeeded", label: "필요시", times: 0 },
 ];
 
-const TIME_OF_DAY: { value: Medication["timeOfDay"][number]; label: string; icon: string; time: string }[] = [
-  { value: "morning", label: "아침", icon: "🌅", time: "08:00" },
-  { value: "afternoon", label: "점심", icon: "☀️", time: "12:00" },
-  { value: "evening", label: "저녁", icon: "🌆", time: "18:00" },
-  { value: "night", label: "밤", icon: "🌙", time: "22:00" },
+const TIME_OF_DAY: { value: Medication["timeOfDay"][number]; label: string; icon: string }[] = [
+  { value: "morning", label: "아침", icon: "🌅" },
+  { value: "afternoon", label: "점심", icon: "☀️" },
+  { value: "evening", label: "저녁", icon: "🌆" },
+  { value: "night", label: "밤", icon: "🌙" },
 ];
 
+// 복용 완료/건너뜀/놓침 표시
+const SLOT_BADGES: Partial<Record<DoseSlotStatus, { label: string; className: string }>> = {
+  late: { label: "늦게 복용", className: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  skipped: { label: "건너뜀", className: "bg-gray-200 text-gray-600 dark:bg-gray-600 dark:text-gray-300" },
+  missed: { label: "놓침", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+};
+
 export default function MedicationPage() {
-  const [medications, setMedications] = useState<Medication[]>([]);
-  const [pets, setPets] = useState<Pet[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
+  const petIds = pets.map(p => p.id).filter((id): id is string => !!id);
+  const {
+    records: medications,
+    addRecord,
+    updateRecord,
+    deleteRecord,
+  } = usePetRecords("medications", petIds, { userId: user?.id, getAccessToken });
   const [selectedPetId, setSelectedPetId] = useState<string>("all");
   const [showForm, setShowForm] = useState(false);
   const [editingMed, setEditingMed] = useState<Medication | null>(null);
@@ -71,36 +71,39 @@ export default function MedicationPage() {
     remainingDoses: "",
   });
 
-  // Load data
+  // 등록하려는 약의 상호작용/종별 독성 경고
+  const formPetId = editingMed?.petId ?? (selectedPetId === "all" ? pets[0]?.id : selectedPetId);
+  const formPet = pets.find(p => p.id === formPetId);
+  const safetyWarnings = useMemo(() => {
+    if (!formPet || !form.name.trim()) return [];
+    const current = medications.filter(m => m.petId === formPet.id && m.isActive && m.id !== editingMed?.id);
+    return checkMedicationSafety(form.name, formPet.species, current);
+  }, [form.name, formPet, medications, editingMed]);
+
+  // 펫 로드 후 첫 번째 펫 선택
   useEffect(() => {
-    const savedPets = localStorage.getItem("petProfiles");
-    if (savedPets) {
-      const parsed = JSON.parse(savedPets);
-      setPets(Array.isArray(parsed) ? parsed : [parsed]);
-      if (parsed.length > 0 || parsed.id) {
-        setSelectedPetId(Array.isArray(parsed) ? parsed[0].id : parsed.id);
-      }
+    if (petsLoaded && pets.length > 0 && pets[0].id) {
+      setSelectedPetId(pets[0].id);
     }
+  }, [petsLoaded, pets]);
 
-    const savedMeds = localStorage.getItem("medications");
-    if (savedMeds) {
-      setMedications(JSON.parse(savedMeds));
-    }
-  }, []);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
 
-  // Save medications
-  useEffect(() => {
-    if (medications.length > 0) {
-      localStorage.setItem("medications", JSON.stringify(medications));
+    const petId = formPetId;
+    if (!petId) {
+      alert("먼저 반려동물을 등록해주세요.");
+      return;
     }
-  }, [medications]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+    if (
+      safetyWarnings.some(w => w.severity === "danger") &&
+      !confirm("위험할 수 있는 약물이에요. 수의사와 상의했다면 계속 등록할까요?")
+    ) {
+      return;
+    }
 
-    const newMed: Medication = {
-      id: editingMed?.id || uuidv4(),
-      petId: selectedPetId === "all" ? pets[0]?.id || "default" : selectedPetId,
+    const input = {
       name: form.name,
       dosage: form.dosage,
       frequency: form.frequency,
@@ -116,9 +119,9 @@ export default function MedicationPage() {
     };
 
     if (editingMed) {
-      setMedications(medications.map(m => m.id === editingMed.id ? newMed : m));
+      await updateRecord(editingMed, input);
     } else {
-      setMedications([...medications, newMed]);
+      await addRecord(petId, input);
     }
 
     resetForm();
@@ -158,49 +161,26 @@ export default function MedicationPage() {
     setShowForm(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = (med: Medication) => {
     if (confirm("이 약물을 삭제하시겠습니까?")) {
-      setMedications(medications.filter(m => m.id !== id));
+      deleteRecord(med);
     }
   };
 
-  const handleToggleActive = (id: string) => {
-    setMedications(medications.map(m =>
-      m.id === id ? { ...m, isActive: !m.isActive } : m
-    ));
+  const handleToggleActive = (med: Medication) => {
+    updateRecord(med, { isActive: !med.isActive });
   };
 
-  const handleLogDose = (med: Medication, timeOfDay: string, taken: boolean) => {
-    const now = new Date();
-    const log: MedicationLog = {
-      id: uuidv4(),
-      date: now.toISOString().split("T")[0],
-      time: timeOfDay,
-      taken,
-      notes: taken ? undefined : "복용 건너뜀",
-    };
-
-    setMedications(medications.map(m =>
-      m.id === med.id
-        ? {
-            ...m,
-            logs: [...m.logs, log],
-            remainingDoses: m.remainingDoses && taken ? m.remainingDoses - 1 : m.remainingDoses
-          }
-        : m
-    ));
+  // 복용/건너뜀 기록 (복용하면 재고 자동 차감)
+  const handleLogDose = (med: Medication, slot: DoseSlot, taken: boolean) => {
+    updateRecord(med, recordDose(med, slot, taken, new Date(), uuidv4()));
   };
 
-  const getTodayLogs = (med: Medication) => {
-    const today = new Date().toISOString().split("T")[0];
-    return med.logs.filter(log => log.date === today);
-  };
+  const now = new Date();
+  const today = getTodayString();
 
-  const getComplianceRate = (med: Medication) => {
-    if (med.logs.length === 0) return 0;
-    const taken = med.logs.filter(log => log.taken).length;
-    return Math.round((taken / med.logs.length) * 100);
-  };
+  // 최근 30일 복용 순응도 (정시 + 늦게 복용)
+  const getComplianceRate = (med: Medication) => computeAdherence(med, now).rate ?? 0;
 
   const filteredMedications = medications
     .filter(m => selectedPetId === "all" || m.petId === selectedPetId)
@@ -210,11 +190,12 @@ export default function MedicationPage() {
       return true;
     });
 
+  // 리필 예정일 (입력하지 않았으면 재고로 예측)
   const needsRefill = medications.filter(m => {
-    if (!m.refillDate || !m.isActive) return false;
-    const refillDate = new Date(m.refillDate);
-    const today = new Date();
-    const diffDays = Math.ceil((refillDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    if (!m.isActive) return false;
+    const refillDate = predictRefillDate(m, today);
+    if (!refillDate) return false;
+    const diffDays = Math.round((new Date(refillDate).getTime() - new Date(today).getTime()) / (1000 * 60 * 60 * 24));
     return diffDays <= 7 && diffDays >= 0;
   });
 
@@ -248,7 +229,7 @@ export default function MedicationPage() {
               <div className="rounded-2xl bg-orange-50 border border-orange-200 p-4 dark:bg-orange-900/20 dark:border-orange-800">
                 <div className="flex items-center gap-2 text-orange-800 dark:text-orange-300">
                   <span className="text-xl">📅</span>
-                  <span className="font-medium">리필 예정: {needsRefill.map(m => m.name).join(", ")}</span>
+                  <span className="font-medium">리필 예정: {needsRefill.map(m => `${m.name} (${predictRefillDate(m, today)})`).join(", ")}</span>
                 </div>
               </div>
             )}
@@ -274,7 +255,7 @@ export default function MedicationPage() {
               <option value="all">전체 반려동물</option>
               {pets.map(pet => (
                 <option key={pet.id} value={pet.id}>
-                  {pet.species === "dog" ? "🐕" : "🐈"} {pet.name}
+                  {getSpeciesEmoji(pet.species)} {pet.name}
                 </option>
               ))}
             </select>
@@ -314,26 +295,28 @@ export default function MedicationPage() {
             <h2 className="text-lg font-bold text-gray-800 dark:text-white mb-4">오늘의 복용 일정</h2>
             <div className="space-y-4">
               {TIME_OF_DAY.map(time => {
-                const medsAtTime = filteredMedications.filter(m =>
-                  m.isActive && m.timeOfDay.includes(time.value)
-                );
-                if (medsAtTime.length === 0) return null;
+                const slotsAtTime = filteredMedications
+                  .filter(m => m.isActive)
+                  .flatMap(med => getTodaySlots(med, now)
+                    .filter(slot => slot.timeOfDay === time.value)
+                    .map(slot => ({ med, slot })));
+                if (slotsAtTime.length === 0) return null;
 
                 return (
                   <div key={time.value} className="border-l-4 border-green-400 pl-4">
                     <div className="flex items-center gap-2 mb-2">
                       <span className="text-xl">{time.icon}</span>
                       <span className="font-medium text-gray-800 dark:text-white">{time.label}</span>
-                      <span className="text-sm text-gray-500">{time.time}</span>
+                      <span className="text-sm text-gray-500">{MEDICATION_SLOT_TIMES[time.value]}</span>
                     </div>
                     <div className="space-y-2">
-                      {medsAtTime.map(med => {
-                        const todayLogs = getTodayLogs(med);
-                        const takenThisTime = todayLogs.some(log => log.time === time.value && log.taken);
+                      {slotsAtTime.map(({ med, slot }) => {
+                        const takenThisTime = slot.status === "taken" || slot.status === "late";
+                        const badge = SLOT_BADGES[slot.status];
 
                         return (
                           <div
-                            key={med.id}
+                            key={`${med.id}-${slot.timeOfDay}`}
                             className={`flex items-center justify-between rounded-xl p-3 ${
                               takenThisTime
                                 ? "bg-green-50 dark:bg-green-900/20"
@@ -341,20 +324,35 @@ export default function MedicationPage() {
                             }`}
                           >
                             <div>
-                              <p className={`font-medium ${takenThisTime ? "text-green-700 dark:text-green-300" : "text-gray-800 dark:text-white"}`}>
-                                {med.name}
-                              </p>
+                              <div className="flex items-center gap-2">
+                                <p className={`font-medium ${takenThisTime ? "text-green-700 dark:text-green-300" : "text-gray-800 dark:text-white"}`}>
+                                  {med.name}
+                                </p>
+                                {badge && (
+                                  <span className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>
+                                )}
+                              </div>
                               <p className="text-sm text-gray-500">{med.dosage}</p>
                             </div>
                             {takenThisTime ? (
                               <span className="text-green-500 text-2xl">✓</span>
                             ) : (
-                              <button
-                                onClick={() => handleLogDose(med, time.value, true)}
-                                className="rounded-lg bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600"
-                              >
-                                복용 완료
-                              </button>
+                              <div className="flex items-center gap-2">
+                                {slot.status !== "skipped" && (
+                                  <button
+                                    onClick={() => handleLogDose(med, slot, false)}
+                                    className="rounded-lg px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-600"
+                                  >
+                                    건너뛰기
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleLogDose(med, slot, true)}
+                                  className="rounded-lg bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600"
+                                >
+                                  복용 완료
+                                </button>
+                              </div>
                             )}
                           </div>
                         );
@@ -418,7 +416,7 @@ export default function MedicationPage() {
                       ✏️
                     </button>
                     <button
-                      onClick={() => handleDelete(med.id)}
+                      onClick={() => handleDelete(med)}
                       className="p-2 text-gray-400 hover:text-red-500"
                       title="삭제"
                     >
@@ -454,6 +452,14 @@ export default function MedicationPage() {
                       </span>
                     </div>
                   )}
+                  {predictRunOutDate(med, today) && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-400">📦</span>
+                      <span className="text-gray-600 dark:text-gray-300">
+                        {predictRunOutDate(med, today)} 소진 예상
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2 flex-wrap">
@@ -470,7 +476,7 @@ export default function MedicationPage() {
                   })}
                 </div>
 
-                {med.isActive && med.logs.length > 0 && (
+                {med.isActive && computeAdherence(med, now).rate !== null && (
                   <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-700">
                     <div className="flex items-center justify-between text-sm">
                       <span className="text-gray-500">복용 순응도</span>
@@ -495,7 +501,7 @@ export default function MedicationPage() {
 
                 {med.isActive && (
                   <button
-                    onClick={() => handleToggleActive(med.id)}
+                    onClick={() => handleToggleActive(med)}
                     className="mt-3 w-full py-2 text-sm text-gray-500 hover:text-red-500 border border-gray-200 rounded-lg dark:border-gray-600"
                   >
                     복용 완료로 표시
@@ -527,6 +533,24 @@ export default function MedicationPage() {
                     className="w-full rounded-lg border border-gray-300 px-4 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
                     required
                   />
+                  {safetyWarnings.length > 0 && (
+                    <ul className="mt-2 space-y-1" role="alert">
+                      {safetyWarnings.map((warning, index) => (
+                        <li
+                          key={index}
+                          className={`rounded-lg px-3 py-2 text-sm ${
+                            warning.severity === "danger"
+                              ? "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300"
+                              : "bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300"
+                          }`}
+                        >
+                          {warning.severity === "danger" ? "⛔" : "⚠️"}{" "}
+                          {warning.withMedication && <strong>{warning.withMedication}: </strong>}
+                          {warning.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
                 <div>
@@ -709,9 +733,17 @@ export default function MedicationPage() {
 
               <div className="mb-4 p-4 rounded-xl bg-green-50 dark:bg-green-900/20">
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600 dark:text-gray-300">총 복용 순응도</span>
+                  <span className="text-gray-600 dark:text-gray-300">최근 30일 복용 순응도</span>
                   <span className="text-2xl font-bold text-green-600">{getComplianceRate(showLogModal)}%</span>
                 </div>
+                {(() => {
+                  const stats = computeAdherence(showLogModal, now);
+                  return (
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      정시 {stats.onTime}회 · 늦게 {stats.late}회 · 건너뜀 {stats.skipped}회 · 놓침 {stats.missed}회
+                    </p>
+                  );
+                })()}
               </div>
 
               {showLogModal.logs.length === 0 ? (
@@ -1,195 +1,184 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { Suspense, useState, useEffect, useRef } from "react";
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDirectMessages } from "@/hooks/useDirectMessages";
+import { DIRECT_MESSAGE_MAX_LENGTH } from "@/lib/validations/messages";
 
-export interface Message {
-  id: string;
-  senderId: string;
-  receiverId: string;
-  content: string;
-  timestamp: string;
-  read: boolean;
+// 입력을 멈추고 이 시간이 지나면 입력 종료 신호를 보냄
+const TYPING_IDLE_MS = 2000;
+
+// Format time
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diff = now.getTime() - date.getTime();
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (days > 0) return `${days}일 전`;
+  if (hours > 0) return `${hours}시간 전`;
+  return "방금";
 }
 
-export interface Conversation {
-  id: string;
-  participantId: string;
-  participantName: string;
-  participantAvatar?: string;
-  lastMessage?: string;
-  lastMessageTime?: string;
-  unreadCount: number;
+// Format message time
+function formatMessageTime(timestamp: string) {
+  return new Date(timestamp).toLocaleTimeString("ko-KR", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
 }
 
-// Mock user data for demo
-const MOCK_USERS = [
-  { id: "user1", name: "멍멍이집사", avatar: "🐕" },
-  { id: "user2", name: "냥이맘", avatar: "🐈" },
-  { id: "user3", name: "행복한펫", avatar: "🐾" },
-  { id: "user4", name: "동물사랑", avatar: "❤️" },
-];
+function MessagesContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading, getAccessToken } = useAuth();
+  const {
+    conversations,
+    unreadCount,
+    isLoaded,
+    activeConversation,
+    messages,
+    hasMore,
+    isPartnerTyping,
+    blocks,
+    error,
+    openConversation,
+    startConversation,
+    loadOlder,
+    sendMessage,
+    setTyping,
+    block,
+    unblock,
+  } = useDirectMessages({ userId: user?.id, getAccessToken });
 
-export default function MessagesPage() {
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
-  const [showNewChatModal, setShowNewChatModal] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [showBlocksModal, setShowBlocksModal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
 
-  const currentUserId = "me"; // Current user ID
-
-  // Load conversations
-  useEffect(() => {
-    const saved = localStorage.getItem("petchecky_conversations");
-    if (saved) {
-      setConversations(JSON.parse(saved));
-    } else {
-      // Initialize with demo conversations
-      const demoConversations: Conversation[] = MOCK_USERS.slice(0, 2).map((user) => ({
-        id: `conv_${user.id}`,
-        participantId: user.id,
-        participantName: user.name,
-        participantAvatar: user.avatar,
-        lastMessage: "안녕하세요! 반가워요 😊",
-        lastMessageTime: new Date().toISOString(),
-        unreadCount: 1,
-      }));
-      setConversations(demoConversations);
-      localStorage.setItem("petchecky_conversations", JSON.stringify(demoConversations));
-    }
-  }, []);
+  const conversationParam = searchParams.get("conversation");
+  const toParam = searchParams.get("to");
 
-  // Load messages for selected conversation
+  // ?conversation=<id> (푸시 알림 링크) 또는 ?to=<userId> (커뮤니티 작성자에게 메시지)
   useEffect(() => {
-    if (selectedConversation) {
-      const saved = localStorage.getItem(`petchecky_messages_${selectedConversation.id}`);
-      if (saved) {
-        setMessages(JSON.parse(saved));
-      } else {
-        // Demo messages
-        setMessages([
-          {
-            id: "msg1",
-            senderId: selectedConversation.participantId,
-            receiverId: currentUserId,
-            content: "안녕하세요! 반가워요 😊",
-            timestamp: new Date(Date.now() - 3600000).toISOString(),
-            read: true,
-          },
-        ]);
-      }
+    if (!user) return;
 
-      // Mark messages as read
-      const updatedConversations = conversations.map((c) =>
-        c.id === selectedConversation.id ? { ...c, unreadCount: 0 } : c
-      );
-      setConversations(updatedConversations);
-      localStorage.setItem("petchecky_conversations", JSON.stringify(updatedConversations));
+    if (conversationParam) {
+      openConversation(conversationParam);
+    } else if (toParam) {
+      startConversation(toParam).then((conversation) => {
+        if (conversation) router.replace(`/messages?conversation=${conversation.id}`);
+      });
+    } else {
+      openConversation(null);
     }
-  }, [selectedConversation]);
+  }, [user, conversationParam, toParam, openConversation, startConversation, router]);
 
   // Scroll to bottom on new messages
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [lastMessageId]);
 
-  // Send message
-  const handleSendMessage = () => {
-    if (!newMessage.trim() || !selectedConversation) return;
-
-    const message: Message = {
-      id: Date.now().toString(),
-      senderId: currentUserId,
-      receiverId: selectedConversation.participantId,
-      content: newMessage.trim(),
-      timestamp: new Date().toISOString(),
-      read: false,
+  useEffect(() => {
+    return () => {
+      if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
     };
+  }, []);
 
-    const updatedMessages = [...messages, message];
-    setMessages(updatedMessages);
-    localStorage.setItem(
-      `petchecky_messages_${selectedConversation.id}`,
-      JSON.stringify(updatedMessages)
-    );
-
-    // Update conversation
-    const updatedConversations = conversations.map((c) =>
-      c.id === selectedConversation.id
-        ? { ...c, lastMessage: message.content, lastMessageTime: message.timestamp }
-        : c
-    );
-    setConversations(updatedConversations);
-    localStorage.setItem("petchecky_conversations", JSON.stringify(updatedConversations));
-
-    setNewMessage("");
+  const selectConversation = (conversationId: string | null) => {
+    router.push(conversationId ? `/messages?conversation=${conversationId}` : "/messages");
   };
 
-  // Start new conversation
-  const handleStartConversation = (user: typeof MOCK_USERS[0]) => {
-    const existingConv = conversations.find((c) => c.participantId === user.id);
-    if (existingConv) {
-      setSelectedConversation(existingConv);
-    } else {
-      const newConv: Conversation = {
-        id: `conv_${user.id}`,
-        participantId: user.id,
-        participantName: user.name,
-        participantAvatar: user.avatar,
-        unreadCount: 0,
-      };
-      const updated = [...conversations, newConv];
-      setConversations(updated);
-      localStorage.setItem("petchecky_conversations", JSON.stringify(updated));
-      setSelectedConversation(newConv);
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+
+    if (!isTypingRef.current && value.trim()) {
+      isTypingRef.current = true;
+      setTyping(true);
     }
-    setShowNewChatModal(false);
+
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    typingIdleTimer.current = setTimeout(() => {
+      isTypingRef.current = false;
+      setTyping(false);
+    }, TYPING_IDLE_MS);
   };
 
-  // Format time
-  const formatTime = (timestamp: string) => {
-    const date = new Date(timestamp);
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const hours = Math.floor(diff / 3600000);
-    const days = Math.floor(diff / 86400000);
+  // Send message
+  const handleSendMessage = async () => {
+    if (!newMessage.trim() || isSending) return;
+
+    setIsSending(true);
+    if (typingIdleTimer.current) clearTimeout(typingIdleTimer.current);
+    isTypingRef.current = false;
 
-    if (days > 0) return `${days}일 전`;
-    if (hours > 0) return `${hours}시간 전`;
-    return "방금";
+    const sent = await sendMessage(newMessage.trim());
+    if (sent) setNewMessage("");
+    setIsSending(false);
   };
 
-  // Format message time
-  const formatMessageTime = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString("ko-KR", {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const handleToggleBlock = async () => {
+    if (!activeConversation) return;
+
+    if (activeConversation.blocked) {
+      await unblock(activeConversation.participantId);
+    } else if (
+      confirm(`${activeConversation.participantName}님을 차단할까요? 서로 메시지를 주고받을 수 없게 됩니다.`)
+    ) {
+      await block(activeConversation.participantId);
+    }
   };
 
+  if (loading) {
+    return <MessagesFallback />;
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+        <div className="rounded-xl bg-white border border-gray-200 p-8 text-center dark:bg-gray-800 dark:border-gray-700">
+          <div className="text-4xl mb-3">💬</div>
+          <p className="text-gray-500 mb-4 dark:text-gray-400">로그인하면 다른 보호자와 메시지를 주고받을 수 있어요</p>
+          <Link
+            href="/"
+            className="inline-block rounded-full bg-blue-500 px-6 py-2 text-sm font-medium text-white hover:bg-blue-600"
+          >
+            홈으로
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
       {/* Header */}
       <header className="sticky top-0 z-10 border-b border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900">
         <div className="mx-auto flex h-14 max-w-3xl items-center justify-between px-4">
           <div className="flex items-center gap-3">
-            {selectedConversation ? (
+            {activeConversation ? (
               <>
                 <button
-                  onClick={() => setSelectedConversation(null)}
+                  onClick={() => selectConversation(null)}
                   className="rounded-full p-2 text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                   </svg>
                 </button>
-                <div className="flex items-center gap-2">
-                  <span className="text-2xl">{selectedConversation.participantAvatar}</span>
+                <div className="flex flex-col">
                   <span className="font-bold text-gray-800 dark:text-gray-100">
-                    {selectedConversation.participantName}
+                    {activeConversation.participantName}
                   </span>
+                  {isPartnerTyping && (
+                    <span className="text-xs text-blue-500">입력 중...</span>
+                  )}
                 </div>
               </>
             ) : (
@@ -202,41 +191,66 @@ export default function MessagesPage() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                   </svg>
                 </Link>
-                <h1 className="text-lg font-bold text-gray-800 dark:text-gray-100">💬 메시지</h1>
+                <h1 className="text-lg font-bold text-gray-800 dark:text-gray-100">
+                  💬 메시지
+                  {unreadCount > 0 && (
+                    <span className="ml-2 rounded-full bg-blue-500 px-2 py-0.5 text-xs text-white align-middle">
+                      {unreadCount}
+                    </span>
+                  )}
+                </h1>
               </>
             )}
           </div>
-          {!selectedConversation && (
+          {activeConversation ? (
             <button
-              onClick={() => setShowNewChatModal(true)}
-              className="rounded-full bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600"
+              onClick={handleToggleBlock}
+              className="rounded-full border border-gray-300 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
             >
-              + 새 대화
+              {activeConversation.blocked ? "차단 해제" : "차단"}
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowBlocksModal(true)}
+              className="rounded-full border border-gray-300 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              차단 목록
             </button>
           )}
         </div>
       </header>
 
+      {error && (
+        <div className="mx-auto max-w-3xl w-full px-4 pt-4">
+          <p className="rounded-lg bg-red-50 px-4 py-2 text-sm text-red-600 dark:bg-red-900/30 dark:text-red-300">
+            {error}
+          </p>
+        </div>
+      )}
+
       {/* Conversations List */}
-      {!selectedConversation && (
+      {!activeConversation && (
         <main className="flex-1 mx-auto max-w-3xl w-full p-4">
-          {conversations.length > 0 ? (
+          {!isLoaded ? (
+            <div className="py-12 text-center text-gray-400">불러오는 중...</div>
+          ) : conversations.length > 0 ? (
             <div className="space-y-2">
               {conversations.map((conv) => (
                 <button
                   key={conv.id}
-                  onClick={() => setSelectedConversation(conv)}
+                  onClick={() => selectConversation(conv.id)}
                   className="w-full flex items-center gap-3 rounded-xl bg-white border border-gray-200 p-4 hover:bg-gray-50 dark:bg-gray-800 dark:border-gray-700 dark:hover:bg-gray-700"
                 >
-                  <div className="text-3xl">{conv.participantAvatar}</div>
-                  <div className="flex-1 text-left">
+                  <div className="text-3xl">🐾</div>
+                  <div className="flex-1 min-w-0 text-left">
                     <div className="flex items-center justify-between">
                       <span className="font-medium text-gray-800 dark:text-gray-100">
                         {conv.participantName}
+                        {conv.blocked && <span className="ml-2 text-xs text-gray-400">차단됨</span>}
                       </span>
-                      {conv.lastMessageTime && (
+                      {conv.lastMessageAt && (
                         <span className="text-xs text-gray-400">
-                          {formatTime(conv.lastMessageTime)}
+                          {formatTime(conv.lastMessageAt)}
                         </span>
                       )}
                     </div>
@@ -258,24 +272,35 @@ export default function MessagesPage() {
             <div className="rounded-xl bg-white border border-gray-200 p-8 text-center dark:bg-gray-800 dark:border-gray-700">
               <div className="text-4xl mb-3">💬</div>
               <p className="text-gray-500 mb-4 dark:text-gray-400">아직 대화가 없습니다</p>
-              <button
-                onClick={() => setShowNewChatModal(true)}
-                className="rounded-full bg-blue-500 px-6 py-2 text-sm font-medium text-white hover:bg-blue-600"
+              <p className="text-sm text-gray-400 mb-4">커뮤니티 게시글에서 작성자에게 메시지를 보낼 수 있어요</p>
+              <Link
+                href="/community"
+                className="inline-block rounded-full bg-blue-500 px-6 py-2 text-sm font-medium text-white hover:bg-blue-600"
               >
-                새 대화 시작하기
-              </button>
+                커뮤니티 가기
+              </Link>
             </div>
           )}
         </main>
       )}
 
       {/* Chat View */}
-      {selectedConversation && (
+      {activeConversation && (
         <div className="flex-1 flex flex-col mx-auto max-w-3xl w-full">
           {/* Messages */}
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {hasMore && (
+              <div className="text-center">
+                <button
+                  onClick={loadOlder}
+                  className="rounded-full px-4 py-1 text-sm text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+                >
+                  이전 메시지 더 보기
+                </button>
+              </div>
+            )}
             {messages.map((msg) => {
-              const isMine = msg.senderId === currentUserId;
+              const isMine = msg.senderId === user.id;
               return (
                 <div
                   key={msg.id}
@@ -288,52 +313,67 @@ export default function MessagesPage() {
                         : "bg-white border border-gray-200 text-gray-800 rounded-bl-none dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100"
                     }`}
                   >
-                    <p className="break-words">{msg.content}</p>
+                    <p className="break-words whitespace-pre-wrap">{msg.content}</p>
                     <p
                       className={`text-xs mt-1 ${
                         isMine ? "text-blue-100" : "text-gray-400"
                       }`}
                     >
-                      {formatMessageTime(msg.timestamp)}
+                      {formatMessageTime(msg.createdAt)}
+                      {isMine && msg.readAt && " · 읽음"}
                     </p>
                   </div>
                 </div>
               );
             })}
+            {isPartnerTyping && (
+              <div className="flex justify-start">
+                <div className="rounded-2xl rounded-bl-none bg-white border border-gray-200 px-4 py-2 text-gray-400 dark:bg-gray-800 dark:border-gray-700">
+                  ···
+                </div>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
 
           {/* Message Input */}
           <div className="border-t border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
-            <div className="flex gap-2">
-              <input
-                type="text"
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && handleSendMessage()}
-                placeholder="메시지를 입력하세요..."
-                className="flex-1 rounded-full border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
-              />
-              <button
-                onClick={handleSendMessage}
-                disabled={!newMessage.trim()}
-                className="rounded-full bg-blue-500 px-6 py-3 font-medium text-white hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
-              >
-                전송
-              </button>
-            </div>
+            {activeConversation.blocked ? (
+              <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                차단한 사용자입니다. 차단을 해제하면 메시지를 보낼 수 있어요.
+              </p>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newMessage}
+                  onChange={(e) => handleInputChange(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && !e.nativeEvent.isComposing && handleSendMessage()}
+                  maxLength={DIRECT_MESSAGE_MAX_LENGTH}
+                  placeholder="메시지를 입력하세요..."
+                  className="flex-1 rounded-full border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                />
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!newMessage.trim() || isSending}
+                  className="rounded-full bg-blue-500 px-6 py-3 font-medium text-white hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  전송
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
 
-      {/* New Chat Modal */}
-      {showNewChatModal && (
+      {/* Blocks Modal */}
+      {showBlocksModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
           <div className="w-full max-w-md rounded-2xl bg-white shadow-xl dark:bg-gray-800">
             <div className="border-b border-gray-100 px-6 py-4 flex items-center justify-between dark:border-gray-700">
-              <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">새 대화 시작</h2>
+              <h2 className="text-lg font-bold text-gray-800 dark:text-gray-100">차단 목록</h2>
               <button
-                onClick={() => setShowNewChatModal(false)}
+                onClick={() => setShowBlocksModal(false)}
                 className="rounded-full p-2 text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -342,23 +382,26 @@ export default function MessagesPage() {
               </button>
             </div>
             <div className="p-4">
-              <p className="text-sm text-gray-500 mb-4 dark:text-gray-400">
-                대화를 시작할 사용자를 선택하세요
-              </p>
-              <div className="space-y-2">
-                {MOCK_USERS.map((user) => (
-                  <button
-                    key={user.id}
-                    onClick={() => handleStartConversation(user)}
-                    className="w-full flex items-center gap-3 rounded-lg p-3 hover:bg-gray-50 dark:hover:bg-gray-700"
-                  >
-                    <span className="text-2xl">{user.avatar}</span>
-                    <span className="font-medium text-gray-800 dark:text-gray-100">
-                      {user.name}
-                    </span>
-                  </button>
-                ))}
-              </div>
+              {blocks.length > 0 ? (
+                <div className="space-y-2">
+                  {blocks.map((blocked) => (
+                    <div
+                      key={blocked.userId}
+                      className="flex items-center justify-between rounded-lg p-3 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <span className="font-medium text-gray-800 dark:text-gray-100">{blocked.name}</span>
+                      <button
+                        onClick={() => unblock(blocked.userId)}
+                        className="rounded-full border border-gray-300 px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-600"
+                      >
+                        차단 해제
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">차단한 사용자가 없습니다</p>
+              )}
             </div>
           </div>
         </div>
@@ -366,3 +409,19 @@ export default function MessagesPage() {
     </div>
   );
 }
+
+function MessagesFallback() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+    </div>
+  );
+}
+
+export default function MessagesPage() {
+  return (
+    <Suspense fallback={<MessagesFallback />}>
+      <MessagesContent />
+    </Suspense>
+  );
+}
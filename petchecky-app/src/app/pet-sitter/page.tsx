@@ -3,11 +3,12 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { getSpeciesEmoji, getSpeciesName, PET_SPECIES, type PetSpecies } from "@/lib/species";
 
 interface PetProfile {
   id: string;
   name: string;
-  species: "dog" | "cat";
+  species: PetSpecies;
   breed: string;
   age: number;
   weight: number;
@@ -20,7 +21,7 @@ interface PetSitter {
   rating: number;
   reviewCount: number;
   experience: number;
-  specialties: string[];
+  specialties: PetSpecies[];
   pricePerDay: number;
   pricePerHour: number;
   distance: number;
@@ -94,10 +95,10 @@ const SAMPLE_SITTERS: PetSitter[] = [
 ];
 
 type ServiceType = "all" | "daycare" | "boarding" | "walking" | "grooming" | "training";
-type PetType = "all" | "dog" | "cat";
+type PetType = "all" | PetSpecies;
 
 export default function PetSitterPage() {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [pets, setPets] = useState<PetProfile[]>([]);
   const [selectedPetId, setSelectedPetId] = useState<string>("");
   const [sitters] = useState<PetSitter[]>(SAMPLE_SITTERS);
@@ -197,7 +198,7 @@ export default function PetSitterPage() {
             >
               {pets.map((pet) => (
                 <option key={pet.id} value={pet.id}>
-                  {pet.species === "dog" ? "🐕" : "🐈"} {pet.name} - {pet.breed}
+                  {getSpeciesEmoji(pet.species)} {pet.name} - {pet.breed}
                 </option>
               ))}
             </select>
@@ -233,8 +234,11 @@ export default function PetSitterPage() {
               aria-label={t.petSitter.petType}
             >
               <option value="all">{t.petSitter.allPets}</option>
-              <option value="dog">🐕 {t.pet.dog}</option>
-              <option value="cat">🐈 {t.pet.cat}</option>
+              {PET_SPECIES.map((species) => (
+                <option key={species} value={species}>
+                  {getSpeciesEmoji(species)} {getSpeciesName(species, language)}
+                </option>
+              ))}
             </select>
             <select
               value={sortBy}
@@ -264,11 +268,7 @@ export default function PetSitterPage() {
                 <div className="flex gap-4">
                   {/* Profile Image */}
                   <div className="flex h-16 w-16 shrink-0 items-center justify-center rounded-full bg-orange-100 text-2xl dark:bg-orange-900/30">
-                    {sitter.specialties.includes("dog") && sitter.specialties.includes("cat")
-                      ? "🐾"
-                      : sitter.specialties.includes("dog")
-                      ? "🐕"
-                      : "🐈"}
+                    {sitter.specialties.length === 1 ? getSpeciesEmoji(sitter.specialties[0]) : "🐾"}
                   </div>
 
                   {/* Info */}
@@ -375,7 +375,7 @@ export default function PetSitterPage() {
                 {selectedPet && (
                   <div className="mb-4 rounded-lg bg-gray-100 p-3 dark:bg-gray-700">
                     <p className="text-sm text-gray-700 dark:text-gray-300">
-                      {selectedPet.species === "dog" ? "🐕" : "🐈"} {selectedPet.name} ({selectedPet.breed}, {selectedPet.age}{t.pet.years})
+                      {getSpeciesEmoji(selectedPet.species)} {selectedPet.name} ({selectedPet.breed}, {selectedPet.age}{t.pet.years})
                     </p>
                   </div>
                 )}
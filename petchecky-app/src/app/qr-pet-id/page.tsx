@@ -1,140 +1,249 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { petTagsService } from "@/lib/services";
+import { TAG_PHOTO_MAX_LENGTH } from "@/lib/validations/petTags";
+import PetTagQrCode from "@/components/petTag/PetTagQrCode";
+import PetTagActivity from "@/components/petTag/PetTagActivity";
+import type { PetTag, PetTagActivity as PetTagActivityData } from "@/types/petTags";
+import { getSpeciesEmoji } from "@/lib/species";
 
-interface PetProfile {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-  breed: string;
-  age: number;
-  weight: number;
-}
+// 예전 버전은 보호자 이름/연락처를 QR 코드에 직접 넣었음
+const LEGACY_OWNER_INFO_KEY = "petchecky_owner_info";
+const TAG_PHOTO_MAX_WIDTH = 480;
+
+// 발견자 페이지용 사진 축소
+const resizeImage = (file: File, maxWidth: number, quality: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = document.createElement("img");
+      img.onload = () => {
+        const canvas = document.createElement("canvas");
+        let width = img.width;
+        let height = img.height;
+
+        if (width > maxWidth) {
+          height = (height * maxWidth) / width;
+          width = maxWidth;
+        }
+
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+          reject(new Error("canvas unavailable"));
+          return;
+        }
+        ctx.drawImage(img, 0, 0, width, height);
+        resolve(canvas.toDataURL("image/jpeg", quality));
+      };
+      img.onerror = () => reject(new Error("image load failed"));
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = () => reject(new Error("file read failed"));
+    reader.readAsDataURL(file);
+  });
+};
 
 export default function QrPetIdPage() {
   const { t } = useLanguage();
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
+  const [tags, setTags] = useState<PetTag[]>([]);
   const [selectedPetId, setSelectedPetId] = useState<string>("");
-  const [ownerName, setOwnerName] = useState("");
-  const [ownerPhone, setOwnerPhone] = useState("");
   const [emergencyNote, setEmergencyNote] = useState("");
-  const [qrGenerated, setQrGenerated] = useState(false);
-  const qrRef = useRef<HTMLDivElement>(null);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activityTagId, setActivityTagId] = useState<string | null>(null);
+  const [activity, setActivity] = useState<PetTagActivityData | null>(null);
+  const [origin, setOrigin] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedPet = pets.find((p) => p.id === selectedPetId);
+  const activeTag = tags.find((tag) => tag.petId === selectedPetId && !tag.revokedAt);
+  const revokedTags = tags.filter((tag) => tag.petId === selectedPetId && tag.revokedAt);
+  const tagUrl = activeTag && origin ? `${origin}/found/${activeTag.token}` : null;
 
   useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsed = JSON.parse(savedPets);
-      const petsArray = Array.isArray(parsed) ? parsed : [{ ...parsed, id: `local_${Date.now()}` }];
-      setPets(petsArray);
-      if (petsArray.length > 0) {
-        setSelectedPetId(petsArray[0].id);
-      }
+    setOrigin(window.location.origin);
+    localStorage.removeItem(LEGACY_OWNER_INFO_KEY);
+  }, []);
+
+  // 펫 목록 로드 후 첫 번째 펫 선택
+  useEffect(() => {
+    if (petsLoaded && pets.length > 0 && !selectedPetId) {
+      setSelectedPetId(pets[0].id || "");
     }
+  }, [petsLoaded, pets, selectedPetId]);
+
+  const loadTags = useCallback(async () => {
+    const token = await getAccessToken();
+    if (!token) return;
 
-    // Load saved owner info
-    const savedOwner = localStorage.getItem("petchecky_owner_info");
-    if (savedOwner) {
-      const owner = JSON.parse(savedOwner);
-      setOwnerName(owner.name || "");
-      setOwnerPhone(owner.phone || "");
+    const result = await petTagsService.list(token);
+    if (result.success && result.data) {
+      setTags(result.data);
+    } else {
+      setError(result.error?.message || t.qrPetId.error);
     }
-  }, []);
+  }, [getAccessToken, t.qrPetId.error]);
 
-  const selectedPet = pets.find((p) => p.id === selectedPetId);
+  useEffect(() => {
+    if (user) {
+      loadTags();
+    }
+  }, [user, loadTags]);
 
-  const generateQrData = () => {
-    if (!selectedPet || !ownerName || !ownerPhone) return null;
-
-    const data = {
-      pet: {
-        name: selectedPet.name,
-        species: selectedPet.species === "dog" ? "강아지" : "고양이",
-        breed: selectedPet.breed,
-        age: selectedPet.age,
-      },
-      owner: {
-        name: ownerName,
-        phone: ownerPhone,
-      },
-      note: emergencyNote || undefined,
-      app: "PetChecky",
-    };
+  // 선택한 펫의 인식표 내용으로 입력값 초기화
+  useEffect(() => {
+    setEmergencyNote(activeTag?.emergencyNote || "");
+    setPhoto(activeTag?.photo || null);
+    setActivityTagId(null);
+    setActivity(null);
+  }, [activeTag?.id, activeTag?.emergencyNote, activeTag?.photo, selectedPetId]);
 
-    return JSON.stringify(data);
+  const replaceTag = (tag: PetTag) => {
+    setTags((prev) => {
+      const exists = prev.some((item) => item.id === tag.id);
+      return exists ? prev.map((item) => (item.id === tag.id ? tag : item)) : [tag, ...prev];
+    });
   };
 
-  const handleGenerate = () => {
-    if (!selectedPet || !ownerName || !ownerPhone) return;
+  const runAction = async (action: (token: string) => Promise<string | null>) => {
+    setError(null);
+    setNotice(null);
+    const token = await getAccessToken();
+    if (!token) return;
 
-    // Save owner info
-    localStorage.setItem("petchecky_owner_info", JSON.stringify({
-      name: ownerName,
-      phone: ownerPhone,
-    }));
+    setIsSaving(true);
+    try {
+      const message = await action(token);
+      if (message) setNotice(message);
+    } catch {
+      setError(t.qrPetId.error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createTag = async (token: string) => {
+    const result = await petTagsService.create(
+      { petId: selectedPetId, emergencyNote: emergencyNote.trim() || undefined, photo: photo || undefined },
+      token
+    );
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message);
+    }
+    replaceTag(result.data);
+  };
+
+  const handleGenerate = () => runAction(async (token) => {
+    await createTag(token);
+    return null;
+  });
+
+  const handleSave = () => runAction(async (token) => {
+    if (!activeTag) return null;
+    const result = await petTagsService.update(
+      activeTag.id,
+      { emergencyNote: emergencyNote.trim() || null, photo },
+      token
+    );
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message);
+    }
+    replaceTag(result.data);
+    return t.qrPetId.saved;
+  });
 
-    setQrGenerated(true);
+  const revokeActiveTag = async (token: string) => {
+    if (!activeTag) return;
+    const result = await petTagsService.revoke(activeTag.id, token);
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message);
+    }
+    replaceTag(result.data);
+  };
+
+  const handleRevoke = () => {
+    if (!confirm(t.qrPetId.revokeConfirm)) return;
+    runAction(async (token) => {
+      await revokeActiveTag(token);
+      return null;
+    });
+  };
+
+  // 기존 QR 코드를 무효화하고 같은 내용으로 새 토큰 발급
+  const handleReissue = () => {
+    if (!confirm(t.qrPetId.revokeConfirm)) return;
+    runAction(async (token) => {
+      await revokeActiveTag(token);
+      await createTag(token);
+      return null;
+    });
   };
 
-  const qrData = generateQrData();
-  const qrUrl = qrData
-    ? `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(qrData)}`
-    : null;
+  const handleToggleActivity = async (tagId: string) => {
+    if (activityTagId === tagId) {
+      setActivityTagId(null);
+      setActivity(null);
+      return;
+    }
+
+    const token = await getAccessToken();
+    if (!token) return;
+
+    setActivityTagId(tagId);
+    setActivity(null);
+    const result = await petTagsService.activity(tagId, token);
+    if (result.success && result.data) {
+      setActivity(result.data);
+    } else {
+      setError(result.error?.message || t.qrPetId.error);
+    }
+  };
 
-  const handleDownload = async () => {
-    if (!qrUrl) return;
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
 
+    setError(null);
     try {
-      const response = await fetch(qrUrl);
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `petchecky-qr-${selectedPet?.name || "pet"}.png`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const dataUrl = await resizeImage(file, TAG_PHOTO_MAX_WIDTH, 0.8);
+      if (dataUrl.length > TAG_PHOTO_MAX_LENGTH) {
+        setError(t.qrPetId.photoError);
+      } else {
+        setPhoto(dataUrl);
+      }
     } catch {
-      window.open(qrUrl, "_blank");
+      setError(t.qrPetId.photoError);
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
     }
   };
 
-  const handlePrint = () => {
-    if (!qrRef.current) return;
-    const printWindow = window.open("", "_blank");
-    if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>PetChecky QR - ${selectedPet?.name}</title>
-            <style>
-              body { font-family: sans-serif; text-align: center; padding: 20px; }
-              .qr-card { border: 2px solid #000; padding: 20px; display: inline-block; }
-              img { width: 200px; height: 200px; }
-              h2 { margin: 10px 0 5px; }
-              p { margin: 5px 0; color: #666; }
-            </style>
-          </head>
-          <body>
-            <div class="qr-card">
-              <img src="${qrUrl}" alt="QR Code" />
-              <h2>${selectedPet?.name}</h2>
-              <p>${selectedPet?.species === "dog" ? "🐕" : "🐈"} ${selectedPet?.breed}</p>
-              <p>스캔하여 보호자에게 연락하세요</p>
-              <p style="font-size: 12px; color: #999;">PetChecky</p>
-            </div>
-            <script>window.print();</script>
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
+  const handleCopyLink = async () => {
+    if (!tagUrl) return;
+    try {
+      await navigator.clipboard.writeText(tagUrl);
+      setNotice(t.qrPetId.linkCopied);
+    } catch {
+      setError(t.qrPetId.error);
     }
   };
 
-  const isValid = selectedPet && ownerName.trim() && ownerPhone.trim();
+  const isDirty = activeTag
+    ? (activeTag.emergencyNote || "") !== emergencyNote.trim() || (activeTag.photo || null) !== photo
+    : false;
 
   return (
     <div className="flex min-h-screen flex-col bg-gray-50 dark:bg-gray-900">
@@ -155,7 +264,19 @@ export default function QrPetIdPage() {
 
       {/* Content */}
       <main className="flex-1 p-4">
-        {pets.length === 0 ? (
+        {!authLoading && !user ? (
+          <div className="rounded-2xl bg-blue-50 border border-blue-200 p-5 text-center">
+            <p className="text-blue-800 font-medium mb-2">
+              {t.qrPetId.loginRequired}
+            </p>
+            <Link
+              href="/"
+              className="inline-block rounded-full bg-blue-500 px-6 py-2 text-sm font-medium text-white"
+            >
+              {t.qrPetId.login}
+            </Link>
+          </div>
+        ) : petsLoaded && pets.length === 0 ? (
           <div className="rounded-xl border border-gray-200 bg-white p-8 text-center dark:border-gray-700 dark:bg-gray-800">
             <div className="text-5xl mb-4">🐾</div>
             <p className="text-gray-500 dark:text-gray-400 mb-4">
@@ -177,55 +298,45 @@ export default function QrPetIdPage() {
               </h2>
               <select
                 value={selectedPetId}
-                onChange={(e) => {
-                  setSelectedPetId(e.target.value);
-                  setQrGenerated(false);
-                }}
+                onChange={(e) => setSelectedPetId(e.target.value)}
                 className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
               >
                 {pets.map((pet) => (
                   <option key={pet.id} value={pet.id}>
-                    {pet.species === "dog" ? "🐕" : "🐈"} {pet.name} - {pet.breed}
+                    {getSpeciesEmoji(pet.species)} {pet.name} - {pet.breed}
                   </option>
                 ))}
               </select>
             </section>
 
-            {/* Owner Info */}
+            {/* Finder Page Info */}
             <section className="rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
-              <h2 className="font-semibold text-gray-800 mb-3 dark:text-gray-100">
-                {t.qrPetId.ownerInfo}
-              </h2>
               <div className="space-y-3">
                 <div>
                   <label className="block text-sm text-gray-600 mb-1 dark:text-gray-400">
-                    {t.qrPetId.ownerName} *
-                  </label>
-                  <input
-                    type="text"
-                    value={ownerName}
-                    onChange={(e) => {
-                      setOwnerName(e.target.value);
-                      setQrGenerated(false);
-                    }}
-                    className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
-                    placeholder="홍길동"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm text-gray-600 mb-1 dark:text-gray-400">
-                    {t.qrPetId.ownerPhone} *
+                    {t.qrPetId.photo}
                   </label>
-                  <input
-                    type="tel"
-                    value={ownerPhone}
-                    onChange={(e) => {
-                      setOwnerPhone(e.target.value);
-                      setQrGenerated(false);
-                    }}
-                    className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
-                    placeholder="010-1234-5678"
-                  />
+                  {photo ? (
+                    <div className="flex items-center gap-3">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={photo} alt={selectedPet?.name || ""} className="h-24 w-24 rounded-lg object-cover" />
+                      <button
+                        onClick={() => setPhoto(null)}
+                        className="text-sm text-red-500 hover:text-red-600"
+                      >
+                        {t.qrPetId.removePhoto}
+                      </button>
+                    </div>
+                  ) : (
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      onChange={handlePhotoChange}
+                      className="w-full text-sm text-gray-600 dark:text-gray-400"
+                    />
+                  )}
+                  <p className="mt-1 text-xs text-gray-400">{t.qrPetId.photoHint}</p>
                 </div>
                 <div>
                   <label className="block text-sm text-gray-600 mb-1 dark:text-gray-400">
@@ -233,11 +344,9 @@ export default function QrPetIdPage() {
                   </label>
                   <textarea
                     value={emergencyNote}
-                    onChange={(e) => {
-                      setEmergencyNote(e.target.value);
-                      setQrGenerated(false);
-                    }}
+                    onChange={(e) => setEmergencyNote(e.target.value)}
                     rows={2}
+                    maxLength={500}
                     className="w-full rounded-lg border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
                     placeholder="예: 심장병 약 복용 중, 낯선 사람 경계"
                   />
@@ -245,11 +354,22 @@ export default function QrPetIdPage() {
               </div>
             </section>
 
+            {error && (
+              <p className="rounded-lg bg-red-50 p-3 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+                {error}
+              </p>
+            )}
+            {notice && (
+              <p className="rounded-lg bg-green-50 p-3 text-sm text-green-700 dark:bg-green-900/20 dark:text-green-400">
+                {notice}
+              </p>
+            )}
+
             {/* Generate Button */}
-            {!qrGenerated && (
+            {!activeTag && (
               <button
                 onClick={handleGenerate}
-                disabled={!isValid}
+                disabled={!selectedPet || isSaving}
                 className="w-full rounded-xl bg-blue-500 py-4 font-semibold text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {t.qrPetId.generate}
@@ -257,44 +377,100 @@ export default function QrPetIdPage() {
             )}
 
             {/* QR Code Preview */}
-            {qrGenerated && qrUrl && (
+            {activeTag && selectedPet && tagUrl && (
               <section className="rounded-xl border border-blue-200 bg-blue-50 p-4 dark:border-blue-700 dark:bg-blue-900/20">
                 <h2 className="font-semibold text-blue-800 mb-4 text-center dark:text-blue-200">
                   {t.qrPetId.preview}
                 </h2>
-                <div ref={qrRef} className="flex flex-col items-center">
-                  <div className="rounded-xl bg-white p-4 shadow-lg">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={qrUrl}
-                      alt="QR Code"
-                      className="w-48 h-48"
+                <PetTagQrCode
+                  url={tagUrl}
+                  petName={selectedPet.name}
+                  species={selectedPet.species}
+                  breed={selectedPet.breed}
+                />
+
+                <div className="mt-4">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{t.qrPetId.tagLink}</p>
+                  <div className="mt-1 flex gap-2">
+                    <input
+                      readOnly
+                      value={tagUrl}
+                      className="min-w-0 flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs text-gray-600 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300"
                     />
-                    <div className="mt-3 text-center">
-                      <p className="font-bold text-gray-800">
-                        {selectedPet?.species === "dog" ? "🐕" : "🐈"} {selectedPet?.name}
-                      </p>
-                      <p className="text-sm text-gray-500">{selectedPet?.breed}</p>
-                      <p className="text-xs text-gray-400 mt-1">PetChecky</p>
-                    </div>
+                    <button
+                      onClick={handleCopyLink}
+                      className="rounded-lg bg-gray-200 px-3 py-2 text-sm text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200"
+                    >
+                      {t.qrPetId.copyLink}
+                    </button>
                   </div>
                 </div>
 
-                {/* Action Buttons */}
-                <div className="flex gap-3 mt-4">
+                <div className="mt-4 flex flex-wrap gap-2">
                   <button
-                    onClick={handleDownload}
-                    className="flex-1 rounded-lg bg-green-500 py-3 font-medium text-white hover:bg-green-600"
+                    onClick={handleSave}
+                    disabled={!isDirty || isSaving}
+                    className="flex-1 rounded-lg bg-blue-500 py-2 text-sm font-medium text-white hover:bg-blue-600 disabled:opacity-50"
                   >
-                    📥 {t.qrPetId.download}
+                    {t.qrPetId.saveChanges}
                   </button>
                   <button
-                    onClick={handlePrint}
-                    className="flex-1 rounded-lg bg-purple-500 py-3 font-medium text-white hover:bg-purple-600"
+                    onClick={handleReissue}
+                    disabled={isSaving}
+                    className="flex-1 rounded-lg border border-gray-300 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700"
                   >
-                    🖨️ {t.qrPetId.print}
+                    {t.qrPetId.reissue}
+                  </button>
+                  <button
+                    onClick={handleRevoke}
+                    disabled={isSaving}
+                    className="flex-1 rounded-lg border border-red-300 py-2 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50 dark:border-red-700 dark:text-red-400 dark:hover:bg-red-900/20"
+                  >
+                    {t.qrPetId.revoke}
                   </button>
                 </div>
+
+                <button
+                  onClick={() => handleToggleActivity(activeTag.id)}
+                  className="mt-4 w-full text-sm text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {t.qrPetId.activity} {activityTagId === activeTag.id ? "▲" : "▼"}
+                </button>
+                {activityTagId === activeTag.id && activity && (
+                  <div className="mt-3 rounded-lg bg-white p-3 dark:bg-gray-800">
+                    <PetTagActivity activity={activity} />
+                  </div>
+                )}
+              </section>
+            )}
+
+            {/* Revoked Tags */}
+            {revokedTags.length > 0 && (
+              <section className="rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-700 dark:bg-gray-800">
+                <h2 className="font-semibold text-gray-800 mb-3 dark:text-gray-100">
+                  {t.qrPetId.revoked}
+                </h2>
+                <ul className="space-y-2">
+                  {revokedTags.map((tag) => (
+                    <li key={tag.id}>
+                      <button
+                        onClick={() => handleToggleActivity(tag.id)}
+                        className="flex w-full items-center justify-between text-sm text-gray-600 dark:text-gray-400"
+                      >
+                        <span>
+                          {new Date(tag.createdAt).toLocaleDateString()} ~{" "}
+                          {tag.revokedAt && new Date(tag.revokedAt).toLocaleDateString()}
+                        </span>
+                        <span>{activityTagId === tag.id ? "▲" : "▼"}</span>
+                      </button>
+                      {activityTagId === tag.id && activity && (
+                        <div className="mt-2">
+                          <PetTagActivity activity={activity} />
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
               </section>
             )}
 
@@ -3,30 +3,13 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { usePushNotification } from "@/contexts/PushNotificationContext";
-
-interface PetProfile {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-  breed: string;
-  age: number;
-  weight: number;
-}
-
-interface Reminder {
-  id: string;
-  petId: string;
-  petName: string;
-  type: "vaccination" | "medication" | "vet_visit" | "grooming" | "other";
-  title: string;
-  description?: string;
-  date: string;
-  time: string;
-  repeat: "none" | "daily" | "weekly" | "monthly" | "yearly";
-  enabled: boolean;
-  notified?: boolean;
-}
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { PetProfile } from "@/types/chat";
+import type { PetReminder as Reminder } from "@/types/petRecords";
+import { getSpeciesEmoji } from "@/lib/species";
 
 const REMINDER_TYPES = [
   { value: "vaccination", icon: "💉", labelKey: "vaccination" },
@@ -47,30 +30,25 @@ const REPEAT_OPTIONS = [
 export default function RemindersPage() {
   const { t } = useLanguage();
   const { isSupported, isSubscribed, enableNotifications } = usePushNotification();
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
+  const petIds = pets.map((p) => p.id).filter((id): id is string => !!id);
+  const { records: reminders, addRecord, updateRecord, deleteRecord } = usePetRecords(
+    "reminders",
+    petIds,
+    { userId: user?.id, getAccessToken }
+  );
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
-  const [reminders, setReminders] = useState<Reminder[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
   const [filter, setFilter] = useState<"all" | "upcoming" | "past">("all");
 
-  // Load pets and reminders
+  // 펫 목록 로드 후 첫 번째 펫 선택
   useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsed = JSON.parse(savedPets);
-      const petsArray = Array.isArray(parsed) ? parsed : [{ ...parsed, id: `local_${Date.now()}` }];
-      setPets(petsArray);
-      if (petsArray.length > 0) {
-        setSelectedPetId(petsArray[0].id);
-      }
+    if (petsLoaded && pets.length > 0) {
+      setSelectedPetId(pets[0].id || null);
     }
-
-    const savedReminders = localStorage.getItem("petchecky_reminders");
-    if (savedReminders) {
-      setReminders(JSON.parse(savedReminders));
-    }
-  }, []);
+  }, [petsLoaded, pets]);
 
   const getTypeLabel = (type: Reminder["type"]) => {
     const typeData = REMINDER_TYPES.find((rt) => rt.value === type);
@@ -78,7 +56,10 @@ export default function RemindersPage() {
   };
 
   // Check for due reminders
+  // 로그인 사용자는 /api/cron/reminders 가 탭이 닫혀 있어도 발송하므로 브라우저에서는 비로그인만 처리
   useEffect(() => {
+    if (user) return;
+
     const checkReminders = () => {
       const now = new Date();
       reminders.forEach((reminder) => {
@@ -96,11 +77,7 @@ export default function RemindersPage() {
             });
 
             // Mark as notified
-            const updated = reminders.map((r) =>
-              r.id === reminder.id ? { ...r, notified: true } : r
-            );
-            setReminders(updated);
-            localStorage.setItem("petchecky_reminders", JSON.stringify(updated));
+            updateRecord(reminder, { notified: true });
           }
         }
       });
@@ -110,47 +87,34 @@ export default function RemindersPage() {
     checkReminders();
 
     return () => clearInterval(interval);
-  }, [reminders, isSubscribed]);
+  }, [reminders, isSubscribed, user, updateRecord]);
 
   const getRepeatLabel = (repeat: Reminder["repeat"]) => {
     return t.reminders[repeat as keyof typeof t.reminders] || repeat;
   };
 
-  const handleSaveReminder = (reminder: Omit<Reminder, "id" | "notified">) => {
-    let updated: Reminder[];
-
-    if (editingReminder) {
-      updated = reminders.map((r) =>
-        r.id === editingReminder.id ? { ...reminder, id: editingReminder.id, notified: false } : r
-      );
+  const handleSaveReminder = async ({ petId, ...input }: Omit<Reminder, "id" | "notified">) => {
+    if (editingReminder && editingReminder.petId === petId) {
+      await updateRecord(editingReminder, { ...input, notified: false });
     } else {
-      const newReminder: Reminder = {
-        ...reminder,
-        id: Date.now().toString(),
-        notified: false,
-      };
-      updated = [...reminders, newReminder];
+      // 다른 펫으로 옮기는 경우 새 기록으로 저장
+      if (editingReminder) {
+        await deleteRecord(editingReminder);
+      }
+      await addRecord(petId, { ...input, notified: false });
     }
 
-    setReminders(updated);
-    localStorage.setItem("petchecky_reminders", JSON.stringify(updated));
     setShowModal(false);
     setEditingReminder(null);
   };
 
-  const handleDeleteReminder = (id: string) => {
+  const handleDeleteReminder = (reminder: Reminder) => {
     if (!confirm(t.common.confirm + "?")) return;
-    const updated = reminders.filter((r) => r.id !== id);
-    setReminders(updated);
-    localStorage.setItem("petchecky_reminders", JSON.stringify(updated));
+    deleteRecord(reminder);
   };
 
-  const handleToggleReminder = (id: string) => {
-    const updated = reminders.map((r) =>
-      r.id === id ? { ...r, enabled: !r.enabled, notified: false } : r
-    );
-    setReminders(updated);
-    localStorage.setItem("petchecky_reminders", JSON.stringify(updated));
+  const handleToggleReminder = (reminder: Reminder) => {
+    updateRecord(reminder, { enabled: !reminder.enabled, notified: false });
   };
 
   const getFilteredReminders = () => {
@@ -225,14 +189,14 @@ export default function RemindersPage() {
             {pets.map((pet) => (
               <button
                 key={pet.id}
-                onClick={() => setSelectedPetId(pet.id)}
+                onClick={() => setSelectedPetId(pet.id || null)}
                 className={`flex items-center gap-1 whitespace-nowrap rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
                   selectedPetId === pet.id
                     ? "bg-blue-500 text-white"
                     : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -331,7 +295,7 @@ export default function RemindersPage() {
                     <div className="flex items-center gap-2">
                       {/* Toggle */}
                       <button
-                        onClick={() => handleToggleReminder(reminder.id)}
+                        onClick={() => handleToggleReminder(reminder)}
                         className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
                           reminder.enabled ? "bg-blue-500" : "bg-gray-300 dark:bg-gray-600"
                         }`}
@@ -358,7 +322,7 @@ export default function RemindersPage() {
 
                       {/* Delete */}
                       <button
-                        onClick={() => handleDeleteReminder(reminder.id)}
+                        onClick={() => handleDeleteReminder(reminder)}
                         className="rounded p-1 text-gray-400 hover:bg-red-100 hover:text-red-600 dark:hover:bg-red-900/30"
                       >
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -455,7 +419,7 @@ function ReminderModal({
             >
               {pets.map((pet) => (
                 <option key={pet.id} value={pet.id}>
-                  {pet.species === "dog" ? "🐕" : "🐈"} {pet.name}
+                  {getSpeciesEmoji(pet.species)} {pet.name}
                 </option>
               ))}
             </select>
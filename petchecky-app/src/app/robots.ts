@@ -22,6 +22,7 @@ export default function robots(): MetadataRoute.Robots {
           "/subscription/fail",
           "/messages",
           "/reminders",
+          "/found/", // 인식표 발견자 페이지
           "/*.json$",
           "/*?*", // 쿼리 파라미터 포함 URL 차단
         ],
@@ -35,6 +36,7 @@ export default function robots(): MetadataRoute.Robots {
           "/settings/",
           "/subscription/success",
           "/subscription/fail",
+          "/found/",
         ],
       },
       {
@@ -44,6 +46,7 @@ export default function robots(): MetadataRoute.Robots {
           "/api/",
           "/auth/",
           "/settings/",
+          "/found/",
         ],
       },
       // 악성 봇 차단
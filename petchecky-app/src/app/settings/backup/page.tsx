@@ -1,27 +1,33 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { STORAGE_KEYS } from "@/hooks/useLocalStorage";
+import {
+  BACKUP_DOMAIN_NAMES,
+  BackupDecryptionError,
+  BackupFormatError,
+  applyRestorePlan,
+  clearLocalData,
+  collectLocalData,
+  countItems,
+  createBackup,
+  isEncryptedBackup,
+  planRestore,
+  readBackup,
+  type BackupDomain,
+  type LocalData,
+  type ParsedBackup,
+  type RestoreMode,
+  type RestoreModes,
+} from "@/lib/backup";
+import type { TranslationKeys } from "@/locales/ko";
 
-interface BackupData {
-  version: string;
-  exportDate: string;
-  pets: unknown[];
-  reminders: unknown[];
-  chatHistory: unknown[];
-  vaccination: unknown[];
-  healthRecords: unknown[];
-  walkRecords: unknown[];
-  dietLogs: unknown[];
-  gallery: unknown[];
-}
-
-const STORAGE_KEYS = [
-  "petchecky_pets",
+// 데이터 영역 외에 함께 지우는 키 (사용량, 설정, 레거시 키)
+const EXTRA_STORAGE_KEYS = [
   "petchecky_reminders",
-  "petchecky_chat_history",
   "petchecky_vaccination",
   "petchecky_health_records",
   "petchecky_walk_records",
@@ -29,35 +35,63 @@ const STORAGE_KEYS = [
   "petchecky_gallery",
   "petchecky_usage",
   "petchecky_settings",
+  STORAGE_KEYS.ACTIVE_WALK,
+  STORAGE_KEYS.WALK_GOALS,
 ];
 
+const DOMAIN_LABELS: Record<BackupDomain, keyof TranslationKeys["backup"]> = {
+  pets: "pets",
+  chatHistory: "chatHistory",
+  medications: "medications",
+  "vet-records": "vetRecords",
+  walks: "walkRecords",
+  "diet-logs": "dietLogs",
+  vaccinations: "vaccination",
+  "insurance-claims": "insuranceClaims",
+  reminders: "reminders",
+  healthTracking: "healthRecords",
+  allergies: "allergies",
+  dietaryRestrictions: "dietaryRestrictions",
+  expenses: "expenses",
+  budgets: "budgets",
+  trainingCommands: "trainingCommands",
+  behaviorIssues: "behaviorIssues",
+  insuranceEnrollments: "insuranceEnrollments",
+  galleryPhotos: "gallery",
+  galleryAlbums: "galleryAlbums",
+};
+
+const RESTORE_MODES: RestoreMode[] = ["merge", "replace", "skip"];
+
 export default function BackupPage() {
   const { t } = useLanguage();
   const { user } = useAuth();
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  // 비밀번호 입력을 기다리는 암호화된 백업 파일 내용
+  const [lockedFile, setLockedFile] = useState<string | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [pending, setPending] = useState<ParsedBackup | null>(null);
+  const [modes, setModes] = useState<RestoreModes>({});
+  // 현재 저장된 데이터 (복원/삭제 후 다시 읽음)
+  const [localData, setLocalData] = useState<LocalData | null>(() =>
+    typeof window === "undefined" ? null : collectLocalData()
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const label = (domain: BackupDomain) => t.backup[DOMAIN_LABELS[domain]];
+
   const handleExport = async () => {
     setIsExporting(true);
     setMessage(null);
 
     try {
-      const backupData: BackupData = {
-        version: "1.0",
-        exportDate: new Date().toISOString(),
-        pets: JSON.parse(localStorage.getItem("petchecky_pets") || "[]"),
-        reminders: JSON.parse(localStorage.getItem("petchecky_reminders") || "[]"),
-        chatHistory: JSON.parse(localStorage.getItem("petchecky_chat_history") || "[]"),
-        vaccination: JSON.parse(localStorage.getItem("petchecky_vaccination") || "[]"),
-        healthRecords: JSON.parse(localStorage.getItem("petchecky_health_records") || "[]"),
-        walkRecords: JSON.parse(localStorage.getItem("petchecky_walk_records") || "[]"),
-        dietLogs: JSON.parse(localStorage.getItem("petchecky_diet_logs") || "[]"),
-        gallery: JSON.parse(localStorage.getItem("petchecky_gallery") || "[]"),
-      };
-
-      const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: "application/json" });
+      const content = await createBackup(collectLocalData(), encryptExport ? exportPassphrase : undefined);
+
+      const blob = new Blob([content], { type: "application/json" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -75,101 +109,94 @@ export default function BackupPage() {
     }
   };
 
-  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const resetImport = () => {
+    setLockedFile(null);
+    setImportPassphrase("");
+    setPending(null);
+    setModes({});
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
 
+  const openBackup = async (text: string, passphrase?: string) => {
     setIsImporting(true);
     setMessage(null);
 
     try {
-      const text = await file.text();
-      const data: BackupData = JSON.parse(text);
-
-      // Validate backup data
-      if (!data.version || !data.exportDate) {
-        throw new Error("Invalid backup file");
-      }
-
-      // Restore data
-      if (data.pets && Array.isArray(data.pets)) {
-        localStorage.setItem("petchecky_pets", JSON.stringify(data.pets));
-      }
-      if (data.reminders && Array.isArray(data.reminders)) {
-        localStorage.setItem("petchecky_reminders", JSON.stringify(data.reminders));
-      }
-      if (data.chatHistory && Array.isArray(data.chatHistory)) {
-        localStorage.setItem("petchecky_chat_history", JSON.stringify(data.chatHistory));
-      }
-      if (data.vaccination && Array.isArray(data.vaccination)) {
-        localStorage.setItem("petchecky_vaccination", JSON.stringify(data.vaccination));
-      }
-      if (data.healthRecords && Array.isArray(data.healthRecords)) {
-        localStorage.setItem("petchecky_health_records", JSON.stringify(data.healthRecords));
-      }
-      if (data.walkRecords && Array.isArray(data.walkRecords)) {
-        localStorage.setItem("petchecky_walk_records", JSON.stringify(data.walkRecords));
-      }
-      if (data.dietLogs && Array.isArray(data.dietLogs)) {
-        localStorage.setItem("petchecky_diet_logs", JSON.stringify(data.dietLogs));
-      }
-      if (data.gallery && Array.isArray(data.gallery)) {
-        localStorage.setItem("petchecky_gallery", JSON.stringify(data.gallery));
-      }
+      const backup = await readBackup(text, passphrase);
+      setLockedFile(null);
+      setImportPassphrase("");
+      setPending(backup);
+      setModes({});
+    } catch (error) {
+      const text =
+        error instanceof BackupDecryptionError
+          ? t.backup.wrongPassphrase
+          : error instanceof BackupFormatError && error.reason === "newerVersion"
+          ? t.backup.newerVersion
+          : t.backup.importError;
+      setMessage({ type: "error", text });
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-      setMessage({ type: "success", text: t.backup.importSuccess });
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    resetImport();
+    const text = await file.text();
+    if (isEncryptedBackup(text)) {
+      setLockedFile(text);
+      return;
+    }
+    await openBackup(text);
+  };
 
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
+  // 복원 미리보기 (dry-run)
+  const plan = useMemo(
+    () => (pending && localData ? planRestore(localData, pending.data, modes) : null),
+    [pending, modes, localData]
+  );
+
+  const previewDomains = plan
+    ? BACKUP_DOMAIN_NAMES.filter((domain) => pending!.data[domain].length > 0 || pending!.rejected[domain])
+    : [];
+  const hasChanges = previewDomains.some((domain) => {
+    const { mode, added, updated, removed } = plan![domain];
+    return mode !== "skip" && added + updated + removed > 0;
+  });
+
+  const handleRestore = () => {
+    if (!plan) return;
+
+    try {
+      applyRestorePlan(plan);
+      setMessage({ type: "success", text: t.backup.importSuccess });
+      resetImport();
     } catch {
       setMessage({ type: "error", text: t.backup.importError });
     } finally {
-      setIsImporting(false);
+      setLocalData(collectLocalData());
     }
   };
 
   const handleClearData = () => {
     if (!confirm(t.backup.clearConfirm)) return;
 
-    STORAGE_KEYS.forEach((key) => {
+    clearLocalData();
+    EXTRA_STORAGE_KEYS.forEach((key) => {
       localStorage.removeItem(key);
     });
 
+    setLocalData(collectLocalData());
     setMessage({ type: "success", text: t.backup.clearSuccess });
   };
 
-  const getDataStats = () => {
-    const stats = {
-      pets: 0,
-      reminders: 0,
-      chatHistory: 0,
-      vaccination: 0,
-      healthRecords: 0,
-      walkRecords: 0,
-      dietLogs: 0,
-      gallery: 0,
-    };
-
-    try {
-      stats.pets = JSON.parse(localStorage.getItem("petchecky_pets") || "[]").length;
-      stats.reminders = JSON.parse(localStorage.getItem("petchecky_reminders") || "[]").length;
-      stats.chatHistory = JSON.parse(localStorage.getItem("petchecky_chat_history") || "[]").length;
-      stats.vaccination = JSON.parse(localStorage.getItem("petchecky_vaccination") || "[]").length;
-      stats.healthRecords = JSON.parse(localStorage.getItem("petchecky_health_records") || "[]").length;
-      stats.walkRecords = JSON.parse(localStorage.getItem("petchecky_walk_records") || "[]").length;
-      stats.dietLogs = JSON.parse(localStorage.getItem("petchecky_diet_logs") || "[]").length;
-      stats.gallery = JSON.parse(localStorage.getItem("petchecky_gallery") || "[]").length;
-    } catch {
-      // Ignore parse errors
-    }
-
-    return stats;
-  };
-
-  const stats = getDataStats();
-  const totalItems = Object.values(stats).reduce((sum, count) => sum + count, 0);
+  const stats = useMemo(() => (localData ? countItems(localData) : null), [localData]);
+  const totalItems = stats ? Object.values(stats).reduce((sum, count) => sum + count, 0) : 0;
 
   return (
     <div className="flex min-h-screen flex-col bg-gray-50 dark:bg-gray-900">
@@ -209,38 +236,12 @@ export default function BackupPage() {
             {t.backup.currentData}
           </h2>
           <div className="grid grid-cols-2 gap-3 text-sm">
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.pets}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.pets}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.reminders}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.reminders}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.chatHistory}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.chatHistory}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.vaccination}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.vaccination}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.healthRecords}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.healthRecords}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.walkRecords}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.walkRecords}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.dietLogs}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.dietLogs}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">{t.backup.gallery}</span>
-              <span className="font-medium text-gray-800 dark:text-gray-200">{stats.gallery}</span>
-            </div>
+            {BACKUP_DOMAIN_NAMES.map((domain) => (
+              <div key={domain} className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">{label(domain)}</span>
+                <span className="font-medium text-gray-800 dark:text-gray-200">{stats?.[domain] ?? 0}</span>
+              </div>
+            ))}
           </div>
           <div className="mt-3 border-t border-gray-200 pt-3 dark:border-gray-700">
             <div className="flex justify-between font-medium">
@@ -283,9 +284,31 @@ export default function BackupPage() {
               </p>
             </div>
           </div>
+          <label className="mb-3 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={encryptExport}
+              onChange={(e) => setEncryptExport(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            {t.backup.encrypt}
+          </label>
+          {encryptExport && (
+            <div className="mb-3">
+              <input
+                type="password"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                placeholder={t.backup.passphrase}
+                autoComplete="new-password"
+                className="w-full rounded-xl border border-gray-200 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+              />
+              <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">{t.backup.passphraseHint}</p>
+            </div>
+          )}
           <button
             onClick={handleExport}
-            disabled={isExporting || totalItems === 0}
+            disabled={isExporting || totalItems === 0 || (encryptExport && !exportPassphrase)}
             className="w-full rounded-xl bg-blue-500 py-3 font-medium text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isExporting ? t.common.loading : t.backup.exportButton}
@@ -309,7 +332,7 @@ export default function BackupPage() {
             ref={fileInputRef}
             type="file"
             accept=".json"
-            onChange={handleImport}
+            onChange={handleFileSelect}
             className="hidden"
             id="backup-file-input"
           />
@@ -327,6 +350,102 @@ export default function BackupPage() {
               {t.backup.fileFormat}
             </p>
           </label>
+
+          {/* 암호화된 백업 비밀번호 */}
+          {lockedFile && (
+            <div className="mt-4">
+              <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">{t.backup.encryptedFile}</p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={importPassphrase}
+                  onChange={(e) => setImportPassphrase(e.target.value)}
+                  placeholder={t.backup.passphrase}
+                  autoComplete="current-password"
+                  className="flex-1 rounded-xl border border-gray-200 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                />
+                <button
+                  onClick={() => openBackup(lockedFile, importPassphrase)}
+                  disabled={isImporting || !importPassphrase}
+                  className="rounded-xl bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t.backup.unlock}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* 복원 미리보기 */}
+          {pending && plan && (
+            <div className="mt-4 rounded-xl border border-gray-200 p-4 dark:border-gray-700">
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-semibold text-gray-800 dark:text-gray-100">{t.backup.preview}</h3>
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  {t.backup.backupDate}: {new Date(pending.exportedAt).toLocaleString()}
+                </span>
+              </div>
+              <ul className="space-y-3">
+                {previewDomains.map((domain) => {
+                  const { mode, added, updated, removed, unchanged } = plan[domain];
+                  const rejected = pending.rejected[domain];
+                  return (
+                    <li key={domain} className="text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-gray-700 dark:text-gray-300">{label(domain)}</span>
+                        <select
+                          value={mode}
+                          onChange={(e) => setModes((prev) => ({ ...prev, [domain]: e.target.value as RestoreMode }))}
+                          className="rounded-lg border border-gray-200 px-2 py-1 text-xs dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100"
+                          aria-label={label(domain)}
+                        >
+                          {RESTORE_MODES.map((option) => (
+                            <option key={option} value={option}>
+                              {option === "merge"
+                                ? t.backup.modeMerge
+                                : option === "replace"
+                                ? t.backup.modeReplace
+                                : t.backup.modeSkip}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {mode !== "skip" && (
+                        <p className="mt-1 flex flex-wrap gap-x-3 text-xs">
+                          <span className="text-green-600 dark:text-green-400">{t.backup.added.replace("{count}", String(added))}</span>
+                          <span className="text-blue-600 dark:text-blue-400">{t.backup.updated.replace("{count}", String(updated))}</span>
+                          {removed > 0 && (
+                            <span className="text-red-600 dark:text-red-400">{t.backup.removed.replace("{count}", String(removed))}</span>
+                          )}
+                          <span className="text-gray-400">{t.backup.unchanged.replace("{count}", String(unchanged))}</span>
+                        </p>
+                      )}
+                      {rejected && (
+                        <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+                          {t.backup.rejected.replace("{count}", String(rejected))}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+              {user && <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">{t.backup.cloudNote}</p>}
+              <div className="mt-4 flex gap-2">
+                <button
+                  onClick={resetImport}
+                  className="flex-1 rounded-xl border border-gray-200 py-3 font-medium text-gray-600 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700"
+                >
+                  {t.common.cancel}
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={!hasChanges}
+                  className="flex-1 rounded-xl bg-blue-500 py-3 font-medium text-white hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {hasChanges ? t.backup.restoreButton : t.backup.noChanges}
+                </button>
+              </div>
+            </div>
+          )}
         </section>
 
         {/* Warning Section */}
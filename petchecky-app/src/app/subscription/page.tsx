@@ -7,29 +7,48 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useSubscription } from "@/contexts/SubscriptionContext";
 import PricingPlans from "@/components/subscription/PricingPlans";
 import SubscriptionStatus from "@/components/subscription/SubscriptionStatus";
-import { Plan } from "@/types/subscription";
+import { Plan, PlanChangeQuote } from "@/types/subscription";
 
 // 모달 동적 임포트 (결제 관련 번들 분리)
 const BillingModal = dynamic(() => import("@/components/subscription/BillingModal"), {
   loading: () => null,
 });
 
+const PlanChangeModal = dynamic(() => import("@/components/subscription/PlanChangeModal"), {
+  loading: () => null,
+});
+
 export default function SubscriptionPage() {
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
-  const { isPremium, refreshSubscription } = useSubscription();
+  const { subscription, isPremium, refreshSubscription } = useSubscription();
   const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
+  const [changingPlan, setChangingPlan] = useState<Plan | null>(null);
 
   const handleSelectPlan = (plan: Plan) => {
     if (!user) {
       router.push("/login?redirect=/subscription");
       return;
     }
-    if (plan.id !== "free") {
+    if (plan.id === "free") return;
+
+    // 구독 중이면 등록된 카드로 플랜만 변경 (결제 실패 중이면 새 카드 등록)
+    if (isPremium && subscription?.status !== "payment_failed") {
+      setChangingPlan(plan);
+    } else {
       setSelectedPlan(plan);
     }
   };
 
+  const handlePlanChanged = (quote: PlanChangeQuote) => {
+    setChangingPlan(null);
+    alert(
+      quote.direction === "upgrade"
+        ? "플랜이 변경되었습니다!"
+        : "다음 결제일부터 플랜이 변경됩니다."
+    );
+  };
+
   const handlePaymentSuccess = async () => {
     setSelectedPlan(null);
     await refreshSubscription();
@@ -84,6 +103,15 @@ export default function SubscriptionPage() {
                 기간 종료 후 자동으로 무료 플랜으로 전환됩니다.
               </p>
             </div>
+            <div className="bg-white rounded-xl p-5 shadow-sm">
+              <h3 className="font-semibold text-gray-900 mb-2">
+                구독 중에 플랜을 바꿀 수 있나요?
+              </h3>
+              <p className="text-gray-600 text-sm">
+                프리미엄+로 업그레이드하면 남은 기간의 요금 차액만 결제하고 바로 이용할 수 있습니다.
+                프리미엄으로 다운그레이드하면 현재 결제 기간이 끝난 뒤 다음 결제일부터 적용됩니다.
+              </p>
+            </div>
             <div className="bg-white rounded-xl p-5 shadow-sm">
               <h3 className="font-semibold text-gray-900 mb-2">
                 결제는 어떻게 진행되나요?
@@ -124,6 +152,16 @@ export default function SubscriptionPage() {
           onSuccess={handlePaymentSuccess}
         />
       )}
+
+      {/* 플랜 변경 모달 */}
+      {changingPlan && (
+        <PlanChangeModal
+          key={changingPlan.id}
+          plan={changingPlan}
+          onClose={() => setChangingPlan(null)}
+          onSuccess={handlePlanChanged}
+        />
+      )}
     </div>
   );
 }
@@ -66,7 +66,7 @@ function SuccessContent() {
         await refreshSubscription();
 
         setStatus("success");
-        setMessage("구독이 시작되었습니다!");
+        setMessage(data.message || "구독이 시작되었습니다!");
       } catch (err) {
         console.error("Payment confirmation error:", err);
         setStatus("error");
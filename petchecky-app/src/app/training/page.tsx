@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { v4 as uuidv4 } from "uuid";
+import { getSpeciesData, getSpeciesEmoji, type PetSpecies } from "@/lib/species";
 
 interface TrainingCommand {
   id: string;
@@ -46,7 +47,7 @@ interface BehaviorLog {
 interface Pet {
   id: string;
   name: string;
-  species: "dog" | "cat";
+  species: PetSpecies;
 }
 
 const CATEGORIES: { value: TrainingCommand["category"]; label: string; icon: string; color: string }[] = [
@@ -56,7 +57,10 @@ const CATEGORIES: { value: TrainingCommand["category"]; label: string; icon: str
   { value: "behavior", label: "행동 교정", icon: "🧠", color: "orange" },
 ];
 
-const PRESET_COMMANDS = {
+type PresetCommands = Record<TrainingCommand["category"], string[]>;
+
+// 종별 추천 훈련 (준비되지 않은 종은 GENERIC_PRESET_COMMANDS 사용)
+const PRESET_COMMANDS: Partial<Record<PetSpecies, PresetCommands>> = {
   dog: {
     basic: ["앉아", "기다려", "엎드려", "이리와", "안돼"],
     advanced: ["옆으로 붙어", "뒤로 가", "빙글빙글", "가져와", "놔"],
@@ -69,6 +73,31 @@ const PRESET_COMMANDS = {
     trick: ["앉아서 기다려", "손 따라가기", "벨 울리기", "물건 가져오기", "링 통과"],
     behavior: ["할퀴지 않기", "물지 않기", "스크래처 사용", "야옹 자제", "발톱 깎기 허용"],
   },
+  rabbit: {
+    basic: ["이리와", "이름 반응", "케이지 들어가기", "안아 올리기 허용"],
+    advanced: ["타겟 터치", "점프", "하우스 들어가기"],
+    trick: ["빙글빙글", "일어서기", "하이파이브"],
+    behavior: ["배변 훈련", "전선 물지 않기", "땅파기 자제", "발 구르기 줄이기"],
+  },
+  ferret: {
+    basic: ["이리와", "이름 반응", "케이지 들어가기", "하네스 착용"],
+    advanced: ["타겟 터치", "기다려", "이동장 들어가기"],
+    trick: ["구르기", "일어서기", "링 통과"],
+    behavior: ["물지 않기", "배변 훈련", "물건 숨기기 자제", "발톱 깎기 허용"],
+  },
+  bird: {
+    basic: ["스텝업", "스텝다운", "이리와", "케이지 들어가기"],
+    advanced: ["타겟 터치", "리콜 비행", "하네스 착용"],
+    trick: ["손 흔들기", "말 따라하기", "빙글빙글", "공 넣기"],
+    behavior: ["물지 않기", "소리 지르기 자제", "깃털 뽑기 예방", "손톱 깎기 허용"],
+  },
+};
+
+const GENERIC_PRESET_COMMANDS: PresetCommands = {
+  basic: ["손 냄새 익히기", "손 위로 올라오기", "이동장 들어가기"],
+  advanced: ["타겟 터치", "핸들링 적응"],
+  trick: ["간식 따라가기"],
+  behavior: ["물지 않기", "핸들링 스트레스 줄이기", "건강검진 자세 적응"],
 };
 
 export default function TrainingPage() {
@@ -130,7 +159,7 @@ export default function TrainingPage() {
   }, [behaviors]);
 
   const selectedPet = pets.find(p => p.id === selectedPetId);
-  const presets = selectedPet ? PRESET_COMMANDS[selectedPet.species] : PRESET_COMMANDS.dog;
+  const presets = getSpeciesData(PRESET_COMMANDS, selectedPet?.species ?? "dog", GENERIC_PRESET_COMMANDS);
 
   const handleAddCommand = (e: React.FormEvent) => {
     e.preventDefault();
@@ -267,7 +296,7 @@ export default function TrainingPage() {
                     : "bg-white border border-gray-200 text-gray-700 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
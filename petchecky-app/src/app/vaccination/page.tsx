@@ -1,126 +1,136 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/contexts/AuthContext";
 import VaccinationCard from "@/components/vaccination/VaccinationCard";
-import { PetProfile } from "@/app/page";
+import VaccineSchedulePanel from "@/components/vaccination/VaccineSchedulePanel";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { Vaccination } from "@/types/petRecords";
+import { getSpecies, getSpeciesEmoji, getSpeciesName, VACCINE_LIFESTYLES, type VaccineLifestyle } from "@/lib/species";
+import { buildVaccineSchedule, getDoseLabel, suggestNextDoseDate, type ScheduledDose } from "@/lib/vaccineSchedule";
+import { getTodayString } from "@/lib/dateUtils";
+
+const LIFESTYLE_LABELS: Record<VaccineLifestyle, string> = {
+  indoor: "🏠 실내 위주",
+  outdoor: "🌳 야외 활동",
+  social: "🐾 호텔·유치원·미용",
+};
 
 // 모달 동적 임포트
 const VaccinationModal = dynamic(() => import("@/components/vaccination/VaccinationModal"), {
   loading: () => null,
 });
 
-export interface Vaccination {
-  id: string;
-  petId: string;
-  name: string;
-  date: string; // 접종일
-  nextDate?: string; // 다음 접종 예정일
-  hospital?: string;
-  notes?: string;
-  completed: boolean;
-  type: "required" | "optional";
-}
-
-// 강아지 필수/권장 백신
-const DOG_VACCINES = [
-  { name: "종합백신 (DHPPL)", type: "required", interval: 365 },
-  { name: "광견병", type: "required", interval: 365 },
-  { name: "코로나 장염", type: "optional", interval: 365 },
-  { name: "켄넬코프", type: "optional", interval: 365 },
-  { name: "인플루엔자", type: "optional", interval: 365 },
-  { name: "심장사상충 예방", type: "required", interval: 30 },
-];
-
-// 고양이 필수/권장 백신
-const CAT_VACCINES = [
-  { name: "종합백신 (FVRCP)", type: "required", interval: 365 },
-  { name: "광견병", type: "required", interval: 365 },
-  { name: "백혈병 (FeLV)", type: "optional", interval: 365 },
-  { name: "전염성 복막염 (FIP)", type: "optional", interval: 365 },
-  { name: "심장사상충 예방", type: "required", interval: 30 },
-];
-
 export default function VaccinationPage() {
   const { t } = useLanguage();
-  const { user } = useAuth();
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded, savePet } = usePets({ userId: user?.id, authLoading, getAccessToken });
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
-  const [vaccinations, setVaccinations] = useState<Vaccination[]>([]);
+  const { records: vaccinations, addRecord, updateRecord, deleteRecord } = usePetRecords(
+    "vaccinations",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
+  const { records: reminders, addRecord: addReminder } = usePetRecords(
+    "reminders",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
   const [showModal, setShowModal] = useState(false);
   const [editingVaccination, setEditingVaccination] = useState<Vaccination | null>(null);
   const [filter, setFilter] = useState<"all" | "upcoming" | "overdue">("all");
 
   const selectedPet = pets.find((p) => p.id === selectedPetId);
-  const vaccineList = selectedPet?.species === "cat" ? CAT_VACCINES : DOG_VACCINES;
-
-  // 펫 목록 로드
-  useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsedPets = JSON.parse(savedPets);
-      setPets(parsedPets);
-      if (parsedPets.length > 0) {
-        setSelectedPetId(parsedPets[0].id);
-      }
-    }
-  }, []);
+  const vaccineList = getSpecies(selectedPet?.species).vaccines;
+  const today = getTodayString();
+
+  // 생년월일/생활 환경/접종 기록 기반 일정
+  const scheduleInput = useMemo(
+    () =>
+      selectedPet
+        ? {
+            species: selectedPet.species,
+            birthDate: selectedPet.birthDate,
+            age: selectedPet.age,
+            lifestyle: selectedPet.lifestyle,
+            vaccinations,
+            today,
+          }
+        : null,
+    [selectedPet, vaccinations, today]
+  );
+  const schedule = useMemo(() => (scheduleInput ? buildVaccineSchedule(scheduleInput) : null), [scheduleInput]);
+
+  // 일정에서 만든 리마인더 (같은 접종은 한 번만, 지난 접종은 오늘 알림)
+  const getReminderTitle = (dose: ScheduledDose) => `${dose.name} ${getDoseLabel(dose)}`;
+  const getReminderDate = (dose: ScheduledDose) => (dose.dueDate < today ? today : dose.dueDate);
+  const remindedKeys = useMemo(
+    () => new Set(reminders.filter((r) => r.type === "vaccination").map((r) => `${r.title}|${r.date}`)),
+    [reminders]
+  );
+  const isReminded = (dose: ScheduledDose) => remindedKeys.has(`${getReminderTitle(dose)}|${getReminderDate(dose)}`);
+
+  // 기록 모달의 다음 접종일 자동 계산 (수정 중인 기록은 빼고 계산)
+  const suggestNextDate = useCallback(
+    (record: Pick<Vaccination, "name" | "date" | "titerResult">) => {
+      if (!scheduleInput) return null;
+      const others = scheduleInput.vaccinations.filter((v) => v.id !== editingVaccination?.id);
+      return suggestNextDoseDate({ ...scheduleInput, vaccinations: others }, record);
+    },
+    [scheduleInput, editingVaccination]
+  );
 
-  // 예방접종 기록 로드
+  // 펫 목록 로드 후 첫 번째 펫 선택
   useEffect(() => {
-    if (selectedPetId) {
-      const saved = localStorage.getItem(`petchecky_vaccinations_${selectedPetId}`);
-      if (saved) {
-        setVaccinations(JSON.parse(saved));
-      } else {
-        setVaccinations([]);
-      }
-    }
-  }, [selectedPetId]);
-
-  // 예방접종 기록 저장
-  const saveVaccinations = (newVaccinations: Vaccination[]) => {
-    if (selectedPetId) {
-      localStorage.setItem(
-        `petchecky_vaccinations_${selectedPetId}`,
-        JSON.stringify(newVaccinations)
-      );
-      setVaccinations(newVaccinations);
+    if (petsLoaded && pets.length > 0) {
+      setSelectedPetId(pets[0].id || null);
     }
-  };
+  }, [petsLoaded, pets]);
 
   // 예방접종 추가/수정
-  const handleSaveVaccination = (vaccination: Omit<Vaccination, "id" | "petId">) => {
+  const handleSaveVaccination = async (vaccination: Omit<Vaccination, "id" | "petId">) => {
     if (!selectedPetId) return;
 
     if (editingVaccination) {
       // 수정
-      const updated = vaccinations.map((v) =>
-        v.id === editingVaccination.id
-          ? { ...vaccination, id: v.id, petId: selectedPetId }
-          : v
-      );
-      saveVaccinations(updated);
+      await updateRecord(editingVaccination, vaccination);
     } else {
       // 추가
-      const newVaccination: Vaccination = {
-        ...vaccination,
-        id: Date.now().toString(),
-        petId: selectedPetId,
-      };
-      saveVaccinations([...vaccinations, newVaccination]);
+      await addRecord(selectedPetId, vaccination);
     }
     setShowModal(false);
     setEditingVaccination(null);
   };
 
+  // 생활 환경 변경 (선택 접종 대상이 달라짐)
+  const handleLifestyleChange = async (lifestyle: VaccineLifestyle) => {
+    if (!selectedPet?.id) return;
+    await savePet({ ...selectedPet, lifestyle }, selectedPet.id);
+  };
+
+  // 일정의 접종을 리마인더로 등록 (서버 리마인더 발송 대상이 됨)
+  const handleRemind = async (dose: ScheduledDose) => {
+    if (!selectedPet?.id) return;
+    await addReminder(selectedPet.id, {
+      petName: selectedPet.name,
+      type: "vaccination",
+      title: getReminderTitle(dose),
+      description: `접종 예정일 ${dose.dueDate}`,
+      date: getReminderDate(dose),
+      time: "09:00",
+      repeat: "none",
+      enabled: true,
+    });
+  };
+
   // 예방접종 삭제
-  const handleDeleteVaccination = (id: string) => {
+  const handleDeleteVaccination = (vaccination: Vaccination) => {
     if (confirm("이 예방접종 기록을 삭제하시겠습니까?")) {
-      saveVaccinations(vaccinations.filter((v) => v.id !== id));
+      deleteRecord(vaccination);
     }
   };
 
@@ -223,7 +233,7 @@ export default function VaccinationPage() {
                     : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -315,7 +325,7 @@ export default function VaccinationPage() {
                     setEditingVaccination(vaccination);
                     setShowModal(true);
                   }}
-                  onDelete={() => handleDeleteVaccination(vaccination.id)}
+                  onDelete={() => handleDeleteVaccination(vaccination)}
                 />
               ))}
           </div>
@@ -340,38 +350,37 @@ export default function VaccinationPage() {
           </div>
         )}
 
-        {/* 권장 백신 안내 */}
-        {selectedPet && vaccinations.length === 0 && (
+        {/* 접종 일정 */}
+        {selectedPet && schedule && (
           <div className="mt-6">
             <h2 className="text-lg font-bold text-gray-800 mb-3">
-              {selectedPet.species === "dog" ? "🐕" : "🐈"} {selectedPet.name}의 권장 예방접종
+              {getSpeciesEmoji(selectedPet.species)} {selectedPet.name}의 접종 일정
             </h2>
-            <div className="space-y-2">
-              {vaccineList.map((vaccine, index) => (
-                <div
-                  key={index}
-                  className="flex items-center justify-between rounded-xl bg-white border border-gray-200 p-4"
-                >
-                  <div className="flex items-center gap-3">
-                    <span
-                      className={`rounded-full px-2 py-1 text-xs font-medium ${
-                        vaccine.type === "required"
-                          ? "bg-red-100 text-red-700"
-                          : "bg-gray-100 text-gray-600"
+            {vaccineList.length > 0 ? (
+              <>
+                <div className="mb-3 flex flex-wrap gap-2" role="group" aria-label="생활 환경">
+                  {VACCINE_LIFESTYLES.map((lifestyle) => (
+                    <button
+                      key={lifestyle}
+                      onClick={() => handleLifestyleChange(lifestyle)}
+                      aria-pressed={selectedPet.lifestyle === lifestyle}
+                      className={`rounded-full px-3 py-1.5 text-xs font-medium transition-colors ${
+                        selectedPet.lifestyle === lifestyle
+                          ? "bg-gray-800 text-white"
+                          : "bg-white text-gray-600 border border-gray-200 hover:bg-gray-50"
                       }`}
                     >
-                      {vaccine.type === "required" ? "필수" : "권장"}
-                    </span>
-                    <span className="font-medium text-gray-800">{vaccine.name}</span>
-                  </div>
-                  <span className="text-sm text-gray-500">
-                    {vaccine.interval >= 365
-                      ? `${Math.floor(vaccine.interval / 365)}년마다`
-                      : `${vaccine.interval}일마다`}
-                  </span>
+                      {LIFESTYLE_LABELS[lifestyle]}
+                    </button>
+                  ))}
                 </div>
-              ))}
-            </div>
+                <VaccineSchedulePanel schedule={schedule} isReminded={isReminded} onRemind={handleRemind} />
+              </>
+            ) : (
+              <p className="rounded-xl bg-white border border-gray-200 p-4 text-sm text-gray-600">
+                {getSpeciesName(selectedPet.species)}는 정기 예방접종이 없어요. 대신 연 1~2회 특수동물 병원에서 건강검진을 받아주세요.
+              </p>
+            )}
           </div>
         )}
       </main>
@@ -382,6 +391,7 @@ export default function VaccinationPage() {
           pet={selectedPet}
           vaccination={editingVaccination}
           vaccineList={vaccineList}
+          suggestNextDate={suggestNextDate}
           onSave={handleSaveVaccination}
           onClose={() => {
             setShowModal(false);
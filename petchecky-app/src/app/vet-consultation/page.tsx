@@ -5,10 +5,11 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSubscription } from "@/contexts/SubscriptionContext";
+import { getSpeciesName, PET_SPECIES, type PetSpecies } from "@/lib/species";
 
 interface ConsultationRequest {
   petName: string;
-  petSpecies: "dog" | "cat";
+  petSpecies: PetSpecies;
   petBreed: string;
   petAge: string;
   urgency: "normal" | "urgent";
@@ -269,8 +270,11 @@ export default function VetConsultationPage() {
                       onChange={handleChange}
                       className="w-full rounded-lg border border-gray-300 px-4 py-2.5 focus:border-blue-500 focus:outline-none"
                     >
-                      <option value="dog">강아지</option>
-                      <option value="cat">고양이</option>
+                      {PET_SPECIES.map((species) => (
+                        <option key={species} value={species}>
+                          {getSpeciesName(species)}
+                        </option>
+                      ))}
                     </select>
                   </div>
                 </div>
@@ -2,47 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { v4 as uuidv4 } from "uuid";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import type { VetRecord, Prescription, TestResult } from "@/types/petRecords";
+import { getSpeciesEmoji } from "@/lib/species";
 
-interface VetRecord {
-  id: string;
-  petId: string;
-  date: string;
-  hospitalName: string;
-  vetName?: string;
-  visitType: "checkup" | "vaccination" | "treatment" | "surgery" | "emergency" | "other";
-  diagnosis?: string;
-  symptoms?: string[];
-  treatment?: string;
-  prescriptions?: Prescription[];
-  testResults?: TestResult[];
-  nextVisitDate?: string;
-  cost?: number;
-  notes?: string;
-  attachments?: string[];
-  createdAt: string;
-}
-
-interface Prescription {
-  name: string;
-  dosage: string;
-  frequency: string;
-  duration: string;
-}
-
-interface TestResult {
-  testName: string;
-  result: string;
-  normalRange?: string;
-  status: "normal" | "abnormal" | "critical";
-}
-
-interface Pet {
-  id: string;
-  name: string;
-  species: "dog" | "cat";
-}
 
 const VISIT_TYPES = [
   { id: "checkup", icon: "🩺", label: "정기검진" },
@@ -56,9 +22,14 @@ const VISIT_TYPES = [
 export default function VetRecordsPage() {
   const router = useRouter();
   const { t } = useLanguage();
-  const [pets, setPets] = useState<Pet[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
   const [selectedPetId, setSelectedPetId] = useState<string>("");
-  const [records, setRecords] = useState<VetRecord[]>([]);
+  const { records, addRecord, deleteRecord } = usePetRecords(
+    "vet-records",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
   const [showAddModal, setShowAddModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState<VetRecord | null>(null);
   const [filterType, setFilterType] = useState<string>("all");
@@ -80,20 +51,10 @@ export default function VetRecordsPage() {
   const [testResults, setTestResults] = useState<TestResult[]>([]);
 
   useEffect(() => {
-    const storedPets = localStorage.getItem("pets");
-    if (storedPets) {
-      const parsedPets = JSON.parse(storedPets);
-      setPets(parsedPets);
-      if (parsedPets.length > 0) {
-        setSelectedPetId(parsedPets[0].id);
-      }
-    }
-
-    const storedRecords = localStorage.getItem("vetRecords");
-    if (storedRecords) {
-      setRecords(JSON.parse(storedRecords));
+    if (petsLoaded && pets.length > 0 && pets[0].id) {
+      setSelectedPetId(pets[0].id);
     }
-  }, []);
+  }, [petsLoaded, pets]);
 
   const petRecords = records.filter((r) => r.petId === selectedPetId);
   const filteredRecords = filterType === "all"
@@ -104,12 +65,10 @@ export default function VetRecordsPage() {
     return VISIT_TYPES.find((v) => v.id === type) || VISIT_TYPES[5];
   };
 
-  const handleAddRecord = () => {
+  const handleAddRecord = async () => {
     if (!newRecord.hospitalName || !newRecord.date || !selectedPetId) return;
 
-    const record: VetRecord = {
-      id: uuidv4(),
-      petId: selectedPetId,
+    const record = {
       date: newRecord.date,
       hospitalName: newRecord.hospitalName,
       vetName: newRecord.vetName || undefined,
@@ -125,9 +84,8 @@ export default function VetRecordsPage() {
       createdAt: new Date().toISOString(),
     };
 
-    const updatedRecords = [...records, record];
-    setRecords(updatedRecords);
-    localStorage.setItem("vetRecords", JSON.stringify(updatedRecords));
+    const created = await addRecord(selectedPetId, record);
+    if (!created) return;
 
     resetForm();
     setShowAddModal(false);
@@ -150,10 +108,8 @@ export default function VetRecordsPage() {
     setTestResults([]);
   };
 
-  const handleDeleteRecord = (id: string) => {
-    const updatedRecords = records.filter((r) => r.id !== id);
-    setRecords(updatedRecords);
-    localStorage.setItem("vetRecords", JSON.stringify(updatedRecords));
+  const handleDeleteRecord = async (record: VetRecord) => {
+    await deleteRecord(record);
     setShowDetailModal(null);
   };
 
@@ -234,14 +190,14 @@ export default function VetRecordsPage() {
             {pets.map((pet) => (
               <button
                 key={pet.id}
-                onClick={() => setSelectedPetId(pet.id)}
+                onClick={() => setSelectedPetId(pet.id || "")}
                 className={`flex items-center gap-2 whitespace-nowrap rounded-full px-4 py-2 text-sm font-medium transition-all ${
                   selectedPetId === pet.id
                     ? "bg-blue-500 text-white"
                     : "bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -855,7 +811,7 @@ export default function VetRecordsPage() {
 
             <div className="mt-6 flex gap-3">
               <button
-                onClick={() => handleDeleteRecord(showDetailModal.id)}
+                onClick={() => handleDeleteRecord(showDetailModal)}
                 className="flex-1 rounded-xl border border-red-200 py-3 font-medium text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/20"
               >
                 {t.common?.delete || "삭제"}
@@ -5,90 +5,109 @@ import dynamic from "next/dynamic";
 import Link from "next/link";
 import WalkStats from "@/components/walk/WalkStats";
 import WalkHistory from "@/components/walk/WalkHistory";
-import { PetProfile } from "@/app/page";
+import WalkTracker from "@/components/walk/WalkTracker";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePets } from "@/hooks/usePets";
+import { usePetRecords } from "@/hooks/usePetRecords";
+import { useLocalStorage, STORAGE_KEYS } from "@/hooks/useLocalStorage";
+import { useWalkTracker } from "@/hooks/useWalkTracker";
+import { buildTrackedWalkRecord, getWeeklyDistances } from "@/lib/walkTracking";
+import type { WalkRecord } from "@/types/petRecords";
+import { getSpeciesEmoji, type PetSpecies } from "@/lib/species";
+
+// 펫별 주간 거리 목표 (km)
+type WalkGoals = Record<string, number>;
+const EMPTY_GOALS: WalkGoals = {};
+// 주간 거리 그래프에 보여줄 주 수
+const WEEKLY_CHART_WEEKS = 4;
+
+// 종별 운동 팁 (산책하지 않는 종은 실내 활동 위주)
+const WALK_TIPS: Record<PetSpecies, string> = {
+  dog: "강아지는 하루 2회, 총 30분~1시간 산책을 권장해요",
+  cat: "고양이는 실내에서 놀이 시간을 충분히 가지세요",
+  rabbit: "토끼는 하루 3~4시간 안전한 공간에서 자유롭게 뛰어놀게 해주세요",
+  hamster: "햄스터는 충분히 큰 쳇바퀴로 밤 시간 운동량을 채워줘요",
+  ferret: "페럿은 하루 2시간 이상 케이지 밖 놀이 시간이 필요해요",
+  bird: "새는 안전한 실내에서 매일 비행 시간을 가지게 해주세요",
+  reptile: "파충류는 바깥 산책보다 사육장 온도와 UVB 관리가 중요해요",
+};
 
 // 모달 동적 임포트
 const WalkRecordModal = dynamic(() => import("@/components/walk/WalkRecordModal"), {
   loading: () => null,
 });
 
-export interface WalkRecord {
-  id: string;
-  petId: string;
-  date: string;
-  startTime: string;
-  endTime?: string;
-  duration: number; // 분 단위
-  distance?: number; // km 단위
-  location?: string;
-  weather?: "sunny" | "cloudy" | "rainy" | "snowy";
-  mood?: "happy" | "normal" | "tired";
-  notes?: string;
-}
-
 export default function WalkPage() {
-  const [pets, setPets] = useState<PetProfile[]>([]);
+  const { user, loading: authLoading, getAccessToken } = useAuth();
+  const { pets, isLoaded: petsLoaded } = usePets({ userId: user?.id, authLoading, getAccessToken });
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
-  const [records, setRecords] = useState<WalkRecord[]>([]);
+  const { records, addRecord, updateRecord, deleteRecord } = usePetRecords(
+    "walks",
+    selectedPetId ? [selectedPetId] : [],
+    { userId: user?.id, getAccessToken }
+  );
   const [showModal, setShowModal] = useState(false);
   const [editingRecord, setEditingRecord] = useState<WalkRecord | null>(null);
   const [dateRange, setDateRange] = useState<"week" | "month" | "all">("week");
+  const [goals, setGoals] = useLocalStorage<WalkGoals>(STORAGE_KEYS.WALK_GOALS, EMPTY_GOALS);
+  const tracker = useWalkTracker();
 
   const selectedPet = pets.find((p) => p.id === selectedPetId);
 
-  // 펫 목록 로드
+  // 펫 목록 로드 후 첫 번째 펫 선택 (산책 기록 중이면 그 펫)
   useEffect(() => {
-    const savedPets = localStorage.getItem("petchecky_pets");
-    if (savedPets) {
-      const parsedPets = JSON.parse(savedPets);
-      setPets(parsedPets);
-      if (parsedPets.length > 0) {
-        setSelectedPetId(parsedPets[0].id);
-      }
+    if (petsLoaded && pets.length > 0) {
+      setSelectedPetId((prev) => (prev && pets.some((p) => p.id === prev) ? prev : pets[0].id || null));
     }
-  }, []);
+  }, [petsLoaded, pets]);
 
-  // 산책 기록 로드
+  const trackedPetId = tracker.activeWalk?.petId;
+  const trackedPet = trackedPetId ? pets.find((p) => p.id === trackedPetId) : undefined;
   useEffect(() => {
-    if (selectedPetId) {
-      const saved = localStorage.getItem(`petchecky_walks_${selectedPetId}`);
-      if (saved) {
-        setRecords(JSON.parse(saved));
-      } else {
-        setRecords([]);
-      }
+    if (trackedPetId) {
+      setSelectedPetId(trackedPetId);
     }
-  }, [selectedPetId]);
-
-  // 산책 기록 저장
-  const saveRecords = (newRecords: WalkRecord[]) => {
-    if (selectedPetId) {
-      localStorage.setItem(
-        `petchecky_walks_${selectedPetId}`,
-        JSON.stringify(newRecords)
-      );
-      setRecords(newRecords);
+  }, [trackedPetId]);
+
+  // GPS 산책 종료: 바로 저장한 뒤 날씨/기분/메모를 입력하도록 수정 모달 열기
+  const handleFinishWalk = async () => {
+    const finished = tracker.finish();
+    if (!finished) return;
+
+    const saved = await addRecord(finished.walk.petId, buildTrackedWalkRecord(finished.walk, finished.endedAt));
+    if (saved) {
+      setEditingRecord(saved);
+      setShowModal(true);
+    }
+  };
+
+  const handleCancelWalk = () => {
+    if (confirm("진행 중인 산책 기록을 취소하시겠습니까? 기록된 경로는 저장되지 않습니다.")) {
+      tracker.cancel();
     }
   };
 
+  const handleGoalChange = (goal: number | null) => {
+    if (!selectedPetId) return;
+    setGoals((prev) => {
+      const next = { ...prev };
+      if (goal === null) {
+        delete next[selectedPetId];
+      } else {
+        next[selectedPetId] = goal;
+      }
+      return next;
+    });
+  };
+
   // 기록 추가/수정
-  const handleSaveRecord = (record: Omit<WalkRecord, "id" | "petId">) => {
+  const handleSaveRecord = async (record: Omit<WalkRecord, "id" | "petId">) => {
     if (!selectedPetId) return;
 
     if (editingRecord) {
-      const updated = records.map((r) =>
-        r.id === editingRecord.id
-          ? { ...record, id: r.id, petId: selectedPetId }
-          : r
-      );
-      saveRecords(updated);
+      await updateRecord(editingRecord, record);
     } else {
-      const newRecord: WalkRecord = {
-        ...record,
-        id: Date.now().toString(),
-        petId: selectedPetId,
-      };
-      saveRecords([...records, newRecord]);
+      await addRecord(selectedPetId, record);
     }
     setShowModal(false);
     setEditingRecord(null);
@@ -96,8 +115,9 @@ export default function WalkPage() {
 
   // 기록 삭제
   const handleDeleteRecord = (id: string) => {
-    if (confirm("이 산책 기록을 삭제하시겠습니까?")) {
-      saveRecords(records.filter((r) => r.id !== id));
+    const record = records.find((r) => r.id === id);
+    if (record && confirm("이 산책 기록을 삭제하시겠습니까?")) {
+      deleteRecord(record);
     }
   };
 
@@ -114,7 +134,7 @@ export default function WalkPage() {
         startDate.setMonth(now.getMonth() - 1);
         break;
       case "all":
-        return records.sort(
+        return [...records].sort(
           (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
         );
     }
@@ -153,6 +173,7 @@ export default function WalkPage() {
   };
 
   const stats = getStats();
+  const weeklyDistances = getWeeklyDistances(records, WEEKLY_CHART_WEEKS);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -170,21 +191,44 @@ export default function WalkPage() {
             </Link>
             <h1 className="text-lg font-bold text-gray-800">🚶 산책 기록</h1>
           </div>
-          <button
-            onClick={() => {
-              setEditingRecord(null);
-              setShowModal(true);
-            }}
-            className="rounded-full bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600"
-          >
-            + 산책 기록
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setEditingRecord(null);
+                setShowModal(true);
+              }}
+              className="rounded-full border border-green-500 px-4 py-2 text-sm font-medium text-green-600 hover:bg-green-50"
+            >
+              + 직접 기록
+            </button>
+            {!tracker.activeWalk && (
+              <button
+                onClick={() => selectedPetId && tracker.start(selectedPetId)}
+                disabled={!selectedPetId}
+                className="rounded-full bg-green-500 px-4 py-2 text-sm font-medium text-white hover:bg-green-600 disabled:opacity-50"
+              >
+                ▶ 산책 시작
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="mx-auto max-w-3xl p-4">
-        {/* 펫 선택 */}
-        {pets.length > 1 && (
+        {/* GPS 산책 기록 */}
+        {tracker.activeWalk && tracker.summary && (
+          <WalkTracker
+            walk={tracker.activeWalk}
+            summary={tracker.summary}
+            petName={trackedPet?.name}
+            error={tracker.error}
+            onFinish={handleFinishWalk}
+            onCancel={handleCancelWalk}
+          />
+        )}
+
+        {/* 펫 선택 (산책 기록 중에는 변경 불가) */}
+        {pets.length > 1 && !tracker.activeWalk && (
           <div className="mb-4 flex gap-2 overflow-x-auto pb-2">
             {pets.map((pet) => (
               <button
@@ -196,7 +240,7 @@ export default function WalkPage() {
                     : "bg-white text-gray-700 border border-gray-200 hover:bg-gray-50"
                 }`}
               >
-                <span>{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                <span>{getSpeciesEmoji(pet.species)}</span>
                 <span>{pet.name}</span>
               </button>
             ))}
@@ -204,7 +248,14 @@ export default function WalkPage() {
         )}
 
         {/* 통계 카드 */}
-        {stats && <WalkStats stats={stats} />}
+        {selectedPetId && (
+          <WalkStats
+            stats={stats}
+            weeklyDistances={weeklyDistances}
+            weeklyGoal={goals[selectedPetId] ?? null}
+            onGoalChange={handleGoalChange}
+          />
+        )}
 
         {/* 기간 선택 */}
         <div className="mb-4 flex gap-2">
@@ -257,7 +308,7 @@ export default function WalkPage() {
               🌿 {selectedPet.name}의 산책 팁
             </h3>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• {selectedPet.species === "dog" ? "강아지는 하루 2회, 총 30분~1시간 산책을 권장해요" : "고양이는 실내에서 놀이 시간을 충분히 가지세요"}</li>
+              <li>• {WALK_TIPS[selectedPet.species]}</li>
               <li>• 더운 날씨에는 아스팔트 온도를 확인하세요</li>
               <li>• 산책 후에는 발바닥을 깨끗이 닦아주세요</li>
             </ul>
@@ -0,0 +1,111 @@
+"use client";
+
+import { useId, useState } from "react";
+import { searchBreeds, findBreed, formatWeightRange, type BreedInfo } from "@/lib/breeds";
+import type { PetSpecies } from "@/lib/species";
+
+interface BreedAutocompleteProps {
+  species: PetSpecies;
+  value: string;
+  /** breedId는 카탈로그 품종을 고르거나 이름이 정확히 일치할 때만 채워짐 */
+  onChange: (breed: string, breedId?: string) => void;
+  required?: boolean;
+}
+
+/**
+ * 품종 자동완성 입력
+ * 카탈로그에 없는 품종도 그대로 입력할 수 있습니다.
+ */
+export default function BreedAutocomplete({ species, value, onChange, required }: BreedAutocompleteProps) {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = searchBreeds(value, species);
+
+  const select = (breed: BreedInfo) => {
+    onChange(breed.names.ko, breed.id);
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleInput = (text: string) => {
+    const next = text.slice(0, 50);
+    onChange(next, findBreed(next, species)?.id);
+    setOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((i) => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && open && activeIndex >= 0 && suggestions[activeIndex]) {
+      e.preventDefault();
+      select(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => handleInput(e.target.value)}
+        onFocus={() => setOpen(true)}
+        // 목록 클릭(onMouseDown)이 먼저 처리되도록 닫기를 늦춤
+        onBlur={() => setTimeout(() => setOpen(false), 100)}
+        onKeyDown={handleKeyDown}
+        placeholder="품종 검색 (예: 말티즈, 코숏)"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+        required={required}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-60 w-full overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {suggestions.map((breed, index) => (
+            <li
+              key={breed.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(breed);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex cursor-pointer items-center justify-between px-4 py-2 text-sm ${
+                index === activeIndex ? "bg-blue-50 text-blue-700" : "text-gray-700"
+              }`}
+            >
+              <span>
+                {breed.names.ko}
+                <span className="ml-2 text-xs text-gray-400">{breed.names.en}</span>
+              </span>
+              {breed.weight && (
+                <span className="text-xs text-gray-400">{formatWeightRange(breed.weight)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { ChatRecord } from "@/hooks/useChat";
 import { formatRelativeTime } from "@/lib/dateUtils";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface ChatHistoryProps {
   records: ChatRecord[];
@@ -63,7 +64,7 @@ export default function ChatHistory({ records, onSelect, onDelete, onBack }: Cha
                     aria-label={`${record.petName}의 상담 기록 보기: ${record.preview.substring(0, 30)}...`}
                   >
                     <div className="mb-2 flex items-center gap-2">
-                      <span className="text-lg">{record.petSpecies === "dog" ? "🐕" : "🐈"}</span>
+                      <span className="text-lg">{getSpeciesEmoji(record.petSpecies)}</span>
                       <span className="font-medium text-gray-800">{record.petName}</span>
                       {getSeverityBadge(record.severity)}
                       <span className="text-xs text-gray-400">{formatRelativeTime(record.date)}</span>
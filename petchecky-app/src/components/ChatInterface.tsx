@@ -4,11 +4,15 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSubscription } from "@/contexts/SubscriptionContext";
 import { FILE_LIMITS } from "@/lib/constants";
+import { chatService } from "@/lib/services/chatService";
+import { usePetHealthRecords } from "@/hooks/usePetHealthRecords";
+import { useLocalStorage, STORAGE_KEYS } from "@/hooks/useLocalStorage";
 import QuickSymptoms from "./QuickSymptoms";
 import HospitalRecommendation from "./hospital/HospitalRecommendation";
 import { MessageList, ChatForm, ChatHeader } from "./chat";
-import type { PetProfile, Message } from "@/types/chat";
+import type { PetProfile, Message, SharedHealthRecord } from "@/types/chat";
 import type { Severity } from "@/lib/constants";
+import type { Triage } from "@/lib/validations/triage";
 
 interface ChatInterfaceProps {
   petProfile: PetProfile;
@@ -43,6 +47,8 @@ export default function ChatInterface({
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [lastSeverity, setLastSeverity] = useState<Severity | undefined>();
+  const [lastTriage, setLastTriage] = useState<Triage | undefined>();
+  const [sharedRecords, setSharedRecords] = useState<SharedHealthRecord[] | undefined>();
   const [limitExceeded, setLimitExceeded] = useState(false);
   const [showHospitalRecommendation, setShowHospitalRecommendation] = useState(false);
   const [selectedImage, setSelectedImage] = useState<{
@@ -51,6 +57,21 @@ export default function ChatInterface({
     preview: string;
   } | null>(null);
 
+  // 건강 기록 사용 (opt-in, 저장된 펫만 가능)
+  const [shareHealthRecords, setShareHealthRecords] = useLocalStorage(
+    STORAGE_KEYS.CHAT_SHARE_HEALTH_RECORDS,
+    false
+  );
+  const { healthRecords } = usePetHealthRecords(petProfile.id, shareHealthRecords, {
+    userId,
+    getAccessToken,
+  });
+
+  const handleToggleShareHealthRecords = useCallback(() => {
+    setShareHealthRecords((prev) => !prev);
+    setSharedRecords(undefined);
+  }, [setShareHealthRecords]);
+
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -144,69 +165,81 @@ export default function ChatInterface({
     setSelectedImage(null);
     setIsLoading(true);
 
+    const assistantId = (Date.now() + 1).toString();
+
     try {
       const token = await getAccessToken();
-      const headers: HeadersInit = {
-        "Content-Type": "application/json",
+
+      // 토큰이 도착할 때마다 어시스턴트 메시지에 이어 붙임
+      const handleToken = (text: string) => {
+        setMessages((prev) => {
+          const existing = prev.find((m) => m.id === assistantId);
+          if (!existing) {
+            return [...prev, { id: assistantId, role: "assistant", content: text, isStreaming: true }];
+          }
+          return prev.map((m) =>
+            m.id === assistantId ? { ...m, content: m.content + text } : m
+          );
+        });
       };
-      if (token) {
-        headers["Authorization"] = `Bearer ${token}`;
-      }
 
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
+      const { status, streamed, data } = await chatService.streamMessage(
+        {
           message: userMessage.content,
           petProfile,
           history: messages.slice(-6),
           image: imageToSend
             ? { data: imageToSend.data, mimeType: imageToSend.mimeType }
             : undefined,
-        }),
-      });
-
-      const data = await response.json();
+          healthRecords: shareHealthRecords ? healthRecords ?? undefined : undefined,
+        },
+        token,
+        handleToken
+      );
+      const ok = status >= 200 && status < 300;
 
       // 사용량 초과 체크
-      if (response.status === 429 && data.limitExceeded) {
+      if (status === 429 && data.limitExceeded) {
         setLimitExceeded(true);
-        setMessages((prev) => [
-          ...prev,
-          {
-            id: (Date.now() + 1).toString(),
-            role: "assistant",
-            content: data.message,
-          },
-        ]);
-        return;
       }
 
-      // 응답 처리
-      const severity = response.ok ? data.severity : undefined;
+      // 응답 처리 - 스트리밍된 내용은 최종 정리된 메시지로 교체
+      const severity = ok && !data.limitExceeded ? data.severity : undefined;
+      const triage = severity ? data.triage : undefined;
       const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: assistantId,
         role: "assistant",
         content: data.message,
         severity,
+        triage,
       };
 
       if (severity) {
         setLastSeverity(severity);
+        setLastTriage(triage);
       }
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (ok && data.sharedRecords) {
+        setSharedRecords(data.sharedRecords);
+      }
+
+      setMessages((prev) =>
+        streamed && prev.some((m) => m.id === assistantId)
+          ? prev.map((m) => (m.id === assistantId ? assistantMessage : m))
+          : [...prev, assistantMessage]
+      );
 
       // 사용량 업데이트 콜백
-      if (response.ok && onUsageUpdate) {
+      if (ok && onUsageUpdate) {
         onUsageUpdate();
       }
     } catch (error) {
       console.error("Error:", error);
       setMessages((prev) => [
-        ...prev,
+        // 중간에 끊긴 스트리밍 메시지는 제거
+        ...prev.filter((m) => m.id !== assistantId),
         {
-          id: (Date.now() + 1).toString(),
+          id: assistantId,
           role: "assistant",
           content:
             "네트워크 연결을 확인해주세요. 인터넷이 연결되어 있다면 잠시 후 다시 시도해주세요.",
@@ -220,7 +253,13 @@ export default function ChatInterface({
   return (
     <div className="flex flex-1 flex-col">
       {/* Chat Header */}
-      <ChatHeader petProfile={petProfile} onBack={onBack} />
+      <ChatHeader
+        petProfile={petProfile}
+        onBack={onBack}
+        shareHealthRecords={shareHealthRecords}
+        onToggleShareHealthRecords={petProfile.id ? handleToggleShareHealthRecords : undefined}
+        sharedRecords={sharedRecords}
+      />
 
       {/* Quick Symptoms */}
       <QuickSymptoms onSelect={handleQuickSymptom} disabled={isLoading} />
@@ -228,7 +267,7 @@ export default function ChatInterface({
       {/* Message List */}
       <MessageList
         messages={messages}
-        isLoading={isLoading}
+        isLoading={isLoading && !messages.some((m) => m.isStreaming)}
         messagesEndRef={messagesEndRef}
         onFindHospital={() => setShowHospitalRecommendation(true)}
       />
@@ -254,6 +293,7 @@ export default function ChatInterface({
       {lastSeverity && (
         <HospitalRecommendation
           severity={lastSeverity}
+          triage={lastTriage}
           isVisible={showHospitalRecommendation}
           onClose={() => setShowHospitalRecommendation(false)}
           petName={petProfile.name}
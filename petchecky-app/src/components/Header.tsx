@@ -9,6 +9,7 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { MONTHLY_FREE_LIMIT } from "@/lib/supabase";
 import LanguageSelector from "./LanguageSelector";
 import ThemeToggle from "./ThemeToggle";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface HeaderProps {
   pets: PetProfile[];
@@ -95,7 +96,7 @@ export default function Header({
             >
               {selectedPet ? (
                 <>
-                  <span>{selectedPet.species === "dog" ? "🐕" : "🐈"}</span>
+                  <span>{getSpeciesEmoji(selectedPet.species)}</span>
                   <span>{selectedPet.name}</span>
                   {pets.length > 1 && (
                     <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -133,7 +134,7 @@ export default function Header({
                         className="flex items-center gap-2 flex-1"
                         aria-label={`${pet.name} 선택`}
                       >
-                        <span className="text-lg">{pet.species === "dog" ? "🐕" : "🐈"}</span>
+                        <span className="text-lg">{getSpeciesEmoji(pet.species)}</span>
                         <div className="text-left">
                           <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{pet.name}</div>
                           <div className="text-xs text-gray-500 dark:text-gray-400">{pet.breed} · {pet.age}{t.pet.years}</div>
@@ -1,9 +1,15 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { PetProfile } from "@/app/page";
 import { ChatRecord } from "./ChatHistory";
-import { formatFullDate } from "@/lib/dateUtils";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatDateForInput, formatFullDate } from "@/lib/dateUtils";
+import { getStorageItem } from "@/lib/safeJson";
+import type { ReportAllergyInput, ReportWeightInput } from "@/lib/validations/report";
+import type { Allergy } from "@/app/allergy/types";
+import type { HealthRecord } from "@/app/health-tracking/page";
+import { getSpeciesEmoji, getSpeciesName } from "@/lib/species";
 
 interface HealthReportProps {
   pet: PetProfile;
@@ -18,9 +24,35 @@ interface SeverityStats {
   total: number;
 }
 
+// 서버에 아직 저장되지 않는 기록 (리포트 요청에 함께 보냄)
+function collectLocalRecords(petId: string): { allergies: ReportAllergyInput[]; weights: ReportWeightInput[] } {
+  const allergies = getStorageItem<Allergy[]>("petAllergies", [])
+    .filter((allergy) => allergy.petId === petId)
+    .map((allergy) => ({
+      name: allergy.name.slice(0, 100),
+      type: allergy.type,
+      severity: allergy.severity,
+      symptoms: allergy.symptoms.filter((symptom) => symptom.trim()).slice(0, 20).map((symptom) => symptom.slice(0, 100)),
+      diagnosedDate: allergy.diagnosedDate?.slice(0, 10) || undefined,
+      notes: allergy.notes?.slice(0, 500) || undefined,
+    }));
+
+  const weights = getStorageItem<HealthRecord[]>(`petchecky_health_${petId}`, []).flatMap((record) =>
+    record.weight ? [{ date: record.date.slice(0, 10), weight: record.weight }] : []
+  );
+
+  return { allergies, weights };
+}
+
 export default function HealthReport({ pet, records, onClose }: HealthReportProps) {
+  const { user, getAccessToken } = useAuth();
   const [isGenerating, setIsGenerating] = useState(false);
-  const reportRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState(() => {
+    const from = new Date();
+    from.setFullYear(from.getFullYear() - 1);
+    return { from: formatDateForInput(from), to: formatDateForInput(new Date()) };
+  });
 
   // 해당 펫의 상담 기록만 필터링
   const petRecords = records.filter(r => r.petName === pet.name);
@@ -59,67 +91,47 @@ export default function HealthReport({ pet, records, onClose }: HealthReportProp
     return acc;
   }, {} as Record<string, SeverityStats>);
 
-  // PDF 생성 (라이브러리 동적 로드)
-  const generatePDF = async () => {
-    if (!reportRef.current) return;
+  const canDownload = Boolean(user && pet.id);
+
+  // 서버에서 PDF 생성 후 다운로드
+  const downloadPDF = async () => {
+    if (!pet.id) return;
 
+    const petId = pet.id;
     setIsGenerating(true);
+    setError(null);
 
     try {
-      // 라이브러리 동적 임포트 (필요 시에만 로드)
-      const [{ default: html2canvas }, { default: jsPDF }] = await Promise.all([
-        import("html2canvas"),
-        import("jspdf"),
-      ]);
-
-      const canvas = await html2canvas(reportRef.current, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: "#ffffff",
-      });
+      const token = await getAccessToken();
+      if (!token) {
+        setError("로그인 후 이용할 수 있습니다.");
+        return;
+      }
 
-      const imgData = canvas.toDataURL("image/png");
-      const pdf = new jsPDF({
-        orientation: "portrait",
-        unit: "mm",
-        format: "a4",
+      const response = await fetch(`/api/pets/${petId}/report`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ...range, ...collectLocalRecords(petId) }),
       });
 
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const imgWidth = canvas.width;
-      const imgHeight = canvas.height;
-      const ratio = Math.min(pdfWidth / imgWidth, pdfHeight / imgHeight);
-      const imgX = (pdfWidth - imgWidth * ratio) / 2;
-      const imgY = 0;
-
-      // 이미지가 한 페이지를 넘으면 분할
-      const scaledHeight = imgHeight * ratio;
-
-      if (scaledHeight <= pdfHeight) {
-        pdf.addImage(imgData, "PNG", imgX, imgY, imgWidth * ratio, scaledHeight);
-      } else {
-        // 여러 페이지로 분할
-        let heightLeft = scaledHeight;
-        let position = 0;
-
-        pdf.addImage(imgData, "PNG", imgX, position, imgWidth * ratio, scaledHeight);
-        heightLeft -= pdfHeight;
-
-        while (heightLeft > 0) {
-          position = -pdfHeight + position;
-          pdf.addPage();
-          pdf.addImage(imgData, "PNG", imgX, position, imgWidth * ratio, scaledHeight);
-          heightLeft -= pdfHeight;
-        }
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || "PDF 생성 중 오류가 발생했습니다.");
+        return;
       }
 
-      const fileName = `${pet.name}_건강리포트_${new Date().toISOString().split("T")[0]}.pdf`;
-      pdf.save(fileName);
-    } catch (error) {
-      console.error("PDF 생성 오류:", error);
-      alert("PDF 생성 중 오류가 발생했습니다.");
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${pet.name}_건강리포트_${range.from}_${range.to}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("PDF 생성 오류:", err);
+      setError("PDF 생성 중 오류가 발생했습니다.");
     } finally {
       setIsGenerating(false);
     }
@@ -142,8 +154,8 @@ export default function HealthReport({ pet, records, onClose }: HealthReportProp
           <h2 className="text-xl font-bold text-gray-800">건강 리포트</h2>
           <div className="flex items-center gap-3">
             <button
-              onClick={generatePDF}
-              disabled={isGenerating || petRecords.length === 0}
+              onClick={downloadPDF}
+              disabled={isGenerating || !canDownload}
               className="flex items-center gap-2 rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
               aria-label="건강 리포트 PDF로 다운로드"
             >
@@ -173,12 +185,42 @@ export default function HealthReport({ pet, records, onClose }: HealthReportProp
           </div>
         </div>
 
-        {/* 리포트 내용 (PDF로 변환될 영역) */}
-        <div ref={reportRef} className="p-6 bg-white">
+        {/* PDF 기간 선택 */}
+        <div className="border-b border-gray-100 px-6 py-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>PDF 기간</span>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              className="rounded-lg border border-gray-200 px-2 py-1"
+              aria-label="리포트 시작일"
+            />
+            <span>~</span>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              className="rounded-lg border border-gray-200 px-2 py-1"
+              aria-label="리포트 종료일"
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-400">
+            {canDownload
+              ? "프로필, 체중 추이, 예방접종, 약물, 진료 기록, 알레르기, 상담 기록이 포함됩니다."
+              : "PDF 리포트는 로그인 후 저장된 반려동물만 만들 수 있습니다."}
+          </p>
+          {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+        </div>
+
+        {/* 리포트 미리보기 */}
+        <div className="p-6 bg-white">
           {/* 타이틀 */}
           <div className="text-center mb-8">
             <div className="inline-flex items-center gap-2 mb-2">
-              <span className="text-3xl">{pet.species === "dog" ? "🐕" : "🐈"}</span>
+              <span className="text-3xl">{getSpeciesEmoji(pet.species)}</span>
               <h1 className="text-2xl font-bold text-gray-800">{pet.name} 건강 리포트</h1>
             </div>
             <p className="text-sm text-gray-500">
@@ -197,7 +239,7 @@ export default function HealthReport({ pet, records, onClose }: HealthReportProp
               <div>
                 <p className="text-xs text-gray-500">종류</p>
                 <p className="font-medium text-gray-800">
-                  {pet.species === "dog" ? "강아지" : "고양이"}
+                  {getSpeciesName(pet.species)}
                 </p>
               </div>
               <div>
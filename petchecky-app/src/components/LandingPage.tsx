@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { PetProfile } from "@/app/page";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface LandingPageProps {
   petProfile: PetProfile | null;
@@ -245,7 +246,7 @@ export default function LandingPage({
 
           {petProfile && (
             <div className="mt-6 inline-flex items-center gap-2 rounded-full bg-blue-50 px-4 py-2 text-sm text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
-              <span>{petProfile.species === "dog" ? "🐕" : "🐈"}</span>
+              <span>{getSpeciesEmoji(petProfile.species)}</span>
               <span className="font-medium">{petProfile.name}</span>
               <span className="text-blue-400 dark:text-blue-500">|</span>
               <span>{petProfile.breed} · {petProfile.age}{t.pet.years} · {petProfile.weight}{t.pet.kg}</span>
@@ -7,6 +7,9 @@ import type { Notification, NotificationType } from "@/lib/notifications";
 
 interface NotificationCenterProps {
   className?: string;
+  // 로그인 사용자면 서버 리마인더 알림을 함께 표시
+  userId?: string;
+  getAccessToken?: () => Promise<string | null>;
 }
 
 const TYPE_ICONS: Record<NotificationType, string> = {
@@ -25,7 +28,7 @@ const TYPE_COLORS: Record<NotificationType, string> = {
   system: "bg-gray-100 text-gray-800",
 };
 
-export default function NotificationCenter({ className = "" }: NotificationCenterProps) {
+export default function NotificationCenter({ className = "", userId, getAccessToken }: NotificationCenterProps) {
   const { t } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -36,7 +39,7 @@ export default function NotificationCenter({ className = "" }: NotificationCente
     markRead,
     markAllRead,
     remove,
-  } = useNotifications();
+  } = useNotifications({ userId, getAccessToken });
 
   // 외부 클릭 시 드롭다운 닫기
   useEffect(() => {
@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import { PetProfile } from "@/app/page";
+import { PET_SPECIES, SPECIES_REGISTRY, type PetSpecies } from "@/lib/species";
+import BreedAutocomplete from "./BreedAutocomplete";
 
 interface PetProfileModalProps {
   initialProfile: PetProfile | null;
@@ -10,40 +12,6 @@ interface PetProfileModalProps {
   onDelete?: () => void; // 삭제 콜백 (수정 모드에서만)
 }
 
-const DOG_BREEDS = [
-  "믹스견",
-  "말티즈",
-  "푸들",
-  "포메라니안",
-  "치와와",
-  "시츄",
-  "요크셔테리어",
-  "비숑프리제",
-  "골든리트리버",
-  "래브라도리트리버",
-  "진돗개",
-  "웰시코기",
-  "비글",
-  "닥스훈트",
-  "기타",
-];
-
-const CAT_BREEDS = [
-  "믹스묘",
-  "코리안숏헤어",
-  "페르시안",
-  "러시안블루",
-  "브리티시숏헤어",
-  "스코티시폴드",
-  "아메리칸숏헤어",
-  "샴",
-  "랙돌",
-  "메인쿤",
-  "벵갈",
-  "터키시앙고라",
-  "기타",
-];
-
 export default function PetProfileModal({
   initialProfile,
   onSave,
@@ -51,16 +19,16 @@ export default function PetProfileModal({
   onDelete,
 }: PetProfileModalProps) {
   const [name, setName] = useState(initialProfile?.name || "");
-  const [species, setSpecies] = useState<"dog" | "cat">(
+  const [species, setSpecies] = useState<PetSpecies>(
     initialProfile?.species || "dog"
   );
   const [breed, setBreed] = useState(initialProfile?.breed || "");
+  const [breedId, setBreedId] = useState<string | undefined>(initialProfile?.breedId);
   const [age, setAge] = useState(initialProfile?.age?.toString() || "");
   const [weight, setWeight] = useState(initialProfile?.weight?.toString() || "");
+  const [birthDate, setBirthDate] = useState(initialProfile?.birthDate || "");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
-  const breeds = species === "dog" ? DOG_BREEDS : CAT_BREEDS;
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name || !breed || !age || !weight) return;
@@ -69,8 +37,11 @@ export default function PetProfileModal({
       name,
       species,
       breed,
+      breedId,
       age: parseInt(age),
       weight: parseFloat(weight),
+      birthDate: birthDate || undefined,
+      lifestyle: initialProfile?.lifestyle,
     });
   };
 
@@ -109,37 +80,27 @@ export default function PetProfileModal({
             <label className="mb-1 block text-sm font-medium text-gray-700">
               종류
             </label>
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                type="button"
-                onClick={() => {
-                  setSpecies("dog");
-                  setBreed("");
-                }}
-                className={`flex items-center justify-center gap-2 rounded-lg border-2 px-4 py-3 font-medium transition-all ${
-                  species === "dog"
-                    ? "border-blue-500 bg-blue-50 text-blue-700"
-                    : "border-gray-200 text-gray-600 hover:border-gray-300"
-                }`}
-              >
-                <span className="text-xl">🐕</span>
-                강아지
-              </button>
-              <button
-                type="button"
-                onClick={() => {
-                  setSpecies("cat");
-                  setBreed("");
-                }}
-                className={`flex items-center justify-center gap-2 rounded-lg border-2 px-4 py-3 font-medium transition-all ${
-                  species === "cat"
-                    ? "border-blue-500 bg-blue-50 text-blue-700"
-                    : "border-gray-200 text-gray-600 hover:border-gray-300"
-                }`}
-              >
-                <span className="text-xl">🐈</span>
-                고양이
-              </button>
+            <div className="grid grid-cols-4 gap-2">
+              {PET_SPECIES.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => {
+                    setSpecies(id);
+                    setBreed("");
+                    setBreedId(undefined);
+                  }}
+                  className={`flex flex-col items-center justify-center gap-1 rounded-lg border-2 px-2 py-2 text-sm font-medium transition-all ${
+                    species === id
+                      ? "border-blue-500 bg-blue-50 text-blue-700"
+                      : "border-gray-200 text-gray-600 hover:border-gray-300"
+                  }`}
+                  aria-pressed={species === id}
+                >
+                  <span className="text-xl">{SPECIES_REGISTRY[id].emoji}</span>
+                  {SPECIES_REGISTRY[id].names.ko}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -147,19 +108,15 @@ export default function PetProfileModal({
             <label className="mb-1 block text-sm font-medium text-gray-700">
               품종
             </label>
-            <select
+            <BreedAutocomplete
+              species={species}
               value={breed}
-              onChange={(e) => setBreed(e.target.value)}
-              className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              onChange={(nextBreed, nextBreedId) => {
+                setBreed(nextBreed);
+                setBreedId(nextBreedId);
+              }}
               required
-            >
-              <option value="">품종 선택</option>
-              {breeds.map((b) => (
-                <option key={b} value={b}>
-                  {b}
-                </option>
-              ))}
-            </select>
+            />
           </div>
 
           <div className="grid grid-cols-2 gap-3">
@@ -189,13 +146,34 @@ export default function PetProfileModal({
                 placeholder="체중"
                 min="0"
                 max="100"
-                step="0.1"
+                step="0.01"
                 className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
                 required
               />
             </div>
           </div>
 
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              생년월일 (선택)
+            </label>
+            <input
+              type="date"
+              value={birthDate}
+              onChange={(e) => {
+                setBirthDate(e.target.value);
+                // 나이는 생년월일 기준으로 맞춤
+                if (e.target.value) {
+                  const years = (Date.now() - new Date(e.target.value).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+                  setAge(String(Math.max(0, Math.floor(years))));
+                }
+              }}
+              max={new Date().toISOString().split("T")[0]}
+              className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+            <p className="mt-1 text-xs text-gray-500">입력하면 예방접종 일정을 더 정확하게 계산해요</p>
+          </div>
+
           <button
             type="submit"
             className="mt-2 w-full rounded-lg bg-blue-500 py-3 font-semibold text-white transition-colors hover:bg-blue-600 active:scale-[0.98]"
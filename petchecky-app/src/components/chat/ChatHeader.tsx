@@ -1,14 +1,30 @@
 "use client";
 
-import type { PetProfile } from "@/types/chat";
+import type { PetProfile, SharedHealthRecord } from "@/types/chat";
 import { PET_EMOJI } from "@/lib/constants";
 
+const SHARED_RECORD_ICONS: Record<SharedHealthRecord["category"], string> = {
+  allergy: "⚠️",
+  medication: "💊",
+  vetVisit: "🏥",
+  vaccine: "💉",
+};
+
 interface ChatHeaderProps {
   petProfile: PetProfile;
   onBack: () => void;
+  shareHealthRecords?: boolean;
+  onToggleShareHealthRecords?: () => void; // 없으면 토글 숨김 (저장된 펫이 아닌 경우)
+  sharedRecords?: SharedHealthRecord[];
 }
 
-export default function ChatHeader({ petProfile, onBack }: ChatHeaderProps) {
+export default function ChatHeader({
+  petProfile,
+  onBack,
+  shareHealthRecords = false,
+  onToggleShareHealthRecords,
+  sharedRecords,
+}: ChatHeaderProps) {
   return (
     <div className="border-b border-gray-100 bg-white px-4 py-3">
       <div className="mx-auto max-w-3xl flex items-center gap-3">
@@ -24,7 +40,43 @@ export default function ChatHeader({ petProfile, onBack }: ChatHeaderProps) {
           <span className="font-medium text-gray-800">{petProfile.name}</span>
         </div>
         <span className="text-xs text-gray-400">건강 상담 중</span>
+        {onToggleShareHealthRecords && (
+          <button
+            onClick={onToggleShareHealthRecords}
+            aria-pressed={shareHealthRecords}
+            className={`ml-auto rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+              shareHealthRecords
+                ? "bg-blue-500 text-white hover:bg-blue-600"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            }`}
+          >
+            🩺 건강 기록 사용
+          </button>
+        )}
       </div>
+
+      {/* 공유된 건강 기록 목록 */}
+      {shareHealthRecords && (
+        <div className="mx-auto mt-2 max-w-3xl text-xs text-gray-500">
+          {!sharedRecords ? (
+            <p>다음 질문부터 알레르기, 복용 약, 최근 진료, 밀린 접종 기록이 함께 전달돼요.</p>
+          ) : sharedRecords.length === 0 ? (
+            <p>공유할 건강 기록이 없어요.</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-1">
+              <span>공유된 기록:</span>
+              {sharedRecords.map((record, index) => (
+                <span
+                  key={index}
+                  className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-600"
+                >
+                  {SHARED_RECORD_ICONS[record.category]} {record.label}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
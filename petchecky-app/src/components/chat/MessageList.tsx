@@ -61,6 +61,7 @@ export default function MessageList({
             }`}
           >
             <div
+              aria-busy={message.isStreaming || undefined}
               className={`max-w-[85%] rounded-2xl px-4 py-3 ${
                 message.role === "user"
                   ? "bg-blue-500 text-white"
@@ -85,6 +86,13 @@ export default function MessageList({
                 message.role === "user" ? "text-white" : "text-gray-800"
               }`}>
                 {message.content}
+                {/* 스트리밍 중 커서 */}
+                {message.isStreaming && (
+                  <span
+                    className="ml-0.5 inline-block h-4 w-1.5 animate-pulse rounded-sm bg-gray-400 align-middle"
+                    aria-hidden="true"
+                  />
+                )}
               </p>
 
               {/* 병원 추천 버튼 - medium/high severity일 때 표시 */}
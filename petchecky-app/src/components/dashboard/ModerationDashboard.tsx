@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatRelativeTime } from "@/lib/dateUtils";
+import { moderationService } from "@/lib/services";
+import type { ModerationActionInput } from "@/lib/validations/moderation";
+import type { CommunityBan, ModerationItem } from "@/types/moderation";
+
+type Tab = "queue" | "hidden" | "bans";
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: "queue", label: "검토 대기" },
+  { id: "hidden", label: "숨긴 글" },
+  { id: "bans", label: "이용 제한" },
+];
+
+const REPORT_REASON_LABELS: Record<string, string> = {
+  spam: "스팸/광고",
+  scam: "사기/거래 유도",
+  abuse: "욕설/비방",
+  dangerous_medical: "위험한 의료 정보",
+  other: "기타",
+};
+
+// ============================================
+// Moderation Item Card
+// ============================================
+
+interface ModerationItemCardProps {
+  item: ModerationItem;
+  onAction: (input: ModerationActionInput) => void;
+  onBan: (userId: string) => void;
+}
+
+function ModerationItemCard({ item, onAction, onBan }: ModerationItemCardProps) {
+  const target = { targetType: item.targetType, targetId: item.targetId };
+
+  const handleHide = () => {
+    const reason = window.prompt("숨김 사유를 입력하세요", item.reason || "");
+    if (reason?.trim()) {
+      onAction({ action: "hide", ...target, reason: reason.trim() });
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className="rounded-full bg-gray-100 px-2 py-0.5 text-gray-600">
+          {item.targetType === "post" ? "게시글" : "댓글"}
+        </span>
+        {item.status === "pending" && (
+          <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-yellow-700">검토 대기</span>
+        )}
+        {item.reports.length > 0 && (
+          <span className="rounded-full bg-red-100 px-2 py-0.5 text-red-700">신고 {item.reports.length}건</span>
+        )}
+        <span className="text-gray-500">{item.authorName}</span>
+        <span className="text-gray-400">{formatRelativeTime(item.createdAt)}</span>
+        <Link href={`/community/${item.postId}`} className="ml-auto text-blue-500 hover:underline">
+          게시글 보기
+        </Link>
+      </div>
+
+      {item.title && <p className="mb-1 font-medium text-gray-800">{item.title}</p>}
+      <p className="mb-3 line-clamp-4 whitespace-pre-wrap text-sm text-gray-700">{item.content}</p>
+
+      {item.reason && <p className="mb-2 text-xs text-gray-500">사유: {item.reason}</p>}
+      {item.reports.length > 0 && (
+        <ul className="mb-3 space-y-1 text-xs text-gray-500">
+          {item.reports.map((report, index) => (
+            <li key={index}>
+              · {REPORT_REASON_LABELS[report.reason] ?? report.reason}
+              {report.details && ` - ${report.details}`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {item.status !== "hidden" && (
+          <button onClick={handleHide} className="rounded-lg bg-red-500 px-3 py-1.5 text-sm text-white hover:bg-red-600">
+            숨김
+          </button>
+        )}
+        {item.status !== "visible" && (
+          <button
+            onClick={() => onAction({ action: "restore", ...target })}
+            className="rounded-lg bg-blue-500 px-3 py-1.5 text-sm text-white hover:bg-blue-600"
+          >
+            복구
+          </button>
+        )}
+        {item.status === "visible" && (
+          <button
+            onClick={() => onAction({ action: "dismiss", ...target })}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            신고 종료
+          </button>
+        )}
+        <button
+          onClick={() => onBan(item.authorId)}
+          className="rounded-lg border border-red-300 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50"
+        >
+          작성자 이용 제한
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Main Dashboard Component
+// ============================================
+
+export function ModerationDashboard() {
+  const { user, loading, getAccessToken } = useAuth();
+  const [tab, setTab] = useState<Tab>("queue");
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [bans, setBans] = useState<CommunityBan[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 관리 작업 후 목록을 다시 불러오기 위한 값
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    async function fetchList() {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      setIsLoading(true);
+      setError(null);
+      if (tab === "bans") {
+        const result = await moderationService.listBans(token);
+        if (result.success) setBans(result.data || []);
+        else setError(result.error?.message || "목록을 불러오지 못했습니다");
+      } else {
+        const result = await moderationService.listItems(tab, token);
+        if (result.success) setItems(result.data || []);
+        else setError(result.error?.message || "목록을 불러오지 못했습니다");
+      }
+      setIsLoading(false);
+    }
+
+    fetchList();
+  }, [user, tab, refreshKey, getAccessToken]);
+
+  const applyAction = async (input: ModerationActionInput) => {
+    const token = await getAccessToken();
+    if (!token) return;
+
+    const result = await moderationService.apply(input, token);
+    if (!result.success) {
+      alert(result.error?.message || "처리에 실패했습니다");
+      return;
+    }
+    setRefreshKey((key) => key + 1);
+  };
+
+  const handleBan = (userId: string) => {
+    const reason = window.prompt("이용 제한 사유를 입력하세요");
+    if (!reason?.trim()) return;
+
+    const daysInput = window.prompt("제한 기간(일)을 입력하세요. 비워두면 영구 제한입니다", "7");
+    if (daysInput === null) return;
+    const days = daysInput.trim() ? Number(daysInput) : undefined;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1)) {
+      alert("기간은 1일 이상의 정수로 입력해주세요");
+      return;
+    }
+
+    applyAction({ action: "ban", userId, reason: reason.trim(), days });
+  };
+
+  if (loading) {
+    return <div className="p-8 text-center text-gray-500">불러오는 중...</div>;
+  }
+
+  if (!user) {
+    return <div className="p-8 text-center text-gray-500">관리자 계정으로 로그인해주세요.</div>;
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl p-4">
+      <h1 className="mb-4 text-2xl font-bold text-gray-800">커뮤니티 관리</h1>
+
+      <div className="mb-4 flex gap-2">
+        {TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`rounded-full px-4 py-2 text-sm font-medium ${
+              tab === id ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500">불러오는 중...</div>
+      ) : tab === "bans" ? (
+        bans.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">이용 제한 중인 사용자가 없습니다</p>
+        ) : (
+          <div className="space-y-3">
+            {bans.map((ban) => (
+              <div key={ban.userId} className="flex items-center justify-between rounded-xl border border-gray-200 bg-white p-4">
+                <div className="text-sm">
+                  <p className="font-mono text-gray-800">{ban.userId}</p>
+                  <p className="text-gray-500">{ban.reason}</p>
+                  <p className="text-xs text-gray-400">
+                    {ban.expiresAt ? `${new Date(ban.expiresAt).toLocaleDateString("ko-KR")}까지` : "영구 제한"}
+                  </p>
+                </div>
+                <button
+                  onClick={() => applyAction({ action: "unban", userId: ban.userId })}
+                  className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  제한 해제
+                </button>
+              </div>
+            ))}
+          </div>
+        )
+      ) : items.length === 0 ? (
+        <p className="p-8 text-center text-gray-500">
+          {tab === "queue" ? "검토할 글이 없습니다" : "숨긴 글이 없습니다"}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <ModerationItemCard
+              key={`${item.targetType}:${item.targetId}`}
+              item={item}
+              onAction={applyAction}
+              onBan={handleBan}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
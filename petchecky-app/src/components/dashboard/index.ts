@@ -1 +1,2 @@
 export { PerformanceDashboard } from "./PerformanceDashboard";
+export { ModerationDashboard } from "./ModerationDashboard";
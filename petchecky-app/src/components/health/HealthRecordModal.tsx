@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { HealthRecord } from "@/app/health-tracking/page";
 import { PetProfile } from "@/app/page";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface HealthRecordModalProps {
   pet: PetProfile;
@@ -68,7 +69,7 @@ export default function HealthRecordModal({
         <form onSubmit={handleSubmit} className="p-6 space-y-5">
           {/* 펫 정보 */}
           <div className="flex items-center gap-2 rounded-lg bg-gray-50 p-3">
-            <span className="text-2xl">{pet.species === "dog" ? "🐕" : "🐈"}</span>
+            <span className="text-2xl">{getSpeciesEmoji(pet.species)}</span>
             <span className="font-medium text-gray-800">{pet.name}</span>
           </div>
 
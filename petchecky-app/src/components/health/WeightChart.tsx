@@ -9,15 +9,19 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from "recharts";
 import { HealthRecord } from "@/app/health-tracking/page";
+import { formatWeightRange, type Range } from "@/lib/breeds";
 
 interface WeightChartProps {
   records: HealthRecord[];
   petName: string;
+  /** 품종 권장 체중 범위 (kg), 있으면 배경 띠로 표시 */
+  idealRange?: Range;
 }
 
-export default function WeightChart({ records, petName }: WeightChartProps) {
+export default function WeightChart({ records, petName, idealRange }: WeightChartProps) {
   const weightRecords = records.filter((r) => r.weight !== undefined);
 
   if (weightRecords.length === 0) {
@@ -40,8 +44,9 @@ export default function WeightChart({ records, petName }: WeightChartProps) {
 
   const weights = weightRecords.map((r) => r.weight!);
   const avgWeight = weights.reduce((a, b) => a + b, 0) / weights.length;
-  const minWeight = Math.min(...weights);
-  const maxWeight = Math.max(...weights);
+  // 권장 범위가 화면에 들어오도록 포함
+  const minWeight = Math.min(...weights, ...(idealRange ? [idealRange.min] : []));
+  const maxWeight = Math.max(...weights, ...(idealRange ? [idealRange.max] : []));
 
   // Y축 범위 계산 (최소/최대에 여유 추가)
   const yMin = Math.floor(minWeight * 0.9);
@@ -81,6 +86,15 @@ export default function WeightChart({ records, petName }: WeightChartProps) {
               formatter={(value) => [`${Number(value).toFixed(1)} kg`, "체중"]}
               labelFormatter={(label) => `날짜: ${label}`}
             />
+            {idealRange && (
+              <ReferenceArea
+                y1={idealRange.min}
+                y2={idealRange.max}
+                fill="#22c55e"
+                fillOpacity={0.1}
+                ifOverflow="extendDomain"
+              />
+            )}
             <ReferenceLine
               y={avgWeight}
               stroke="#9ca3af"
@@ -122,6 +136,12 @@ export default function WeightChart({ records, petName }: WeightChartProps) {
           <div className="w-3 h-0.5 bg-gray-400 border-dashed" style={{ borderTop: "2px dashed #9ca3af" }} />
           <span>평균 체중</span>
         </div>
+        {idealRange && (
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-sm bg-green-500/20" />
+            <span>품종 권장 체중 ({formatWeightRange(idealRange)})</span>
+          </div>
+        )}
       </div>
     </div>
   );
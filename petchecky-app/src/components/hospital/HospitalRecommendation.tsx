@@ -2,20 +2,25 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useGeolocation } from "@/hooks/useGeolocation";
+import { getVetTimeframeLabel } from "@/lib/triage";
+import type { Triage } from "@/lib/validations/triage";
+import type { PetSpecies } from "@/lib/species";
 import HospitalMap, { Hospital } from "./HospitalMap";
 import HospitalList from "./HospitalList";
 import ReservationModal from "./ReservationModal";
 
 interface HospitalRecommendationProps {
   severity: "low" | "medium" | "high";
+  triage?: Triage;
   isVisible: boolean;
   onClose: () => void;
   petName?: string;
-  petSpecies?: "dog" | "cat";
+  petSpecies?: PetSpecies;
 }
 
 export default function HospitalRecommendation({
   severity,
+  triage,
   isVisible,
   onClose,
   petName,
@@ -166,6 +171,37 @@ export default function HospitalRecommendation({
         </div>
       </div>
 
+      {/* AI 상담 요약 (구조화된 triage가 있을 때만) */}
+      {triage && (
+        <div className="border-b border-gray-200 bg-white px-4 py-3">
+          <div className="max-w-4xl mx-auto space-y-2 text-sm">
+            <p className={`font-semibold ${config.textColor}`}>
+              🕒 권장 방문 시점: {getVetTimeframeLabel(triage.vetTimeframe)}
+            </p>
+            {triage.suspectedCauses.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700">의심되는 원인</p>
+                <ul className="mt-1 list-disc pl-5 text-gray-600">
+                  {triage.suspectedCauses.map((cause, index) => (
+                    <li key={index}>{cause}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {triage.redFlags.length > 0 && (
+              <div>
+                <p className="font-medium text-red-700">이런 증상이 보이면 바로 병원에 가세요</p>
+                <ul className="mt-1 list-disc pl-5 text-red-600">
+                  {triage.redFlags.map((flag, index) => (
+                    <li key={index}>{flag}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* 모바일 뷰 토글 */}
       <div className="flex border-b border-gray-200 sm:hidden">
         <button
@@ -3,18 +3,19 @@
 import { useState } from "react";
 import { Hospital } from "./HospitalMap";
 import { useAuth } from "@/contexts/AuthContext";
+import { getSpeciesName, PET_SPECIES, type PetSpecies } from "@/lib/species";
 
 interface ReservationModalProps {
   hospital: Hospital;
   onClose: () => void;
   onSuccess: () => void;
   petName?: string;
-  petSpecies?: "dog" | "cat";
+  petSpecies?: PetSpecies;
 }
 
 interface ReservationForm {
   petName: string;
-  petSpecies: "dog" | "cat";
+  petSpecies: PetSpecies;
   symptoms: string;
   preferredDate: string;
   preferredTime: string;
@@ -166,8 +167,11 @@ export default function ReservationModal({
                 onChange={handleChange}
                 className="w-full rounded-lg border border-gray-300 px-4 py-2.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
               >
-                <option value="dog">강아지</option>
-                <option value="cat">고양이</option>
+                {PET_SPECIES.map((species) => (
+                  <option key={species} value={species}>
+                    {getSpeciesName(species)}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
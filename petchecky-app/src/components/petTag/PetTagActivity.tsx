@@ -0,0 +1,75 @@
+"use client";
+
+import { memo } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import type { PetTagActivity as PetTagActivityData } from "@/types/petTags";
+
+interface PetTagActivityProps {
+  activity: PetTagActivityData;
+}
+
+function mapUrl(latitude: number, longitude: number): string {
+  return `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`;
+}
+
+export default memo(function PetTagActivity({ activity }: PetTagActivityProps) {
+  const { t } = useLanguage();
+  const formatTime = (value: string) => new Date(value).toLocaleString();
+
+  if (activity.scans.length === 0 && activity.messages.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">{t.qrPetId.noActivity}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {activity.messages.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{t.qrPetId.messages}</h3>
+          <ul className="space-y-2">
+            {activity.messages.map((message) => (
+              <li key={message.id} className="rounded-lg bg-yellow-50 p-3 text-sm dark:bg-yellow-900/20">
+                <p className="whitespace-pre-wrap text-gray-800 dark:text-gray-100">{message.message}</p>
+                {message.contact && (
+                  <p className="mt-1 text-gray-600 dark:text-gray-300">
+                    {t.qrPetId.finderContact}: {message.contact}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-400">{formatTime(message.createdAt)}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {activity.scans.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{t.qrPetId.activity}</h3>
+          <ul className="divide-y divide-gray-100 text-sm dark:divide-gray-700">
+            {activity.scans.map((scan) => (
+              <li key={scan.id} className="flex items-center justify-between py-2">
+                <span className="text-gray-600 dark:text-gray-400">{formatTime(scan.scannedAt)}</span>
+                {scan.latitude !== null && scan.longitude !== null ? (
+                  <a
+                    href={mapUrl(scan.latitude, scan.longitude)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:underline dark:text-blue-400"
+                  >
+                    📍 {t.qrPetId.viewMap}
+                    {scan.accuracy !== null && (
+                      <span className="ml-1 text-xs text-gray-400">
+                        ({t.qrPetId.accuracy.replace("{meters}", String(Math.round(scan.accuracy)))})
+                      </span>
+                    )}
+                  </a>
+                ) : (
+                  <span className="text-xs text-gray-400">{t.qrPetId.noLocation}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
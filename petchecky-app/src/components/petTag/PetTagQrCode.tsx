@@ -0,0 +1,142 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { encodeQrCode, qrCodePath, qrCodeToSvg } from "@/lib/qrCode";
+import { getSpeciesEmoji, type PetSpecies } from "@/lib/species";
+
+interface PetTagQrCodeProps {
+  /** QR 코드에 담을 발견자 페이지 주소 */
+  url: string;
+  petName: string;
+  species: PetSpecies;
+  breed: string;
+}
+
+const QR_MARGIN = 4;
+// PNG 저장 시 모듈 한 칸의 픽셀 크기
+const PNG_MODULE_PIXELS = 12;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export default memo(function PetTagQrCode({ url, petName, species, breed }: PetTagQrCodeProps) {
+  const { t } = useLanguage();
+  // 인식표는 닳거나 더러워질 수 있으므로 오류 정정 레벨 Q (약 25% 복원)
+  const qr = useMemo(() => encodeQrCode(url, "Q"), [url]);
+  const dimension = qr.size + QR_MARGIN * 2;
+  const emoji = getSpeciesEmoji(species);
+
+  const handleDownload = () => {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = dimension * PNG_MODULE_PIXELS;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "#000000";
+    qr.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          ctx.fillRect(
+            (x + QR_MARGIN) * PNG_MODULE_PIXELS,
+            (y + QR_MARGIN) * PNG_MODULE_PIXELS,
+            PNG_MODULE_PIXELS,
+            PNG_MODULE_PIXELS
+          );
+        }
+      });
+    });
+
+    canvas.toBlob((blob) => {
+      if (!blob) return;
+      const objectUrl = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = objectUrl;
+      a.download = `petchecky-qr-${petName}.png`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(objectUrl);
+    }, "image/png");
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    // 인쇄물에서도 선명하도록 벡터(SVG) 그대로 사용
+    printWindow.document.write(`
+      <html>
+        <head>
+          <title>PetChecky QR - ${escapeHtml(petName)}</title>
+          <style>
+            body { font-family: sans-serif; text-align: center; padding: 20px; }
+            .qr-card { border: 2px solid #000; padding: 20px; display: inline-block; }
+            svg { width: 200px; height: 200px; }
+            h2 { margin: 10px 0 5px; }
+            p { margin: 5px 0; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="qr-card">
+            ${qrCodeToSvg(qr, { margin: QR_MARGIN })}
+            <h2>${escapeHtml(petName)}</h2>
+            <p>${emoji} ${escapeHtml(breed)}</p>
+            <p>${escapeHtml(t.qrPetId.scanToContact)}</p>
+            <p style="font-size: 12px; color: #999;">PetChecky</p>
+          </div>
+          <script>window.print();</script>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col items-center">
+        <div className="rounded-xl bg-white p-4 shadow-lg">
+          <svg
+            viewBox={`0 0 ${dimension} ${dimension}`}
+            shapeRendering="crispEdges"
+            className="h-48 w-48"
+            role="img"
+            aria-label={`QR Code - ${petName}`}
+          >
+            <rect width="100%" height="100%" fill="#ffffff" />
+            <path d={qrCodePath(qr, QR_MARGIN)} fill="#000000" />
+          </svg>
+          <div className="mt-3 text-center">
+            <p className="font-bold text-gray-800">
+              {emoji} {petName}
+            </p>
+            <p className="text-sm text-gray-500">{breed}</p>
+            <p className="text-xs text-gray-400 mt-1">PetChecky</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-3 mt-4">
+        <button
+          onClick={handleDownload}
+          className="flex-1 rounded-lg bg-green-500 py-3 font-medium text-white hover:bg-green-600"
+        >
+          📥 {t.qrPetId.download}
+        </button>
+        <button
+          onClick={handlePrint}
+          className="flex-1 rounded-lg bg-purple-500 py-3 font-medium text-white hover:bg-purple-600"
+        >
+          🖨️ {t.qrPetId.print}
+        </button>
+      </div>
+    </div>
+  );
+});
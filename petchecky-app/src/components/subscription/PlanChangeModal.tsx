@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plan, PlanChangeQuote } from "@/types/subscription";
+import { useSubscription } from "@/contexts/SubscriptionContext";
+
+interface PlanChangeModalProps {
+  plan: Plan;
+  onClose: () => void;
+  onSuccess: (quote: PlanChangeQuote) => void;
+}
+
+const formatWon = (amount: number) => `${amount.toLocaleString("ko-KR")}원`;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("ko-KR", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+export default function PlanChangeModal({ plan, onClose, onSuccess }: PlanChangeModalProps) {
+  const { subscription, previewPlanChange, changePlan, error } = useSubscription();
+  const [quote, setQuote] = useState<PlanChangeQuote | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 플랜이 바뀌면 부모가 key로 모달을 새로 마운트하므로 여기서는 견적만 불러옴
+  useEffect(() => {
+    if (plan.id === "free") return;
+
+    const planId = plan.id;
+    let cancelled = false;
+
+    async function loadQuote() {
+      const result = await previewPlanChange(planId);
+      if (cancelled) return;
+      setQuote(result);
+      setIsLoading(false);
+    }
+
+    loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [plan.id, previewPlanChange]);
+
+  const handleConfirm = async () => {
+    if (plan.id === "free") return;
+
+    setIsSubmitting(true);
+    const result = await changePlan(plan.id);
+    setIsSubmitting(false);
+    if (result) {
+      onSuccess(result);
+    }
+  };
+
+  const isUpgrade = quote?.direction === "upgrade";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* 헤더 */}
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold">{plan.name}(으)로 변경</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 컨텐츠 */}
+        <div className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : quote ? (
+            <div className="bg-blue-50 rounded-xl p-4 mb-6 space-y-3">
+              {isUpgrade ? (
+                <>
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-gray-600">오늘 결제 금액</p>
+                    <p className="text-2xl font-bold text-blue-600">{formatWon(quote.chargeAmount)}</p>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    남은 기간({subscription ? `${formatDate(subscription.current_period_end)}까지` : "-"})의
+                    요금 차액만 결제되며, 지금 바로 {plan.name} 기능을 이용할 수 있습니다.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-gray-700">
+                  {formatDate(quote.effectiveAt)}까지는 현재 플랜을 그대로 이용하고,
+                  다음 결제일부터 {plan.name}(으)로 변경됩니다.
+                </p>
+              )}
+              <div className="flex justify-between items-center border-t border-blue-100 pt-3">
+                <p className="text-sm text-gray-600">다음 결제일부터</p>
+                <p className="text-sm font-medium">월 {formatWon(quote.nextPrice)}</p>
+              </div>
+            </div>
+          ) : null}
+
+          {/* 에러 메시지 */}
+          {error && !isLoading && (
+            <div className="bg-red-50 text-red-600 p-4 rounded-xl mb-6 text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* 확인 버튼 */}
+          <button
+            onClick={handleConfirm}
+            disabled={isLoading || isSubmitting || !quote}
+            className={`w-full py-4 rounded-xl font-semibold text-white transition-all ${
+              isLoading || isSubmitting || !quote
+                ? "bg-gray-300 cursor-not-allowed"
+                : "bg-blue-500 hover:bg-blue-600"
+            }`}
+          >
+            {isSubmitting
+              ? "처리중..."
+              : isUpgrade
+              ? quote && quote.chargeAmount > 0
+                ? `${formatWon(quote.chargeAmount)} 결제하고 업그레이드`
+                : "지금 업그레이드"
+              : "다음 결제일부터 변경"}
+          </button>
+
+          {/* 안내 문구 */}
+          <p className="text-xs text-gray-500 mt-4 text-center">
+            등록된 카드로 결제되며, 예약된 변경은 다음 결제일 전까지 취소할 수 있습니다.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ interface PricingPlansProps {
 }
 
 export default function PricingPlans({ onSelectPlan }: PricingPlansProps) {
-  const { currentPlan, isLoading } = useSubscription();
+  const { currentPlan, scheduledPlan, isLoading } = useSubscription();
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -17,6 +17,9 @@ export default function PricingPlans({ onSelectPlan }: PricingPlansProps) {
         const isUpgrade =
           (currentPlan === "free" && plan.id !== "free") ||
           (currentPlan === "premium" && plan.id === "premium_plus");
+        // 유료 플랜 간 변경: 업그레이드는 즉시, 다운그레이드는 다음 결제일부터
+        const isPaidChange = currentPlan !== "free" && plan.id !== "free" && !isCurrentPlan;
+        const isScheduled = scheduledPlan === plan.id;
 
         return (
           <div
@@ -78,9 +81,9 @@ export default function PricingPlans({ onSelectPlan }: PricingPlansProps) {
             {/* 버튼 */}
             <button
               onClick={() => onSelectPlan(plan)}
-              disabled={isLoading || isCurrentPlan || plan.id === "free"}
+              disabled={isLoading || isCurrentPlan || isScheduled || plan.id === "free"}
               className={`w-full mt-6 py-3 px-4 rounded-xl font-semibold transition-all ${
-                isCurrentPlan
+                isCurrentPlan || isScheduled
                   ? "bg-gray-100 text-gray-500 cursor-not-allowed"
                   : plan.id === "free"
                   ? "bg-gray-100 text-gray-500 cursor-not-allowed"
@@ -93,10 +96,24 @@ export default function PricingPlans({ onSelectPlan }: PricingPlansProps) {
                 ? "현재 플랜"
                 : plan.id === "free"
                 ? "기본 플랜"
+                : isScheduled
+                ? "변경 예정"
+                : isPaidChange
+                ? isUpgrade
+                  ? "지금 업그레이드"
+                  : "갱신 시 다운그레이드"
                 : isUpgrade
                 ? "업그레이드"
                 : "선택하기"}
             </button>
+
+            {isPaidChange && !isScheduled && (
+              <p className="mt-2 text-xs text-gray-500 text-center">
+                {isUpgrade
+                  ? "남은 기간 차액만 결제하고 바로 적용됩니다"
+                  : "현재 결제 기간이 끝난 뒤 적용됩니다"}
+              </p>
+            )}
           </div>
         );
       })}
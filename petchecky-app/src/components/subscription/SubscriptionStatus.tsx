@@ -10,9 +10,12 @@ export default function SubscriptionStatus() {
     currentPlan,
     isLoading,
     cancelSubscription,
+    cancelScheduledPlanChange,
+    scheduledPlan,
     vetConsultationsRemaining,
   } = useSubscription();
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isCancellingChange, setIsCancellingChange] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
 
   if (isLoading) {
@@ -59,6 +62,12 @@ export default function SubscriptionStatus() {
     }
   };
 
+  const handleCancelPlanChange = async () => {
+    setIsCancellingChange(true);
+    await cancelScheduledPlanChange();
+    setIsCancellingChange(false);
+  };
+
   return (
     <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
       {/* 플랜 정보 */}
@@ -99,6 +108,22 @@ export default function SubscriptionStatus() {
         </div>
       )}
 
+      {/* 예약된 다운그레이드 */}
+      {scheduledPlan && (
+        <div className="bg-blue-50 rounded-lg p-3 mb-4 flex items-center justify-between gap-3">
+          <p className="text-sm text-blue-700">
+            {periodEnd}부터 {scheduledPlan === "premium_plus" ? "프리미엄+" : "프리미엄"}(으)로 변경됩니다.
+          </p>
+          <button
+            onClick={handleCancelPlanChange}
+            disabled={isCancellingChange}
+            className="flex-shrink-0 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            {isCancellingChange ? "처리중..." : "변경 취소"}
+          </button>
+        </div>
+      )}
+
       {/* 해지 버튼 */}
       {subscription?.status === "active" && (
         <>
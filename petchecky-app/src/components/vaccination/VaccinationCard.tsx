@@ -1,7 +1,7 @@
 "use client";
 
 import { memo } from "react";
-import { Vaccination } from "@/app/vaccination/page";
+import type { Vaccination } from "@/types/petRecords";
 
 interface VaccinationCardProps {
   vaccination: Vaccination;
@@ -67,6 +67,17 @@ export default memo(function VaccinationCard({
             >
               {vaccination.type === "required" ? "필수" : "권장"}
             </span>
+            {vaccination.titerResult && (
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                  vaccination.titerResult === "protective"
+                    ? "bg-green-100 text-green-700"
+                    : "bg-orange-100 text-orange-700"
+                }`}
+              >
+                {vaccination.titerResult === "protective" ? "항체 충분" : "항체 부족"}
+              </span>
+            )}
             {isOverdue && (
               <span className="rounded-full bg-red-500 px-2 py-0.5 text-xs font-medium text-white">
                 지연
@@ -1,13 +1,16 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Vaccination } from "@/app/vaccination/page";
+import type { Vaccination } from "@/types/petRecords";
 import { PetProfile } from "@/app/page";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface VaccinationModalProps {
   pet: PetProfile;
   vaccination: Vaccination | null;
-  vaccineList: { name: string; type: string; interval: number }[];
+  vaccineList: { name: string; type: string; interval: number; titerEligible?: boolean }[];
+  /** 접종 일정 기반 다음 접종일 (규칙에 없는 백신이면 null -> 주기로 계산) */
+  suggestNextDate?: (record: Pick<Vaccination, "name" | "date" | "titerResult">) => string | null;
   onSave: (vaccination: Omit<Vaccination, "id" | "petId">) => void;
   onClose: () => void;
 }
@@ -16,6 +19,7 @@ export default function VaccinationModal({
   pet,
   vaccination,
   vaccineList,
+  suggestNextDate,
   onSave,
   onClose,
 }: VaccinationModalProps) {
@@ -29,21 +33,28 @@ export default function VaccinationModal({
     vaccination?.type || "required"
   );
   const [autoCalculate, setAutoCalculate] = useState(true);
+  const [titerResult, setTiterResult] = useState<Vaccination["titerResult"]>(vaccination?.titerResult);
 
   const isCustom = name === "기타";
+  const selectedVaccine = vaccineList.find((v) => v.name === name);
 
   // 백신 선택 시 자동으로 다음 접종일 계산
   useEffect(() => {
     if (autoCalculate && date && name && name !== "기타") {
       const vaccine = vaccineList.find((v) => v.name === name);
       if (vaccine) {
-        const dateObj = new Date(date);
-        dateObj.setDate(dateObj.getDate() + vaccine.interval);
-        setNextDate(dateObj.toISOString().split("T")[0]);
+        const suggested = suggestNextDate?.({ name, date, titerResult });
+        if (suggested) {
+          setNextDate(suggested);
+        } else {
+          const dateObj = new Date(date);
+          dateObj.setDate(dateObj.getDate() + vaccine.interval);
+          setNextDate(dateObj.toISOString().split("T")[0]);
+        }
         setType(vaccine.type as "required" | "optional");
       }
     }
-  }, [date, name, vaccineList, autoCalculate]);
+  }, [date, name, vaccineList, autoCalculate, suggestNextDate, titerResult]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,6 +70,7 @@ export default function VaccinationModal({
       notes: notes || undefined,
       type,
       completed: true,
+      titerResult: selectedVaccine?.titerEligible ? titerResult : undefined,
     });
   };
 
@@ -87,7 +99,7 @@ export default function VaccinationModal({
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           {/* 펫 정보 */}
           <div className="flex items-center gap-2 rounded-lg bg-gray-50 p-3">
-            <span className="text-2xl">{pet.species === "dog" ? "🐕" : "🐈"}</span>
+            <span className="text-2xl">{getSpeciesEmoji(pet.species)}</span>
             <span className="font-medium text-gray-800">{pet.name}</span>
           </div>
 
@@ -129,6 +141,24 @@ export default function VaccinationModal({
             </div>
           )}
 
+          {/* 항체가 검사 (추가접종 대신 검사한 경우) */}
+          {selectedVaccine?.titerEligible && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                기록 종류
+              </label>
+              <select
+                value={titerResult ?? ""}
+                onChange={(e) => setTiterResult((e.target.value || undefined) as Vaccination["titerResult"])}
+                className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              >
+                <option value="">접종</option>
+                <option value="protective">항체가 검사 - 항체 충분</option>
+                <option value="low">항체가 검사 - 항체 부족</option>
+              </select>
+            </div>
+          )}
+
           {/* 접종일 */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,116 @@
+"use client";
+
+import { memo } from "react";
+import { getDoseLabel, type ScheduledDose, type VaccineSchedule } from "@/lib/vaccineSchedule";
+
+interface VaccineSchedulePanelProps {
+  schedule: VaccineSchedule;
+  /** 이미 리마인더를 만든 접종인지 */
+  isReminded: (dose: ScheduledDose) => boolean;
+  onRemind: (dose: ScheduledDose) => void;
+}
+
+const STATUS_STYLES: Record<ScheduledDose["status"], string> = {
+  completed: "bg-green-100 text-green-700",
+  overdue: "bg-red-500 text-white",
+  due: "bg-blue-500 text-white",
+  upcoming: "bg-gray-100 text-gray-600",
+};
+
+const STATUS_LABELS: Record<ScheduledDose["status"], string> = {
+  completed: "완료",
+  overdue: "지연",
+  due: "임박",
+  upcoming: "예정",
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("ko-KR", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * 생년월일/생활 환경 기반 접종 일정
+ */
+export default memo(function VaccineSchedulePanel({ schedule, isReminded, onRemind }: VaccineSchedulePanelProps) {
+  const missedSeries = schedule.entries.reduce((sum, entry) => sum + entry.missedSeriesDoses, 0);
+
+  return (
+    <div className="space-y-3">
+      {missedSeries > 0 && (
+        <div className="flex items-center gap-3 rounded-xl bg-red-50 border border-red-200 p-4">
+          <span className="text-2xl">⚠️</span>
+          <div>
+            <p className="font-medium text-red-800">기초 접종 {missedSeries}회를 놓쳤어요</p>
+            <p className="text-sm text-red-600">기초 접종은 간격이 중요해요. 동물병원에서 남은 일정을 상담하세요</p>
+          </div>
+        </div>
+      )}
+
+      {schedule.birthDateEstimated && (
+        <p className="text-xs text-gray-500">
+          생년월일이 없어 나이로 추정한 일정이에요. 프로필에 생년월일을 입력하면 더 정확해져요.
+        </p>
+      )}
+
+      {schedule.entries.map(({ vaccine, doses, next }) => {
+        const pending = doses.filter((dose) => dose.status !== "completed");
+        const completedCount = doses.length - pending.length;
+
+        return (
+          <div key={vaccine.id} className="rounded-xl bg-white border border-gray-200 p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span
+                  className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                    vaccine.type === "required" ? "bg-red-100 text-red-700" : "bg-gray-100 text-gray-600"
+                  }`}
+                >
+                  {vaccine.type === "required" ? "필수" : "권장"}
+                </span>
+                <h3 className="font-bold text-gray-800">{vaccine.name}</h3>
+              </div>
+              {completedCount > 0 && <span className="text-xs text-gray-500">완료 {completedCount}회</span>}
+            </div>
+
+            <ul className="mt-3 space-y-2">
+              {pending.map((dose) => {
+                const reminded = isReminded(dose);
+                return (
+                  <li key={`${dose.kind}-${dose.doseNumber ?? ""}-${dose.dueDate}`} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[dose.status]}`}>
+                        {STATUS_LABELS[dose.status]}
+                      </span>
+                      <span className="text-gray-700">{getDoseLabel(dose)}</span>
+                      <span className="text-gray-500">{formatDate(dose.dueDate)}</span>
+                    </div>
+                    {dose === next && (
+                      <button
+                        type="button"
+                        onClick={() => onRemind(dose)}
+                        disabled={reminded}
+                        className="rounded-full border border-blue-200 px-3 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:border-gray-200 disabled:text-gray-400"
+                      >
+                        {reminded ? "알림 등록됨" : "🔔 알림 받기"}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {vaccine.titerEligible && next?.kind === "booster" && (
+              <p className="mt-2 text-xs text-gray-500">
+                💡 추가접종 대신 항체가 검사를 받아 항체가 충분하면 접종을 1년 미룰 수 있어요
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+});
@@ -1,7 +1,9 @@
 "use client";
 
 import { memo } from "react";
-import { WalkRecord } from "@/app/walk/page";
+import WalkRoute from "./WalkRoute";
+import { formatClock, formatPace } from "@/lib/walkTracking";
+import type { WalkRecord } from "@/types/petRecords";
 
 interface WalkHistoryProps {
   records: WalkRecord[];
@@ -124,8 +126,16 @@ export default memo(function WalkHistory({
                       {record.location && (
                         <span>📍 {record.location}</span>
                       )}
+                      {record.movingTime !== undefined && (
+                        <span>
+                          🏃 {formatClock(record.movingTime)}
+                          {record.distance ? ` · ${formatPace(record.movingTime / 60 / record.distance)}/km` : ""}
+                        </span>
+                      )}
                     </div>
 
+                    {record.route && <WalkRoute route={record.route} className="mt-2" />}
+
                     {record.notes && (
                       <p className="mt-2 text-sm text-gray-600 border-t border-gray-100 pt-2">
                         {record.notes}
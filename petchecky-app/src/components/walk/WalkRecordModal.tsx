@@ -1,8 +1,9 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { WalkRecord } from "@/app/walk/page";
+import type { WalkRecord } from "@/types/petRecords";
 import { PetProfile } from "@/app/page";
+import { getSpeciesEmoji } from "@/lib/species";
 
 interface WalkRecordModalProps {
   pet: PetProfile;
@@ -99,7 +100,7 @@ export default function WalkRecordModal({
         <form onSubmit={handleSubmit} className="p-6 space-y-5">
           {/* 펫 정보 */}
           <div className="flex items-center gap-2 rounded-lg bg-green-50 p-3">
-            <span className="text-2xl">{pet.species === "dog" ? "🐕" : "🐈"}</span>
+            <span className="text-2xl">{getSpeciesEmoji(pet.species)}</span>
             <span className="font-medium text-gray-800">{pet.name}와(과) 산책</span>
           </div>
 
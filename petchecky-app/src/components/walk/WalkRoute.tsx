@@ -0,0 +1,70 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import { decodePolyline } from "@/lib/walkTracking";
+
+interface WalkRouteProps {
+  /** Encoded Polyline 문자열 또는 좌표 목록 */
+  route: string | Array<{ lat: number; lng: number }>;
+  className?: string;
+}
+
+const VIEW_WIDTH = 300;
+const VIEW_HEIGHT = 160;
+const PADDING = 12;
+
+/**
+ * 산책 경로 그리기 (지도 타일 없이 SVG로 모양만 표시)
+ */
+export default memo(function WalkRoute({ route, className = "" }: WalkRouteProps) {
+  const points = useMemo(() => {
+    const coords = typeof route === "string" ? decodePolyline(route) : route;
+    if (coords.length < 2) return null;
+
+    // 경도 1도의 길이는 위도에 따라 줄어듦 (등장방형 투영)
+    const lngScale = Math.cos((coords[0].lat * Math.PI) / 180);
+    const xs = coords.map((c) => c.lng * lngScale);
+    const ys = coords.map((c) => -c.lat);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const spanX = Math.max(...xs) - minX;
+    const spanY = Math.max(...ys) - minY;
+    const scale = Math.min(
+      (VIEW_WIDTH - PADDING * 2) / (spanX || 1e-9),
+      (VIEW_HEIGHT - PADDING * 2) / (spanY || 1e-9)
+    );
+    // 가운데 정렬
+    const offsetX = (VIEW_WIDTH - spanX * scale) / 2;
+    const offsetY = (VIEW_HEIGHT - spanY * scale) / 2;
+
+    return xs.map((x, i) => ({
+      x: offsetX + (x - minX) * scale,
+      y: offsetY + (ys[i] - minY) * scale,
+    }));
+  }, [route]);
+
+  if (!points) return null;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+      className={`w-full rounded-lg bg-green-50 ${className}`}
+      role="img"
+      aria-label="산책 경로"
+    >
+      <polyline
+        points={points.map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(" ")}
+        fill="none"
+        stroke="#16a34a"
+        strokeWidth={3}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <circle cx={start.x} cy={start.y} r={5} fill="#ffffff" stroke="#16a34a" strokeWidth={2} />
+      <circle cx={end.x} cy={end.y} r={5} fill="#dc2626" stroke="#ffffff" strokeWidth={2} />
+    </svg>
+  );
+});
@@ -1,6 +1,7 @@
 "use client";
 
-import { memo } from "react";
+import { memo, useState } from "react";
+import type { WeeklyDistance } from "@/lib/walkTracking";
 
 interface WalkStatsProps {
   stats: {
@@ -9,10 +10,29 @@ interface WalkStatsProps {
     totalDistance: number;
     avgDuration: number;
     thisWeekCount: number;
-  };
+  } | null;
+  /** 최근 주간 거리 (오래된 주 -> 이번 주) */
+  weeklyDistances: WeeklyDistance[];
+  /** 선택한 펫의 주간 거리 목표 (km) */
+  weeklyGoal: number | null;
+  onGoalChange: (goal: number | null) => void;
 }
 
-export default memo(function WalkStats({ stats }: WalkStatsProps) {
+export default memo(function WalkStats({ stats, weeklyDistances, weeklyGoal, onGoalChange }: WalkStatsProps) {
+  const [isEditingGoal, setIsEditingGoal] = useState(false);
+  const [goalInput, setGoalInput] = useState("");
+
+  const thisWeek = weeklyDistances[weeklyDistances.length - 1];
+  const thisWeekDistance = thisWeek?.distance ?? 0;
+  const progress = weeklyGoal ? Math.min(1, thisWeekDistance / weeklyGoal) : 0;
+  const maxWeekDistance = Math.max(weeklyGoal ?? 0, ...weeklyDistances.map((w) => w.distance), 0.1);
+
+  const handleSaveGoal = () => {
+    const goal = parseFloat(goalInput);
+    onGoalChange(goal > 0 ? Math.round(goal * 10) / 10 : null);
+    setIsEditingGoal(false);
+  };
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = Math.round(minutes % 60);
@@ -23,49 +43,142 @@ export default memo(function WalkStats({ stats }: WalkStatsProps) {
   };
 
   return (
-    <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+    <div className="mb-4 space-y-3">
+      {/* 주간 거리 목표 */}
       <div className="rounded-xl bg-white border border-gray-200 p-4">
-        <div className="flex items-center gap-2 mb-1">
-          <span className="text-lg">🐾</span>
-          <span className="text-xs text-gray-500">총 산책</span>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-semibold text-gray-700">🎯 이번 주 거리 목표</span>
+          {!isEditingGoal && (
+            <button
+              onClick={() => {
+                setGoalInput(weeklyGoal?.toString() || "");
+                setIsEditingGoal(true);
+              }}
+              className="text-xs text-green-600 hover:underline"
+            >
+              {weeklyGoal ? "목표 수정" : "목표 설정"}
+            </button>
+          )}
         </div>
-        <p className="text-2xl font-bold text-gray-800">
-          {stats.totalWalks}
-          <span className="text-sm font-normal text-gray-500 ml-1">회</span>
-        </p>
-      </div>
 
-      <div className="rounded-xl bg-white border border-gray-200 p-4">
-        <div className="flex items-center gap-2 mb-1">
-          <span className="text-lg">⏱️</span>
-          <span className="text-xs text-gray-500">총 시간</span>
-        </div>
-        <p className="text-2xl font-bold text-gray-800">
-          {formatDuration(stats.totalDuration)}
-        </p>
-      </div>
+        {isEditingGoal ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={goalInput}
+              onChange={(e) => setGoalInput(e.target.value)}
+              placeholder="10"
+              className="w-24 rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-green-500 focus:outline-none"
+            />
+            <span className="text-sm text-gray-500">km / 주</span>
+            <button
+              onClick={handleSaveGoal}
+              className="ml-auto rounded-lg bg-green-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-600"
+            >
+              저장
+            </button>
+            <button
+              onClick={() => setIsEditingGoal(false)}
+              className="rounded-lg px-3 py-1.5 text-sm text-gray-500 hover:bg-gray-100"
+            >
+              취소
+            </button>
+          </div>
+        ) : weeklyGoal ? (
+          <>
+            <p className="text-2xl font-bold text-gray-800">
+              {thisWeekDistance.toFixed(1)}
+              <span className="text-sm font-normal text-gray-500 ml-1">/ {weeklyGoal} km</span>
+            </p>
+            <div className="mt-2 h-2 overflow-hidden rounded-full bg-gray-100">
+              <div
+                className={`h-full rounded-full ${progress >= 1 ? "bg-blue-500" : "bg-green-500"}`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {progress >= 1
+                ? "이번 주 목표를 달성했어요! 🎉"
+                : `목표까지 ${(weeklyGoal - thisWeekDistance).toFixed(1)}km 남았어요`}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">주간 산책 거리 목표를 정해 보세요</p>
+        )}
 
-      <div className="rounded-xl bg-white border border-gray-200 p-4">
-        <div className="flex items-center gap-2 mb-1">
-          <span className="text-lg">📍</span>
-          <span className="text-xs text-gray-500">총 거리</span>
-        </div>
-        <p className="text-2xl font-bold text-green-600">
-          {stats.totalDistance.toFixed(1)}
-          <span className="text-sm font-normal text-gray-500 ml-1">km</span>
-        </p>
+        {/* 최근 주간 거리 */}
+        {weeklyDistances.length > 1 && (
+          <div className="mt-3 flex items-end gap-2 h-16">
+            {weeklyDistances.map((week, i) => {
+              const isThisWeek = i === weeklyDistances.length - 1;
+              const reached = weeklyGoal !== null && week.distance >= weeklyGoal;
+              return (
+                <div key={week.weekStart} className="flex flex-1 flex-col items-center gap-1">
+                  <div className="flex w-full flex-1 items-end">
+                    <div
+                      className={`w-full rounded-t ${reached ? "bg-blue-400" : isThisWeek ? "bg-green-500" : "bg-green-200"}`}
+                      style={{ height: `${Math.max(4, (week.distance / maxWeekDistance) * 100)}%` }}
+                      title={`${week.distance.toFixed(1)}km · ${week.walks}회`}
+                    />
+                  </div>
+                  <span className="text-[10px] text-gray-400">
+                    {isThisWeek ? "이번 주" : week.weekStart.slice(5).replace("-", "/")}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
-      <div className="rounded-xl bg-white border border-gray-200 p-4">
-        <div className="flex items-center gap-2 mb-1">
-          <span className="text-lg">📅</span>
-          <span className="text-xs text-gray-500">이번 주</span>
+      {stats && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <div className="rounded-xl bg-white border border-gray-200 p-4">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-lg">🐾</span>
+              <span className="text-xs text-gray-500">총 산책</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-800">
+              {stats.totalWalks}
+              <span className="text-sm font-normal text-gray-500 ml-1">회</span>
+            </p>
+          </div>
+
+          <div className="rounded-xl bg-white border border-gray-200 p-4">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-lg">⏱️</span>
+              <span className="text-xs text-gray-500">총 시간</span>
+            </div>
+            <p className="text-2xl font-bold text-gray-800">
+              {formatDuration(stats.totalDuration)}
+            </p>
+          </div>
+
+          <div className="rounded-xl bg-white border border-gray-200 p-4">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-lg">📍</span>
+              <span className="text-xs text-gray-500">총 거리</span>
+            </div>
+            <p className="text-2xl font-bold text-green-600">
+              {stats.totalDistance.toFixed(1)}
+              <span className="text-sm font-normal text-gray-500 ml-1">km</span>
+            </p>
+          </div>
+
+          <div className="rounded-xl bg-white border border-gray-200 p-4">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="text-lg">📅</span>
+              <span className="text-xs text-gray-500">이번 주</span>
+            </div>
+            <p className="text-2xl font-bold text-blue-600">
+              {stats.thisWeekCount}
+              <span className="text-sm font-normal text-gray-500 ml-1">회</span>
+            </p>
+          </div>
         </div>
-        <p className="text-2xl font-bold text-blue-600">
-          {stats.thisWeekCount}
-          <span className="text-sm font-normal text-gray-500 ml-1">회</span>
-        </p>
-      </div>
+      )}
     </div>
   );
 })
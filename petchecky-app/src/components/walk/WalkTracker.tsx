@@ -0,0 +1,94 @@
+"use client";
+
+import { memo } from "react";
+import WalkRoute from "./WalkRoute";
+import { formatClock, formatPace, type ActiveWalk, type TrackSummary } from "@/lib/walkTracking";
+
+interface WalkTrackerProps {
+  walk: ActiveWalk;
+  summary: TrackSummary;
+  petName?: string;
+  error: string | null;
+  onFinish: () => void;
+  onCancel: () => void;
+}
+
+export default memo(function WalkTracker({
+  walk,
+  summary,
+  petName,
+  error,
+  onFinish,
+  onCancel,
+}: WalkTrackerProps) {
+  return (
+    <div className="mb-4 rounded-xl border-2 border-green-400 bg-white p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <span className="relative flex h-3 w-3">
+            <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-green-400 opacity-75" />
+            <span className="relative inline-flex h-3 w-3 rounded-full bg-green-500" />
+          </span>
+          <span className="font-bold text-gray-800">
+            산책 중{petName && ` · ${petName}`}
+          </span>
+        </div>
+        <span className="text-2xl font-bold tabular-nums text-gray-800">
+          {formatClock(summary.elapsedTime)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center mb-3">
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">거리</p>
+          <p className="text-lg font-bold text-green-600 tabular-nums">
+            {summary.distance.toFixed(2)}
+            <span className="text-xs font-normal text-gray-500 ml-0.5">km</span>
+          </p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">이동 시간</p>
+          <p className="text-lg font-bold text-gray-800 tabular-nums">{formatClock(summary.movingTime)}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">페이스</p>
+          <p className="text-lg font-bold text-gray-800 tabular-nums">
+            {formatPace(summary.pace)}
+            <span className="text-xs font-normal text-gray-500 ml-0.5">/km</span>
+          </p>
+        </div>
+      </div>
+
+      {walk.points.length >= 2 ? (
+        <WalkRoute route={walk.points} className="mb-3" />
+      ) : (
+        <p className="mb-3 rounded-lg bg-gray-50 p-3 text-center text-sm text-gray-500">
+          📡 GPS 신호를 기다리는 중...
+        </p>
+      )}
+
+      {error && (
+        <p className="mb-3 rounded-lg bg-red-50 p-2 text-sm text-red-600">{error}</p>
+      )}
+
+      <p className="mb-3 text-xs text-gray-400">
+        화면이 꺼지면 위치 기록이 멈출 수 있어요. 기록 중에는 이 화면을 켜 두세요.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 rounded-lg border border-gray-300 py-3 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          취소
+        </button>
+        <button
+          onClick={onFinish}
+          className="flex-[2] rounded-lg bg-green-500 py-3 text-sm font-bold text-white hover:bg-green-600"
+        >
+          산책 종료
+        </button>
+      </div>
+    </div>
+  );
+});
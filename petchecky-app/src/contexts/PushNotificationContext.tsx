@@ -111,12 +111,14 @@ export function PushNotificationProvider({ children }: { children: ReactNode })
     setIsLoading(true);
 
     try {
+      // 해제 후에는 endpoint를 알 수 없으므로 미리 조회 (다른 기기 구독은 유지)
+      const subscription = await getCurrentSubscription();
       const success = await unsubscribeFromPush();
 
       // 서버에서 구독 정보 삭제 (로그인 사용자만)
       if (success && user) {
         const token = await getAccessToken();
-        await removeSubscriptionFromServer(token);
+        await removeSubscriptionFromServer(token, subscription?.endpoint);
       }
 
       setIsSubscribed(false);
@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from "react";
 import { useAuth } from "./AuthContext";
-import { Subscription, PlanType } from "@/types/subscription";
+import { Subscription, PlanType, PlanChangeQuote, PREMIUM_ACCESS_STATUSES } from "@/types/subscription";
 
 interface SubscriptionContextType {
   subscription: Subscription | null;
@@ -13,9 +13,16 @@ interface SubscriptionContextType {
   error: string | null;
   refreshSubscription: () => Promise<void>;
   cancelSubscription: () => Promise<boolean>;
+  // 플랜 변경 (업그레이드는 즉시, 다운그레이드는 다음 결제일부터)
+  previewPlanChange: (planType: PaidPlan) => Promise<PlanChangeQuote | null>;
+  changePlan: (planType: PaidPlan) => Promise<PlanChangeQuote | null>;
+  cancelScheduledPlanChange: () => Promise<boolean>;
+  scheduledPlan: PaidPlan | null;
   vetConsultationsRemaining: number;
 }
 
+type PaidPlan = Exclude<PlanType, "free">;
+
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
 
 export function SubscriptionProvider({ children }: { children: React.ReactNode }) {
@@ -24,6 +31,18 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // 인증 토큰을 헤더에 포함 (보안 강화)
+  const getHeaders = useCallback(async (): Promise<HeadersInit> => {
+    const token = await getAccessToken();
+    const headers: HeadersInit = {
+      'Content-Type': 'application/json',
+    };
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  }, [getAccessToken]);
+
   const fetchSubscription = useCallback(async () => {
     if (!user) {
       setSubscription(null);
@@ -35,15 +54,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       setIsLoading(true);
       setError(null);
 
-      // 인증 토큰을 헤더에 포함하여 요청 (보안 강화)
-      const token = await getAccessToken();
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
+      const headers = await getHeaders();
       const response = await fetch('/api/subscription', { headers });
       const data = await response.json();
 
@@ -58,7 +69,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     } finally {
       setIsLoading(false);
     }
-  }, [user, getAccessToken]);
+  }, [user, getHeaders]);
 
   useEffect(() => {
     fetchSubscription();
@@ -68,15 +79,7 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     if (!user) return false;
 
     try {
-      // 인증 토큰을 헤더에 포함하여 요청 (보안 강화)
-      const token = await getAccessToken();
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-      };
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-
+      const headers = await getHeaders();
       const response = await fetch('/api/subscription', {
         method: "DELETE",
         headers,
@@ -95,11 +98,83 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       setError("구독 해지에 실패했습니다.");
       return false;
     }
-  }, [user, getAccessToken, fetchSubscription]);
+  }, [user, getHeaders, fetchSubscription]);
+
+  const previewPlanChange = useCallback(async (planType: PaidPlan): Promise<PlanChangeQuote | null> => {
+    if (!user) return null;
+
+    try {
+      const headers = await getHeaders();
+      const response = await fetch(`/api/subscription/change?planType=${planType}`, { headers });
+      const data = await response.json();
+
+      if (response.ok) {
+        return data.quote;
+      }
+
+      setError(data.error);
+      return null;
+    } catch (err) {
+      console.error("Failed to preview plan change:", err);
+      setError("플랜 변경 정보를 불러오는데 실패했습니다.");
+      return null;
+    }
+  }, [user, getHeaders]);
+
+  const changePlan = useCallback(async (planType: PaidPlan): Promise<PlanChangeQuote | null> => {
+    if (!user) return null;
+
+    try {
+      const headers = await getHeaders();
+      const response = await fetch('/api/subscription/change', {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ planType }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchSubscription();
+        return data.quote;
+      }
+
+      setError(data.error);
+      return null;
+    } catch (err) {
+      console.error("Failed to change plan:", err);
+      setError("플랜 변경에 실패했습니다.");
+      return null;
+    }
+  }, [user, getHeaders, fetchSubscription]);
+
+  const cancelScheduledPlanChange = useCallback(async (): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const headers = await getHeaders();
+      const response = await fetch('/api/subscription/change', {
+        method: "DELETE",
+        headers,
+      });
+
+      if (response.ok) {
+        await fetchSubscription();
+        return true;
+      }
+
+      const data = await response.json();
+      setError(data.error);
+      return false;
+    } catch (err) {
+      console.error("Failed to cancel plan change:", err);
+      setError("플랜 변경 취소에 실패했습니다.");
+      return false;
+    }
+  }, [user, getHeaders, fetchSubscription]);
 
   // 파생 값들을 memoize
   const isPremium = useMemo(
-    () => !!subscription && subscription.status === "active",
+    () => !!subscription && PREMIUM_ACCESS_STATUSES.includes(subscription.status),
     [subscription]
   );
 
@@ -113,6 +188,11 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
     [isPremiumPlus, isPremium]
   );
 
+  const scheduledPlan: PaidPlan | null = useMemo(
+    () => (isPremium && subscription?.scheduled_plan_type) || null,
+    [isPremium, subscription?.scheduled_plan_type]
+  );
+
   const vetConsultationsRemaining = useMemo(
     () => subscription?.vet_consultations_remaining || 0,
     [subscription?.vet_consultations_remaining]
@@ -129,6 +209,10 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       error,
       refreshSubscription: fetchSubscription,
       cancelSubscription,
+      previewPlanChange,
+      changePlan,
+      cancelScheduledPlanChange,
+      scheduledPlan,
       vetConsultationsRemaining,
     }),
     [
@@ -140,6 +224,10 @@ export function SubscriptionProvider({ children }: { children: React.ReactNode }
       error,
       fetchSubscription,
       cancelSubscription,
+      previewPlanChange,
+      changePlan,
+      cancelScheduledPlanChange,
+      scheduledPlan,
       vetConsultationsRemaining,
     ]
   );
@@ -23,6 +23,14 @@ jest.mock("@/lib/supabase", () => ({
   deletePet: (...args: unknown[]) => mockDeletePet(...args),
 }));
 
+const mockMigrateLegacy = jest.fn();
+
+jest.mock("@/lib/services/petRecordsService", () => ({
+  petRecordsService: {
+    migrateLegacy: (...args: unknown[]) => mockMigrateLegacy(...args),
+  },
+}));
+
 // Mock localStorage
 const localStorageMock = (() => {
   let store: Record<string, string> = {};
@@ -258,8 +266,11 @@ describe("usePets", () => {
         name: mockPetProfile.name,
         species: mockPetProfile.species,
         breed: mockPetProfile.breed,
+        breed_id: null,
         age: mockPetProfile.age,
         weight: mockPetProfile.weight,
+        birth_date: null,
+        lifestyle: null,
       });
     });
 
@@ -291,8 +302,11 @@ describe("usePets", () => {
         name: newPet.name,
         species: newPet.species,
         breed: newPet.breed,
+        breed_id: null,
         age: newPet.age,
         weight: newPet.weight,
+        birth_date: null,
+        lifestyle: null,
       });
     });
 
@@ -317,8 +331,11 @@ describe("usePets", () => {
         name: updatedPet.name,
         species: updatedPet.species,
         breed: updatedPet.breed,
+        breed_id: null,
         age: updatedPet.age,
         weight: updatedPet.weight,
+        birth_date: null,
+        lifestyle: null,
       });
     });
 
@@ -341,6 +358,88 @@ describe("usePets", () => {
     });
   });
 
+  describe("legacy data sync", () => {
+    const userId = "user-1";
+    const getAccessToken = () => Promise.resolve("token");
+    const walks = [
+      { id: "walk-1", petId: "pet-1", date: "2024-01-01", duration: 30 },
+      { id: "walk-2", petId: "pet-1", date: "2024-01-02", duration: 20 },
+    ];
+
+    beforeEach(() => {
+      mockGetPets.mockResolvedValue([mockDbPet]);
+      localStorageMock.setItem("petchecky_pets", JSON.stringify([mockPetProfile]));
+      localStorageMock.setItem("petchecky_records_walks", JSON.stringify(walks));
+    });
+
+    const migrationResult = (overrides: Record<string, unknown>) => ({
+      success: true,
+      data: {
+        success: true,
+        petIdMap: { "pet-1": mockDbPet.id },
+        createdPets: 1,
+        importedRecords: 2,
+        failedPets: [],
+        failedRecords: {},
+        ...overrides,
+      },
+    });
+
+    it("should clear synced records and set the synced flag", async () => {
+      mockMigrateLegacy.mockResolvedValue(migrationResult({}));
+
+      const { result } = renderHook(() => usePets({ userId, getAccessToken }));
+
+      await waitFor(() => {
+        expect(result.current.isLoaded).toBe(true);
+      });
+
+      expect(mockMigrateLegacy).toHaveBeenCalledTimes(1);
+      expect(localStorageMock.getItem("petchecky_records_walks")).toBeNull();
+      expect(localStorageMock.getItem(`petchecky_records_synced_${userId}`)).not.toBeNull();
+    });
+
+    it("should keep records that were not imported and retry later", async () => {
+      mockMigrateLegacy.mockResolvedValue(
+        migrationResult({ importedRecords: 1, failedRecords: { walks: ["walk-2"] } })
+      );
+
+      const { result } = renderHook(() => usePets({ userId, getAccessToken }));
+
+      await waitFor(() => {
+        expect(result.current.isLoaded).toBe(true);
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("petchecky_records_walks") as string)).toEqual([walks[1]]);
+      expect(localStorageMock.getItem(`petchecky_records_synced_${userId}`)).toBeNull();
+    });
+
+    it("should not set the synced flag when a pet failed", async () => {
+      mockMigrateLegacy.mockResolvedValue(migrationResult({ failedPets: ["pet-1"] }));
+
+      const { result } = renderHook(() => usePets({ userId, getAccessToken }));
+
+      await waitFor(() => {
+        expect(result.current.isLoaded).toBe(true);
+      });
+
+      expect(localStorageMock.getItem(`petchecky_records_synced_${userId}`)).toBeNull();
+    });
+
+    it("should keep local records when the upload fails", async () => {
+      mockMigrateLegacy.mockResolvedValue({ success: false, error: "서버 오류" });
+
+      const { result } = renderHook(() => usePets({ userId, getAccessToken }));
+
+      await waitFor(() => {
+        expect(result.current.isLoaded).toBe(true);
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("petchecky_records_walks") as string)).toEqual(walks);
+      expect(localStorageMock.getItem(`petchecky_records_synced_${userId}`)).toBeNull();
+    });
+  });
+
   describe("selectPet", () => {
     it("should change selected pet", async () => {
       const pet2 = { ...mockPetProfile, id: "pet-2", name: "냥냥이" };
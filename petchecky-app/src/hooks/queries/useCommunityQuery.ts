@@ -1,6 +1,7 @@
 "use client";
 
 import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
+import { buildPostSearchQuery, type PostSearchParams } from "@/lib/services";
 
 interface Post {
   id: string;
@@ -19,9 +20,7 @@ interface Post {
 
 interface PostsResponse {
   posts: Post[];
-  totalPages: number;
-  currentPage: number;
-  totalCount: number;
+  next_cursor: string | null;
 }
 
 interface CreatePostData {
@@ -31,30 +30,17 @@ interface CreatePostData {
 }
 
 /**
- * 게시글 목록을 가져오는 함수
+ * 게시글 목록/검색을 가져오는 함수 (cursor를 주면 그 다음 페이지)
  */
-async function fetchPosts(params: {
-  page?: number;
-  category?: string;
-  search?: string;
-  token?: string | null;
-}): Promise<PostsResponse> {
-  const { page = 1, category, search, token } = params;
-
-  const queryParams = new URLSearchParams({
-    page: page.toString(),
-    limit: "10",
-  });
-
-  if (category) queryParams.append("category", category);
-  if (search) queryParams.append("search", search);
+async function fetchPosts(params: PostSearchParams & { token?: string | null }): Promise<PostsResponse> {
+  const { token, ...search } = params;
 
   const headers: HeadersInit = {};
   if (token) {
     headers["Authorization"] = `Bearer ${token}`;
   }
 
-  const response = await fetch(`/api/community/posts?${queryParams}`, { headers });
+  const response = await fetch(`/api/community/posts${buildPostSearchQuery({ limit: 10, ...search })}`, { headers });
   const data = await response.json();
 
   if (!response.ok) {
@@ -128,14 +114,10 @@ async function toggleLike(postId: string, token: string): Promise<{ liked: boole
 /**
  * 커뮤니티 게시글 목록 Query Hook
  */
-export function useCommunityPostsQuery(params: {
-  page?: number;
-  category?: string;
-  search?: string;
-  token?: string | null;
-}) {
+export function useCommunityPostsQuery(params: PostSearchParams & { token?: string | null }) {
+  const { token: _token, ...search } = params;
   return useQuery({
-    queryKey: ["community", "posts", params.category, params.search, params.page],
+    queryKey: ["community", "posts", search],
     queryFn: () => fetchPosts(params),
     staleTime: 2 * 60 * 1000, // 2분
   });
@@ -144,20 +126,14 @@ export function useCommunityPostsQuery(params: {
 /**
  * 커뮤니티 게시글 무한 스크롤 Query Hook
  */
-export function useCommunityPostsInfiniteQuery(params: {
-  category?: string;
-  search?: string;
-  token?: string | null;
-}) {
+export function useCommunityPostsInfiniteQuery(params: Omit<PostSearchParams, "cursor"> & { token?: string | null }) {
+  const { token: _token, ...search } = params;
   return useInfiniteQuery({
-    queryKey: ["community", "posts", "infinite", params.category, params.search],
+    queryKey: ["community", "posts", "infinite", search],
     queryFn: ({ pageParam }) =>
-      fetchPosts({ ...params, page: pageParam }),
-    initialPageParam: 1,
-    getNextPageParam: (lastPage) =>
-      lastPage.currentPage < lastPage.totalPages
-        ? lastPage.currentPage + 1
-        : undefined,
+      fetchPosts({ ...params, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
     staleTime: 2 * 60 * 1000, // 2분
   });
 }
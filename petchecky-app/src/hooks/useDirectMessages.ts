@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { supabase } from "@/lib/supabase";
+import { messageService } from "@/lib/services/messageService";
+import { MESSAGE_TYPES, type TypingPayload } from "@/lib/websocket";
+import type { BlockedUser, DirectConversation, DirectMessage } from "@/types/messages";
+
+interface UseDirectMessagesOptions {
+  userId?: string;
+  getAccessToken: () => Promise<string | null>;
+}
+
+interface UseDirectMessagesReturn {
+  conversations: DirectConversation[];
+  unreadCount: number;
+  isLoaded: boolean;
+  activeConversation: DirectConversation | null;
+  messages: DirectMessage[];
+  hasMore: boolean;
+  isPartnerTyping: boolean;
+  blocks: BlockedUser[];
+  error: string | null;
+  openConversation: (conversationId: string | null) => void;
+  startConversation: (participantId: string) => Promise<DirectConversation | null>;
+  loadOlder: () => Promise<void>;
+  sendMessage: (content: string) => Promise<boolean>;
+  setTyping: (isTyping: boolean) => void;
+  block: (userId: string) => Promise<boolean>;
+  unblock: (userId: string) => Promise<boolean>;
+}
+
+// DB 행(snake_case)을 DirectMessage로 변환 (Realtime 페이로드용)
+function fromRealtimeRow(row: Record<string, unknown>): DirectMessage {
+  return {
+    id: String(row.id),
+    conversationId: String(row.conversation_id),
+    senderId: String(row.sender_id),
+    recipientId: String(row.recipient_id),
+    content: String(row.content),
+    createdAt: String(row.created_at),
+    readAt: (row.read_at as string | null) ?? null,
+  };
+}
+
+// 같은 메시지가 API 응답과 Realtime으로 두 번 들어올 수 있음
+function appendMessage(messages: DirectMessage[], message: DirectMessage): DirectMessage[] {
+  if (messages.some((m) => m.id === message.id)) return messages;
+  return [...messages, message];
+}
+
+/**
+ * 1:1 메시지 훅
+ * - 목록/기록/전송/차단: /api/messages 라우트 사용
+ * - 실시간 수신과 읽음 표시: Supabase Realtime (direct_messages 변경 구독)
+ * - 입력 중 표시: 대화방 broadcast 채널 (MESSAGE_TYPES.CHAT_TYPING 형식)
+ */
+export function useDirectMessages({ userId, getAccessToken }: UseDirectMessagesOptions): UseDirectMessagesReturn {
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+  const [blocks, setBlocks] = useState<BlockedUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeIdRef = useRef<string | null>(null);
+  const conversationIdsRef = useRef<Set<string>>(new Set());
+  const typingChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    activeIdRef.current = activeId;
+  }, [activeId]);
+
+  useEffect(() => {
+    conversationIdsRef.current = new Set(conversations.map((c) => c.id));
+  }, [conversations]);
+
+  const activeConversation = useMemo(
+    () => conversations.find((c) => c.id === activeId) ?? null,
+    [conversations, activeId]
+  );
+
+  const unreadCount = useMemo(
+    () => conversations.reduce((sum, c) => sum + c.unreadCount, 0),
+    [conversations]
+  );
+
+  const refreshConversations = useCallback(async () => {
+    const token = await getAccessToken();
+    if (!token) return;
+
+    const result = await messageService.listConversations(token);
+    if (result.success && result.data) {
+      setConversations(result.data.conversations);
+    } else {
+      setError(result.error?.message || "대화 목록을 불러오지 못했습니다");
+    }
+    setIsLoaded(true);
+  }, [getAccessToken]);
+
+  const markRead = useCallback(
+    async (conversationId: string) => {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      await messageService.markRead(conversationId, token);
+      setConversations((prev) => prev.map((c) => (c.id === conversationId ? { ...c, unreadCount: 0 } : c)));
+    },
+    [getAccessToken]
+  );
+
+  // 대화 목록과 차단 목록 로드
+  useEffect(() => {
+    if (!userId) return;
+
+    async function loadInbox() {
+      await refreshConversations();
+
+      const token = await getAccessToken();
+      if (!token) return;
+      const result = await messageService.listBlocks(token);
+      if (result.success && result.data) setBlocks(result.data);
+    }
+
+    loadInbox();
+  }, [userId, getAccessToken, refreshConversations]);
+
+  // 대화방을 열면 최근 메시지를 불러오고 읽음 처리 (이전 대화방 메시지는 switchConversation에서 비움)
+  useEffect(() => {
+    if (!activeId) return;
+
+    let cancelled = false;
+
+    async function loadMessages(conversationId: string) {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const result = await messageService.getMessages(conversationId, token);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setMessages(result.data.messages);
+        setHasMore(result.data.hasMore);
+        if (result.data.conversation.unreadCount > 0) {
+          markRead(conversationId);
+        }
+      } else {
+        setError(result.error?.message || "메시지를 불러오지 못했습니다");
+      }
+    }
+
+    loadMessages(activeId);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, getAccessToken, markRead]);
+
+  // 실시간 수신: 나에게 온 메시지(INSERT)와 내가 보낸 메시지의 읽음(UPDATE)
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`dm-inbox:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "direct_messages", filter: `recipient_id=eq.${userId}` },
+        (payload) => {
+          const message = fromRealtimeRow(payload.new as Record<string, unknown>);
+          const isActive = message.conversationId === activeIdRef.current;
+
+          if (isActive) {
+            setMessages((prev) => appendMessage(prev, message));
+            setIsPartnerTyping(false);
+            markRead(message.conversationId);
+          }
+
+          // 처음 말을 건 상대면 대화 목록을 새로 받음
+          if (!conversationIdsRef.current.has(message.conversationId)) {
+            refreshConversations();
+            return;
+          }
+
+          setConversations((prev) => {
+            const updated = prev.map((c) =>
+              c.id === message.conversationId
+                ? {
+                    ...c,
+                    lastMessage: message.content,
+                    lastMessageAt: message.createdAt,
+                    unreadCount: isActive ? 0 : c.unreadCount + 1,
+                  }
+                : c
+            );
+            return [...updated].sort((a, b) => (b.lastMessageAt ?? "").localeCompare(a.lastMessageAt ?? ""));
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "direct_messages", filter: `sender_id=eq.${userId}` },
+        (payload) => {
+          const updated = fromRealtimeRow(payload.new as Record<string, unknown>);
+          if (updated.conversationId !== activeIdRef.current) return;
+
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, readAt: updated.readAt } : m)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, markRead, refreshConversations]);
+
+  // 입력 중 표시: 열린 대화방의 broadcast 채널
+  useEffect(() => {
+    if (!userId || !activeId) return;
+
+    const channel = supabase
+      .channel(`dm:${activeId}`)
+      .on("broadcast", { event: MESSAGE_TYPES.CHAT_TYPING }, ({ payload }) => {
+        const typing = payload as TypingPayload;
+        if (typing.userId === userId || typing.roomId !== activeId) return;
+
+        if (typingTimeout.current) clearTimeout(typingTimeout.current);
+        setIsPartnerTyping(typing.isTyping);
+
+        // 입력 종료 신호를 놓쳐도 3초 뒤 자동으로 숨김
+        if (typing.isTyping) {
+          typingTimeout.current = setTimeout(() => setIsPartnerTyping(false), 3000);
+        }
+      })
+      .subscribe();
+
+    typingChannelRef.current = channel;
+
+    return () => {
+      if (typingTimeout.current) clearTimeout(typingTimeout.current);
+      setIsPartnerTyping(false);
+      typingChannelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [userId, activeId]);
+
+  // 다른 대화방으로 바꾸면 새 메시지를 받기 전까지 이전 메시지를 비움
+  const switchConversation = useCallback((conversationId: string | null) => {
+    if (conversationId !== activeIdRef.current) {
+      setMessages([]);
+      setHasMore(false);
+    }
+    setActiveId(conversationId);
+  }, []);
+
+  const openConversation = useCallback(
+    (conversationId: string | null) => {
+      setError(null);
+      switchConversation(conversationId);
+    },
+    [switchConversation]
+  );
+
+  const startConversation = useCallback(
+    async (participantId: string) => {
+      const token = await getAccessToken();
+      if (!token) return null;
+
+      const result = await messageService.startConversation(participantId, token);
+      if (!result.success || !result.data) {
+        setError(result.error?.message || "대화를 시작할 수 없습니다");
+        return null;
+      }
+
+      const conversation = result.data;
+      setConversations((prev) =>
+        prev.some((c) => c.id === conversation.id) ? prev : [conversation, ...prev]
+      );
+      switchConversation(conversation.id);
+      return conversation;
+    },
+    [getAccessToken, switchConversation]
+  );
+
+  const loadOlder = useCallback(async () => {
+    if (!activeId || messages.length === 0) return;
+
+    const token = await getAccessToken();
+    if (!token) return;
+
+    const result = await messageService.getMessages(activeId, token, messages[0].createdAt);
+    if (result.success && result.data) {
+      const older = result.data.messages;
+      setMessages((prev) => [...older.filter((m) => !prev.some((p) => p.id === m.id)), ...prev]);
+      setHasMore(result.data.hasMore);
+    }
+  }, [activeId, messages, getAccessToken]);
+
+  const setTyping = useCallback(
+    (isTyping: boolean) => {
+      if (!userId || !activeId || !typingChannelRef.current) return;
+
+      const payload: TypingPayload = { userId, roomId: activeId, isTyping };
+      typingChannelRef.current.send({ type: "broadcast", event: MESSAGE_TYPES.CHAT_TYPING, payload });
+    },
+    [userId, activeId]
+  );
+
+  const sendMessage = useCallback(
+    async (content: string) => {
+      if (!activeId) return false;
+
+      const token = await getAccessToken();
+      if (!token) return false;
+
+      const result = await messageService.sendMessage(activeId, content, token);
+      if (!result.success || !result.data) {
+        setError(result.error?.message || "메시지를 보내지 못했습니다");
+        return false;
+      }
+
+      const message = result.data;
+      setError(null);
+      setMessages((prev) => appendMessage(prev, message));
+      setConversations((prev) => [
+        ...prev
+          .filter((c) => c.id === message.conversationId)
+          .map((c) => ({ ...c, lastMessage: message.content, lastMessageAt: message.createdAt })),
+        ...prev.filter((c) => c.id !== message.conversationId),
+      ]);
+      setTyping(false);
+      return true;
+    },
+    [activeId, getAccessToken, setTyping]
+  );
+
+  const block = useCallback(
+    async (blockedId: string) => {
+      const token = await getAccessToken();
+      if (!token) return false;
+
+      const result = await messageService.block(blockedId, token);
+      if (!result.success) return false;
+
+      setConversations((prev) => prev.map((c) => (c.participantId === blockedId ? { ...c, blocked: true } : c)));
+      const listed = await messageService.listBlocks(token);
+      if (listed.success && listed.data) setBlocks(listed.data);
+      return true;
+    },
+    [getAccessToken]
+  );
+
+  const unblock = useCallback(
+    async (blockedId: string) => {
+      const token = await getAccessToken();
+      if (!token) return false;
+
+      const result = await messageService.unblock(blockedId, token);
+      if (!result.success) return false;
+
+      setConversations((prev) => prev.map((c) => (c.participantId === blockedId ? { ...c, blocked: false } : c)));
+      setBlocks((prev) => prev.filter((b) => b.userId !== blockedId));
+      return true;
+    },
+    [getAccessToken]
+  );
+
+  return {
+    conversations,
+    unreadCount,
+    isLoaded,
+    activeConversation,
+    messages,
+    hasMore,
+    isPartnerTyping,
+    blocks,
+    error,
+    openConversation,
+    startConversation,
+    loadOlder,
+    sendMessage,
+    setTyping,
+    block,
+    unblock,
+  };
+}
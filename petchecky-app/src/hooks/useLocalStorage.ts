@@ -7,6 +7,9 @@ export const STORAGE_KEYS = {
   PETS: "petchecky_pets",
   SELECTED_PET: "petchecky_selected_pet",
   CHAT_HISTORY: "petchecky_chat_history",
+  CHAT_SHARE_HEALTH_RECORDS: "petchecky_chat_share_health_records",
+  ACTIVE_WALK: "petchecky_active_walk",
+  WALK_GOALS: "petchecky_walk_goals",
 } as const;
 
 type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
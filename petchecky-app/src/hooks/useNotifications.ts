@@ -9,12 +9,20 @@ import {
   getUnreadCount,
   getNotificationSettings,
   saveNotificationSettings,
+  mergeServerNotifications,
   requestPushPermission,
   getPushPermission,
   isPushSupported,
   type Notification,
   type NotificationSettings,
 } from "@/lib/notifications";
+import { notificationService } from "@/lib/services/notificationService";
+
+interface UseNotificationsOptions {
+  // 제공되면 설정을 서버와 동기화하고 서버 리마인더 알림을 받아옵니다.
+  userId?: string;
+  getAccessToken?: () => Promise<string | null>;
+}
 
 interface UseNotificationsReturn {
   // 알림 목록
@@ -33,7 +41,12 @@ interface UseNotificationsReturn {
   requestPush: () => Promise<boolean>;
 }
 
-export function useNotifications(): UseNotificationsReturn {
+// 서버 리마인더가 보호자 시간대 기준으로 방해금지 시간을 판단
+function getTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "Asia/Seoul";
+}
+
+export function useNotifications({ userId, getAccessToken }: UseNotificationsOptions = {}): UseNotificationsReturn {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [settings, setSettings] = useState<NotificationSettings>(() => getNotificationSettings());
@@ -55,6 +68,41 @@ export function useNotifications(): UseNotificationsReturn {
     return () => clearInterval(interval);
   }, [refresh]);
 
+  // 설정을 서버에 저장 (로그인 사용자)
+  const syncSettings = useCallback(async (next: NotificationSettings) => {
+    if (!userId || !getAccessToken) return;
+
+    const token = await getAccessToken();
+    if (!token) return;
+
+    const result = await notificationService.saveSettings(next, getTimeZone(), token);
+    if (!result.success) {
+      console.error("Failed to sync notification settings:", result.error);
+    }
+  }, [userId, getAccessToken]);
+
+  useEffect(() => {
+    if (!userId || !getAccessToken) return;
+    const fetchToken = getAccessToken;
+
+    // 서버 알림 받아오기 (로그인 사용자)
+    async function pullServerNotifications() {
+      const token = await fetchToken();
+      if (!token) return;
+
+      const result = await notificationService.fetchPending(token);
+      if (result.success && result.data && mergeServerNotifications(result.data) > 0) {
+        refresh();
+      }
+    }
+
+    syncSettings(getNotificationSettings());
+    pullServerNotifications();
+
+    const interval = setInterval(pullServerNotifications, 60000);
+    return () => clearInterval(interval);
+  }, [userId, getAccessToken, syncSettings, refresh]);
+
   // 알림 읽음 처리
   const markRead = useCallback((id: string) => {
     markAsRead(id);
@@ -76,8 +124,10 @@ export function useNotifications(): UseNotificationsReturn {
   // 설정 업데이트
   const updateSettings = useCallback((newSettings: Partial<NotificationSettings>) => {
     saveNotificationSettings(newSettings);
-    setSettings(getNotificationSettings());
-  }, []);
+    const saved = getNotificationSettings();
+    setSettings(saved);
+    syncSettings(saved);
+  }, [syncSettings]);
 
   // 푸시 알림 권한 요청
   const requestPush = useCallback(async (): Promise<boolean> => {
@@ -111,4 +161,4 @@ export function useNotifications(): UseNotificationsReturn {
   };
 }
 
-export type { UseNotificationsReturn };
+export type { UseNotificationsOptions, UseNotificationsReturn };
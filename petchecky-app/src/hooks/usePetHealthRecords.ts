@@ -0,0 +1,62 @@
+"use client";
+
+import { useMemo } from "react";
+import { getStorageItem } from "@/lib/safeJson";
+import { collectPetHealthRecords } from "@/lib/petHealthSummary";
+import { ALLERGY_STORAGE_KEY } from "@/lib/dietAllergy";
+import { usePetRecords } from "./usePetRecords";
+import type { PetHealthRecordsInput } from "@/lib/validations/chat";
+
+interface StoredAllergy {
+  petId: string;
+  name: string;
+  severity?: "mild" | "moderate" | "severe";
+}
+
+interface UsePetHealthRecordsOptions {
+  userId?: string;
+  getAccessToken?: () => Promise<string | null>;
+}
+
+interface UsePetHealthRecordsReturn {
+  healthRecords: PetHealthRecordsInput | null;
+  isLoaded: boolean;
+}
+
+/**
+ * 채팅 상담에 공유할 펫 건강 기록 요약 훅
+ * enabled가 false거나 petId가 없으면 아무 기록도 불러오지 않습니다.
+ *
+ * @param petId - 상담 중인 펫 ID
+ * @param enabled - "건강 기록 사용" 설정 여부
+ */
+export function usePetHealthRecords(
+  petId: string | undefined,
+  enabled: boolean,
+  options: UsePetHealthRecordsOptions = {}
+): UsePetHealthRecordsReturn {
+  const petIds = useMemo(() => (enabled && petId ? [petId] : []), [enabled, petId]);
+
+  const medications = usePetRecords("medications", petIds, options);
+  const vetRecords = usePetRecords("vet-records", petIds, options);
+  const vaccinations = usePetRecords("vaccinations", petIds, options);
+
+  const isLoaded = medications.isLoaded && vetRecords.isLoaded && vaccinations.isLoaded;
+
+  const healthRecords = useMemo(() => {
+    if (petIds.length === 0 || !isLoaded) return null;
+
+    const allergies = getStorageItem<StoredAllergy[]>(ALLERGY_STORAGE_KEY, []).filter(
+      (allergy) => allergy.petId === petIds[0]
+    );
+
+    return collectPetHealthRecords({
+      allergies,
+      medications: medications.records,
+      vetRecords: vetRecords.records,
+      vaccinations: vaccinations.records,
+    });
+  }, [petIds, isLoaded, medications.records, vetRecords.records, vaccinations.records]);
+
+  return { healthRecords, isLoaded };
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { getLocalPetRecords, saveLocalPetRecords } from "@/lib/legacyPetData";
+import { petRecordsService } from "@/lib/services/petRecordsService";
+import type { PetRecord, PetRecordInput, PetRecordKind } from "@/types/petRecords";
+
+interface UsePetRecordsOptions {
+  userId?: string;
+  getAccessToken?: () => Promise<string | null>;
+}
+
+interface UsePetRecordsReturn<K extends PetRecordKind> {
+  records: PetRecord<K>[];
+  isLoaded: boolean;
+  addRecord: (petId: string, input: PetRecordInput<K>) => Promise<PetRecord<K> | null>;
+  updateRecord: (record: PetRecord<K>, updates: Partial<PetRecordInput<K>>) => Promise<PetRecord<K> | null>;
+  deleteRecord: (record: PetRecord<K>) => Promise<boolean>;
+}
+
+/**
+ * 펫 건강 기록 훅
+ * - 로그인: /api/pets/[id]/[kind] 라우트 사용
+ * - 비로그인: 통합 localStorage 저장소 사용
+ *
+ * @param kind - 기록 종류
+ * @param petIds - 기록을 불러올 펫 ID 목록 (전체 보기는 모든 펫 ID 전달)
+ */
+export function usePetRecords<K extends PetRecordKind>(
+  kind: K,
+  petIds: string[],
+  { userId, getAccessToken }: UsePetRecordsOptions = {}
+): UsePetRecordsReturn<K> {
+  const [records, setRecords] = useState<PetRecord<K>[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // 배열 참조가 바뀌어도 같은 펫 목록이면 다시 로드하지 않음
+  const petIdsKey = petIds.join(",");
+  const stablePetIds = useMemo(() => (petIdsKey ? petIdsKey.split(",") : []), [petIdsKey]);
+
+  // 데이터 로드
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadRecords() {
+      if (stablePetIds.length === 0) {
+        setRecords([]);
+        setIsLoaded(true);
+        return;
+      }
+
+      if (userId && getAccessToken) {
+        const token = await getAccessToken();
+        if (!token) return;
+
+        const results = await Promise.all(
+          stablePetIds.map((petId) => petRecordsService.list(petId, kind, token))
+        );
+        if (cancelled) return;
+
+        setRecords(results.flatMap((result) => result.data || []));
+      } else {
+        const local = getLocalPetRecords(kind);
+        setRecords(local.filter((record) => stablePetIds.includes(record.petId)));
+      }
+
+      setIsLoaded(true);
+    }
+
+    loadRecords();
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, stablePetIds, userId, getAccessToken]);
+
+  // 비로그인 저장: 보이지 않는 다른 펫의 기록은 유지
+  const persistLocal = useCallback(
+    (update: (all: PetRecord<K>[]) => PetRecord<K>[]) => {
+      const next = update(getLocalPetRecords(kind));
+      saveLocalPetRecords(kind, next);
+      setRecords(next.filter((record) => stablePetIds.includes(record.petId)));
+    },
+    [kind, stablePetIds]
+  );
+
+  // 기록 추가
+  const addRecord = useCallback(
+    async (petId: string, input: PetRecordInput<K>): Promise<PetRecord<K> | null> => {
+      if (userId && getAccessToken) {
+        const token = await getAccessToken();
+        if (!token) return null;
+
+        const result = await petRecordsService.create(petId, kind, input, token);
+        if (!result.success || !result.data) {
+          console.error(`Failed to add ${kind}:`, result.error);
+          return null;
+        }
+        const created = result.data;
+        setRecords((prev) => [...prev, created]);
+        return created;
+      }
+
+      const created = { ...input, id: uuidv4(), petId } as PetRecord<K>;
+      persistLocal((all) => [...all, created]);
+      return created;
+    },
+    [kind, userId, getAccessToken, persistLocal]
+  );
+
+  // 기록 수정
+  const updateRecord = useCallback(
+    async (record: PetRecord<K>, updates: Partial<PetRecordInput<K>>): Promise<PetRecord<K> | null> => {
+      if (userId && getAccessToken) {
+        const token = await getAccessToken();
+        if (!token) return null;
+
+        const result = await petRecordsService.update(record.petId, kind, record.id, updates, token);
+        if (!result.success || !result.data) {
+          console.error(`Failed to update ${kind}:`, result.error);
+          return null;
+        }
+        const updated = result.data;
+        setRecords((prev) => prev.map((r) => (r.id === record.id ? updated : r)));
+        return updated;
+      }
+
+      const updated = { ...record, ...updates } as PetRecord<K>;
+      persistLocal((all) => all.map((r) => (r.id === record.id ? updated : r)));
+      return updated;
+    },
+    [kind, userId, getAccessToken, persistLocal]
+  );
+
+  // 기록 삭제
+  const deleteRecord = useCallback(
+    async (record: PetRecord<K>): Promise<boolean> => {
+      if (userId && getAccessToken) {
+        const token = await getAccessToken();
+        if (!token) return false;
+
+        const result = await petRecordsService.remove(record.petId, kind, record.id, token);
+        if (!result.success) {
+          console.error(`Failed to delete ${kind}:`, result.error);
+          return false;
+        }
+        setRecords((prev) => prev.filter((r) => r.id !== record.id));
+        return true;
+      }
+
+      persistLocal((all) => all.filter((r) => r.id !== record.id));
+      return true;
+    },
+    [kind, userId, getAccessToken, persistLocal]
+  );
+
+  return {
+    records,
+    isLoaded,
+    addRecord,
+    updateRecord,
+    deleteRecord,
+  };
+}
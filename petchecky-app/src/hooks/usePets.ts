@@ -14,7 +14,20 @@ import {
   setStorageItem,
   removeStorageItem,
 } from "./useLocalStorage";
+import {
+  collectLegacyPetData,
+  migrateLegacyPetStorage,
+  clearLocalPetRecords,
+  getLocalPetRecords,
+  saveLocalPetRecords,
+  getPendingRecordKinds,
+  markRecordKindsDone,
+  LEGACY_MIGRATION_FLAG,
+  LEGACY_SYNC_FLAG_PREFIX,
+} from "@/lib/legacyPetData";
+import { petRecordsService } from "@/lib/services/petRecordsService";
 import type { PetProfile } from "@/types/chat";
+import type { PetRecord, PetRecordKind } from "@/types/petRecords";
 
 // PetProfile 타입 re-export (하위 호환성)
 export type { PetProfile } from "@/types/chat";
@@ -53,6 +66,76 @@ function saveSelectedPetId(id: string | null): void {
   }
 }
 
+// 로그인 사용자: 통합된 로컬 펫/기록을 서버로 1회 업로드
+// (이후 추가된 기록 종류는 그 종류만 다시 업로드, 펫은 서버에서 이름+종류로 중복 제거)
+// 저장되지 않은 펫/기록이 있으면 그것만 로컬에 남기고 완료 표시 없이 다음 로드 때 다시 시도
+async function syncLegacyPetData(
+  userId: string,
+  getAccessToken: () => Promise<string | null>
+): Promise<void> {
+  const flagKey = `${LEGACY_SYNC_FLAG_PREFIX}${userId}`;
+  let pendingKinds: PetRecordKind[];
+  try {
+    // 통합 저장소로 옮기지 못했으면 레거시 키가 원본이므로 업로드하지 않음
+    if (getPendingRecordKinds(LEGACY_MIGRATION_FLAG).length > 0) return;
+    pendingKinds = getPendingRecordKinds(flagKey);
+  } catch {
+    return;
+  }
+  if (pendingKinds.length === 0) return;
+
+  // 기록은 통합 저장소에서만 읽음 (레거시 키는 백업으로 남아 있어 다시 읽으면 중복 업로드)
+  const { pets } = collectLegacyPetData();
+  const records = Object.fromEntries(
+    pendingKinds.map((kind) => [kind, getLocalPetRecords(kind)])
+  ) as Partial<Record<PetRecordKind, PetRecord[]>>;
+  const hasRecords = Object.values(records).some((list) => list && list.length > 0);
+  if (pets.length === 0 && !hasRecords) return;
+
+  const token = await getAccessToken();
+  if (!token) return;
+
+  const result = await petRecordsService.migrateLegacy(
+    {
+      pets: pets.map(({ id, name, species, breed, age, weight }) => ({
+        localId: id,
+        name,
+        species,
+        breed,
+        age,
+        weight,
+      })),
+      records: records as unknown as Record<string, Record<string, unknown>[]>,
+    },
+    token
+  );
+
+  if (!result.success || !result.data) {
+    console.error("Failed to sync legacy pet data:", result.error);
+    return;
+  }
+
+  // 업로드된 기록은 서버가 원본이므로 로컬 사본 제거 (다른 계정으로 재업로드 방지)
+  const { failedPets = [], failedRecords = {} } = result.data;
+  let pending = failedPets.length > 0;
+  pendingKinds.forEach((kind) => {
+    const failedIds = new Set(failedRecords[kind] || []);
+    const remaining = (records[kind] || []).filter((record) => failedIds.has(record.id));
+    if (remaining.length === 0) {
+      clearLocalPetRecords([kind]);
+    } else {
+      saveLocalPetRecords(kind, remaining);
+      pending = true;
+    }
+  });
+
+  if (pending) {
+    console.error("Some legacy pet data could not be synced:", { failedPets, failedRecords });
+  } else {
+    markRecordKindsDone(flagKey);
+  }
+}
+
 // DB -> UI 변환 함수
 function dbPetToProfile(pet: Pet): PetProfile {
   return {
@@ -60,14 +143,19 @@ function dbPetToProfile(pet: Pet): PetProfile {
     name: pet.name,
     species: pet.species,
     breed: pet.breed,
+    breedId: pet.breed_id ?? undefined,
     age: pet.age,
     weight: Number(pet.weight),
+    birthDate: pet.birth_date ?? undefined,
+    lifestyle: pet.lifestyle ?? undefined,
   };
 }
 
 interface UsePetsOptions {
   userId?: string;
   authLoading?: boolean;
+  // 제공되면 레거시 로컬 데이터를 서버로 마이그레이션합니다.
+  getAccessToken?: () => Promise<string | null>;
 }
 
 interface UsePetsReturn {
@@ -80,7 +168,7 @@ interface UsePetsReturn {
   deletePet: (petId: string) => Promise<void>;
 }
 
-export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePetsReturn {
+export function usePets({ userId, authLoading = false, getAccessToken }: UsePetsOptions): UsePetsReturn {
   const [pets, setPets] = useState<PetProfile[]>([]);
   const [selectedPetId, setSelectedPetId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
@@ -93,7 +181,14 @@ export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePet
     async function loadPets() {
       if (authLoading) return;
 
+      // 페이지별 레거시 키를 통합 저장소로 1회 정리
+      migrateLegacyPetStorage();
+
       if (userId) {
+        if (getAccessToken) {
+          await syncLegacyPetData(userId, getAccessToken);
+        }
+
         // 로그인: Supabase에서 로드
         const dbPets = await getPets(userId);
         if (dbPets.length > 0) {
@@ -117,8 +212,11 @@ export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePet
                 name: localPet.name,
                 species: localPet.species,
                 breed: localPet.breed,
+                breed_id: localPet.breedId ?? null,
                 age: localPet.age,
                 weight: localPet.weight,
+                birth_date: localPet.birthDate ?? null,
+                lifestyle: localPet.lifestyle ?? null,
               });
               if (newPet) {
                 migratedPets.push(dbPetToProfile(newPet));
@@ -147,7 +245,7 @@ export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePet
     }
 
     loadPets();
-  }, [userId, authLoading]);
+  }, [userId, authLoading, getAccessToken]);
 
   // 펫 선택
   const selectPet = useCallback((petId: string) => {
@@ -164,8 +262,11 @@ export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePet
           name: profile.name,
           species: profile.species,
           breed: profile.breed,
+          breed_id: profile.breedId ?? null,
           age: profile.age,
           weight: profile.weight,
+          birth_date: profile.birthDate ?? null,
+          lifestyle: profile.lifestyle ?? null,
         });
         if (updated) {
           const updatedProfile = dbPetToProfile(updated);
@@ -178,8 +279,11 @@ export function usePets({ userId, authLoading = false }: UsePetsOptions): UsePet
           name: profile.name,
           species: profile.species,
           breed: profile.breed,
+          breed_id: profile.breedId ?? null,
           age: profile.age,
           weight: profile.weight,
+          birth_date: profile.birthDate ?? null,
+          lifestyle: profile.lifestyle ?? null,
         });
         if (newPet) {
           const newProfile = dbPetToProfile(newPet);
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect, useCallback, useSyncExternalStore } from "react";
+import { getStorageItem, removeStorageItem, setStorageItem, STORAGE_KEYS } from "./useLocalStorage";
+import {
+  appendTrackPoint,
+  summarizeTrack,
+  type ActiveWalk,
+  type TrackSummary,
+} from "@/lib/walkTracking";
+
+interface UseWalkTrackerReturn {
+  activeWalk: ActiveWalk | null;
+  summary: TrackSummary | null;
+  error: string | null;
+  start: (petId: string) => void;
+  /** 산책을 끝내고 기록을 반환 (기록 중이 아니면 null) */
+  finish: () => { walk: ActiveWalk; endedAt: number } | null;
+  cancel: () => void;
+}
+
+const UNSUPPORTED_MESSAGE = "위치 서비스를 지원하지 않는 브라우저입니다.";
+
+// 저장된 산책은 클라이언트에서만 읽을 수 있으므로 하이드레이션이 끝난 뒤에 노출
+const subscribeNoop = () => () => {};
+
+function loadSavedWalk(): ActiveWalk | null {
+  const saved = getStorageItem<ActiveWalk | null>(STORAGE_KEYS.ACTIVE_WALK, null);
+  return saved && typeof saved.startedAt === "number" && Array.isArray(saved.points) ? saved : null;
+}
+
+function getPositionErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return "위치 권한이 거부되었습니다. 브라우저 설정에서 위치 권한을 허용해주세요.";
+    case error.POSITION_UNAVAILABLE:
+      return "위치 정보를 사용할 수 없습니다.";
+    case error.TIMEOUT:
+      return "위치 요청 시간이 초과되었습니다.";
+    default:
+      return "위치 정보를 가져올 수 없습니다.";
+  }
+}
+
+/**
+ * GPS 산책 기록 훅
+ * - watchPosition으로 경로를 기록하고 1초마다 거리/시간/페이스를 갱신
+ * - 진행 중인 산책은 localStorage에 저장해 새로고침/탭 재시작 후에도 이어서 기록
+ * - 기록 중에는 화면 꺼짐 방지(Wake Lock)를 요청 (지원 브라우저만)
+ */
+export function useWalkTracker(): UseWalkTrackerReturn {
+  // 진행 중이던 산책 복원
+  const [activeWalk, setActiveWalk] = useState<ActiveWalk | null>(loadSavedWalk);
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+  const hydrated = useSyncExternalStore(subscribeNoop, () => true, () => false);
+
+  // 새 위치가 기록될 때마다 저장
+  useEffect(() => {
+    if (activeWalk) {
+      setStorageItem(STORAGE_KEYS.ACTIVE_WALK, activeWalk);
+    }
+  }, [activeWalk]);
+
+  const isActive = activeWalk !== null;
+
+  // 위치 추적
+  useEffect(() => {
+    if (!isActive) return;
+
+    if (!navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setError(null);
+        setActiveWalk((prev) => {
+          if (!prev) return prev;
+          const points = appendTrackPoint(prev.points, {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            time: position.timestamp,
+            accuracy: position.coords.accuracy,
+          });
+          return points === prev.points ? prev : { ...prev, points };
+        });
+      },
+      (positionError) => setError(getPositionErrorMessage(positionError)),
+      {
+        enableHighAccuracy: true,
+        timeout: 20000,
+        maximumAge: 0,
+      }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [isActive]);
+
+  // 경과 시간 표시
+  useEffect(() => {
+    if (!isActive) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  // 화면 꺼짐 방지 (화면이 꺼지면 브라우저가 위치 수신을 멈춤)
+  useEffect(() => {
+    if (!isActive || !("wakeLock" in navigator)) return;
+
+    let wakeLock: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      try {
+        const sentinel = await navigator.wakeLock.request("screen");
+        if (released) {
+          sentinel.release();
+        } else {
+          wakeLock = sentinel;
+        }
+      } catch {
+        // 배터리 절약 모드 등에서는 거부될 수 있음
+      }
+    };
+
+    // 다른 탭에 갔다 오면 Wake Lock이 해제되므로 다시 요청
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") request();
+    };
+
+    request();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      wakeLock?.release();
+    };
+  }, [isActive]);
+
+  const start = useCallback((petId: string) => {
+    const walk: ActiveWalk = { petId, startedAt: Date.now(), points: [] };
+    setActiveWalk(walk);
+    setNow(walk.startedAt);
+    setError(null);
+  }, []);
+
+  const finish = useCallback(() => {
+    if (!activeWalk) return null;
+
+    const endedAt = Date.now();
+    removeStorageItem(STORAGE_KEYS.ACTIVE_WALK);
+    setActiveWalk(null);
+    return { walk: activeWalk, endedAt };
+  }, [activeWalk]);
+
+  const cancel = useCallback(() => {
+    removeStorageItem(STORAGE_KEYS.ACTIVE_WALK);
+    setActiveWalk(null);
+    setError(null);
+  }, []);
+
+  const visibleWalk = hydrated ? activeWalk : null;
+  const summary = visibleWalk ? summarizeTrack(visibleWalk.points, visibleWalk.startedAt, now) : null;
+  const unsupported = isActive && typeof navigator !== "undefined" && !navigator.geolocation;
+
+  return {
+    activeWalk: visibleWalk,
+    summary,
+    error: unsupported ? UNSUPPORTED_MESSAGE : error,
+    start,
+    finish,
+    cancel,
+  };
+}
@@ -13,6 +13,7 @@ import {
   PresencePayload,
   TypingPayload,
 } from "@/lib/websocket";
+import { supabase } from "@/lib/supabase";
 
 // ============================================
 // useWebSocket Hook
@@ -41,21 +42,38 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
   } = options;
 
   const [status, setStatus] = useState<WebSocketStatus>("disconnected");
+  // 토큰을 받은 뒤 비동기로 만들어지므로, 구독 콜백이 새 클라이언트를 다시 구독하도록 state로도 보관
+  const [client, setClient] = useState<WebSocketClient | null>(null);
   const clientRef = useRef<WebSocketClient | null>(null);
 
   // Initialize client
   useEffect(() => {
-    clientRef.current = createWebSocketClient({
-      url,
-      onStatusChange: setStatus,
-      ...restOptions,
+    let cancelled = false;
+
+    // 게이트웨이는 Supabase access token으로 사용자를 확인함 (브라우저 WebSocket은 헤더를 못 보내 쿼리로 전달)
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (cancelled) return;
+
+      const token = session?.access_token;
+      const connectUrl = token
+        ? `${url}${url.includes("?") ? "&" : "?"}access_token=${encodeURIComponent(token)}`
+        : url;
+
+      const nextClient = createWebSocketClient({
+        url: connectUrl,
+        onStatusChange: setStatus,
+        ...restOptions,
+      });
+      clientRef.current = nextClient;
+      setClient(nextClient);
+
+      if (autoConnect) {
+        nextClient.connect();
+      }
     });
 
-    if (autoConnect) {
-      clientRef.current.connect();
-    }
-
     return () => {
+      cancelled = true;
       clientRef.current?.disconnect();
       clientRef.current = null;
     };
@@ -75,9 +93,9 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
   }, []);
 
   const subscribe = useCallback(<T,>(type: string, handler: (payload: T) => void) => {
-    if (!clientRef.current) return () => {};
-    return clientRef.current.on(type, handler);
-  }, []);
+    if (!client) return () => {};
+    return client.on(type, handler);
+  }, [client]);
 
   return {
     status,
@@ -86,7 +104,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}): UseWebSocketRet
     disconnect,
     send,
     subscribe,
-    client: clientRef.current,
+    client,
   };
 }
 
@@ -166,6 +184,16 @@ export function useRealTimeChat({
   const { subscribe, send, isConnected } = useWebSocket();
   const typingTimeouts = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
 
+  // 게이트웨이는 참여한 방의 메시지만 전달함
+  useEffect(() => {
+    if (!isConnected) return;
+
+    send(MESSAGE_TYPES.ROOM_JOIN, { roomId });
+    return () => {
+      send(MESSAGE_TYPES.ROOM_LEAVE, { roomId });
+    };
+  }, [isConnected, roomId, send]);
+
   // Subscribe to messages
   useEffect(() => {
     const unsubscribe = subscribe<ChatMessagePayload>(
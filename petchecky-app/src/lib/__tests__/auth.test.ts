@@ -13,6 +13,8 @@
 // Re-implement the functions locally to test the logic
 // This avoids the need to mock Supabase for these pure functions
 
+import { normalizeSpecies } from '../species';
+
 /**
  * Local implementation of sanitizeUserInput for testing
  */
@@ -68,7 +70,7 @@ function sanitizePetProfile(profile: {
   return {
     name: sanitizeUserInput(profile.name || '').slice(0, 50),
     breed: sanitizeUserInput(profile.breed || '').slice(0, 50),
-    species: profile.species === 'dog' || profile.species === 'cat' ? profile.species : 'dog',
+    species: normalizeSpecies(profile.species),
     age: Math.max(0, Math.min(100, Number(profile.age) || 0)),
     weight: Math.max(0, Math.min(200, Number(profile.weight) || 0)),
   };
@@ -221,11 +223,16 @@ describe('sanitizePetProfile', () => {
       expect(result.species).toBe('cat');
     });
 
+    it('should accept species from the registry', () => {
+      expect(sanitizePetProfile({ species: 'rabbit' }).species).toBe('rabbit');
+      expect(sanitizePetProfile({ species: 'bird' }).species).toBe('bird');
+    });
+
     it('should default to "dog" for invalid species', () => {
-      expect(sanitizePetProfile({ species: 'bird' }).species).toBe('dog');
+      expect(sanitizePetProfile({ species: 'fish' }).species).toBe('dog');
       expect(sanitizePetProfile({ species: '' }).species).toBe('dog');
       expect(sanitizePetProfile({ species: undefined }).species).toBe('dog');
-      expect(sanitizePetProfile({ species: 'rabbit' }).species).toBe('dog');
+      expect(sanitizePetProfile({ species: 'DOG' }).species).toBe('dog');
     });
   });
 
@@ -0,0 +1,147 @@
+/**
+ * Backup tests
+ */
+
+import {
+  BackupFormatError,
+  applyRestorePlan,
+  collectLocalData,
+  countItems,
+  createBackup,
+  planRestore,
+  readBackup,
+} from "../backup";
+import { migrateBackupFile } from "../backup/migrations";
+import { BACKUP_VERSION } from "../backup/schema";
+
+// jest.setup.ts stubs localStorage with jest.fn(); backup reads and writes real keys
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; },
+    clear: () => { store = {}; },
+    get length() { return Object.keys(store).length; },
+    key: (i: number) => Object.keys(store)[i] ?? null,
+  };
+})();
+
+Object.defineProperty(window, "localStorage", { value: localStorageMock });
+
+const pet = { id: "pet-1", name: "Coco", species: "dog", breed: "Maltese", age: 5, weight: 3.4 };
+
+function reminder(id: string, title = "Heartworm") {
+  return {
+    id,
+    petId: "pet-1",
+    petName: "Coco",
+    type: "medication",
+    title,
+    date: "2025-03-01",
+    time: "09:00",
+    repeat: "monthly",
+    enabled: true,
+    createdAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+function healthEntry(id: string, petId: string) {
+  return { id, petId, date: "2025-03-01", weight: 3.4 };
+}
+
+function fileWith(data: Record<string, unknown[]>, version = BACKUP_VERSION) {
+  return JSON.stringify({ format: "petchecky-backup", version, exportedAt: "2025-04-01T00:00:00.000Z", data });
+}
+
+describe("backup", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("migrateBackupFile", () => {
+    it("should migrate 1.0 exports to the current version", () => {
+      const file = migrateBackupFile({
+        version: "1.0",
+        exportDate: "2024-12-01T00:00:00.000Z",
+        pets: [pet],
+        vaccination: [{ id: "v1" }],
+        walkRecords: [],
+      });
+
+      expect(file.version).toBe(BACKUP_VERSION);
+      expect(file.exportedAt).toBe("2024-12-01T00:00:00.000Z");
+      expect(file.data).toEqual({ pets: [pet], vaccinations: [{ id: "v1" }], walks: [] });
+    });
+
+    it("should reject files from a newer version", () => {
+      expect(() => migrateBackupFile(JSON.parse(fileWith({}, BACKUP_VERSION + 1)))).toThrow(
+        expect.objectContaining({ reason: "newerVersion" })
+      );
+    });
+
+    it("should reject non-backup files", () => {
+      expect(() => migrateBackupFile({ hello: "world" })).toThrow(BackupFormatError);
+    });
+  });
+
+  describe("readBackup", () => {
+    it("should skip items that fail validation", async () => {
+      const backup = await readBackup(
+        fileWith({ pets: [pet, { id: "pet-2", name: "" }], reminders: [reminder("r1")] })
+      );
+
+      expect(backup.data.pets).toHaveLength(1);
+      expect(backup.data.reminders).toHaveLength(1);
+      expect(backup.rejected).toEqual({ pets: 1 });
+    });
+
+    it("should round-trip an unencrypted export", async () => {
+      localStorage.setItem("petchecky_pets", JSON.stringify([pet]));
+      const content = await createBackup(collectLocalData());
+      const backup = await readBackup(content);
+
+      expect(backup.data.pets).toEqual([pet]);
+      expect(countItems(backup.data).pets).toBe(1);
+    });
+  });
+
+  describe("planRestore", () => {
+    const current = { ...collectLocalData(), reminders: [reminder("r1"), reminder("r2"), { broken: true }] };
+    const incoming = {
+      ...collectLocalData(),
+      reminders: [reminder("r1"), reminder("r2", "Changed"), reminder("r3")],
+    } as Parameters<typeof planRestore>[1];
+
+    it("should merge by id and keep local-only items", () => {
+      const { reminders, pets } = planRestore(current, incoming);
+
+      expect(reminders).toMatchObject({ mode: "merge", added: 1, updated: 1, unchanged: 1, removed: 0 });
+      expect(reminders.result).toHaveLength(4);
+      expect(pets.mode).toBe("skip");
+    });
+
+    it("should count removed items on replace", () => {
+      const { reminders } = planRestore(current, incoming, { reminders: "replace" });
+
+      expect(reminders).toMatchObject({ added: 1, updated: 1, unchanged: 1, removed: 1 });
+      expect(reminders.result).toEqual(incoming.reminders);
+    });
+  });
+
+  describe("applyRestorePlan", () => {
+    it("should split per-pet domains back into their keys", () => {
+      localStorage.setItem("petchecky_health_old", JSON.stringify([healthEntry("h0", "old")]));
+      const incoming = {
+        ...collectLocalData(),
+        healthTracking: [healthEntry("h1", "pet-1"), healthEntry("h2", "pet-2")],
+      } as Parameters<typeof planRestore>[1];
+
+      applyRestorePlan(planRestore(collectLocalData(), incoming, { healthTracking: "replace" }));
+
+      expect(JSON.parse(localStorage.getItem("petchecky_health_pet-1")!)).toEqual([healthEntry("h1", "pet-1")]);
+      expect(JSON.parse(localStorage.getItem("petchecky_health_pet-2")!)).toEqual([healthEntry("h2", "pet-2")]);
+      expect(localStorage.getItem("petchecky_health_old")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Billing renewal schedule tests
+ */
+
+import {
+  addBillingMonth,
+  buildRenewalOrderId,
+  GRACE_PERIOD_DAYS,
+  isStaleProcessing,
+  MAX_CHARGE_ATTEMPTS,
+  planChargeFailure,
+  toPaymentStatus,
+} from "../billing/schedule";
+
+describe("billing schedule", () => {
+  describe("addBillingMonth", () => {
+    it("should keep the time of day", () => {
+      const next = addBillingMonth(new Date("2025-03-15T03:20:00.000Z"), 15);
+
+      expect(next.toISOString()).toBe("2025-04-15T03:20:00.000Z");
+    });
+
+    it("should clamp to the last day of shorter months and return to the anchor day", () => {
+      const feb = addBillingMonth(new Date("2025-01-31T00:00:00.000Z"), 31);
+      const mar = addBillingMonth(feb, 31);
+
+      expect(feb.toISOString().slice(0, 10)).toBe("2025-02-28");
+      expect(mar.toISOString().slice(0, 10)).toBe("2025-03-31");
+    });
+
+    it("should roll over the year", () => {
+      const next = addBillingMonth(new Date("2025-12-10T00:00:00.000Z"), 10);
+
+      expect(next.toISOString().slice(0, 10)).toBe("2026-01-10");
+    });
+  });
+
+  describe("buildRenewalOrderId", () => {
+    it("should be unique per cycle and attempt within Toss orderId rules", () => {
+      const id = "3f2b8c1e-1111-2222-3333-444455556666";
+      const first = buildRenewalOrderId(id, "2025-03-01T00:00:00+00:00", 1);
+      const retry = buildRenewalOrderId(id, "2025-03-01T00:00:00+00:00", 2);
+
+      expect(first).toBe("RENEW_3f2b8c1e1111_20250301_1");
+      expect(retry).not.toBe(first);
+      expect(first).toMatch(/^[A-Za-z0-9_-]{6,64}$/);
+    });
+  });
+
+  describe("planChargeFailure", () => {
+    const periodStart = new Date("2025-03-01T00:00:00.000Z");
+
+    it("should schedule a retry within the grace period", () => {
+      const plan = planChargeFailure(1, periodStart, new Date("2025-02-28T12:00:00.000Z"));
+
+      expect(plan.cycleStatus).toBe("failed");
+      expect(plan.subscriptionStatus).toBe("payment_failed");
+      expect(plan.nextRetryAt?.toISOString()).toBe("2025-03-01T12:00:00.000Z");
+      expect(plan.gracePeriodEnd.toISOString()).toBe(
+        new Date(periodStart.getTime() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      );
+    });
+
+    it("should expire after the last attempt", () => {
+      const plan = planChargeFailure(MAX_CHARGE_ATTEMPTS, periodStart, new Date("2025-03-05T00:00:00.000Z"));
+
+      expect(plan.cycleStatus).toBe("abandoned");
+      expect(plan.subscriptionStatus).toBe("expired");
+      expect(plan.nextRetryAt).toBeNull();
+    });
+
+    it("should expire when the next retry would fall after the grace period", () => {
+      const plan = planChargeFailure(3, periodStart, new Date("2025-03-06T00:00:00.000Z"));
+
+      expect(plan.subscriptionStatus).toBe("expired");
+    });
+  });
+
+  describe("isStaleProcessing", () => {
+    it("should treat old processing attempts as interrupted", () => {
+      const now = new Date("2025-03-01T00:30:00.000Z");
+
+      expect(isStaleProcessing("2025-03-01T00:25:00.000Z", now)).toBe(false);
+      expect(isStaleProcessing("2025-03-01T00:10:00.000Z", now)).toBe(true);
+    });
+  });
+
+  describe("toPaymentStatus", () => {
+    it("should map Toss statuses to payment records", () => {
+      expect(toPaymentStatus("DONE")).toBe("done");
+      expect(toPaymentStatus("CANCELED")).toBe("cancelled");
+      expect(toPaymentStatus("PARTIAL_CANCELED")).toBe("partial_cancelled");
+      expect(toPaymentStatus("ABORTED")).toBe("aborted");
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Breed catalog tests
+ */
+
+import {
+  BREED_CATALOG,
+  describeBreedForPrompt,
+  findBreed,
+  formatWeightRange,
+  getBreed,
+  getWeightStatus,
+  normalizeBreedText,
+  resolveBreed,
+  searchBreeds,
+} from "../breeds";
+import { PET_SPECIES } from "../species";
+
+describe("BREED_CATALOG", () => {
+  it("has unique ids", () => {
+    const ids = BREED_CATALOG.map((breed) => breed.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("has at least one breed for every species", () => {
+    for (const species of PET_SPECIES) {
+      expect(BREED_CATALOG.some((breed) => breed.species === species)).toBe(true);
+    }
+  });
+
+  it("has names in every language and valid ranges", () => {
+    for (const breed of BREED_CATALOG) {
+      expect(breed.names.ko && breed.names.en && breed.names.ja && breed.names.zh).toBeTruthy();
+      if (breed.weight) expect(breed.weight.min).toBeLessThan(breed.weight.max);
+      if (breed.lifeExpectancy) expect(breed.lifeExpectancy.min).toBeLessThan(breed.lifeExpectancy.max);
+    }
+  });
+});
+
+describe("findBreed", () => {
+  it("matches names regardless of spacing, case and language", () => {
+    for (const text of ["골든 리트리버", "골든리트리버", "Golden Retriever", "golden-retriever", "金毛寻回犬"]) {
+      expect(findBreed(text, "dog")?.id).toBe("golden-retriever");
+    }
+  });
+
+  it("matches aliases", () => {
+    expect(findBreed("코숏", "cat")?.id).toBe("korean-shorthair");
+    expect(findBreed("푸들", "dog")?.id).toBe("toy-poodle");
+  });
+
+  it("scopes shared aliases to the species", () => {
+    expect(findBreed("골든", "dog")?.id).toBe("golden-retriever");
+    expect(findBreed("골든", "hamster")?.id).toBe("syrian-hamster");
+    expect(findBreed("믹스", "cat")?.id).toBe("mixed-cat");
+  });
+
+  it("does not match partial text", () => {
+    expect(findBreed("골든리트", "dog")).toBeNull();
+    expect(findBreed("", "dog")).toBeNull();
+  });
+});
+
+describe("searchBreeds", () => {
+  it("ranks exact matches before prefix and partial matches", () => {
+    const ids = searchBreeds("리트리버", "dog").map((breed) => breed.id);
+    expect(ids).toEqual(["golden-retriever", "labrador-retriever"]);
+
+    expect(searchBreeds("시바", "dog")[0].id).toBe("shiba-inu");
+  });
+
+  it("returns the species list for an empty query", () => {
+    const results = searchBreeds("", "rabbit", 3);
+    expect(results).toHaveLength(3);
+    expect(results.every((breed) => breed.species === "rabbit")).toBe(true);
+  });
+
+  it("returns nothing for unknown breeds", () => {
+    expect(searchBreeds("없는품종", "dog")).toEqual([]);
+  });
+});
+
+describe("resolveBreed", () => {
+  it("prefers breedId over free text", () => {
+    expect(resolveBreed({ species: "dog", breed: "우리집 강아지", breedId: "maltese" })?.id).toBe("maltese");
+  });
+
+  it("falls back to the breed name for legacy profiles", () => {
+    expect(resolveBreed({ species: "dog", breed: "웰시코기" })?.id).toBe("welsh-corgi");
+  });
+
+  it("ignores a breedId from another species", () => {
+    expect(resolveBreed({ species: "cat", breed: "페르시안", breedId: "maltese" })?.id).toBe("persian");
+    expect(resolveBreed({ species: "cat", breed: "기타", breedId: "unknown" })).toBeNull();
+  });
+
+  it("looks up ids directly", () => {
+    expect(getBreed("ragdoll")?.names.en).toBe("Ragdoll");
+    expect(getBreed(undefined)).toBeNull();
+  });
+});
+
+describe("weight helpers", () => {
+  const range = { min: 2, max: 4 };
+
+  it("classifies weight against the breed range", () => {
+    expect(getWeightStatus(1.5, range)).toBe("under");
+    expect(getWeightStatus(3, range)).toBe("normal");
+    expect(getWeightStatus(4.5, range)).toBe("slightlyOver");
+    expect(getWeightStatus(5, range)).toBe("over");
+  });
+
+  it("formats small animals in grams", () => {
+    expect(formatWeightRange(range)).toBe("2-4kg");
+    expect(formatWeightRange({ min: 0.03, max: 0.045 })).toBe("30-45g");
+  });
+
+  it("normalizes breed text", () => {
+    expect(normalizeBreedText(" Shih-Tzu ")).toBe("shihtzu");
+  });
+});
+
+describe("describeBreedForPrompt", () => {
+  it("includes weight range and common issues", () => {
+    const description = describeBreedForPrompt({ species: "dog", breed: "말티즈" });
+    expect(description).toContain("2-4kg");
+    expect(description).toContain("슬개골 탈구");
+  });
+
+  it("returns null for unknown or mixed breeds", () => {
+    expect(describeBreedForPrompt({ species: "dog", breed: "기타" })).toBeNull();
+    expect(describeBreedForPrompt({ species: "dog", breed: "믹스견" })).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Unified calendar (event sources + iCal export) tests
+ */
+
+import {
+  buildICalendar,
+  collectCalendarEvents,
+  foldLine,
+  getCalendarSources,
+  registerCalendarSource,
+  type CalendarData,
+  type CalendarEvent,
+} from "../calendar";
+import type { Medication, PetReminder, Vaccination, VetRecord } from "@/types/petRecords";
+
+const range = { from: "2025-03-01", to: "2025-03-31" };
+
+function data(overrides: Partial<CalendarData> = {}): CalendarData {
+  return {
+    pets: [{ id: "pet-1", name: "초코", species: "hamster", age: 2 }],
+    records: {},
+    today: "2025-03-10",
+    ...overrides,
+  };
+}
+
+function vetRecord(overrides: Partial<VetRecord> = {}): VetRecord {
+  return {
+    id: "vet-1",
+    petId: "pet-1",
+    date: "2025-03-05",
+    hospitalName: "행복동물병원",
+    visitType: "treatment",
+    nextVisitDate: "2025-03-19",
+    createdAt: "2025-03-05T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("calendar registry", () => {
+  it("registers the built-in sources", () => {
+    expect(getCalendarSources().map((s) => s.id)).toEqual(
+      expect.arrayContaining(["vaccinations", "medications", "vet-records", "walks", "insurance-claims", "reminders", "reservations", "health"])
+    );
+  });
+
+  it("collects events from registered sources within the range, sorted", () => {
+    registerCalendarSource({
+      id: "test-source",
+      collect: () => [
+        { id: "late", petName: "초코", type: "reminder", title: "B", date: "2025-03-02", time: "18:00" },
+        { id: "early", petName: "초코", type: "reminder", title: "A", date: "2025-03-02", time: "08:00" },
+        { id: "outside", petName: "초코", type: "reminder", title: "C", date: "2025-04-02" },
+      ],
+    });
+
+    const events = collectCalendarEvents(data(), range).filter((e) => e.sourceId === "test-source");
+    expect(events.map((e) => e.id)).toEqual(["early", "late"]);
+
+    registerCalendarSource({ id: "test-source", collect: () => [] });
+  });
+});
+
+describe("built-in sources", () => {
+  it("includes vet visits and follow-up dates", () => {
+    const events = collectCalendarEvents(data({ records: { "vet-records": [vetRecord()] } }), range);
+
+    expect(events.map((e) => [e.date, e.title])).toEqual([
+      ["2025-03-05", "행복동물병원 치료"],
+      ["2025-03-19", "행복동물병원 재진"],
+    ]);
+  });
+
+  it("expands repeating reminders", () => {
+    const reminder: PetReminder = {
+      id: "rem-1",
+      petId: "pet-1",
+      petName: "초코",
+      type: "grooming",
+      title: "목욕",
+      date: "2025-03-03",
+      time: "10:00",
+      repeat: "weekly",
+      enabled: true,
+    };
+
+    const events = collectCalendarEvents(data({ records: { reminders: [reminder] } }), range);
+    expect(events.map((e) => e.date)).toEqual(["2025-03-03", "2025-03-10", "2025-03-17", "2025-03-24", "2025-03-31"]);
+  });
+
+  it("adds daily medication doses and the predicted refill date", () => {
+    const med: Medication = {
+      id: "med-1",
+      petId: "pet-1",
+      name: "항생제",
+      dosage: "1정",
+      frequency: "twice",
+      timeOfDay: ["morning", "evening"],
+      startDate: "2025-03-08",
+      endDate: "2025-03-20",
+      remainingDoses: 10,
+      isActive: true,
+      logs: [{ id: "l1", date: "2025-03-09", time: "morning", taken: true }],
+    };
+
+    const events = collectCalendarEvents(data({ records: { medications: [med] } }), range);
+    const doses = events.filter((e) => e.id.startsWith("medication:"));
+
+    expect(doses).toHaveLength(13);
+    expect(doses[1]).toMatchObject({ date: "2025-03-09", time: "08:00", description: "아침·저녁 · 1/2회 복용" });
+    expect(events.find((e) => e.id === "medication-refill:med-1")?.date).toBe("2025-03-12");
+  });
+
+  it("uses the vaccine schedule instead of manual next dates for known vaccines", () => {
+    const vaccination = (name: string, id: string): Vaccination => ({
+      id,
+      petId: "pet-1",
+      name,
+      date: "2025-03-02",
+      nextDate: "2025-03-30",
+      completed: true,
+      type: "required",
+    });
+    const dog = { id: "pet-1", name: "초코", species: "dog" as const, age: 3 };
+
+    const events = collectCalendarEvents(
+      data({ pets: [dog], records: { vaccinations: [vaccination("광견병", "v1"), vaccination("기타 주사", "v2")] } }),
+      range
+    );
+
+    expect(events.some((e) => e.id === "vaccination-next:v1")).toBe(false);
+    expect(events.find((e) => e.id === "vaccination-next:v2")?.date).toBe("2025-03-30");
+  });
+
+  it("links reservations to pets by name and skips cancelled ones", () => {
+    const events = collectCalendarEvents(
+      data({
+        reservations: [
+          { id: "r1", petName: "초코", hospitalName: "24시 병원", date: "2025-03-12", time: "14:00", status: "confirmed" },
+          { id: "r2", petName: "초코", hospitalName: "24시 병원", date: "2025-03-13", status: "cancelled" },
+        ],
+      }),
+      range
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ petId: "pet-1", type: "reservation", time: "14:00" });
+  });
+});
+
+describe("iCal export", () => {
+  const event = (overrides: Partial<CalendarEvent>): CalendarEvent => ({
+    id: "vet-next:vet-1",
+    sourceId: "vet-records",
+    petName: "초코",
+    type: "vet_visit",
+    title: "재진",
+    date: "2025-03-19",
+    ...overrides,
+  });
+
+  it("writes all-day and timed events", () => {
+    const ics = buildICalendar(
+      [event({}), event({ id: "walk:1", type: "walk", title: "산책, 공원; 30분", time: "07:30" })],
+      { name: "펫체키", now: new Date("2025-03-01T00:00:00Z") }
+    );
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20250319");
+    expect(lines).toContain("DTEND;VALUE=DATE:20250320");
+    expect(lines).toContain("DTSTART:20250319T073000");
+    expect(lines).toContain("SUMMARY:[초코] 산책\\, 공원\\; 30분");
+    expect(lines).toContain("UID:vet-next:vet-1@petchecky.app");
+    expect(lines).toContain("DTSTAMP:20250301T000000Z");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+
+  it("folds long lines without splitting multibyte characters", () => {
+    const folded = foldLine(`SUMMARY:${"가".repeat(40)}`);
+    const parts = folded.split("\r\n ");
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.join("")).toBe(`SUMMARY:${"가".repeat(40)}`);
+    for (const part of parts) {
+      expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Community comment thread tests
+ */
+
+import {
+  MAX_COMMENT_DEPTH,
+  buildCommentTree,
+  findMentionedUsers,
+  resolveReplyParent,
+} from "../communityComments";
+import { validateCreateComment, validateReplyQuery } from "../validations/comments";
+
+jest.mock("../auth", () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock("../pushSubscriptions", () => ({
+  sendPushToUser: jest.fn(),
+}));
+
+function row(id: string, parentId: string | null, minute: number, options: { deleted?: boolean; depth?: number; moderation?: "pending" | "hidden" } = {}) {
+  return {
+    id,
+    post_id: "post-1",
+    user_id: `user-${id}`,
+    content: `comment ${id}`,
+    author_name: `${id}***`,
+    parent_id: parentId ?? undefined,
+    depth: options.depth ?? 0,
+    reply_count: 0,
+    deleted_at: options.deleted ? "2025-03-01T12:00:00Z" : null,
+    moderation_status: options.moderation ?? ("visible" as const),
+    created_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+    updated_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+  };
+}
+
+describe("buildCommentTree", () => {
+  it("nests replies under their parents and previews only the first replies", () => {
+    const rows = [
+      row("a", null, 0),
+      row("a1", "a", 1, { depth: 1 }),
+      row("a2", "a", 2, { depth: 1 }),
+      row("a1x", "a1", 3, { depth: 2 }),
+      row("a3", "a", 4, { depth: 1 }),
+      row("b", null, 5),
+    ];
+
+    const tree = buildCommentTree(rows, { replyPreview: 2 });
+
+    expect(tree.map((node) => node.id)).toEqual(["a", "b"]);
+    expect(tree[0]).toMatchObject({ reply_count: 3, has_more_replies: true });
+    expect(tree[0].replies.map((node) => node.id)).toEqual(["a1", "a2"]);
+    expect(tree[0].replies[0].replies.map((node) => node.id)).toEqual(["a1x"]);
+    expect(tree[1]).toMatchObject({ reply_count: 0, replies: [], has_more_replies: false });
+  });
+
+  it("keeps a masked placeholder for deleted comments with replies and drops empty ones", () => {
+    const rows = [
+      row("a", null, 0, { deleted: true }),
+      row("a1", "a", 1, { depth: 1 }),
+      row("b", null, 2, { deleted: true }),
+    ];
+
+    const tree = buildCommentTree(rows);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ id: "a", is_deleted: true, content: "", author_name: "", user_id: "" });
+    expect(tree[0].replies[0]).toMatchObject({ id: "a1", is_deleted: false, content: "comment a1" });
+  });
+
+  it("masks hidden or pending comments and drops them when nothing replies to them", () => {
+    const rows = [
+      row("a", null, 0, { moderation: "hidden" }),
+      row("a1", "a", 1, { depth: 1 }),
+      row("b", null, 2, { moderation: "pending" }),
+    ];
+
+    const tree = buildCommentTree(rows);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ id: "a", is_hidden: true, is_deleted: false, content: "", author_name: "" });
+    expect(tree[0].replies[0]).toMatchObject({ id: "a1", is_hidden: false, content: "comment a1" });
+  });
+
+  it("builds a reply page from the given parent", () => {
+    const rows = [row("a2", "a", 2, { depth: 1 }), row("a2x", "a2", 3, { depth: 2 })];
+
+    const replies = buildCommentTree(rows, { rootParentId: "a" });
+
+    expect(replies.map((node) => node.id)).toEqual(["a2"]);
+    expect(replies[0].replies.map((node) => node.id)).toEqual(["a2x"]);
+  });
+});
+
+describe("resolveReplyParent", () => {
+  it("nests replies until the depth limit", () => {
+    expect(resolveReplyParent({ id: "a", parent_id: undefined, depth: 0, author_name: "ali***" })).toEqual({
+      parentId: "a",
+      depth: 1,
+    });
+    expect(resolveReplyParent({ id: "a1", parent_id: "a", depth: 1, author_name: "ali***" })).toEqual({
+      parentId: "a1",
+      depth: 2,
+    });
+  });
+
+  it("attaches deeper replies beside the parent and mentions its author", () => {
+    expect(resolveReplyParent({ id: "a1x", parent_id: "a1", depth: MAX_COMMENT_DEPTH, author_name: "bob***" })).toEqual({
+      parentId: "a1",
+      depth: MAX_COMMENT_DEPTH,
+      mention: "bob***",
+    });
+  });
+});
+
+describe("findMentionedUsers", () => {
+  const participants = [
+    { user_id: "u-alice", author_name: "ali***" },
+    { user_id: "u-bob", author_name: "bob***" },
+    { user_id: "u-bob", author_name: "bob***" },
+    { user_id: "u-kim1", author_name: "kim***" },
+    { user_id: "u-kim2", author_name: "kim***" },
+  ];
+
+  it("finds mentions at word starts, including names followed by particles", () => {
+    expect(findMentionedUsers("@ali***님 저도 궁금해요\n@bob*** 감사합니다", participants)).toEqual(["u-alice", "u-bob"]);
+    expect(findMentionedUsers("메일은 me@ali***.com", participants)).toEqual([]);
+  });
+
+  it("ignores names shared by more than one user", () => {
+    expect(findMentionedUsers("@kim*** 안녕하세요", participants)).toEqual([]);
+  });
+});
+
+describe("comment validation", () => {
+  it("trims content and accepts an optional parent", () => {
+    expect(validateCreateComment({ content: "  좋은 정보네요  " })).toEqual({
+      success: true,
+      data: { content: "좋은 정보네요" },
+    });
+    expect(validateCreateComment({ content: "답글", parent_id: "not-a-uuid" }).success).toBe(false);
+    expect(validateCreateComment({ content: "   " }).success).toBe(false);
+  });
+
+  it("defaults the reply page size", () => {
+    const result = validateReplyQuery({ parentId: "11111111-1111-4111-8111-111111111111" });
+    expect(result.data?.limit).toBe(10);
+  });
+});
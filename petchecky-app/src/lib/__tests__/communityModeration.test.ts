@@ -0,0 +1,102 @@
+/**
+ * Community moderation tests
+ */
+
+import { groupReports, isBanActive, sortModerationItems, toModerationItem } from "../communityModeration";
+import { validateModerationAction, validateReportContent } from "../validations/moderation";
+
+jest.mock("../auth", () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+const POST_ID = "11111111-1111-4111-8111-111111111111";
+const COMMENT_ID = "22222222-2222-4222-8222-222222222222";
+
+function report(targetType: "post" | "comment", targetId: string, minute: number) {
+  return {
+    target_type: targetType,
+    target_id: targetId,
+    post_id: POST_ID,
+    reason: "spam" as const,
+    details: null,
+    created_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+  };
+}
+
+function target(id: string, minute: number) {
+  return {
+    id,
+    post_id: POST_ID,
+    user_id: "author-1",
+    content: `content ${id}`,
+    author_name: "aut***",
+    moderation_status: "pending" as const,
+    moderation_reason: "전화번호 노출",
+    created_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+  };
+}
+
+describe("moderation queue helpers", () => {
+  it("groups reports by target", () => {
+    const groups = groupReports([
+      report("post", POST_ID, 0),
+      report("comment", COMMENT_ID, 1),
+      report("post", POST_ID, 2),
+    ]);
+
+    expect(groups.get(`post:${POST_ID}`)).toHaveLength(2);
+    expect(groups.get(`comment:${COMMENT_ID}`)).toHaveLength(1);
+  });
+
+  it("maps comments to items linked to their post", () => {
+    const item = toModerationItem("comment", target(COMMENT_ID, 0), [report("comment", COMMENT_ID, 1)]);
+
+    expect(item).toMatchObject({
+      targetType: "comment",
+      targetId: COMMENT_ID,
+      postId: POST_ID,
+      title: null,
+      status: "pending",
+      reason: "전화번호 노출",
+      reports: [{ reason: "spam", details: null, createdAt: "2025-03-01T10:01:00Z" }],
+    });
+  });
+
+  it("sorts the most reported items first, then the newest", () => {
+    const items = sortModerationItems([
+      toModerationItem("comment", target("old", 0)),
+      toModerationItem("comment", target("reported", 1), [report("comment", "reported", 2)]),
+      toModerationItem("comment", target("new", 3)),
+    ]);
+
+    expect(items.map((item) => item.targetId)).toEqual(["reported", "new", "old"]);
+  });
+
+  it("treats bans without an expiry as permanent", () => {
+    const now = new Date("2025-03-01T00:00:00Z");
+
+    expect(isBanActive({ expiresAt: null }, now)).toBe(true);
+    expect(isBanActive({ expiresAt: "2025-03-02T00:00:00Z" }, now)).toBe(true);
+    expect(isBanActive({ expiresAt: "2025-02-28T00:00:00Z" }, now)).toBe(false);
+  });
+});
+
+describe("moderation validation", () => {
+  it("accepts post and comment reports", () => {
+    expect(validateReportContent({ reason: "scam" })).toMatchObject({ success: true });
+    expect(validateReportContent({ commentId: COMMENT_ID, reason: "abuse", details: " 욕설 " }).data).toEqual({
+      commentId: COMMENT_ID,
+      reason: "abuse",
+      details: "욕설",
+    });
+    expect(validateReportContent({ reason: "boring" }).success).toBe(false);
+  });
+
+  it("requires the fields each action needs", () => {
+    expect(validateModerationAction({ action: "hide", targetType: "post", targetId: POST_ID, reason: "광고" }).success).toBe(true);
+    expect(validateModerationAction({ action: "hide", targetType: "post", targetId: POST_ID }).success).toBe(false);
+    expect(validateModerationAction({ action: "ban", userId: POST_ID, reason: "반복 광고", days: 7 }).success).toBe(true);
+    expect(validateModerationAction({ action: "ban", userId: POST_ID, reason: "반복 광고", days: 0 }).success).toBe(false);
+    expect(validateModerationAction({ action: "delete", targetType: "post", targetId: POST_ID }).success).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Community search tests
+ */
+
+import {
+  collectHashtags,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  normalizeHashtag,
+  resolveSort,
+  searchCommunityPosts,
+  toSearchTerms,
+} from "../communitySearch";
+import { supabaseAdmin } from "../auth";
+import { validatePostSearchQuery } from "../validations/posts";
+
+jest.mock("../auth", () => ({
+  supabaseAdmin: { rpc: jest.fn() },
+}));
+
+const mockRpc = supabaseAdmin.rpc as jest.Mock;
+
+function post(id: string, minute: number, score: number | string = 0) {
+  return {
+    id: `00000000-0000-4000-8000-00000000000${id}`,
+    user_id: "user-1",
+    title: `post ${id}`,
+    content: "content",
+    category: "daily" as const,
+    author_name: "use***",
+    hashtags: [],
+    likes_count: 0,
+    comments_count: 0,
+    views_count: 0,
+    created_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+    updated_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+    score,
+  };
+}
+
+describe("toSearchTerms", () => {
+  it("splits Korean words into bigrams so particles still match", () => {
+    expect(toSearchTerms("강아지")).toEqual(["강아", "아지"]);
+    // "강아지가"의 조각에 "강아지"의 조각이 모두 들어 있음
+    expect(toSearchTerms("강아지가")).toEqual(expect.arrayContaining(toSearchTerms("강아지")));
+  });
+
+  it("keeps single syllables and latin words whole", () => {
+    expect(toSearchTerms("약 Royal캐닌 10kg")).toEqual(["약", "royal", "캐닌", "10kg"]);
+  });
+
+  it("ignores symbols", () => {
+    expect(toSearchTerms("?! -- ~")).toEqual([]);
+  });
+});
+
+describe("hashtags", () => {
+  it("normalizes tags and rejects invalid ones", () => {
+    expect(normalizeHashtag("#Walk")).toBe("walk");
+    expect(normalizeHashtag("  ##산책_코스 ")).toBe("산책_코스");
+    expect(normalizeHashtag("no space")).toBeNull();
+    expect(normalizeHashtag("#")).toBeNull();
+    expect(normalizeHashtag("a".repeat(21))).toBeNull();
+  });
+
+  it("merges explicit tags with hashtags in the content", () => {
+    expect(collectHashtags(["#간식", "walk"], "오늘 #산책 완료 #간식")).toEqual(["간식", "walk", "산책"]);
+    expect(collectHashtags("#a, b  #c")).toEqual(["a", "b", "c"]);
+    expect(collectHashtags(undefined, "이메일 test#tag 는 태그가 아님")).toEqual([]);
+  });
+
+  it("limits the number of tags", () => {
+    const tags = Array.from({ length: 15 }, (_, i) => `tag${i}`);
+    expect(collectHashtags(tags)).toHaveLength(10);
+  });
+});
+
+describe("search cursor", () => {
+  it("round-trips the sort key", () => {
+    const cursor = { score: 0.060793, createdAt: "2025-03-01T10:00:00Z", id: "00000000-0000-4000-8000-000000000001" };
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeSearchCursor("not-base64-json")).toBeNull();
+    expect(decodeSearchCursor(Buffer.from(JSON.stringify([1, "yesterday", "x"])).toString("base64url"))).toBeNull();
+  });
+
+  it("falls back to recent when there is nothing to rank", () => {
+    expect(resolveSort(undefined, true)).toBe("relevance");
+    expect(resolveSort(undefined, false)).toBe("recent");
+    expect(resolveSort("relevance", false)).toBe("recent");
+    expect(resolveSort("likes", true)).toBe("likes");
+  });
+});
+
+describe("searchCommunityPosts", () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  it("fetches one extra row to build the next cursor", async () => {
+    mockRpc.mockResolvedValue({ data: [post("3", 3, "0.5"), post("2", 2, "0.25"), post("1", 1, "0.1")], error: null });
+
+    const result = await searchCommunityPosts({ query: "산책", hashtags: ["#Walk", "bad tag"], limit: 2 });
+
+    expect(mockRpc).toHaveBeenCalledWith("search_community_posts", expect.objectContaining({
+      p_query: "산책",
+      p_hashtags: ["walk"],
+      p_sort: "relevance",
+      p_cursor_id: null,
+      p_limit: 3,
+    }));
+    expect(result?.posts.map((p) => p.title)).toEqual(["post 3", "post 2"]);
+    expect(result?.posts[0]).not.toHaveProperty("score");
+    expect(decodeSearchCursor(result?.next_cursor ?? "")).toEqual({
+      score: 0.25,
+      createdAt: "2025-03-01T10:02:00Z",
+      id: "00000000-0000-4000-8000-000000000002",
+    });
+  });
+
+  it("continues from a cursor and stops at the last page", async () => {
+    mockRpc.mockResolvedValue({ data: [post("1", 1)], error: null });
+    const cursor = encodeSearchCursor({ score: 0, createdAt: "2025-03-01T10:02:00Z", id: "00000000-0000-4000-8000-000000000002" });
+
+    const result = await searchCommunityPosts({ query: "!!", category: "all", cursor, limit: 2 });
+
+    expect(mockRpc).toHaveBeenCalledWith("search_community_posts", expect.objectContaining({
+      p_query: null,
+      p_category: null,
+      p_sort: "recent",
+      p_cursor_score: 0,
+      p_cursor_created_at: "2025-03-01T10:02:00Z",
+      p_cursor_id: "00000000-0000-4000-8000-000000000002",
+    }));
+    expect(result?.next_cursor).toBeNull();
+  });
+
+  it("returns null for an invalid cursor without querying", async () => {
+    await expect(searchCommunityPosts({ cursor: "broken", limit: 20 })).resolves.toBeNull();
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
+
+describe("post search validation", () => {
+  it("parses comma separated tags and defaults", () => {
+    expect(validatePostSearchQuery({ tags: "산책, 간식,," }).data).toEqual({
+      category: "all",
+      tags: ["산책", "간식"],
+      limit: 20,
+    });
+  });
+
+  it("rejects unknown filters", () => {
+    expect(validatePostSearchQuery({ species: "dragon" }).success).toBe(false);
+    expect(validatePostSearchQuery({ tags: "a,b,c,d,e,f" }).success).toBe(false);
+    expect(validatePostSearchQuery({ limit: "500" }).success).toBe(false);
+  });
+});
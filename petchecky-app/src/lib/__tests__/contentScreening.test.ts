@@ -0,0 +1,91 @@
+/**
+ * Community content screening tests
+ */
+
+import { createFakeProvider } from "../llm";
+import { needsMedicalCheck, screenContent, screenText } from "../contentScreening";
+
+describe("screenText", () => {
+  it("passes ordinary posts", () => {
+    expect(screenText("산책 다녀왔어요. 오늘 날씨가 좋네요!")).toEqual([]);
+  });
+
+  it("catches profanity even with spaces or symbols in between", () => {
+    expect(screenText("이런 시 발 같은")).toEqual(["profanity"]);
+    expect(screenText("ㅅ.ㅂ 진짜")).toEqual(["profanity"]);
+  });
+
+  it("allows words that merely contain a profanity", () => {
+    expect(screenText("이 사건이 변화의 시발점이 됐어요")).toEqual([]);
+  });
+
+  it("flags exposed phone numbers", () => {
+    expect(screenText("분양 문의 010-1234-5678")).toEqual(["phone_number"]);
+    expect(screenText("연락주세요 +82 10 1234 5678")).toEqual(["phone_number"]);
+  });
+
+  it("flags several links or shortened links as spam but allows a single link", () => {
+    expect(screenText("참고한 글: https://example.com/guide")).toEqual([]);
+    expect(screenText("https://a.com https://b.com 사료 최저가")).toEqual(["url_spam"]);
+    expect(screenText("할인 정보 bit.ly/abc")).toEqual(["url_spam"]);
+    expect(screenText("오픈채팅 open.kakao.com/o/xyz")).toEqual(["url_spam"]);
+  });
+});
+
+describe("screenContent", () => {
+  const riskyReply = '{"risky": true, "reason": "사람 진통제 투여를 권함"}';
+
+  it("holds rule violations with a readable reason", async () => {
+    const result = await screenContent("010-1234-5678 https://a.com https://b.com", { provider: null });
+
+    expect(result).toEqual({
+      status: "pending",
+      flags: ["phone_number", "url_spam"],
+      reason: "전화번호 노출, 링크 스팸",
+    });
+  });
+
+  it("asks the LLM only about medical content", async () => {
+    const generate = jest.fn();
+    const provider = { ...createFakeProvider({ reply: riskyReply }), generate };
+
+    expect(needsMedicalCheck("오늘 산책했어요")).toBe(false);
+    await screenContent("오늘 산책했어요", { provider });
+
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it("holds risky medical claims flagged by the LLM", async () => {
+    const provider = createFakeProvider({ reply: `\`\`\`json\n${riskyReply}\n\`\`\`` });
+
+    const result = await screenContent("강아지 열나면 타이레놀 반 알 먹이면 돼요", { provider });
+
+    expect(result).toEqual({
+      status: "pending",
+      flags: ["dangerous_medical"],
+      reason: "위험한 의료 정보: 사람 진통제 투여를 권함",
+    });
+  });
+
+  it("keeps content visible when the LLM finds nothing risky or replies with garbage", async () => {
+    const text = "약을 먹였는데 계속 토해서 병원에 가보려고요";
+
+    await expect(
+      screenContent(text, { provider: createFakeProvider({ reply: '{"risky": false}' }) })
+    ).resolves.toEqual({ status: "visible", flags: [] });
+    await expect(
+      screenContent(text, { provider: createFakeProvider({ reply: "잘 모르겠어요" }) })
+    ).resolves.toEqual({ status: "visible", flags: [] });
+  });
+
+  it("falls back to the rules when the LLM call fails", async () => {
+    const consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    const provider = createFakeProvider({ failWithStatus: 503 });
+
+    const result = await screenContent("타이레놀 먹이면 나아요", { provider });
+
+    expect(result).toEqual({ status: "visible", flags: [] });
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
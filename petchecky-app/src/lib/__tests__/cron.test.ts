@@ -0,0 +1,42 @@
+/**
+ * Cron request verification tests
+ */
+
+import type { NextRequest } from "next/server";
+import { verifyCronRequest } from "../cron";
+
+function requestWith(authorization?: string): NextRequest {
+  return {
+    headers: {
+      get: (name: string) => (name === "authorization" ? authorization ?? null : null),
+    },
+  } as unknown as NextRequest;
+}
+
+describe("verifyCronRequest", () => {
+  beforeEach(() => {
+    process.env.CRON_SECRET = "cron-secret";
+  });
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it("should accept the matching bearer secret", () => {
+    expect(verifyCronRequest(requestWith("Bearer cron-secret"), "test")).toBeNull();
+  });
+
+  it("should reject a wrong, shorter or missing secret", () => {
+    expect(verifyCronRequest(requestWith("Bearer cron-secreT"), "test")?.status).toBe(401);
+    expect(verifyCronRequest(requestWith("Bearer cron"), "test")?.status).toBe(401);
+    expect(verifyCronRequest(requestWith(), "test")?.status).toBe(401);
+  });
+
+  it("should fail closed when CRON_SECRET is not configured", () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    delete process.env.CRON_SECRET;
+
+    expect(verifyCronRequest(requestWith("Bearer "), "test")?.status).toBe(500);
+    errorSpy.mockRestore();
+  });
+});
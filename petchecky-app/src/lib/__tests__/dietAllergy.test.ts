@@ -0,0 +1,124 @@
+/**
+ * Diet allergy checks tests
+ */
+
+import {
+  collectDietAllergens,
+  containsAllergen,
+  findDietConflicts,
+  isBlockingConflict,
+  suggestReactionTriggers,
+  type StoredAllergy,
+  type StoredRestriction,
+} from "../dietAllergy";
+
+function allergy(overrides: Partial<StoredAllergy> = {}): StoredAllergy {
+  return {
+    petId: "pet-1",
+    name: "닭고기",
+    type: "food",
+    severity: "severe",
+    reactions: [],
+    ...overrides,
+  };
+}
+
+describe("containsAllergen", () => {
+  it("matches synonyms and English names", () => {
+    expect(containsAllergen("치킨 져키", "닭고기")).toBe(true);
+    expect(containsAllergen("Salmon Oil", "생선")).toBe(true);
+    expect(containsAllergen("삶은 달걀흰자", "계란")).toBe(true);
+  });
+
+  it("ignores names that only look similar", () => {
+    expect(containsAllergen("오리젠 오리지널", "오리")).toBe(false);
+    expect(containsAllergen("완두콩", "콩")).toBe(false);
+    expect(containsAllergen("밀웜", "밀")).toBe(false);
+  });
+
+  it("expands category allergens", () => {
+    expect(containsAllergen("현미", "곡물")).toBe(true);
+    expect(containsAllergen("칠면조", "가금류")).toBe(true);
+  });
+
+  it("falls back to the plain name for unknown ingredients", () => {
+    expect(containsAllergen("캥거루 육포", "캥거루")).toBe(true);
+  });
+});
+
+describe("collectDietAllergens", () => {
+  it("uses food allergies and restrictions of the pet only, without duplicates", () => {
+    const restrictions: StoredRestriction[] = [
+      { petId: "pet-1", ingredient: "치킨", reason: "allergy" },
+      { petId: "pet-1", ingredient: "옥수수", reason: "preference" },
+      { petId: "pet-2", ingredient: "소고기", reason: "medical" },
+    ];
+
+    const allergens = collectDietAllergens(
+      "pet-1",
+      [allergy(), allergy({ name: "꽃가루", type: "environmental" }), allergy({ petId: "pet-2", name: "생선" })],
+      restrictions
+    );
+
+    expect(allergens).toEqual([
+      { name: "닭고기", source: "allergy", severity: "severe" },
+      { name: "옥수수", source: "restriction", reason: "preference" },
+    ]);
+  });
+});
+
+describe("findDietConflicts", () => {
+  const allergens = collectDietAllergens("pet-1", [allergy({ severity: "mild", name: "밀" }), allergy()], [
+    { petId: "pet-1", ingredient: "옥수수", reason: "preference" },
+  ]);
+
+  it("reports matching allergens, most severe first", () => {
+    const conflicts = findDietConflicts(["로얄캐닌 미니 어덜트", "닭고기", "쌀", "옥수수", "밀가루"], allergens);
+
+    expect(conflicts.map((c) => [c.allergen.name, c.ingredient])).toEqual([
+      ["닭고기", "닭고기"],
+      ["밀", "밀가루"],
+      ["옥수수", "옥수수"],
+    ]);
+    expect(conflicts.map(isBlockingConflict)).toEqual([true, true, false]);
+  });
+
+  it("returns nothing for safe food", () => {
+    expect(findDietConflicts(["연어", "고구마", "완두콩"], allergens)).toEqual([]);
+  });
+});
+
+describe("suggestReactionTriggers", () => {
+  const logs = [
+    { date: "2025-03-01", foodName: "사료 A", ingredients: ["닭고기"] },
+    { date: "2025-03-02", foodName: "사료 A", ingredients: ["닭고기"] },
+    { date: "2025-03-08", foodName: "사료 A", ingredients: ["닭고기"] },
+    { date: "2025-03-09", foodName: "사료 A", ingredients: ["닭고기"] },
+    { date: "2025-03-02", foodName: "연어 간식" },
+    { date: "2025-03-09", foodName: "연어 간식" },
+    { date: "2025-03-05", foodName: "당근" },
+    { date: "2025-03-10", foodName: "요거트" },
+  ];
+
+  it("ranks foods eaten within 48 hours before reactions", () => {
+    const suggestions = suggestReactionTriggers([{ date: "2025-03-03" }, { date: "2025-03-10" }], logs);
+
+    expect(suggestions.map((s) => [s.foodName, s.reactionCount, s.mealCount])).toEqual([
+      ["연어 간식", 2, 2],
+      ["사료 A", 2, 4],
+      ["요거트", 1, 1],
+    ]);
+  });
+
+  it("puts foods with known allergens first when equally likely", () => {
+    const suggestions = suggestReactionTriggers([{ date: "2025-03-03" }, { date: "2025-03-10" }], logs, [
+      { name: "닭고기", source: "allergy", severity: "moderate" },
+    ]);
+
+    expect(suggestions[0]).toMatchObject({ foodName: "사료 A", allergens: ["닭고기"] });
+  });
+
+  it("returns nothing without reactions", () => {
+    expect(suggestReactionTriggers([], logs)).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Direct messages tests
+ */
+
+import {
+  conversationPair,
+  countUnread,
+  listMessages,
+  toConversation,
+} from "../directMessages";
+import {
+  validateMessageHistoryQuery,
+  validateSendDirectMessage,
+} from "../validations/messages";
+
+interface MockQuery {
+  select: jest.Mock;
+  eq: jest.Mock;
+  order: jest.Mock;
+  limit: jest.Mock;
+  lt: jest.Mock;
+  then: (resolve: (value: unknown) => unknown) => unknown;
+}
+
+const mockQuery: MockQuery = {
+  select: jest.fn(() => mockQuery),
+  eq: jest.fn(() => mockQuery),
+  order: jest.fn(() => mockQuery),
+  limit: jest.fn(() => mockQuery),
+  lt: jest.fn(() => mockQuery),
+  then: (resolve: (value: unknown) => unknown) => resolve({ data: mockRows, error: null }),
+};
+let mockRows: Record<string, unknown>[] = [];
+
+// from().select().eq().order().limit().lt() 체인만 흉내냄
+jest.mock("../auth", () => ({
+  supabaseAdmin: {
+    from: jest.fn(() => mockQuery),
+  },
+}));
+
+jest.mock("../pushSubscriptions", () => ({
+  sendPushToUser: jest.fn(),
+}));
+
+const ALICE = "11111111-1111-4111-8111-111111111111";
+const BOB = "22222222-2222-4222-8222-222222222222";
+
+function messageRow(minute: number) {
+  return {
+    id: `msg-${minute}`,
+    conversation_id: "conv-1",
+    sender_id: ALICE,
+    recipient_id: BOB,
+    content: `message ${minute}`,
+    created_at: `2025-03-01T10:${String(minute).padStart(2, "0")}:00Z`,
+    read_at: null,
+  };
+}
+
+describe("conversationPair", () => {
+  it("orders participants the same way regardless of who starts", () => {
+    expect(conversationPair(BOB, ALICE)).toEqual({ user_a: ALICE, user_b: BOB });
+    expect(conversationPair(ALICE, BOB)).toEqual({ user_a: ALICE, user_b: BOB });
+  });
+});
+
+describe("toConversation", () => {
+  const row = {
+    id: "conv-1",
+    user_a: ALICE,
+    user_b: BOB,
+    user_a_name: "ali***",
+    user_b_name: "bob***",
+    last_message: "안녕하세요",
+    last_message_at: "2025-03-01T10:00:00Z",
+    created_at: "2025-03-01T09:00:00Z",
+  };
+
+  it("shows the other participant for each side", () => {
+    expect(toConversation(row, ALICE)).toMatchObject({ participantId: BOB, participantName: "bob***" });
+    expect(toConversation(row, BOB, { unreadCount: 2, blocked: true })).toMatchObject({
+      participantId: ALICE,
+      participantName: "ali***",
+      unreadCount: 2,
+      blocked: true,
+    });
+  });
+});
+
+describe("countUnread", () => {
+  it("counts unread rows per conversation", () => {
+    const counts = countUnread([
+      { conversation_id: "conv-1" },
+      { conversation_id: "conv-2" },
+      { conversation_id: "conv-1" },
+    ]);
+
+    expect(counts.get("conv-1")).toBe(2);
+    expect(counts.get("conv-2")).toBe(1);
+    expect(counts.get("conv-3")).toBeUndefined();
+  });
+});
+
+describe("listMessages", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("returns a page in chronological order and flags older messages", async () => {
+    // DB는 최신순으로 limit + 1개를 돌려줌
+    mockRows = [messageRow(5), messageRow(4), messageRow(3)];
+
+    const { messages, hasMore } = await listMessages("conv-1", { limit: 2, before: "2025-03-01T10:06:00Z" });
+
+    expect(mockQuery.limit).toHaveBeenCalledWith(3);
+    expect(mockQuery.lt).toHaveBeenCalledWith("created_at", "2025-03-01T10:06:00Z");
+    expect(messages.map((m) => m.id)).toEqual(["msg-4", "msg-5"]);
+    expect(hasMore).toBe(true);
+  });
+
+  it("reports the end of history", async () => {
+    mockRows = [messageRow(1)];
+
+    const { messages, hasMore } = await listMessages("conv-1", { limit: 30 });
+
+    expect(mockQuery.lt).not.toHaveBeenCalled();
+    expect(messages).toHaveLength(1);
+    expect(hasMore).toBe(false);
+  });
+});
+
+describe("message validation", () => {
+  it("trims content and rejects empty or too long messages", () => {
+    expect(validateSendDirectMessage({ content: "  안녕하세요 " }).data).toEqual({ content: "안녕하세요" });
+    expect(validateSendDirectMessage({ content: "   " }).success).toBe(false);
+    expect(validateSendDirectMessage({ content: "a".repeat(1001) }).success).toBe(false);
+  });
+
+  it("applies the default page size and checks the cursor", () => {
+    expect(validateMessageHistoryQuery({}).data).toEqual({ limit: 30 });
+    expect(validateMessageHistoryQuery({ limit: "500" }).success).toBe(false);
+    expect(validateMessageHistoryQuery({ before: "yesterday" }).success).toBe(false);
+  });
+});
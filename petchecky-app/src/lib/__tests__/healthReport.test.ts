@@ -0,0 +1,137 @@
+/**
+ * Health report tests
+ */
+
+import { buildHealthReport, buildWeightTrend, findUpcomingVaccines, type HealthReportSources } from "../healthReport/model";
+import type { Medication, Vaccination, VetRecord } from "@/types/petRecords";
+
+const range = { from: "2025-01-01", to: "2025-03-31" };
+const now = new Date("2025-04-10T00:00:00.000Z");
+
+function vaccination(overrides: Partial<Vaccination>): Vaccination {
+  return {
+    id: "v",
+    petId: "pet-1",
+    name: "DHPPL",
+    date: "2025-02-01",
+    completed: true,
+    type: "required",
+    ...overrides,
+  };
+}
+
+function medication(overrides: Partial<Medication>): Medication {
+  return {
+    id: "m",
+    petId: "pet-1",
+    name: "Apoquel",
+    dosage: "5.4mg",
+    frequency: "once",
+    timeOfDay: ["morning"],
+    startDate: "2025-02-01",
+    isActive: true,
+    logs: [],
+    ...overrides,
+  };
+}
+
+function vetRecord(overrides: Partial<VetRecord>): VetRecord {
+  return {
+    id: "r",
+    petId: "pet-1",
+    date: "2025-02-15",
+    hospitalName: "Happy Vet",
+    visitType: "checkup",
+    createdAt: "2025-02-15T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const sources: HealthReportSources = {
+  pet: { name: "Coco", species: "dog", breed: "Maltese", age: 5, weight: 3.4 },
+  allergies: [
+    { name: "Chicken", severity: "mild", symptoms: [] },
+    { name: "Beef", severity: "severe", symptoms: ["itching"] },
+  ],
+  weights: [
+    { date: "2024-12-20", weight: 3.0 },
+    { date: "2025-01-10", weight: 3.2 },
+    { date: "2025-03-01", weight: 3.5 },
+    { date: "2025-03-01", weight: 3.4 },
+  ],
+  vaccinations: [
+    vaccination({ id: "v1", date: "2024-02-01", nextDate: "2025-02-01" }),
+    vaccination({ id: "v2", date: "2025-02-03", nextDate: "2026-02-03" }),
+    vaccination({ id: "v3", name: "Rabies", date: "2024-05-01", nextDate: "2025-04-01" }),
+  ],
+  medications: [
+    medication({ id: "m1", startDate: "2024-11-01", endDate: "2024-12-01" }),
+    medication({ id: "m2", startDate: "2024-12-15", endDate: "2025-01-05" }),
+    medication({ id: "m3", startDate: "2025-03-20" }),
+  ],
+  vetRecords: [
+    vetRecord({ id: "r1", date: "2025-03-02" }),
+    vetRecord({ id: "r2", date: "2025-01-05" }),
+    vetRecord({ id: "r3", date: "2024-12-30" }),
+  ],
+  chats: [
+    { createdAt: "2025-01-03T10:00:00.000Z", severity: "low", preview: "sneezing" },
+    { createdAt: "2025-03-31T23:00:00.000Z", severity: "high", preview: "vomiting" },
+    { createdAt: "2025-03-05T10:00:00.000Z", severity: "medium", preview: "limping" },
+    { createdAt: "2025-04-02T10:00:00.000Z", severity: "high", preview: "out of range" },
+  ],
+};
+
+describe("healthReport", () => {
+  describe("buildWeightTrend", () => {
+    it("should keep the last entry per day within the range", () => {
+      const trend = buildWeightTrend(sources.weights, range);
+
+      expect(trend?.points).toEqual([
+        { date: "2025-01-10", weight: 3.2 },
+        { date: "2025-03-01", weight: 3.4 },
+      ]);
+      expect(trend?.change).toBe(0.2);
+      expect(trend?.min).toBe(3.2);
+    });
+
+    it("should return null without weights in range", () => {
+      expect(buildWeightTrend(sources.weights, { from: "2026-01-01", to: "2026-02-01" })).toBeNull();
+    });
+  });
+
+  describe("findUpcomingVaccines", () => {
+    it("should use the latest dose of each vaccine", () => {
+      expect(findUpcomingVaccines(sources.vaccinations, "2025-04-10")).toEqual([
+        { name: "Rabies", dueDate: "2025-04-01", overdue: true },
+        { name: "DHPPL", dueDate: "2026-02-03", overdue: false },
+      ]);
+    });
+  });
+
+  describe("buildHealthReport", () => {
+    const report = buildHealthReport(sources, range, now);
+
+    it("should filter dated records to the range in chronological order", () => {
+      expect(report.vaccinations.map((v) => v.id)).toEqual(["v2"]);
+      expect(report.vetVisits.map((r) => r.id)).toEqual(["r2", "r1"]);
+    });
+
+    it("should include medications overlapping the range", () => {
+      expect(report.medications.map((m) => m.id)).toEqual(["m2", "m3"]);
+    });
+
+    it("should list allergies by severity regardless of the range", () => {
+      expect(report.allergies.map((a) => a.name)).toEqual(["Beef", "Chicken"]);
+    });
+
+    it("should count triage results per month", () => {
+      expect(report.triage.counts).toEqual({ low: 1, medium: 1, high: 1, total: 3 });
+      expect(report.triage.monthly).toEqual([
+        { month: "2025-01", low: 1, medium: 0, high: 0, total: 1 },
+        { month: "2025-03", low: 0, medium: 1, high: 1, total: 2 },
+      ]);
+      expect(report.triage.records[0].preview).toBe("vomiting");
+    });
+  });
+});
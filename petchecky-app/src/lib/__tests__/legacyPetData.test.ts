@@ -0,0 +1,146 @@
+/**
+ * Legacy pet data consolidation tests
+ */
+
+import {
+  collectLegacyPetData,
+  migrateLegacyPetStorage,
+  getLocalPetRecords,
+  getPendingRecordKinds,
+  petDedupKey,
+  recordStorageKey,
+  LEGACY_MIGRATION_FLAG,
+} from "../legacyPetData";
+
+// jest.setup.ts stubs localStorage with jest.fn(); these tests need a working store
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => { store[key] = value; },
+    removeItem: (key: string) => { delete store[key]; },
+    clear: () => { store = {}; },
+  };
+})();
+
+Object.defineProperty(window, "localStorage", { value: localStorageMock });
+
+const setJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+describe("legacyPetData", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe("petDedupKey", () => {
+    it("should ignore case and whitespace in names", () => {
+      expect(petDedupKey(" Coco ", "dog")).toBe(petDedupKey("coco", "dog"));
+      expect(petDedupKey("초 코", "cat")).toBe(petDedupKey("초코", "cat"));
+    });
+
+    it("should distinguish species", () => {
+      expect(petDedupKey("coco", "dog")).not.toBe(petDedupKey("coco", "cat"));
+    });
+  });
+
+  describe("collectLegacyPetData", () => {
+    it("should return empty bundle when nothing is stored", () => {
+      const { pets, records } = collectLegacyPetData();
+
+      expect(pets).toEqual([]);
+      expect(records.medications).toEqual([]);
+      expect(records.walks).toEqual([]);
+    });
+
+    it("should de-duplicate pets across legacy keys by name and species", () => {
+      setJson("petchecky_pets", [{ id: "a", name: "초코", species: "dog", breed: "푸들", age: 3, weight: 4 }]);
+      setJson("petProfiles", [
+        { id: "b", name: "초코", species: "dog" },
+        { id: "c", name: "나비", species: "cat" },
+      ]);
+      setJson("pets", [{ id: "d", name: "초코", species: "cat" }]);
+      setJson("petProfile", { name: "나비", species: "cat", breed: "코숏", age: 2, weight: 3 });
+
+      const { pets } = collectLegacyPetData();
+
+      expect(pets.map((p) => p.id)).toEqual(["a", "c", "d"]);
+      expect(pets[0].breed).toBe("푸들");
+    });
+
+    it("should remap record petIds to the surviving pet", () => {
+      setJson("petchecky_pets", [{ id: "a", name: "초코", species: "dog" }]);
+      setJson("petProfiles", [{ id: "b", name: "초코", species: "dog" }]);
+      setJson("medications", [{ id: "m1", petId: "b", name: "심장사상충약" }]);
+      setJson("petchecky_walks_b", [{ id: "w1", date: "2024-01-01", duration: 30 }]);
+
+      const { records } = collectLegacyPetData();
+
+      expect(records.medications).toEqual([{ id: "m1", petId: "a", name: "심장사상충약" }]);
+      expect(records.walks).toEqual([{ id: "w1", petId: "a", date: "2024-01-01", duration: 30 }]);
+    });
+
+    it("should attach orphan records to the only pet", () => {
+      setJson("petProfile", { name: "초코", species: "dog" });
+      setJson("petchecky_insurance_claims_pet-1", [{ id: "c1", petId: "pet-1" }]);
+      setJson("vetRecords", [{ id: "v1", petId: "unknown" }]);
+
+      const { pets, records } = collectLegacyPetData();
+
+      expect(pets).toHaveLength(1);
+      expect(records["vet-records"]).toEqual([{ id: "v1", petId: pets[0].id }]);
+    });
+
+    it("should drop orphan records when there are several pets", () => {
+      setJson("petchecky_pets", [
+        { id: "a", name: "초코", species: "dog" },
+        { id: "b", name: "나비", species: "cat" },
+      ]);
+      setJson("medications", [{ id: "m1", petId: "unknown" }]);
+
+      const { records } = collectLegacyPetData();
+
+      expect(records.medications).toEqual([]);
+    });
+  });
+
+  describe("migrateLegacyPetStorage", () => {
+    it("should write unified keys once", () => {
+      setJson("petProfiles", [{ id: "a", name: "초코", species: "dog" }]);
+      setJson("medications", [{ id: "m1", petId: "a" }]);
+
+      expect(migrateLegacyPetStorage()).toBe(true);
+      expect(JSON.parse(localStorage.getItem("petchecky_pets") || "[]")).toHaveLength(1);
+      expect(getLocalPetRecords("medications")).toEqual([{ id: "m1", petId: "a" }]);
+      expect(localStorage.getItem(LEGACY_MIGRATION_FLAG)).not.toBeNull();
+
+      setJson("medications", [{ id: "m2", petId: "a" }]);
+      expect(migrateLegacyPetStorage()).toBe(false);
+      expect(getLocalPetRecords("medications")).toEqual([{ id: "m1", petId: "a" }]);
+    });
+
+    it("should keep legacy keys as backup", () => {
+      setJson("vetRecords", [{ id: "v1", petId: "a" }]);
+      setJson("pets", [{ id: "a", name: "초코", species: "dog" }]);
+
+      migrateLegacyPetStorage();
+
+      expect(localStorage.getItem("vetRecords")).not.toBeNull();
+      expect(localStorage.getItem(recordStorageKey("vet-records"))).not.toBeNull();
+    });
+
+    it("should migrate record kinds added after the flag was set", () => {
+      localStorage.setItem(LEGACY_MIGRATION_FLAG, "2025-01-01T00:00:00.000Z");
+      setJson("petchecky_pets", [{ id: "a", name: "초코", species: "dog" }]);
+      setJson("medications", [{ id: "m1", petId: "a" }]);
+      setJson("petchecky_reminders", [{ id: "r1", petId: "a" }]);
+
+      expect(getPendingRecordKinds(LEGACY_MIGRATION_FLAG)).toEqual(["reminders"]);
+      expect(migrateLegacyPetStorage()).toBe(true);
+      expect(getLocalPetRecords("reminders")).toEqual([{ id: "r1", petId: "a" }]);
+      expect(getLocalPetRecords("medications")).toEqual([]);
+      expect(getPendingRecordKinds(LEGACY_MIGRATION_FLAG)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * LLM provider tests
+ */
+
+import {
+  createFakeProvider,
+  createFallbackProvider,
+  createGeminiProvider,
+  getLLMProvider,
+  LLMProviderError,
+  type LLMRequest,
+} from "../llm";
+
+const request: LLMRequest = {
+  parts: [
+    { type: "image", mimeType: "image/png", data: "aGVsbG8=" },
+    { type: "text", text: "안녕하세요" },
+  ],
+};
+
+async function collect(iterable: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of iterable) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe("llm", () => {
+  describe("createFakeProvider", () => {
+    it("should return the same text for the same input", async () => {
+      const provider = createFakeProvider();
+
+      const first = await provider.generate(request);
+      const second = await provider.generate(request);
+
+      expect(first).toEqual(second);
+      expect(first.provider).toBe("fake");
+      expect(first.text).toContain("텍스트 5자, 이미지 1개");
+    });
+
+    it("should stream chunks that join into the full reply", async () => {
+      const provider = createFakeProvider({ reply: "하나 둘 셋" });
+
+      const chunks: string[] = [];
+      for await (const chunk of await provider.stream(request)) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual(["하나 ", "둘 ", "셋"]);
+    });
+
+    it("should fail with the configured status", async () => {
+      const provider = createFakeProvider({ failWithStatus: 503 });
+
+      await expect(provider.generate(request)).rejects.toMatchObject({ status: 503 });
+      await expect(provider.stream(request)).rejects.toBeInstanceOf(LLMProviderError);
+    });
+  });
+
+  describe("createFallbackProvider", () => {
+    it("should fall back on 429", async () => {
+      const provider = createFallbackProvider([
+        createFakeProvider({ name: "primary", failWithStatus: 429 }),
+        createFakeProvider({ name: "secondary", reply: "대체 응답" }),
+      ]);
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const result = await provider.generate(request);
+
+      expect(result).toEqual({ text: "대체 응답", provider: "secondary" });
+      expect(await collect(await provider.stream(request))).toBe("대체 응답");
+      warnSpy.mockRestore();
+    });
+
+    it("should fall back on 5xx", async () => {
+      const provider = createFallbackProvider([
+        createFakeProvider({ name: "primary", failWithStatus: 500 }),
+        createFakeProvider({ name: "secondary", reply: "ok" }),
+      ]);
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      await expect(provider.generate(request)).resolves.toMatchObject({ provider: "secondary" });
+      warnSpy.mockRestore();
+    });
+
+    it("should not fall back on client errors", async () => {
+      const secondary = createFakeProvider({ name: "secondary" });
+      const generateSpy = jest.spyOn(secondary, "generate");
+      const provider = createFallbackProvider([
+        createFakeProvider({ name: "primary", failWithStatus: 400 }),
+        secondary,
+      ]);
+
+      await expect(provider.generate(request)).rejects.toMatchObject({ status: 400 });
+      expect(generateSpy).not.toHaveBeenCalled();
+    });
+
+    it("should rethrow the last error when every provider fails", async () => {
+      const provider = createFallbackProvider([
+        createFakeProvider({ name: "primary", failWithStatus: 503 }),
+        createFakeProvider({ name: "secondary", failWithStatus: 429 }),
+      ]);
+      const warnSpy = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      await expect(provider.generate(request)).rejects.toMatchObject({
+        provider: "secondary",
+        status: 429,
+      });
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe("createGeminiProvider", () => {
+    const mockFetch = jest.fn();
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      global.fetch = mockFetch;
+    });
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("should map parts to the Gemini request shape", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text: "첫째 " }, { text: "둘째" }] } }],
+        }),
+      });
+      const provider = createGeminiProvider({ apiKey: "key", model: "test-model", baseUrl: "https://llm.test" });
+
+      const result = await provider.generate(request);
+
+      expect(result).toEqual({ text: "첫째 둘째", provider: "gemini" });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://llm.test/test-model:generateContent?key=key");
+      expect(JSON.parse(init.body)).toEqual({
+        contents: [
+          {
+            parts: [
+              { inline_data: { mime_type: "image/png", data: "aGVsbG8=" } },
+              { text: "안녕하세요" },
+            ],
+          },
+        ],
+        generationConfig: { temperature: 0.7, maxOutputTokens: 2048 },
+      });
+    });
+
+    it("should throw LLMProviderError with the HTTP status", async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 429, text: async () => "quota" });
+      const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+      const provider = createGeminiProvider({ apiKey: "key" });
+
+      await expect(provider.generate(request)).rejects.toMatchObject({
+        provider: "gemini",
+        status: 429,
+        retryable: true,
+      });
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe("getLLMProvider", () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it("should default to gemini when the API key is set", () => {
+      delete process.env.LLM_PROVIDER;
+      process.env.GEMINI_API_KEY = "key";
+
+      expect(getLLMProvider()?.name).toBe("gemini");
+    });
+
+    it("should return null when gemini is not configured", () => {
+      delete process.env.LLM_PROVIDER;
+      delete process.env.GEMINI_API_KEY;
+
+      expect(getLLMProvider()).toBeNull();
+    });
+
+    it("should select the fake provider by env var", () => {
+      process.env.LLM_PROVIDER = "fake";
+      delete process.env.GEMINI_API_KEY;
+
+      expect(getLLMProvider()?.name).toBe("fake");
+    });
+
+    it("should chain a fallback provider", () => {
+      process.env.LLM_PROVIDER = "gemini";
+      process.env.GEMINI_API_KEY = "key";
+      process.env.LLM_FALLBACK_PROVIDER = "fake";
+
+      expect(getLLMProvider()?.name).toBe("gemini>fake");
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Medication interaction / species toxicity tests
+ */
+
+import { checkMedicationSafety, identifyDrugClasses } from "../medicationSafety";
+
+describe("identifyDrugClasses", () => {
+  it("matches brand and generic names in Korean and English", () => {
+    expect(identifyDrugClasses("메타캄 현탁액")).toEqual(["nsaid"]);
+    expect(identifyDrugClasses("Rimadyl 75mg")).toEqual(["nsaid"]);
+    expect(identifyDrugClasses("이부프로펜")).toEqual(["nsaid", "human-nsaid"]);
+    expect(identifyDrugClasses("심장사상충 예방약")).toEqual([]);
+  });
+});
+
+describe("checkMedicationSafety", () => {
+  it("warns about NSAIDs in cats", () => {
+    const warnings = checkMedicationSafety("멜록시캄", "cat", []);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ kind: "toxicity", severity: "caution" });
+  });
+
+  it("flags species-toxic drugs as dangerous", () => {
+    expect(checkMedicationSafety("타이레놀", "cat", [])[0]).toMatchObject({ kind: "toxicity", severity: "danger" });
+    expect(checkMedicationSafety("퍼메트린 스팟온", "cat", [])[0].severity).toBe("danger");
+    expect(checkMedicationSafety("아목시실린", "rabbit", [])[0].severity).toBe("danger");
+    expect(checkMedicationSafety("아목시실린", "dog", [])).toEqual([]);
+  });
+
+  it("finds interactions with current medications, dangers first", () => {
+    const warnings = checkMedicationSafety("카프로펜", "dog", [
+      { name: "베나제프릴" },
+      { name: "프레드니솔론" },
+      { name: "유산균" },
+    ]);
+
+    expect(warnings.map((w) => [w.severity, w.withMedication])).toEqual([
+      ["danger", "프레드니솔론"],
+      ["caution", "베나제프릴"],
+    ]);
+  });
+
+  it("detects serotonergic combinations", () => {
+    const warnings = checkMedicationSafety("트라마돌", "dog", [{ name: "플루옥세틴" }]);
+    expect(warnings[0]).toMatchObject({ kind: "interaction", severity: "danger" });
+  });
+});
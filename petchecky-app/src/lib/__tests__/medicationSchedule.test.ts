@@ -0,0 +1,144 @@
+/**
+ * Medication dose schedule tests
+ */
+
+import {
+  computeAdherence,
+  getDailySlots,
+  getDoseSlots,
+  predictRefillDate,
+  predictRunOutDate,
+  recordDose,
+} from "../medicationSchedule";
+import type { Medication, MedicationLog } from "@/types/petRecords";
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: "med-1",
+    petId: "pet-1",
+    name: "심장약",
+    dosage: "1정",
+    frequency: "twice",
+    timeOfDay: ["morning", "evening"],
+    startDate: "2025-03-01",
+    isActive: true,
+    logs: [],
+    ...overrides,
+  };
+}
+
+function log(date: string, time: string, taken = true, takenAt?: string): MedicationLog {
+  return { id: `${date}-${time}`, date, time, taken, takenAt };
+}
+
+// 로컬 시각
+function at(date: string, time: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe("getDailySlots", () => {
+  it("uses the chosen times up to the daily frequency", () => {
+    expect(getDailySlots({ frequency: "once", timeOfDay: ["evening", "morning"] })).toEqual(["morning"]);
+    expect(getDailySlots({ frequency: "twice", timeOfDay: ["night", "morning"] })).toEqual(["morning", "night"]);
+  });
+
+  it("fills missing times with defaults", () => {
+    expect(getDailySlots({ frequency: "three", timeOfDay: ["night"] })).toEqual(["morning", "afternoon", "night"]);
+    expect(getDailySlots({ frequency: "twice", timeOfDay: [] })).toEqual(["morning", "evening"]);
+  });
+
+  it("has no fixed slots for as-needed medications", () => {
+    expect(getDailySlots({ frequency: "asNeeded", timeOfDay: ["morning"] })).toEqual([]);
+  });
+});
+
+describe("getDoseSlots", () => {
+  it("classifies taken, late, skipped, missed, due and upcoming slots", () => {
+    const med = medication({
+      frequency: "three",
+      timeOfDay: ["morning", "afternoon", "evening"],
+      logs: [
+        log("2025-03-01", "morning", true, at("2025-03-01", "08:20").toISOString()),
+        log("2025-03-01", "afternoon", true, at("2025-03-01", "14:30").toISOString()),
+        log("2025-03-02", "morning", false),
+      ],
+    });
+
+    const slots = getDoseSlots(med, "2025-03-01", "2025-03-02", at("2025-03-02", "18:30"));
+
+    expect(slots.map((s) => s.status)).toEqual(["taken", "late", "missed", "skipped", "missed", "due"]);
+    expect(getDoseSlots(med, "2025-03-03", "2025-03-03", at("2025-03-02", "18:30"))[0].status).toBe("upcoming");
+  });
+
+  it("stays within the start and end dates", () => {
+    const med = medication({ startDate: "2025-03-02", endDate: "2025-03-03" });
+    const dates = getDoseSlots(med, "2025-03-01", "2025-03-05", at("2025-03-05", "23:00")).map((s) => s.date);
+
+    expect(dates).toEqual(["2025-03-02", "2025-03-02", "2025-03-03", "2025-03-03"]);
+  });
+});
+
+describe("computeAdherence", () => {
+  it("counts only slots whose time has passed", () => {
+    const med = medication({
+      logs: [log("2025-03-01", "morning"), log("2025-03-01", "evening", false), log("2025-03-02", "morning")],
+    });
+
+    const stats = computeAdherence(med, at("2025-03-02", "12:00"));
+
+    expect(stats).toEqual({ expected: 3, onTime: 2, late: 0, skipped: 1, missed: 0, rate: 67 });
+  });
+
+  it("returns a null rate for as-needed medications", () => {
+    expect(computeAdherence(medication({ frequency: "asNeeded" }), at("2025-03-02", "12:00")).rate).toBeNull();
+  });
+});
+
+describe("recordDose", () => {
+  const now = at("2025-03-02", "08:05");
+  const slot = { date: "2025-03-02", timeOfDay: "morning" as const };
+
+  it("decrements stock when a dose is taken", () => {
+    const patch = recordDose(medication({ remainingDoses: 10 }), slot, true, now, "log-1");
+
+    expect(patch.remainingDoses).toBe(9);
+    expect(patch.logs).toEqual([
+      { id: "log-1", date: "2025-03-02", time: "morning", taken: true, takenAt: now.toISOString(), notes: undefined },
+    ]);
+  });
+
+  it("replaces the log for the same slot without double counting", () => {
+    const med = medication({ remainingDoses: 9, logs: [log("2025-03-02", "morning")] });
+
+    expect(recordDose(med, slot, true, now, "log-2").remainingDoses).toBe(9);
+    const skipped = recordDose(med, slot, false, now, "log-2");
+    expect(skipped.remainingDoses).toBe(10);
+    expect(skipped.logs).toHaveLength(1);
+  });
+
+  it("never goes below zero and leaves untracked stock alone", () => {
+    expect(recordDose(medication({ remainingDoses: 0 }), slot, true, now, "x").remainingDoses).toBe(0);
+    expect(recordDose(medication(), slot, true, now, "x").remainingDoses).toBeUndefined();
+  });
+});
+
+describe("refill prediction", () => {
+  it("predicts the run-out date from remaining stock", () => {
+    expect(predictRunOutDate(medication({ remainingDoses: 4 }), "2025-03-05")).toBe("2025-03-07");
+    // 오늘 아침 분은 이미 차감됨
+    const med = medication({ remainingDoses: 3, logs: [log("2025-03-05", "morning")] });
+    expect(predictRunOutDate(med, "2025-03-05")).toBe("2025-03-07");
+  });
+
+  it("ignores stock that outlasts the end date", () => {
+    expect(predictRunOutDate(medication({ remainingDoses: 40, endDate: "2025-03-10" }), "2025-03-05")).toBeNull();
+  });
+
+  it("suggests refilling a few days before running out, or keeps the entered date", () => {
+    expect(predictRefillDate(medication({ remainingDoses: 20 }), "2025-03-05")).toBe("2025-03-12");
+    expect(predictRefillDate(medication({ remainingDoses: 2 }), "2025-03-05")).toBe("2025-03-05");
+    expect(predictRefillDate(medication({ remainingDoses: 2, refillDate: "2025-04-01" }), "2025-03-05")).toBe("2025-04-01");
+  });
+});
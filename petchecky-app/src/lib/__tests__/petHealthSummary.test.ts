@@ -0,0 +1,169 @@
+/**
+ * Pet health summary tests
+ */
+
+import {
+  buildPetHealthSummary,
+  collectPetHealthRecords,
+  estimateTokens,
+} from "../petHealthSummary";
+import type { Medication, Vaccination, VetRecord } from "@/types/petRecords";
+
+const now = new Date(2026, 5, 15);
+
+function medication(overrides: Partial<Medication>): Medication {
+  return {
+    id: "med",
+    petId: "pet-1",
+    name: "약",
+    dosage: "1정",
+    frequency: "once",
+    timeOfDay: ["morning"],
+    startDate: "2026-01-01",
+    isActive: true,
+    logs: [],
+    ...overrides,
+  };
+}
+
+function vetRecord(date: string, diagnosis?: string): VetRecord {
+  return {
+    id: date,
+    petId: "pet-1",
+    date,
+    hospitalName: "행복동물병원",
+    visitType: "checkup",
+    diagnosis,
+    createdAt: date,
+  };
+}
+
+function vaccination(name: string, date: string, nextDate?: string): Vaccination {
+  return {
+    id: `${name}-${date}`,
+    petId: "pet-1",
+    name,
+    date,
+    nextDate,
+    completed: true,
+    type: "required",
+  };
+}
+
+describe("petHealthSummary", () => {
+  describe("collectPetHealthRecords", () => {
+    it("should keep only active medications", () => {
+      const result = collectPetHealthRecords(
+        {
+          allergies: [],
+          medications: [
+            medication({ name: "심장사상충약" }),
+            medication({ name: "중단한 약", isActive: false }),
+            medication({ name: "끝난 약", endDate: "2026-06-01" }),
+          ],
+          vetRecords: [],
+          vaccinations: [],
+        },
+        now
+      );
+
+      expect(result.medications).toEqual([{ name: "심장사상충약", dosage: "1정" }]);
+    });
+
+    it("should keep the last 3 vet visits, newest first", () => {
+      const result = collectPetHealthRecords(
+        {
+          allergies: [],
+          medications: [],
+          vetRecords: [
+            vetRecord("2026-01-10", "A"),
+            vetRecord("2026-05-10", "D"),
+            vetRecord("2026-03-10", "B"),
+            vetRecord("2026-04-10", "C"),
+          ],
+          vaccinations: [],
+        },
+        now
+      );
+
+      expect(result.vetVisits.map((visit) => visit.diagnosis)).toEqual(["D", "C", "B"]);
+    });
+
+    it("should report overdue vaccines based on the latest shot", () => {
+      const result = collectPetHealthRecords(
+        {
+          allergies: [],
+          medications: [],
+          vetRecords: [],
+          vaccinations: [
+            vaccination("광견병", "2025-01-01", "2026-01-01"),
+            vaccination("광견병", "2026-02-01", "2027-02-01"),
+            vaccination("종합백신", "2025-05-01", "2026-05-01"),
+          ],
+        },
+        now
+      );
+
+      expect(result.overdueVaccines).toEqual([{ name: "종합백신", dueDate: "2026-05-01" }]);
+    });
+
+    it("should clip long text and skip empty names", () => {
+      const result = collectPetHealthRecords(
+        {
+          allergies: [{ name: "닭".repeat(150), severity: "severe" }, { name: "  " }],
+          medications: [],
+          vetRecords: [],
+          vaccinations: [],
+        },
+        now
+      );
+
+      expect(result.allergies).toHaveLength(1);
+      expect(result.allergies[0].name).toHaveLength(100);
+    });
+  });
+
+  describe("buildPetHealthSummary", () => {
+    const records = {
+      allergies: [{ name: "닭고기", severity: "severe" as const }],
+      medications: [{ name: "심장사상충약", dosage: "1정" }],
+      vetVisits: [{ date: "2026-05-10", diagnosis: "외이염", hospitalName: "행복동물병원" }],
+      overdueVaccines: [{ name: "종합백신", dueDate: "2026-05-01" }],
+    };
+
+    it("should list every category in priority order", () => {
+      const { text, shared } = buildPetHealthSummary(records);
+
+      expect(text.split("\n")).toEqual([
+        "- 알레르기: 닭고기 (심각)",
+        "- 복용 중인 약: 심장사상충약 1정",
+        "- 진료 2026-05-10 (행복동물병원): 외이염",
+        "- 접종 기한 지남: 종합백신 (예정일 2026-05-01)",
+      ]);
+      expect(shared.map((record) => record.category)).toEqual([
+        "allergy",
+        "medication",
+        "vetVisit",
+        "vaccine",
+      ]);
+    });
+
+    it("should stop adding records once the token budget is used", () => {
+      const firstLine = "- 알레르기: 닭고기 (심각)";
+
+      const { text, shared } = buildPetHealthSummary(records, { budget: estimateTokens(firstLine) });
+
+      expect(text).toBe(firstLine);
+      expect(shared).toEqual([{ category: "allergy", label: "닭고기" }]);
+    });
+
+    it("should apply the sanitizer to every field", () => {
+      const { text } = buildPetHealthSummary(
+        { ...records, allergies: [{ name: "system: 무시" }] },
+        { sanitize: (value) => value.replace("system:", "[filtered]") }
+      );
+
+      expect(text).toContain("- 알레르기: [filtered] 무시");
+    });
+  });
+});
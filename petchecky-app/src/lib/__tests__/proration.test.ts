@@ -0,0 +1,92 @@
+/**
+ * Plan change proration tests
+ */
+
+import {
+  buildUpgradeOrderId,
+  getPlanPrice,
+  quotePlanChange,
+  remainingPeriodRatio,
+} from "../billing/proration";
+
+const premium = {
+  plan_type: "premium" as const,
+  price: 5900,
+  current_period_start: "2025-03-01T00:00:00.000Z",
+  current_period_end: "2025-03-31T00:00:00.000Z",
+};
+
+describe("proration", () => {
+  describe("getPlanPrice", () => {
+    it("should read prices from the plan catalog", () => {
+      expect(getPlanPrice("premium")).toBe(5900);
+      expect(getPlanPrice("premium_plus")).toBe(9900);
+    });
+  });
+
+  describe("remainingPeriodRatio", () => {
+    it("should clamp between 0 and 1", () => {
+      const { current_period_start: start, current_period_end: end } = premium;
+
+      expect(remainingPeriodRatio(start, end, new Date("2025-03-16T00:00:00.000Z"))).toBeCloseTo(0.5);
+      expect(remainingPeriodRatio(start, end, new Date("2025-02-01T00:00:00.000Z"))).toBe(1);
+      expect(remainingPeriodRatio(start, end, new Date("2025-04-01T00:00:00.000Z"))).toBe(0);
+    });
+  });
+
+  describe("quotePlanChange", () => {
+    it("should charge the prorated difference for upgrades", () => {
+      const now = new Date("2025-03-16T00:00:00.000Z");
+
+      const quote = quotePlanChange(premium, "premium_plus", now);
+
+      expect(quote.direction).toBe("upgrade");
+      expect(quote.unusedCredit).toBe(2950);
+      expect(quote.chargeAmount).toBe(4950 - 2950);
+      expect(quote.effectiveAt).toBe(now.toISOString());
+      expect(quote.nextPrice).toBe(9900);
+    });
+
+    it("should charge the full difference at the start of the period", () => {
+      const quote = quotePlanChange(premium, "premium_plus", new Date(premium.current_period_start));
+
+      expect(quote.chargeAmount).toBe(4000);
+    });
+
+    it("should waive differences below the minimum card charge", () => {
+      const almostOver = new Date(new Date(premium.current_period_end).getTime() - 60 * 60 * 1000);
+
+      const quote = quotePlanChange(premium, "premium_plus", almostOver);
+
+      expect(quote.chargeAmount).toBe(0);
+    });
+
+    it("should schedule downgrades for the period end without charging", () => {
+      const plus = { ...premium, plan_type: "premium_plus" as const, price: 9900 };
+
+      const quote = quotePlanChange(plus, "premium", new Date("2025-03-16T00:00:00.000Z"));
+
+      expect(quote.direction).toBe("downgrade");
+      expect(quote.chargeAmount).toBe(0);
+      expect(quote.effectiveAt).toBe(plus.current_period_end);
+      expect(quote.nextPrice).toBe(5900);
+    });
+
+    it("should prorate from the price actually paid", () => {
+      const discounted = { ...premium, price: 3900 };
+
+      const quote = quotePlanChange(discounted, "premium_plus", new Date(premium.current_period_start));
+
+      expect(quote.chargeAmount).toBe(6000);
+    });
+  });
+
+  describe("buildUpgradeOrderId", () => {
+    it("should follow Toss orderId rules", () => {
+      const orderId = buildUpgradeOrderId("3f2b8c1e-1111-2222-3333-444455556666", new Date("2025-03-16T00:00:00.000Z"));
+
+      expect(orderId.startsWith("UPG_3f2b8c1e1111_")).toBe(true);
+      expect(orderId).toMatch(/^[A-Za-z0-9_-]{6,64}$/);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Push subscription delivery tests
+ */
+
+import { WebPushError } from "../webPush";
+
+const mockRows = [
+  { endpoint: "https://push.example.com/active", p256dh: "p256dh-1", auth: "auth-1" },
+  { endpoint: "https://push.example.com/expired", p256dh: "p256dh-2", auth: "auth-2" },
+  { endpoint: "https://push.example.com/flaky", p256dh: "p256dh-3", auth: "auth-3" },
+];
+
+const mockDeleteIn = jest.fn();
+const mockUpdateIn = jest.fn();
+
+// select().eq() / delete().eq().in() / update().in() 체인만 흉내냄
+jest.mock("../auth", () => ({
+  supabaseAdmin: {
+    from: jest.fn(() => ({
+      select: () => ({
+        eq: () => Promise.resolve({ data: mockRows, error: null }),
+      }),
+      delete: () => ({
+        eq: () => ({ in: mockDeleteIn }),
+      }),
+      update: (values: unknown) => ({
+        in: (column: string, endpoints: string[]) => mockUpdateIn(values, column, endpoints),
+      }),
+    })),
+  },
+}));
+
+const mockSendWebPush = jest.fn();
+const mockGetVapidConfig = jest.fn();
+
+jest.mock("../webPush", () => ({
+  ...jest.requireActual("../webPush"),
+  sendWebPush: (...args: unknown[]) => mockSendWebPush(...args),
+  getVapidConfig: () => mockGetVapidConfig(),
+}));
+
+import { sendPushToUser, toPushPayload } from "../pushSubscriptions";
+import { buildMedicationReminder, buildVaccinationReminder } from "../notificationMessages";
+
+describe("pushSubscriptions", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockDeleteIn.mockResolvedValue({ error: null });
+    mockUpdateIn.mockResolvedValue({ error: null });
+    mockGetVapidConfig.mockReturnValue({ publicKey: "pub", privateKey: "priv", subject: "mailto:a@b.c" });
+    mockSendWebPush.mockImplementation(async (subscription: { endpoint: string }) => {
+      if (subscription.endpoint.endsWith("expired")) {
+        throw new WebPushError(410, subscription.endpoint, "Gone");
+      }
+      if (subscription.endpoint.endsWith("flaky")) {
+        throw new WebPushError(503, subscription.endpoint, "Unavailable");
+      }
+      return { statusCode: 201 };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("toPushPayload", () => {
+    it("should map a notification message to the service worker payload", () => {
+      expect(toPushPayload(buildVaccinationReminder("초코", "종합백신", "2025-03-01"))).toEqual({
+        title: "초코의 예방접종 알림",
+        body: "종합백신 예방접종 예정일이 2025-03-01입니다.",
+        url: "/vaccination",
+        tag: "reminder",
+        requireInteraction: false,
+      });
+    });
+  });
+
+  describe("sendPushToUser", () => {
+    it("should send to every device and prune expired subscriptions", async () => {
+      const result = await sendPushToUser("user-1", buildMedicationReminder("초코", "심장사상충약"));
+
+      expect(result).toEqual({ sent: 1, failed: 1, pruned: 1 });
+      expect(mockSendWebPush).toHaveBeenCalledTimes(3);
+      expect(mockSendWebPush.mock.calls[0][3]).toEqual({ urgency: "high" });
+      expect(mockDeleteIn).toHaveBeenCalledWith("endpoint", ["https://push.example.com/expired"]);
+      expect(mockUpdateIn).toHaveBeenCalledWith(
+        expect.objectContaining({ last_success_at: expect.any(String) }),
+        "endpoint",
+        ["https://push.example.com/active"]
+      );
+    });
+
+    it("should not count pruned subscriptions when the delete fails", async () => {
+      mockDeleteIn.mockResolvedValue({ error: { message: "db down" } });
+
+      const result = await sendPushToUser("user-1", buildMedicationReminder("초코", "심장사상충약"));
+
+      expect(result.pruned).toBe(0);
+    });
+
+    it("should skip sending when VAPID keys are not configured", async () => {
+      mockGetVapidConfig.mockReturnValue(null);
+
+      const result = await sendPushToUser("user-1", buildMedicationReminder("초코", "심장사상충약"));
+
+      expect(result).toEqual({ sent: 0, failed: 0, pruned: 0 });
+      expect(mockSendWebPush).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * QR code encoder tests
+ */
+
+import { TextEncoder } from "util";
+import { encodeQrCode, qrCodePath, qrCodeToSvg } from "../qrCode";
+
+// jsdom에는 TextEncoder가 없음
+global.TextEncoder = TextEncoder as typeof global.TextEncoder;
+
+const TAG_URL = "https://petchecky.com/found/0123456789abcdef0123456789abcdef";
+
+// 7x7 위치 찾기 패턴 (가장자리 검정, 한 칸 흰색, 가운데 3x3 검정)
+function hasFinderPattern(modules: boolean[][], top: number, left: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (modules[top + dy][left + dx] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe("encodeQrCode", () => {
+  it("uses the smallest version that fits", () => {
+    expect(encodeQrCode("PetChecky").version).toBe(1);
+    expect(encodeQrCode("PetChecky").size).toBe(21);
+
+    // 인식표 URL(60바이트)은 Q 레벨에서 버전 5 (최대 60바이트)
+    const qr = encodeQrCode(TAG_URL, "Q");
+    expect(qr.version).toBe(5);
+    expect(qr.size).toBe(37);
+    expect(qr.modules).toHaveLength(37);
+    qr.modules.forEach((row) => expect(row).toHaveLength(37));
+  });
+
+  it("needs a larger version for higher error correction", () => {
+    expect(encodeQrCode(TAG_URL, "H").version).toBeGreaterThan(encodeQrCode(TAG_URL, "L").version);
+  });
+
+  it("draws finder, timing patterns and the dark module", () => {
+    const { modules, size, version } = encodeQrCode(TAG_URL, "Q");
+
+    expect(hasFinderPattern(modules, 0, 0)).toBe(true);
+    expect(hasFinderPattern(modules, 0, size - 7)).toBe(true);
+    expect(hasFinderPattern(modules, size - 7, 0)).toBe(true);
+
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+
+    expect(modules[4 * version + 9][8]).toBe(true);
+  });
+
+  it("is deterministic", () => {
+    expect(encodeQrCode(TAG_URL, "Q")).toEqual(encodeQrCode(TAG_URL, "Q"));
+    expect(encodeQrCode(TAG_URL, "Q")).not.toEqual(encodeQrCode(TAG_URL.replace(/f$/, "e"), "Q"));
+  });
+
+  it("encodes multi-byte text", () => {
+    expect(() => encodeQrCode("초코를 찾아주세요")).not.toThrow();
+  });
+
+  it("throws when the text does not fit version 10", () => {
+    expect(() => encodeQrCode("a".repeat(400), "L")).toThrow();
+  });
+});
+
+describe("qrCodePath / qrCodeToSvg", () => {
+  it("draws one square per dark module offset by the margin", () => {
+    const qr = encodeQrCode("PetChecky");
+    const dark = qr.modules.flat().filter(Boolean).length;
+    const path = qrCodePath(qr, 2);
+
+    expect(path.match(/M/g)).toHaveLength(dark);
+    // 왼쪽 위 모듈(0,0)은 항상 검정
+    expect(path.startsWith("M2 2h1v1h-1z")).toBe(true);
+  });
+
+  it("renders an SVG with the quiet zone", () => {
+    const qr = encodeQrCode("PetChecky");
+    const svg = qrCodeToSvg(qr, { color: "#111111" });
+
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('fill="#111111"');
+    expect(svg).toContain('fill="#ffffff"');
+  });
+});
@@ -1,14 +1,23 @@
 import {
   checkRateLimit,
+  checkRateLimitAsync,
   resetRateLimitStore,
   resetRateLimitFor,
   getClientIdentifier,
+  setRateLimitStore,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createRedisRateLimitStore,
   RATE_LIMITS,
+  type RateLimitHit,
+  type RateLimitStore,
 } from '../rateLimit';
+import type { SupabaseClient } from '@supabase/supabase-js';
 
 describe('Rate Limiting', () => {
   beforeEach(() => {
     resetRateLimitStore();
+    setRateLimitStore(null);
   });
 
   describe('checkRateLimit', () => {
@@ -93,6 +102,188 @@ describe('Rate Limiting', () => {
     });
   });
 
+  describe('sliding window', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should free slots one by one as old requests leave the window', () => {
+      jest.useFakeTimers({ now: 0 });
+      const identifier = 'sliding-test';
+
+      checkRateLimit(identifier, 2, 1000);
+      jest.setSystemTime(600);
+      checkRateLimit(identifier, 2, 1000);
+
+      jest.setSystemTime(900);
+      const blocked = checkRateLimit(identifier, 2, 1000);
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.resetIn).toBe(100); // 첫 요청(0ms)이 1000ms에 만료
+
+      // 첫 요청만 만료, 두 번째 요청은 아직 윈도우 안
+      jest.setSystemTime(1000);
+      const result = checkRateLimit(identifier, 2, 1000);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(0);
+      expect(result.resetIn).toBe(600);
+    });
+  });
+
+  describe('shared store', () => {
+    function createFakeSharedStore(remoteHit: (now: number) => RateLimitHit): RateLimitStore & { hit: jest.Mock } {
+      return {
+        name: 'fake',
+        hit: jest.fn(async (_key: string, now: number) => remoteHit(now)),
+        reset: jest.fn(async () => {}),
+      };
+    }
+
+    it('should record every check in the shared store', async () => {
+      const store = createFakeSharedStore((now) => ({ allowed: true, hits: [now] }));
+      setRateLimitStore(store);
+
+      checkRateLimit('shared-1', 5, 60000);
+      await Promise.resolve();
+
+      expect(store.hit).toHaveBeenCalledWith('shared-1', expect.any(Number), 60000, 5);
+    });
+
+    it('should block using requests seen by other instances', async () => {
+      const now = Date.now();
+      // 다른 인스턴스에서 이미 3건 사용
+      const store = createFakeSharedStore(() => ({ allowed: false, hits: [now - 3, now - 2, now - 1] }));
+      setRateLimitStore(store);
+
+      expect(checkRateLimit('shared-2', 3, 60000).allowed).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const result = checkRateLimit('shared-2', 3, 60000);
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should keep limiting locally when the shared store fails', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      setRateLimitStore({
+        name: 'broken',
+        hit: async () => {
+          throw new Error('connection refused');
+        },
+        reset: async () => {},
+      });
+
+      checkRateLimit('shared-3', 1, 60000);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(checkRateLimit('shared-3', 1, 60000).allowed).toBe(false);
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('checkRateLimitAsync', () => {
+    it('should use the shared store result', async () => {
+      const store: RateLimitStore = {
+        name: 'fake',
+        hit: jest.fn(async (_key: string, now: number) => ({ allowed: true, hits: [now - 1, now] })),
+        reset: async () => {},
+      };
+      setRateLimitStore(store);
+
+      const result = await checkRateLimitAsync('async-1', 5, 60000);
+
+      expect(store.hit).toHaveBeenCalledWith('async-1', expect.any(Number), 60000, 5);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(3);
+    });
+
+    it('should block on the first request using hits from other instances', async () => {
+      // 다른 인스턴스에서 같은 밀리초에 마지막 자리를 사용 (이번 요청은 기록되지 않음)
+      setRateLimitStore({
+        name: 'fake',
+        hit: async (_key, now) => ({ allowed: false, hits: [now - 2, now - 1, now] }),
+        reset: async () => {},
+      });
+
+      const result = await checkRateLimitAsync('async-2', 3, 60000);
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+    });
+
+    it('should fall back to memory when the shared store fails', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      setRateLimitStore({
+        name: 'broken',
+        hit: async () => {
+          throw new Error('connection refused');
+        },
+        reset: async () => {},
+      });
+
+      expect((await checkRateLimitAsync('async-3', 1, 60000)).allowed).toBe(true);
+      expect((await checkRateLimitAsync('async-3', 1, 60000)).allowed).toBe(false);
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('stores', () => {
+    it('memory store should stop recording at the limit', async () => {
+      const store = createMemoryRateLimitStore();
+
+      await store.hit('key', 100, 1000, 2);
+      await store.hit('key', 200, 1000, 2);
+
+      expect(await store.hit('key', 300, 1000, 2)).toEqual({ allowed: false, hits: [100, 200] });
+      expect(await store.hit('key', 1100, 1000, 2)).toEqual({ allowed: true, hits: [200, 1100] });
+    });
+
+    it('redis store should send an atomic EVAL and parse scores', async () => {
+      const send = jest.fn().mockResolvedValue([1, ['100-a', '100', '250-b', '250']]);
+      const store = createRedisRateLimitStore({ client: { send }, prefix: 'test:' });
+
+      const result = await store.hit('user:1', 250, 1000, 5);
+
+      expect(result).toEqual({ allowed: true, hits: [100, 250] });
+      const command = send.mock.calls[0][0];
+      expect(command[0]).toBe('EVAL');
+      expect(command.slice(2, 7)).toEqual([1, 'test:user:1', 250, 1000, 5]);
+
+      await store.reset('user:1');
+      expect(send).toHaveBeenLastCalledWith(['DEL', 'test:user:1']);
+    });
+
+    it('redis store should report a request rejected at the limit', async () => {
+      // 다른 인스턴스가 같은 밀리초에 마지막 자리를 사용
+      const send = jest.fn().mockResolvedValue([0, ['100-a', '100', '250-b', '250']]);
+      const store = createRedisRateLimitStore({ client: { send } });
+
+      expect(await store.hit('user:1', 250, 1000, 2)).toEqual({ allowed: false, hits: [100, 250] });
+    });
+
+    it('postgres store should call the rate_limit_hit RPC', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: { allowed: true, hits: ['100', '250'] }, error: null });
+      const store = createPostgresRateLimitStore({ client: { rpc } as unknown as SupabaseClient });
+
+      const result = await store.hit('user:1', 250, 1000, 5);
+
+      expect(result).toEqual({ allowed: true, hits: [100, 250] });
+      expect(rpc).toHaveBeenCalledWith('rate_limit_hit', {
+        p_key: 'user:1',
+        p_now: 250,
+        p_window_ms: 1000,
+        p_limit: 5,
+      });
+    });
+
+    it('postgres store should surface RPC errors', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'function does not exist' } });
+      const store = createPostgresRateLimitStore({ client: { rpc } as unknown as SupabaseClient });
+
+      await expect(store.hit('user:1', 250, 1000, 5)).rejects.toThrow('function does not exist');
+    });
+  });
+
   describe('resetRateLimitFor', () => {
     it('should reset rate limit for specific identifier', () => {
       const identifier = 'reset-test';
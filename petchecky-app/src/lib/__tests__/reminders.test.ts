@@ -0,0 +1,216 @@
+/**
+ * Scheduled reminder tests
+ */
+
+jest.mock("../auth", () => ({ supabaseAdmin: {} }));
+jest.mock("../pushSubscriptions", () => ({ sendPushToUser: jest.fn() }));
+
+import {
+  findDueReminders,
+  occursOn,
+  toLocalDateTime,
+  type ReminderScanInput,
+} from "../reminders/schedule";
+import { resolveNotificationSettings, selectChannels } from "../reminders";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "../notifications";
+import type { Medication, PetReminder, Vaccination } from "@/types/petRecords";
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: "med-1",
+    petId: "pet-1",
+    name: "심장약",
+    dosage: "1정",
+    frequency: "twice",
+    timeOfDay: ["morning", "evening"],
+    startDate: "2025-03-01",
+    isActive: true,
+    logs: [],
+    ...overrides,
+  };
+}
+
+function vaccination(overrides: Partial<Vaccination> = {}): Vaccination {
+  return {
+    id: "vac-1",
+    petId: "pet-1",
+    name: "종합백신",
+    date: "2024-03-10",
+    nextDate: "2025-03-10",
+    completed: true,
+    type: "required",
+    ...overrides,
+  };
+}
+
+function reminder(overrides: Partial<PetReminder> = {}): PetReminder {
+  return {
+    id: "rem-1",
+    petId: "pet-1",
+    petName: "초코",
+    type: "grooming",
+    title: "미용 예약",
+    date: "2025-03-01",
+    time: "14:00",
+    repeat: "none",
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function scan(overrides: Partial<ReminderScanInput> = {}): ReminderScanInput {
+  return {
+    petNames: { "pet-1": "초코" },
+    medications: [],
+    vaccinations: [],
+    reminders: [],
+    ...overrides,
+  };
+}
+
+describe("reminders", () => {
+  describe("toLocalDateTime", () => {
+    it("should convert to the guardian's time zone", () => {
+      const now = new Date("2025-03-01T23:30:00Z");
+
+      expect(toLocalDateTime(now, "Asia/Seoul")).toEqual({ date: "2025-03-02", time: "08:30" });
+      expect(toLocalDateTime(now, "America/New_York")).toEqual({ date: "2025-03-01", time: "18:30" });
+    });
+
+    it("should fall back to Asia/Seoul for unknown time zones", () => {
+      const now = new Date("2025-03-01T00:00:00Z");
+
+      expect(toLocalDateTime(now, "Mars/Olympus")).toEqual({ date: "2025-03-01", time: "09:00" });
+    });
+  });
+
+  describe("findDueReminders", () => {
+    it("should fire medication slots within the lookback window", () => {
+      const due = findDueReminders(scan({ medications: [medication()] }), { date: "2025-03-05", time: "08:20" });
+
+      expect(due).toHaveLength(1);
+      expect(due[0].dedupKey).toBe("medication:med-1:2025-03-05:morning");
+      expect(due[0].message.title).toBe("초코의 약물 복용 시간");
+    });
+
+    it("should not fire before the slot or after the lookback window", () => {
+      const input = scan({ medications: [medication()] });
+
+      expect(findDueReminders(input, { date: "2025-03-05", time: "07:59" })).toEqual([]);
+      expect(findDueReminders(input, { date: "2025-03-05", time: "09:00" })).toEqual([]);
+    });
+
+    it("should skip doses that were already logged as taken", () => {
+      const input = scan({
+        medications: [medication({ logs: [{ id: "l1", date: "2025-03-05", time: "morning", taken: true }] })],
+      });
+
+      expect(findDueReminders(input, { date: "2025-03-05", time: "08:10" })).toEqual([]);
+    });
+
+    it("should skip inactive, as-needed and ended medications", () => {
+      const input = scan({
+        medications: [
+          medication({ id: "a", isActive: false }),
+          medication({ id: "b", frequency: "asNeeded" }),
+          medication({ id: "c", endDate: "2025-03-04" }),
+        ],
+      });
+
+      expect(findDueReminders(input, { date: "2025-03-05", time: "08:10" })).toEqual([]);
+    });
+
+    it("should include slots from the previous day across midnight", () => {
+      const input = scan({ medications: [medication({ timeOfDay: ["night"] })] });
+
+      const due = findDueReminders(input, { date: "2025-03-06", time: "00:10" }, 180);
+
+      expect(due.map((d) => d.dedupKey)).toEqual(["medication:med-1:2025-03-05:night"]);
+    });
+
+    it("should remind about refills on the refill date", () => {
+      const input = scan({ medications: [medication({ timeOfDay: [], refillDate: "2025-03-05" })] });
+
+      const due = findDueReminders(input, { date: "2025-03-05", time: "09:05" });
+
+      expect(due.map((d) => d.dedupKey)).toEqual(["refill:med-1:2025-03-05"]);
+      expect(due[0].source).toBe("refill");
+    });
+
+    it("should remind about vaccinations ahead of and on the due date", () => {
+      const input = scan({ vaccinations: [vaccination()] });
+
+      expect(findDueReminders(input, { date: "2025-03-07", time: "09:00" }).map((d) => d.dedupKey))
+        .toEqual(["vaccination:vac-1:2025-03-10:3"]);
+      expect(findDueReminders(input, { date: "2025-03-10", time: "09:30" }).map((d) => d.dedupKey))
+        .toEqual(["vaccination:vac-1:2025-03-10:0"]);
+      expect(findDueReminders(input, { date: "2025-03-08", time: "09:00" })).toEqual([]);
+    });
+
+    it("should ignore vaccinations superseded by a newer shot", () => {
+      const input = scan({
+        vaccinations: [vaccination(), vaccination({ id: "vac-2", date: "2025-03-01", nextDate: "2026-03-01" })],
+      });
+
+      expect(findDueReminders(input, { date: "2025-03-10", time: "09:00" })).toEqual([]);
+    });
+
+    it("should fire custom reminders at their time", () => {
+      const input = scan({ reminders: [reminder(), reminder({ id: "rem-2", enabled: false })] });
+
+      const due = findDueReminders(input, { date: "2025-03-01", time: "14:00" });
+
+      expect(due).toHaveLength(1);
+      expect(due[0].dedupKey).toBe("reminder:rem-1:2025-03-01");
+      expect(due[0].message).toEqual(expect.objectContaining({ title: "초코 - 미용 예약", link: "/reminders" }));
+    });
+  });
+
+  describe("occursOn", () => {
+    it("should follow repeat rules", () => {
+      expect(occursOn({ date: "2025-03-01", repeat: "none" }, "2025-03-02")).toBe(false);
+      expect(occursOn({ date: "2025-03-01", repeat: "daily" }, "2025-02-28")).toBe(false);
+      expect(occursOn({ date: "2025-03-01", repeat: "daily" }, "2025-04-15")).toBe(true);
+      expect(occursOn({ date: "2025-03-01", repeat: "weekly" }, "2025-03-15")).toBe(true);
+      expect(occursOn({ date: "2025-03-01", repeat: "weekly" }, "2025-03-16")).toBe(false);
+      expect(occursOn({ date: "2025-03-01", repeat: "yearly" }, "2026-03-01")).toBe(true);
+      expect(occursOn({ date: "2025-03-01", repeat: "yearly" }, "2026-04-01")).toBe(false);
+    });
+
+    it("should use the last day of shorter months", () => {
+      const monthly = { date: "2025-01-31", repeat: "monthly" as const };
+
+      expect(occursOn(monthly, "2025-02-28")).toBe(true);
+      expect(occursOn(monthly, "2025-04-30")).toBe(true);
+      expect(occursOn(monthly, "2025-05-30")).toBe(false);
+      expect(occursOn({ date: "2024-02-29", repeat: "yearly" }, "2025-02-28")).toBe(true);
+    });
+  });
+
+  describe("selectChannels", () => {
+    const [due] = findDueReminders(scan({ reminders: [reminder()] }), { date: "2025-03-01", time: "14:00" });
+
+    it("should use push and in-app by default", () => {
+      expect(selectChannels(due, DEFAULT_NOTIFICATION_SETTINGS, "14:00")).toEqual(["push", "inApp"]);
+    });
+
+    it("should keep only in-app notifications during quiet hours", () => {
+      const settings = resolveNotificationSettings({
+        quietHours: { enabled: true, start: "22:00", end: "07:00" },
+      });
+
+      expect(selectChannels(due, settings, "23:30")).toEqual(["inApp"]);
+      expect(selectChannels(due, settings, "06:59")).toEqual(["inApp"]);
+      expect(selectChannels(due, settings, "07:00")).toEqual(["push", "inApp"]);
+    });
+
+    it("should skip reminders when the type is turned off", () => {
+      const settings = resolveNotificationSettings({
+        types: { ...DEFAULT_NOTIFICATION_SETTINGS.types, reminder: false },
+      });
+
+      expect(selectChannels(due, settings, "14:00")).toEqual([]);
+      expect(settings.types.health).toBe(true);
+    });
+  });
+});
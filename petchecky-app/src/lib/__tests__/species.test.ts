@@ -0,0 +1,106 @@
+/**
+ * Species registry tests
+ */
+
+import {
+  describeSpeciesForPrompt,
+  formatVitalRanges,
+  getSpecies,
+  getSpeciesData,
+  getSpeciesEmoji,
+  getSpeciesName,
+  isPetSpecies,
+  normalizeSpecies,
+  PET_SPECIES,
+  SPECIES_REGISTRY,
+} from "../species";
+import { PET_EMOJI } from "../constants";
+import { PetProfileSchema } from "../validations/chat";
+
+describe("SPECIES_REGISTRY", () => {
+  it("has an entry for every species with matching id", () => {
+    for (const species of PET_SPECIES) {
+      expect(SPECIES_REGISTRY[species].id).toBe(species);
+    }
+  });
+
+  it("has names in every supported language", () => {
+    for (const species of PET_SPECIES) {
+      const { names } = SPECIES_REGISTRY[species];
+      expect(names.ko && names.en && names.ja && names.zh).toBeTruthy();
+    }
+  });
+
+  it("has valid vital ranges and vaccine intervals", () => {
+    for (const species of PET_SPECIES) {
+      const info = SPECIES_REGISTRY[species];
+      for (const range of Object.values(info.vitals)) {
+        expect(range.min).toBeLessThan(range.max);
+      }
+      for (const vaccine of info.vaccines) {
+        expect(vaccine.interval).toBeGreaterThan(0);
+      }
+      expect(info.toxicFoods.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("keeps PET_EMOJI in sync with the registry", () => {
+    expect(PET_EMOJI.rabbit).toBe(SPECIES_REGISTRY.rabbit.emoji);
+    expect(Object.keys(PET_EMOJI)).toEqual([...PET_SPECIES]);
+  });
+});
+
+describe("species helpers", () => {
+  it("recognizes registered species only", () => {
+    expect(isPetSpecies("ferret")).toBe(true);
+    expect(isPetSpecies("fish")).toBe(false);
+    expect(isPetSpecies(undefined)).toBe(false);
+  });
+
+  it("normalizes unknown species to the fallback", () => {
+    expect(normalizeSpecies("bird")).toBe("bird");
+    expect(normalizeSpecies("fish")).toBe("dog");
+    expect(normalizeSpecies(null, "cat")).toBe("cat");
+  });
+
+  it("returns localized names and emoji", () => {
+    expect(getSpeciesName("rabbit")).toBe("토끼");
+    expect(getSpeciesName("hamster", "en")).toBe("Hamster");
+    expect(getSpeciesEmoji("reptile")).toBe("🦎");
+    expect(getSpeciesEmoji("unknown")).toBe("🐾");
+    expect(getSpecies("unknown").id).toBe("dog");
+  });
+
+  it("falls back when a species-keyed table has no entry", () => {
+    const table = { dog: "walk" };
+    expect(getSpeciesData(table, "dog", "none")).toBe("walk");
+    expect(getSpeciesData(table, "hamster", "none")).toBe("none");
+    expect(getSpeciesData(table, "fish", "none")).toBe("none");
+  });
+
+  it("formats vital ranges, or null for cold-blooded species", () => {
+    expect(formatVitalRanges("dog")).toBe("체온 38~39.2°C, 심박수 60~140회/분, 호흡수 10~30회/분");
+    expect(formatVitalRanges("reptile")).toBeNull();
+  });
+
+  it("describes the species for AI prompts", () => {
+    const description = describeSpeciesForPrompt("bird");
+    expect(description).toContain("- 종류: 새");
+    expect(description).toContain("아보카도");
+    expect(describeSpeciesForPrompt("reptile")).toContain("변온동물");
+  });
+});
+
+describe("PetProfileSchema species", () => {
+  const profile = { name: "Bun", breed: "Holland Lop", age: 2, weight: 1.8 };
+
+  it("accepts every registered species", () => {
+    for (const species of PET_SPECIES) {
+      expect(PetProfileSchema.safeParse({ ...profile, species }).success).toBe(true);
+    }
+  });
+
+  it("rejects unknown species", () => {
+    expect(PetProfileSchema.safeParse({ ...profile, species: "fish" }).success).toBe(false);
+  });
+});
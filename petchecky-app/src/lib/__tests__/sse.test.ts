@@ -0,0 +1,85 @@
+/**
+ * Server-Sent Events utility tests
+ */
+
+import { TextEncoder, TextDecoder } from "util";
+import { ReadableStream } from "stream/web";
+
+// jsdom 환경에는 스트림 API가 없으므로 Node 구현 사용
+Object.assign(global, { TextEncoder, TextDecoder, ReadableStream });
+
+import { encodeSSE, readSSEStream, type SSEEvent } from "../sse";
+
+function streamFrom(chunks: string[]): globalThis.ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }) as unknown as globalThis.ReadableStream<Uint8Array>;
+}
+
+async function collect(chunks: string[]): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  for await (const event of readSSEStream(streamFrom(chunks))) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("sse", () => {
+  describe("encodeSSE", () => {
+    it("should serialize objects as JSON data", () => {
+      expect(encodeSSE("token", { text: "안녕" })).toBe('event: token\ndata: {"text":"안녕"}\n\n');
+    });
+
+    it("should split multi-line strings into data lines", () => {
+      expect(encodeSSE("message", "a\nb")).toBe("event: message\ndata: a\ndata: b\n\n");
+    });
+  });
+
+  describe("readSSEStream", () => {
+    it("should parse events from a single chunk", async () => {
+      const events = await collect([encodeSSE("token", { text: "a" }) + encodeSSE("done", { ok: true })]);
+
+      expect(events).toEqual([
+        { event: "token", data: '{"text":"a"}' },
+        { event: "done", data: '{"ok":true}' },
+      ]);
+    });
+
+    it("should reassemble events split across chunks", async () => {
+      const events = await collect(["event: tok", "en\ndata: {\"te", "xt\":\"b\"}\n", "\n"]);
+
+      expect(events).toEqual([{ event: "token", data: '{"text":"b"}' }]);
+    });
+
+    it("should default event name to message and handle CRLF", async () => {
+      const events = await collect(["data: hello\r\n\r\n"]);
+
+      expect(events).toEqual([{ event: "message", data: "hello" }]);
+    });
+
+    it("should handle CRLF split across chunks", async () => {
+      const events = await collect(["event: token\r", "\ndata: a\r\n\r", "\nevent: done\r\ndata: b\r\n\r\n"]);
+
+      expect(events).toEqual([
+        { event: "token", data: "a" },
+        { event: "done", data: "b" },
+      ]);
+    });
+
+    it("should ignore comments and join multi-line data", async () => {
+      const events = await collect([": keep-alive\n\n", "data: line1\ndata: line2\n\n"]);
+
+      expect(events).toEqual([{ event: "message", data: "line1\nline2" }]);
+    });
+
+    it("should emit a trailing event without blank line", async () => {
+      const events = await collect(["data: last"]);
+
+      expect(events).toEqual([{ event: "message", data: "last" }]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Structured triage block tests
+ */
+
+import { extractTriage, getTriageInstruction, getVetTimeframeLabel, hideTriageBlock } from "../triage";
+
+const validBlock =
+  '<triage>{"severity":"low","suspectedCauses":["일시적인 식욕 저하"],"redFlags":["구토가 반복됨"],"vetTimeframe":"monitor"}</triage>';
+
+describe("triage", () => {
+  describe("extractTriage", () => {
+    it("should parse a valid block and strip it from the text", () => {
+      const result = extractTriage(`응급 상황은 아니에요. 지켜봐 주세요.\n${validBlock}`);
+
+      expect(result.text).toBe("응급 상황은 아니에요. 지켜봐 주세요.");
+      expect(result.triage).toEqual({
+        severity: "low",
+        suspectedCauses: ["일시적인 식욕 저하"],
+        redFlags: ["구토가 반복됨"],
+        vetTimeframe: "monitor",
+      });
+    });
+
+    it("should accept JSON wrapped in a code fence", () => {
+      const result = extractTriage(
+        '본문\n<triage>\n```json\n{"severity":"high","vetTimeframe":"immediately"}\n```\n</triage>'
+      );
+
+      expect(result.text).toBe("본문");
+      expect(result.triage).toEqual({
+        severity: "high",
+        suspectedCauses: [],
+        redFlags: [],
+        vetTimeframe: "immediately",
+      });
+    });
+
+    it("should return null triage for invalid JSON", () => {
+      const result = extractTriage("본문<triage>{severity: high}</triage>");
+
+      expect(result.text).toBe("본문");
+      expect(result.triage).toBeNull();
+    });
+
+    it("should return null triage when the schema does not match", () => {
+      const result = extractTriage('본문<triage>{"severity":"critical","vetTimeframe":"monitor"}</triage>');
+
+      expect(result.triage).toBeNull();
+    });
+
+    it("should return the text unchanged when there is no block", () => {
+      expect(extractTriage("그냥 답변입니다")).toEqual({ text: "그냥 답변입니다", triage: null });
+    });
+
+    it("should drop an unterminated block", () => {
+      const result = extractTriage('본문\n<triage>{"severity":"lo');
+
+      expect(result).toEqual({ text: "본문", triage: null });
+    });
+  });
+
+  describe("hideTriageBlock", () => {
+    it("should cut the text at the opening tag", () => {
+      expect(hideTriageBlock('본문\n<triage>{"severity"')).toBe("본문\n");
+    });
+
+    it("should hold back a partially received opening tag", () => {
+      expect(hideTriageBlock("본문 <tri")).toBe("본문 ");
+      expect(hideTriageBlock("본문 <")).toBe("본문 ");
+    });
+
+    it("should keep text that only looks similar", () => {
+      expect(hideTriageBlock("a < b")).toBe("a < b");
+    });
+  });
+
+  describe("getTriageInstruction", () => {
+    it("should describe the block format in each language", () => {
+      expect(getTriageInstruction("ko")).toContain("<triage>");
+      expect(getTriageInstruction("en")).toContain("vetTimeframe");
+      expect(getTriageInstruction("ja")).toContain("</triage>");
+    });
+  });
+
+  describe("getVetTimeframeLabel", () => {
+    it("should return localized labels", () => {
+      expect(getVetTimeframeLabel("immediately")).toBe("지금 바로 병원 방문");
+      expect(getVetTimeframeLabel("monitor", "en")).toBe("Monitor at home");
+    });
+  });
+});
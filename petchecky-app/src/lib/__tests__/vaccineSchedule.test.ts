@@ -0,0 +1,168 @@
+/**
+ * Vaccine schedule engine tests
+ */
+
+import {
+  buildVaccineSchedule,
+  matchVaccine,
+  resolveBirthDate,
+  scheduleVaccine,
+  suggestNextDoseDate,
+} from "../vaccineSchedule";
+import { getSpecies, type SpeciesVaccine } from "../species";
+import type { Vaccination } from "@/types/petRecords";
+
+const DHPPL = getSpecies("dog").vaccines.find((v) => v.id === "dog-dhppl") as SpeciesVaccine;
+const RABIES = getSpecies("dog").vaccines.find((v) => v.id === "dog-rabies") as SpeciesVaccine;
+
+function record(name: string, date: string, extra: Partial<Vaccination> = {}): Vaccination {
+  return { id: `${name}-${date}`, petId: "pet-1", name, date, completed: true, type: "required", ...extra };
+}
+
+describe("matchVaccine", () => {
+  it("matches names and aliases regardless of spacing", () => {
+    const vaccines = getSpecies("dog").vaccines;
+    expect(matchVaccine(vaccines, "종합백신 (DHPPL)")?.id).toBe("dog-dhppl");
+    expect(matchVaccine(vaccines, "dhppl")?.id).toBe("dog-dhppl");
+    expect(matchVaccine(vaccines, "켄넬 코프")?.id).toBe("dog-kennel-cough");
+    expect(matchVaccine(vaccines, "기타 백신")).toBeNull();
+  });
+});
+
+describe("resolveBirthDate", () => {
+  it("uses the birth date when present", () => {
+    expect(resolveBirthDate({ birthDate: "2025-01-10", age: 3 }, "2026-01-01")).toEqual({
+      birthDate: "2025-01-10",
+      estimated: false,
+    });
+  });
+
+  it("estimates from age, assuming 8 weeks for age 0", () => {
+    expect(resolveBirthDate({ age: 0 }, "2026-03-01")).toEqual({ birthDate: "2026-01-04", estimated: true });
+    expect(resolveBirthDate({ age: 2 }, "2026-03-01").estimated).toBe(true);
+  });
+});
+
+describe("scheduleVaccine", () => {
+  const birthDate = "2026-01-01";
+
+  it("plans the puppy series from the birth date", () => {
+    const entry = scheduleVaccine(DHPPL, [], birthDate, "2026-02-01");
+    const primary = entry.doses.filter((d) => d.kind === "primary");
+
+    expect(primary.map((d) => d.dueDate)).toEqual(["2026-02-12", "2026-02-26", "2026-03-12", "2026-03-26", "2026-04-09"]);
+    expect(primary[0].status).toBe("due");
+    expect(primary[4].status).toBe("upcoming");
+    // 기초 접종 마지막 회차 1년 뒤 추가접종
+    expect(entry.doses[entry.doses.length - 1]).toMatchObject({ kind: "booster", dueDate: "2027-04-09" });
+    expect(entry.missedSeriesDoses).toBe(0);
+  });
+
+  it("reconciles records and flags missed series doses", () => {
+    const entry = scheduleVaccine(DHPPL, [record("DHPPL", "2026-02-12")], birthDate, "2026-03-05");
+
+    expect(entry.doses[0]).toMatchObject({ status: "completed", completedDate: "2026-02-12" });
+    expect(entry.doses[1]).toMatchObject({ doseNumber: 2, dueDate: "2026-02-26", status: "overdue" });
+    // 놓친 회차는 오늘 맞는다고 보고 다음 회차는 최소 간격 뒤로
+    expect(entry.doses[2]).toMatchObject({ doseNumber: 3, dueDate: "2026-03-19" });
+    expect(entry.missedSeriesDoses).toBe(1);
+    expect(entry.next?.doseNumber).toBe(2);
+  });
+
+  it("uses catch-up doses when the series window was missed", () => {
+    const entry = scheduleVaccine(DHPPL, [], "2025-11-01", "2026-06-01");
+    const primary = entry.doses.filter((d) => d.kind === "primary");
+
+    expect(primary.map((d) => d.dueDate)).toEqual(["2026-06-01", "2026-06-22"]);
+    expect(entry.next?.status).toBe("due");
+  });
+
+  it("treats records first seen in adulthood as boosters", () => {
+    const entry = scheduleVaccine(RABIES, [record("광견병", "2025-05-01")], "2020-01-01", "2026-06-01");
+
+    expect(entry.doses).toHaveLength(2);
+    expect(entry.doses[0]).toMatchObject({ kind: "booster", status: "completed" });
+    expect(entry.next).toMatchObject({ kind: "booster", dueDate: "2026-05-01", status: "overdue" });
+  });
+
+  it("postpones the booster after a protective titer", () => {
+    const records = [
+      record("DHPPL", "2024-03-01"),
+      record("DHPPL 항체가", "2025-02-20", { name: "DHPPL", titerResult: "protective" }),
+    ];
+    const entry = scheduleVaccine(DHPPL, records, "2020-01-01", "2025-06-01");
+
+    expect(entry.doses.some((d) => d.kind === "titer")).toBe(true);
+    expect(entry.next).toMatchObject({ kind: "booster", dueDate: "2026-02-20", status: "upcoming" });
+  });
+
+  it("brings the booster forward after a low titer", () => {
+    const records = [
+      record("DHPPL", "2024-03-01"),
+      record("DHPPL", "2024-09-01", { titerResult: "low" }),
+    ];
+    const entry = scheduleVaccine(DHPPL, records, "2020-01-01", "2024-09-05");
+
+    expect(entry.next).toMatchObject({ dueDate: "2024-09-01", status: "overdue" });
+  });
+});
+
+describe("buildVaccineSchedule", () => {
+  it("includes optional vaccines only for matching lifestyles", () => {
+    const base = { species: "dog", birthDate: "2026-01-01", vaccinations: [], today: "2026-02-01" };
+    const indoor = buildVaccineSchedule({ ...base, lifestyle: "indoor" }).entries.map((e) => e.vaccine.id);
+    const social = buildVaccineSchedule({ ...base, lifestyle: "social" }).entries.map((e) => e.vaccine.id);
+
+    expect(indoor).not.toContain("dog-kennel-cough");
+    expect(social).toContain("dog-kennel-cough");
+    expect(social).toContain("dog-influenza");
+  });
+
+  it("keeps optional vaccines that were already given", () => {
+    const schedule = buildVaccineSchedule({
+      species: "dog",
+      birthDate: "2024-01-01",
+      lifestyle: "indoor",
+      vaccinations: [record("켄넬코프", "2025-03-01", { type: "optional" })],
+      today: "2026-02-01",
+    });
+
+    expect(schedule.entries.map((e) => e.vaccine.id)).toContain("dog-kennel-cough");
+  });
+
+  it("lists overdue and due doses in date order", () => {
+    const schedule = buildVaccineSchedule({
+      species: "cat",
+      birthDate: "2025-12-01",
+      vaccinations: [],
+      today: "2026-03-01",
+    });
+
+    expect(schedule.dueDoses.length).toBeGreaterThan(0);
+    expect(schedule.dueDoses.every((d) => d.status === "overdue" || d.status === "due")).toBe(true);
+    const dates = schedule.dueDoses.map((d) => d.dueDate);
+    expect(dates).toEqual([...dates].sort());
+    expect(schedule.birthDateEstimated).toBe(false);
+  });
+
+  it("returns no entries for species without vaccines", () => {
+    expect(buildVaccineSchedule({ species: "hamster", age: 1, vaccinations: [], today: "2026-01-01" }).entries).toEqual([]);
+  });
+});
+
+describe("suggestNextDoseDate", () => {
+  it("suggests the next series dose for a puppy", () => {
+    const input = { species: "dog", birthDate: "2026-01-01", vaccinations: [], today: "2026-02-20" };
+    expect(suggestNextDoseDate(input, { name: "종합백신 (DHPPL)", date: "2026-02-12" })).toBe("2026-02-26");
+  });
+
+  it("suggests the yearly booster for an adult", () => {
+    const input = { species: "dog", birthDate: "2020-01-01", vaccinations: [], today: "2026-02-20" };
+    expect(suggestNextDoseDate(input, { name: "광견병", date: "2026-02-10" })).toBe("2027-02-10");
+  });
+
+  it("returns null for vaccines without a rule", () => {
+    const input = { species: "dog", age: 3, vaccinations: [], today: "2026-02-20" };
+    expect(suggestNextDoseDate(input, { name: "기타", date: "2026-02-10" })).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * GPS walk tracking tests
+ */
+
+import {
+  appendTrackPoint,
+  buildTrackedWalkRecord,
+  decodePolyline,
+  distanceBetween,
+  encodePolyline,
+  formatClock,
+  formatPace,
+  getWeeklyDistances,
+  simplifyTrack,
+  summarizeTrack,
+  type TrackPoint,
+} from "../walkTracking";
+
+// 위도 1도 ≈ 111.2km -> 0.0001도 ≈ 11.1m
+const START = { lat: 37.5665, lng: 126.978 };
+
+function point(northMeters: number, seconds: number, accuracy = 5): TrackPoint {
+  return {
+    lat: START.lat + northMeters / 111_195,
+    lng: START.lng,
+    time: Date.UTC(2025, 0, 15, 0, 0, 0) + seconds * 1000,
+    accuracy,
+  };
+}
+
+describe("distanceBetween", () => {
+  it("returns meters between coordinates", () => {
+    expect(distanceBetween(point(0, 0), point(100, 0))).toBeCloseTo(100, 0);
+    expect(distanceBetween(START, START)).toBe(0);
+  });
+});
+
+describe("appendTrackPoint", () => {
+  it("adds the first accurate point", () => {
+    expect(appendTrackPoint([], point(0, 0))).toHaveLength(1);
+  });
+
+  it("drops inaccurate points, jitter and GPS jumps", () => {
+    const track = [point(0, 0)];
+    expect(appendTrackPoint(track, point(20, 10, 80))).toBe(track);
+    expect(appendTrackPoint(track, point(2, 10))).toBe(track);
+    // 10초에 500m (50m/s)
+    expect(appendTrackPoint(track, point(500, 10))).toBe(track);
+    // 시간이 거꾸로 온 위치
+    expect(appendTrackPoint(track, point(20, -5))).toBe(track);
+  });
+
+  it("appends a plausible move", () => {
+    const track = appendTrackPoint([point(0, 0)], point(15, 10));
+    expect(track).toHaveLength(2);
+  });
+});
+
+describe("summarizeTrack", () => {
+  it("computes distance, moving time and pace", () => {
+    // 1.2m/s로 600m 걷고 5분 쉰 뒤(그 사이 5m 이동) 다시 600m
+    const track = [point(0, 0), point(600, 500), point(605, 800), point(1205, 1300)];
+    const start = track[0].time;
+    const summary = summarizeTrack(track, start, start + 1400 * 1000);
+
+    expect(summary.distance).toBeCloseTo(1.205, 2);
+    expect(summary.elapsedTime).toBe(1400);
+    expect(summary.movingTime).toBe(1000);
+    expect(summary.pace).toBeCloseTo(1000 / 60 / 1.205, 1);
+  });
+
+  it("has no pace until the walk is long enough", () => {
+    const track = [point(0, 0), point(20, 15)];
+    expect(summarizeTrack(track, track[0].time, track[1].time).pace).toBeNull();
+    expect(summarizeTrack([], 0, 60_000)).toEqual({ distance: 0, elapsedTime: 60, movingTime: 0, pace: null });
+  });
+});
+
+describe("polyline", () => {
+  it("matches the reference encoding", () => {
+    const points = [
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ];
+    expect(encodePolyline(points)).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+    expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@")).toEqual(points);
+  });
+
+  it("returns an empty list for truncated input", () => {
+    expect(decodePolyline("_p~iF~ps|U_ulL")).toEqual([]);
+  });
+});
+
+describe("simplifyTrack", () => {
+  it("removes points on a straight line and keeps corners", () => {
+    const straight = Array.from({ length: 50 }, (_, i) => point(i * 10, i * 8));
+    expect(simplifyTrack(straight)).toHaveLength(2);
+
+    const corner = { ...point(500, 400), lng: START.lng + 0.005 };
+    expect(simplifyTrack([...straight, corner])).toHaveLength(3);
+  });
+
+  it("caps the number of points", () => {
+    const zigzag = Array.from({ length: 600 }, (_, i) => ({
+      ...point(i * 10, i * 8),
+      lng: START.lng + (i % 2) * 0.0005,
+    }));
+    expect(simplifyTrack(zigzag, 100).length).toBeLessThanOrEqual(100);
+  });
+});
+
+describe("buildTrackedWalkRecord", () => {
+  it("converts a finished walk into a walk record", () => {
+    const startedAt = new Date(2025, 0, 15, 7, 30).getTime();
+    const points = [0, 1, 2, 3].map((i) => ({ ...point(i * 300, i * 250), time: startedAt + i * 250_000 }));
+    const record = buildTrackedWalkRecord({ petId: "pet-1", startedAt, points }, startedAt + 20 * 60_000);
+
+    expect(record).toMatchObject({
+      date: "2025-01-15",
+      startTime: "07:30",
+      endTime: "07:50",
+      duration: 20,
+      distance: 0.9,
+      movingTime: 750,
+    });
+    expect(decodePolyline(record.route!)).toHaveLength(2);
+  });
+
+  it("saves no route when GPS never fixed", () => {
+    const startedAt = new Date(2025, 0, 15, 7, 30).getTime();
+    const record = buildTrackedWalkRecord({ petId: "pet-1", startedAt, points: [] }, startedAt + 10_000);
+
+    expect(record.route).toBeUndefined();
+    expect(record.movingTime).toBeUndefined();
+    expect(record.duration).toBe(1);
+    expect(record.distance).toBe(0);
+  });
+});
+
+describe("getWeeklyDistances", () => {
+  it("sums distance per week starting on Sunday", () => {
+    // 2025-01-15는 수요일 -> 이번 주는 1/12(일)부터
+    const now = new Date(2025, 0, 15, 12);
+    const weeks = getWeeklyDistances(
+      [
+        { date: "2025-01-12", distance: 2 },
+        { date: "2025-01-15", distance: 1.5 },
+        { date: "2025-01-11", distance: 3 },
+        { date: "2025-01-01" },
+        { date: "2024-12-01", distance: 10 },
+      ],
+      3,
+      now
+    );
+
+    expect(weeks).toEqual([
+      { weekStart: "2024-12-29", distance: 0, walks: 1 },
+      { weekStart: "2025-01-05", distance: 3, walks: 1 },
+      { weekStart: "2025-01-12", distance: 3.5, walks: 2 },
+    ]);
+  });
+});
+
+describe("formatting", () => {
+  it("formats clock and pace", () => {
+    expect(formatClock(65)).toBe("01:05");
+    expect(formatClock(3725)).toBe("1:02:05");
+    expect(formatPace(8.5)).toBe(`8'30"`);
+    expect(formatPace(null)).toBe("-");
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Web Push sender tests
+ */
+
+import {
+  createDecipheriv,
+  createECDH,
+  createPublicKey,
+  hkdfSync,
+  randomBytes,
+  verify,
+} from "crypto";
+import {
+  createVapidAuthorization,
+  encryptPayload,
+  getVapidConfig,
+  sendWebPush,
+  WebPushError,
+  type VapidConfig,
+  type WebPushSubscription,
+} from "../webPush";
+
+// 브라우저(user agent) 쪽 키 생성
+function createSubscription() {
+  const keys = createECDH("prime256v1");
+  keys.generateKeys();
+  const auth = randomBytes(16);
+
+  const subscription: WebPushSubscription = {
+    endpoint: "https://push.example.com/send/abc123",
+    keys: {
+      p256dh: keys.getPublicKey().toString("base64url"),
+      auth: auth.toString("base64url"),
+    },
+  };
+
+  return { subscription, keys, auth };
+}
+
+function createVapid(): VapidConfig {
+  const keys = createECDH("prime256v1");
+  keys.generateKeys();
+  return {
+    publicKey: keys.getPublicKey().toString("base64url"),
+    privateKey: keys.getPrivateKey().toString("base64url"),
+    subject: "mailto:test@petchecky.app",
+  };
+}
+
+// RFC 8291 복호화 (브라우저가 하는 일)
+function decrypt(body: Buffer, receiver: ReturnType<typeof createSubscription>): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = receiver.keys.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    receiver.keys.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, receiver.auth, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  const decipher = createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+
+  // 마지막 레코드 구분자 제거
+  expect(plaintext[plaintext.length - 1]).toBe(0x02);
+  return plaintext.subarray(0, plaintext.length - 1).toString("utf8");
+}
+
+describe("webPush", () => {
+  describe("encryptPayload", () => {
+    it("should produce an aes128gcm body the subscriber can decrypt", () => {
+      const receiver = createSubscription();
+      const payload = JSON.stringify({ title: "초코의 예방접종 알림", body: "종합백신" });
+
+      const body = encryptPayload(payload, receiver.subscription);
+
+      expect(body.readUInt32BE(16)).toBe(4096);
+      expect(body.readUInt8(20)).toBe(65);
+      expect(decrypt(body, receiver)).toBe(payload);
+    });
+
+    it("should use a fresh salt and key for every message", () => {
+      const receiver = createSubscription();
+
+      const first = encryptPayload("hello", receiver.subscription);
+      const second = encryptPayload("hello", receiver.subscription);
+
+      expect(first.subarray(0, 16).equals(second.subarray(0, 16))).toBe(false);
+      expect(first.equals(second)).toBe(false);
+    });
+
+    it("should reject payloads larger than a single record", () => {
+      const receiver = createSubscription();
+
+      expect(() => encryptPayload("a".repeat(4000), receiver.subscription)).toThrow("too large");
+    });
+  });
+
+  describe("createVapidAuthorization", () => {
+    it("should sign an ES256 JWT for the endpoint origin", () => {
+      const vapid = createVapid();
+      const now = Date.UTC(2025, 0, 1);
+
+      const header = createVapidAuthorization("https://push.example.com/send/abc123", vapid, now);
+      const match = header.match(/^vapid t=([^,]+), k=(.+)$/);
+      expect(match).not.toBeNull();
+
+      const [, token, key] = match!;
+      expect(key).toBe(vapid.publicKey);
+
+      const [encodedHeader, encodedClaims, signature] = token.split(".");
+      expect(JSON.parse(Buffer.from(encodedHeader, "base64url").toString())).toEqual({ typ: "JWT", alg: "ES256" });
+      expect(JSON.parse(Buffer.from(encodedClaims, "base64url").toString())).toEqual({
+        aud: "https://push.example.com",
+        exp: now / 1000 + 12 * 60 * 60,
+        sub: "mailto:test@petchecky.app",
+      });
+
+      const publicKey = Buffer.from(vapid.publicKey, "base64url");
+      const verifier = createPublicKey({
+        key: {
+          kty: "EC",
+          crv: "P-256",
+          x: publicKey.subarray(1, 33).toString("base64url"),
+          y: publicKey.subarray(33).toString("base64url"),
+        },
+        format: "jwk",
+      });
+      const valid = verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifier, dsaEncoding: "ieee-p1363" },
+        Buffer.from(signature, "base64url")
+      );
+      expect(valid).toBe(true);
+    });
+
+    it("should reject a malformed public key", () => {
+      const vapid = { ...createVapid(), publicKey: "AAAA" };
+
+      expect(() => createVapidAuthorization("https://push.example.com/x", vapid)).toThrow();
+    });
+  });
+
+  describe("sendWebPush", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("should post the encrypted payload with push headers", async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 201 });
+      global.fetch = fetchMock as unknown as typeof fetch;
+      const receiver = createSubscription();
+
+      const result = await sendWebPush(receiver.subscription, "{}", createVapid(), { urgency: "high" });
+
+      expect(result.statusCode).toBe(201);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(receiver.subscription.endpoint);
+      expect(init.headers).toEqual(expect.objectContaining({
+        "Content-Encoding": "aes128gcm",
+        TTL: "86400",
+        Urgency: "high",
+      }));
+      expect(init.headers.Authorization).toMatch(/^vapid t=/);
+      expect(decrypt(Buffer.from(init.body), receiver)).toBe("{}");
+    });
+
+    it("should throw a gone error for expired subscriptions", async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 410,
+        text: () => Promise.resolve("push subscription has unsubscribed or expired"),
+      }) as unknown as typeof fetch;
+
+      const error = await sendWebPush(createSubscription().subscription, "{}", createVapid())
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WebPushError);
+      expect(error.isGone).toBe(true);
+    });
+
+    it("should not treat rate limiting as gone", () => {
+      const error = new WebPushError(429, "https://push.example.com/x", "Too many requests");
+
+      expect(error.isGone).toBe(false);
+    });
+  });
+
+  describe("getVapidConfig", () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it("should return null when keys are missing", () => {
+      process.env = { ...originalEnv, NEXT_PUBLIC_VAPID_PUBLIC_KEY: "", VAPID_PRIVATE_KEY: "" };
+
+      expect(getVapidConfig()).toBeNull();
+    });
+
+    it("should use a default subject", () => {
+      process.env = {
+        ...originalEnv,
+        NEXT_PUBLIC_VAPID_PUBLIC_KEY: "public",
+        VAPID_PRIVATE_KEY: "private",
+        VAPID_SUBJECT: "",
+      };
+
+      expect(getVapidConfig()).toEqual({
+        publicKey: "public",
+        privateKey: "private",
+        subject: "mailto:support@petchecky.app",
+      });
+    });
+  });
+});
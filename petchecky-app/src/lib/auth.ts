@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { extractClientIp, generateRequestFingerprint } from './security';
+import { PREMIUM_ACCESS_STATUSES } from '@/types/subscription';
+import { normalizeSpecies } from './species';
+import { getBreed } from './breeds';
 
 // ============================================
 // 보안 상수
@@ -30,7 +33,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   user: ['read:own', 'write:own', 'chat:basic'],
   premium: ['read:own', 'write:own', 'chat:advanced', 'analytics:basic'],
   premium_plus: ['read:own', 'write:own', 'chat:unlimited', 'analytics:advanced', 'export:data'],
-  admin: ['read:all', 'write:all', 'delete:all', 'admin:users', 'admin:settings'],
+  admin: ['read:all', 'write:all', 'delete:all', 'admin:users', 'admin:settings', 'admin:moderation'],
 };
 
 // 서버 사이드에서 사용할 Supabase Admin 클라이언트
@@ -67,6 +70,8 @@ export interface AuthResult {
   user: AuthenticatedUser | null;
   subscription: SubscriptionInfo;
   error: string | null;
+  // app_metadata.role === 'admin' (서비스 키로만 지정 가능)
+  isAdmin?: boolean;
 }
 
 /**
@@ -118,6 +123,7 @@ export async function authenticateRequest(
       user: authenticatedUser,
       subscription,
       error: null,
+      isAdmin: user.app_metadata?.role === 'admin',
     };
   } catch (error) {
     console.error('Authentication error:', error);
@@ -147,8 +153,9 @@ export async function getSubscriptionStatus(userId: string): Promise<Subscriptio
       .from('subscriptions')
       .select('plan_type, current_period_end, status')
       .eq('user_id', userId)
-      .eq('status', 'active')
-      .gte('current_period_end', now)
+      .in('status', PREMIUM_ACCESS_STATUSES)
+      // 결제 실패 구독은 유예 기간까지 이용 가능
+      .or(`current_period_end.gte."${now}",grace_period_end.gte."${now}"`)
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -211,12 +218,14 @@ export function sanitizeUserInput(input: string): string {
 export function sanitizePetProfile(profile: {
   name?: string;
   breed?: string;
+  breedId?: string;
   species?: string;
   age?: number;
   weight?: number;
 }): {
   name: string;
   breed: string;
+  breedId?: string;
   species: string;
   age: number;
   weight: number;
@@ -224,7 +233,8 @@ export function sanitizePetProfile(profile: {
   return {
     name: sanitizeUserInput(profile.name || '').slice(0, 50),
     breed: sanitizeUserInput(profile.breed || '').slice(0, 50),
-    species: profile.species === 'dog' || profile.species === 'cat' ? profile.species : 'dog',
+    breedId: getBreed(profile.breedId)?.id,
+    species: normalizeSpecies(profile.species),
     age: Math.max(0, Math.min(100, Number(profile.age) || 0)),
     weight: Math.max(0, Math.min(200, Number(profile.weight) || 0)),
   };
@@ -283,7 +293,7 @@ export async function authorizeApiAccess(
     };
   }
 
-  const role = getUserRole(authResult.subscription);
+  const role = getUserRole(authResult.subscription, authResult.isAdmin);
   const hasAccess = hasAllPermissions(role, requiredPermissions);
 
   if (!hasAccess) {
@@ -0,0 +1,88 @@
+// 백업 파일 암호화 (Web Crypto)
+//
+// 비밀번호에서 PBKDF2(SHA-256)로 키를 만들고 AES-GCM으로 암호화합니다.
+// GCM 인증 태그 덕분에 비밀번호가 틀리거나 파일이 변조되면 복호화가 실패합니다.
+
+import { BACKUP_FORMAT, type EncryptedBackup } from "./schema";
+
+export const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export class BackupDecryptionError extends Error {
+  constructor() {
+    super("비밀번호가 올바르지 않거나 손상된 백업 파일입니다");
+    this.name = "BackupDecryptionError";
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // 큰 배열을 한 번에 넘기면 인자 개수 제한에 걸리므로 나눠서 변환
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * 백업 JSON 문자열을 비밀번호로 암호화
+ */
+export async function encryptBackup(
+  plaintext: string,
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    format: BACKUP_FORMAT,
+    encrypted: true,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    payload: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * 암호화된 백업을 풀어 원래 JSON 문자열을 반환
+ * @throws BackupDecryptionError 비밀번호가 틀렸거나 파일이 손상된 경우
+ */
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string> {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(backup.cipher.iv) },
+      key,
+      fromBase64(backup.payload)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new BackupDecryptionError();
+  }
+}
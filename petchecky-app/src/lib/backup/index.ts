@@ -0,0 +1,299 @@
+/**
+ * 데이터 백업/복원 (클라이언트 전용)
+ *
+ * - 내보내기: 모든 데이터 영역을 localStorage에서 읽어 현재 버전 백업 파일로 만듭니다. (선택적으로 암호화)
+ * - 가져오기: 이전 버전 파일은 ./migrations 로 변환한 뒤 항목마다 스키마 검증을 하고, 통과하지 못한 항목은 건너뜁니다.
+ * - 복원: 영역마다 병합(ID 기준)/교체/건너뛰기를 고르고, planRestore로 변경 내용을 먼저 확인한 뒤 applyRestorePlan으로 저장합니다.
+ *
+ * 로그인 사용자의 서버 기록은 건드리지 않습니다.
+ */
+
+import { decryptBackup, encryptBackup } from "./crypto";
+import { migrateBackupFile, BackupFormatError } from "./migrations";
+import {
+  BACKUP_DOMAINS,
+  BACKUP_DOMAIN_NAMES,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  EncryptedBackupSchema,
+  type BackupData,
+  type BackupDomain,
+  type BackupFile,
+} from "./schema";
+
+export { BackupDecryptionError } from "./crypto";
+export { BackupFormatError } from "./migrations";
+export { BACKUP_DOMAIN_NAMES, BACKUP_VERSION, type BackupData, type BackupDomain } from "./schema";
+
+export type RestoreMode = "merge" | "replace" | "skip";
+
+export type RestoreModes = Partial<Record<BackupDomain, RestoreMode>>;
+
+// 저장소에 있는 그대로의 데이터 (검증 전)
+export type LocalData = Record<BackupDomain, unknown[]>;
+
+export interface DomainRestorePlan {
+  mode: RestoreMode;
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  /** 복원 후 저장될 항목 */
+  result: unknown[];
+}
+
+export type RestorePlan = Record<BackupDomain, DomainRestorePlan>;
+
+export interface ParsedBackup {
+  exportedAt: string;
+  /** 원본 파일 버전 */
+  version: number;
+  data: BackupData;
+  /** 검증에 실패해 건너뛴 항목 수 */
+  rejected: Partial<Record<BackupDomain, number>>;
+}
+
+// ============ 저장소 ============
+
+function readArray(key: string): unknown[] {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function storageKeysWithPrefix(prefix: string): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * 모든 데이터 영역을 localStorage에서 읽습니다.
+ */
+export function collectLocalData(): LocalData {
+  const data = {} as LocalData;
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    const { storage } = BACKUP_DOMAINS[domain];
+    data[domain] =
+      storage.type === "key"
+        ? readArray(storage.key)
+        : storageKeysWithPrefix(storage.prefix).flatMap((key) => readArray(key));
+  }
+  return data;
+}
+
+/**
+ * 영역별 항목 수
+ */
+export function countItems(data: LocalData | BackupData): Record<BackupDomain, number> {
+  const counts = {} as Record<BackupDomain, number>;
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    counts[domain] = data[domain].length;
+  }
+  return counts;
+}
+
+// ============ 내보내기 ============
+
+/**
+ * 백업 파일 내용(JSON 문자열) 생성
+ * 저장된 데이터를 그대로 담고, 검증은 가져올 때 합니다.
+ */
+export async function createBackup(data: LocalData, passphrase?: string, now: Date = new Date()): Promise<string> {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    data,
+  };
+  const json = JSON.stringify(file);
+  return passphrase ? JSON.stringify(await encryptBackup(json, passphrase)) : json;
+}
+
+// ============ 가져오기 ============
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("백업 파일 형식이 아닙니다");
+  }
+}
+
+/**
+ * 암호화된 백업 파일인지 (비밀번호 입력이 필요한지)
+ */
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return EncryptedBackupSchema.safeParse(JSON.parse(text)).success;
+  } catch {
+    return false;
+  }
+}
+
+function validateItems(file: BackupFile): ParsedBackup {
+  const data = {} as Record<BackupDomain, unknown[]>;
+  const rejected: Partial<Record<BackupDomain, number>> = {};
+
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    const { schema } = BACKUP_DOMAINS[domain];
+    const items: unknown[] = [];
+    for (const raw of file.data[domain] ?? []) {
+      const parsed = schema.safeParse(raw);
+      if (parsed.success) {
+        items.push(parsed.data);
+      } else {
+        rejected[domain] = (rejected[domain] ?? 0) + 1;
+      }
+    }
+    data[domain] = items;
+  }
+
+  return { exportedAt: file.exportedAt, version: file.version, data: data as BackupData, rejected };
+}
+
+/**
+ * 백업 파일을 읽어 현재 버전으로 변환하고 검증합니다.
+ * @throws BackupFormatError 백업 파일이 아니거나 비밀번호가 필요한 경우
+ * @throws BackupDecryptionError 비밀번호가 틀린 경우
+ */
+export async function readBackup(text: string, passphrase?: string): Promise<ParsedBackup> {
+  let raw = parseJson(text);
+
+  const encrypted = EncryptedBackupSchema.safeParse(raw);
+  if (encrypted.success) {
+    if (!passphrase) {
+      throw new BackupFormatError("암호화된 백업 파일입니다. 비밀번호를 입력해주세요", "passphraseRequired");
+    }
+    raw = parseJson(await decryptBackup(encrypted.data, passphrase));
+  }
+
+  // 1.0 형식은 version이 문자열
+  const sourceVersion =
+    raw && typeof raw === "object" && "version" in raw && typeof raw.version === "number" ? raw.version : 1;
+  return { ...validateItems(migrateBackupFile(raw)), version: sourceVersion };
+}
+
+// ============ 복원 ============
+
+// 키 순서와 무관하게 같은 내용인지 비교하기 위한 직렬화
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// 검증을 통과하는 항목만 ID를 가짐 (저장소의 깨진 항목은 병합 시 그대로 유지)
+function itemId(domain: BackupDomain, item: unknown): string | null {
+  const { schema, idOf } = BACKUP_DOMAINS[domain];
+  const parsed = schema.safeParse(item);
+  return parsed.success ? (idOf as (value: unknown) => string)(parsed.data) : null;
+}
+
+function planDomain(domain: BackupDomain, current: unknown[], incoming: unknown[], mode: RestoreMode): DomainRestorePlan {
+  const plan: DomainRestorePlan = { mode, added: 0, updated: 0, unchanged: 0, removed: 0, result: current };
+  if (mode === "skip") return plan;
+
+  const currentById = new Map<string, unknown>();
+  for (const item of current) {
+    const id = itemId(domain, item);
+    if (id !== null) currentById.set(id, item);
+  }
+
+  const incomingById = new Map<string, unknown>();
+  for (const item of incoming) {
+    const id = itemId(domain, item);
+    if (id === null) continue;
+    incomingById.set(id, item);
+
+    const existing = currentById.get(id);
+    if (existing === undefined) plan.added++;
+    else if (stableStringify(existing) === stableStringify(item)) plan.unchanged++;
+    else plan.updated++;
+  }
+
+  if (mode === "replace") {
+    plan.removed = current.length - (plan.updated + plan.unchanged);
+    plan.result = [...incomingById.values()];
+    return plan;
+  }
+
+  // 병합: 기존 순서를 유지하며 같은 ID는 백업 내용으로 바꾸고, 새 항목은 뒤에 추가
+  const merged = current.map((item) => {
+    const id = itemId(domain, item);
+    return id !== null && incomingById.has(id) ? incomingById.get(id) : item;
+  });
+  for (const [id, item] of incomingById) {
+    if (!currentById.has(id)) merged.push(item);
+  }
+  plan.result = merged;
+  return plan;
+}
+
+/**
+ * 복원 미리보기 (저장하지 않음)
+ * 모드를 지정하지 않은 영역은 백업에 항목이 있으면 병합, 없으면 건너뜁니다.
+ */
+export function planRestore(current: LocalData, incoming: BackupData, modes: RestoreModes = {}): RestorePlan {
+  const plan = {} as RestorePlan;
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    const mode = modes[domain] ?? (incoming[domain].length > 0 ? "merge" : "skip");
+    plan[domain] = planDomain(domain, current[domain], incoming[domain], mode);
+  }
+  return plan;
+}
+
+/**
+ * 복원 계획을 localStorage에 저장
+ */
+export function applyRestorePlan(plan: RestorePlan): void {
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    const { mode, result } = plan[domain];
+    if (mode === "skip") continue;
+
+    const { storage } = BACKUP_DOMAINS[domain];
+    if (storage.type === "key") {
+      localStorage.setItem(storage.key, JSON.stringify(result));
+      continue;
+    }
+
+    // 펫별 키: 펫마다 다시 나눠 저장하고, 항목이 없어진 펫의 키는 삭제
+    const byPet = new Map<string, unknown[]>();
+    for (const item of result) {
+      const petId = (item as { petId?: unknown })?.petId;
+      if (typeof petId !== "string") continue;
+      byPet.set(petId, [...(byPet.get(petId) ?? []), item]);
+    }
+    for (const key of storageKeysWithPrefix(storage.prefix)) {
+      if (!byPet.has(key.slice(storage.prefix.length))) localStorage.removeItem(key);
+    }
+    for (const [petId, items] of byPet) {
+      localStorage.setItem(`${storage.prefix}${petId}`, JSON.stringify(items));
+    }
+  }
+}
+
+/**
+ * 모든 데이터 영역을 localStorage에서 삭제
+ */
+export function clearLocalData(): void {
+  for (const domain of BACKUP_DOMAIN_NAMES) {
+    const { storage } = BACKUP_DOMAINS[domain];
+    const keys = storage.type === "key" ? [storage.key] : storageKeysWithPrefix(storage.prefix);
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+}
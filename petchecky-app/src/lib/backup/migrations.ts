@@ -0,0 +1,90 @@
+// 백업 형식 버전 간 변환
+//
+// MIGRATIONS[n]은 버전 n 파일을 n+1로 바꿉니다. 오래된 파일은 현재 버전이 될 때까지 차례로 적용합니다.
+// 항목 단위 검증은 변환이 끝난 뒤 현재 스키마로 한 번만 합니다.
+
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupFileSchema, type BackupFile } from "./schema";
+
+/**
+ * 백업 파일을 읽을 수 없는 이유
+ * - invalid: 백업 파일 형식이 아님
+ * - passphraseRequired: 암호화된 파일인데 비밀번호가 없음
+ * - newerVersion: 앱보다 새로운 버전에서 만든 파일
+ */
+export type BackupFormatErrorReason = "invalid" | "passphraseRequired" | "newerVersion";
+
+export class BackupFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: BackupFormatErrorReason = "invalid"
+  ) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+// 버전 1.0: 설정 페이지가 내보내던 형식 (version: "1.0", 최상위에 키별 배열)
+const V1_KEYS: Record<string, string> = {
+  pets: "pets",
+  chatHistory: "chatHistory",
+  reminders: "reminders",
+  vaccination: "vaccinations",
+  walkRecords: "walks",
+  dietLogs: "diet-logs",
+  healthRecords: "healthTracking",
+  gallery: "galleryPhotos",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// 1.0 파일을 버전 번호가 있는 공통 구조로 감쌈 (키 이름은 그대로)
+function wrapLegacyV1(raw: Record<string, unknown>): BackupFile {
+  const data: Record<string, unknown[]> = {};
+  for (const key of Object.keys(V1_KEYS)) {
+    if (Array.isArray(raw[key])) data[key] = raw[key];
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: 1,
+    exportedAt: typeof raw.exportDate === "string" ? raw.exportDate : new Date(0).toISOString(),
+    data,
+  };
+}
+
+const MIGRATIONS: Record<number, (file: BackupFile) => BackupFile> = {
+  // v1 -> v2: 키 이름을 데이터 영역 이름으로 변경
+  1: (file) => {
+    const data: Record<string, unknown[]> = {};
+    for (const [from, to] of Object.entries(V1_KEYS)) {
+      if (file.data[from]) data[to] = file.data[from];
+    }
+    return { ...file, version: 2, data };
+  },
+};
+
+/**
+ * 백업 파일(JSON 파싱 결과)을 현재 버전 구조로 변환
+ * @throws BackupFormatError 백업 파일이 아니거나 더 새로운 버전인 경우
+ */
+export function migrateBackupFile(raw: unknown): BackupFile {
+  if (!isRecord(raw)) {
+    throw new BackupFormatError("백업 파일 형식이 아닙니다");
+  }
+
+  const wrapped = raw.version === "1.0" ? wrapLegacyV1(raw) : raw;
+  const parsed = BackupFileSchema.safeParse(wrapped);
+  if (!parsed.success) {
+    throw new BackupFormatError("백업 파일 형식이 아닙니다");
+  }
+
+  let file = parsed.data;
+  if (file.version > BACKUP_VERSION) {
+    throw new BackupFormatError("앱을 업데이트한 뒤 다시 시도해주세요 (더 새로운 버전의 백업 파일)", "newerVersion");
+  }
+  while (file.version < BACKUP_VERSION) {
+    file = MIGRATIONS[file.version](file);
+  }
+  return file;
+}
@@ -0,0 +1,261 @@
+// 백업 파일 스키마 (Zod)
+//
+// 데이터 영역(domain)마다 항목 스키마와 localStorage 저장 위치, 병합 기준 ID를 한곳에 정의합니다.
+// 새 데이터 영역을 추가하면 BACKUP_DOMAINS에만 등록하면 내보내기/복원/미리보기가 모두 따라옵니다.
+// 항목 스키마는 알 수 없는 필드를 그대로 보존(passthrough)해 복원 시 데이터가 사라지지 않게 합니다.
+
+import { z } from "zod";
+import { ChatMessageSchema, PetProfileSchema } from "@/lib/validations/chat";
+import { PET_RECORD_SCHEMAS } from "@/lib/validations/petRecords";
+import { recordStorageKey } from "@/lib/legacyPetData";
+import { PET_SPECIES } from "@/lib/species";
+
+// 현재 백업 형식 버전 (형식이 바뀌면 올리고 ./migrations 에 변환을 추가)
+export const BACKUP_VERSION = 2;
+export const BACKUP_FORMAT = "petchecky-backup";
+
+const id = z.string().min(1).max(200);
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}/, "날짜 형식이 올바르지 않습니다");
+const text = z.string().max(2000);
+const severity = z.enum(["mild", "moderate", "severe"]);
+
+// 통합 기록 항목 = 입력 스키마 + 저장 시 붙는 ID
+const recordIds = { id, petId: id };
+
+const ChatRecordSchema = z.object({
+  id,
+  petName: z.string().max(100),
+  petSpecies: z.enum(PET_SPECIES),
+  date: z.string(),
+  preview: text,
+  severity: z.enum(["low", "medium", "high"]).optional(),
+  messages: z.array(ChatMessageSchema.passthrough()),
+}).passthrough();
+
+const HealthTrackingSchema = z.object({
+  id,
+  petId: id,
+  date: dateString,
+  weight: z.number().min(0).max(200).optional(),
+  bodyCondition: z.enum(["underweight", "ideal", "overweight"]).optional(),
+  appetite: z.enum(["poor", "normal", "good"]).optional(),
+  energy: z.enum(["low", "normal", "high"]).optional(),
+  notes: text.optional(),
+}).passthrough();
+
+const AllergySchema = z.object({
+  id,
+  petId: id,
+  name: z.string().min(1).max(100),
+  type: z.enum(["food", "environmental", "medication", "contact"]),
+  severity,
+  symptoms: z.array(z.string().max(100)),
+  diagnosedDate: z.string().optional(),
+  notes: text.optional(),
+  reactions: z.array(z.object({
+    id,
+    date: z.string(),
+    trigger: z.string().max(100).optional(),
+    symptoms: z.array(z.string().max(100)),
+    severity,
+    treatment: text.optional(),
+    notes: text.optional(),
+  }).passthrough()),
+}).passthrough();
+
+const DietaryRestrictionSchema = z.object({
+  id,
+  petId: id,
+  ingredient: z.string().min(1).max(100),
+  reason: z.enum(["allergy", "intolerance", "medical", "preference"]),
+  notes: text.optional(),
+}).passthrough();
+
+const ExpenseSchema = z.object({
+  id,
+  petId: id,
+  category: z.string().max(50),
+  amount: z.number().min(0),
+  description: text,
+  date: dateString,
+  createdAt: z.string(),
+}).passthrough();
+
+const BudgetSchema = z.object({
+  petId: id,
+  monthlyBudget: z.number().min(0),
+  categories: z.record(z.string(), z.number().min(0)),
+}).passthrough();
+
+const TrainingCommandSchema = z.object({
+  id,
+  petId: id,
+  name: z.string().min(1).max(100),
+  category: z.enum(["basic", "advanced", "trick", "behavior"]),
+  status: z.enum(["learning", "practicing", "mastered"]),
+  progress: z.number().min(0).max(100),
+  sessions: z.array(z.object({
+    id,
+    date: z.string(),
+    duration: z.number().min(0),
+    rating: z.number().int().min(1).max(5),
+    notes: text.optional(),
+  }).passthrough()),
+  notes: text.optional(),
+  createdAt: z.string(),
+}).passthrough();
+
+const BehaviorIssueSchema = z.object({
+  id,
+  petId: id,
+  name: z.string().min(1).max(100),
+  severity,
+  status: z.enum(["active", "improving", "resolved"]),
+  logs: z.array(z.object({
+    id,
+    date: z.string(),
+    occurred: z.boolean(),
+    trigger: z.string().max(100).optional(),
+    notes: text.optional(),
+  }).passthrough()),
+  notes: text.optional(),
+  createdAt: z.string(),
+}).passthrough();
+
+const GalleryPhotoSchema = z.object({
+  id,
+  petId: id,
+  imageData: z.string(),
+  caption: z.string().max(500).optional(),
+  date: z.string(),
+  albumId: z.string().optional(),
+}).passthrough();
+
+const GalleryAlbumSchema = z.object({
+  id,
+  petId: id,
+  name: z.string().min(1).max(100),
+  coverPhotoId: z.string().optional(),
+  createdAt: z.string(),
+}).passthrough();
+
+/**
+ * localStorage 저장 위치
+ * - key: 모든 펫의 항목을 한 배열로 저장
+ * - perPet: 펫마다 `${prefix}${petId}` 키에 나눠 저장
+ */
+export type BackupStorage = { type: "key"; key: string } | { type: "perPet"; prefix: string };
+
+interface DomainConfig<S extends z.ZodType> {
+  schema: S;
+  storage: BackupStorage;
+  /** 병합 기준 ID */
+  idOf: (item: z.infer<S>) => string;
+}
+
+function domain<S extends z.ZodType>(config: DomainConfig<S>): DomainConfig<S> {
+  return config;
+}
+
+const byId = (item: { id: string }) => item.id;
+const records = (kind: keyof typeof PET_RECORD_SCHEMAS) => ({ type: "key" as const, key: recordStorageKey(kind) });
+
+export const BACKUP_DOMAINS = {
+  pets: domain({
+    schema: PetProfileSchema.extend({ id }).passthrough(),
+    storage: { type: "key", key: "petchecky_pets" },
+    idOf: byId,
+  }),
+  chatHistory: domain({ schema: ChatRecordSchema, storage: { type: "key", key: "petchecky_chat_history" }, idOf: byId }),
+  medications: domain({
+    schema: PET_RECORD_SCHEMAS.medications.extend(recordIds).passthrough(),
+    storage: records("medications"),
+    idOf: byId,
+  }),
+  "vet-records": domain({
+    schema: PET_RECORD_SCHEMAS["vet-records"].extend(recordIds).passthrough(),
+    storage: records("vet-records"),
+    idOf: byId,
+  }),
+  walks: domain({
+    schema: PET_RECORD_SCHEMAS.walks.extend(recordIds).passthrough(),
+    storage: records("walks"),
+    idOf: byId,
+  }),
+  "diet-logs": domain({
+    schema: PET_RECORD_SCHEMAS["diet-logs"].extend(recordIds).passthrough(),
+    storage: records("diet-logs"),
+    idOf: byId,
+  }),
+  vaccinations: domain({
+    schema: PET_RECORD_SCHEMAS.vaccinations.extend(recordIds).passthrough(),
+    storage: records("vaccinations"),
+    idOf: byId,
+  }),
+  "insurance-claims": domain({
+    schema: PET_RECORD_SCHEMAS["insurance-claims"].extend(recordIds).passthrough(),
+    storage: records("insurance-claims"),
+    idOf: byId,
+  }),
+  reminders: domain({
+    schema: PET_RECORD_SCHEMAS.reminders.extend(recordIds).passthrough(),
+    storage: records("reminders"),
+    idOf: byId,
+  }),
+  healthTracking: domain({ schema: HealthTrackingSchema, storage: { type: "perPet", prefix: "petchecky_health_" }, idOf: byId }),
+  allergies: domain({ schema: AllergySchema, storage: { type: "key", key: "petAllergies" }, idOf: byId }),
+  dietaryRestrictions: domain({
+    schema: DietaryRestrictionSchema,
+    storage: { type: "key", key: "dietaryRestrictions" },
+    idOf: byId,
+  }),
+  expenses: domain({ schema: ExpenseSchema, storage: { type: "key", key: "petExpenses" }, idOf: byId }),
+  // 예산은 펫당 하나
+  budgets: domain({ schema: BudgetSchema, storage: { type: "key", key: "petBudgets" }, idOf: (budget) => budget.petId }),
+  trainingCommands: domain({ schema: TrainingCommandSchema, storage: { type: "key", key: "trainingCommands" }, idOf: byId }),
+  behaviorIssues: domain({ schema: BehaviorIssueSchema, storage: { type: "key", key: "behaviorIssues" }, idOf: byId }),
+  // 가입한 보험 상품 ID 목록
+  insuranceEnrollments: domain({
+    schema: z.string().min(1).max(100),
+    storage: { type: "key", key: "petchecky_enrolled_insurance" },
+    idOf: (productId) => productId,
+  }),
+  galleryPhotos: domain({ schema: GalleryPhotoSchema, storage: { type: "perPet", prefix: "petchecky_photos_" }, idOf: byId }),
+  galleryAlbums: domain({ schema: GalleryAlbumSchema, storage: { type: "perPet", prefix: "petchecky_albums_" }, idOf: byId }),
+};
+
+export type BackupDomain = keyof typeof BACKUP_DOMAINS;
+
+export const BACKUP_DOMAIN_NAMES = Object.keys(BACKUP_DOMAINS) as BackupDomain[];
+
+export type BackupItem<D extends BackupDomain> = z.infer<(typeof BACKUP_DOMAINS)[D]["schema"]>;
+
+export type BackupData = { [D in BackupDomain]: BackupItem<D>[] };
+
+// 항목 검증 전 파일 구조 (도메인별 배열만 확인)
+export const BackupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  data: z.record(z.string(), z.array(z.unknown())),
+});
+
+// 암호화된 백업 파일 (./crypto)
+export const EncryptedBackupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  encrypted: z.literal(true),
+  kdf: z.object({
+    name: z.literal("PBKDF2"),
+    hash: z.literal("SHA-256"),
+    iterations: z.number().int().min(100_000).max(10_000_000),
+    salt: z.string().min(1),
+  }),
+  cipher: z.object({
+    name: z.literal("AES-GCM"),
+    iv: z.string().min(1),
+  }),
+  payload: z.string().min(1),
+});
+
+export type BackupFile = z.infer<typeof BackupFileSchema>;
+export type EncryptedBackup = z.infer<typeof EncryptedBackupSchema>;
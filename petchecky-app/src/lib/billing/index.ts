@@ -0,0 +1,526 @@
+/**
+ * 정기결제 갱신 작업 및 결제 상태 동기화 (서버 전용)
+ *
+ * /api/cron/billing 에서 주기적으로 호출해 기간 만료가 가까운 구독을 빌링키로 청구하고,
+ * /api/billing/webhook 에서 토스 결제 상태 변경을 반영합니다.
+ *
+ * 결제 주기마다 billing_cycles 행 하나를 두고, 시도 전에 행을 processing으로 선점합니다.
+ * 응답을 받지 못한 시도는 같은 주문 ID를 Idempotency-Key로 다시 보내므로 같은 주기가 두 번 청구되지 않습니다.
+ * 예약된 다운그레이드(scheduled_plan_type)는 다음 주기 청구부터 반영합니다.
+ * 결제 실패(유예) 중에 새 카드를 등록하면(/api/billing/confirm) 밀린 주기를 바로 다시 청구합니다.
+ */
+
+import { supabaseAdmin } from '../auth';
+import { getErrorMessage } from '../errors';
+import {
+  buildPaymentFailedNotification,
+  buildSubscriptionExpiredNotification,
+  type NotificationMessage,
+} from '../notificationMessages';
+import { sendPushToUser } from '../pushSubscriptions';
+import {
+  chargeBilling,
+  getOrderName,
+  getPlanDisplayName,
+  TossPaymentError,
+  type TossPayment,
+} from '../toss';
+import { recordPayment } from './payments';
+import { applyPaidPlanChange, findPlanChangeByOrderId } from './planChange';
+import { getPlanPrice } from './proration';
+import {
+  addBillingMonth,
+  buildRenewalOrderId,
+  isStaleProcessing,
+  monthlyVetConsultations,
+  planChargeFailure,
+  RENEWABLE_STATUSES,
+  RENEWAL_LEAD_HOURS,
+  toPaymentStatus,
+  type BillingCycleStatus,
+} from './schedule';
+import type { Subscription } from '@/types/subscription';
+
+type SubscriptionRow = Pick<
+  Subscription,
+  | 'id'
+  | 'user_id'
+  | 'plan_type'
+  | 'price'
+  | 'billing_key'
+  | 'customer_key'
+  | 'status'
+  | 'current_period_start'
+  | 'current_period_end'
+  | 'scheduled_plan_type'
+  | 'created_at'
+>;
+
+interface BillingCycleRow {
+  id: string;
+  subscription_id: string;
+  period_start: string;
+  period_end: string;
+  plan_type: Subscription['plan_type'] | null;
+  amount: number;
+  status: BillingCycleStatus;
+  attempts: number;
+  order_id: string | null;
+  next_retry_at: string | null;
+  updated_at: string;
+}
+
+type RenewalOutcome = 'charged' | 'failed' | 'expired' | 'skipped';
+
+export interface BillingJobResult {
+  due: number;
+  charged: number;
+  failed: number;
+  expired: number;
+  /** 이미 결제됐거나 재시도 시각 전, 다른 실행이 처리 중 */
+  skipped: number;
+}
+
+export type ReconcileResult = 'updated' | 'ignored';
+
+export interface BillingKeyInfo {
+  billingKey: string;
+  customerKey: string;
+  cardCompany: string | null;
+  cardNumber: string | null;
+}
+
+export type RetryWithNewCardResult =
+  | { success: true; planType: Subscription['plan_type']; periodEnd: string }
+  | { success: false; error: 'in_progress' | 'payment_failed'; message?: string };
+
+const SUBSCRIPTION_COLUMNS =
+  'id, user_id, plan_type, price, billing_key, customer_key, status, current_period_start, current_period_end, scheduled_plan_type, created_at';
+const CYCLE_COLUMNS =
+  'id, subscription_id, period_start, period_end, plan_type, amount, status, attempts, order_id, next_retry_at, updated_at';
+
+// 결제 관련 알림은 알림 설정과 관계없이 인앱 + 푸시로 보냄
+async function notifyUser(userId: string, message: NotificationMessage): Promise<void> {
+  const { error } = await supabaseAdmin.from('notifications').insert({
+    user_id: userId,
+    type: message.type,
+    title: message.title,
+    message: message.message,
+    priority: message.priority,
+    link: message.link ?? null,
+  });
+  if (error) {
+    console.error('Billing notification error:', error.message);
+  }
+
+  try {
+    await sendPushToUser(userId, message);
+  } catch (error) {
+    console.error('Billing push error:', getErrorMessage(error));
+  }
+}
+
+// 다음 주기에 청구할 플랜과 금액 (예약된 다운그레이드가 있으면 그 플랜의 정가)
+function nextCycleCharge(subscription: SubscriptionRow): Pick<BillingCycleRow, 'plan_type' | 'amount'> {
+  const scheduled = subscription.scheduled_plan_type;
+  if (scheduled && scheduled !== subscription.plan_type) {
+    return { plan_type: scheduled, amount: getPlanPrice(scheduled) };
+  }
+  return { plan_type: subscription.plan_type, amount: subscription.price };
+}
+
+/**
+ * 청구할 주기의 billing_cycles 행 (없으면 생성)
+ */
+async function getOrCreateCycle(subscription: SubscriptionRow): Promise<BillingCycleRow> {
+  const periodStart = subscription.current_period_end;
+  const anchorDay = new Date(subscription.created_at).getUTCDate();
+  const periodEnd = addBillingMonth(new Date(periodStart), anchorDay).toISOString();
+
+  const { error: insertError } = await supabaseAdmin.from('billing_cycles').upsert(
+    {
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      period_start: periodStart,
+      period_end: periodEnd,
+      ...nextCycleCharge(subscription),
+    },
+    { onConflict: 'subscription_id,period_start', ignoreDuplicates: true }
+  );
+  if (insertError) {
+    throw new Error(`billing_cycles insert failed: ${insertError.message}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('billing_cycles')
+    .select(CYCLE_COLUMNS)
+    .eq('subscription_id', subscription.id)
+    .eq('period_start', periodStart)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`billing_cycles fetch failed: ${error?.message}`);
+  }
+  return data as BillingCycleRow;
+}
+
+/**
+ * 새 시도 선점 - 다른 실행이 먼저 바꿨으면 null
+ * 주기 행을 만든 뒤 플랜 변경이 있었을 수 있으므로 청구 플랜/금액을 이 시점 기준으로 다시 정합니다.
+ */
+async function claimAttempt(subscription: SubscriptionRow, cycle: BillingCycleRow): Promise<BillingCycleRow | null> {
+  const attempts = cycle.attempts + 1;
+  const { data, error } = await supabaseAdmin
+    .from('billing_cycles')
+    .update({
+      ...nextCycleCharge(subscription),
+      status: 'processing',
+      attempts,
+      order_id: buildRenewalOrderId(cycle.subscription_id, cycle.period_start, attempts),
+      next_retry_at: null,
+    })
+    .eq('id', cycle.id)
+    .eq('status', cycle.status)
+    .eq('attempts', cycle.attempts)
+    .select(CYCLE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`billing_cycles claim failed: ${error.message}`);
+  }
+  return (data as BillingCycleRow | null) ?? null;
+}
+
+/**
+ * 결제 완료된 주기를 구독에 반영
+ * 기존 기간 종료일이 주기 시작일과 같을 때만 갱신하므로 여러 번 호출해도 한 번만 연장됩니다.
+ */
+async function applyPaidCycle(
+  subscription: Pick<SubscriptionRow, 'id' | 'user_id' | 'plan_type'>,
+  cycle: BillingCycleRow,
+  payment: TossPayment
+): Promise<void> {
+  const { error: cycleError } = await supabaseAdmin
+    .from('billing_cycles')
+    .update({
+      status: 'paid',
+      order_id: payment.orderId,
+      payment_key: payment.paymentKey,
+      last_error: null,
+      next_retry_at: null,
+    })
+    .eq('id', cycle.id);
+  if (cycleError) {
+    throw new Error(`billing_cycles update failed: ${cycleError.message}`);
+  }
+
+  const planType = cycle.plan_type ?? subscription.plan_type;
+  await recordPayment(subscription, planType, cycle.amount, payment);
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      status: 'active',
+      plan_type: planType,
+      price: cycle.amount,
+      scheduled_plan_type: null,
+      current_period_start: cycle.period_start,
+      current_period_end: cycle.period_end,
+      grace_period_end: null,
+      last_payment_error: null,
+      vet_consultations_remaining: monthlyVetConsultations(planType),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', subscription.id)
+    .eq('current_period_end', cycle.period_start);
+  if (error) {
+    throw new Error(`subscriptions renew failed: ${error.message}`);
+  }
+}
+
+async function handleChargeFailure(
+  subscription: SubscriptionRow,
+  cycle: BillingCycleRow,
+  error: TossPaymentError,
+  now: Date
+): Promise<RenewalOutcome> {
+  const plan = planChargeFailure(cycle.attempts, new Date(cycle.period_start), now);
+  const lastError = `${error.code}: ${error.message}`;
+
+  const { error: cycleError } = await supabaseAdmin
+    .from('billing_cycles')
+    .update({
+      status: plan.cycleStatus,
+      last_error: lastError,
+      next_retry_at: plan.nextRetryAt?.toISOString() ?? null,
+    })
+    .eq('id', cycle.id);
+  if (cycleError) {
+    throw new Error(`billing_cycles update failed: ${cycleError.message}`);
+  }
+
+  const { error: subError } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      status: plan.subscriptionStatus,
+      grace_period_end: plan.gracePeriodEnd.toISOString(),
+      last_payment_error: lastError,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', subscription.id)
+    .in('status', RENEWABLE_STATUSES);
+  if (subError) {
+    throw new Error(`subscriptions update failed: ${subError.message}`);
+  }
+
+  const planName = getPlanDisplayName(subscription.plan_type);
+  await notifyUser(
+    subscription.user_id,
+    plan.subscriptionStatus === 'expired'
+      ? buildSubscriptionExpiredNotification(planName)
+      : buildPaymentFailedNotification(
+          planName,
+          plan.nextRetryAt?.toISOString().slice(0, 10) ?? null,
+          plan.gracePeriodEnd.toISOString().slice(0, 10)
+        )
+  );
+
+  return plan.subscriptionStatus === 'expired' ? 'expired' : 'failed';
+}
+
+async function charge(subscription: SubscriptionRow, cycle: BillingCycleRow, now: Date): Promise<RenewalOutcome> {
+  const orderId = cycle.order_id as string;
+
+  let payment: TossPayment;
+  try {
+    payment = await chargeBilling(
+      subscription.billing_key,
+      subscription.customer_key,
+      cycle.amount,
+      orderId,
+      getOrderName(cycle.plan_type ?? subscription.plan_type),
+      orderId
+    );
+  } catch (error) {
+    if (error instanceof TossPaymentError) {
+      return handleChargeFailure(subscription, cycle, error, now);
+    }
+    // 네트워크 오류 등 결과를 모르는 경우 processing으로 남겨 두고,
+    // 다음 실행에서 같은 주문 ID로 다시 요청합니다. (웹훅이 먼저 오면 웹훅이 반영)
+    console.error('Renewal charge error:', getErrorMessage(error));
+    return 'failed';
+  }
+
+  await applyPaidCycle(subscription, cycle, payment);
+  return 'charged';
+}
+
+async function renewSubscription(subscription: SubscriptionRow, now: Date): Promise<RenewalOutcome> {
+  const cycle = await getOrCreateCycle(subscription);
+
+  switch (cycle.status) {
+    case 'paid':
+    case 'abandoned':
+      return 'skipped';
+    case 'processing':
+      // 진행 중이거나, 중단된 시도를 같은 주문 ID로 이어서 처리
+      return isStaleProcessing(cycle.updated_at, now) ? charge(subscription, cycle, now) : 'skipped';
+    case 'failed':
+      if (cycle.next_retry_at && new Date(cycle.next_retry_at) > now) return 'skipped';
+      break;
+  }
+
+  const claimed = await claimAttempt(subscription, cycle);
+  return claimed ? charge(subscription, claimed, now) : 'skipped';
+}
+
+/**
+ * 정기결제 갱신 작업 1회 실행
+ */
+export async function runBillingRenewalJob(now: Date = new Date()): Promise<BillingJobResult> {
+  const result: BillingJobResult = { due: 0, charged: 0, failed: 0, expired: 0, skipped: 0 };
+  const dueBefore = new Date(now.getTime() + RENEWAL_LEAD_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .in('status', RENEWABLE_STATUSES)
+    .lte('current_period_end', dueBefore);
+
+  if (error) {
+    throw new Error(`subscriptions fetch failed: ${error.message}`);
+  }
+
+  const subscriptions = (data || []) as SubscriptionRow[];
+  result.due = subscriptions.length;
+
+  for (const subscription of subscriptions) {
+    try {
+      result[await renewSubscription(subscription, now)]++;
+    } catch (error) {
+      result.failed++;
+      console.error('Renewal error:', getErrorMessage(error));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 결제 실패(유예 중) 구독의 결제 수단을 바꾸고 밀린 주기를 바로 다시 청구
+ * 플랜은 기존 구독 그대로이며, 카드가 거절되면 정기 재시도 일정은 그대로 둡니다. (등록한 카드는 유지)
+ */
+export async function retryWithNewCard(
+  subscriptionId: string,
+  card: BillingKeyInfo,
+  now: Date = new Date()
+): Promise<RetryWithNewCardResult> {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      billing_key: card.billingKey,
+      customer_key: card.customerKey,
+      card_company: card.cardCompany,
+      card_number: card.cardNumber,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', subscriptionId)
+    .eq('status', 'payment_failed')
+    .select(SUBSCRIPTION_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`subscriptions update failed: ${error.message}`);
+  }
+  if (!data) {
+    return { success: false, error: 'in_progress' };
+  }
+
+  const subscription = data as SubscriptionRow;
+  const cycle = await getOrCreateCycle(subscription);
+  // 처리 중인 시도는 갱신 작업/웹훅이 마무리
+  if (cycle.status !== 'pending' && cycle.status !== 'failed') {
+    return { success: false, error: 'in_progress' };
+  }
+
+  const claimed = await claimAttempt(subscription, cycle);
+  if (!claimed) {
+    return { success: false, error: 'in_progress' };
+  }
+
+  const orderId = claimed.order_id as string;
+  let payment: TossPayment;
+  try {
+    payment = await chargeBilling(
+      subscription.billing_key,
+      subscription.customer_key,
+      claimed.amount,
+      orderId,
+      getOrderName(claimed.plan_type ?? subscription.plan_type),
+      orderId
+    );
+  } catch (chargeError) {
+    // 네트워크 오류 등 결과를 모르는 경우 processing으로 남겨 두고 갱신 작업/웹훅에서 처리
+    if (!(chargeError instanceof TossPaymentError)) throw chargeError;
+
+    const lastError = `${chargeError.code}: ${chargeError.message}`;
+    const { error: cycleError } = await supabaseAdmin
+      .from('billing_cycles')
+      .update({ status: 'failed', last_error: lastError, next_retry_at: cycle.next_retry_at })
+      .eq('id', claimed.id);
+    if (cycleError) {
+      throw new Error(`billing_cycles update failed: ${cycleError.message}`);
+    }
+
+    const { error: subError } = await supabaseAdmin
+      .from('subscriptions')
+      .update({ last_payment_error: lastError })
+      .eq('id', subscription.id);
+    if (subError) {
+      throw new Error(`subscriptions update failed: ${subError.message}`);
+    }
+    return { success: false, error: 'payment_failed', message: chargeError.message };
+  }
+
+  await applyPaidCycle(subscription, claimed, payment);
+  return { success: true, planType: claimed.plan_type ?? subscription.plan_type, periodEnd: claimed.period_end };
+}
+
+/**
+ * 토스 결제 상태를 DB에 반영 (웹훅)
+ * payment는 웹훅 본문이 아니라 토스 결제 조회 API로 다시 받은 값이어야 합니다.
+ */
+export async function reconcileTossPayment(payment: TossPayment): Promise<ReconcileResult> {
+  const status = toPaymentStatus(payment.status);
+
+  const { data: payments, error: paymentError } = await supabaseAdmin
+    .from('payments')
+    .update({ status })
+    .eq('order_id', payment.orderId)
+    .neq('status', status)
+    .select('id');
+  if (paymentError) {
+    throw new Error(`payments update failed: ${paymentError.message}`);
+  }
+
+  const { data: cycleData, error: cycleError } = await supabaseAdmin
+    .from('billing_cycles')
+    .select(CYCLE_COLUMNS)
+    .eq('order_id', payment.orderId)
+    .maybeSingle();
+  if (cycleError) {
+    throw new Error(`billing_cycles fetch failed: ${cycleError.message}`);
+  }
+
+  const cycle = cycleData as BillingCycleRow | null;
+  if (!cycle) {
+    // 업그레이드 차액 결제 - 요청 응답을 받지 못했지만 승인된 경우 플랜 변경 반영
+    const change = await findPlanChangeByOrderId(payment.orderId);
+    if (change && payment.status === 'DONE' && change.status !== 'paid') {
+      await applyPaidPlanChange(change, payment);
+      return 'updated';
+    }
+    // 첫 결제(/api/billing/confirm) 등
+    return (payments || []).length > 0 ? 'updated' : 'ignored';
+  }
+
+  const { data: subscription, error: subError } = await supabaseAdmin
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('id', cycle.subscription_id)
+    .single();
+  if (subError || !subscription) {
+    throw new Error(`subscriptions fetch failed: ${subError?.message}`);
+  }
+
+  // 결제 요청 응답을 받지 못했지만 승인된 경우
+  if (payment.status === 'DONE' && cycle.status !== 'paid') {
+    await applyPaidCycle(subscription as SubscriptionRow, cycle, payment);
+    return 'updated';
+  }
+
+  // 현재 주기 결제가 전액 취소(환불)되면 구독도 해지
+  if (payment.status === 'CANCELED' && subscription.current_period_start === cycle.period_start) {
+    const { error } = await supabaseAdmin
+      .from('subscriptions')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', subscription.id)
+      .neq('status', 'cancelled');
+    if (error) {
+      throw new Error(`subscriptions cancel failed: ${error.message}`);
+    }
+    return 'updated';
+  }
+
+  return (payments || []).length > 0 ? 'updated' : 'ignored';
+}
+
+export {
+  cancelScheduledPlanChange,
+  changePlan,
+  previewPlanChange,
+  type PlanChangeResult,
+} from './planChange';
@@ -0,0 +1,36 @@
+/**
+ * 결제 내역 기록 (서버 전용)
+ * 갱신 작업, 플랜 변경, 웹훅이 같은 주문을 동시에 기록할 수 있으므로 order_id 기준으로 한 번만 저장합니다.
+ */
+
+import { supabaseAdmin } from '../auth';
+import type { TossPayment } from '../toss';
+import { toPaymentStatus } from './schedule';
+import type { Subscription } from '@/types/subscription';
+
+export async function recordPayment(
+  subscription: Pick<Subscription, 'id' | 'user_id'>,
+  planType: Subscription['plan_type'],
+  amount: number,
+  payment: TossPayment
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('payments').upsert(
+    {
+      subscription_id: subscription.id,
+      user_id: subscription.user_id,
+      payment_key: payment.paymentKey,
+      order_id: payment.orderId,
+      amount,
+      plan_type: planType,
+      status: toPaymentStatus(payment.status),
+      card_company: payment.card?.company || null,
+      card_number: payment.card?.number || null,
+      approved_at: payment.approvedAt ?? null,
+    },
+    { onConflict: 'order_id', ignoreDuplicates: true }
+  );
+  // 결제 내역 저장 실패는 치명적이지 않음 (billing_cycles/plan_changes에 payment_key가 남음)
+  if (error) {
+    console.error('Payment record error:', error.message);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * 구독 플랜 변경 (서버 전용)
+ *
+ * /api/subscription/change 에서 사용합니다.
+ * - 업그레이드: 저장된 빌링키로 남은 기간 차액을 바로 청구하고 즉시 플랜을 바꿉니다.
+ * - 다운그레이드: scheduled_plan_type에 기록하고 다음 갱신 결제(lib/billing)부터 적용합니다.
+ *
+ * 차액 청구는 plan_changes 행을 processing으로 먼저 만든 뒤 요청하므로(구독당 하나만 허용)
+ * 동시 요청이나 재시도로 두 번 청구되지 않습니다.
+ */
+
+import { supabaseAdmin } from '../auth';
+import { chargeBilling, getOrderName, TossPaymentError, type TossPayment } from '../toss';
+import { recordPayment } from './payments';
+import {
+  buildUpgradeOrderId,
+  getPlanPrice,
+  quotePlanChange,
+  type PaidPlanType,
+  type PlanChangeQuote,
+} from './proration';
+import { isStaleProcessing, monthlyVetConsultations } from './schedule';
+import type { Subscription } from '@/types/subscription';
+
+type SubscriptionRow = Pick<
+  Subscription,
+  | 'id'
+  | 'user_id'
+  | 'plan_type'
+  | 'price'
+  | 'billing_key'
+  | 'customer_key'
+  | 'current_period_start'
+  | 'current_period_end'
+  | 'scheduled_plan_type'
+>;
+
+export interface PlanChangeRow {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  from_plan: PaidPlanType;
+  to_plan: PaidPlanType;
+  amount: number;
+  status: 'processing' | 'paid' | 'failed';
+  order_id: string;
+  updated_at: string;
+}
+
+export type PlanChangeError = 'no_subscription' | 'same_plan' | 'in_progress' | 'payment_failed';
+
+export type PlanChangeResult =
+  | { success: true; quote: PlanChangeQuote }
+  | { success: false; error: PlanChangeError; message?: string };
+
+const SUBSCRIPTION_COLUMNS =
+  'id, user_id, plan_type, price, billing_key, customer_key, current_period_start, current_period_end, scheduled_plan_type';
+const CHANGE_COLUMNS = 'id, subscription_id, user_id, from_plan, to_plan, amount, status, order_id, updated_at';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// 플랜 변경은 결제가 정상인 활성 구독만 (결제 실패 중이면 카드부터 해결)
+async function getActiveSubscription(userId: string): Promise<SubscriptionRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .gte('current_period_end', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`subscriptions fetch failed: ${error.message}`);
+  }
+  return (data as SubscriptionRow | null) ?? null;
+}
+
+export async function findPlanChangeByOrderId(orderId: string): Promise<PlanChangeRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('plan_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`plan_changes fetch failed: ${error.message}`);
+  }
+  return (data as PlanChangeRow | null) ?? null;
+}
+
+/**
+ * 결제 완료된 업그레이드를 구독에 반영
+ * 구독이 아직 변경 전 플랜일 때만 바꾸므로 여러 번 호출해도 안전합니다.
+ */
+export async function applyPaidPlanChange(change: PlanChangeRow, payment: TossPayment | null): Promise<void> {
+  const { error: changeError } = await supabaseAdmin
+    .from('plan_changes')
+    .update({ status: 'paid', payment_key: payment?.paymentKey ?? null, last_error: null })
+    .eq('id', change.id);
+  if (changeError) {
+    throw new Error(`plan_changes update failed: ${changeError.message}`);
+  }
+
+  if (payment) {
+    await recordPayment(
+      { id: change.subscription_id, user_id: change.user_id },
+      change.to_plan,
+      change.amount,
+      payment
+    );
+  }
+
+  const { error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      plan_type: change.to_plan,
+      price: getPlanPrice(change.to_plan),
+      scheduled_plan_type: null,
+      vet_consultations_remaining: monthlyVetConsultations(change.to_plan),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', change.subscription_id)
+    .eq('plan_type', change.from_plan);
+  if (error) {
+    throw new Error(`subscriptions plan update failed: ${error.message}`);
+  }
+}
+
+async function chargeUpgrade(subscription: SubscriptionRow, change: PlanChangeRow): Promise<PlanChangeResult | null> {
+  let payment: TossPayment;
+  try {
+    payment = await chargeBilling(
+      subscription.billing_key,
+      subscription.customer_key,
+      change.amount,
+      change.order_id,
+      `${getOrderName(change.to_plan)} 업그레이드`,
+      change.order_id
+    );
+  } catch (error) {
+    // 네트워크 오류 등 결과를 모르는 경우 processing으로 남겨 두고 다음 요청이나 웹훅에서 처리
+    if (!(error instanceof TossPaymentError)) throw error;
+
+    await supabaseAdmin
+      .from('plan_changes')
+      .update({ status: 'failed', last_error: `${error.code}: ${error.message}` })
+      .eq('id', change.id);
+    return { success: false, error: 'payment_failed', message: error.message };
+  }
+
+  await applyPaidPlanChange(change, payment);
+  return null;
+}
+
+/**
+ * 플랜 변경 견적 (청구하지 않음)
+ */
+export async function previewPlanChange(
+  userId: string,
+  toPlan: PaidPlanType,
+  now: Date = new Date()
+): Promise<PlanChangeResult> {
+  const subscription = await getActiveSubscription(userId);
+  if (!subscription) {
+    return { success: false, error: 'no_subscription' };
+  }
+  if (subscription.plan_type === toPlan) {
+    return { success: false, error: 'same_plan' };
+  }
+  return { success: true, quote: quotePlanChange(subscription, toPlan, now) };
+}
+
+/**
+ * 플랜 변경 실행
+ */
+export async function changePlan(
+  userId: string,
+  toPlan: PaidPlanType,
+  now: Date = new Date()
+): Promise<PlanChangeResult> {
+  const subscription = await getActiveSubscription(userId);
+  if (!subscription) {
+    return { success: false, error: 'no_subscription' };
+  }
+  if (subscription.plan_type === toPlan) {
+    return { success: false, error: 'same_plan' };
+  }
+
+  const quote = quotePlanChange(subscription, toPlan, now);
+
+  if (quote.direction === 'downgrade') {
+    const { error } = await supabaseAdmin
+      .from('subscriptions')
+      .update({ scheduled_plan_type: toPlan, updated_at: now.toISOString() })
+      .eq('id', subscription.id);
+    if (error) {
+      throw new Error(`subscriptions schedule failed: ${error.message}`);
+    }
+    return { success: true, quote };
+  }
+
+  // 응답을 받지 못하고 남은 시도가 있으면 같은 주문 ID로 이어서 처리 (토스가 중복 결제하지 않음)
+  const { data: pending, error: pendingError } = await supabaseAdmin
+    .from('plan_changes')
+    .select(CHANGE_COLUMNS)
+    .eq('subscription_id', subscription.id)
+    .eq('status', 'processing')
+    .maybeSingle();
+  if (pendingError) {
+    throw new Error(`plan_changes fetch failed: ${pendingError.message}`);
+  }
+  if (pending) {
+    const change = pending as PlanChangeRow;
+    if (!isStaleProcessing(change.updated_at, now)) {
+      return { success: false, error: 'in_progress' };
+    }
+    const failure = await chargeUpgrade(subscription, change);
+    return failure ?? { success: true, quote: { ...quote, chargeAmount: change.amount } };
+  }
+
+  const { data: created, error: insertError } = await supabaseAdmin
+    .from('plan_changes')
+    .insert({
+      subscription_id: subscription.id,
+      user_id: userId,
+      from_plan: subscription.plan_type,
+      to_plan: toPlan,
+      amount: quote.chargeAmount,
+      // 청구할 차액이 없으면 바로 완료
+      status: quote.chargeAmount > 0 ? 'processing' : 'paid',
+      order_id: buildUpgradeOrderId(subscription.id, now),
+    })
+    .select(CHANGE_COLUMNS)
+    .single();
+
+  if (insertError?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: 'in_progress' };
+  }
+  if (insertError || !created) {
+    throw new Error(`plan_changes insert failed: ${insertError?.message}`);
+  }
+
+  const change = created as PlanChangeRow;
+  if (quote.chargeAmount === 0) {
+    await applyPaidPlanChange(change, null);
+    return { success: true, quote };
+  }
+
+  const failure = await chargeUpgrade(subscription, change);
+  return failure ?? { success: true, quote };
+}
+
+/**
+ * 예약된 다운그레이드 취소
+ * @returns 취소할 예약이 있었으면 true
+ */
+export async function cancelScheduledPlanChange(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('subscriptions')
+    .update({ scheduled_plan_type: null, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .not('scheduled_plan_type', 'is', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`subscriptions update failed: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
@@ -0,0 +1,74 @@
+// 플랜 변경 차액 계산 (순수 함수 - DB/네트워크 없음)
+//
+// 업그레이드는 남은 기간 비율만큼 차액을 바로 청구하고,
+// 다운그레이드는 남은 기간을 그대로 쓰고 다음 갱신부터 낮은 요금을 청구하므로 환불(크레딧)하지 않습니다.
+
+import { PLANS, type PlanChangeQuote, type Subscription } from '@/types/subscription';
+
+export type { PlanChangeQuote };
+export type PaidPlanType = Subscription['plan_type'];
+
+// 토스 카드 결제 최소 금액 - 이보다 작은 차액은 청구하지 않음
+export const MIN_CHARGE_AMOUNT = 100;
+
+export function getPlanPrice(planType: PaidPlanType): number {
+  return PLANS.find((plan) => plan.id === planType)?.price ?? 0;
+}
+
+export function isPlanUpgrade(fromPlan: PaidPlanType, toPlan: PaidPlanType): boolean {
+  return getPlanPrice(toPlan) > getPlanPrice(fromPlan);
+}
+
+/**
+ * 남은 기간 비율 (0~1)
+ */
+export function remainingPeriodRatio(periodStart: string, periodEnd: string, now: Date): number {
+  const start = new Date(periodStart).getTime();
+  const end = new Date(periodEnd).getTime();
+  if (end <= start) return 0;
+  return Math.min(1, Math.max(0, (end - now.getTime()) / (end - start)));
+}
+
+/**
+ * 플랜 변경 견적
+ * @param subscription 현재 구독 (price는 실제로 결제한 월 요금)
+ */
+export function quotePlanChange(
+  subscription: Pick<Subscription, 'plan_type' | 'price' | 'current_period_start' | 'current_period_end'>,
+  toPlan: PaidPlanType,
+  now: Date
+): PlanChangeQuote {
+  const ratio = remainingPeriodRatio(subscription.current_period_start, subscription.current_period_end, now);
+  const nextPrice = getPlanPrice(toPlan);
+  const unusedCredit = Math.round(subscription.price * ratio);
+
+  if (!isPlanUpgrade(subscription.plan_type, toPlan)) {
+    return {
+      fromPlan: subscription.plan_type,
+      toPlan,
+      direction: 'downgrade',
+      chargeAmount: 0,
+      unusedCredit,
+      effectiveAt: subscription.current_period_end,
+      nextPrice,
+    };
+  }
+
+  const difference = Math.round(nextPrice * ratio) - unusedCredit;
+  return {
+    fromPlan: subscription.plan_type,
+    toPlan,
+    direction: 'upgrade',
+    chargeAmount: difference >= MIN_CHARGE_AMOUNT ? difference : 0,
+    unusedCredit,
+    effectiveAt: now.toISOString(),
+    nextPrice,
+  };
+}
+
+/**
+ * 업그레이드 차액 주문 ID (토스 orderId 규칙: 영문/숫자/-/_ 6~64자)
+ */
+export function buildUpgradeOrderId(subscriptionId: string, now: Date): string {
+  return `UPG_${subscriptionId.replace(/-/g, '').slice(0, 12)}_${now.getTime().toString(36)}`;
+}
@@ -0,0 +1,101 @@
+// 정기결제 갱신 일정 계산 (순수 함수 - DB/네트워크 없음)
+//
+// 결제 주기는 구독 시작일(anchor)의 날짜를 기준으로 한 달씩 늘어나며,
+// 31일처럼 없는 날짜는 그 달의 마지막 날로 맞춥니다. (1/31 -> 2/28 -> 3/31)
+
+import type { Subscription, SubscriptionStatus } from '@/types/subscription';
+import type { TossPayment } from '../toss';
+
+// 기간 만료 몇 시간 전부터 갱신 결제를 시도할지
+export const RENEWAL_LEAD_HOURS = 24;
+// 실패 후 재시도 간격 (일) - 첫 시도 포함 최대 RETRY_INTERVAL_DAYS.length + 1회
+export const RETRY_INTERVAL_DAYS = [1, 2, 3];
+export const MAX_CHARGE_ATTEMPTS = RETRY_INTERVAL_DAYS.length + 1;
+// 결제 실패 후 기존 기간 종료일로부터 이용을 유지하는 기간
+export const GRACE_PERIOD_DAYS = 7;
+// processing 상태로 이 시간 이상 남아 있으면 응답을 받지 못한 시도로 보고 같은 주문으로 다시 요청
+export const STALE_PROCESSING_MINUTES = 10;
+
+// 갱신 대상 구독 상태 (cancelled는 기간 만료 후 갱신하지 않음)
+export const RENEWABLE_STATUSES: SubscriptionStatus[] = ['active', 'payment_failed'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type BillingCycleStatus = 'pending' | 'processing' | 'paid' | 'failed' | 'abandoned';
+
+export interface ChargeFailurePlan {
+  cycleStatus: Extract<BillingCycleStatus, 'failed' | 'abandoned'>;
+  subscriptionStatus: Extract<SubscriptionStatus, 'payment_failed' | 'expired'>;
+  /** 다음 재시도 시각 (재시도하지 않으면 null) */
+  nextRetryAt: Date | null;
+  gracePeriodEnd: Date;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * 다음 결제 주기 종료일 (UTC 기준, 시각은 유지)
+ * @param anchorDay 구독 시작일의 날짜 (1~31)
+ */
+export function addBillingMonth(periodEnd: Date, anchorDay: number): Date {
+  const year = periodEnd.getUTCFullYear();
+  const month = periodEnd.getUTCMonth() + 1;
+  const next = new Date(periodEnd.getTime());
+  next.setUTCDate(1);
+  next.setUTCFullYear(year + Math.floor(month / 12), month % 12);
+  next.setUTCDate(Math.min(anchorDay, daysInMonth(next.getUTCFullYear(), next.getUTCMonth())));
+  return next;
+}
+
+/**
+ * 갱신 결제 주문 ID (토스 orderId 규칙: 영문/숫자/-/_ 6~64자)
+ * 실패한 orderId는 재사용할 수 없으므로 시도 번호를 붙입니다.
+ */
+export function buildRenewalOrderId(subscriptionId: string, periodStart: string, attempt: number): string {
+  const date = periodStart.slice(0, 10).replace(/-/g, '');
+  return `RENEW_${subscriptionId.replace(/-/g, '').slice(0, 12)}_${date}_${attempt}`;
+}
+
+/**
+ * 결제 실패 후 처리 계획
+ * 재시도 횟수를 다 썼거나 다음 재시도가 유예 기간을 넘기면 구독을 만료합니다.
+ * @param attempts 방금 실패한 시도를 포함한 누적 시도 횟수
+ * @param periodStart 청구 중인 주기의 시작일 (= 기존 기간 종료일)
+ */
+export function planChargeFailure(attempts: number, periodStart: Date, now: Date): ChargeFailurePlan {
+  const gracePeriodEnd = new Date(periodStart.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+  const interval = RETRY_INTERVAL_DAYS[attempts - 1];
+  const nextRetryAt = interval !== undefined ? new Date(now.getTime() + interval * DAY_MS) : null;
+
+  if (!nextRetryAt || attempts >= MAX_CHARGE_ATTEMPTS || nextRetryAt > gracePeriodEnd) {
+    return { cycleStatus: 'abandoned', subscriptionStatus: 'expired', nextRetryAt: null, gracePeriodEnd };
+  }
+
+  return { cycleStatus: 'failed', subscriptionStatus: 'payment_failed', nextRetryAt, gracePeriodEnd };
+}
+
+export function isStaleProcessing(updatedAt: string, now: Date): boolean {
+  return now.getTime() - new Date(updatedAt).getTime() >= STALE_PROCESSING_MINUTES * 60 * 1000;
+}
+
+// 플랜별 월간 수의사 상담 횟수
+export function monthlyVetConsultations(planType: Subscription['plan_type']): number {
+  return planType === 'premium_plus' ? 2 : 0;
+}
+
+// 토스 결제 상태 -> payments.status
+export function toPaymentStatus(status: TossPayment['status']): string {
+  switch (status) {
+    case 'DONE':
+      return 'done';
+    case 'CANCELED':
+      return 'cancelled';
+    case 'PARTIAL_CANCELED':
+      return 'partial_cancelled';
+    default:
+      return status.toLowerCase();
+  }
+}
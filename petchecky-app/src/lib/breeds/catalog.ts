@@ -0,0 +1,719 @@
+/**
+ * 품종 카탈로그 데이터
+ *
+ * 품종은 id로 식별하고, 검색은 다국어 이름과 별칭(줄임말, 흔한 표기 변형)으로 합니다.
+ * 공백/하이픈 차이는 검색 시 정규화되므로 별칭에는 실제로 다른 표기만 넣습니다.
+ * 체중은 성체 기준(kg), 믹스 품종은 체중/크기 정보가 없습니다.
+ */
+
+import type { PetSpecies, SpeciesLanguage } from '../species';
+
+// 크기 분류 (강아지/고양이만, 사료 추천에 사용)
+export type BreedSize = 'toy' | 'small' | 'medium' | 'large' | 'giant';
+
+export type ExerciseNeeds = 'low' | 'medium' | 'high';
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface BreedInfo {
+  id: string;
+  species: PetSpecies;
+  names: Record<SpeciesLanguage, string>;
+  aliases: string[];
+  size?: BreedSize;
+  /** 성체 체중 범위 (kg) */
+  weight?: Range;
+  /** 기대 수명 (년) */
+  lifeExpectancy?: Range;
+  exerciseNeeds?: ExerciseNeeds;
+  /** 품종 특이 질환 */
+  commonIssues: string[];
+}
+
+export const BREED_CATALOG: BreedInfo[] = [
+  // === 강아지 ===
+  {
+    id: 'mixed-dog',
+    species: 'dog',
+    names: { ko: '믹스견', en: 'Mixed Breed', ja: 'ミックス犬', zh: '混血犬' },
+    aliases: ['믹스', '잡종', '혼혈', 'mix', 'mutt'],
+    commonIssues: [],
+  },
+  {
+    id: 'maltese',
+    species: 'dog',
+    names: { ko: '말티즈', en: 'Maltese', ja: 'マルチーズ', zh: '马尔济斯' },
+    aliases: ['몰티즈', '말티스'],
+    size: 'toy',
+    weight: { min: 2, max: 4 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'low',
+    commonIssues: ['슬개골 탈구', '치아 문제', '눈물 자국', '저혈당'],
+  },
+  {
+    id: 'toy-poodle',
+    species: 'dog',
+    names: { ko: '토이 푸들', en: 'Toy Poodle', ja: 'トイ・プードル', zh: '玩具贵宾犬' },
+    aliases: ['푸들', '티컵 푸들', 'poodle', '貴賓'],
+    size: 'toy',
+    weight: { min: 2, max: 4 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['슬개골 탈구', '백내장', '진행성 망막 위축', '간질'],
+  },
+  {
+    id: 'standard-poodle',
+    species: 'dog',
+    names: { ko: '스탠다드 푸들', en: 'Standard Poodle', ja: 'スタンダード・プードル', zh: '标准贵宾犬' },
+    aliases: [],
+    size: 'large',
+    weight: { min: 20, max: 32 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'high',
+    commonIssues: ['위 확장-염전', '고관절 이형성증', '애디슨병', '피지선염'],
+  },
+  {
+    id: 'pomeranian',
+    species: 'dog',
+    names: { ko: '포메라니안', en: 'Pomeranian', ja: 'ポメラニアン', zh: '博美犬' },
+    aliases: ['포메', 'pom'],
+    size: 'toy',
+    weight: { min: 1.5, max: 3.5 },
+    lifeExpectancy: { min: 12, max: 16 },
+    exerciseNeeds: 'low',
+    commonIssues: ['슬개골 탈구', '기관허탈', '치아 문제', '탈모'],
+  },
+  {
+    id: 'chihuahua',
+    species: 'dog',
+    names: { ko: '치와와', en: 'Chihuahua', ja: 'チワワ', zh: '吉娃娃' },
+    aliases: ['치화화'],
+    size: 'toy',
+    weight: { min: 1.5, max: 3 },
+    lifeExpectancy: { min: 14, max: 16 },
+    exerciseNeeds: 'low',
+    commonIssues: ['슬개골 탈구', '수두증', '치아 문제', '저혈당'],
+  },
+  {
+    id: 'shih-tzu',
+    species: 'dog',
+    names: { ko: '시츄', en: 'Shih Tzu', ja: 'シー・ズー', zh: '西施犬' },
+    aliases: ['시추', '시쮸', '시쥬'],
+    size: 'small',
+    weight: { min: 4, max: 7.5 },
+    lifeExpectancy: { min: 10, max: 16 },
+    exerciseNeeds: 'low',
+    commonIssues: ['단두종 기도 증후군', '각막 궤양', '추간판 질환', '피부염'],
+  },
+  {
+    id: 'yorkshire-terrier',
+    species: 'dog',
+    names: { ko: '요크셔 테리어', en: 'Yorkshire Terrier', ja: 'ヨークシャー・テリア', zh: '约克夏梗' },
+    aliases: ['요키', 'yorkie'],
+    size: 'toy',
+    weight: { min: 2, max: 3.5 },
+    lifeExpectancy: { min: 13, max: 16 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['슬개골 탈구', '기관허탈', '간문맥 단락', '치아 문제'],
+  },
+  {
+    id: 'bichon-frise',
+    species: 'dog',
+    names: { ko: '비숑 프리제', en: 'Bichon Frise', ja: 'ビション・フリーゼ', zh: '比熊犬' },
+    aliases: ['비숑', 'bichon'],
+    size: 'small',
+    weight: { min: 5, max: 8 },
+    lifeExpectancy: { min: 14, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['알레르기성 피부염', '슬개골 탈구', '방광 결석', '백내장'],
+  },
+  {
+    id: 'golden-retriever',
+    species: 'dog',
+    names: { ko: '골든 리트리버', en: 'Golden Retriever', ja: 'ゴールデン・レトリーバー', zh: '金毛寻回犬' },
+    aliases: ['골든', '골댕이', '골든 레트리버', 'golden', '金毛'],
+    size: 'large',
+    weight: { min: 25, max: 34 },
+    lifeExpectancy: { min: 10, max: 12 },
+    exerciseNeeds: 'high',
+    commonIssues: ['고관절 이형성증', '백내장', '심장질환', '피부 알레르기', '종양'],
+  },
+  {
+    id: 'labrador-retriever',
+    species: 'dog',
+    names: { ko: '래브라도 리트리버', en: 'Labrador Retriever', ja: 'ラブラドール・レトリーバー', zh: '拉布拉多寻回犬' },
+    aliases: ['래브라도', '라브라도', '라브라도 리트리버', 'labrador', 'lab', '拉布拉多'],
+    size: 'large',
+    weight: { min: 25, max: 36 },
+    lifeExpectancy: { min: 10, max: 12 },
+    exerciseNeeds: 'high',
+    commonIssues: ['고관절 이형성증', '팔꿈치 이형성증', '비만', '외이염'],
+  },
+  {
+    id: 'jindo',
+    species: 'dog',
+    names: { ko: '진돗개', en: 'Korean Jindo', ja: '珍島犬', zh: '珍岛犬' },
+    aliases: ['진도개', '진도', 'jindo'],
+    size: 'medium',
+    weight: { min: 15, max: 23 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'high',
+    commonIssues: ['갑상선 기능 저하증', '피부 알레르기', '고관절 이형성증'],
+  },
+  {
+    id: 'welsh-corgi',
+    species: 'dog',
+    names: { ko: '웰시 코기', en: 'Pembroke Welsh Corgi', ja: 'ウェルシュ・コーギー', zh: '威尔士柯基犬' },
+    aliases: ['코기', '웰시 코기 펨브로크', 'corgi', 'welsh corgi', '柯基'],
+    size: 'medium',
+    weight: { min: 10, max: 14 },
+    lifeExpectancy: { min: 12, max: 13 },
+    exerciseNeeds: 'high',
+    commonIssues: ['추간판 질환', '고관절 이형성증', '비만', '퇴행성 척수병증'],
+  },
+  {
+    id: 'beagle',
+    species: 'dog',
+    names: { ko: '비글', en: 'Beagle', ja: 'ビーグル', zh: '比格犬' },
+    aliases: [],
+    size: 'medium',
+    weight: { min: 9, max: 14 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'high',
+    commonIssues: ['비만', '외이염', '추간판 질환', '간질'],
+  },
+  {
+    id: 'dachshund',
+    species: 'dog',
+    names: { ko: '닥스훈트', en: 'Dachshund', ja: 'ダックスフンド', zh: '腊肠犬' },
+    aliases: ['닥스', '미니어처 닥스훈트', '닥스훈드', 'doxie'],
+    size: 'small',
+    weight: { min: 4, max: 12 },
+    lifeExpectancy: { min: 12, max: 16 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['추간판 질환', '비만', '치아 문제', '당뇨'],
+  },
+  {
+    id: 'shiba-inu',
+    species: 'dog',
+    names: { ko: '시바견', en: 'Shiba Inu', ja: '柴犬', zh: '柴犬' },
+    aliases: ['시바', '시바 이누', 'shiba', 'しばいぬ'],
+    size: 'small',
+    weight: { min: 8, max: 11 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['알레르기', '슬개골 탈구', '녹내장', '갑상선 질환'],
+  },
+  {
+    id: 'french-bulldog',
+    species: 'dog',
+    names: { ko: '프렌치 불독', en: 'French Bulldog', ja: 'フレンチ・ブルドッグ', zh: '法国斗牛犬' },
+    aliases: ['프불', '프렌치 불도그', 'frenchie', '法斗'],
+    size: 'small',
+    weight: { min: 8, max: 14 },
+    lifeExpectancy: { min: 10, max: 12 },
+    exerciseNeeds: 'low',
+    commonIssues: ['단두종 기도 증후군', '척추 기형', '피부염', '열사병'],
+  },
+  {
+    id: 'miniature-schnauzer',
+    species: 'dog',
+    names: { ko: '미니어처 슈나우저', en: 'Miniature Schnauzer', ja: 'ミニチュア・シュナウザー', zh: '迷你雪纳瑞' },
+    aliases: ['슈나우저', '슈나우져', '미니 슈나우저', 'schnauzer', '雪纳瑞'],
+    size: 'small',
+    weight: { min: 5, max: 9 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['췌장염', '고지혈증', '요로 결석', '당뇨'],
+  },
+  {
+    id: 'border-collie',
+    species: 'dog',
+    names: { ko: '보더 콜리', en: 'Border Collie', ja: 'ボーダー・コリー', zh: '边境牧羊犬' },
+    aliases: ['보더', '边牧'],
+    size: 'medium',
+    weight: { min: 14, max: 20 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'high',
+    commonIssues: ['고관절 이형성증', '콜리 안구 이상', '간질'],
+  },
+  {
+    id: 'samoyed',
+    species: 'dog',
+    names: { ko: '사모예드', en: 'Samoyed', ja: 'サモエド', zh: '萨摩耶' },
+    aliases: ['사모', '사모에드'],
+    size: 'large',
+    weight: { min: 16, max: 30 },
+    lifeExpectancy: { min: 12, max: 14 },
+    exerciseNeeds: 'high',
+    commonIssues: ['고관절 이형성증', '당뇨', '유전성 신장 질환', '녹내장'],
+  },
+  {
+    id: 'siberian-husky',
+    species: 'dog',
+    names: { ko: '시베리안 허스키', en: 'Siberian Husky', ja: 'シベリアン・ハスキー', zh: '西伯利亚雪橇犬' },
+    aliases: ['허스키', 'husky', '哈士奇'],
+    size: 'large',
+    weight: { min: 16, max: 27 },
+    lifeExpectancy: { min: 12, max: 14 },
+    exerciseNeeds: 'high',
+    commonIssues: ['백내장', '진행성 망막 위축', '갑상선 기능 저하증', '아연 반응성 피부염'],
+  },
+  {
+    id: 'pug',
+    species: 'dog',
+    names: { ko: '퍼그', en: 'Pug', ja: 'パグ', zh: '巴哥犬' },
+    aliases: [],
+    size: 'small',
+    weight: { min: 6, max: 8 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'low',
+    commonIssues: ['단두종 기도 증후군', '각막 궤양', '비만', '피부 주름 피부염'],
+  },
+  {
+    id: 'cocker-spaniel',
+    species: 'dog',
+    names: { ko: '코커 스패니얼', en: 'Cocker Spaniel', ja: 'コッカー・スパニエル', zh: '可卡犬' },
+    aliases: ['코카 스파니엘', '코커 스파니엘', '코카'],
+    size: 'medium',
+    weight: { min: 9, max: 14 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['외이염', '백내장', '녹내장', '자가면역성 용혈성 빈혈'],
+  },
+  {
+    id: 'japanese-spitz',
+    species: 'dog',
+    names: { ko: '스피츠', en: 'Japanese Spitz', ja: '日本スピッツ', zh: '日本尖嘴犬' },
+    aliases: ['재패니즈 스피츠', 'spitz'],
+    size: 'small',
+    weight: { min: 5, max: 10 },
+    lifeExpectancy: { min: 12, max: 16 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['슬개골 탈구', '눈물 자국', '피부 알레르기'],
+  },
+
+  // === 고양이 ===
+  {
+    id: 'mixed-cat',
+    species: 'cat',
+    names: { ko: '믹스묘', en: 'Mixed Breed', ja: 'ミックス猫', zh: '混血猫' },
+    aliases: ['믹스', '잡종', '혼혈', 'mix', 'domestic shorthair', 'dsh'],
+    commonIssues: [],
+  },
+  {
+    id: 'korean-shorthair',
+    species: 'cat',
+    names: { ko: '코리안 숏헤어', en: 'Korean Shorthair', ja: 'コリアン・ショートヘア', zh: '韩国短毛猫' },
+    aliases: ['코숏', '코리안숏', '한국 고양이'],
+    size: 'medium',
+    weight: { min: 3, max: 6 },
+    lifeExpectancy: { min: 12, max: 18 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비만', '치주 질환', '요로 질환'],
+  },
+  {
+    id: 'persian',
+    species: 'cat',
+    names: { ko: '페르시안', en: 'Persian', ja: 'ペルシャ', zh: '波斯猫' },
+    aliases: ['페르샤', '페르시아'],
+    size: 'medium',
+    weight: { min: 3, max: 5.5 },
+    lifeExpectancy: { min: 12, max: 17 },
+    exerciseNeeds: 'low',
+    commonIssues: ['다낭성 신장질환', '호흡기 문제', '눈 질환', '피부 질환'],
+  },
+  {
+    id: 'russian-blue',
+    species: 'cat',
+    names: { ko: '러시안 블루', en: 'Russian Blue', ja: 'ロシアンブルー', zh: '俄罗斯蓝猫' },
+    aliases: ['러블'],
+    size: 'medium',
+    weight: { min: 3.5, max: 6 },
+    lifeExpectancy: { min: 15, max: 20 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비만', '요로 결석', '스트레스 질환'],
+  },
+  {
+    id: 'british-shorthair',
+    species: 'cat',
+    names: { ko: '브리티시 숏헤어', en: 'British Shorthair', ja: 'ブリティッシュ・ショートヘア', zh: '英国短毛猫' },
+    aliases: ['브숏', '브리티쉬 숏헤어', '英短'],
+    size: 'medium',
+    weight: { min: 4, max: 8 },
+    lifeExpectancy: { min: 12, max: 17 },
+    exerciseNeeds: 'low',
+    commonIssues: ['비대성 심근병증', '다낭성 신장질환', '비만'],
+  },
+  {
+    id: 'scottish-fold',
+    species: 'cat',
+    names: { ko: '스코티시 폴드', en: 'Scottish Fold', ja: 'スコティッシュ・フォールド', zh: '苏格兰折耳猫' },
+    aliases: ['스코티쉬 폴드', '폴드', '折耳'],
+    size: 'medium',
+    weight: { min: 3, max: 6 },
+    lifeExpectancy: { min: 11, max: 14 },
+    exerciseNeeds: 'low',
+    commonIssues: ['골연골이형성증', '관절염', '비대성 심근병증', '다낭성 신장질환'],
+  },
+  {
+    id: 'american-shorthair',
+    species: 'cat',
+    names: { ko: '아메리칸 숏헤어', en: 'American Shorthair', ja: 'アメリカン・ショートヘア', zh: '美国短毛猫' },
+    aliases: ['아숏', '美短'],
+    size: 'medium',
+    weight: { min: 3.5, max: 7 },
+    lifeExpectancy: { min: 15, max: 20 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비대성 심근병증', '비만', '치주 질환'],
+  },
+  {
+    id: 'siamese',
+    species: 'cat',
+    names: { ko: '샴', en: 'Siamese', ja: 'シャム', zh: '暹罗猫' },
+    aliases: ['샴 고양이', '시암'],
+    size: 'medium',
+    weight: { min: 2.5, max: 5.5 },
+    lifeExpectancy: { min: 12, max: 20 },
+    exerciseNeeds: 'high',
+    commonIssues: ['진행성 망막 위축', '천식', '아밀로이드증'],
+  },
+  {
+    id: 'ragdoll',
+    species: 'cat',
+    names: { ko: '랙돌', en: 'Ragdoll', ja: 'ラグドール', zh: '布偶猫' },
+    aliases: ['렉돌', '래그돌'],
+    size: 'large',
+    weight: { min: 4.5, max: 9 },
+    lifeExpectancy: { min: 12, max: 17 },
+    exerciseNeeds: 'low',
+    commonIssues: ['비대성 심근병증', '방광 결석', '비만'],
+  },
+  {
+    id: 'maine-coon',
+    species: 'cat',
+    names: { ko: '메인쿤', en: 'Maine Coon', ja: 'メインクーン', zh: '缅因猫' },
+    aliases: ['메인 쿤'],
+    size: 'large',
+    weight: { min: 5.5, max: 11 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비대성 심근병증', '고관절 이형성증', '척수성 근위축증'],
+  },
+  {
+    id: 'bengal',
+    species: 'cat',
+    names: { ko: '벵갈', en: 'Bengal', ja: 'ベンガル', zh: '孟加拉豹猫' },
+    aliases: ['뱅갈'],
+    size: 'medium',
+    weight: { min: 3.5, max: 7 },
+    lifeExpectancy: { min: 12, max: 16 },
+    exerciseNeeds: 'high',
+    commonIssues: ['비대성 심근병증', '진행성 망막 위축', '슬개골 탈구'],
+  },
+  {
+    id: 'turkish-angora',
+    species: 'cat',
+    names: { ko: '터키시 앙고라', en: 'Turkish Angora', ja: 'ターキッシュ・アンゴラ', zh: '土耳其安哥拉猫' },
+    aliases: ['터키쉬 앙고라', '터앙', '앙고라'],
+    size: 'medium',
+    weight: { min: 2.5, max: 5 },
+    lifeExpectancy: { min: 12, max: 18 },
+    exerciseNeeds: 'high',
+    commonIssues: ['비대성 심근병증', '운동실조', '선천성 청각 장애'],
+  },
+  {
+    id: 'munchkin',
+    species: 'cat',
+    names: { ko: '먼치킨', en: 'Munchkin', ja: 'マンチカン', zh: '曼基康矮脚猫' },
+    aliases: ['먼치킨 숏레그', '矮脚猫'],
+    size: 'small',
+    weight: { min: 2.5, max: 4 },
+    lifeExpectancy: { min: 12, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['척추 전만증', '누두흉', '관절염'],
+  },
+  {
+    id: 'norwegian-forest',
+    species: 'cat',
+    names: { ko: '노르웨이 숲', en: 'Norwegian Forest Cat', ja: 'ノルウェージャン・フォレスト・キャット', zh: '挪威森林猫' },
+    aliases: ['노숲', '노르웨이 숲 고양이', 'wegie'],
+    size: 'large',
+    weight: { min: 4, max: 9 },
+    lifeExpectancy: { min: 14, max: 16 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비대성 심근병증', '글리코겐 축적병', '고관절 이형성증'],
+  },
+
+  // === 토끼 ===
+  {
+    id: 'mixed-rabbit',
+    species: 'rabbit',
+    names: { ko: '믹스 토끼', en: 'Mixed Breed Rabbit', ja: 'ミックスうさぎ', zh: '混血兔' },
+    aliases: ['믹스', '잡종', 'mix'],
+    commonIssues: ['부정교합', '위장 정체'],
+  },
+  {
+    id: 'netherland-dwarf',
+    species: 'rabbit',
+    names: { ko: '네덜란드 드워프', en: 'Netherland Dwarf', ja: 'ネザーランドドワーフ', zh: '荷兰侏儒兔' },
+    aliases: ['드워프', '네덜란드드워프'],
+    weight: { min: 0.5, max: 1.2 },
+    lifeExpectancy: { min: 10, max: 12 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['부정교합', '위장 정체', '호흡기 감염'],
+  },
+  {
+    id: 'holland-lop',
+    species: 'rabbit',
+    names: { ko: '홀랜드 롭', en: 'Holland Lop', ja: 'ホーランドロップ', zh: '荷兰垂耳兔' },
+    aliases: ['롭이어', '롭', 'lop'],
+    weight: { min: 1.4, max: 1.8 },
+    lifeExpectancy: { min: 7, max: 12 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['귀 감염', '부정교합', '위장 정체'],
+  },
+  {
+    id: 'lionhead',
+    species: 'rabbit',
+    names: { ko: '라이언헤드', en: 'Lionhead', ja: 'ライオンヘッド', zh: '狮子头兔' },
+    aliases: ['라이언 헤드'],
+    weight: { min: 1.1, max: 1.7 },
+    lifeExpectancy: { min: 7, max: 10 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['헤어볼(모구증)', '부정교합', '피부 질환'],
+  },
+  {
+    id: 'mini-rex',
+    species: 'rabbit',
+    names: { ko: '미니 렉스', en: 'Mini Rex', ja: 'ミニレッキス', zh: '迷你雷克斯兔' },
+    aliases: ['렉스', 'rex'],
+    weight: { min: 1.4, max: 2 },
+    lifeExpectancy: { min: 8, max: 10 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['비절병(발바닥 궤양)', '위장 정체'],
+  },
+
+  {
+    id: 'dwarf-hotot',
+    species: 'rabbit',
+    names: { ko: '드워프 호토', en: 'Dwarf Hotot', ja: 'ドワーフホト', zh: '侏儒海棠兔' },
+    aliases: ['호토', '드워프 호투'],
+    weight: { min: 1, max: 1.4 },
+    lifeExpectancy: { min: 7, max: 10 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['부정교합', '위장 정체'],
+  },
+  {
+    id: 'angora-rabbit',
+    species: 'rabbit',
+    names: { ko: '앙고라 토끼', en: 'Angora Rabbit', ja: 'アンゴラうさぎ', zh: '安哥拉兔' },
+    aliases: ['앙고라', '잉글리시 앙고라'],
+    weight: { min: 2, max: 3.5 },
+    lifeExpectancy: { min: 7, max: 12 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['헤어볼(모구증)', '피부 질환', '위장 정체'],
+  },
+
+  // === 햄스터 ===
+  {
+    id: 'syrian-hamster',
+    species: 'hamster',
+    names: { ko: '골든 햄스터', en: 'Syrian Hamster', ja: 'ゴールデンハムスター', zh: '金丝熊' },
+    aliases: ['시리안 햄스터', '골든', '골햄', '팬더 햄스터', 'golden hamster'],
+    weight: { min: 0.1, max: 0.15 },
+    lifeExpectancy: { min: 2, max: 3 },
+    exerciseNeeds: 'high',
+    commonIssues: ['습성 꼬리병', '볼주머니 질환', '종양'],
+  },
+  {
+    id: 'djungarian-hamster',
+    species: 'hamster',
+    names: { ko: '정글리안 햄스터', en: 'Djungarian Hamster', ja: 'ジャンガリアンハムスター', zh: '三线仓鼠' },
+    aliases: ['정글리안', '드워프 햄스터', '펄', '푸딩'],
+    weight: { min: 0.03, max: 0.045 },
+    lifeExpectancy: { min: 1.5, max: 2 },
+    exerciseNeeds: 'high',
+    commonIssues: ['당뇨', '종양', '비만'],
+  },
+  {
+    id: 'roborovski-hamster',
+    species: 'hamster',
+    names: { ko: '로보로브스키 햄스터', en: 'Roborovski Hamster', ja: 'ロボロフスキーハムスター', zh: '老公公仓鼠' },
+    aliases: ['로보로브스키', '로보'],
+    weight: { min: 0.02, max: 0.025 },
+    lifeExpectancy: { min: 2, max: 3 },
+    exerciseNeeds: 'high',
+    commonIssues: ['스트레스성 질환', '피부 질환'],
+  },
+  {
+    id: 'campbell-hamster',
+    species: 'hamster',
+    names: { ko: '캠벨 햄스터', en: "Campbell's Dwarf Hamster", ja: 'キャンベルハムスター', zh: '一线仓鼠' },
+    aliases: ['캠벨'],
+    weight: { min: 0.03, max: 0.05 },
+    lifeExpectancy: { min: 1.5, max: 2 },
+    exerciseNeeds: 'high',
+    commonIssues: ['당뇨', '비만'],
+  },
+
+  {
+    id: 'chinese-hamster',
+    species: 'hamster',
+    names: { ko: '차이니즈 햄스터', en: 'Chinese Hamster', ja: 'チャイニーズハムスター', zh: '中国仓鼠' },
+    aliases: ['차이니즈'],
+    weight: { min: 0.03, max: 0.045 },
+    lifeExpectancy: { min: 2, max: 3 },
+    exerciseNeeds: 'high',
+    commonIssues: ['당뇨', '습성 꼬리병'],
+  },
+
+  // === 페럿 ===
+  {
+    id: 'ferret',
+    species: 'ferret',
+    names: { ko: '페럿', en: 'Ferret', ja: 'フェレット', zh: '雪貂' },
+    aliases: ['세이블', '알비노', '실버', '시나몬', '샴페인', 'sable'],
+    weight: { min: 0.7, max: 2 },
+    lifeExpectancy: { min: 6, max: 10 },
+    exerciseNeeds: 'high',
+    commonIssues: ['인슐린종', '부신 질환', '림프종', '이물 섭취'],
+  },
+
+  // === 새 ===
+  {
+    id: 'budgerigar',
+    species: 'bird',
+    names: { ko: '사랑앵무', en: 'Budgerigar', ja: 'セキセイインコ', zh: '虎皮鹦鹉' },
+    aliases: ['잉꼬', '버지', 'budgie'],
+    weight: { min: 0.03, max: 0.04 },
+    lifeExpectancy: { min: 5, max: 10 },
+    exerciseNeeds: 'high',
+    commonIssues: ['종양', '갑상선종', '부리/발톱 과성장'],
+  },
+  {
+    id: 'lovebird',
+    species: 'bird',
+    names: { ko: '모란앵무', en: 'Lovebird', ja: 'ラブバード', zh: '牡丹鹦鹉' },
+    aliases: ['러브버드', '모란'],
+    weight: { min: 0.04, max: 0.06 },
+    lifeExpectancy: { min: 10, max: 15 },
+    exerciseNeeds: 'high',
+    commonIssues: ['깃털 뽑기', 'PBFD(부리깃털병)', '산란 관련 질환'],
+  },
+  {
+    id: 'cockatiel',
+    species: 'bird',
+    names: { ko: '왕관앵무', en: 'Cockatiel', ja: 'オカメインコ', zh: '玄凤鹦鹉' },
+    aliases: ['코카티엘', '왕관'],
+    weight: { min: 0.08, max: 0.12 },
+    lifeExpectancy: { min: 15, max: 20 },
+    exerciseNeeds: 'high',
+    commonIssues: ['지방간', '산란 과다', '야간 패닉'],
+  },
+  {
+    id: 'green-cheeked-conure',
+    species: 'bird',
+    names: { ko: '코뉴어', en: 'Green-cheeked Conure', ja: 'ウロコインコ', zh: '绿颊锥尾鹦鹉' },
+    aliases: ['그린칙 코뉴어', '그린칙', 'conure'],
+    weight: { min: 0.06, max: 0.08 },
+    lifeExpectancy: { min: 15, max: 25 },
+    exerciseNeeds: 'high',
+    commonIssues: ['깃털 뽑기', '앵무병', '비만'],
+  },
+  {
+    id: 'java-sparrow',
+    species: 'bird',
+    names: { ko: '문조', en: 'Java Sparrow', ja: '文鳥', zh: '文鸟' },
+    aliases: ['백문조', '벚꽃문조'],
+    weight: { min: 0.024, max: 0.03 },
+    lifeExpectancy: { min: 7, max: 10 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['산란 관련 질환', '호흡기 감염'],
+  },
+  {
+    id: 'canary',
+    species: 'bird',
+    names: { ko: '카나리아', en: 'Canary', ja: 'カナリア', zh: '金丝雀' },
+    aliases: [],
+    weight: { min: 0.015, max: 0.03 },
+    lifeExpectancy: { min: 10, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['기낭 진드기', '깃털 낭종'],
+  },
+  {
+    id: 'african-grey',
+    species: 'bird',
+    names: { ko: '회색앵무', en: 'African Grey Parrot', ja: 'ヨウム', zh: '非洲灰鹦鹉' },
+    aliases: ['아프리칸 그레이', '콩고 회색앵무'],
+    weight: { min: 0.4, max: 0.65 },
+    lifeExpectancy: { min: 40, max: 60 },
+    exerciseNeeds: 'high',
+    commonIssues: ['저칼슘혈증', '깃털 뽑기', '아스페르길루스증'],
+  },
+
+  // === 파충류 ===
+  {
+    id: 'leopard-gecko',
+    species: 'reptile',
+    names: { ko: '레오파드 게코', en: 'Leopard Gecko', ja: 'ヒョウモントカゲモドキ', zh: '豹纹守宫' },
+    aliases: ['레게', '레오파드 도마뱀'],
+    weight: { min: 0.045, max: 0.08 },
+    lifeExpectancy: { min: 10, max: 20 },
+    exerciseNeeds: 'low',
+    commonIssues: ['대사성 골질환', '탈피 부전', '장 폐색'],
+  },
+  {
+    id: 'crested-gecko',
+    species: 'reptile',
+    names: { ko: '크레스티드 게코', en: 'Crested Gecko', ja: 'クレステッドゲッコー', zh: '睫角守宫' },
+    aliases: ['크레', '크레스티드'],
+    weight: { min: 0.035, max: 0.055 },
+    lifeExpectancy: { min: 15, max: 20 },
+    exerciseNeeds: 'low',
+    commonIssues: ['대사성 골질환', '꼬리 자절', '탈피 부전'],
+  },
+  {
+    id: 'bearded-dragon',
+    species: 'reptile',
+    names: { ko: '비어디드 드래곤', en: 'Bearded Dragon', ja: 'フトアゴヒゲトカゲ', zh: '鬃狮蜥' },
+    aliases: ['비어디', '턱수염도마뱀'],
+    weight: { min: 0.35, max: 0.6 },
+    lifeExpectancy: { min: 10, max: 15 },
+    exerciseNeeds: 'medium',
+    commonIssues: ['대사성 골질환', '아데노바이러스', '장 폐색'],
+  },
+  {
+    id: 'ball-python',
+    species: 'reptile',
+    names: { ko: '볼파이톤', en: 'Ball Python', ja: 'ボールパイソン', zh: '球蟒' },
+    aliases: ['볼 파이톤', '로얄 파이톤'],
+    weight: { min: 1.2, max: 2 },
+    lifeExpectancy: { min: 20, max: 30 },
+    exerciseNeeds: 'low',
+    commonIssues: ['호흡기 감염', '구내염', '탈피 부전'],
+  },
+  {
+    id: 'corn-snake',
+    species: 'reptile',
+    names: { ko: '콘스네이크', en: 'Corn Snake', ja: 'コーンスネーク', zh: '玉米蛇' },
+    aliases: ['콘 스네이크', '옥수수뱀'],
+    weight: { min: 0.3, max: 0.9 },
+    lifeExpectancy: { min: 15, max: 20 },
+    exerciseNeeds: 'low',
+    commonIssues: ['호흡기 감염', '진드기', '탈피 부전'],
+  },
+  {
+    id: 'russian-tortoise',
+    species: 'reptile',
+    names: { ko: '러시안 육지거북', en: 'Russian Tortoise', ja: 'ヨツユビリクガメ', zh: '四趾陆龟' },
+    aliases: ['육지거북', '러시아 육지거북', '호스필드 육지거북', 'tortoise'],
+    weight: { min: 0.7, max: 1.5 },
+    lifeExpectancy: { min: 40, max: 50 },
+    exerciseNeeds: 'low',
+    commonIssues: ['대사성 골질환', '호흡기 감염', '등껍질 기형(피라미딩)'],
+  },
+];
@@ -0,0 +1,132 @@
+/**
+ * 품종 카탈로그
+ *
+ * 프로필에는 자유 입력 품종명(breed)과 카탈로그 id(breedId)를 함께 저장합니다.
+ * breedId가 없는 기존 프로필은 이름/별칭 매칭으로 품종을 찾습니다.
+ */
+
+import type { PetSpecies, SpeciesLanguage } from '../species';
+import { BREED_CATALOG, type BreedInfo, type Range } from './catalog';
+
+export { BREED_CATALOG };
+export type { BreedInfo, BreedSize, ExerciseNeeds, Range } from './catalog';
+
+export type WeightStatus = 'under' | 'normal' | 'slightlyOver' | 'over';
+
+// 품종을 찾는 데 필요한 프로필 필드
+export interface BreedLookup {
+  species?: string | null;
+  breed?: string | null;
+  breedId?: string | null;
+}
+
+// 권장 체중 상한을 이 비율 이상 넘으면 비만으로 봄
+const OBESE_RATIO = 1.2;
+
+const BREEDS_BY_ID = new Map(BREED_CATALOG.map((breed) => [breed.id, breed]));
+
+/**
+ * 검색용 정규화 ("골든 리트리버", "골든-리트리버", "Golden Retriever" 표기 차이 제거)
+ */
+export function normalizeBreedText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\-_.,·・'’()]/g, '');
+}
+
+// 0: 완전 일치, 1: 앞부분 일치, 2: 부분 일치, null: 불일치
+function matchRank(breed: BreedInfo, query: string): number | null {
+  let best: number | null = null;
+  for (const term of [...Object.values(breed.names), ...breed.aliases]) {
+    const normalized = normalizeBreedText(term);
+    const rank = normalized === query ? 0 : normalized.startsWith(query) ? 1 : normalized.includes(query) ? 2 : null;
+    if (rank !== null && (best === null || rank < best)) best = rank;
+    if (best === 0) break;
+  }
+  return best;
+}
+
+export function getBreed(id: string | null | undefined): BreedInfo | null {
+  return (id && BREEDS_BY_ID.get(id)) || null;
+}
+
+export function getBreedsBySpecies(species: PetSpecies): BreedInfo[] {
+  return BREED_CATALOG.filter((breed) => breed.species === species);
+}
+
+/**
+ * 이름이나 별칭이 정확히 일치하는 품종
+ */
+export function findBreed(text: string | null | undefined, species?: string | null): BreedInfo | null {
+  const query = normalizeBreedText(text ?? '');
+  if (!query) return null;
+  return (
+    BREED_CATALOG.find(
+      (breed) => (!species || breed.species === species) && matchRank(breed, query) === 0
+    ) ?? null
+  );
+}
+
+/**
+ * 자동완성 검색 (완전 일치 > 앞부분 일치 > 부분 일치, 같은 순위는 카탈로그 순서)
+ * 검색어가 비어 있으면 해당 종의 품종 목록을 반환합니다.
+ */
+export function searchBreeds(query: string, species?: string | null, limit: number = 8): BreedInfo[] {
+  const candidates = species ? BREED_CATALOG.filter((breed) => breed.species === species) : BREED_CATALOG;
+  const normalized = normalizeBreedText(query);
+  if (!normalized) return candidates.slice(0, limit);
+
+  return candidates
+    .map((breed, index) => ({ breed, index, rank: matchRank(breed, normalized) }))
+    .filter((entry): entry is { breed: BreedInfo; index: number; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map((entry) => entry.breed);
+}
+
+/**
+ * 프로필의 품종 찾기 (breedId 우선, 없으면 품종명으로 매칭)
+ */
+export function resolveBreed(pet: BreedLookup): BreedInfo | null {
+  const byId = getBreed(pet.breedId);
+  if (byId && (!pet.species || byId.species === pet.species)) return byId;
+  return findBreed(pet.breed, pet.species);
+}
+
+export function getBreedName(breed: BreedInfo, language: SpeciesLanguage = 'ko'): string {
+  return breed.names[language] || breed.names.ko;
+}
+
+/**
+ * 권장 체중 범위 대비 상태
+ */
+export function getWeightStatus(weight: number, range: Range): WeightStatus {
+  if (weight < range.min) return 'under';
+  if (weight > range.max * OBESE_RATIO) return 'over';
+  if (weight > range.max) return 'slightlyOver';
+  return 'normal';
+}
+
+/**
+ * 체중 범위 표시 (1kg 미만은 g 단위)
+ */
+export function formatWeightRange(range: Range): string {
+  if (range.max < 1) {
+    return `${Math.round(range.min * 1000)}-${Math.round(range.max * 1000)}g`;
+  }
+  return `${range.min}-${range.max}kg`;
+}
+
+/**
+ * AI 상담 프롬프트용 품종 정보 (카탈로그에 없는 품종이면 null)
+ */
+export function describeBreedForPrompt(pet: BreedLookup): string | null {
+  const breed = resolveBreed(pet);
+  if (!breed) return null;
+
+  const lines: string[] = [];
+  if (breed.weight) lines.push(`- 품종 성체 권장 체중: ${formatWeightRange(breed.weight)}`);
+  if (breed.commonIssues.length > 0) lines.push(`- 품종 호발 질환: ${breed.commonIssues.join(', ')}`);
+  return lines.length > 0 ? lines.join('\n') : null;
+}
@@ -0,0 +1,106 @@
+/**
+ * iCalendar(.ics) 생성 (RFC 5545)
+ *
+ * 시각은 보호자 시간대 기준 "벽시계 시각"이므로 TZID 없이 floating time으로 씁니다.
+ * 시각이 없는 이벤트는 종일 일정(VALUE=DATE)입니다.
+ */
+
+import { shiftDate, type CalendarEvent } from './registry';
+
+const PRODUCT_ID = '-//PetChecky//Calendar//KO';
+const UID_DOMAIN = 'petchecky.app';
+// 시각이 있는 이벤트의 기본 길이
+const EVENT_DURATION = 'PT30M';
+// 한 줄 최대 길이 (octet, CRLF 제외)
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalendarOptions {
+  /** 캘린더 앱에 표시할 이름 */
+  name: string;
+  now?: Date;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * 75 octet 넘는 줄 접기 (이어지는 줄은 공백으로 시작, 멀티바이트 문자는 자르지 않음)
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // 이어지는 줄은 앞의 공백 1 octet 포함
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.id.replace(/[^A-Za-z0-9:_-]/g, '_')}@${UID_DOMAIN}`, `DTSTAMP:${stamp}`];
+
+  if (event.time) {
+    lines.push(`DTSTART:${formatDate(event.date)}T${event.time.replace(':', '')}00`, `DURATION:${EVENT_DURATION}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(shiftDate(event.date, 1))}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(`[${event.petName}] ${event.title}`)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  lines.push(`CATEGORIES:${event.type.toUpperCase()}`, 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * 이벤트 목록을 .ics 문자열로
+ */
+export function buildICalendar(events: CalendarEvent[], { name, now = new Date() }: ICalendarOptions): string {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
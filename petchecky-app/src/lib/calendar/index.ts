@@ -0,0 +1,28 @@
+/**
+ * 통합 캘린더
+ *
+ * import 시 기본 이벤트 소스(./sources)가 등록됩니다.
+ */
+
+import './sources';
+
+export {
+  collectCalendarEvents,
+  datesInRange,
+  getCalendarSources,
+  registerCalendarSource,
+  shiftDate,
+  type CalendarData,
+  type CalendarEvent,
+  type CalendarEventSource,
+  type CalendarEventType,
+  type CalendarHealthRecord,
+  type CalendarPet,
+  type CalendarRange,
+  type CalendarReservation,
+} from './registry';
+export { buildICalendar, foldLine, type ICalendarOptions } from './ical';
+
+// 캘린더 화면/구독 피드에서 보여줄 기간
+export const CALENDAR_PAST_DAYS = 90;
+export const CALENDAR_FUTURE_DAYS = 365;
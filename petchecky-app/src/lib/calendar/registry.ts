@@ -0,0 +1,118 @@
+/**
+ * 캘린더 이벤트 소스 레지스트리
+ *
+ * 날짜가 있는 기록을 가진 기능은 registerCalendarSource로 소스를 등록하고,
+ * 캘린더 화면/.ics 내보내기/iCal 구독 피드는 collectCalendarEvents로 모든 소스의 이벤트를 모읍니다.
+ * 소스는 순수 함수여야 합니다. (저장소/네트워크 접근은 CalendarData를 만드는 쪽에서)
+ */
+
+import type { PetRecord, PetRecordKind } from '@/types/petRecords';
+import type { PetProfile } from '@/types/chat';
+
+export type CalendarEventType =
+  | 'vaccination'
+  | 'medication'
+  | 'reminder'
+  | 'health'
+  | 'walk'
+  | 'vet_visit'
+  | 'reservation'
+  | 'insurance';
+
+export interface CalendarEvent {
+  /** 소스 안에서 유일 (iCal UID로도 사용) */
+  id: string;
+  sourceId: string;
+  petId?: string;
+  petName: string;
+  type: CalendarEventType;
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:mm, 없으면 종일 일정 */
+  time?: string;
+  description?: string;
+}
+
+export type CalendarPet = Pick<PetProfile, 'id' | 'name' | 'species' | 'age' | 'birthDate' | 'lifestyle'>;
+
+// 병원 예약 (/api/reservation, 펫 ID 없이 이름만 저장됨)
+export interface CalendarReservation {
+  id: string;
+  petName: string;
+  hospitalName: string;
+  date: string;
+  time?: string;
+  status: string;
+}
+
+// 건강 체크 기록 (health-tracking 페이지, 기기에만 저장)
+export interface CalendarHealthRecord {
+  id: string;
+  petId: string;
+  date: string;
+  weight?: number;
+  notes?: string;
+}
+
+export interface CalendarData {
+  pets: CalendarPet[];
+  records: { [K in PetRecordKind]?: PetRecord<K>[] };
+  reservations?: CalendarReservation[];
+  healthRecords?: CalendarHealthRecord[];
+  /** 보호자 기준 오늘 (YYYY-MM-DD) */
+  today: string;
+}
+
+export interface CalendarRange {
+  from: string;
+  to: string;
+}
+
+export interface CalendarEventSource {
+  id: string;
+  collect: (data: CalendarData, range: CalendarRange) => Omit<CalendarEvent, 'sourceId'>[];
+}
+
+const sources = new Map<string, CalendarEventSource>();
+
+/**
+ * 이벤트 소스 등록 (같은 id면 교체)
+ */
+export function registerCalendarSource(source: CalendarEventSource): void {
+  sources.set(source.id, source);
+}
+
+export function getCalendarSources(): CalendarEventSource[] {
+  return [...sources.values()];
+}
+
+/**
+ * 기간 안의 모든 이벤트 (날짜, 시각 순 - 종일 일정 먼저)
+ */
+export function collectCalendarEvents(data: CalendarData, range: CalendarRange): CalendarEvent[] {
+  return getCalendarSources()
+    .flatMap((source) => source.collect(data, range).map((event) => ({ ...event, sourceId: source.id })))
+    .filter((event) => event.date >= range.from && event.date <= range.to)
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? ''));
+}
+
+// ============ 소스에서 쓰는 날짜 유틸 ============
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 기간 안의 날짜 목록 (양 끝 포함)
+ */
+export function datesInRange({ from, to }: CalendarRange): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = shiftDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
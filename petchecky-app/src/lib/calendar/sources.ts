@@ -0,0 +1,288 @@
+/**
+ * 기본 캘린더 이벤트 소스
+ *
+ * 접종, 투약, 진료, 산책, 보험 청구, 리마인더, 병원 예약, 건강 체크 기록을 캘린더 이벤트로 바꿉니다.
+ * 새 기능은 여기에 소스를 추가하거나 자체 모듈에서 registerCalendarSource를 호출하면 됩니다.
+ */
+
+import { getSpecies } from '../species';
+import { buildVaccineSchedule, getDoseLabel, matchVaccine } from '../vaccineSchedule';
+import { MEDICATION_SLOT_TIMES, getDailySlots, predictRefillDate } from '../medicationSchedule';
+import { occursOn } from '../reminders/schedule';
+import type { VetRecord, InsuranceClaim } from '@/types/petRecords';
+import {
+  datesInRange,
+  registerCalendarSource,
+  type CalendarData,
+  type CalendarEvent,
+  type CalendarRange,
+} from './registry';
+
+type SourceEvent = Omit<CalendarEvent, 'sourceId'>;
+
+const TIME_OF_DAY_LABELS = { morning: '아침', afternoon: '점심', evening: '저녁', night: '밤' } as const;
+
+const VISIT_TYPE_LABELS: Record<VetRecord['visitType'], string> = {
+  checkup: '정기검진',
+  vaccination: '예방접종',
+  treatment: '치료',
+  surgery: '수술',
+  emergency: '응급',
+  other: '진료',
+};
+
+const CLAIM_STATUS_LABELS: Record<InsuranceClaim['status'], string> = {
+  pending: '심사 중',
+  approved: '승인',
+  rejected: '거절',
+  paid: '지급 완료',
+};
+
+function petNameOf(data: CalendarData, petId: string): string {
+  return data.pets.find((pet) => pet.id === petId)?.name || '반려동물';
+}
+
+function clampRange(range: CalendarRange, start: string, end?: string): CalendarRange | null {
+  const from = start > range.from ? start : range.from;
+  const to = end && end < range.to ? end : range.to;
+  return from <= to ? { from, to } : null;
+}
+
+// 접종 기록 + 접종 일정(아직 맞지 않은 회차)
+registerCalendarSource({
+  id: 'vaccinations',
+  collect(data) {
+    const records = data.records.vaccinations ?? [];
+    const events: SourceEvent[] = [];
+
+    for (const record of records) {
+      const petName = petNameOf(data, record.petId);
+      events.push({
+        id: `vaccination:${record.id}`,
+        petId: record.petId,
+        petName,
+        type: 'vaccination',
+        title: record.titerResult ? `${record.name} 항체가 검사` : `${record.name} 접종`,
+        date: record.date.slice(0, 10),
+        description: record.hospital,
+      });
+
+      // 규칙이 있는 백신은 아래 일정에서 다음 접종을 계산하므로 직접 입력한 예정일은 규칙 없는 백신만
+      const pet = data.pets.find((p) => p.id === record.petId);
+      const hasRule = !!pet && !!matchVaccine(getSpecies(pet.species).vaccines, record.name);
+      if (record.nextDate && !hasRule) {
+        events.push({
+          id: `vaccination-next:${record.id}`,
+          petId: record.petId,
+          petName,
+          type: 'vaccination',
+          title: `${record.name} 접종 예정`,
+          date: record.nextDate.slice(0, 10),
+        });
+      }
+    }
+
+    for (const pet of data.pets) {
+      if (!pet.id) continue;
+      const petId = pet.id;
+      const schedule = buildVaccineSchedule({
+        species: pet.species,
+        birthDate: pet.birthDate,
+        age: pet.age,
+        lifestyle: pet.lifestyle,
+        vaccinations: records.filter((record) => record.petId === petId),
+        today: data.today,
+      });
+
+      for (const dose of schedule.entries.flatMap((entry) => entry.doses)) {
+        if (dose.status === 'completed') continue;
+        events.push({
+          id: `vaccine-schedule:${petId}:${dose.vaccineId}:${dose.kind}:${dose.doseNumber ?? ''}`,
+          petId,
+          petName: pet.name,
+          type: 'vaccination',
+          title: `${dose.name} ${getDoseLabel(dose)}`,
+          date: dose.dueDate,
+          description: dose.status === 'overdue' ? '접종 시기가 지났어요' : undefined,
+        });
+      }
+    }
+
+    return events;
+  },
+});
+
+// 투약 (날짜별 복용 일정 + 리필 예정일)
+registerCalendarSource({
+  id: 'medications',
+  collect(data, range) {
+    const events: SourceEvent[] = [];
+
+    for (const med of data.records.medications ?? []) {
+      const petName = petNameOf(data, med.petId);
+      const slots = getDailySlots(med);
+      // 복용을 마친 약은 기록이 있는 날까지만
+      const lastLog = med.logs.reduce((latest, log) => (log.date > latest ? log.date : latest), med.startDate);
+      const days = clampRange(range, med.startDate.slice(0, 10), med.isActive ? med.endDate : med.endDate ?? lastLog);
+
+      if (slots.length > 0 && days) {
+        for (const date of datesInRange(days)) {
+          const taken = med.logs.filter((log) => log.date === date && log.taken).length;
+          const times = slots.map((slot) => TIME_OF_DAY_LABELS[slot]).join('·');
+          events.push({
+            id: `medication:${med.id}:${date}`,
+            petId: med.petId,
+            petName,
+            type: 'medication',
+            title: `${med.name} ${med.dosage}`,
+            date,
+            time: MEDICATION_SLOT_TIMES[slots[0]],
+            description: date <= data.today ? `${times} · ${taken}/${slots.length}회 복용` : times,
+          });
+        }
+      }
+
+      const refillDate = predictRefillDate(med, data.today);
+      if (med.isActive && refillDate) {
+        events.push({
+          id: `medication-refill:${med.id}`,
+          petId: med.petId,
+          petName,
+          type: 'medication',
+          title: `${med.name} 리필`,
+          date: refillDate,
+        });
+      }
+    }
+
+    return events;
+  },
+});
+
+// 진료 기록 + 재진 예정일
+registerCalendarSource({
+  id: 'vet-records',
+  collect(data) {
+    return (data.records['vet-records'] ?? []).flatMap((record) => {
+      const petName = petNameOf(data, record.petId);
+      const events: SourceEvent[] = [
+        {
+          id: `vet:${record.id}`,
+          petId: record.petId,
+          petName,
+          type: 'vet_visit',
+          title: `${record.hospitalName} ${VISIT_TYPE_LABELS[record.visitType]}`,
+          date: record.date.slice(0, 10),
+          description: record.diagnosis,
+        },
+      ];
+      if (record.nextVisitDate) {
+        events.push({
+          id: `vet-next:${record.id}`,
+          petId: record.petId,
+          petName,
+          type: 'vet_visit',
+          title: `${record.hospitalName} 재진`,
+          date: record.nextVisitDate.slice(0, 10),
+        });
+      }
+      return events;
+    });
+  },
+});
+
+// 산책
+registerCalendarSource({
+  id: 'walks',
+  collect(data) {
+    return (data.records.walks ?? []).map((walk) => ({
+      id: `walk:${walk.id}`,
+      petId: walk.petId,
+      petName: petNameOf(data, walk.petId),
+      type: 'walk',
+      title: walk.distance ? `산책 ${walk.duration}분 · ${walk.distance}km` : `산책 ${walk.duration}분`,
+      date: walk.date.slice(0, 10),
+      time: walk.startTime || undefined,
+      description: walk.location,
+    }));
+  },
+});
+
+// 보험 청구
+registerCalendarSource({
+  id: 'insurance-claims',
+  collect(data) {
+    return (data.records['insurance-claims'] ?? []).map((claim) => ({
+      id: `insurance:${claim.id}`,
+      petId: claim.petId,
+      petName: petNameOf(data, claim.petId),
+      type: 'insurance',
+      title: `보험 청구 · ${claim.hospitalName}`,
+      date: claim.date.slice(0, 10),
+      description: `${claim.claimedAmount.toLocaleString('ko-KR')}원 ${CLAIM_STATUS_LABELS[claim.status]}`,
+    }));
+  },
+});
+
+// 리마인더 (반복 리마인더는 기간 안의 발생일마다)
+registerCalendarSource({
+  id: 'reminders',
+  collect(data, range) {
+    const events: SourceEvent[] = [];
+    for (const reminder of data.records.reminders ?? []) {
+      if (!reminder.enabled) continue;
+      const days = clampRange(range, reminder.date.slice(0, 10));
+      if (!days) continue;
+
+      for (const date of datesInRange(days)) {
+        if (!occursOn(reminder, date)) continue;
+        events.push({
+          id: `reminder:${reminder.id}:${date}`,
+          petId: reminder.petId,
+          petName: reminder.petName || petNameOf(data, reminder.petId),
+          type: reminder.type === 'vet_visit' ? 'vet_visit' : 'reminder',
+          title: reminder.title,
+          date,
+          time: reminder.time,
+          description: reminder.description,
+        });
+      }
+    }
+    return events;
+  },
+});
+
+// 병원 예약 (펫 이름으로 연결)
+registerCalendarSource({
+  id: 'reservations',
+  collect(data) {
+    return (data.reservations ?? [])
+      .filter((reservation) => reservation.status !== 'cancelled')
+      .map((reservation) => ({
+        id: `reservation:${reservation.id}`,
+        petId: data.pets.find((pet) => pet.name === reservation.petName)?.id,
+        petName: reservation.petName,
+        type: 'reservation',
+        title: `${reservation.hospitalName} 예약`,
+        date: reservation.date.slice(0, 10),
+        time: reservation.time,
+        description: reservation.status === 'confirmed' ? '예약 확정' : '예약 요청',
+      }));
+  },
+});
+
+// 건강 체크 기록
+registerCalendarSource({
+  id: 'health',
+  collect(data) {
+    return (data.healthRecords ?? []).map((record) => ({
+      id: `health:${record.id}`,
+      petId: record.petId,
+      petName: petNameOf(data, record.petId),
+      type: 'health',
+      title: record.weight ? `체중 ${record.weight}kg` : '건강 체크',
+      date: record.date.slice(0, 10),
+      description: record.notes,
+    }));
+  },
+});
@@ -0,0 +1,209 @@
+/**
+ * iCal 구독 피드 (서버 전용)
+ *
+ * 사용자마다 추측할 수 없는 토큰을 하나 발급하고, /api/calendar/feed/[token] 에서
+ * 그 사용자의 펫 기록/병원 예약을 모아 .ics로 내보냅니다. (건강 체크 기록은 기기에만 있어 포함되지 않음)
+ * 토큰을 재발급하면 이전 구독 주소는 바로 동작하지 않습니다.
+ *
+ * /api/calendar/feed (보호자)와 /api/calendar/feed/[token] (캘린더 앱, 비로그인) 라우트에서 사용합니다.
+ */
+
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from './auth';
+import { getErrorMessage } from './errors';
+import { scanPetRecords } from './petRecords';
+import { DEFAULT_TIMEZONE, isValidTimeZone, toLocalDateTime } from './reminders/schedule';
+import { PET_RECORD_KINDS, type PetRecordKind } from '@/types/petRecords';
+import {
+  buildICalendar,
+  collectCalendarEvents,
+  shiftDate,
+  CALENDAR_FUTURE_DAYS,
+  CALENDAR_PAST_DAYS,
+  type CalendarData,
+  type CalendarReservation,
+} from './calendar';
+import type { PetSpecies, VaccineLifestyle } from './species';
+
+// 캘린더에 필요 없는 기록
+const EXCLUDED_KINDS: PetRecordKind[] = ['diet-logs'];
+
+interface PetRow {
+  id: string;
+  name: string;
+  species: PetSpecies;
+  age: number;
+  birth_date: string | null;
+  lifestyle: VaccineLifestyle | null;
+}
+
+/**
+ * 추측할 수 없는 피드 토큰 (128비트, 16진수 32자 - lib/petTags.ts와 같은 형식)
+ */
+export function generateFeedToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * 구독 주소 토큰 형식 (캘린더 앱 호환을 위해 끝에 .ics가 붙어 있어도 허용)
+ */
+export function parseFeedToken(value: string): string | null {
+  const token = value.replace(/\.ics$/, '');
+  return /^[a-f0-9]{32}$/.test(token) ? token : null;
+}
+
+/**
+ * 사용자의 피드 토큰 (없으면 발급)
+ */
+export async function getOrCreateFeedToken(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Calendar feed fetch error:', error.message);
+    return null;
+  }
+  if (data?.token) return data.token as string;
+
+  return rotateFeedToken(userId);
+}
+
+/**
+ * 피드 토큰 재발급 (이전 구독 주소는 폐기)
+ */
+export async function rotateFeedToken(userId: string): Promise<string | null> {
+  const token = generateFeedToken();
+  const { error } = await supabaseAdmin
+    .from('calendar_feeds')
+    .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Calendar feed rotate error:', error.message);
+    return null;
+  }
+  return token;
+}
+
+/**
+ * 토큰 주인 (없는 토큰이면 null)
+ */
+export async function findFeedOwner(token: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('calendar_feeds')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`calendar_feeds fetch failed: ${error.message}`);
+  }
+  if (!data) return null;
+
+  // 마지막 조회 시각은 실패해도 피드 응답에 영향 없음
+  const { error: touchError } = await supabaseAdmin
+    .from('calendar_feeds')
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq('token', token);
+  if (touchError) {
+    console.error('Calendar feed touch error:', touchError.message);
+  }
+
+  return data.user_id as string;
+}
+
+async function loadUserTimeZone(userId: string): Promise<string> {
+  const { data } = await supabaseAdmin
+    .from('notification_settings')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const timezone = data?.timezone as string | undefined;
+  return timezone && isValidTimeZone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+async function loadReservations(userId: string): Promise<CalendarReservation[]> {
+  const { data, error } = await supabaseAdmin
+    .from('reservations')
+    .select('id, pet_name, hospital_name, preferred_date, preferred_time, status')
+    .eq('user_id', userId);
+
+  if (error) {
+    // 예약 테이블이 없는 환경 (api/reservation 참고)
+    if (error.code === '42P01') return [];
+    throw new Error(`reservations fetch failed: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: String(row.id),
+    petName: row.pet_name as string,
+    hospitalName: row.hospital_name as string,
+    date: row.preferred_date as string,
+    time: (row.preferred_time as string | null) || undefined,
+    status: row.status as string,
+  }));
+}
+
+/**
+ * 사용자의 캘린더 데이터
+ */
+export async function loadCalendarData(userId: string, now: Date = new Date()): Promise<CalendarData> {
+  const { data: pets, error } = await supabaseAdmin
+    .from('pets')
+    .select('id, name, species, age, birth_date, lifestyle')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`pets fetch failed: ${error.message}`);
+  }
+
+  const kinds = PET_RECORD_KINDS.filter((kind) => !EXCLUDED_KINDS.includes(kind));
+  const [timezone, reservations, ...recordLists] = await Promise.all([
+    loadUserTimeZone(userId),
+    loadReservations(userId),
+    ...kinds.map((kind) => scanPetRecords(kind, { match: { user_id: userId } })),
+  ]);
+
+  const records: CalendarData['records'] = {};
+  kinds.forEach((kind, index) => {
+    const list = recordLists[index];
+    if (!list) {
+      throw new Error(`${kind} fetch failed`);
+    }
+    Object.assign(records, { [kind]: list });
+  });
+
+  return {
+    pets: ((pets || []) as PetRow[]).map((pet) => ({
+      id: pet.id,
+      name: pet.name,
+      species: pet.species,
+      age: pet.age,
+      birthDate: pet.birth_date ?? undefined,
+      lifestyle: pet.lifestyle ?? undefined,
+    })),
+    records,
+    reservations,
+    today: toLocalDateTime(now, timezone).date,
+  };
+}
+
+/**
+ * 구독 피드 .ics (지난 CALENDAR_PAST_DAYS일 ~ 앞으로 CALENDAR_FUTURE_DAYS일)
+ */
+export async function buildFeedCalendar(userId: string, now: Date = new Date()): Promise<string | null> {
+  try {
+    const data = await loadCalendarData(userId, now);
+    const events = collectCalendarEvents(data, {
+      from: shiftDate(data.today, -CALENDAR_PAST_DAYS),
+      to: shiftDate(data.today, CALENDAR_FUTURE_DAYS),
+    });
+    return buildICalendar(events, { name: '펫체키 캘린더', now });
+  } catch (error) {
+    console.error('Calendar feed build error:', getErrorMessage(error));
+    return null;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * 커뮤니티 댓글 트리 (서버 전용)
+ *
+ * 댓글에는 답글을 MAX_COMMENT_DEPTH 단계까지 달 수 있고, 그보다 깊은 답글은 마지막 단계에
+ * 상대를 @멘션해서 붙입니다. 목록은 답글 일부만 미리 보여주고 나머지는 "답글 더 보기"로 불러옵니다.
+ * 답글이 달린 댓글을 지우면 "삭제된 댓글" 자리만 남기고, 마지막 답글이 지워질 때 함께 정리합니다.
+ *
+ * 답글/멘션 알림은 sendPushToUser로 보냅니다 (본인 제외, 차단한 사이 제외, 검토 대기 댓글은 보내지 않음).
+ * 관리자가 숨겼거나 검토 중인 댓글(moderation_status)도 삭제된 댓글처럼 내용을 가립니다.
+ * /api/community/posts/[id]/comments 라우트에서 사용합니다.
+ */
+
+import { supabaseAdmin } from './auth';
+import { isBlockedBetween } from './directMessages';
+import { getErrorMessage } from './errors';
+import {
+  buildCommentMentionNotification,
+  buildCommentReplyNotification,
+} from './notificationMessages';
+import { sendPushToUser } from './pushSubscriptions';
+import { anonymizeEmail } from './sanitize';
+import type { CommunityComment, CommunityCommentNode } from './supabase/community';
+import type { ReplyQuery } from './validations/comments';
+
+// 0: 댓글, 1: 답글, 2: 답글의 답글
+export const MAX_COMMENT_DEPTH = 2;
+// 목록에서 댓글마다 미리 보여주는 답글 수
+export const REPLY_PREVIEW_COUNT = 3;
+// 게시글 하나에서 한 번에 불러오는 최대 댓글 수
+const TREE_FETCH_LIMIT = 500;
+// 댓글 하나에서 알림을 보내는 최대 멘션 수
+const MAX_MENTIONS = 5;
+
+const COMMENT_COLUMNS = 'id, post_id, user_id, content, author_name, parent_id, depth, reply_count, deleted_at, moderation_status, created_at, updated_at';
+
+type CommentRow = CommunityComment & { depth: number; reply_count: number };
+
+// 인증된 사용자 (lib/auth.ts authenticateRequest)
+export interface CommentUser {
+  id: string;
+  email?: string;
+}
+
+export interface CommentParticipant {
+  user_id: string;
+  author_name: string;
+}
+
+// 답글 대상이 없거나(다른 글의 댓글 포함), 삭제됐거나, 공개 상태가 아님
+export type CreateCommentError = 'parent_not_found' | 'parent_deleted' | 'parent_hidden';
+
+export type CreateCommentResult =
+  | { comment: CommunityCommentNode }
+  | { error: CreateCommentError };
+
+export type DeleteCommentResult = 'deleted' | 'soft_deleted' | 'not_found' | 'forbidden';
+
+/**
+ * 목록에 내려줄 노드 (삭제/숨김 댓글은 내용과 작성자를 가림)
+ * @param showOwn 방금 작성한 본인 댓글처럼 검토 중이어도 그대로 보여줄 때
+ */
+export function toCommentNode(row: CommentRow, showOwn = false): CommunityCommentNode {
+  const isDeleted = Boolean(row.deleted_at);
+  const isHidden = !isDeleted && !showOwn && (row.moderation_status ?? 'visible') !== 'visible';
+  const masked = isDeleted || isHidden;
+  return {
+    ...row,
+    parent_id: row.parent_id ?? undefined,
+    user_id: masked ? '' : row.user_id,
+    author_name: masked ? '' : row.author_name,
+    content: masked ? '' : row.content,
+    is_deleted: isDeleted,
+    is_hidden: isHidden,
+    replies: [],
+    has_more_replies: false,
+  };
+}
+
+/**
+ * 작성순 댓글 목록을 트리로 묶기
+ * - rootParentId 바로 아래 댓글이 최상위 (null이면 게시글의 댓글)
+ * - 답글이 하나도 남지 않은 삭제/숨김 댓글은 뺌
+ * - 각 댓글의 답글은 replyPreview개까지만 넣고 has_more_replies로 표시
+ */
+export function buildCommentTree(
+  rows: CommentRow[],
+  { rootParentId = null, replyPreview = REPLY_PREVIEW_COUNT }: { rootParentId?: string | null; replyPreview?: number } = {}
+): CommunityCommentNode[] {
+  const childrenOf = new Map<string | null, CommentRow[]>();
+  for (const row of rows) {
+    const key = row.parent_id ?? null;
+    childrenOf.set(key, [...(childrenOf.get(key) ?? []), row]);
+  }
+
+  const build = (parentId: string | null): CommunityCommentNode[] =>
+    (childrenOf.get(parentId) ?? [])
+      .map((row) => {
+        const node = toCommentNode(row);
+        const replies = build(row.id);
+        node.reply_count = replies.length;
+        node.replies = replies.slice(0, replyPreview);
+        node.has_more_replies = replies.length > node.replies.length;
+        return node;
+      })
+      .filter((node) => !(node.is_deleted || node.is_hidden) || node.reply_count > 0);
+
+  return build(rootParentId);
+}
+
+/**
+ * 답글을 붙일 위치
+ * 최대 단계의 댓글에 답하면 같은 단계(부모의 부모 아래)에 붙이고 원래 작성자를 멘션합니다.
+ */
+export function resolveReplyParent(
+  parent: Pick<CommentRow, 'id' | 'parent_id' | 'depth' | 'author_name'>
+): { parentId: string; depth: number; mention?: string } {
+  if (parent.depth < MAX_COMMENT_DEPTH || !parent.parent_id) {
+    return { parentId: parent.id, depth: Math.min(parent.depth + 1, MAX_COMMENT_DEPTH) };
+  }
+  return { parentId: parent.parent_id, depth: MAX_COMMENT_DEPTH, mention: parent.author_name };
+}
+
+/**
+ * 내용에서 @이름으로 언급된 참여자
+ * 작성자명은 익명 표기라 겹칠 수 있으므로, 한 사람으로 특정되는 이름만 인정합니다.
+ */
+export function findMentionedUsers(content: string, participants: CommentParticipant[]): string[] {
+  const usersByName = new Map<string, Set<string>>();
+  for (const { user_id, author_name } of participants) {
+    if (!author_name) continue;
+    usersByName.set(author_name, (usersByName.get(author_name) ?? new Set()).add(user_id));
+  }
+
+  const mentioned: string[] = [];
+  for (const [name, userIds] of usersByName) {
+    if (userIds.size !== 1 || !isMentioned(content, name)) continue;
+    mentioned.push([...userIds][0]);
+  }
+  return mentioned.slice(0, MAX_MENTIONS);
+}
+
+// "@abc***님" 처럼 이름 뒤에 조사가 붙어도 인정, 이름 앞은 줄 처음이나 공백
+function isMentioned(content: string, name: string): boolean {
+  let index = content.indexOf(`@${name}`);
+  while (index >= 0) {
+    if (index === 0 || /\s/.test(content[index - 1])) return true;
+    index = content.indexOf(`@${name}`, index + 1);
+  }
+  return false;
+}
+
+async function getCommentRow(commentId: string): Promise<CommentRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('community_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('id', commentId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`community_comments fetch failed: ${error.message}`);
+  }
+  return (data as CommentRow | null) ?? null;
+}
+
+// ============ 조회 ============
+
+/**
+ * 게시글 댓글 트리
+ */
+export async function listCommentTree(postId: string): Promise<{ comments: CommunityCommentNode[]; total: number }> {
+  const { data, error } = await supabaseAdmin
+    .from('community_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true })
+    .limit(TREE_FETCH_LIMIT);
+
+  if (error) {
+    throw new Error(`community_comments fetch failed: ${error.message}`);
+  }
+
+  const rows = (data || []) as CommentRow[];
+  return {
+    comments: buildCommentTree(rows),
+    total: rows.filter((row) => !row.deleted_at && (row.moderation_status ?? 'visible') === 'visible').length,
+  };
+}
+
+/**
+ * 답글 더 보기 (after 이후에 달린 답글을 limit개씩, 각 답글의 답글 미리보기 포함)
+ */
+export async function listReplies(
+  postId: string,
+  { parentId, after, limit }: ReplyQuery
+): Promise<{ replies: CommunityCommentNode[]; has_more: boolean }> {
+  let query = supabaseAdmin
+    .from('community_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('post_id', postId)
+    .eq('parent_id', parentId)
+    .order('created_at', { ascending: true })
+    .limit(limit + 1);
+
+  if (after) {
+    query = query.gt('created_at', after);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`community_comments fetch failed: ${error.message}`);
+  }
+
+  const rows = ((data || []) as CommentRow[]).slice(0, limit);
+  const hasMore = (data || []).length > limit;
+  if (rows.length === 0) return { replies: [], has_more: false };
+
+  // 불러온 답글 아래 단계 (MAX_COMMENT_DEPTH가 2라 한 단계면 충분)
+  const { data: nested, error: nestedError } = await supabaseAdmin
+    .from('community_comments')
+    .select(COMMENT_COLUMNS)
+    .in('parent_id', rows.map((row) => row.id))
+    .order('created_at', { ascending: true });
+
+  if (nestedError) {
+    throw new Error(`community_comments fetch failed: ${nestedError.message}`);
+  }
+
+  return {
+    replies: buildCommentTree([...rows, ...((nested || []) as CommentRow[])], { rootParentId: parentId }),
+    has_more: hasMore,
+  };
+}
+
+// ============ 작성/삭제 ============
+
+/**
+ * 댓글/답글 작성 후 답글 대상과 멘션된 사용자에게 알림
+ * @param moderation 자동 검사에 걸린 경우 검토 대기로 저장 (알림은 보내지 않음)
+ */
+export async function createThreadComment(
+  user: CommentUser,
+  post: { id: string; user_id: string; author_name: string },
+  { content, parentId, moderation }: {
+    content: string;
+    parentId?: string | null;
+    moderation?: { status: 'pending'; reason?: string };
+  }
+): Promise<CreateCommentResult> {
+  let parent: CommentRow | null = null;
+  let placement: ReturnType<typeof resolveReplyParent> | null = null;
+
+  if (parentId) {
+    parent = await getCommentRow(parentId);
+    if (!parent || parent.post_id !== post.id) return { error: 'parent_not_found' };
+    if (parent.deleted_at) return { error: 'parent_deleted' };
+    if ((parent.moderation_status ?? 'visible') !== 'visible') return { error: 'parent_hidden' };
+    placement = resolveReplyParent(parent);
+  }
+
+  // 단계를 맞추느라 다른 댓글 아래로 옮긴 답글은 원래 상대를 멘션으로 남김
+  const body = placement?.mention && !isMentioned(content, placement.mention)
+    ? `@${placement.mention} ${content}`
+    : content;
+  const authorName = anonymizeEmail(user.email || '');
+
+  const { data, error } = await supabaseAdmin
+    .from('community_comments')
+    .insert({
+      post_id: post.id,
+      user_id: user.id,
+      author_name: authorName,
+      content: body,
+      parent_id: placement?.parentId ?? null,
+      depth: placement?.depth ?? 0,
+      ...(moderation && { moderation_status: moderation.status, moderation_reason: moderation.reason ?? null }),
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`community_comments insert failed: ${error.message}`);
+  }
+
+  if (!moderation) {
+    await notifyCommentRecipients(user.id, authorName, body, post, parent);
+  }
+  return { comment: toCommentNode(data as CommentRow, true) };
+}
+
+async function notifyCommentRecipients(
+  authorId: string,
+  authorName: string,
+  content: string,
+  post: { id: string; user_id: string; author_name: string },
+  parent: CommentRow | null
+): Promise<void> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('community_comments')
+      .select('user_id, author_name')
+      .eq('post_id', post.id)
+      .is('deleted_at', null)
+      .eq('moderation_status', 'visible')
+      .limit(TREE_FETCH_LIMIT);
+
+    if (error) {
+      throw new Error(`community_comments fetch failed: ${error.message}`);
+    }
+
+    const participants: CommentParticipant[] = [
+      { user_id: post.user_id, author_name: post.author_name },
+      ...((data || []) as CommentParticipant[]),
+    ];
+
+    const notifications = new Map<string, ReturnType<typeof buildCommentReplyNotification>>();
+    if (parent) {
+      notifications.set(parent.user_id, buildCommentReplyNotification(authorName, content, post.id));
+    }
+    for (const userId of findMentionedUsers(content, participants)) {
+      if (!notifications.has(userId)) {
+        notifications.set(userId, buildCommentMentionNotification(authorName, content, post.id));
+      }
+    }
+    notifications.delete(authorId);
+
+    for (const [userId, message] of notifications) {
+      if (await isBlockedBetween(authorId, userId)) continue;
+      await sendPushToUser(userId, message);
+    }
+  } catch (error) {
+    console.error('Comment notification error:', getErrorMessage(error));
+  }
+}
+
+/**
+ * 본인 댓글 삭제
+ * 답글이 있으면 "삭제된 댓글" 자리만 남기고, 없으면 지운 뒤 자리만 남아 있던 상위 댓글도 정리합니다.
+ */
+export async function deleteThreadComment(userId: string, postId: string, commentId: string): Promise<DeleteCommentResult> {
+  const row = await getCommentRow(commentId);
+  if (!row || row.post_id !== postId || row.deleted_at) return 'not_found';
+  if (row.user_id !== userId) return 'forbidden';
+
+  if (row.reply_count > 0) {
+    const { error } = await supabaseAdmin
+      .from('community_comments')
+      .update({ deleted_at: new Date().toISOString(), content: '' })
+      .eq('id', commentId);
+
+    if (error) {
+      throw new Error(`community_comments update failed: ${error.message}`);
+    }
+    return 'soft_deleted';
+  }
+
+  let current: CommentRow | null = row;
+  while (current) {
+    const { error } = await supabaseAdmin.from('community_comments').delete().eq('id', current.id);
+    if (error) {
+      throw new Error(`community_comments delete failed: ${error.message}`);
+    }
+
+    // 트리거가 reply_count를 줄인 뒤의 상위 댓글
+    const parent: CommentRow | null = current.parent_id ? await getCommentRow(current.parent_id) : null;
+    current = parent?.deleted_at && parent.reply_count === 0 ? parent : null;
+  }
+  return 'deleted';
+}
@@ -0,0 +1,456 @@
+/**
+ * 커뮤니티 신고/검토/이용 제한 저장소 (서버 전용)
+ *
+ * 게시글/댓글은 moderation_status로 공개 여부를 관리합니다.
+ * - 자동 검사(contentScreening)에 걸리거나 신고가 REPORT_HOLD_THRESHOLD건 쌓이면 pending
+ * - 관리자가 숨기면 hidden, 복구하면 visible (처리되지 않은 신고도 함께 종료)
+ * 이용 제한(community_bans)된 사용자는 글/댓글/신고를 할 수 없습니다.
+ *
+ * 글 작성은 검사 결과를 저장할 수 있도록 서비스 롤로 처리합니다 (직접 작성하면 검토 대기).
+ *
+ * /api/community/posts, /api/community/posts/[id]/report, /api/admin/moderation 라우트에서 사용합니다.
+ * 관리 작업 기록은 라우트에서 securityLogger(admin_action)로 남깁니다.
+ */
+
+import { supabaseAdmin } from './auth';
+import type { CommunityPost, ModerationStatus } from './supabase/community';
+import type {
+  ModerationActionInput,
+  ModerationTargetType,
+  ReportContentInput,
+  ReportReason,
+} from './validations/moderation';
+import type { CommunityBan, ModerationItem } from '@/types/moderation';
+
+// 처리되지 않은 신고가 이만큼 쌓이면 검토 대기로 돌림
+export const REPORT_HOLD_THRESHOLD = 3;
+// 검토 목록 최대 개수 (게시글/댓글 각각)
+const QUEUE_LIMIT = 100;
+const OPEN_REPORT_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TARGET_TABLES: Record<ModerationTargetType, string> = {
+  post: 'community_posts',
+  comment: 'community_comments',
+};
+
+const TARGET_COLUMNS: Record<ModerationTargetType, string> = {
+  post: 'id, user_id, title, content, author_name, moderation_status, moderation_reason, created_at',
+  comment: 'id, post_id, user_id, content, author_name, moderation_status, moderation_reason, created_at',
+};
+
+const REPORT_COLUMNS = 'target_type, target_id, post_id, reason, details, created_at';
+
+interface TargetRow {
+  id: string;
+  post_id?: string;
+  user_id: string;
+  title?: string;
+  content: string;
+  author_name: string;
+  moderation_status: ModerationStatus;
+  moderation_reason: string | null;
+  created_at: string;
+}
+
+interface ReportRow {
+  target_type: ModerationTargetType;
+  target_id: string;
+  post_id: string;
+  reason: ReportReason;
+  details: string | null;
+  created_at: string;
+}
+
+interface BanRow {
+  user_id: string;
+  reason: string;
+  banned_by: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export type NewCommunityPost = Omit<
+  CommunityPost,
+  'id' | 'likes_count' | 'comments_count' | 'views_count' | 'created_at' | 'updated_at'
+>;
+
+export type ReportContentResult = { held: boolean } | { error: 'not_found' | 'own_content' | 'duplicate' };
+
+function targetKey(targetType: ModerationTargetType, targetId: string): string {
+  return `${targetType}:${targetId}`;
+}
+
+/**
+ * 신고를 대상별로 묶기
+ */
+export function groupReports(rows: ReportRow[]): Map<string, ReportRow[]> {
+  const groups = new Map<string, ReportRow[]>();
+  for (const row of rows) {
+    const key = targetKey(row.target_type, row.target_id);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return groups;
+}
+
+export function toModerationItem(targetType: ModerationTargetType, row: TargetRow, reports: ReportRow[] = []): ModerationItem {
+  return {
+    targetType,
+    targetId: row.id,
+    postId: targetType === 'post' ? row.id : row.post_id ?? '',
+    title: row.title ?? null,
+    content: row.content,
+    authorId: row.user_id,
+    authorName: row.author_name,
+    status: row.moderation_status,
+    reason: row.moderation_reason,
+    createdAt: row.created_at,
+    reports: reports.map((report) => ({
+      reason: report.reason,
+      details: report.details,
+      createdAt: report.created_at,
+    })),
+  };
+}
+
+/**
+ * 검토 순서: 신고가 많은 것 먼저, 같으면 최신순
+ */
+export function sortModerationItems(items: ModerationItem[]): ModerationItem[] {
+  return [...items].sort(
+    (a, b) => b.reports.length - a.reports.length || b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+export function toCommunityBan(row: BanRow): CommunityBan {
+  return {
+    userId: row.user_id,
+    reason: row.reason,
+    bannedBy: row.banned_by,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function isBanActive(ban: Pick<CommunityBan, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !ban.expiresAt || new Date(ban.expiresAt) > now;
+}
+
+async function getTarget(targetType: ModerationTargetType, targetId: string): Promise<TargetRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TARGET_TABLES[targetType])
+    .select(TARGET_COLUMNS[targetType])
+    .eq('id', targetId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`${TARGET_TABLES[targetType]} fetch failed: ${error.message}`);
+  }
+  return (data as TargetRow | null) ?? null;
+}
+
+async function setTargetStatus(
+  targetType: ModerationTargetType,
+  targetId: string,
+  status: ModerationStatus,
+  reason: string | null
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TARGET_TABLES[targetType])
+    .update({ moderation_status: status, moderation_reason: reason })
+    .eq('id', targetId);
+
+  if (error) {
+    throw new Error(`${TARGET_TABLES[targetType]} update failed: ${error.message}`);
+  }
+}
+
+async function closeReports(
+  targetType: ModerationTargetType,
+  targetId: string,
+  status: 'resolved' | 'dismissed',
+  adminId: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('content_reports')
+    .update({ status, resolved_by: adminId, resolved_at: new Date().toISOString() })
+    .eq('target_type', targetType)
+    .eq('target_id', targetId)
+    .eq('status', 'open');
+
+  if (error) {
+    throw new Error(`content_reports update failed: ${error.message}`);
+  }
+}
+
+/**
+ * 수정된 글이 자동 검사에 걸리면 검토 대기로 돌림 (이미 숨김/대기 중이면 그대로)
+ */
+export async function holdContent(targetType: ModerationTargetType, targetId: string, reason: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TARGET_TABLES[targetType])
+    .update({ moderation_status: 'pending', moderation_reason: reason })
+    .eq('id', targetId)
+    .eq('moderation_status', 'visible');
+
+  if (error) {
+    throw new Error(`${TARGET_TABLES[targetType]} update failed: ${error.message}`);
+  }
+}
+
+/**
+ * 자동 검사를 거친 게시글 저장 (검사 결과는 moderation_status/moderation_reason으로 전달)
+ */
+export async function createScreenedPost(post: NewCommunityPost): Promise<CommunityPost> {
+  const { data, error } = await supabaseAdmin
+    .from('community_posts')
+    .insert(post)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`community_posts insert failed: ${error.message}`);
+  }
+  return data as CommunityPost;
+}
+
+// ============ 이용 제한 ============
+
+/**
+ * 현재 적용 중인 이용 제한 (만료됐으면 null)
+ */
+export async function getActiveBan(userId: string): Promise<CommunityBan | null> {
+  const { data, error } = await supabaseAdmin
+    .from('community_bans')
+    .select('user_id, reason, banned_by, expires_at, created_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`community_bans fetch failed: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const ban = toCommunityBan(data as BanRow);
+  return isBanActive(ban) ? ban : null;
+}
+
+export async function isCommunityBanned(userId: string): Promise<boolean> {
+  return (await getActiveBan(userId)) !== null;
+}
+
+export async function listCommunityBans(): Promise<CommunityBan[]> {
+  const { data, error } = await supabaseAdmin
+    .from('community_bans')
+    .select('user_id, reason, banned_by, expires_at, created_at')
+    .order('created_at', { ascending: false })
+    .limit(QUEUE_LIMIT);
+
+  if (error) {
+    throw new Error(`community_bans fetch failed: ${error.message}`);
+  }
+  return ((data || []) as BanRow[]).map(toCommunityBan).filter((ban) => isBanActive(ban));
+}
+
+// ============ 신고 ============
+
+/**
+ * 게시글/댓글 신고 (commentId가 없으면 게시글)
+ * 처리되지 않은 신고가 쌓이면 관리자가 볼 때까지 검토 대기로 돌립니다.
+ */
+export async function reportContent(
+  reporterId: string,
+  postId: string,
+  { commentId, reason, details }: ReportContentInput
+): Promise<ReportContentResult> {
+  const targetType: ModerationTargetType = commentId ? 'comment' : 'post';
+  const targetId = commentId ?? postId;
+  const target = await getTarget(targetType, targetId);
+
+  if (!target || target.moderation_status === 'hidden' || (commentId && target.post_id !== postId)) {
+    return { error: 'not_found' };
+  }
+  if (target.user_id === reporterId) {
+    return { error: 'own_content' };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('content_reports')
+    .insert({
+      target_type: targetType,
+      target_id: targetId,
+      post_id: postId,
+      reporter_id: reporterId,
+      reason,
+      details: details || null,
+    });
+
+  if (error) {
+    // UNIQUE(target_type, target_id, reporter_id)
+    if (error.code === '23505') return { error: 'duplicate' };
+    throw new Error(`content_reports insert failed: ${error.message}`);
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from('content_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('target_type', targetType)
+    .eq('target_id', targetId)
+    .eq('status', 'open');
+
+  if (countError) {
+    throw new Error(`content_reports fetch failed: ${countError.message}`);
+  }
+
+  const openReports = count ?? 0;
+  if (openReports >= REPORT_HOLD_THRESHOLD && target.moderation_status === 'visible') {
+    await setTargetStatus(targetType, targetId, 'pending', `신고 누적 ${openReports}건`);
+    return { held: true };
+  }
+  return { held: false };
+}
+
+// ============ 관리자 ============
+
+async function listTargetsByStatus(targetType: ModerationTargetType, status: ModerationStatus): Promise<TargetRow[]> {
+  const { data, error } = await supabaseAdmin
+    .from(TARGET_TABLES[targetType])
+    .select(TARGET_COLUMNS[targetType])
+    .eq('moderation_status', status)
+    .order('created_at', { ascending: false })
+    .limit(QUEUE_LIMIT);
+
+  if (error) {
+    throw new Error(`${TARGET_TABLES[targetType]} fetch failed: ${error.message}`);
+  }
+  return (data || []) as unknown as TargetRow[];
+}
+
+async function listTargetsByIds(targetType: ModerationTargetType, ids: string[]): Promise<TargetRow[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from(TARGET_TABLES[targetType])
+    .select(TARGET_COLUMNS[targetType])
+    .in('id', ids)
+    .eq('moderation_status', 'visible');
+
+  if (error) {
+    throw new Error(`${TARGET_TABLES[targetType]} fetch failed: ${error.message}`);
+  }
+  return (data || []) as unknown as TargetRow[];
+}
+
+/**
+ * 검토 목록
+ * - queue: 검토 대기 글 + 아직 공개 중이지만 신고가 들어온 글
+ * - hidden: 숨긴 글 (복구용)
+ */
+export async function listModerationItems(view: 'queue' | 'hidden'): Promise<ModerationItem[]> {
+  const status: ModerationStatus = view === 'queue' ? 'pending' : 'hidden';
+
+  const [posts, comments, reports] = await Promise.all([
+    listTargetsByStatus('post', status),
+    listTargetsByStatus('comment', status),
+    supabaseAdmin
+      .from('content_reports')
+      .select(REPORT_COLUMNS)
+      .eq('status', 'open')
+      .order('created_at', { ascending: false })
+      .limit(OPEN_REPORT_LIMIT),
+  ]);
+
+  if (reports.error) {
+    throw new Error(`content_reports fetch failed: ${reports.error.message}`);
+  }
+
+  const reportsByTarget = groupReports((reports.data || []) as ReportRow[]);
+  const items = [
+    ...posts.map((row) => toModerationItem('post', row, reportsByTarget.get(targetKey('post', row.id)))),
+    ...comments.map((row) => toModerationItem('comment', row, reportsByTarget.get(targetKey('comment', row.id)))),
+  ];
+
+  if (view === 'queue') {
+    const listed = new Set(items.map((item) => targetKey(item.targetType, item.targetId)));
+    const reportedIds = (targetType: ModerationTargetType) =>
+      [...reportsByTarget.values()]
+        .map((group) => group[0])
+        .filter((report) => report.target_type === targetType && !listed.has(targetKey(targetType, report.target_id)))
+        .map((report) => report.target_id);
+
+    const [reportedPosts, reportedComments] = await Promise.all([
+      listTargetsByIds('post', reportedIds('post')),
+      listTargetsByIds('comment', reportedIds('comment')),
+    ]);
+    items.push(
+      ...reportedPosts.map((row) => toModerationItem('post', row, reportsByTarget.get(targetKey('post', row.id)))),
+      ...reportedComments.map((row) => toModerationItem('comment', row, reportsByTarget.get(targetKey('comment', row.id))))
+    );
+  }
+
+  return sortModerationItems(items);
+}
+
+/**
+ * 관리 작업 실행
+ * @returns 작업 대상 사용자 ID (감사 기록용), 대상이 없으면 null
+ */
+export async function applyModerationAction(
+  adminId: string,
+  input: ModerationActionInput
+): Promise<{ userId: string } | null> {
+  switch (input.action) {
+    case 'hide':
+    case 'restore':
+    case 'dismiss': {
+      const target = await getTarget(input.targetType, input.targetId);
+      if (!target) return null;
+
+      if (input.action === 'hide') {
+        await setTargetStatus(input.targetType, input.targetId, 'hidden', input.reason);
+        await closeReports(input.targetType, input.targetId, 'resolved', adminId);
+      } else {
+        if (input.action === 'restore') {
+          await setTargetStatus(input.targetType, input.targetId, 'visible', null);
+        }
+        await closeReports(input.targetType, input.targetId, 'dismissed', adminId);
+      }
+      return { userId: target.user_id };
+    }
+
+    case 'ban': {
+      const { error } = await supabaseAdmin
+        .from('community_bans')
+        .upsert(
+          {
+            user_id: input.userId,
+            reason: input.reason,
+            banned_by: adminId,
+            expires_at: input.days ? new Date(Date.now() + input.days * DAY_MS).toISOString() : null,
+            created_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (error) {
+        // 없는 사용자 (auth.users FK)
+        if (error.code === '23503') return null;
+        throw new Error(`community_bans upsert failed: ${error.message}`);
+      }
+      return { userId: input.userId };
+    }
+
+    case 'unban': {
+      const { error } = await supabaseAdmin
+        .from('community_bans')
+        .delete()
+        .eq('user_id', input.userId);
+
+      if (error) {
+        throw new Error(`community_bans delete failed: ${error.message}`);
+      }
+      return { userId: input.userId };
+    }
+  }
+}
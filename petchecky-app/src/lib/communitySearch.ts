@@ -0,0 +1,176 @@
+/**
+ * 커뮤니티 게시글 검색/목록 (서버 전용)
+ *
+ * 제목, 본문, 해시태그, 댓글을 한글 2글자 단위(n-gram)로 색인해 조사가 붙은 말도 찾습니다.
+ * 색인과 검색은 DB 함수(search_community_posts, supabase/migrations/018_community_search.sql)에서
+ * 처리하고, 여기서는 검색어/해시태그 정리와 keyset 커서만 다룹니다.
+ * 목록은 정렬 키 + 작성 시각 + id로 이어서 불러옵니다 (offset 없음).
+ *
+ * GET /api/community/posts 라우트에서 사용합니다.
+ */
+
+import { supabaseAdmin } from './auth';
+import type { CommunityPost } from './supabase/community';
+import type { PostSort } from './validations/posts';
+
+// 글 하나에 붙일 수 있는 최대 해시태그 수
+export const MAX_POST_HASHTAGS = 10;
+export const HASHTAG_MAX_LENGTH = 20;
+
+const HASHTAG_PATTERN = /^[0-9a-z가-힣_]+$/;
+// 본문의 #태그 (단어 시작에서만)
+const CONTENT_HASHTAG_PATTERN = /(?:^|\s)#([0-9A-Za-z가-힣_]+)/g;
+// korean_ngrams(SQL)와 같은 단어 구분
+const SEARCH_WORD_PATTERN = /[가-힣]+|[0-9a-z]+/g;
+
+export interface PostSearchOptions {
+  query?: string;
+  category?: string;
+  species?: string;
+  hashtags?: string[];
+  sort?: PostSort;
+  cursor?: string;
+  limit: number;
+}
+
+export interface PostSearchResult {
+  posts: CommunityPost[];
+  // 다음 페이지가 없으면 null
+  next_cursor: string | null;
+}
+
+interface SearchCursor {
+  // 관련도 또는 좋아요 수 (최신순은 0)
+  score: number;
+  createdAt: string;
+  id: string;
+}
+
+type SearchRow = CommunityPost & { score: number | string };
+
+/**
+ * 해시태그 정리 (# 제거, 소문자), 쓸 수 없는 태그면 null
+ */
+export function normalizeHashtag(tag: string): string | null {
+  const normalized = tag.trim().replace(/^#+/, '').toLowerCase();
+  if (!normalized || normalized.length > HASHTAG_MAX_LENGTH || !HASHTAG_PATTERN.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * 입력한 해시태그 + 본문의 #태그 (중복 제거, 최대 MAX_POST_HASHTAGS개)
+ */
+export function collectHashtags(input: unknown, content = ''): string[] {
+  const explicit = Array.isArray(input)
+    ? input.filter((tag): tag is string => typeof tag === 'string')
+    : typeof input === 'string'
+      ? input.split(/[\s,]+/)
+      : [];
+  const fromContent = [...content.matchAll(CONTENT_HASHTAG_PATTERN)].map((match) => match[1]);
+
+  const tags = new Set<string>();
+  for (const tag of [...explicit, ...fromContent]) {
+    const normalized = normalizeHashtag(tag);
+    if (normalized) tags.add(normalized);
+    if (tags.size >= MAX_POST_HASHTAGS) break;
+  }
+  return [...tags];
+}
+
+/**
+ * 검색어 조각 (DB의 korean_ngrams(query, false)와 같은 규칙)
+ * 한글은 2글자씩, 한 글자 단어는 그대로, 영문/숫자는 단어 단위
+ */
+export function toSearchTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const word of query.toLowerCase().match(SEARCH_WORD_PATTERN) || []) {
+    if (/^[0-9a-z]/.test(word) || word.length === 1) {
+      terms.add(word);
+      continue;
+    }
+    for (let i = 0; i < word.length - 1; i++) {
+      terms.add(word.slice(i, i + 2));
+    }
+  }
+  return [...terms];
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.score, cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * 커서 해석, 형식이 맞지 않으면 null
+ */
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+
+    const [score, createdAt, id] = parsed;
+    if (
+      typeof score !== 'number' || !Number.isFinite(score) ||
+      typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt)) ||
+      typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)
+    ) {
+      return null;
+    }
+    return { score, createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 정렬 기준 결정: 검색어가 없으면 관련도 대신 최신순
+ */
+export function resolveSort(sort: PostSort | undefined, hasQuery: boolean): PostSort {
+  if (!sort) return hasQuery ? 'relevance' : 'recent';
+  return sort === 'relevance' && !hasQuery ? 'recent' : sort;
+}
+
+/**
+ * 게시글 검색/목록
+ * @returns 커서가 잘못됐으면 null
+ */
+export async function searchCommunityPosts(options: PostSearchOptions): Promise<PostSearchResult | null> {
+  const cursor = options.cursor ? decodeSearchCursor(options.cursor) : null;
+  if (options.cursor && !cursor) return null;
+
+  // 검색할 조각이 없는 검색어(기호만 입력 등)는 검색어 없이 목록으로
+  const query = options.query && toSearchTerms(options.query).length > 0 ? options.query : null;
+  const sort = resolveSort(options.sort, query !== null);
+  const hashtags = (options.hashtags || [])
+    .map(normalizeHashtag)
+    .filter((tag): tag is string => tag !== null);
+
+  // 다음 페이지가 있는지 보기 위해 하나 더 조회
+  const { data, error } = await supabaseAdmin.rpc('search_community_posts', {
+    p_query: query,
+    p_category: options.category && options.category !== 'all' ? options.category : null,
+    p_pet_species: options.species || null,
+    p_hashtags: hashtags.length > 0 ? hashtags : null,
+    p_sort: sort,
+    p_cursor_score: cursor?.score ?? null,
+    p_cursor_created_at: cursor?.createdAt ?? null,
+    p_cursor_id: cursor?.id ?? null,
+    p_limit: options.limit + 1,
+  });
+
+  if (error) {
+    throw new Error(`search_community_posts failed: ${error.message}`);
+  }
+
+  const rows = (data || []) as SearchRow[];
+  const page = rows.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    posts: page.map(({ score: _score, ...post }) => post),
+    next_cursor: rows.length > options.limit && last
+      ? encodeSearchCursor({ score: Number(last.score), createdAt: last.created_at, id: last.id })
+      : null,
+  };
+}
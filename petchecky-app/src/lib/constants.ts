@@ -1,5 +1,7 @@
 // 앱 전역 상수 정의
 
+import { PET_SPECIES, SPECIES_REGISTRY, type PetSpecies } from './species';
+
 // === 사용량 제한 ===
 export const LIMITS = {
   MONTHLY_FREE_MESSAGES: 20,
@@ -32,6 +34,22 @@ export const RATE_LIMITS = {
   // GET 요청 (읽기)
   READS_PER_MINUTE: 60,
   READS_WINDOW_MS: 60 * 1000, // 1분
+
+  // QR 인식표 스캔 기록 (발견자 페이지)
+  TAG_SCANS_PER_MINUTE: 10,
+  TAG_SCANS_WINDOW_MS: 60 * 1000, // 1분
+
+  // 발견자 메시지 (보호자에게 푸시로 중계)
+  TAG_MESSAGES_PER_HOUR: 5,
+  TAG_MESSAGES_WINDOW_MS: 60 * 60 * 1000, // 1시간
+
+  // 1:1 메시지
+  DIRECT_MESSAGES_PER_MINUTE: 30,
+  DIRECT_MESSAGES_WINDOW_MS: 60 * 1000, // 1분
+
+  // 게시글/댓글 신고
+  REPORTS_PER_HOUR: 20,
+  REPORTS_WINDOW_MS: 60 * 60 * 1000, // 1시간
 } as const;
 
 // === 파일 업로드 ===
@@ -60,11 +78,10 @@ export const SEVERITY_KEYWORDS = {
   },
 } as const;
 
-// === 펫 종류 이모지 ===
-export const PET_EMOJI = {
-  dog: '🐕',
-  cat: '🐈',
-} as const;
+// === 펫 종류 이모지 (lib/species.ts 레지스트리 기준) ===
+export const PET_EMOJI = Object.fromEntries(
+  PET_SPECIES.map((species) => [species, SPECIES_REGISTRY[species].emoji])
+) as Record<PetSpecies, string>;
 
 // === 에러 메시지 (한국어) ===
 export const ERROR_MESSAGES = {
@@ -112,6 +129,6 @@ export const SUBSCRIPTION_PLANS = {
 
 // === 타입 export ===
 export type Language = 'ko' | 'en' | 'ja';
-export type PetSpecies = keyof typeof PET_EMOJI;
+export type { PetSpecies };
 export type Severity = 'low' | 'medium' | 'high';
 export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[keyof typeof SUBSCRIPTION_PLANS];
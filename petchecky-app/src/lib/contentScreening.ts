@@ -0,0 +1,149 @@
+/**
+ * 커뮤니티 글/댓글 자동 검사 (서버 전용)
+ *
+ * 욕설, 전화번호 노출, 링크 스팸은 규칙으로 바로 걸러내고, 약 복용/치료 이야기가 있는 글만
+ * LLM으로 위험한 의료 정보(사람 약 투여, 검증되지 않은 치료법 등)인지 한 번 더 봅니다.
+ * 걸린 글은 지우지 않고 검토 대기(pending)로 저장해 관리자가 판단합니다 (/admin/moderation).
+ * LLM 설정이 없거나 호출이 실패하면 규칙 검사 결과만 사용합니다.
+ */
+
+import { getErrorMessage } from './errors';
+import { getLLMProvider, type LLMProvider } from './llm';
+import { parseMedicalClaimCheck } from './validations/moderation';
+
+export type ScreeningFlag = 'profanity' | 'phone_number' | 'url_spam' | 'dangerous_medical';
+
+export interface ScreeningResult {
+  status: 'visible' | 'pending';
+  flags: ScreeningFlag[];
+  // 관리자 검토 화면에 보여줄 사유
+  reason?: string;
+}
+
+export const SCREENING_FLAG_LABELS: Record<ScreeningFlag, string> = {
+  profanity: '욕설/비속어',
+  phone_number: '전화번호 노출',
+  url_spam: '링크 스팸',
+  dangerous_medical: '위험한 의료 정보',
+};
+
+// 띄어쓰기/특수문자를 뺀 뒤 비교
+const PROFANITY_WORDS = [
+  '시발', '씨발', '씨빨', 'ㅅㅂ', 'ㅆㅂ', '병신', 'ㅂㅅ', '개새끼', '좆', '지랄', '미친놈', '미친년', '닥쳐',
+  'fuck', 'shit', 'bitch', 'asshole',
+];
+// 욕설 단어를 포함하지만 정상적인 말
+const PROFANITY_ALLOWLIST = ['시발점', '시발역', '시발택시'];
+
+const PHONE_PATTERN = /(?:\+?82[-.\s]?|0)(?:1[016789]|70)[-.\s]?\d{3,4}[-.\s]?\d{4}/;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|kr|io|ly|me|gl|do|xyz|shop|site)\b(?:\/[^\s<>"']*)?/gi;
+// 단축 URL, 오픈채팅: 하나만 있어도 스팸으로 봄
+const SPAM_LINK_PATTERN = /\b(?:bit\.ly|goo\.gl|tinyurl\.com|han\.gl|me2\.do|t\.ly|open\.kakao\.com)\b/i;
+// 링크가 이보다 많으면 스팸으로 봄
+const MAX_LINKS = 1;
+
+// LLM 검사 대상 (약/치료 관련 글만)
+const MEDICAL_KEYWORDS = /약을|약은|약이|사람\s*약|진통제|해열제|소염제|처방|복용|투여|먹였|먹이면|치료|완치|주사|\d+\s*mg|용량|타이레놀|아세트아미노펜|이부프로펜|아스피린|항생제|스테로이드|민간요법/i;
+
+const MEDICAL_CHECK_PROMPT = `당신은 반려동물 커뮤니티의 게시글 검토자입니다.
+아래 글이 반려동물에게 해로울 수 있는 의료 정보를 권하고 있는지 판단하세요.
+위험한 예: 사람 약(타이레놀, 이부프로펜 등) 투여 권유, 근거 없는 용량 안내, 병원 치료 대신 민간요법을 권함, 완치 보장.
+경험 공유, 질문, 수의사 상담 권유는 위험하지 않습니다.
+JSON만 출력하세요: {"risky": true 또는 false, "reason": "한 문장 사유"}`;
+
+function normalizeForProfanity(text: string): string {
+  let normalized = text.toLowerCase().replace(/[\s\d!-\/:-@[-`{-~]/g, '');
+  for (const word of PROFANITY_ALLOWLIST) {
+    normalized = normalized.split(word).join('');
+  }
+  return normalized;
+}
+
+function hasSpamLinks(text: string): boolean {
+  const links = text.match(URL_PATTERN) || [];
+  return links.length > MAX_LINKS || SPAM_LINK_PATTERN.test(text);
+}
+
+/**
+ * 규칙 기반 검사 (LLM 없이 바로 판단)
+ */
+export function screenText(text: string): ScreeningFlag[] {
+  const flags: ScreeningFlag[] = [];
+  const normalized = normalizeForProfanity(text);
+
+  if (PROFANITY_WORDS.some((word) => normalized.includes(word))) {
+    flags.push('profanity');
+  }
+  if (PHONE_PATTERN.test(text)) {
+    flags.push('phone_number');
+  }
+  if (hasSpamLinks(text)) {
+    flags.push('url_spam');
+  }
+  return flags;
+}
+
+export function needsMedicalCheck(text: string): boolean {
+  return MEDICAL_KEYWORDS.test(text);
+}
+
+/**
+ * LLM으로 위험한 의료 정보인지 확인
+ * @returns 위험하면 사유, 아니거나 판단할 수 없으면 null
+ */
+export async function checkMedicalClaims(text: string, provider: LLMProvider): Promise<string | null> {
+  const { text: rawText } = await provider.generate({
+    parts: [{ type: 'text', text: `${MEDICAL_CHECK_PROMPT}\n\n---\n${text}` }],
+    temperature: 0,
+    maxOutputTokens: 200,
+  });
+
+  const json = rawText.replace(/```(?:json)?/g, '').match(/\{[\s\S]*\}/);
+  if (!json) return null;
+
+  try {
+    const check = parseMedicalClaimCheck(JSON.parse(json[0]));
+    return check?.risky ? check.reason || SCREENING_FLAG_LABELS.dangerous_medical : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 글/댓글 검사
+ * @param options.provider 테스트용 (기본: 환경변수의 LLM 프로바이더)
+ */
+export async function screenContent(
+  text: string,
+  options: { provider?: LLMProvider | null } = {}
+): Promise<ScreeningResult> {
+  const flags = screenText(text);
+  let medicalReason: string | null = null;
+
+  // 규칙에 이미 걸렸으면 LLM은 생략
+  if (flags.length === 0 && needsMedicalCheck(text)) {
+    const provider = options.provider === undefined ? getLLMProvider() : options.provider;
+    if (provider) {
+      try {
+        medicalReason = await checkMedicalClaims(text, provider);
+      } catch (error) {
+        console.error('Medical claim check error:', getErrorMessage(error));
+      }
+    }
+  }
+
+  if (medicalReason) {
+    flags.push('dangerous_medical');
+  }
+  if (flags.length === 0) {
+    return { status: 'visible', flags };
+  }
+
+  return {
+    status: 'pending',
+    flags,
+    reason: medicalReason
+      ? `${SCREENING_FLAG_LABELS.dangerous_medical}: ${medicalReason}`
+      : flags.map((flag) => SCREENING_FLAG_LABELS[flag]).join(', '),
+  };
+}
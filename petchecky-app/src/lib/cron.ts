@@ -0,0 +1,29 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrors } from "./errors";
+
+// 길이가 다르면 바로 false, 같으면 비교 시간이 내용과 무관하도록 timingSafeEqual 사용
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+  return actualBuffer.length === expectedBuffer.length && timingSafeEqual(actualBuffer, expectedBuffer);
+}
+
+/**
+ * vercel.json crons 요청 검증
+ * Vercel은 CRON_SECRET이 설정되어 있으면 Authorization: Bearer <CRON_SECRET> 헤더를 붙입니다.
+ * @returns 거부 응답 (통과하면 null)
+ */
+export function verifyCronRequest(request: NextRequest, jobName: string): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error(`${jobName} cron error: CRON_SECRET is not configured`);
+    return ApiErrors.serverError();
+  }
+
+  if (!safeEqual(request.headers.get("authorization") || "", `Bearer ${secret}`)) {
+    return ApiErrors.unauthorized();
+  }
+
+  return null;
+}
@@ -0,0 +1,239 @@
+/**
+ * 식단 알레르기 확인 (알레르기/식이 제한 ↔ 식사 기록·추천 사료)
+ *
+ * 알레르기 페이지에 등록한 식품 알레르기와 식이 제한을 재료 표와 비교해
+ * 식사 기록/추천 사료에 들어 있는 알레르겐을 찾고, 알레르기 반응 직전에 먹은 음식을 의심 원인으로 제안합니다.
+ * 재료 이름만으로 비교하므로 수의사의 알레르기 검사를 대신하지 않습니다.
+ */
+
+import type { DietLog } from "@/types/petRecords";
+
+// 알레르기 페이지 저장 키 (아직 통합 저장소로 옮겨지지 않음)
+export const ALLERGY_STORAGE_KEY = "petAllergies";
+export const RESTRICTION_STORAGE_KEY = "dietaryRestrictions";
+
+type Severity = "mild" | "moderate" | "severe";
+type RestrictionReason = "allergy" | "intolerance" | "medical" | "preference";
+
+// 알레르기 페이지 저장 형식 (app/allergy/types.ts)에서 필요한 필드
+export interface StoredAllergy {
+  petId: string;
+  name: string;
+  type: "food" | "environmental" | "medication" | "contact";
+  severity: Severity;
+  reactions: { date: string }[];
+}
+
+export interface StoredRestriction {
+  petId: string;
+  ingredient: string;
+  reason: RestrictionReason;
+}
+
+export interface DietAllergen {
+  name: string;
+  source: "allergy" | "restriction";
+  severity?: Severity;
+  reason?: RestrictionReason;
+}
+
+export interface DietConflict {
+  allergen: DietAllergen;
+  /** 알레르겐이 들어 있는 음식/재료 */
+  ingredient: string;
+}
+
+export interface TriggerSuggestion {
+  foodName: string;
+  /** 먹은 뒤 TRIGGER_WINDOW_HOURS 안에 반응이 있었던 횟수 */
+  reactionCount: number;
+  /** 기록된 전체 식사 횟수 */
+  mealCount: number;
+  /** 이미 등록된 알레르겐 중 이 음식에 들어 있는 것 */
+  allergens: string[];
+}
+
+interface IngredientGroup {
+  name: string;
+  keywords: string[];
+  // 키워드를 포함하지만 다른 재료인 이름 (예: 오리젠 ≠ 오리)
+  excludes?: string[];
+  // 상위 분류 (예: 곡물 = 밀, 옥수수, 쌀...)
+  includes?: string[];
+}
+
+// 재료 표 (COMMON_ALLERGENS 식품 항목 + 사료에 흔한 재료, 한글·영문)
+const INGREDIENT_GROUPS: IngredientGroup[] = [
+  { name: "소고기", keywords: ["소고기", "쇠고기", "한우", "우육", "비프", "beef"] },
+  { name: "닭고기", keywords: ["닭", "치킨", "chicken"] },
+  { name: "돼지고기", keywords: ["돼지", "포크", "pork"] },
+  { name: "칠면조", keywords: ["칠면조", "터키", "turkey"] },
+  { name: "오리", keywords: ["오리", "duck"], excludes: ["오리젠", "오리지널"] },
+  { name: "양고기", keywords: ["양고기", "lamb"] },
+  {
+    name: "생선",
+    keywords: ["생선", "연어", "참치", "대구", "명태", "황태", "멸치", "정어리", "고등어", "흰살", "피쉬", "fish", "salmon", "tuna"],
+  },
+  {
+    name: "유제품",
+    keywords: ["유제품", "우유", "치즈", "요거트", "요구르트", "버터", "유청", "락토스", "milk", "cheese", "dairy", "whey"],
+  },
+  { name: "계란", keywords: ["계란", "달걀", "난황", "난백", "egg"] },
+  { name: "밀", keywords: ["밀", "소맥", "글루텐", "wheat", "gluten"], excludes: ["밀웜", "밀크"] },
+  { name: "옥수수", keywords: ["옥수수", "corn"] },
+  { name: "콩", keywords: ["콩", "대두", "soy"], excludes: ["완두콩", "강낭콩", "병아리콩"] },
+  { name: "쌀", keywords: ["쌀", "현미", "rice"] },
+  { name: "보리", keywords: ["보리", "barley"] },
+  { name: "귀리", keywords: ["귀리", "오트", "oat"] },
+  { name: "곡물", keywords: ["곡물", "grain"], includes: ["밀", "옥수수", "쌀", "보리", "귀리"] },
+  { name: "가금류", keywords: ["가금", "poultry"], includes: ["닭고기", "칠면조", "오리"] },
+];
+
+// 식사 기록 날짜에는 시각이 없어 반응일 포함 이전 이틀을 봄
+export const TRIGGER_WINDOW_HOURS = 48;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, "");
+}
+
+function findGroup(name: string): IngredientGroup | undefined {
+  const normalized = normalize(name);
+  return INGREDIENT_GROUPS.find(
+    (group) => normalize(group.name) === normalized || group.keywords.some((keyword) => normalize(keyword) === normalized)
+  );
+}
+
+// 알레르겐 이름에 해당하는 재료 분류 (표에 없으면 이름 그대로 비교)
+function resolveGroups(name: string): IngredientGroup[] {
+  const group = findGroup(name);
+  if (!group) return [{ name, keywords: [name] }];
+  const children = (group.includes ?? []).flatMap((child) => resolveGroups(child));
+  return [group, ...children];
+}
+
+function containsGroup(text: string, group: IngredientGroup): boolean {
+  let normalized = normalize(text);
+  for (const exclude of group.excludes ?? []) {
+    normalized = normalized.split(normalize(exclude)).join(" ");
+  }
+  return group.keywords.some((keyword) => normalized.includes(normalize(keyword)));
+}
+
+/**
+ * 재료/음식 이름에 알레르겐이 들어 있는지
+ */
+export function containsAllergen(text: string, allergen: string): boolean {
+  return resolveGroups(allergen).some((group) => containsGroup(text, group));
+}
+
+/**
+ * 펫의 식품 알레르기 + 식이 제한 (같은 재료는 한 번만, 알레르기 우선)
+ */
+export function collectDietAllergens(
+  petId: string,
+  allergies: StoredAllergy[],
+  restrictions: StoredRestriction[]
+): DietAllergen[] {
+  const allergens: DietAllergen[] = [];
+  const seen = new Set<string>();
+
+  const add = (allergen: DietAllergen) => {
+    const key = findGroup(allergen.name)?.name ?? normalize(allergen.name);
+    if (seen.has(key)) return;
+    seen.add(key);
+    allergens.push(allergen);
+  };
+
+  for (const allergy of allergies) {
+    if (allergy.petId !== petId || allergy.type !== "food") continue;
+    add({ name: allergy.name, source: "allergy", severity: allergy.severity });
+  }
+  for (const restriction of restrictions) {
+    if (restriction.petId !== petId) continue;
+    add({ name: restriction.ingredient, source: "restriction", reason: restriction.reason });
+  }
+
+  return allergens;
+}
+
+// 경고 정렬 순서 (심각한 알레르기 먼저, 기호는 마지막)
+function conflictRank(allergen: DietAllergen): number {
+  if (allergen.source === "allergy") {
+    return allergen.severity === "severe" ? 0 : allergen.severity === "moderate" ? 1 : 2;
+  }
+  return allergen.reason === "preference" ? 4 : 3;
+}
+
+/**
+ * 음식 이름/재료 목록에 들어 있는 알레르겐
+ *
+ * @param items - 음식 이름과 재료 (예: ["로얄캐닌 미니", "닭고기", "쌀"])
+ */
+export function findDietConflicts(items: string[], allergens: DietAllergen[]): DietConflict[] {
+  const conflicts: DietConflict[] = [];
+  for (const allergen of allergens) {
+    const ingredient = items.find((item) => item.trim() && containsAllergen(item, allergen.name));
+    if (ingredient) conflicts.push({ allergen, ingredient });
+  }
+  return conflicts.sort((a, b) => conflictRank(a.allergen) - conflictRank(b.allergen));
+}
+
+/**
+ * 저장 전에 다시 확인해야 하는 경고인지 (기호로 피하는 재료는 제외)
+ */
+export function isBlockingConflict(conflict: DietConflict): boolean {
+  return conflict.allergen.source === "allergy" || conflict.allergen.reason !== "preference";
+}
+
+function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+/**
+ * 알레르기 반응 직전(TRIGGER_WINDOW_HOURS)에 먹은 음식을 의심 원인으로 제안
+ *
+ * 반응 직전에 자주 먹었고, 평소에는 덜 먹는 음식일수록 앞에 옵니다. 등록된 알레르겐이 든 음식은 같은 조건이면 먼저 보여줍니다.
+ */
+export function suggestReactionTriggers(
+  reactions: { date: string }[],
+  logs: Pick<DietLog, "date" | "foodName" | "ingredients">[],
+  allergens: DietAllergen[] = []
+): TriggerSuggestion[] {
+  const windowDays = TRIGGER_WINDOW_HOURS / 24;
+  const foods = new Map<string, { foodName: string; items: Set<string>; reactions: Set<number>; mealCount: number }>();
+
+  for (const log of logs) {
+    const key = normalize(log.foodName);
+    const food = foods.get(key) ?? { foodName: log.foodName.trim(), items: new Set<string>(), reactions: new Set<number>(), mealCount: 0 };
+    food.mealCount += 1;
+    food.items.add(log.foodName);
+    log.ingredients?.forEach((ingredient) => food.items.add(ingredient));
+
+    reactions.forEach((reaction, index) => {
+      const days = daysBetween(log.date, reaction.date);
+      if (days >= 0 && days <= windowDays) food.reactions.add(index);
+    });
+    foods.set(key, food);
+  }
+
+  return Array.from(foods.values())
+    .filter((food) => food.reactions.size > 0)
+    .map((food) => ({
+      foodName: food.foodName,
+      reactionCount: food.reactions.size,
+      mealCount: food.mealCount,
+      allergens: findDietConflicts(Array.from(food.items), allergens).map((conflict) => conflict.allergen.name),
+    }))
+    .sort(
+      (a, b) =>
+        b.reactionCount - a.reactionCount ||
+        b.allergens.length - a.allergens.length ||
+        a.mealCount - b.mealCount ||
+        a.foodName.localeCompare(b.foodName)
+    );
+}
@@ -0,0 +1,399 @@
+/**
+ * 1:1 메시지 저장소 (서버 전용)
+ *
+ * 두 사용자 사이의 대화방은 하나뿐이며 (user_a < user_b), 메시지 쓰기/읽음 처리는 모두 이 모듈을 거칩니다.
+ * 받는 사람에게는 Supabase Realtime(direct_messages INSERT)으로 실시간 전달되고, 푸시 알림도 함께 보냅니다.
+ * 어느 한쪽이 차단했으면 새 대화를 열거나 메시지를 보낼 수 없습니다.
+ *
+ * /api/messages/* 라우트에서 사용합니다.
+ */
+
+import { supabaseAdmin } from './auth';
+import { getErrorMessage } from './errors';
+import { buildDirectMessageNotification } from './notificationMessages';
+import { sendPushToUser } from './pushSubscriptions';
+import { anonymizeEmail } from './sanitize';
+import type { MessageHistoryQuery } from './validations/messages';
+import type { BlockedUser, DirectConversation, DirectMessage } from '@/types/messages';
+
+// 대화 목록 최대 개수
+const CONVERSATION_LIMIT = 100;
+
+interface ConversationRow {
+  id: string;
+  user_a: string;
+  user_b: string;
+  user_a_name: string;
+  user_b_name: string;
+  last_message: string | null;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  recipient_id: string;
+  content: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+// 인증된 사용자 (lib/auth.ts authenticateRequest)
+export interface MessageUser {
+  id: string;
+  email?: string;
+}
+
+export type StartConversationResult =
+  | { conversation: DirectConversation; created: boolean }
+  | { error: 'self' | 'not_found' | 'blocked' };
+
+export type SendMessageResult = { message: DirectMessage } | { error: 'blocked' };
+
+const CONVERSATION_COLUMNS = 'id, user_a, user_b, user_a_name, user_b_name, last_message, last_message_at, created_at';
+const MESSAGE_COLUMNS = 'id, conversation_id, sender_id, recipient_id, content, created_at, read_at';
+
+/**
+ * 대화방 참여자 순서 (DB 제약 user_a < user_b)
+ */
+export function conversationPair(userId: string, otherId: string): { user_a: string; user_b: string } {
+  return userId < otherId ? { user_a: userId, user_b: otherId } : { user_a: otherId, user_b: userId };
+}
+
+/**
+ * 대화 목록에 보여줄 이름 (커뮤니티 작성자명과 같은 익명 표기)
+ */
+export function displayName(user: MessageUser): string {
+  return anonymizeEmail(user.email || '');
+}
+
+export function toConversation(
+  row: ConversationRow,
+  userId: string,
+  options: { unreadCount?: number; blocked?: boolean } = {}
+): DirectConversation {
+  const isA = row.user_a === userId;
+  return {
+    id: row.id,
+    participantId: isA ? row.user_b : row.user_a,
+    participantName: isA ? row.user_b_name : row.user_a_name,
+    lastMessage: row.last_message,
+    lastMessageAt: row.last_message_at,
+    unreadCount: options.unreadCount ?? 0,
+    blocked: options.blocked ?? false,
+    createdAt: row.created_at,
+  };
+}
+
+export function toDirectMessage(row: MessageRow): DirectMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    senderId: row.sender_id,
+    recipientId: row.recipient_id,
+    content: row.content,
+    createdAt: row.created_at,
+    readAt: row.read_at,
+  };
+}
+
+/**
+ * 대화방별 안 읽은 메시지 수
+ */
+export function countUnread(rows: { conversation_id: string }[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.conversation_id, (counts.get(row.conversation_id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+async function findUserName(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (error || !data.user) return null;
+  return displayName(data.user);
+}
+
+async function listBlockedIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_blocks')
+    .select('blocked_id')
+    .eq('blocker_id', userId);
+
+  if (error) {
+    throw new Error(`user_blocks fetch failed: ${error.message}`);
+  }
+  return (data || []).map((row) => row.blocked_id as string);
+}
+
+/**
+ * 두 사용자 중 한쪽이라도 차단했는지
+ */
+export async function isBlockedBetween(userId: string, otherId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('user_blocks')
+    .select('blocker_id')
+    .or(`and(blocker_id.eq.${userId},blocked_id.eq.${otherId}),and(blocker_id.eq.${otherId},blocked_id.eq.${userId})`)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`user_blocks fetch failed: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+// ============ 대화방 ============
+
+/**
+ * 내 대화 목록 (최근 메시지순, 안 읽은 수 포함)
+ */
+export async function listConversations(userId: string): Promise<DirectConversation[]> {
+  const [conversations, unread, blockedIds] = await Promise.all([
+    supabaseAdmin
+      .from('direct_conversations')
+      .select(CONVERSATION_COLUMNS)
+      .or(`user_a.eq.${userId},user_b.eq.${userId}`)
+      .order('last_message_at', { ascending: false, nullsFirst: false })
+      .limit(CONVERSATION_LIMIT),
+    supabaseAdmin
+      .from('direct_messages')
+      .select('conversation_id')
+      .eq('recipient_id', userId)
+      .is('read_at', null),
+    listBlockedIds(userId),
+  ]);
+
+  if (conversations.error || unread.error) {
+    throw new Error(`direct conversations fetch failed: ${(conversations.error || unread.error)?.message}`);
+  }
+
+  const unreadCounts = countUnread(unread.data || []);
+  return ((conversations.data || []) as ConversationRow[]).map((row) =>
+    toConversation(row, userId, {
+      unreadCount: unreadCounts.get(row.id),
+      blocked: blockedIds.includes(row.user_a === userId ? row.user_b : row.user_a),
+    })
+  );
+}
+
+/**
+ * 참여 중인 대화방
+ * @returns 없거나 본인 대화방이 아니면 null
+ */
+export async function getConversation(userId: string, conversationId: string): Promise<DirectConversation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('direct_conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', conversationId)
+    .or(`user_a.eq.${userId},user_b.eq.${userId}`)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`direct_conversations fetch failed: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const row = data as ConversationRow;
+  const blockedIds = await listBlockedIds(userId);
+  return toConversation(row, userId, { blocked: blockedIds.includes(row.user_a === userId ? row.user_b : row.user_a) });
+}
+
+/**
+ * 상대와의 대화방 열기 (이미 있으면 그대로 반환)
+ * 기존 대화방은 차단 중이어도 열 수 있지만 (지난 메시지 보기), 새 대화방은 만들지 않습니다.
+ */
+export async function startConversation(user: MessageUser, participantId: string): Promise<StartConversationResult> {
+  if (user.id === participantId) return { error: 'self' };
+
+  const pair = conversationPair(user.id, participantId);
+  const { data: existing, error } = await supabaseAdmin
+    .from('direct_conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('user_a', pair.user_a)
+    .eq('user_b', pair.user_b)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`direct_conversations fetch failed: ${error.message}`);
+  }
+  if (existing) {
+    const blockedIds = await listBlockedIds(user.id);
+    const conversation = toConversation(existing as ConversationRow, user.id, { blocked: blockedIds.includes(participantId) });
+    return { conversation, created: false };
+  }
+
+  const participantName = await findUserName(participantId);
+  if (!participantName) return { error: 'not_found' };
+  if (await isBlockedBetween(user.id, participantId)) return { error: 'blocked' };
+
+  const names = user.id === pair.user_a
+    ? { user_a_name: displayName(user), user_b_name: participantName }
+    : { user_a_name: participantName, user_b_name: displayName(user) };
+
+  const { data, error: insertError } = await supabaseAdmin
+    .from('direct_conversations')
+    .insert({ ...pair, ...names })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (insertError) {
+    throw new Error(`direct_conversations insert failed: ${insertError.message}`);
+  }
+  return { conversation: toConversation(data as ConversationRow, user.id), created: true };
+}
+
+// ============ 메시지 ============
+
+/**
+ * 이전 메시지 (before보다 오래된 메시지를 limit개씩, 결과는 오래된 순)
+ */
+export async function listMessages(
+  conversationId: string,
+  { before, limit }: MessageHistoryQuery
+): Promise<{ messages: DirectMessage[]; hasMore: boolean }> {
+  let query = supabaseAdmin
+    .from('direct_messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(limit + 1);
+
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`direct_messages fetch failed: ${error.message}`);
+  }
+
+  const rows = (data || []) as MessageRow[];
+  return {
+    messages: rows.slice(0, limit).reverse().map(toDirectMessage),
+    hasMore: rows.length > limit,
+  };
+}
+
+/**
+ * 메시지 보내기 (대화방 참여 확인은 호출하는 쪽에서)
+ */
+export async function sendDirectMessage(
+  sender: MessageUser,
+  conversation: DirectConversation,
+  content: string
+): Promise<SendMessageResult> {
+  if (await isBlockedBetween(sender.id, conversation.participantId)) {
+    return { error: 'blocked' };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('direct_messages')
+    .insert({
+      conversation_id: conversation.id,
+      sender_id: sender.id,
+      recipient_id: conversation.participantId,
+      content,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`direct_messages insert failed: ${error.message}`);
+  }
+  const message = toDirectMessage(data as MessageRow);
+
+  const { error: updateError } = await supabaseAdmin
+    .from('direct_conversations')
+    .update({ last_message: content, last_message_at: message.createdAt })
+    .eq('id', conversation.id);
+  if (updateError) {
+    console.error('Direct conversation update error:', updateError.message);
+  }
+
+  try {
+    await sendPushToUser(
+      conversation.participantId,
+      buildDirectMessageNotification(displayName(sender), content, conversation.id)
+    );
+  } catch (error) {
+    console.error('Direct message push error:', getErrorMessage(error));
+  }
+
+  return { message };
+}
+
+/**
+ * 상대가 보낸 메시지 읽음 처리
+ * @returns 읽음 처리한 시각 (새로 읽은 메시지가 없으면 null)
+ */
+export async function markConversationRead(userId: string, conversationId: string): Promise<string | null> {
+  const readAt = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('direct_messages')
+    .update({ read_at: readAt })
+    .eq('conversation_id', conversationId)
+    .eq('recipient_id', userId)
+    .is('read_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`direct_messages update failed: ${error.message}`);
+  }
+  return (data || []).length > 0 ? readAt : null;
+}
+
+// ============ 차단 ============
+
+/**
+ * 내가 차단한 사용자 목록
+ */
+export async function listBlockedUsers(userId: string): Promise<BlockedUser[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_blocks')
+    .select('blocked_id, created_at')
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`user_blocks fetch failed: ${error.message}`);
+  }
+
+  return Promise.all(
+    (data || []).map(async (row) => ({
+      userId: row.blocked_id as string,
+      name: (await findUserName(row.blocked_id as string)) ?? '알 수 없는 사용자',
+      blockedAt: row.created_at as string,
+    }))
+  );
+}
+
+/**
+ * 사용자 차단 (이미 차단했으면 그대로)
+ * @returns 자기 자신이거나 없는 사용자면 false
+ */
+export async function blockUser(userId: string, blockedId: string): Promise<boolean> {
+  if (userId === blockedId || !(await findUserName(blockedId))) return false;
+
+  const { error } = await supabaseAdmin
+    .from('user_blocks')
+    .upsert({ blocker_id: userId, blocked_id: blockedId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`user_blocks insert failed: ${error.message}`);
+  }
+  return true;
+}
+
+export async function unblockUser(userId: string, blockedId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', blockedId);
+
+  if (error) {
+    throw new Error(`user_blocks delete failed: ${error.message}`);
+  }
+}
@@ -30,6 +30,12 @@ const ENV_CONFIGS: EnvConfig[] = [
   { name: "NEXT_PUBLIC_SENTRY_DSN", required: false, public: true },
   { name: "NEXT_PUBLIC_VAPID_PUBLIC_KEY", required: false, public: true },
   { name: "VAPID_PRIVATE_KEY", required: false },
+  { name: "VAPID_SUBJECT", required: false },
+  { name: "CRON_SECRET", required: false },
+  { name: "LLM_PROVIDER", required: false },
+  { name: "LLM_FALLBACK_PROVIDER", required: false },
+  { name: "RATE_LIMIT_STORE", required: false },
+  { name: "REPORT_FONT_PATH", required: false },
 ];
 
 interface ValidationResult {
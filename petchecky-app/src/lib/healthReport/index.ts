@@ -0,0 +1,113 @@
+/**
+ * 건강 리포트 생성 (서버 전용)
+ *
+ * /api/pets/[id]/report 에서 사용합니다. 예방접종/약물/진료/상담 기록은 DB에서 읽고,
+ * 아직 서버에 저장되지 않는 알레르기/체중 기록은 요청 본문으로 받습니다.
+ *
+ * PDF에는 한글 TTF 폰트가 포함되어야 합니다. REPORT_FONT_PATH(기본값 public/fonts/NotoSansKR-Regular.ttf)에서
+ * 읽어 프로세스당 한 번만 로드합니다.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { supabaseAdmin } from '../auth';
+import { listPetRecords } from '../petRecords';
+import type { Pet } from '../supabase/pets';
+import type { HealthReportRequestInput } from '../validations/report';
+import { buildHealthReport, type ReportChatRecord } from './model';
+import { renderHealthReportPdf, type ReportFont } from './pdf';
+
+export { buildHealthReport } from './model';
+export type { HealthReport } from './model';
+
+const DEFAULT_FONT_PATH = path.join(process.cwd(), 'public', 'fonts', 'NotoSansKR-Regular.ttf');
+
+// 상담 기록은 기간당 최대 이만큼만 (리포트 한 부가 지나치게 길어지지 않도록)
+const MAX_CHAT_RECORDS = 500;
+
+let fontPromise: Promise<ReportFont> | null = null;
+
+function loadReportFont(): Promise<ReportFont> {
+  if (!fontPromise) {
+    const fontPath = process.env.REPORT_FONT_PATH || DEFAULT_FONT_PATH;
+    fontPromise = readFile(fontPath)
+      .then((buffer) => ({ fileName: path.basename(fontPath), data: buffer.toString('base64') }))
+      .catch((error: unknown) => {
+        // 폰트를 나중에 배치해도 재시작 없이 다시 시도하도록
+        fontPromise = null;
+        throw new Error(`report font load failed (${fontPath}): ${error instanceof Error ? error.message : error}`);
+      });
+  }
+  return fontPromise;
+}
+
+// 종료일 다음 날 0시 (created_at은 timestamptz라 종료일 하루 전체를 포함하도록)
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString();
+}
+
+async function listChatRecords(
+  userId: string,
+  petId: string,
+  { from, to }: HealthReportRequestInput
+): Promise<ReportChatRecord[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chat_records')
+    .select('preview, severity, created_at')
+    .eq('user_id', userId)
+    .eq('pet_id', petId)
+    .gte('created_at', `${from}T00:00:00.000Z`)
+    .lt('created_at', nextDay(to))
+    .order('created_at', { ascending: false })
+    .limit(MAX_CHAT_RECORDS);
+
+  if (error) {
+    throw new Error(`chat_records fetch failed: ${error.message}`);
+  }
+  return (data || []).map((row) => ({
+    createdAt: row.created_at,
+    severity: row.severity,
+    preview: row.preview,
+  }));
+}
+
+/**
+ * 펫의 건강 리포트 PDF 생성
+ * @param pet 소유권을 확인한 펫 (getOwnedPet)
+ */
+export async function generateHealthReportPdf(
+  userId: string,
+  pet: Pet,
+  input: HealthReportRequestInput,
+  now: Date = new Date()
+): Promise<ArrayBuffer> {
+  const [font, vaccinations, medications, vetRecords, chats] = await Promise.all([
+    loadReportFont(),
+    listPetRecords('vaccinations', userId, pet.id),
+    listPetRecords('medications', userId, pet.id),
+    listPetRecords('vet-records', userId, pet.id),
+    listChatRecords(userId, pet.id, input),
+  ]);
+
+  if (!vaccinations || !medications || !vetRecords) {
+    throw new Error('pet records fetch failed');
+  }
+
+  const report = buildHealthReport(
+    {
+      pet,
+      allergies: input.allergies,
+      weights: input.weights,
+      vaccinations,
+      medications,
+      vetRecords,
+      chats,
+    },
+    { from: input.from, to: input.to },
+    now
+  );
+
+  return renderHealthReportPdf(report, { font });
+}
@@ -0,0 +1,195 @@
+// 건강 리포트 데이터 구성 (순수 함수 - DB/네트워크 없음)
+//
+// 진료 기록 등 서버 데이터와 클라이언트가 보낸 알레르기/체중을 받아
+// 선택한 기간에 맞게 추리고 정렬합니다. PDF 배치는 ./pdf 에서 담당합니다.
+
+import type { Pet } from '../supabase/pets';
+import type { ReportAllergyInput, ReportWeightInput } from '../validations/report';
+import type { Medication, Vaccination, VetRecord } from '@/types/petRecords';
+
+export type TriageSeverity = 'low' | 'medium' | 'high';
+
+export interface ReportRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD (포함)
+}
+
+export interface ReportChatRecord {
+  createdAt: string;
+  severity: TriageSeverity | null;
+  preview: string;
+}
+
+export interface HealthReportSources {
+  pet: Pick<Pet, 'name' | 'species' | 'breed' | 'age' | 'weight'>;
+  allergies: ReportAllergyInput[];
+  weights: ReportWeightInput[];
+  vaccinations: Vaccination[];
+  medications: Medication[];
+  vetRecords: VetRecord[];
+  chats: ReportChatRecord[];
+}
+
+export interface SeverityCounts {
+  low: number;
+  medium: number;
+  high: number;
+  total: number;
+}
+
+export interface WeightTrend {
+  points: ReportWeightInput[];
+  first: number;
+  latest: number;
+  min: number;
+  max: number;
+  change: number;
+}
+
+export interface UpcomingVaccine {
+  name: string;
+  dueDate: string;
+  overdue: boolean;
+}
+
+export interface HealthReport {
+  generatedAt: string;
+  range: ReportRange;
+  pet: HealthReportSources['pet'];
+  allergies: ReportAllergyInput[];
+  weight: WeightTrend | null;
+  vaccinations: Vaccination[];
+  upcomingVaccines: UpcomingVaccine[];
+  medications: Medication[];
+  vetVisits: VetRecord[];
+  triage: {
+    counts: SeverityCounts;
+    monthly: (SeverityCounts & { month: string })[];
+    records: ReportChatRecord[];
+  };
+}
+
+const ALLERGY_SEVERITY_ORDER = { severe: 0, moderate: 1, mild: 2 } as const;
+
+function toDay(value: string): string {
+  return value.slice(0, 10);
+}
+
+function inRange(value: string, { from, to }: ReportRange): boolean {
+  const day = toDay(value);
+  return day >= from && day <= to;
+}
+
+function emptyCounts(): SeverityCounts {
+  return { low: 0, medium: 0, high: 0, total: 0 };
+}
+
+function countSeverity(counts: SeverityCounts, severity: TriageSeverity | null): void {
+  counts.total++;
+  if (severity) counts[severity]++;
+}
+
+/**
+ * 기간 내 체중 추이 (같은 날 기록이 여러 개면 마지막 값)
+ */
+export function buildWeightTrend(weights: ReportWeightInput[], range: ReportRange): WeightTrend | null {
+  const byDay = new Map<string, number>();
+  for (const { date, weight } of weights) {
+    if (inRange(date, range)) byDay.set(toDay(date), weight);
+  }
+  if (byDay.size === 0) return null;
+
+  const points = [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, weight]) => ({ date, weight }));
+  const values = points.map((point) => point.weight);
+  const first = values[0];
+  const latest = values[values.length - 1];
+
+  return {
+    points,
+    first,
+    latest,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    change: Math.round((latest - first) * 100) / 100,
+  };
+}
+
+/**
+ * 백신별 가장 최근 접종 기록 기준의 다음 접종 예정 (기간과 무관하게 현재 기준)
+ */
+export function findUpcomingVaccines(vaccinations: Vaccination[], today: string): UpcomingVaccine[] {
+  const latestByVaccine = new Map<string, Vaccination>();
+  for (const vaccination of vaccinations) {
+    const latest = latestByVaccine.get(vaccination.name);
+    if (!latest || vaccination.date > latest.date) {
+      latestByVaccine.set(vaccination.name, vaccination);
+    }
+  }
+
+  return [...latestByVaccine.values()]
+    .flatMap((vaccination) =>
+      vaccination.nextDate
+        ? [{ name: vaccination.name, dueDate: toDay(vaccination.nextDate), overdue: toDay(vaccination.nextDate) < today }]
+        : []
+    )
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+// 복용 기간이 리포트 기간과 겹치는 약 (종료일이 없으면 진행 중)
+function overlapsRange(medication: Medication, { from, to }: ReportRange): boolean {
+  const start = toDay(medication.startDate);
+  const end = medication.endDate ? toDay(medication.endDate) : null;
+  return start <= to && (end === null || end >= from);
+}
+
+/**
+ * 수의사에게 전달할 건강 리포트 데이터
+ * 기록은 모두 오래된 순으로 정렬합니다 (상담 기록만 최신순).
+ */
+export function buildHealthReport(
+  sources: HealthReportSources,
+  range: ReportRange,
+  now: Date = new Date()
+): HealthReport {
+  const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+  const records = sources.chats
+    .filter((chat) => inRange(chat.createdAt, range))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const counts = emptyCounts();
+  const monthly = new Map<string, SeverityCounts>();
+  for (const record of records) {
+    const month = record.createdAt.slice(0, 7);
+    const monthCounts = monthly.get(month) ?? emptyCounts();
+    countSeverity(counts, record.severity);
+    countSeverity(monthCounts, record.severity);
+    monthly.set(month, monthCounts);
+  }
+
+  return {
+    generatedAt: now.toISOString(),
+    range,
+    pet: sources.pet,
+    // 알레르기는 진단일과 관계없이 모두 (심각한 것부터)
+    allergies: [...sources.allergies].sort(
+      (a, b) => ALLERGY_SEVERITY_ORDER[a.severity ?? 'mild'] - ALLERGY_SEVERITY_ORDER[b.severity ?? 'mild']
+    ),
+    weight: buildWeightTrend(sources.weights, range),
+    vaccinations: sources.vaccinations.filter((vaccination) => inRange(vaccination.date, range)).sort(byDate),
+    upcomingVaccines: findUpcomingVaccines(sources.vaccinations, toDay(now.toISOString())),
+    medications: sources.medications
+      .filter((medication) => overlapsRange(medication, range))
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    vetVisits: sources.vetRecords.filter((record) => inRange(record.date, range)).sort(byDate),
+    triage: {
+      counts,
+      monthly: [...monthly.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, monthCounts]) => ({ month, ...monthCounts })),
+      records,
+    },
+  };
+}
@@ -0,0 +1,445 @@
+// 건강 리포트 PDF 배치 (jsPDF 텍스트/벡터 출력)
+//
+// 화면 캡처 이미지가 아니라 글자와 선으로 그리므로 파일이 작고, 확대해도 선명하며 검색/복사가 됩니다.
+// 한글 글리프가 없는 기본 폰트로는 한글이 깨지므로 운영에서는 반드시 font를 넘겨야 합니다.
+
+import { jsPDF } from 'jspdf';
+import type { HealthReport, TriageSeverity } from './model';
+import { getSpeciesName } from '@/lib/species';
+
+export interface ReportFont {
+  fileName: string;
+  /** TTF 파일 base64 */
+  data: string;
+}
+
+interface RenderOptions {
+  font?: ReportFont;
+}
+
+interface Column {
+  header: string;
+  width: number; // mm
+}
+
+const FONT_FAMILY = 'ReportFont';
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 16;
+const FOOTER_HEIGHT = 14;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.45;
+const CHART_HEIGHT = 48;
+
+const COLORS = {
+  text: [31, 41, 55],
+  muted: [107, 114, 128],
+  accent: [59, 130, 246],
+  border: [229, 231, 235],
+  headerFill: [243, 244, 246],
+  danger: [220, 38, 38],
+} as const;
+
+const SEVERITY_LABELS: Record<TriageSeverity, string> = { low: '안심', medium: '주의', high: '위험' };
+
+const ALLERGY_SEVERITY_LABELS = { mild: '경미', moderate: '중등도', severe: '심각' } as const;
+
+const ALLERGY_TYPE_LABELS = {
+  food: '음식',
+  environmental: '환경',
+  medication: '약물',
+  contact: '접촉',
+} as const;
+
+const VISIT_TYPE_LABELS = {
+  checkup: '정기검진',
+  vaccination: '예방접종',
+  treatment: '치료',
+  surgery: '수술',
+  emergency: '응급',
+  other: '기타',
+} as const;
+
+const FREQUENCY_LABELS = {
+  once: '하루 1회',
+  twice: '하루 2회',
+  three: '하루 3회',
+  asNeeded: '필요 시',
+} as const;
+
+const TEST_STATUS_LABELS = { normal: '정상', abnormal: '이상', critical: '위험' } as const;
+
+function lineHeight(fontSize: number): number {
+  return fontSize * PT_TO_MM * LINE_SPACING;
+}
+
+function formatDay(value: string): string {
+  return value.slice(0, 10).replace(/-/g, '.');
+}
+
+/**
+ * 페이지 넘김을 관리하며 위에서 아래로 내용을 쌓는 작성기
+ */
+function createWriter(doc: jsPDF) {
+  let y = MARGIN;
+
+  const setColor = (color: readonly number[]) => doc.setTextColor(color[0], color[1], color[2]);
+
+  const ensureSpace = (height: number): boolean => {
+    if (y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return false;
+    doc.addPage();
+    y = MARGIN;
+    return true;
+  };
+
+  const text = (
+    value: string,
+    { size = 10, color = COLORS.text, indent = 0 }: { size?: number; color?: readonly number[]; indent?: number } = {}
+  ) => {
+    doc.setFontSize(size);
+    setColor(color);
+    const lines = doc.splitTextToSize(value, CONTENT_WIDTH - indent) as string[];
+    for (const line of lines) {
+      ensureSpace(lineHeight(size));
+      doc.text(line, MARGIN + indent, y, { baseline: 'top' });
+      y += lineHeight(size);
+    }
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(lineHeight(13) + lineHeight(10) * 3);
+    y += 4;
+    text(value, { size: 13, color: COLORS.accent });
+    doc.setDrawColor(...COLORS.accent);
+    doc.setLineWidth(0.4);
+    doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y += 3;
+  };
+
+  const empty = (value: string) => text(value, { size: 9, color: COLORS.muted });
+
+  const table = (columns: Column[], rows: string[][]) => {
+    const size = 9;
+    const padding = 1.5;
+    doc.setLineWidth(0.2);
+
+    const wrapRow = (cells: string[]) => {
+      doc.setFontSize(size);
+      return cells.map((cell, i) => doc.splitTextToSize(cell || '-', columns[i].width - padding * 2) as string[]);
+    };
+    const rowHeight = (wrapped: string[][]) =>
+      Math.max(...wrapped.map((lines) => lines.length)) * lineHeight(size) + padding * 2;
+
+    const drawRow = (wrapped: string[][], fill: boolean) => {
+      const height = rowHeight(wrapped);
+      if (fill) {
+        doc.setFillColor(...COLORS.headerFill);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+      }
+      setColor(fill ? COLORS.muted : COLORS.text);
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        doc.text(lines, x + padding, y + padding, { baseline: 'top', lineHeightFactor: LINE_SPACING });
+        x += columns[i].width;
+      });
+      doc.setDrawColor(...COLORS.border);
+      doc.line(MARGIN, y + height, PAGE_WIDTH - MARGIN, y + height);
+      y += height;
+    };
+
+    const header = wrapRow(columns.map((column) => column.header));
+    ensureSpace(rowHeight(header) + lineHeight(size) + padding * 2);
+    drawRow(header, true);
+
+    for (const row of rows) {
+      const wrapped = wrapRow(row);
+      // 행이 페이지를 넘어가면 다음 페이지에 머리글부터 다시
+      if (ensureSpace(rowHeight(wrapped))) {
+        drawRow(header, true);
+      }
+      drawRow(wrapped, false);
+    }
+    y += 2;
+  };
+
+  const weightChart = (points: { date: string; weight: number }[]) => {
+    ensureSpace(CHART_HEIGHT + 12);
+    const left = MARGIN + 12;
+    const width = CONTENT_WIDTH - 12;
+    const top = y;
+    const bottom = y + CHART_HEIGHT;
+
+    const values = points.map((point) => point.weight);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // 변화가 없으면 가운데에 수평선
+    const span = max - min || 1;
+    const times = points.map((point) => Date.parse(point.date));
+    const start = times[0];
+    const duration = times[times.length - 1] - start || 1;
+
+    const toX = (time: number) => (points.length === 1 ? left + width / 2 : left + ((time - start) / duration) * width);
+    const toY = (weight: number) => (max === min ? (top + bottom) / 2 : bottom - ((weight - min) / span) * CHART_HEIGHT);
+
+    doc.setDrawColor(...COLORS.border);
+    doc.setLineWidth(0.2);
+    doc.line(left, top, left, bottom);
+    doc.line(left, bottom, left + width, bottom);
+
+    doc.setFontSize(7);
+    setColor(COLORS.muted);
+    doc.text(`${max}kg`, left - 1.5, toY(max), { align: 'right', baseline: 'middle' });
+    if (max !== min) {
+      doc.text(`${min}kg`, left - 1.5, toY(min), { align: 'right', baseline: 'middle' });
+    }
+    doc.text(formatDay(points[0].date), left, bottom + 1.5, { baseline: 'top' });
+    if (points.length > 1) {
+      doc.text(formatDay(points[points.length - 1].date), left + width, bottom + 1.5, { align: 'right', baseline: 'top' });
+    }
+
+    doc.setDrawColor(...COLORS.accent);
+    doc.setFillColor(...COLORS.accent);
+    doc.setLineWidth(0.5);
+    points.forEach((point, i) => {
+      const x = toX(times[i]);
+      const pointY = toY(point.weight);
+      if (i > 0) {
+        doc.line(toX(times[i - 1]), toY(points[i - 1].weight), x, pointY);
+      }
+      doc.circle(x, pointY, 0.7, 'F');
+    });
+
+    y = bottom + 8;
+  };
+
+  return { text, heading, empty, table, weightChart, space: (height: number) => (y += height) };
+}
+
+function drawFooters(doc: jsPDF, report: HealthReport) {
+  const total = doc.getNumberOfPages();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFontSize(7);
+    doc.setTextColor(...COLORS.muted);
+    doc.text(
+      '이 리포트는 보호자가 기록한 정보와 펫체키 AI 상담 기록을 바탕으로 생성되었으며, 진단을 대신하지 않습니다.',
+      MARGIN,
+      PAGE_HEIGHT - MARGIN + 2,
+      { baseline: 'bottom' }
+    );
+    doc.text(
+      `${report.pet.name} 건강 리포트 · ${page} / ${total}`,
+      PAGE_WIDTH - MARGIN,
+      PAGE_HEIGHT - MARGIN + 6,
+      { align: 'right', baseline: 'bottom' }
+    );
+  }
+}
+
+/**
+ * 건강 리포트를 A4 PDF로 그립니다.
+ */
+export function renderHealthReportPdf(report: HealthReport, { font }: RenderOptions = {}): ArrayBuffer {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+
+  if (font) {
+    doc.addFileToVFS(font.fileName, font.data);
+    doc.addFont(font.fileName, FONT_FAMILY, 'normal');
+    doc.setFont(FONT_FAMILY, 'normal');
+  }
+
+  const { pet, range } = report;
+  doc.setProperties({
+    title: `${pet.name} 건강 리포트`,
+    subject: `${range.from} ~ ${range.to}`,
+    creator: '펫체키',
+  });
+
+  const w = createWriter(doc);
+
+  // 제목
+  w.text(`${pet.name} 건강 리포트`, { size: 20 });
+  w.text(`기간 ${formatDay(range.from)} ~ ${formatDay(range.to)} · 생성일 ${formatDay(report.generatedAt)}`, {
+    size: 9,
+    color: COLORS.muted,
+  });
+
+  // 프로필
+  w.heading('반려동물 정보');
+  w.table(
+    [
+      { header: '이름', width: 40 },
+      { header: '종류', width: 28 },
+      { header: '품종', width: 58 },
+      { header: '나이', width: 22 },
+      { header: '현재 체중', width: 30 },
+    ],
+    [[pet.name, getSpeciesName(pet.species), pet.breed, `${pet.age}세`, `${pet.weight}kg`]]
+  );
+
+  // 알레르기
+  w.heading('알레르기');
+  if (report.allergies.length === 0) {
+    w.empty('등록된 알레르기가 없습니다.');
+  } else {
+    w.table(
+      [
+        { header: '알레르기', width: 40 },
+        { header: '분류', width: 20 },
+        { header: '정도', width: 20 },
+        { header: '증상', width: 50 },
+        { header: '진단일 / 메모', width: 48 },
+      ],
+      report.allergies.map((allergy) => [
+        allergy.name,
+        allergy.type ? ALLERGY_TYPE_LABELS[allergy.type] : '',
+        allergy.severity ? ALLERGY_SEVERITY_LABELS[allergy.severity] : '',
+        allergy.symptoms.join(', '),
+        [allergy.diagnosedDate && formatDay(allergy.diagnosedDate), allergy.notes].filter(Boolean).join(' / '),
+      ])
+    );
+  }
+
+  // 체중 추이
+  w.heading('체중 추이');
+  if (!report.weight) {
+    w.empty('기간 내 체중 기록이 없습니다.');
+  } else {
+    const { first, latest, min, max, change, points } = report.weight;
+    const sign = change > 0 ? '+' : '';
+    w.text(`처음 ${first}kg → 최근 ${latest}kg (${sign}${change}kg) · 최저 ${min}kg · 최고 ${max}kg · 기록 ${points.length}회`);
+    w.space(2);
+    w.weightChart(points);
+  }
+
+  // 예방접종
+  w.heading('예방접종');
+  if (report.vaccinations.length === 0) {
+    w.empty('기간 내 접종 기록이 없습니다.');
+  } else {
+    w.table(
+      [
+        { header: '접종일', width: 24 },
+        { header: '백신', width: 52 },
+        { header: '구분', width: 18 },
+        { header: '병원', width: 42 },
+        { header: '다음 접종', width: 42 },
+      ],
+      report.vaccinations.map((vaccination) => [
+        formatDay(vaccination.date),
+        vaccination.name,
+        vaccination.type === 'required' ? '필수' : '선택',
+        vaccination.hospital ?? '',
+        vaccination.nextDate ? formatDay(vaccination.nextDate) : '',
+      ])
+    );
+  }
+  if (report.upcomingVaccines.length > 0) {
+    w.text('접종 예정', { size: 9, color: COLORS.muted });
+    for (const vaccine of report.upcomingVaccines) {
+      w.text(`• ${vaccine.name} ${formatDay(vaccine.dueDate)}${vaccine.overdue ? ' (기한 지남)' : ''}`, {
+        size: 9,
+        color: vaccine.overdue ? COLORS.danger : COLORS.text,
+        indent: 2,
+      });
+    }
+  }
+
+  // 약물
+  w.heading('복용 약물');
+  if (report.medications.length === 0) {
+    w.empty('기간 내 복용한 약이 없습니다.');
+  } else {
+    w.table(
+      [
+        { header: '약 이름', width: 40 },
+        { header: '용량', width: 26 },
+        { header: '복용 횟수', width: 22 },
+        { header: '기간', width: 46 },
+        { header: '처방 / 메모', width: 44 },
+      ],
+      report.medications.map((medication) => [
+        medication.name,
+        medication.dosage,
+        FREQUENCY_LABELS[medication.frequency],
+        `${formatDay(medication.startDate)} ~ ${medication.endDate ? formatDay(medication.endDate) : '복용 중'}`,
+        [medication.prescribedBy, medication.notes].filter(Boolean).join(' / '),
+      ])
+    );
+  }
+
+  // 진료 기록
+  w.heading('진료 기록');
+  if (report.vetVisits.length === 0) {
+    w.empty('기간 내 진료 기록이 없습니다.');
+  }
+  for (const visit of report.vetVisits) {
+    w.space(1);
+    w.text(
+      `${formatDay(visit.date)} · ${VISIT_TYPE_LABELS[visit.visitType]} · ${visit.hospitalName}${visit.vetName ? ` (${visit.vetName})` : ''}`,
+      { size: 10.5 }
+    );
+    const details = [
+      visit.symptoms?.length ? `증상: ${visit.symptoms.join(', ')}` : null,
+      visit.diagnosis ? `진단: ${visit.diagnosis}` : null,
+      visit.treatment ? `치료: ${visit.treatment}` : null,
+      visit.prescriptions?.length
+        ? `처방: ${visit.prescriptions.map((p) => [p.name, p.dosage, p.frequency, p.duration].filter(Boolean).join(' ')).join(', ')}`
+        : null,
+      visit.notes ? `메모: ${visit.notes}` : null,
+      visit.nextVisitDate ? `다음 방문: ${formatDay(visit.nextVisitDate)}` : null,
+    ];
+    for (const detail of details) {
+      if (detail) w.text(detail, { size: 9, indent: 3 });
+    }
+    if (visit.testResults?.length) {
+      w.space(1);
+      w.table(
+        [
+          { header: '검사 항목', width: 52 },
+          { header: '결과', width: 46 },
+          { header: '참고 범위', width: 46 },
+          { header: '판정', width: 34 },
+        ],
+        visit.testResults.map((test) => [test.testName, test.result, test.normalRange ?? '', TEST_STATUS_LABELS[test.status]])
+      );
+    }
+  }
+
+  // AI 상담 기록
+  const { counts, monthly, records } = report.triage;
+  w.heading('AI 상담 기록');
+  if (counts.total === 0) {
+    w.empty('기간 내 상담 기록이 없습니다.');
+  } else {
+    w.text(`총 ${counts.total}회 · 위험 ${counts.high}회 · 주의 ${counts.medium}회 · 안심 ${counts.low}회`);
+    w.space(2);
+    w.table(
+      [
+        { header: '월', width: 38 },
+        { header: '상담', width: 35 },
+        { header: '위험', width: 35 },
+        { header: '주의', width: 35 },
+        { header: '안심', width: 35 },
+      ],
+      monthly.map((month) => [month.month.replace('-', '.'), `${month.total}`, `${month.high}`, `${month.medium}`, `${month.low}`])
+    );
+    w.table(
+      [
+        { header: '일시', width: 26 },
+        { header: '판정', width: 16 },
+        { header: '상담 내용', width: 136 },
+      ],
+      records.map((record) => [
+        formatDay(record.createdAt),
+        record.severity ? SEVERITY_LABELS[record.severity] : '',
+        record.preview,
+      ])
+    );
+  }
+
+  drawFooters(doc, report);
+  return doc.output('arraybuffer');
+}
@@ -3,6 +3,8 @@
  * localStorage 대신 사용하여 용량 제한 문제 해결
  */
 
+import type { PetSpecies } from "./species";
+
 const DB_NAME = "petchecky_db";
 const DB_VERSION = 2; // 버전 업그레이드
 
@@ -43,7 +45,7 @@ interface OfflinePet {
   id: string;
   user_id: string;
   name: string;
-  species: 'dog' | 'cat';
+  species: PetSpecies;
   breed: string;
   age: number;
   weight: number;
@@ -59,7 +61,7 @@ interface OfflineChat {
   user_id: string;
   pet_id: string;
   pet_name: string;
-  pet_species: 'dog' | 'cat';
+  pet_species: PetSpecies;
   preview: string;
   severity: 'low' | 'medium' | 'high' | null;
   messages: Array<{
@@ -0,0 +1,243 @@
+/**
+ * 레거시 localStorage 펫 데이터 통합
+ *
+ * 기능 페이지마다 서로 다른 키(petProfiles, pets, petProfile, petchecky_pets)에
+ * 펫 목록을 저장하고, 기록도 페이지별 키에 흩어져 있었습니다.
+ * 이 모듈은 그 키들을 한 번만 읽어 이름+종류 기준으로 펫을 병합하고,
+ * 기록의 petId를 통합된 펫 ID로 바꿔 하나의 저장소 형태로 정리합니다.
+ */
+
+import type { PetProfile } from "@/types/chat";
+import { normalizeSpecies } from "./species";
+import {
+  PET_RECORD_KINDS,
+  type PetRecord,
+  type PetRecordKind,
+} from "@/types/petRecords";
+
+// 통합 저장소 키
+export const PET_RECORDS_STORAGE_PREFIX = "petchecky_records_";
+export const LEGACY_MIGRATION_FLAG = "petchecky_records_migrated";
+export const LEGACY_SYNC_FLAG_PREFIX = "petchecky_records_synced_";
+// 플래그별로 처리가 끝난 기록 종류 (`${flag}_kinds`)
+const DONE_KINDS_SUFFIX = "_kinds";
+
+// 완료 플래그만 있고 종류 목록이 없으면 이 종류까지 처리된 것으로 봄
+const INITIAL_RECORD_KINDS: readonly PetRecordKind[] = [
+  "medications",
+  "vet-records",
+  "walks",
+  "diet-logs",
+  "vaccinations",
+  "insurance-claims",
+];
+
+// 펫 목록을 담고 있던 레거시 키 (앞쪽일수록 우선)
+const LEGACY_PET_KEYS = ["petchecky_pets", "petProfiles", "pets", "petProfile"] as const;
+
+// 모든 펫의 기록을 한 배열로 저장하던 키
+const LEGACY_SHARED_RECORD_KEYS: Partial<Record<PetRecordKind, string>> = {
+  medications: "medications",
+  "vet-records": "vetRecords",
+  reminders: "petchecky_reminders",
+};
+
+// 펫별로 나눠 저장하던 키 (`${prefix}${petId}`)
+const LEGACY_PER_PET_RECORD_PREFIXES: Partial<Record<PetRecordKind, string>> = {
+  walks: "petchecky_walks_",
+  "diet-logs": "petchecky_diet_",
+  vaccinations: "petchecky_vaccinations_",
+  "insurance-claims": "petchecky_insurance_claims_",
+};
+
+export type PetRecordBuckets = { [K in PetRecordKind]: PetRecord<K>[] };
+
+export interface LegacyPetBundle {
+  pets: Array<PetProfile & { id: string }>;
+  records: PetRecordBuckets;
+}
+
+/**
+ * 펫 중복 판별 키 (이름 공백/대소문자 무시 + 종류)
+ */
+export function petDedupKey(name: string, species: string): string {
+  return `${species}:${name.trim().toLowerCase().replace(/\s+/g, "")}`;
+}
+
+export function recordStorageKey(kind: PetRecordKind): string {
+  return `${PET_RECORDS_STORAGE_PREFIX}${kind}`;
+}
+
+function emptyBuckets(): PetRecordBuckets {
+  return PET_RECORD_KINDS.reduce((acc, kind) => {
+    acc[kind] = [];
+    return acc;
+  }, {} as Record<PetRecordKind, unknown[]>) as PetRecordBuckets;
+}
+
+function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toArray(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is Record<string, unknown> => !!item && typeof item === "object");
+  }
+  if (value && typeof value === "object") {
+    return [value as Record<string, unknown>];
+  }
+  return [];
+}
+
+function normalizePet(raw: Record<string, unknown>, fallbackId: string): (PetProfile & { id: string }) | null {
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) return null;
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : fallbackId,
+    name,
+    species: normalizeSpecies(raw.species),
+    breed: typeof raw.breed === "string" ? raw.breed : "",
+    age: Number(raw.age) || 0,
+    weight: Number(raw.weight) || 0,
+  };
+}
+
+/**
+ * localStorage의 모든 레거시 키를 읽어 통합된 펫/기록 묶음을 만듭니다.
+ * 이미 통합 저장소에 있는 기록도 함께 포함합니다. (읽기 전용)
+ */
+export function collectLegacyPetData(): LegacyPetBundle {
+  const pets: Array<PetProfile & { id: string }> = [];
+  const byKey = new Map<string, string>(); // dedupKey -> canonical id
+  const idMap = new Map<string, string>(); // legacy id -> canonical id
+
+  LEGACY_PET_KEYS.forEach((key) => {
+    toArray(readJson(key)).forEach((raw, index) => {
+      const pet = normalizePet(raw, `local_${key}_${index}`);
+      if (!pet) return;
+
+      const dedupKey = petDedupKey(pet.name, pet.species);
+      const existingId = byKey.get(dedupKey);
+      if (existingId) {
+        idMap.set(pet.id, existingId);
+        return;
+      }
+
+      byKey.set(dedupKey, pet.id);
+      idMap.set(pet.id, pet.id);
+      pets.push(pet);
+    });
+  });
+
+  const records = emptyBuckets();
+  const seen = new Set<string>();
+  const defaultPetId = pets[0]?.id;
+
+  const pushRecord = (kind: PetRecordKind, raw: Record<string, unknown>, petIdHint?: string) => {
+    const legacyPetId = typeof raw.petId === "string" ? raw.petId : petIdHint;
+    const petId = (legacyPetId && idMap.get(legacyPetId)) || (pets.length === 1 ? defaultPetId : undefined);
+    if (!petId) return;
+
+    const id = typeof raw.id === "string" && raw.id ? raw.id : `${kind}_${petId}_${seen.size}`;
+    const dedup = `${kind}:${id}`;
+    if (seen.has(dedup)) return;
+    seen.add(dedup);
+
+    (records[kind] as unknown[]).push({ ...raw, id, petId });
+  };
+
+  // 이미 통합 저장소로 옮겨진 기록
+  PET_RECORD_KINDS.forEach((kind) => {
+    toArray(readJson(recordStorageKey(kind))).forEach((raw) => pushRecord(kind, raw));
+  });
+
+  // 모든 펫의 기록을 한 배열로 저장하던 키
+  (Object.entries(LEGACY_SHARED_RECORD_KEYS) as [PetRecordKind, string][]).forEach(([kind, key]) => {
+    toArray(readJson(key)).forEach((raw) => pushRecord(kind, raw));
+  });
+
+  // 펫별 키 - 레거시 ID 전부에 대해 조회
+  (Object.entries(LEGACY_PER_PET_RECORD_PREFIXES) as [PetRecordKind, string][]).forEach(([kind, prefix]) => {
+    idMap.forEach((_canonicalId, legacyId) => {
+      toArray(readJson(`${prefix}${legacyId}`)).forEach((raw) => pushRecord(kind, raw, legacyId));
+    });
+  });
+
+  return { pets, records };
+}
+
+/**
+ * 완료 플래그 이후에 추가된 기록 종류 (플래그가 없으면 전체)
+ * 새 기록 종류가 생기면 이미 마이그레이션/업로드한 사용자도 그 종류만 다시 처리합니다.
+ */
+export function getPendingRecordKinds(flagKey: string): PetRecordKind[] {
+  if (!localStorage.getItem(flagKey)) return [...PET_RECORD_KINDS];
+
+  const stored = readJson(`${flagKey}${DONE_KINDS_SUFFIX}`);
+  const done = Array.isArray(stored) ? (stored as string[]) : INITIAL_RECORD_KINDS;
+  return PET_RECORD_KINDS.filter((kind) => !done.includes(kind));
+}
+
+export function markRecordKindsDone(flagKey: string): void {
+  localStorage.setItem(flagKey, new Date().toISOString());
+  localStorage.setItem(`${flagKey}${DONE_KINDS_SUFFIX}`, JSON.stringify(PET_RECORD_KINDS));
+}
+
+/**
+ * 레거시 키를 통합 저장소(petchecky_pets + petchecky_records_*)로 한 번만 옮깁니다.
+ * 레거시 키는 백업 겸 남겨두고, 완료 플래그로 재실행을 막습니다.
+ * @returns 마이그레이션을 실행했으면 true
+ */
+export function migrateLegacyPetStorage(): boolean {
+  if (typeof window === "undefined") return false;
+
+  try {
+    const pendingKinds = getPendingRecordKinds(LEGACY_MIGRATION_FLAG);
+    if (pendingKinds.length === 0) return false;
+
+    const { pets, records } = collectLegacyPetData();
+    if (!localStorage.getItem(LEGACY_MIGRATION_FLAG)) {
+      localStorage.setItem("petchecky_pets", JSON.stringify(pets));
+    }
+    pendingKinds.forEach((kind) => {
+      localStorage.setItem(recordStorageKey(kind), JSON.stringify(records[kind]));
+    });
+    markRecordKindsDone(LEGACY_MIGRATION_FLAG);
+    return true;
+  } catch (e) {
+    console.error("Failed to migrate legacy pet data:", e);
+    return false;
+  }
+}
+
+/**
+ * 통합 저장소의 기록 읽기/쓰기 (비로그인 사용자용)
+ */
+export function getLocalPetRecords<K extends PetRecordKind>(kind: K): PetRecord<K>[] {
+  if (typeof window === "undefined") return [];
+  return toArray(readJson(recordStorageKey(kind))) as unknown as PetRecord<K>[];
+}
+
+export function saveLocalPetRecords<K extends PetRecordKind>(kind: K, records: PetRecord<K>[]): void {
+  try {
+    localStorage.setItem(recordStorageKey(kind), JSON.stringify(records));
+  } catch (e) {
+    console.error(`Failed to save ${kind}:`, e);
+  }
+}
+
+export function clearLocalPetRecords(kinds: readonly PetRecordKind[] = PET_RECORD_KINDS): void {
+  kinds.forEach((kind) => {
+    try {
+      localStorage.removeItem(recordStorageKey(kind));
+    } catch {
+      // ignore
+    }
+  });
+}
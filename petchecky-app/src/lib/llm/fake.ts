@@ -0,0 +1,63 @@
+// 결정적(deterministic) 로컬 프로바이더 - 오프라인 개발 및 테스트용
+
+import { LLMProviderError, type LLMProvider, type LLMRequest } from "./types";
+
+interface FakeProviderOptions {
+  name?: string;
+  /** 고정 응답 또는 요청별 응답 생성 함수 */
+  reply?: string | ((request: LLMRequest) => string);
+  /** 지정하면 항상 해당 HTTP 상태로 실패 (fallback 테스트용) */
+  failWithStatus?: number;
+}
+
+// 기본 응답: 입력 요약 + 면책 문구 (같은 입력이면 항상 같은 출력)
+function defaultReply(request: LLMRequest): string {
+  const texts = request.parts.flatMap((part) => (part.type === "text" ? [part.text] : []));
+  const imageCount = request.parts.length - texts.length;
+  const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
+
+  return [
+    `[fake] 텍스트 ${totalLength}자, 이미지 ${imageCount}개를 받았어요.`,
+    "경과를 지켜보시고 증상이 계속되면 병원을 방문해주세요.",
+    "※ 이 정보는 참고용이며, 정확한 진단은 수의사와 상담하세요.",
+  ].join("\n");
+}
+
+// 공백을 유지한 채 단어 단위로 분할
+function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*/g) || [];
+}
+
+export function createFakeProvider({
+  name = "fake",
+  reply = defaultReply,
+  failWithStatus,
+}: FakeProviderOptions = {}): LLMProvider {
+  const render = (request: LLMRequest) => (typeof reply === "function" ? reply(request) : reply);
+
+  const assertAvailable = () => {
+    if (failWithStatus) {
+      throw new LLMProviderError(name, failWithStatus, `${name} provider failed`);
+    }
+  };
+
+  return {
+    name,
+
+    async generate(request) {
+      assertAvailable();
+      return { text: render(request), provider: name };
+    },
+
+    async stream(request) {
+      assertAvailable();
+      const chunks = splitIntoChunks(render(request));
+
+      return (async function* () {
+        for (const chunk of chunks) {
+          yield chunk;
+        }
+      })();
+    },
+  };
+}
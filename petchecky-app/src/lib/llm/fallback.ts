@@ -0,0 +1,42 @@
+// 순차 fallback 프로바이더
+
+import { LLMProviderError, type LLMProvider, type LLMRequest } from "./types";
+
+function shouldFallback(error: unknown): boolean {
+  return error instanceof LLMProviderError && error.retryable;
+}
+
+/**
+ * 앞 프로바이더가 429/5xx로 실패하면 다음 프로바이더로 넘깁니다.
+ * 스트리밍은 연결 단계에서만 넘기며, 토큰을 보내기 시작한 뒤의 실패는 그대로 전파합니다.
+ */
+export function createFallbackProvider(providers: LLMProvider[]): LLMProvider {
+  if (providers.length === 0) {
+    throw new Error("createFallbackProvider requires at least one provider");
+  }
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  async function tryEach<T>(run: (provider: LLMProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const provider of providers) {
+      try {
+        return await run(provider);
+      } catch (error) {
+        lastError = error;
+        if (!shouldFallback(error)) throw error;
+        console.warn(`LLM provider "${provider.name}" failed, trying next provider`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  return {
+    name: providers.map((provider) => provider.name).join(">"),
+    generate: (request: LLMRequest) => tryEach((provider) => provider.generate(request)),
+    stream: (request: LLMRequest) => tryEach((provider) => provider.stream(request)),
+  };
+}
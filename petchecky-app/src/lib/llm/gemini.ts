@@ -0,0 +1,104 @@
+// Google Gemini REST 프로바이더
+
+import { API_CONFIG } from "@/lib/constants";
+import { readSSEStream } from "@/lib/sse";
+import { LLMProviderError, type LLMPart, type LLMProvider, type LLMRequest } from "./types";
+
+interface GeminiProviderOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+type GeminiPart = { text: string } | { inline_data: { mime_type: string; data: string } };
+
+interface GeminiResponseChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+function toGeminiPart(part: LLMPart): GeminiPart {
+  if (part.type === "image") {
+    return { inline_data: { mime_type: part.mimeType, data: part.data } };
+  }
+  return { text: part.text };
+}
+
+function toRequestBody(request: LLMRequest): string {
+  return JSON.stringify({
+    contents: [
+      {
+        parts: request.parts.map(toGeminiPart),
+      },
+    ],
+    generationConfig: {
+      temperature: request.temperature ?? 0.7,
+      maxOutputTokens: request.maxOutputTokens ?? 2048,
+    },
+  });
+}
+
+// candidates[0].content.parts[*].text 합치기
+function extractText(data: GeminiResponseChunk): string {
+  const parts = data.candidates?.[0]?.content?.parts || [];
+  return parts.map((part) => part.text || "").join("");
+}
+
+export function createGeminiProvider({
+  apiKey,
+  model = API_CONFIG.GEMINI_MODEL,
+  baseUrl = API_CONFIG.GEMINI_BASE_URL,
+}: GeminiProviderOptions): LLMProvider {
+  const name = "gemini";
+
+  async function post(
+    action: "generateContent" | "streamGenerateContent",
+    request: LLMRequest
+  ): Promise<Response> {
+    // 스트리밍은 SSE 형식으로 요청
+    const query = action === "streamGenerateContent" ? "alt=sse&" : "";
+    const response = await fetch(`${baseUrl}/${model}:${action}?${query}key=${apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: toRequestBody(request),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Gemini API Error:", response.status, error);
+      throw new LLMProviderError(name, response.status, "Gemini API 요청 실패");
+    }
+
+    return response;
+  }
+
+  return {
+    name,
+
+    async generate(request) {
+      const response = await post("generateContent", request);
+      const data = (await response.json()) as GeminiResponseChunk;
+      return { text: extractText(data), provider: name };
+    },
+
+    async stream(request) {
+      const response = await post("streamGenerateContent", request);
+      if (!response.body) {
+        throw new LLMProviderError(name, 502, "Gemini 스트림 응답이 비어 있습니다");
+      }
+      const body = response.body;
+
+      return (async function* () {
+        for await (const { data } of readSSEStream(body)) {
+          try {
+            const text = extractText(JSON.parse(data) as GeminiResponseChunk);
+            if (text) yield text;
+          } catch {
+            // 파싱할 수 없는 청크는 무시
+          }
+        }
+      })();
+    },
+  };
+}
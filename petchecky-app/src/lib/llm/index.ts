@@ -0,0 +1,65 @@
+/**
+ * LLM 프로바이더 선택
+ *
+ * 환경변수:
+ * - LLM_PROVIDER: "gemini"(기본) | "fake"
+ * - LLM_FALLBACK_PROVIDER: 1순위가 429/5xx로 실패할 때 사용할 프로바이더 (선택)
+ * - LLM_FALLBACK_MODEL: fallback이 gemini일 때 사용할 모델 (선택)
+ */
+
+import { createFakeProvider } from "./fake";
+import { createFallbackProvider } from "./fallback";
+import { createGeminiProvider } from "./gemini";
+import type { LLMProvider } from "./types";
+
+export { createFakeProvider } from "./fake";
+export { createFallbackProvider } from "./fallback";
+export { createGeminiProvider } from "./gemini";
+export { LLMProviderError } from "./types";
+export type { LLMPart, LLMProvider, LLMRequest, LLMResponse } from "./types";
+
+export const LLM_PROVIDER_NAMES = ["gemini", "fake"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+function isProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+// 설정이 부족하면 null (예: GEMINI_API_KEY 없음)
+function createProvider(name: LLMProviderName, model?: string): LLMProvider | null {
+  switch (name) {
+    case "fake":
+      return createFakeProvider();
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) return null;
+      return createGeminiProvider({ apiKey, model: model || undefined });
+    }
+  }
+}
+
+/**
+ * 환경변수에 맞는 프로바이더를 반환합니다.
+ * 1순위 프로바이더를 만들 수 없으면 null을 반환하므로 라우트에서 설정 오류로 처리하세요.
+ */
+export function getLLMProvider(): LLMProvider | null {
+  const primaryName = process.env.LLM_PROVIDER || "gemini";
+  if (!isProviderName(primaryName)) {
+    console.error(`Unknown LLM_PROVIDER: ${primaryName}`);
+    return null;
+  }
+
+  const primary = createProvider(primaryName);
+  if (!primary) return null;
+
+  const fallbackName = process.env.LLM_FALLBACK_PROVIDER;
+  if (!fallbackName) return primary;
+
+  if (!isProviderName(fallbackName)) {
+    console.warn(`Unknown LLM_FALLBACK_PROVIDER: ${fallbackName}`);
+    return primary;
+  }
+
+  const fallback = createProvider(fallbackName, process.env.LLM_FALLBACK_MODEL);
+  return fallback ? createFallbackProvider([primary, fallback]) : primary;
+}
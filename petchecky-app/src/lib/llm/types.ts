@@ -0,0 +1,49 @@
+// LLM 프로바이더 공통 타입
+
+// 멀티모달 입력 조각
+export type LLMPart =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; data: string }; // data: base64
+
+export interface LLMRequest {
+  parts: LLMPart[];
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  /** 전체 응답을 한 번에 생성 */
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * 스트리밍 생성
+   * 연결이 성공하면 텍스트 조각을 내보내는 이터러블로 resolve되고,
+   * 연결 단계의 실패(429, 5xx 등)는 LLMProviderError로 reject됩니다.
+   */
+  stream(request: LLMRequest): Promise<AsyncIterable<string>>;
+}
+
+/**
+ * 프로바이더 HTTP 오류
+ * status로 라우트에서 사용자 메시지를 고르고, fallback 여부를 판단합니다.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    public provider: string,
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+
+  /** 다른 프로바이더로 넘겨볼 만한 오류인지 (429, 5xx) */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * 약물 안전 확인 (약물 상호작용 / 종별 독성)
+ *
+ * 약 이름을 로컬 약물군 표로 분류해 같이 먹는 약과의 상호작용, 종별 금기를 찾습니다.
+ * 수의사 처방을 대신하지 않으며, 등록 전에 한 번 더 확인하도록 알려주는 용도입니다.
+ */
+
+import type { PetSpecies } from "./species";
+
+export type MedicationWarningSeverity = "danger" | "caution";
+
+export interface MedicationWarning {
+  kind: "interaction" | "toxicity";
+  severity: MedicationWarningSeverity;
+  message: string;
+  /** 상호작용 상대 약 이름 */
+  withMedication?: string;
+}
+
+interface DrugClass {
+  id: string;
+  keywords: string[];
+}
+
+// 약물군 (제품명/성분명, 한글·영문)
+const DRUG_CLASSES: DrugClass[] = [
+  {
+    id: "nsaid",
+    keywords: [
+      "멜록시캄", "meloxicam", "메타캄", "metacam", "카프로펜", "carprofen", "리마딜", "rimadyl",
+      "로베나콕시브", "robenacoxib", "온시오르", "onsior", "피로콕시브", "firocoxib", "프레비콕스", "previcox",
+      "아스피린", "aspirin", "이부프로펜", "ibuprofen", "애드빌", "advil", "부루펜", "나프록센", "naproxen",
+    ],
+  },
+  {
+    id: "human-nsaid",
+    keywords: ["이부프로펜", "ibuprofen", "애드빌", "advil", "부루펜", "나프록센", "naproxen"],
+  },
+  {
+    id: "corticosteroid",
+    keywords: ["프레드니솔론", "prednisolone", "프레드니손", "prednisone", "덱사메타손", "dexamethasone", "스테로이드"],
+  },
+  {
+    id: "acetaminophen",
+    keywords: ["아세트아미노펜", "acetaminophen", "파라세타몰", "paracetamol", "타이레놀", "tylenol"],
+  },
+  {
+    id: "serotonergic",
+    keywords: [
+      "트라마돌", "tramadol", "플루옥세틴", "fluoxetine", "리콘실", "reconcile", "클로미프라민", "clomipramine",
+      "클로미캄", "clomicalm", "셀레길린", "selegiline", "트라조돈", "trazodone",
+    ],
+  },
+  {
+    id: "ace-inhibitor",
+    keywords: ["에날라프릴", "enalapril", "베나제프릴", "benazepril", "포르테코", "fortekor"],
+  },
+  {
+    id: "diuretic",
+    keywords: ["퓨로세마이드", "푸로세미드", "furosemide", "라식스", "lasix", "토라세미드", "torasemide"],
+  },
+  {
+    id: "permethrin",
+    keywords: ["퍼메트린", "permethrin"],
+  },
+  {
+    id: "penicillin",
+    keywords: ["아목시실린", "amoxicillin", "클라불란산", "clavulanate", "암피실린", "ampicillin", "페니실린", "penicillin", "클라바목스", "clavamox"],
+  },
+];
+
+// 같이 먹으면 위험한 약물군 조합
+const INTERACTIONS: { classes: [string, string]; severity: MedicationWarningSeverity; message: string }[] = [
+  { classes: ["nsaid", "nsaid"], severity: "danger", message: "소염진통제를 두 가지 이상 함께 먹으면 위장관 궤양과 신장 손상 위험이 커요" },
+  { classes: ["nsaid", "corticosteroid"], severity: "danger", message: "소염진통제와 스테로이드를 함께 먹으면 위장관 궤양·천공 위험이 커요" },
+  { classes: ["nsaid", "ace-inhibitor"], severity: "caution", message: "소염진통제와 ACE 억제제를 함께 먹으면 신장 기능이 떨어질 수 있어요" },
+  { classes: ["nsaid", "diuretic"], severity: "caution", message: "소염진통제와 이뇨제를 함께 먹으면 신장에 부담이 될 수 있어요" },
+  { classes: ["ace-inhibitor", "diuretic"], severity: "caution", message: "ACE 억제제와 이뇨제를 함께 먹으면 저혈압·탈수가 생길 수 있어 신장 수치 확인이 필요해요" },
+  { classes: ["serotonergic", "serotonergic"], severity: "danger", message: "세로토닌 작용 약물을 함께 먹으면 세로토닌 증후군이 생길 수 있어요" },
+];
+
+// 종별 금기/주의
+const SPECIES_TOXICITY: { species: PetSpecies[]; drugClass: string; severity: MedicationWarningSeverity; message: string }[] = [
+  { species: ["dog", "cat", "ferret"], drugClass: "human-nsaid", severity: "danger", message: "사람용 소염진통제는 소량으로도 위궤양·신부전을 일으킬 수 있어요" },
+  { species: ["cat"], drugClass: "nsaid", severity: "caution", message: "고양이는 소염진통제를 분해하는 능력이 낮아 신부전 위험이 있어요. 처방 용량과 기간을 꼭 지켜주세요" },
+  { species: ["cat", "ferret"], drugClass: "acetaminophen", severity: "danger", message: "아세트아미노펜은 소량으로도 적혈구와 간을 손상시켜 치명적일 수 있어요" },
+  { species: ["dog"], drugClass: "acetaminophen", severity: "danger", message: "아세트아미노펜은 간 손상을 일으킬 수 있어 수의사 처방 없이 먹이면 안 돼요" },
+  { species: ["cat"], drugClass: "permethrin", severity: "danger", message: "퍼메트린(강아지용 외부기생충약)은 고양이에게 경련을 일으키는 치명적인 독성이 있어요" },
+  { species: ["rabbit", "hamster"], drugClass: "penicillin", severity: "danger", message: "페니실린계 항생제를 먹으면 장내 세균이 무너져 치명적인 장염이 생길 수 있어요" },
+];
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * 약 이름에 해당하는 약물군 ID
+ */
+export function identifyDrugClasses(name: string): string[] {
+  const text = normalize(name);
+  if (!text) return [];
+  return DRUG_CLASSES.filter((drugClass) => drugClass.keywords.some((keyword) => text.includes(normalize(keyword)))).map(
+    (drugClass) => drugClass.id
+  );
+}
+
+/**
+ * 새로 등록하는 약의 경고 (위험 먼저)
+ * @param current - 같은 펫이 먹고 있는 다른 약
+ */
+export function checkMedicationSafety(
+  name: string,
+  species: PetSpecies,
+  current: { name: string }[]
+): MedicationWarning[] {
+  const classes = identifyDrugClasses(name);
+  if (classes.length === 0) return [];
+
+  const warnings: MedicationWarning[] = [];
+
+  for (const rule of SPECIES_TOXICITY) {
+    if (rule.species.includes(species) && classes.includes(rule.drugClass)) {
+      warnings.push({ kind: "toxicity", severity: rule.severity, message: rule.message });
+    }
+  }
+
+  for (const other of current) {
+    const otherClasses = identifyDrugClasses(other.name);
+    const rule = INTERACTIONS.find(
+      ({ classes: [a, b] }) =>
+        (classes.includes(a) && otherClasses.includes(b)) || (classes.includes(b) && otherClasses.includes(a))
+    );
+    if (rule) {
+      warnings.push({ kind: "interaction", severity: rule.severity, message: rule.message, withMedication: other.name });
+    }
+  }
+
+  return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "danger" ? -1 : 1));
+}
@@ -0,0 +1,240 @@
+/**
+ * 투약 일정 계산
+ *
+ * 복용 횟수(frequency)와 시간대(timeOfDay)로 날짜별 복용 슬롯을 만들고,
+ * 복용 기록(logs)과 맞춰 정시/지각/건너뜀/놓침 상태, 복용 순응도, 재고 소진일을 계산합니다.
+ * (순수 함수 - 저장소/네트워크 없음) 날짜는 "YYYY-MM-DD", 시각은 로컬 시간 기준입니다.
+ */
+
+import type { Medication, MedicationLog } from "@/types/petRecords";
+
+export type DoseTimeOfDay = Medication["timeOfDay"][number];
+
+export type DoseSlotStatus = "taken" | "late" | "skipped" | "missed" | "due" | "upcoming";
+
+export interface DoseSlot {
+  date: string;
+  timeOfDay: DoseTimeOfDay;
+  /** "YYYY-MM-DDTHH:mm" (로컬) */
+  scheduledAt: string;
+  status: DoseSlotStatus;
+  log?: MedicationLog;
+}
+
+export interface AdherenceStats {
+  /** 복용했어야 하는 횟수 (아직 시간이 남은 슬롯 제외) */
+  expected: number;
+  onTime: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  /** 복용한 비율 (0~100), 필요시 복용 약이거나 대상 슬롯이 없으면 null */
+  rate: number | null;
+}
+
+// 시간대별 복용 시각 (서버 복약 알림도 같은 시각 사용)
+export const MEDICATION_SLOT_TIMES: Record<DoseTimeOfDay, string> = {
+  morning: "08:00",
+  afternoon: "12:00",
+  evening: "18:00",
+  night: "22:00",
+};
+
+const TIME_OF_DAY_ORDER: DoseTimeOfDay[] = ["morning", "afternoon", "evening", "night"];
+
+// 시간대를 덜 골랐을 때 채우는 기본 시간대
+const DEFAULT_SLOTS: Record<Exclude<Medication["frequency"], "asNeeded">, DoseTimeOfDay[]> = {
+  once: ["morning"],
+  twice: ["morning", "evening"],
+  three: ["morning", "afternoon", "evening"],
+};
+
+// 예정 시각 이후 이 시간 안에 먹으면 정시 복용
+export const LATE_AFTER_MINUTES = 60;
+// 예정 시각 이후 이 시간이 지나도록 기록이 없으면 놓침
+export const MISSED_AFTER_MINUTES = 4 * 60;
+// 순응도 계산 기간
+export const ADHERENCE_DAYS = 30;
+// 약이 떨어지기 며칠 전에 리필할지
+export const REFILL_LEAD_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function parseLocal(dateTime: string): number {
+  const [date, time = "00:00"] = dateTime.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+/**
+ * 하루 복용 시간대 (복용 횟수만큼, 시간 순)
+ */
+export function getDailySlots(med: Pick<Medication, "frequency" | "timeOfDay">): DoseTimeOfDay[] {
+  if (med.frequency === "asNeeded") return [];
+  const defaults = DEFAULT_SLOTS[med.frequency];
+  const chosen = TIME_OF_DAY_ORDER.filter((slot) => med.timeOfDay.includes(slot));
+  // 고른 시간대가 모자라면 기본 시간대로 채움
+  const filled = [...chosen, ...defaults.filter((slot) => !chosen.includes(slot))];
+  return TIME_OF_DAY_ORDER.filter((slot) => filled.slice(0, defaults.length).includes(slot));
+}
+
+function findLog(med: Pick<Medication, "logs">, date: string, timeOfDay: DoseTimeOfDay): MedicationLog | undefined {
+  // 같은 슬롯에 기록이 여러 개면 마지막 기록 기준
+  return [...med.logs].reverse().find((log) => log.date === date && log.time === timeOfDay);
+}
+
+function slotStatus(scheduledAt: string, log: MedicationLog | undefined, now: Date): DoseSlotStatus {
+  const scheduled = parseLocal(scheduledAt);
+  if (log) {
+    if (!log.taken) return "skipped";
+    // 복용 시각이 없는 예전 기록은 정시로 봄
+    if (!log.takenAt) return "taken";
+    return new Date(log.takenAt).getTime() - scheduled > LATE_AFTER_MINUTES * MINUTE_MS ? "late" : "taken";
+  }
+  const elapsed = now.getTime() - scheduled;
+  if (elapsed > MISSED_AFTER_MINUTES * MINUTE_MS) return "missed";
+  if (elapsed >= 0) return "due";
+  return "upcoming";
+}
+
+/**
+ * 기간 안의 복용 슬롯 (복용 시작/종료일 반영, 날짜·시간 순)
+ */
+export function getDoseSlots(
+  med: Pick<Medication, "frequency" | "timeOfDay" | "startDate" | "endDate" | "logs">,
+  from: string,
+  to: string,
+  now: Date
+): DoseSlot[] {
+  const daily = getDailySlots(med);
+  if (daily.length === 0) return [];
+
+  const start = from > med.startDate ? from : med.startDate.slice(0, 10);
+  const end = med.endDate && med.endDate < to ? med.endDate.slice(0, 10) : to;
+
+  const slots: DoseSlot[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    for (const timeOfDay of daily) {
+      const scheduledAt = `${date}T${MEDICATION_SLOT_TIMES[timeOfDay]}`;
+      const log = findLog(med, date, timeOfDay);
+      slots.push({ date, timeOfDay, scheduledAt, status: slotStatus(scheduledAt, log, now), log });
+    }
+  }
+  return slots;
+}
+
+/**
+ * 오늘 복용 슬롯
+ */
+export function getTodaySlots(med: Medication, now: Date): DoseSlot[] {
+  const today = toLocalDate(now);
+  return getDoseSlots(med, today, today, now);
+}
+
+/**
+ * 복용 순응도 (최근 ADHERENCE_DAYS일)
+ * 아직 복용 시간이 남은 슬롯(due/upcoming)은 계산에서 뺍니다.
+ */
+export function computeAdherence(med: Medication, now: Date, days = ADHERENCE_DAYS): AdherenceStats {
+  const today = toLocalDate(now);
+  const slots = getDoseSlots(med, addDays(today, -(days - 1)), today, now);
+
+  const stats = { expected: 0, onTime: 0, late: 0, skipped: 0, missed: 0 };
+  for (const slot of slots) {
+    if (slot.status === "due" || slot.status === "upcoming") continue;
+    stats.expected++;
+    if (slot.status === "taken") stats.onTime++;
+    else if (slot.status === "late") stats.late++;
+    else if (slot.status === "skipped") stats.skipped++;
+    else stats.missed++;
+  }
+
+  return {
+    ...stats,
+    rate: stats.expected > 0 ? Math.round(((stats.onTime + stats.late) / stats.expected) * 100) : null,
+  };
+}
+
+/**
+ * 복용/건너뜀 기록 후 바뀔 값 (같은 슬롯 기록은 교체, 복용하면 재고 1 차감)
+ */
+export function recordDose(
+  med: Medication,
+  slot: Pick<DoseSlot, "date" | "timeOfDay">,
+  taken: boolean,
+  now: Date,
+  id: string
+): Pick<Medication, "logs" | "remainingDoses"> {
+  const previous = findLog(med, slot.date, slot.timeOfDay);
+  const log: MedicationLog = {
+    id,
+    date: slot.date,
+    time: slot.timeOfDay,
+    taken,
+    takenAt: taken ? now.toISOString() : undefined,
+    notes: taken ? undefined : "복용 건너뜀",
+  };
+
+  // 재고는 새로 복용한 경우에만 차감 (이미 복용한 슬롯을 다시 기록하거나 건너뜀으로 바꾸면 되돌림)
+  const wasTaken = !!previous?.taken;
+  const delta = (taken ? 1 : 0) - (wasTaken ? 1 : 0);
+  const remainingDoses =
+    med.remainingDoses === undefined ? undefined : Math.max(0, med.remainingDoses - delta);
+
+  return {
+    logs: [...med.logs.filter((l) => l !== previous), log],
+    remainingDoses,
+  };
+}
+
+/**
+ * 남은 재고로 약이 떨어지는 날
+ * 필요시 복용 약은 최근 순응도 기간의 실제 복용량으로 추정합니다.
+ * 재고 정보가 없거나 복용 종료일 전에 떨어지지 않으면 null.
+ */
+export function predictRunOutDate(med: Medication, today: string): string | null {
+  if (med.remainingDoses === undefined || !med.isActive) return null;
+
+  const daily = getDailySlots(med);
+  let perDay = daily.length;
+  if (perDay === 0) {
+    const since = addDays(today, -(ADHERENCE_DAYS - 1));
+    perDay = med.logs.filter((log) => log.taken && log.date >= since).length / ADHERENCE_DAYS;
+  }
+  if (perDay === 0) return null;
+
+  // 오늘 이미 먹은 만큼은 재고에서 빠져 있으므로 오늘 하루치부터 셈
+  const takenToday = med.logs.filter(
+    (log) => log.taken && log.date === today && daily.includes(log.time as DoseTimeOfDay)
+  ).length;
+  const runOut = addDays(today, Math.floor((med.remainingDoses + takenToday) / perDay));
+
+  if (med.endDate && runOut > med.endDate.slice(0, 10)) return null;
+  return runOut;
+}
+
+/**
+ * 리필 권장일 (직접 입력한 리필 예정일이 없을 때 재고로 예측)
+ */
+export function predictRefillDate(med: Medication, today: string): string | null {
+  if (med.refillDate) return med.refillDate.slice(0, 10);
+  const runOut = predictRunOutDate(med, today);
+  if (!runOut) return null;
+  const refill = addDays(runOut, -REFILL_LEAD_DAYS);
+  return refill > today ? refill : today;
+}
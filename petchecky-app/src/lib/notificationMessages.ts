@@ -0,0 +1,207 @@
+/**
+ * 알림 문구 생성
+ * 브라우저 인앱 알림(lib/notifications.ts)과 서버 푸시(lib/pushSubscriptions.ts)가
+ * 같은 제목/본문/링크를 쓰도록 한 곳에서 만듭니다.
+ */
+
+import type { NotificationPriority, NotificationType } from './notifications';
+
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  message: string;
+  priority: NotificationPriority;
+  link?: string;
+}
+
+export type ReservationNotificationStatus = 'confirmed' | 'cancelled' | 'reminder';
+
+export function buildVaccinationReminder(
+  petName: string,
+  vaccineName: string,
+  dueDate: string
+): NotificationMessage {
+  return {
+    type: 'reminder',
+    title: `${petName}의 예방접종 알림`,
+    message: `${vaccineName} 예방접종 예정일이 ${dueDate}입니다.`,
+    priority: 'high',
+    link: '/vaccination',
+  };
+}
+
+export function buildMedicationReminder(
+  petName: string,
+  medicationName: string
+): NotificationMessage {
+  return {
+    type: 'reminder',
+    title: `${petName}의 약물 복용 시간`,
+    message: `${medicationName}을(를) 복용할 시간입니다.`,
+    priority: 'high',
+    link: '/medication',
+  };
+}
+
+export function buildReservationNotification(
+  hospitalName: string,
+  date: string,
+  time: string,
+  status: ReservationNotificationStatus
+): NotificationMessage {
+  const titles = {
+    confirmed: '예약이 확정되었습니다',
+    cancelled: '예약이 취소되었습니다',
+    reminder: '예약 알림',
+  };
+
+  const messages = {
+    confirmed: `${hospitalName}에서 ${date} ${time} 예약이 확정되었습니다.`,
+    cancelled: `${hospitalName} ${date} ${time} 예약이 취소되었습니다.`,
+    reminder: `내일 ${time}에 ${hospitalName} 방문 예정입니다.`,
+  };
+
+  return {
+    type: 'reservation',
+    title: titles[status],
+    message: messages[status],
+    priority: status === 'reminder' ? 'high' : 'normal',
+    link: '/vet-consultation',
+  };
+}
+
+export function buildRefillReminder(
+  petName: string,
+  medicationName: string,
+  refillDate: string
+): NotificationMessage {
+  return {
+    type: 'reminder',
+    title: `${petName}의 약 처방 갱신 알림`,
+    message: `${medicationName} 재처방 예정일이 ${refillDate}입니다.`,
+    priority: 'normal',
+    link: '/medication',
+  };
+}
+
+/**
+ * 리마인더 페이지에서 보호자가 직접 등록한 알림
+ */
+export function buildCustomReminder(
+  petName: string,
+  title: string,
+  description?: string
+): NotificationMessage {
+  return {
+    type: 'reminder',
+    title: `${petName} - ${title}`,
+    message: description || title,
+    priority: 'normal',
+    link: '/reminders',
+  };
+}
+
+/**
+ * 정기결제 갱신 실패 (독촉 알림)
+ * @param nextRetryDate 다음 재시도 날짜 (없으면 재시도 없음)
+ */
+export function buildPaymentFailedNotification(
+  planName: string,
+  nextRetryDate: string | null,
+  gracePeriodEnd: string
+): NotificationMessage {
+  return {
+    type: 'system',
+    title: `${planName} 구독 결제에 실패했습니다`,
+    message: nextRetryDate
+      ? `${nextRetryDate}에 다시 결제를 시도합니다. 카드 정보를 확인해 주세요. ${gracePeriodEnd}까지는 계속 이용할 수 있습니다.`
+      : `카드 정보를 확인해 주세요. ${gracePeriodEnd}까지 결제되지 않으면 구독이 종료됩니다.`,
+    priority: 'high',
+    link: '/subscription',
+  };
+}
+
+export function buildSubscriptionExpiredNotification(planName: string): NotificationMessage {
+  return {
+    type: 'system',
+    title: `${planName} 구독이 종료되었습니다`,
+    message: '결제가 완료되지 않아 구독이 종료되었습니다. 다시 구독하면 바로 이용할 수 있습니다.',
+    priority: 'high',
+    link: '/subscription',
+  };
+}
+
+/**
+ * QR 인식표 스캔 / 발견자 위치 공유
+ */
+export function buildPetTagScanNotification(petName: string, withLocation: boolean): NotificationMessage {
+  return {
+    type: 'system',
+    title: withLocation ? `${petName}의 발견 위치가 공유되었습니다` : `${petName}의 인식표가 스캔되었습니다`,
+    message: withLocation
+      ? '발견자가 현재 위치를 공유했습니다. 스캔 기록에서 지도를 확인해 주세요.'
+      : '누군가 인식표의 QR 코드를 스캔했습니다.',
+    priority: 'urgent',
+    link: '/qr-pet-id',
+  };
+}
+
+/**
+ * 발견자가 남긴 메시지 (보호자 연락처 대신 중계)
+ */
+export function buildFinderMessageNotification(petName: string, message: string, contact?: string): NotificationMessage {
+  const preview = message.length > 100 ? `${message.slice(0, 100)}…` : message;
+  return {
+    type: 'system',
+    title: `${petName} 발견자의 메시지`,
+    message: contact ? `${preview} (연락처: ${contact})` : preview,
+    priority: 'urgent',
+    link: '/qr-pet-id',
+  };
+}
+
+/**
+ * 1:1 메시지 (앱을 열어두지 않은 상대에게 푸시로 전달)
+ */
+export function buildDirectMessageNotification(
+  senderName: string,
+  content: string,
+  conversationId: string
+): NotificationMessage {
+  const preview = content.length > 100 ? `${content.slice(0, 100)}…` : content;
+  return {
+    type: 'community',
+    title: `${senderName}님의 메시지`,
+    message: preview,
+    priority: 'normal',
+    link: `/messages?conversation=${conversationId}`,
+  };
+}
+
+/**
+ * 내 댓글에 달린 답글
+ */
+export function buildCommentReplyNotification(authorName: string, content: string, postId: string): NotificationMessage {
+  const preview = content.length > 100 ? `${content.slice(0, 100)}…` : content;
+  return {
+    type: 'community',
+    title: `${authorName}님이 답글을 남겼어요`,
+    message: preview,
+    priority: 'normal',
+    link: `/community/${postId}`,
+  };
+}
+
+/**
+ * 댓글에서 나를 @멘션
+ */
+export function buildCommentMentionNotification(authorName: string, content: string, postId: string): NotificationMessage {
+  const preview = content.length > 100 ? `${content.slice(0, 100)}…` : content;
+  return {
+    type: 'community',
+    title: `${authorName}님이 댓글에서 회원님을 언급했어요`,
+    message: preview,
+    priority: 'normal',
+    link: `/community/${postId}`,
+  };
+}
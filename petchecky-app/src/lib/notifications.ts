@@ -3,8 +3,18 @@
  * - Web Push Notification
  * - 인앱 알림
  * - 이메일 알림 (서버 사이드)
+ *
+ * 탭이 닫혀 있을 때의 푸시 발송은 lib/pushSubscriptions.ts (서버)에서 처리합니다.
  */
 
+import {
+  buildMedicationReminder,
+  buildReservationNotification,
+  buildVaccinationReminder,
+  type NotificationMessage,
+  type ReservationNotificationStatus,
+} from './notificationMessages';
+
 // 알림 타입
 export type NotificationType =
   | 'reminder'      // 리마인더 (예방접종, 약물 등)
@@ -54,7 +64,7 @@ const NOTIFICATION_STORAGE_KEY = 'petchecky_notifications';
 const SETTINGS_STORAGE_KEY = 'petchecky_notification_settings';
 
 // 기본 설정
-const DEFAULT_SETTINGS: NotificationSettings = {
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
   push: true,
   email: true,
   inApp: true,
@@ -166,6 +176,26 @@ export function saveNotification(notification: Omit<Notification, 'id' | 'create
   return newNotification;
 }
 
+/**
+ * 서버에서 받은 알림(리마인더 작업 등) 합치기
+ * 이미 있는 ID는 건너뜁니다.
+ * @returns 새로 추가된 개수
+ */
+export function mergeServerNotifications(incoming: Notification[]): number {
+  const notifications = getNotifications();
+  const existingIds = new Set(notifications.map(n => n.id));
+  const added = incoming.filter(n => !existingIds.has(n.id));
+
+  if (added.length === 0) return 0;
+
+  const merged = [...added, ...notifications]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, 100);
+  localStorage.setItem(NOTIFICATION_STORAGE_KEY, JSON.stringify(merged));
+
+  return added.length;
+}
+
 /**
  * 알림 읽음 처리
  */
@@ -211,15 +241,15 @@ export function getUnreadCount(): number {
  * 알림 설정 조회
  */
 export function getNotificationSettings(): NotificationSettings {
-  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+  if (typeof window === 'undefined') return DEFAULT_NOTIFICATION_SETTINGS;
 
   const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
-  if (!stored) return DEFAULT_SETTINGS;
+  if (!stored) return DEFAULT_NOTIFICATION_SETTINGS;
 
   try {
-    return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    return { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) };
   } catch {
-    return DEFAULT_SETTINGS;
+    return DEFAULT_NOTIFICATION_SETTINGS;
   }
 }
 
@@ -233,17 +263,16 @@ export function saveNotificationSettings(settings: Partial<NotificationSettings>
 }
 
 /**
- * 방해금지 시간인지 확인
+ * 주어진 시각(HH:mm)이 방해금지 시간대에 속하는지 확인
+ * 서버 리마인더 작업도 보호자 시간대 기준 시각으로 같은 규칙을 사용합니다.
  */
-export function isQuietHours(): boolean {
-  const settings = getNotificationSettings();
-
-  if (!settings.quietHours?.enabled) return false;
+export function isWithinQuietHours(
+  quietHours: NotificationSettings['quietHours'],
+  currentTime: string
+): boolean {
+  if (!quietHours?.enabled) return false;
 
-  const now = new Date();
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-
-  const { start, end } = settings.quietHours;
+  const { start, end } = quietHours;
 
   // 시간 비교 (자정 넘어가는 경우 처리)
   if (start <= end) {
@@ -253,6 +282,18 @@ export function isQuietHours(): boolean {
   }
 }
 
+/**
+ * 방해금지 시간인지 확인
+ */
+export function isQuietHours(): boolean {
+  const settings = getNotificationSettings();
+
+  const now = new Date();
+  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+
+  return isWithinQuietHours(settings.quietHours, currentTime);
+}
+
 /**
  * 특정 타입의 알림이 활성화되어 있는지 확인
  */
@@ -327,6 +368,11 @@ export async function sendNotification(
 
 // ============ 리마인더 알림 헬퍼 ============
 
+// 서버 푸시와 같은 문구를 쓰는 알림 발송
+function sendMessage({ type, title, message, priority, link }: NotificationMessage): Promise<Notification | null> {
+  return sendNotification(type, title, message, { priority, link });
+}
+
 /**
  * 예방접종 리마인더 알림
  */
@@ -335,12 +381,7 @@ export function sendVaccinationReminder(
   vaccineName: string,
   dueDate: string
 ): Promise<Notification | null> {
-  return sendNotification(
-    'reminder',
-    `${petName}의 예방접종 알림`,
-    `${vaccineName} 예방접종 예정일이 ${dueDate}입니다.`,
-    { priority: 'high', link: '/vaccination' }
-  );
+  return sendMessage(buildVaccinationReminder(petName, vaccineName, dueDate));
 }
 
 /**
@@ -350,12 +391,7 @@ export function sendMedicationReminder(
   petName: string,
   medicationName: string
 ): Promise<Notification | null> {
-  return sendNotification(
-    'reminder',
-    `${petName}의 약물 복용 시간`,
-    `${medicationName}을(를) 복용할 시간입니다.`,
-    { priority: 'high', link: '/medication' }
-  );
+  return sendMessage(buildMedicationReminder(petName, medicationName));
 }
 
 /**
@@ -396,22 +432,7 @@ export function sendReservationNotification(
   hospitalName: string,
   date: string,
   time: string,
-  status: 'confirmed' | 'cancelled' | 'reminder'
+  status: ReservationNotificationStatus
 ): Promise<Notification | null> {
-  const titles = {
-    confirmed: '예약이 확정되었습니다',
-    cancelled: '예약이 취소되었습니다',
-    reminder: '예약 알림',
-  };
-
-  const messages = {
-    confirmed: `${hospitalName}에서 ${date} ${time} 예약이 확정되었습니다.`,
-    cancelled: `${hospitalName} ${date} ${time} 예약이 취소되었습니다.`,
-    reminder: `내일 ${time}에 ${hospitalName} 방문 예정입니다.`,
-  };
-
-  return sendNotification('reservation', titles[status], messages[status], {
-    priority: status === 'reminder' ? 'high' : 'normal',
-    link: '/vet-consultation',
-  });
+  return sendMessage(buildReservationNotification(hospitalName, date, time, status));
 }
@@ -0,0 +1,156 @@
+/**
+ * 채팅 상담용 펫 건강 기록 요약
+ *
+ * - collectPetHealthRecords: (클라이언트) 저장된 기록에서 상담에 필요한 항목만 추립니다.
+ * - buildPetHealthSummary: (서버) 정제된 요약 텍스트를 토큰 예산 안에서 만들고, 실제로 포함된 항목을 반환합니다.
+ */
+
+import { formatDateForInput } from './dateUtils';
+import type { PetHealthRecordsInput } from './validations/chat';
+import type { SharedHealthRecord } from '@/types/chat';
+import type { Medication, Vaccination, VetRecord } from '@/types/petRecords';
+
+// 프롬프트에 넣을 건강 기록 요약의 최대 토큰 수 (대략치)
+export const HEALTH_SUMMARY_TOKEN_BUDGET = 300;
+
+const MAX_TEXT_LENGTH = 100;
+const MAX_ITEMS = 20;
+const RECENT_VET_VISITS = 3;
+
+const ALLERGY_SEVERITY_LABELS = {
+  mild: '경미',
+  moderate: '중등도',
+  severe: '심각',
+} as const;
+
+interface PetHealthSources {
+  allergies: { name: string; severity?: keyof typeof ALLERGY_SEVERITY_LABELS }[];
+  medications: Medication[];
+  vetRecords: VetRecord[];
+  vaccinations: Vaccination[];
+}
+
+// 요청 스키마 길이 제한을 넘지 않도록 자르고, 빈 값은 undefined
+function clip(text: string | undefined): string | undefined {
+  const trimmed = text?.trim();
+  return trimmed ? trimmed.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+/**
+ * 알레르기, 복용 중인 약, 최근 진료 3건, 기한이 지난 예방접종을 추립니다.
+ */
+export function collectPetHealthRecords(
+  { allergies, medications, vetRecords, vaccinations }: PetHealthSources,
+  now: Date = new Date()
+): PetHealthRecordsInput {
+  const today = formatDateForInput(now);
+
+  const activeMedications = medications.filter(
+    (medication) => medication.isActive && (!medication.endDate || medication.endDate.slice(0, 10) >= today)
+  );
+
+  const recentVisits = [...vetRecords]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_VET_VISITS);
+
+  // 같은 백신은 가장 최근 접종 기록의 다음 예정일로 판단
+  const latestByVaccine = new Map<string, Vaccination>();
+  for (const vaccination of vaccinations) {
+    const latest = latestByVaccine.get(vaccination.name);
+    if (!latest || vaccination.date > latest.date) {
+      latestByVaccine.set(vaccination.name, vaccination);
+    }
+  }
+  const overdueVaccines = [...latestByVaccine.values()].filter(
+    (vaccination) => vaccination.nextDate && vaccination.nextDate.slice(0, 10) < today
+  );
+
+  return {
+    allergies: allergies
+      .flatMap((allergy) => {
+        const name = clip(allergy.name);
+        return name ? [{ name, severity: allergy.severity }] : [];
+      })
+      .slice(0, MAX_ITEMS),
+    medications: activeMedications
+      .flatMap((medication) => {
+        const name = clip(medication.name);
+        return name ? [{ name, dosage: clip(medication.dosage) }] : [];
+      })
+      .slice(0, MAX_ITEMS),
+    vetVisits: recentVisits.map((record) => ({
+      date: record.date.slice(0, 10),
+      diagnosis: clip(record.diagnosis),
+      hospitalName: clip(record.hospitalName),
+    })),
+    overdueVaccines: overdueVaccines
+      .flatMap((vaccination) => {
+        const name = clip(vaccination.name);
+        return name ? [{ name, dueDate: (vaccination.nextDate || '').slice(0, 10) }] : [];
+      })
+      .slice(0, MAX_ITEMS),
+  };
+}
+
+/**
+ * 대략적인 토큰 수 추정 (한글 기준 2자당 1토큰으로 보수적으로 계산)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 2);
+}
+
+interface BuildSummaryOptions {
+  budget?: number;
+  /** 각 항목 문자열 정제 함수 (서버에서 프롬프트 인젝션 방어용) */
+  sanitize?: (text: string) => string;
+}
+
+/**
+ * 프롬프트용 건강 기록 요약을 만듭니다.
+ * 알레르기 > 복용 약 > 최근 진료 > 미접종 순으로 예산이 허락하는 만큼만 포함합니다.
+ */
+export function buildPetHealthSummary(
+  records: PetHealthRecordsInput,
+  { budget = HEALTH_SUMMARY_TOKEN_BUDGET, sanitize = (text) => text }: BuildSummaryOptions = {}
+): { text: string; shared: SharedHealthRecord[] } {
+  const candidates: (SharedHealthRecord & { line: string })[] = [
+    ...records.allergies.map((allergy) => {
+      const label = sanitize(allergy.name);
+      const severity = allergy.severity ? ` (${ALLERGY_SEVERITY_LABELS[allergy.severity]})` : '';
+      return { category: 'allergy' as const, label, line: `- 알레르기: ${label}${severity}` };
+    }),
+    ...records.medications.map((medication) => {
+      const label = sanitize(medication.name);
+      const dosage = medication.dosage ? ` ${sanitize(medication.dosage)}` : '';
+      return { category: 'medication' as const, label, line: `- 복용 중인 약: ${label}${dosage}` };
+    }),
+    ...records.vetVisits.map((visit) => {
+      const date = sanitize(visit.date);
+      const diagnosis = visit.diagnosis ? sanitize(visit.diagnosis) : '진단 기록 없음';
+      const hospital = visit.hospitalName ? ` (${sanitize(visit.hospitalName)})` : '';
+      const label = `${date} ${diagnosis}`;
+      return { category: 'vetVisit' as const, label, line: `- 진료 ${date}${hospital}: ${diagnosis}` };
+    }),
+    ...records.overdueVaccines.map((vaccine) => {
+      const label = sanitize(vaccine.name);
+      return { category: 'vaccine' as const, label, line: `- 접종 기한 지남: ${label} (예정일 ${sanitize(vaccine.dueDate)})` };
+    }),
+  ];
+
+  const lines: string[] = [];
+  const shared: SharedHealthRecord[] = [];
+  let usedTokens = 0;
+
+  for (const { line, category, label } of candidates) {
+    if (!label) continue;
+
+    const tokens = estimateTokens(line);
+    if (usedTokens + tokens > budget) break;
+
+    usedTokens += tokens;
+    lines.push(line);
+    shared.push({ category, label });
+  }
+
+  return { text: lines.join('\n'), shared };
+}
@@ -0,0 +1,431 @@
+/**
+ * 펫 건강 기록 저장소 (서버 전용)
+ *
+ * /api/pets/[id]/... 라우트에서 사용합니다. 서비스 롤 클라이언트로 RLS를 우회하므로
+ * 모든 함수는 인증된 userId를 받아 소유권을 직접 확인합니다.
+ */
+
+import { supabaseAdmin } from './auth';
+import { petDedupKey } from './legacyPetData';
+import { PET_RECORD_SCHEMAS, type LegacyMigrationInput } from './validations/petRecords';
+import type { Pet } from './supabase/pets';
+import { findBreed } from './breeds';
+import {
+  PET_RECORD_KINDS,
+  type PetRecord,
+  type PetRecordInput,
+  type PetRecordKind,
+} from '@/types/petRecords';
+
+interface RecordTableConfig {
+  table: string;
+  orderBy: string;
+  // 도메인 필드 -> DB 컬럼 (id, petId 제외)
+  columns: Record<string, string>;
+  // DECIMAL 등 문자열로 내려오는 숫자 컬럼
+  numeric?: string[];
+}
+
+const RECORD_TABLES: Record<PetRecordKind, RecordTableConfig> = {
+  medications: {
+    table: 'pet_medications',
+    orderBy: 'start_date',
+    columns: {
+      name: 'name',
+      dosage: 'dosage',
+      frequency: 'frequency',
+      timeOfDay: 'time_of_day',
+      startDate: 'start_date',
+      endDate: 'end_date',
+      prescribedBy: 'prescribed_by',
+      notes: 'notes',
+      refillDate: 'refill_date',
+      remainingDoses: 'remaining_doses',
+      isActive: 'is_active',
+      logs: 'logs',
+    },
+  },
+  'vet-records': {
+    table: 'pet_vet_records',
+    orderBy: 'visit_date',
+    columns: {
+      date: 'visit_date',
+      hospitalName: 'hospital_name',
+      vetName: 'vet_name',
+      visitType: 'visit_type',
+      diagnosis: 'diagnosis',
+      symptoms: 'symptoms',
+      treatment: 'treatment',
+      prescriptions: 'prescriptions',
+      testResults: 'test_results',
+      nextVisitDate: 'next_visit_date',
+      cost: 'cost',
+      notes: 'notes',
+      createdAt: 'created_at',
+    },
+  },
+  walks: {
+    table: 'pet_walks',
+    orderBy: 'walk_date',
+    columns: {
+      date: 'walk_date',
+      startTime: 'start_time',
+      endTime: 'end_time',
+      duration: 'duration',
+      distance: 'distance',
+      location: 'location',
+      weather: 'weather',
+      mood: 'mood',
+      notes: 'notes',
+      route: 'route',
+      movingTime: 'moving_time',
+    },
+    numeric: ['distance'],
+  },
+  'diet-logs': {
+    table: 'pet_diet_logs',
+    orderBy: 'log_date',
+    columns: {
+      date: 'log_date',
+      foodName: 'food_name',
+      amount: 'amount',
+      mealTime: 'meal_time',
+      ingredients: 'ingredients',
+      notes: 'notes',
+    },
+  },
+  vaccinations: {
+    table: 'pet_vaccinations',
+    orderBy: 'vaccinated_on',
+    columns: {
+      name: 'name',
+      date: 'vaccinated_on',
+      nextDate: 'next_date',
+      hospital: 'hospital',
+      notes: 'notes',
+      completed: 'completed',
+      type: 'vaccine_type',
+      titerResult: 'titer_result',
+    },
+  },
+  'insurance-claims': {
+    table: 'pet_insurance_claims',
+    orderBy: 'claim_date',
+    columns: {
+      date: 'claim_date',
+      hospitalName: 'hospital_name',
+      treatmentType: 'treatment_type',
+      totalAmount: 'total_amount',
+      claimedAmount: 'claimed_amount',
+      status: 'status',
+      notes: 'notes',
+    },
+  },
+  reminders: {
+    table: 'pet_reminders',
+    orderBy: 'remind_date',
+    columns: {
+      petName: 'pet_name',
+      type: 'reminder_type',
+      title: 'title',
+      description: 'description',
+      date: 'remind_date',
+      time: 'remind_time',
+      repeat: 'repeat',
+      enabled: 'enabled',
+    },
+  },
+};
+
+function selectColumns(kind: PetRecordKind): string {
+  const { columns } = RECORD_TABLES[kind];
+  return ['id', 'pet_id', ...new Set(Object.values(columns))].join(', ');
+}
+
+function toRow(kind: PetRecordKind, input: Record<string, unknown>): Record<string, unknown> {
+  const { columns } = RECORD_TABLES[kind];
+  const row: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(columns)) {
+    // created_at은 DB가 관리
+    if (column === 'created_at') continue;
+    if (field in input) {
+      row[column] = input[field] ?? null;
+    }
+  }
+  return row;
+}
+
+function fromRow<K extends PetRecordKind>(kind: K, row: Record<string, unknown>): PetRecord<K> {
+  const { columns, numeric = [] } = RECORD_TABLES[kind];
+  const record: Record<string, unknown> = {
+    id: row.id,
+    petId: row.pet_id,
+  };
+  for (const [field, column] of Object.entries(columns)) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    record[field] = numeric.includes(field) ? Number(value) : value;
+  }
+  return record as unknown as PetRecord<K>;
+}
+
+// ============ 펫 ============
+
+// 사용자 소유 펫 조회 (소유하지 않았으면 null)
+export async function getOwnedPet(userId: string, petId: string): Promise<Pet | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pets')
+    .select('id, user_id, name, species, breed, breed_id, age, weight, birth_date, lifestyle, created_at, updated_at')
+    .eq('id', petId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching pet:', error);
+    return null;
+  }
+  return data;
+}
+
+// ============ 기록 ============
+
+// 펫의 기록 목록 조회 (최신순)
+export async function listPetRecords<K extends PetRecordKind>(
+  kind: K,
+  userId: string,
+  petId: string
+): Promise<PetRecord<K>[] | null> {
+  const config = RECORD_TABLES[kind];
+  const { data, error } = await supabaseAdmin
+    .from(config.table)
+    .select(selectColumns(kind))
+    .eq('user_id', userId)
+    .eq('pet_id', petId)
+    .order(config.orderBy, { ascending: false });
+
+  if (error) {
+    console.error(`Error fetching ${kind}:`, error);
+    return null;
+  }
+  return ((data || []) as unknown as Record<string, unknown>[]).map((row) => fromRow(kind, row));
+}
+
+// 기록 추가
+export async function createPetRecord<K extends PetRecordKind>(
+  kind: K,
+  userId: string,
+  petId: string,
+  input: PetRecordInput<K>
+): Promise<PetRecord<K> | null> {
+  const config = RECORD_TABLES[kind];
+  const { data, error } = await supabaseAdmin
+    .from(config.table)
+    .insert({ ...toRow(kind, input as Record<string, unknown>), pet_id: petId, user_id: userId })
+    .select(selectColumns(kind))
+    .single();
+
+  if (error) {
+    console.error(`Error creating ${kind}:`, error);
+    return null;
+  }
+  return fromRow(kind, data as unknown as Record<string, unknown>);
+}
+
+// 기록 수정 (본인 소유 펫의 기록만)
+export async function updatePetRecord<K extends PetRecordKind>(
+  kind: K,
+  userId: string,
+  petId: string,
+  recordId: string,
+  updates: Partial<PetRecordInput<K>>
+): Promise<PetRecord<K> | null> {
+  const config = RECORD_TABLES[kind];
+  const { data, error } = await supabaseAdmin
+    .from(config.table)
+    .update(toRow(kind, updates as Record<string, unknown>))
+    .eq('id', recordId)
+    .eq('pet_id', petId)
+    .eq('user_id', userId)
+    .select(selectColumns(kind))
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error updating ${kind}:`, error);
+    return null;
+  }
+  return data ? fromRow(kind, data as unknown as Record<string, unknown>) : null;
+}
+
+// 기록 삭제
+export async function deletePetRecord(
+  kind: PetRecordKind,
+  userId: string,
+  petId: string,
+  recordId: string
+): Promise<boolean> {
+  const { error, count } = await supabaseAdmin
+    .from(RECORD_TABLES[kind].table)
+    .delete({ count: 'exact' })
+    .eq('id', recordId)
+    .eq('pet_id', petId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error(`Error deleting ${kind}:`, error);
+    return false;
+  }
+  return (count ?? 0) > 0;
+}
+
+export type ScannedPetRecord<K extends PetRecordKind> = PetRecord<K> & { userId: string };
+
+interface ScanOptions {
+  /** 컬럼 값이 일치하는 행만 (예: { is_active: true }) */
+  match?: Record<string, unknown>;
+  petIds?: string[];
+  /** 컬럼 값이 from 이상 to 이하인 행만 */
+  range?: { column: string; from: string; to: string };
+}
+
+/**
+ * 사용자 구분 없이 기록 조회 (리마인더 작업 등 서버 배치 전용)
+ * 결과에 소유자 userId를 포함합니다.
+ */
+export async function scanPetRecords<K extends PetRecordKind>(
+  kind: K,
+  { match, petIds, range }: ScanOptions = {}
+): Promise<ScannedPetRecord<K>[] | null> {
+  let query = supabaseAdmin
+    .from(RECORD_TABLES[kind].table)
+    .select(`${selectColumns(kind)}, user_id`);
+
+  if (match) {
+    query = query.match(match);
+  }
+  if (petIds) {
+    query = query.in('pet_id', petIds);
+  }
+  if (range) {
+    query = query.gte(range.column, range.from).lte(range.column, range.to);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error(`Error scanning ${kind}:`, error);
+    return null;
+  }
+  return ((data || []) as unknown as Record<string, unknown>[]).map((row) => ({
+    ...fromRow(kind, row),
+    userId: row.user_id as string,
+  }));
+}
+
+// ============ 레거시 마이그레이션 ============
+
+export interface LegacyImportResult {
+  // 클라이언트 localId -> 서버 펫 ID
+  petIdMap: Record<string, string>;
+  createdPets: number;
+  importedRecords: number;
+  // 만들지 못한 펫의 localId
+  failedPets: string[];
+  // 종류별로 저장하지 못한 기록 ID (검증 실패, 펫 없음, DB 오류)
+  failedRecords: Partial<Record<PetRecordKind, string[]>>;
+}
+
+/**
+ * 클라이언트 localStorage에서 모은 펫/기록을 서버로 가져옵니다.
+ * 펫은 기존 DB 펫과 이름+종류로 중복 제거하고, 기록은 검증을 통과한 것만 저장합니다.
+ * 저장하지 못한 펫/기록은 결과에 담아 돌려주므로 클라이언트는 그것만 남겨 다시 시도합니다.
+ */
+export async function importLegacyPetData(
+  userId: string,
+  bundle: LegacyMigrationInput
+): Promise<LegacyImportResult | null> {
+  const { data: existingPets, error: petsError } = await supabaseAdmin
+    .from('pets')
+    .select('id, name, species')
+    .eq('user_id', userId);
+
+  if (petsError) {
+    console.error('Error fetching pets for migration:', petsError);
+    return null;
+  }
+
+  const byKey = new Map<string, string>(
+    (existingPets || []).map((pet) => [petDedupKey(pet.name, pet.species), pet.id])
+  );
+  const petIdMap: Record<string, string> = {};
+  const failedPets: string[] = [];
+  let createdPets = 0;
+
+  for (const pet of bundle.pets) {
+    const key = petDedupKey(pet.name, pet.species);
+    const existingId = byKey.get(key);
+    if (existingId) {
+      petIdMap[pet.localId] = existingId;
+      continue;
+    }
+
+    const { data: created, error } = await supabaseAdmin
+      .from('pets')
+      .insert({
+        user_id: userId,
+        name: pet.name,
+        species: pet.species,
+        breed: pet.breed,
+        breed_id: findBreed(pet.breed, pet.species)?.id ?? null,
+        age: pet.age,
+        weight: pet.weight,
+      })
+      .select('id')
+      .single();
+
+    if (error || !created) {
+      console.error('Error creating pet during migration:', error);
+      failedPets.push(pet.localId);
+      continue;
+    }
+
+    byKey.set(key, created.id);
+    petIdMap[pet.localId] = created.id;
+    createdPets++;
+  }
+
+  let importedRecords = 0;
+  const failedRecords: Partial<Record<PetRecordKind, string[]>> = {};
+
+  for (const kind of PET_RECORD_KINDS) {
+    const rows: Record<string, unknown>[] = [];
+    const rowIds: string[] = [];
+    const failedIds: string[] = [];
+
+    for (const raw of bundle.records[kind] || []) {
+      const recordId = typeof raw.id === 'string' ? raw.id : '';
+      const petId = typeof raw.petId === 'string' ? petIdMap[raw.petId] : undefined;
+      const parsed = PET_RECORD_SCHEMAS[kind].safeParse(raw);
+      if (!petId || !parsed.success) {
+        failedIds.push(recordId);
+        continue;
+      }
+      rows.push({ ...toRow(kind, parsed.data as Record<string, unknown>), pet_id: petId, user_id: userId });
+      rowIds.push(recordId);
+    }
+
+    if (rows.length > 0) {
+      const { error } = await supabaseAdmin.from(RECORD_TABLES[kind].table).insert(rows);
+      if (error) {
+        console.error(`Error importing ${kind}:`, error);
+        failedIds.push(...rowIds);
+      } else {
+        importedRecords += rows.length;
+      }
+    }
+
+    if (failedIds.length > 0) {
+      failedRecords[kind] = failedIds;
+    }
+  }
+
+  return { petIdMap, createdPets, importedRecords, failedPets, failedRecords };
+}
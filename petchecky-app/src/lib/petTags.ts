@@ -0,0 +1,383 @@
+/**
+ * QR 인식표 저장소 (서버 전용)
+ *
+ * 인식표 QR 코드에는 /found/[token] 주소만 들어가고, 보호자 이름/연락처는 어디에도 공개하지 않습니다.
+ * 발견자는 공개 페이지에서 사진과 특이사항을 보고 메시지를 남기며, 메시지는 보호자에게 인앱 + 푸시로 중계됩니다.
+ * 토큰은 폐기(revoke)할 수 있고, 폐기된 토큰은 발견자 페이지에서 조회되지 않습니다.
+ *
+ * /api/pet-tags/* (보호자)와 /api/found/[token]/* (발견자, 비로그인) 라우트에서 사용합니다.
+ */
+
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from './auth';
+import { getErrorMessage } from './errors';
+import {
+  buildFinderMessageNotification,
+  buildPetTagScanNotification,
+  type NotificationMessage,
+} from './notificationMessages';
+import { sendPushToUser } from './pushSubscriptions';
+import type {
+  CreatePetTagInput,
+  FinderMessageInput,
+  TagScanInput,
+  UpdatePetTagInput,
+} from './validations/petTags';
+import type { FoundPetProfile, PetTag, PetTagActivity, PetTagMessage, PetTagScan } from '@/types/petTags';
+
+// 보호자 화면에 보여줄 최근 기록 수
+const ACTIVITY_LIMIT = 50;
+
+interface PetTagRow {
+  id: string;
+  pet_id: string;
+  user_id: string;
+  token: string;
+  emergency_note: string | null;
+  photo: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+interface PetTagScanRow {
+  id: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  scanned_at: string;
+}
+
+interface PetTagMessageRow {
+  id: string;
+  message: string;
+  finder_contact: string | null;
+  created_at: string;
+}
+
+// 발견자 페이지에서 찾은 인식표 (보호자/펫 정보 포함, 외부로 그대로 내보내지 않음)
+export interface ActivePetTag {
+  id: string;
+  userId: string;
+  profile: FoundPetProfile;
+}
+
+const TAG_COLUMNS = 'id, pet_id, user_id, token, emergency_note, photo, revoked_at, created_at';
+
+/**
+ * 추측할 수 없는 인식표 토큰 (128비트, 16진수 32자)
+ * base64url은 "--"가 나올 수 있어 미들웨어의 SQL 인젝션 검사에 걸리므로 사용하지 않습니다.
+ */
+export function generateTagToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+function toPetTag(row: PetTagRow): PetTag {
+  return {
+    id: row.id,
+    petId: row.pet_id,
+    token: row.token,
+    emergencyNote: row.emergency_note,
+    photo: row.photo,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+function toScan(row: PetTagScanRow): PetTagScan {
+  return {
+    id: row.id,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    accuracy: row.accuracy,
+    scannedAt: row.scanned_at,
+  };
+}
+
+function toMessage(row: PetTagMessageRow): PetTagMessage {
+  return {
+    id: row.id,
+    message: row.message,
+    contact: row.finder_contact,
+    createdAt: row.created_at,
+  };
+}
+
+// ============ 보호자 ============
+
+/**
+ * 사용자의 인식표 목록 (최신순, 폐기된 것 포함)
+ */
+export async function listPetTags(userId: string): Promise<PetTag[]> {
+  const { data, error } = await supabaseAdmin
+    .from('pet_tags')
+    .select(TAG_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`pet_tags fetch failed: ${error.message}`);
+  }
+  return ((data || []) as PetTagRow[]).map(toPetTag);
+}
+
+/**
+ * 인식표 발급 (펫 소유 확인은 호출하는 쪽에서)
+ */
+export async function createPetTag(userId: string, input: CreatePetTagInput): Promise<PetTag | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pet_tags')
+    .insert({
+      user_id: userId,
+      pet_id: input.petId,
+      token: generateTagToken(),
+      emergency_note: input.emergencyNote || null,
+      photo: input.photo ?? null,
+    })
+    .select(TAG_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Pet tag create error:', error.message);
+    return null;
+  }
+  return toPetTag(data as PetTagRow);
+}
+
+/**
+ * 사진/특이사항 수정 (폐기된 인식표는 수정하지 않음)
+ * @returns 본인 인식표가 아니거나 폐기된 경우 null
+ */
+export async function updatePetTag(userId: string, tagId: string, input: UpdatePetTagInput): Promise<PetTag | null> {
+  const updates: Record<string, string | null> = {};
+  if (input.emergencyNote !== undefined) updates.emergency_note = input.emergencyNote || null;
+  if (input.photo !== undefined) updates.photo = input.photo;
+
+  const { data, error } = await supabaseAdmin
+    .from('pet_tags')
+    .update(updates)
+    .eq('id', tagId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select(TAG_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Pet tag update error:', error.message);
+    return null;
+  }
+  return data ? toPetTag(data as PetTagRow) : null;
+}
+
+/**
+ * 인식표 폐기 (이미 인쇄한 QR 코드는 더 이상 펫 정보를 보여주지 않음)
+ * 스캔/메시지 기록은 보호자가 계속 볼 수 있도록 남겨 둡니다.
+ */
+export async function revokePetTag(userId: string, tagId: string): Promise<PetTag | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pet_tags')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tagId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select(TAG_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Pet tag revoke error:', error.message);
+    return null;
+  }
+  return data ? toPetTag(data as PetTagRow) : null;
+}
+
+/**
+ * 인식표의 최근 스캔/메시지 기록
+ * @returns 본인 인식표가 아니면 null
+ */
+export async function getPetTagActivity(userId: string, tagId: string): Promise<PetTagActivity | null> {
+  const { data: tag, error: tagError } = await supabaseAdmin
+    .from('pet_tags')
+    .select('id')
+    .eq('id', tagId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (tagError) {
+    throw new Error(`pet_tags fetch failed: ${tagError.message}`);
+  }
+  if (!tag) return null;
+
+  const [scans, messages] = await Promise.all([
+    supabaseAdmin
+      .from('pet_tag_scans')
+      .select('id, latitude, longitude, accuracy, scanned_at')
+      .eq('tag_id', tagId)
+      .order('scanned_at', { ascending: false })
+      .limit(ACTIVITY_LIMIT),
+    supabaseAdmin
+      .from('pet_tag_messages')
+      .select('id, message, finder_contact, created_at')
+      .eq('tag_id', tagId)
+      .order('created_at', { ascending: false })
+      .limit(ACTIVITY_LIMIT),
+  ]);
+
+  if (scans.error || messages.error) {
+    throw new Error(`pet tag activity fetch failed: ${(scans.error || messages.error)?.message}`);
+  }
+
+  return {
+    scans: ((scans.data || []) as PetTagScanRow[]).map(toScan),
+    messages: ((messages.data || []) as PetTagMessageRow[]).map(toMessage),
+  };
+}
+
+// ============ 발견자 (비로그인) ============
+
+/**
+ * 토큰으로 유효한 인식표 조회
+ * @returns 없거나 폐기된 토큰이면 null
+ */
+export async function findActivePetTag(token: string): Promise<ActivePetTag | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pet_tags')
+    .select(TAG_COLUMNS)
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`pet_tags fetch failed: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const tag = data as PetTagRow;
+  const { data: pet, error: petError } = await supabaseAdmin
+    .from('pets')
+    .select('name, species, breed')
+    .eq('id', tag.pet_id)
+    .maybeSingle();
+
+  if (petError) {
+    throw new Error(`pets fetch failed: ${petError.message}`);
+  }
+  if (!pet) return null;
+
+  return {
+    id: tag.id,
+    userId: tag.user_id,
+    profile: {
+      name: pet.name,
+      species: pet.species,
+      breed: pet.breed,
+      photo: tag.photo,
+      emergencyNote: tag.emergency_note,
+    },
+  };
+}
+
+// 발견자 활동은 알림 설정과 관계없이 인앱 + 푸시로 보냄
+async function notifyOwner(userId: string, message: NotificationMessage): Promise<void> {
+  const { error } = await supabaseAdmin.from('notifications').insert({
+    user_id: userId,
+    type: message.type,
+    title: message.title,
+    message: message.message,
+    priority: message.priority,
+    link: message.link ?? null,
+  });
+  if (error) {
+    console.error('Pet tag notification error:', error.message);
+  }
+
+  try {
+    await sendPushToUser(userId, message);
+  } catch (error) {
+    console.error('Pet tag push error:', getErrorMessage(error));
+  }
+}
+
+/**
+ * 스캔 기록
+ * scanId가 있으면 같은 방문에서 나중에 공유한 위치를 기존 기록에 추가합니다. (위치는 한 번만 기록)
+ * @returns 스캔 ID (위치를 추가할 기록이 없으면 null)
+ */
+export async function recordTagScan(
+  tag: ActivePetTag,
+  input: TagScanInput,
+  userAgent?: string | null
+): Promise<string | null> {
+  const location =
+    input.latitude !== undefined && input.longitude !== undefined
+      ? { latitude: input.latitude, longitude: input.longitude, accuracy: input.accuracy ?? null }
+      : null;
+
+  if (input.scanId) {
+    if (!location) return input.scanId;
+
+    const { data, error } = await supabaseAdmin
+      .from('pet_tag_scans')
+      .update(location)
+      .eq('id', input.scanId)
+      .eq('tag_id', tag.id)
+      .is('latitude', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`pet_tag_scans update failed: ${error.message}`);
+    }
+    if (!data) return null;
+
+    await notifyOwner(tag.userId, buildPetTagScanNotification(tag.profile.name, true));
+    return data.id;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('pet_tag_scans')
+    .insert({
+      tag_id: tag.id,
+      ...location,
+      user_agent: userAgent ? userAgent.slice(0, 300) : null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`pet_tag_scans insert failed: ${error.message}`);
+  }
+
+  await notifyOwner(tag.userId, buildPetTagScanNotification(tag.profile.name, location !== null));
+  return data.id;
+}
+
+/**
+ * 발견자 메시지 저장 후 보호자에게 중계
+ */
+export async function sendFinderMessage(tag: ActivePetTag, input: FinderMessageInput): Promise<boolean> {
+  // 다른 인식표의 스캔 ID는 연결하지 않음
+  let scanId: string | null = null;
+  if (input.scanId) {
+    const { data } = await supabaseAdmin
+      .from('pet_tag_scans')
+      .select('id')
+      .eq('id', input.scanId)
+      .eq('tag_id', tag.id)
+      .maybeSingle();
+    scanId = data?.id ?? null;
+  }
+
+  const { error } = await supabaseAdmin.from('pet_tag_messages').insert({
+    tag_id: tag.id,
+    scan_id: scanId,
+    message: input.message,
+    finder_contact: input.contact || null,
+  });
+
+  if (error) {
+    console.error('Finder message save error:', error.message);
+    return false;
+  }
+
+  await notifyOwner(tag.userId, buildFinderMessageNotification(tag.profile.name, input.message, input.contact));
+  return true;
+}
@@ -145,7 +145,11 @@ export async function saveSubscriptionToServer(
 
 // 서버에서 구독 정보 삭제 (API 호출)
 // accessToken을 받아서 인증 헤더에 포함 (보안 강화)
-export async function removeSubscriptionFromServer(accessToken?: string | null): Promise<boolean> {
+// endpoint가 없으면 서버에서 사용자의 모든 구독을 삭제
+export async function removeSubscriptionFromServer(
+  accessToken?: string | null,
+  endpoint?: string
+): Promise<boolean> {
   try {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
@@ -158,7 +162,7 @@ export async function removeSubscriptionFromServer(accessToken?: string | null):
       method: 'POST',
       headers,
       // userId는 서버에서 인증 토큰으로 검증
-      body: JSON.stringify({}),
+      body: JSON.stringify(endpoint ? { endpoint } : {}),
     });
 
     if (!response.ok) {
@@ -0,0 +1,200 @@
+/**
+ * 푸시 구독 저장소 및 사용자 단위 발송 (서버 전용)
+ *
+ * /api/push/* 라우트와 리마인더 작업에서 사용합니다. 서비스 롤 클라이언트로 RLS를 우회하므로
+ * 모든 함수는 인증된 userId를 받아 본인 구독만 다룹니다.
+ *
+ * 사용 예:
+ *   await sendPushToUser(userId, buildVaccinationReminder("초코", "종합백신", "2025-03-01"));
+ */
+
+import { supabaseAdmin } from './auth';
+import { getErrorMessage } from './errors';
+import type { NotificationMessage } from './notificationMessages';
+import { publishNotification } from './realtimeGateway';
+import type { PushSubscriptionInput } from './validations/push';
+import {
+  getVapidConfig,
+  sendWebPush,
+  WebPushError,
+  type WebPushOptions,
+  type WebPushSubscription,
+} from './webPush';
+
+interface PushSubscriptionRow {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushDeliveryResult {
+  sent: number;
+  failed: number;
+  /** 만료(404/410)로 삭제된 구독 수 */
+  pruned: number;
+}
+
+// public/sw.js의 push 핸들러가 읽는 형식
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  requireInteraction?: boolean;
+}
+
+const PRIORITY_URGENCY: Record<NotificationMessage['priority'], WebPushOptions['urgency']> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  urgent: 'high',
+};
+
+/**
+ * 구독 저장 (같은 endpoint는 갱신)
+ * 기기에서 다른 계정으로 로그인한 경우 endpoint의 소유자가 바뀝니다.
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionInput,
+  userAgent?: string | null
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('push_subscriptions')
+    .upsert(
+      {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: userAgent ? userAgent.slice(0, 300) : null,
+      },
+      { onConflict: 'endpoint' }
+    );
+
+  if (error) {
+    console.error('Push subscription save error:', error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 구독 삭제
+ * endpoint를 지정하지 않으면 사용자의 모든 구독을 삭제합니다.
+ */
+export async function deletePushSubscriptions(userId: string, endpoint?: string): Promise<boolean> {
+  let query = supabaseAdmin.from('push_subscriptions').delete().eq('user_id', userId);
+  if (endpoint) {
+    query = query.eq('endpoint', endpoint);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Push subscription delete error:', error.message);
+    return false;
+  }
+  return true;
+}
+
+async function listPushSubscriptions(userId: string): Promise<WebPushSubscription[]> {
+  const { data, error } = await supabaseAdmin
+    .from('push_subscriptions')
+    .select('endpoint, p256dh, auth')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`push_subscriptions fetch failed: ${error.message}`);
+  }
+
+  return ((data || []) as PushSubscriptionRow[]).map((row) => ({
+    endpoint: row.endpoint,
+    keys: { p256dh: row.p256dh, auth: row.auth },
+  }));
+}
+
+export function toPushPayload(message: NotificationMessage): PushPayload {
+  return {
+    title: message.title,
+    body: message.message,
+    url: message.link || '/',
+    tag: message.type,
+    requireInteraction: message.priority === 'urgent',
+  };
+}
+
+/**
+ * 사용자의 모든 기기로 알림 발송
+ * 만료된 구독(404/410)은 삭제하고, 그 외 실패는 다음 발송 때 다시 시도합니다.
+ * 앱을 열어둔 기기에는 실시간 게이트웨이로도 전달합니다.
+ */
+export async function sendPushToUser(
+  userId: string,
+  message: NotificationMessage
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { sent: 0, failed: 0, pruned: 0 };
+
+  await publishNotification(userId, message);
+
+  const vapid = getVapidConfig();
+  if (!vapid) {
+    console.warn('Push skipped: VAPID keys are not configured');
+    return result;
+  }
+
+  const subscriptions = await listPushSubscriptions(userId);
+  if (subscriptions.length === 0) {
+    return result;
+  }
+
+  const payload = JSON.stringify(toPushPayload(message));
+  const options: WebPushOptions = { urgency: PRIORITY_URGENCY[message.priority] };
+
+  const goneEndpoints: string[] = [];
+  const deliveredEndpoints: string[] = [];
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        await sendWebPush(subscription, payload, vapid, options);
+        deliveredEndpoints.push(subscription.endpoint);
+      } catch (error) {
+        if (error instanceof WebPushError && error.isGone) {
+          goneEndpoints.push(subscription.endpoint);
+          return;
+        }
+        result.failed++;
+        console.error('Push send error:', getErrorMessage(error));
+      }
+    })
+  );
+
+  result.sent = deliveredEndpoints.length;
+
+  if (goneEndpoints.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', userId)
+      .in('endpoint', goneEndpoints);
+
+    if (error) {
+      console.error('Push subscription prune error:', error.message);
+    } else {
+      result.pruned = goneEndpoints.length;
+    }
+  }
+
+  if (deliveredEndpoints.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('push_subscriptions')
+      .update({ last_success_at: new Date().toISOString() })
+      .in('endpoint', deliveredEndpoints);
+
+    if (error) {
+      console.error('Push subscription update error:', error.message);
+    }
+  }
+
+  return result;
+}
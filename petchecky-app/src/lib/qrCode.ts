@@ -0,0 +1,436 @@
+/**
+ * QR 코드 생성 (외부 서비스/라이브러리 없이 구현)
+ *
+ * 인식표에 넣는 짧은 URL용이므로 바이트 모드, 버전 1~10(최대 약 200바이트)만 지원합니다.
+ * - 오류 정정: Reed-Solomon (GF(256), 다항식 0x11D)
+ * - 마스크: 8가지를 모두 적용해 벌점이 가장 낮은 것을 선택 (ISO/IEC 18004)
+ *
+ * 사용 예:
+ *   const qr = encodeQrCode('https://petchecky.com/found/abc', 'Q');
+ *   const svg = qrCodeToSvg(qr);
+ */
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  size: number;
+  /** modules[y][x] = true 이면 검은 칸 */
+  modules: boolean[][];
+}
+
+const MAX_VERSION = 10;
+
+// 버전(1~10)별 블록당 오류 정정 코드워드 수
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+
+// 버전(1~10)별 오류 정정 블록 수
+const NUM_ECC_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+// 형식 정보에 들어가는 오류 정정 레벨 비트
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// ============ Reed-Solomon ============
+
+const GF_EXP = new Uint8Array(512);
+const GF_LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) {
+    GF_EXP[i] = GF_EXP[i - 255];
+  }
+})();
+
+function gfMultiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+// (x - α^0)(x - α^1)...(x - α^(degree-1))의 계수 (최고차항 제외, 높은 차수부터)
+function rsGenerator(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], generator: number[]): number[] {
+  const result = new Array<number>(generator.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    generator.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ============ 데이터 코드워드 ============
+
+// 기능 패턴을 제외한 데이터+오류 정정 모듈 수
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version - 1] * NUM_ECC_BLOCKS[level][version - 1]
+  );
+}
+
+function encodeData(bytes: Uint8Array, version: number, level: QrErrorCorrectionLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  // 바이트 모드 지시자 + 문자 수 (버전 1~9: 8비트, 10 이상: 16비트)
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = dataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+// 블록으로 나눠 오류 정정 코드를 붙이고 블록 간 인터리브
+function addEccAndInterleave(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+  const numBlocks = NUM_ECC_BLOCKS[level][version - 1];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version - 1];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const generator = rsGenerator(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - eccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    // 짧은 블록은 데이터 위치를 맞추기 위해 빈 칸(-1)을 끼움
+    const padded = i < numShortBlocks ? [...blockData, -1] : blockData;
+    blocks.push([...padded, ...rsRemainder(blockData, generator)]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    for (const block of blocks) {
+      if (block[i] !== -1) result.push(block[i]);
+    }
+  }
+  return result;
+}
+
+// ============ 행렬 ============
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < numAlign; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+class QrMatrix {
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+function drawFunctionPatterns(matrix: QrMatrix, version: number): void {
+  const { size } = matrix;
+
+  // 타이밍 패턴
+  for (let i = 0; i < size; i++) {
+    matrix.setFunction(6, i, i % 2 === 0);
+    matrix.setFunction(i, 6, i % 2 === 0);
+  }
+
+  // 파인더 패턴 (구분선 포함)
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        matrix.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  // 정렬 패턴 (파인더와 겹치는 세 모서리 제외)
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          matrix.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // 형식 정보 자리를 먼저 예약하고, 마스크를 정한 뒤 다시 그림
+  drawFormatBits(matrix, 'L', 0);
+
+  // 버전 정보 (버전 7 이상)
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      matrix.setFunction(a, b, dark);
+      matrix.setFunction(b, a, dark);
+    }
+  }
+}
+
+function drawFormatBits(matrix: QrMatrix, level: QrErrorCorrectionLevel, mask: number): void {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size } = matrix;
+
+  // 왼쪽 위
+  for (let i = 0; i <= 5; i++) matrix.setFunction(8, i, bit(i));
+  matrix.setFunction(8, 7, bit(6));
+  matrix.setFunction(8, 8, bit(7));
+  matrix.setFunction(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) matrix.setFunction(14 - i, 8, bit(i));
+
+  // 오른쪽 위 / 왼쪽 아래
+  for (let i = 0; i < 8; i++) matrix.setFunction(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) matrix.setFunction(8, size - 15 + i, bit(i));
+  matrix.setFunction(8, size - 8, true);
+}
+
+// 오른쪽 아래부터 두 열씩 지그재그로 채움
+function drawCodewords(matrix: QrMatrix, codewords: number[]): void {
+  const { size } = matrix;
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (matrix.isFunction[y][x]) continue;
+        if (bitIndex < codewords.length * 8) {
+          matrix.modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+          bitIndex++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function applyMask(matrix: QrMatrix, mask: number): void {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.isFunction[y][x] && MASKS[mask](x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+}
+
+// ============ 마스크 벌점 ============
+
+// 한 줄의 벌점: 같은 색 5칸 이상 연속(N1) + 파인더 유사 패턴(N3)
+function linePenalty(line: boolean[]): number {
+  let penalty = 0;
+  let runLength = 0;
+  for (let i = 0; i < line.length; i++) {
+    runLength = i > 0 && line[i] === line[i - 1] ? runLength + 1 : 1;
+    if (runLength === 5) penalty += 3;
+    else if (runLength > 5) penalty += 1;
+  }
+
+  // 1:1:3:1:1 비율 + 양쪽 중 한쪽에 밝은 칸 4개 (줄 밖은 밝은 칸으로 취급)
+  const dark = (i: number) => i >= 0 && i < line.length && line[i];
+  for (let i = -4; i < line.length; i++) {
+    const pattern = [true, false, true, true, true, false, true].every((expected, k) => dark(i + k) === expected);
+    if (!pattern) continue;
+    const lightBefore = [1, 2, 3, 4].every((k) => !dark(i - k));
+    const lightAfter = [7, 8, 9, 10].every((k) => !dark(i + k));
+    if (lightBefore || lightAfter) penalty += 40;
+  }
+  return penalty;
+}
+
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  for (let y = 0; y < size; y++) {
+    penalty += linePenalty(modules[y]);
+  }
+  for (let x = 0; x < size; x++) {
+    penalty += linePenalty(modules.map((row) => row[x]));
+  }
+
+  // N2: 같은 색 2x2 블록
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // N4: 검은 칸 비율이 50%에서 5%p 벗어날 때마다
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += Math.floor(Math.abs(darkCount * 20 - total * 10) / total) * 10;
+
+  return penalty;
+}
+
+// ============ 공개 API ============
+
+/**
+ * 문자열을 QR 코드 행렬로 변환 (UTF-8 바이트 모드)
+ * @param level 오류 정정 레벨 (인쇄물이 닳거나 더러워질 수 있으면 Q 이상 권장)
+ * @throws Error 버전 10에 담을 수 없을 만큼 긴 경우
+ */
+export function encodeQrCode(text: string, level: QrErrorCorrectionLevel = 'M'): QrCode {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  // 모드(4비트) + 문자 수 + 데이터
+  while (
+    version <= MAX_VERSION &&
+    4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version, level) * 8
+  ) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`QR 코드에 담기에는 너무 깁니다 (${bytes.length}바이트)`);
+  }
+
+  const matrix = new QrMatrix(version * 4 + 17);
+  drawFunctionPatterns(matrix, version);
+  drawCodewords(matrix, addEccAndInterleave(encodeData(bytes, version, level), version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, level, mask);
+    const penalty = penaltyScore(matrix.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    // XOR이므로 한 번 더 적용하면 원래대로 돌아옴
+    applyMask(matrix, mask);
+  }
+
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, level, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/**
+ * 검은 칸을 그리는 SVG path (React에서 <path d>로 바로 사용)
+ * 좌표는 모듈 단위이며 margin만큼 안쪽으로 이동합니다.
+ */
+export function qrCodePath(qr: QrCode, margin: number = 4): string {
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + margin} ${y + margin}h1v1h-1z`);
+    });
+  });
+  return path.join('');
+}
+
+/**
+ * QR 코드를 SVG 문자열로 변환 (인쇄해도 깨지지 않는 벡터)
+ * @param margin 여백(quiet zone) 칸 수. 표준 권장값은 4
+ */
+export function qrCodeToSvg(qr: QrCode, options: { margin?: number; color?: string; background?: string } = {}): string {
+  const { margin = 4, color = '#000000', background = '#ffffff' } = options;
+  const dimension = qr.size + margin * 2;
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${background}"/>` +
+    `<path d="${qrCodePath(qr, margin)}" fill="${color}"/>` +
+    '</svg>'
+  );
+}
@@ -0,0 +1,245 @@
+// Rate Limiting 유틸리티
+// Sliding window log 방식. 즉시 판단은 인스턴스 메모리로 하고,
+// RATE_LIMIT_STORE가 설정되면 공유 저장소(Postgres/Redis)와 백그라운드로 동기화합니다.
+// 인스턴스가 달라도 바로 같은 한도를 적용해야 하면 checkRateLimitAsync를 사용합니다.
+//
+// 환경변수:
+// - RATE_LIMIT_STORE: "memory"(기본) | "postgres" | "redis"
+// - postgres: NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+// - redis: REDIS_REST_URL, REDIS_REST_TOKEN
+
+import { createClient } from '@supabase/supabase-js';
+import { getErrorMessage } from '../errors';
+import { createMemoryRateLimitStore } from './memory';
+import { createPostgresRateLimitStore } from './postgres';
+import { createRedisRateLimitStore, createRedisRestClient } from './redis';
+import { pruneWindow, toRateLimitResult } from './slidingWindow';
+import type { RateLimitResult, RateLimitStore } from './types';
+
+export { createMemoryRateLimitStore } from './memory';
+export { createPostgresRateLimitStore } from './postgres';
+export { createRedisRateLimitStore, createRedisRestClient } from './redis';
+export type { RedisCommandClient } from './redis';
+export type { RateLimitHit, RateLimitResult, RateLimitStore } from './types';
+
+// 인스턴스 로컬 기록 (동기 판단용)
+const localStore = createMemoryRateLimitStore();
+
+// 공유 저장소에서 마지막으로 받은 윈도우 기록 (다른 인스턴스의 요청 포함)
+const sharedSnapshots = new Map<string, { hits: number[]; windowMs: number }>();
+
+// undefined = 아직 환경변수로 결정하지 않음, null = 공유 저장소 없음
+let sharedStore: RateLimitStore | null | undefined;
+
+// 설정이 부족하면 null (메모리만 사용)
+function createSharedStoreFromEnv(): RateLimitStore | null {
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+
+  switch (name) {
+    case 'memory':
+      return null;
+    case 'postgres': {
+      const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !serviceKey) {
+        console.warn('RATE_LIMIT_STORE=postgres requires Supabase service role credentials');
+        return null;
+      }
+      return createPostgresRateLimitStore({ client: createClient(url, serviceKey) });
+    }
+    case 'redis': {
+      const url = process.env.REDIS_REST_URL;
+      const token = process.env.REDIS_REST_TOKEN;
+      if (!url || !token) {
+        console.warn('RATE_LIMIT_STORE=redis requires REDIS_REST_URL and REDIS_REST_TOKEN');
+        return null;
+      }
+      return createRedisRateLimitStore({ client: createRedisRestClient({ url, token }) });
+    }
+    default:
+      console.warn(`Unknown RATE_LIMIT_STORE: ${name}`);
+      return null;
+  }
+}
+
+function getSharedStore(): RateLimitStore | null {
+  if (sharedStore === undefined) {
+    sharedStore = createSharedStoreFromEnv();
+  }
+  return sharedStore;
+}
+
+/**
+ * 공유 저장소 지정 (null이면 메모리만 사용, 테스트 및 커스텀 클라이언트용)
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  sharedStore = store;
+  sharedSnapshots.clear();
+}
+
+// 공유 저장소에 기록하고 최신 윈도우를 받아 둠 (실패해도 로컬 제한은 유지)
+function syncSharedStore(
+  store: RateLimitStore,
+  identifier: string,
+  now: number,
+  maxRequests: number,
+  windowMs: number
+): void {
+  store
+    .hit(identifier, now, windowMs, maxRequests)
+    .then(({ hits }) => {
+      sharedSnapshots.set(identifier, { hits, windowMs });
+    })
+    .catch((error) => {
+      console.warn(`Rate limit store "${store.name}" sync failed:`, getErrorMessage(error));
+    });
+}
+
+// 공유 저장소에 기록하고 결과 계산 (실패하면 null)
+async function hitSharedStore(
+  store: RateLimitStore,
+  identifier: string,
+  now: number,
+  maxRequests: number,
+  windowMs: number
+): Promise<RateLimitResult | null> {
+  try {
+    const { allowed, hits } = await store.hit(identifier, now, windowMs, maxRequests);
+    sharedSnapshots.set(identifier, { hits, windowMs });
+    return toRateLimitResult(pruneWindow(hits, now, windowMs), allowed, maxRequests, now, windowMs);
+  } catch (error) {
+    console.warn(`Rate limit store "${store.name}" failed, using memory:`, getErrorMessage(error));
+    return null;
+  }
+}
+
+// 오래된 엔트리 정리 (메모리 누수 방지)
+function cleanupExpiredEntries(): void {
+  const now = Date.now();
+  localStore.cleanup(now);
+  for (const [key, snapshot] of sharedSnapshots.entries()) {
+    if (pruneWindow(snapshot.hits, now, snapshot.windowMs).length === 0) {
+      sharedSnapshots.delete(key);
+    }
+  }
+}
+
+// 주기적 정리 (5분마다)
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+function startCleanupInterval(): void {
+  if (!cleanupInterval) {
+    cleanupInterval = setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
+    // 정리 타이머 때문에 프로세스가 종료되지 않는 일이 없도록
+    cleanupInterval.unref?.();
+  }
+}
+
+/**
+ * Rate Limit 체크
+ * 공유 저장소가 있으면 로컬 기록과 마지막 공유 기록 중 많은 쪽을 기준으로 판단합니다.
+ * (공유 기록은 직전 요청 시점 기준이므로 인스턴스마다 최대 1건 정도 늦게 반영될 수 있음)
+ *
+ * @param identifier - 식별자 (IP 또는 userId)
+ * @param maxRequests - 윈도우당 최대 요청 수
+ * @param windowMs - 윈도우 크기 (밀리초)
+ * @returns 허용 여부, 남은 요청 수, 리셋까지 남은 시간
+ */
+export function checkRateLimit(
+  identifier: string,
+  maxRequests: number = 10,
+  windowMs: number = 60000
+): RateLimitResult {
+  startCleanupInterval();
+
+  const now = Date.now();
+  const localHits = localStore.peek(identifier, now, windowMs);
+  const snapshot = sharedSnapshots.get(identifier);
+  const sharedHits = snapshot ? pruneWindow(snapshot.hits, now, windowMs) : [];
+  const knownHits = sharedHits.length > localHits.length ? sharedHits : localHits;
+
+  const allowed = knownHits.length < maxRequests;
+  if (allowed) {
+    localStore.hitSync(identifier, now, windowMs, maxRequests);
+  }
+
+  const store = getSharedStore();
+  if (store) {
+    syncSharedStore(store, identifier, now, maxRequests, windowMs);
+  }
+
+  return toRateLimitResult(allowed ? [...knownHits, now] : knownHits, allowed, maxRequests, now, windowMs);
+}
+
+/**
+ * Rate Limit 체크 (공유 저장소 결과를 기다림)
+ * 공유 저장소가 있으면 저장소에 기록한 결과로 판단하고, 저장소 오류 시에만 인스턴스 메모리로 판단합니다.
+ *
+ * @param identifier - 식별자 (IP 또는 userId)
+ * @param maxRequests - 윈도우당 최대 요청 수
+ * @param windowMs - 윈도우 크기 (밀리초)
+ * @returns 허용 여부, 남은 요청 수, 리셋까지 남은 시간
+ */
+export async function checkRateLimitAsync(
+  identifier: string,
+  maxRequests: number = 10,
+  windowMs: number = 60000
+): Promise<RateLimitResult> {
+  startCleanupInterval();
+
+  const now = Date.now();
+  const store = getSharedStore();
+  if (store) {
+    const result = await hitSharedStore(store, identifier, now, maxRequests, windowMs);
+    if (result) return result;
+  }
+
+  const before = localStore.peek(identifier, now, windowMs);
+  const allowed = before.length < maxRequests;
+  const hits = allowed ? localStore.hitSync(identifier, now, windowMs, maxRequests) : before;
+  return toRateLimitResult(hits, allowed, maxRequests, now, windowMs);
+}
+
+/**
+ * Rate Limit 상태 초기화 (테스트용, 인스턴스 로컬 상태만)
+ */
+export function resetRateLimitStore(): void {
+  localStore.resetSync();
+  sharedSnapshots.clear();
+}
+
+/**
+ * 특정 식별자의 Rate Limit 초기화
+ */
+export function resetRateLimitFor(identifier: string): void {
+  localStore.resetSync(identifier);
+  sharedSnapshots.delete(identifier);
+
+  const store = getSharedStore();
+  store?.reset(identifier).catch((error) => {
+    console.warn(`Rate limit store "${store.name}" reset failed:`, getErrorMessage(error));
+  });
+}
+
+// Rate Limit 상수를 re-export
+export { RATE_LIMITS } from '../constants';
+
+/**
+ * NextRequest에서 클라이언트 IP 추출
+ */
+export function getClientIdentifier(
+  request: { headers: { get: (name: string) => string | null } },
+  userId?: string
+): string {
+  // 인증된 사용자는 userId 사용
+  if (userId) {
+    return `user:${userId}`;
+  }
+
+  // IP 기반 식별
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIp = request.headers.get('x-real-ip');
+  const ip = forwarded?.split(',')[0]?.trim() || realIp || 'anonymous';
+
+  return `ip:${ip}`;
+}
@@ -0,0 +1,73 @@
+// 메모리 기반 저장소 (인스턴스별, 개발/테스트 및 로컬 판단용)
+
+import { pruneWindow } from './slidingWindow';
+import type { RateLimitStore } from './types';
+
+interface MemoryEntry {
+  hits: number[];
+  windowMs: number;
+}
+
+export interface MemoryRateLimitStore extends RateLimitStore {
+  /** hit의 동기 버전 - checkRateLimit의 즉시 판단에 사용 */
+  hitSync(key: string, now: number, windowMs: number, limit: number): number[];
+  /** 기록 없이 윈도우 내 요청 시각만 조회 */
+  peek(key: string, now: number, windowMs: number): number[];
+  resetSync(key?: string): void;
+  /** 윈도우가 모두 지난 키 정리 (메모리 누수 방지) */
+  cleanup(now: number): void;
+}
+
+export function createMemoryRateLimitStore(): MemoryRateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  function peek(key: string, now: number, windowMs: number): number[] {
+    const entry = entries.get(key);
+    if (!entry) return [];
+
+    entry.hits = pruneWindow(entry.hits, now, windowMs);
+    return [...entry.hits];
+  }
+
+  function hitSync(key: string, now: number, windowMs: number, limit: number): number[] {
+    const hits = peek(key, now, windowMs);
+    if (hits.length < limit) {
+      hits.push(now);
+    }
+    entries.set(key, { hits, windowMs });
+    return [...hits];
+  }
+
+  function resetSync(key?: string): void {
+    if (key === undefined) {
+      entries.clear();
+    } else {
+      entries.delete(key);
+    }
+  }
+
+  return {
+    name: 'memory',
+    hitSync,
+    peek,
+    resetSync,
+
+    cleanup(now) {
+      for (const [key, entry] of entries.entries()) {
+        const latest = entry.hits[entry.hits.length - 1] ?? 0;
+        if (latest <= now - entry.windowMs) {
+          entries.delete(key);
+        }
+      }
+    },
+
+    async hit(key, now, windowMs, limit) {
+      const allowed = peek(key, now, windowMs).length < limit;
+      return { allowed, hits: hitSync(key, now, windowMs, limit) };
+    },
+
+    async reset(key) {
+      resetSync(key);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+// Postgres(Supabase) 저장소 - supabase/migrations/003_rate_limits.sql 의 RPC 사용
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RateLimitStore } from './types';
+
+interface PostgresRateLimitStoreOptions {
+  /** 서비스 롤 클라이언트 (rate_limit_hits 테이블은 RLS로 일반 사용자 접근 불가) */
+  client: SupabaseClient;
+}
+
+export function createPostgresRateLimitStore({ client }: PostgresRateLimitStoreOptions): RateLimitStore {
+  return {
+    name: 'postgres',
+
+    async hit(key, now, windowMs, limit) {
+      const { data, error } = await client.rpc('rate_limit_hit', {
+        p_key: key,
+        p_now: now,
+        p_window_ms: windowMs,
+        p_limit: limit,
+      });
+
+      if (error) {
+        throw new Error(`rate_limit_hit failed: ${error.message}`);
+      }
+
+      // BIGINT[]는 문자열로 올 수 있음
+      const result = (data || {}) as { allowed?: boolean; hits?: (number | string)[] | null };
+      return { allowed: result.allowed === true, hits: (result.hits || []).map(Number) };
+    },
+
+    async reset(key) {
+      const { error } = await client.rpc('rate_limit_reset', { p_key: key });
+      if (error) {
+        throw new Error(`rate_limit_reset failed: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+// Redis 프로토콜 저장소 - sorted set + Lua 스크립트로 원자적 sliding window 처리
+
+import type { RateLimitStore } from './types';
+
+/**
+ * Redis 명령 전송 인터페이스
+ * ioredis 등 TCP 클라이언트는 `{ send: (command) => redis.call(...command) }` 형태로 감싸서 사용합니다.
+ */
+export interface RedisCommandClient {
+  send(command: (string | number)[]): Promise<unknown>;
+}
+
+interface RedisRateLimitStoreOptions {
+  client: RedisCommandClient;
+  /** 키 접두어 (다른 서비스와 같은 Redis를 공유할 때 충돌 방지) */
+  prefix?: string;
+}
+
+// KEYS[1]=키, ARGV=[now, windowMs, limit, member]
+// 만료 기록 삭제 → 한도 미만이면 추가 → [기록 여부(1/0), 윈도우 내 기록(점수 포함)] 반환
+const HIT_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local allowed = 0
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+if redis.call('ZCARD', key) < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  allowed = 1
+end
+redis.call('PEXPIRE', key, window)
+return {allowed, redis.call('ZRANGE', key, 0, -1, 'WITHSCORES')}
+`;
+
+// [member, score, member, score, ...] → [score, ...]
+function parseScores(reply: unknown): number[] {
+  if (!Array.isArray(reply)) return [];
+  const scores: number[] = [];
+  for (let i = 1; i < reply.length; i += 2) {
+    scores.push(Number(reply[i]));
+  }
+  return scores;
+}
+
+export function createRedisRateLimitStore({
+  client,
+  prefix = 'petchecky:ratelimit:',
+}: RedisRateLimitStoreOptions): RateLimitStore {
+  return {
+    name: 'redis',
+
+    async hit(key, now, windowMs, limit) {
+      // 같은 밀리초의 요청도 구분되도록 member에 난수 추가
+      const member = `${now}-${Math.random().toString(36).slice(2, 10)}`;
+      const reply = await client.send([
+        'EVAL',
+        HIT_SCRIPT,
+        1,
+        `${prefix}${key}`,
+        now,
+        windowMs,
+        limit,
+        member,
+      ]);
+      const [allowed, scores] = Array.isArray(reply) ? reply : [];
+      return { allowed: Number(allowed) === 1, hits: parseScores(scores) };
+    },
+
+    async reset(key) {
+      await client.send(['DEL', `${prefix}${key}`]);
+    },
+  };
+}
+
+interface RedisRestClientOptions {
+  url: string;
+  token: string;
+}
+
+/**
+ * HTTP로 Redis 명령을 전달하는 클라이언트 (Upstash REST 호환)
+ * 서버리스 환경에서 TCP 연결 없이 사용할 수 있습니다.
+ */
+export function createRedisRestClient({ url, token }: RedisRestClientOptions): RedisCommandClient {
+  return {
+    async send(command) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(command.map(String)),
+      });
+
+      const body = (await response.json().catch(() => ({}))) as { result?: unknown; error?: string };
+      if (!response.ok || body.error) {
+        throw new Error(`Redis command failed: ${body.error || response.status}`);
+      }
+      return body.result;
+    },
+  };
+}
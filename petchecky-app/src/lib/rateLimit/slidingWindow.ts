@@ -0,0 +1,39 @@
+// Sliding window log 계산 유틸리티
+
+import type { RateLimitResult } from './types';
+
+/**
+ * 윈도우 안에 있는 요청 시각만 남깁니다. (now - windowMs 시점의 기록은 만료로 간주)
+ */
+export function pruneWindow(hits: number[], now: number, windowMs: number): number[] {
+  return hits.filter((hit) => hit > now - windowMs);
+}
+
+/**
+ * 윈도우 내 요청 기록으로 결과 계산
+ * @param hits - 이번 요청을 포함한 윈도우 내 요청 시각 (오름차순)
+ */
+export function toRateLimitResult(
+  hits: number[],
+  allowed: boolean,
+  maxRequests: number,
+  now: number,
+  windowMs: number
+): RateLimitResult {
+  if (!allowed) {
+    // 요청 수가 한도 아래로 내려가는 시점 = 초과분 중 가장 오래된 기록이 만료되는 시점
+    const expiring = hits[Math.max(0, hits.length - maxRequests)] ?? now;
+    return {
+      allowed: false,
+      remaining: 0,
+      resetIn: Math.max(0, expiring + windowMs - now),
+    };
+  }
+
+  const oldest = hits[0] ?? now;
+  return {
+    allowed: true,
+    remaining: Math.max(0, maxRequests - hits.length),
+    resetIn: oldest + windowMs - now,
+  };
+}
@@ -0,0 +1,30 @@
+// Rate Limit 공통 타입
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetIn: number;
+}
+
+/** 저장소에 요청을 기록한 결과 */
+export interface RateLimitHit {
+  /** 한도 미만이라 이번 요청이 기록됐는지 */
+  allowed: boolean;
+  /** 윈도우 내 요청 시각 목록 (epoch ms, 오름차순) */
+  hits: number[];
+}
+
+/**
+ * Sliding window 요청 기록 저장소
+ * 인스턴스 간에 공유되는 저장소(Postgres, Redis)는 비동기로 동작합니다.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  /**
+   * 윈도우가 지난 기록을 정리하고, 한도 미만이면 현재 요청을 기록합니다.
+   * @returns 기록 여부와 윈도우 내 요청 시각 목록
+   */
+  hit(key: string, now: number, windowMs: number, limit: number): Promise<RateLimitHit>;
+  /** 특정 키의 기록 삭제 */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,87 @@
+/**
+ * 실시간 게이트웨이 발행 (서버 전용)
+ *
+ * 앱을 열어둔 기기에 알림/펫 기록 변경을 바로 전달합니다 (server/realtime, POST /publish).
+ * REALTIME_GATEWAY_URL이 없으면 아무것도 하지 않으며, 게이트웨이 장애가 API 응답을 막지 않도록
+ * 실패는 로그만 남깁니다.
+ *
+ * 사용 예:
+ *   await publishRealtime([userId], MESSAGE_TYPES.PET_UPDATE, { petId, action: 'created' });
+ */
+
+import { getErrorMessage } from './errors';
+import type { NotificationMessage } from './notificationMessages';
+import {
+  MESSAGE_TYPES,
+  type HealthAlertPayload,
+  type NotificationPayload,
+} from './websocket';
+
+const PUBLISH_TIMEOUT_MS = 3000;
+
+const PRIORITY_NOTIFICATION_TYPE: Record<NotificationMessage['priority'], NotificationPayload['type']> = {
+  low: 'info',
+  normal: 'info',
+  high: 'warning',
+  urgent: 'error',
+};
+
+function getGatewayConfig(): { url: string; secret: string } | null {
+  const url = process.env.REALTIME_GATEWAY_URL;
+  const secret = process.env.REALTIME_GATEWAY_SECRET;
+  if (!url || !secret) return null;
+  return { url: url.replace(/\/$/, ''), secret };
+}
+
+export function toNotificationPayload(id: string, message: NotificationMessage): NotificationPayload {
+  return {
+    id,
+    title: message.title,
+    body: message.message,
+    type: PRIORITY_NOTIFICATION_TYPE[message.priority],
+    action: message.link ? { label: '보기', url: message.link } : undefined,
+  };
+}
+
+/**
+ * 게이트웨이로 메시지 발행
+ * @returns 게이트웨이가 받았는지 여부 (설정이 없거나 실패하면 false)
+ */
+export async function publishRealtime(userIds: string[], type: string, payload: unknown): Promise<boolean> {
+  const config = getGatewayConfig();
+  if (!config || userIds.length === 0) return false;
+
+  try {
+    const response = await fetch(`${config.url}/publish`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.secret}`,
+      },
+      body: JSON.stringify({ userIds, type, payload }),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error('Realtime publish failed:', response.status);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Realtime publish error:', getErrorMessage(error));
+    return false;
+  }
+}
+
+/**
+ * 알림을 실시간으로 전달 (건강 알림은 health:alert로도 보냄)
+ */
+export async function publishNotification(userId: string, message: NotificationMessage): Promise<void> {
+  const id = crypto.randomUUID();
+  await publishRealtime([userId], MESSAGE_TYPES.NOTIFICATION, toNotificationPayload(id, message));
+
+  if (message.type === 'health') {
+    const alert: HealthAlertPayload = { id, title: message.title, body: message.message, url: message.link };
+    await publishRealtime([userId], MESSAGE_TYPES.HEALTH_ALERT, alert);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * 서버 리마인더 발송 작업 (서버 전용)
+ *
+ * /api/cron/reminders 에서 주기적으로 호출합니다.
+ * 약 복용 시간, 재처방일, 접종 예정일, 사용자 정의 리마인더를 보호자 시간대 기준으로 확인하고
+ * 알림 설정(방해금지 시간 포함)에 따라 푸시/인앱 알림으로 보냅니다.
+ * reminder_deliveries 에 dedupKey를 먼저 기록한 뒤 발송하므로 같은 리마인더는 두 번 가지 않습니다.
+ */
+
+import { supabaseAdmin } from '../auth';
+import { getErrorMessage } from '../errors';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  isWithinQuietHours,
+  type NotificationSettings,
+} from '../notifications';
+import { scanPetRecords } from '../petRecords';
+import { sendPushToUser } from '../pushSubscriptions';
+import {
+  DEFAULT_TIMEZONE,
+  findDueReminders,
+  toLocalDateTime,
+  VACCINATION_REMINDER_DAYS_BEFORE,
+  type DueReminder,
+  type ReminderScanInput,
+} from './schedule';
+
+export type DeliveryChannel = 'push' | 'inApp';
+
+export interface ReminderJobResult {
+  users: number;
+  due: number;
+  delivered: number;
+  /** 이미 발송했거나 설정에서 꺼져 있어 건너뜀 */
+  skipped: number;
+  failed: number;
+}
+
+interface UserNotificationSettings {
+  timezone: string;
+  settings: NotificationSettings;
+}
+
+/**
+ * 저장된 설정을 기본값과 합침 (일부 필드만 저장된 경우 대비)
+ */
+export function resolveNotificationSettings(stored?: Partial<NotificationSettings> | null): NotificationSettings {
+  return {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    ...stored,
+    types: { ...DEFAULT_NOTIFICATION_SETTINGS.types, ...stored?.types },
+    quietHours: stored?.quietHours ?? DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+  };
+}
+
+/**
+ * 발송 채널 결정
+ * 방해금지 시간에는 긴급 알림이 아니면 인앱 알림만 남깁니다. (lib/notifications.ts sendNotification과 동일)
+ */
+export function selectChannels(
+  reminder: DueReminder,
+  settings: NotificationSettings,
+  localTime: string
+): DeliveryChannel[] {
+  if (!settings.types[reminder.message.type]) return [];
+
+  const quiet = reminder.message.priority !== 'urgent' && isWithinQuietHours(settings.quietHours, localTime);
+  const channels: DeliveryChannel[] = [];
+  if (settings.push && !quiet) channels.push('push');
+  if (settings.inApp) channels.push('inApp');
+  return channels;
+}
+
+function shiftDate(date: Date, days: number): string {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * 발송 후보 기록을 사용자별로 모음
+ */
+async function loadScanInputs(now: Date): Promise<Map<string, ReminderScanInput>> {
+  const maxDaysBefore = Math.max(...VACCINATION_REMINDER_DAYS_BEFORE);
+  // 시간대 차이(±1일)와 사전 알림 기간을 포함한 접종 예정일 범위
+  const upcomingVaccinations = await scanPetRecords('vaccinations', {
+    range: { column: 'next_date', from: shiftDate(now, -1), to: shiftDate(now, maxDaysBefore + 1) },
+  });
+
+  if (!upcomingVaccinations) {
+    throw new Error('Failed to load upcoming vaccinations');
+  }
+
+  // 같은 백신을 이후에 다시 맞았는지 확인하려면 해당 펫의 접종 기록이 모두 필요
+  const vaccinationPetIds = [...new Set(upcomingVaccinations.map((v) => v.petId))];
+  const [medications, vaccinations, reminders] = await Promise.all([
+    scanPetRecords('medications', { match: { is_active: true } }),
+    vaccinationPetIds.length > 0
+      ? scanPetRecords('vaccinations', { petIds: vaccinationPetIds })
+      : Promise.resolve([]),
+    scanPetRecords('reminders', { match: { enabled: true } }),
+  ]);
+
+  if (!medications || !vaccinations || !reminders) {
+    throw new Error('Failed to load reminder candidates');
+  }
+
+  const inputs = new Map<string, ReminderScanInput>();
+  const inputFor = (userId: string): ReminderScanInput => {
+    let input = inputs.get(userId);
+    if (!input) {
+      input = { petNames: {}, medications: [], vaccinations: [], reminders: [] };
+      inputs.set(userId, input);
+    }
+    return input;
+  };
+  medications.forEach((record) => inputFor(record.userId).medications.push(record));
+  vaccinations.forEach((record) => inputFor(record.userId).vaccinations.push(record));
+  reminders.forEach((record) => inputFor(record.userId).reminders.push(record));
+
+  const petIds = [...new Set([...medications, ...vaccinations, ...reminders].map((r) => r.petId))];
+  if (petIds.length > 0) {
+    const { data: pets, error } = await supabaseAdmin
+      .from('pets')
+      .select('id, name, user_id')
+      .in('id', petIds);
+
+    if (error) {
+      throw new Error(`pets fetch failed: ${error.message}`);
+    }
+    for (const pet of pets || []) {
+      const input = inputs.get(pet.user_id);
+      if (input) input.petNames[pet.id] = pet.name;
+    }
+  }
+
+  return inputs;
+}
+
+async function loadSettings(userIds: string[]): Promise<Map<string, UserNotificationSettings>> {
+  const { data, error } = await supabaseAdmin
+    .from('notification_settings')
+    .select('user_id, timezone, settings')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw new Error(`notification_settings fetch failed: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row) => [
+      row.user_id as string,
+      {
+        timezone: (row.timezone as string) || DEFAULT_TIMEZONE,
+        settings: resolveNotificationSettings(row.settings as Partial<NotificationSettings>),
+      },
+    ])
+  );
+}
+
+/**
+ * 발송 기록 선점 - 이미 기록이 있으면 false
+ * 발송 전에 기록하므로 발송 중 실패하면 재시도하지 않습니다. (중복 발송보다 누락을 택함)
+ */
+async function claimDelivery(userId: string, reminder: DueReminder): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('reminder_deliveries')
+    .upsert(
+      { user_id: userId, dedup_key: reminder.dedupKey, source: reminder.source },
+      { onConflict: 'dedup_key', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) {
+    throw new Error(`reminder_deliveries claim failed: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+async function deliver(
+  userId: string,
+  reminder: DueReminder,
+  channels: DeliveryChannel[]
+): Promise<DeliveryChannel[]> {
+  const delivered: DeliveryChannel[] = [];
+  const { message } = reminder;
+
+  if (channels.includes('inApp')) {
+    const { error } = await supabaseAdmin.from('notifications').insert({
+      user_id: userId,
+      type: message.type,
+      title: message.title,
+      message: message.message,
+      priority: message.priority,
+      link: message.link ?? null,
+    });
+    if (error) {
+      console.error('Reminder in-app notification error:', error.message);
+    } else {
+      delivered.push('inApp');
+    }
+  }
+
+  if (channels.includes('push')) {
+    try {
+      const result = await sendPushToUser(userId, message);
+      if (result.sent > 0) delivered.push('push');
+    } catch (error) {
+      console.error('Reminder push error:', getErrorMessage(error));
+    }
+  }
+
+  await supabaseAdmin
+    .from('reminder_deliveries')
+    .update({ channels: delivered })
+    .eq('dedup_key', reminder.dedupKey);
+
+  return delivered;
+}
+
+/**
+ * 리마인더 작업 1회 실행
+ */
+export async function runReminderJob(now: Date = new Date()): Promise<ReminderJobResult> {
+  const result: ReminderJobResult = { users: 0, due: 0, delivered: 0, skipped: 0, failed: 0 };
+
+  const inputs = await loadScanInputs(now);
+  if (inputs.size === 0) return result;
+
+  const settingsByUser = await loadSettings([...inputs.keys()]);
+  result.users = inputs.size;
+
+  for (const [userId, input] of inputs) {
+    const { timezone, settings } = settingsByUser.get(userId) ?? {
+      timezone: DEFAULT_TIMEZONE,
+      settings: DEFAULT_NOTIFICATION_SETTINGS,
+    };
+    const local = toLocalDateTime(now, timezone);
+    const dueReminders = findDueReminders(input, local);
+    result.due += dueReminders.length;
+
+    for (const reminder of dueReminders) {
+      const channels = selectChannels(reminder, settings, local.time);
+      if (channels.length === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        if (!(await claimDelivery(userId, reminder))) {
+          result.skipped++;
+          continue;
+        }
+
+        const delivered = await deliver(userId, reminder, channels);
+        if (delivered.length > 0) {
+          result.delivered++;
+        } else {
+          result.failed++;
+        }
+      } catch (error) {
+        result.failed++;
+        console.error('Reminder delivery error:', getErrorMessage(error));
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,231 @@
+// 리마인더 발송 시점 계산 (순수 함수 - DB/네트워크 없음)
+//
+// 모든 날짜/시각은 보호자 시간대 기준의 "YYYY-MM-DD" / "HH:mm" 문자열로 다룹니다.
+// cron 주기가 어긋나도 놓치지 않도록 예정 시각이 지난 뒤 lookback 분 안이면 발송 대상으로 보고,
+// 같은 대상의 중복 발송은 dedupKey로 막습니다.
+
+import {
+  buildCustomReminder,
+  buildMedicationReminder,
+  buildRefillReminder,
+  buildVaccinationReminder,
+  type NotificationMessage,
+} from '../notificationMessages';
+import { MEDICATION_SLOT_TIMES, getDailySlots, predictRefillDate } from '../medicationSchedule';
+import type { Medication, PetReminder, Vaccination } from '@/types/petRecords';
+
+// 날짜만 있는 항목(재처방일, 접종 예정일)의 알림 시각
+export const DATE_REMINDER_TIME = '09:00';
+// 접종 예정일 며칠 전에 알릴지
+export const VACCINATION_REMINDER_DAYS_BEFORE = [3, 0];
+// cron 주기(15분)보다 넉넉하게
+export const DUE_LOOKBACK_MINUTES = 60;
+
+export const DEFAULT_TIMEZONE = 'Asia/Seoul';
+
+export type ReminderSource = 'medication' | 'refill' | 'vaccination' | 'custom';
+
+export interface DueReminder {
+  dedupKey: string;
+  source: ReminderSource;
+  petId: string;
+  message: NotificationMessage;
+}
+
+export interface ReminderScanInput {
+  /** petId -> 이름 */
+  petNames: Record<string, string>;
+  medications: Medication[];
+  vaccinations: Vaccination[];
+  reminders: PetReminder[];
+}
+
+export interface LocalDateTime {
+  date: string;
+  time: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * 시간대 기준 현재 날짜/시각
+ * 알 수 없는 시간대면 기본 시간대(Asia/Seoul)를 사용합니다.
+ */
+export function toLocalDateTime(now: Date, timeZone: string): LocalDateTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return toLocalDateTime(now, DEFAULT_TIMEZONE);
+  }
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 시간대 없는 날짜/시각을 비교용 숫자로 (UTC로 간주)
+function toEpoch(date: string, time = '00:00'): number {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(toEpoch(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * 예정 시각이 지났고 lookback 분 이내인지
+ */
+function isDue(local: LocalDateTime, date: string, time: string, lookbackMinutes: number): boolean {
+  const elapsed = toEpoch(local.date, local.time) - toEpoch(date, time);
+  return elapsed >= 0 && elapsed < lookbackMinutes * MINUTE_MS;
+}
+
+/**
+ * 반복 규칙상 date가 리마인더 발생일인지
+ * 31일/윤일처럼 없는 날짜는 그 달의 마지막 날에 발생합니다.
+ */
+export function occursOn(reminder: Pick<PetReminder, 'date' | 'repeat'>, date: string): boolean {
+  const start = reminder.date.slice(0, 10);
+  if (date < start) return false;
+  if (reminder.repeat === 'none') return date === start;
+  if (reminder.repeat === 'daily') return true;
+
+  if (reminder.repeat === 'weekly') {
+    return Math.round((toEpoch(date) - toEpoch(start)) / DAY_MS) % 7 === 0;
+  }
+
+  const [, startMonth, startDay] = start.split('-').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+
+  if (reminder.repeat === 'yearly' && month !== startMonth) return false;
+  return day === Math.min(startDay, daysInMonth(year, month));
+}
+
+// 같은 펫의 같은 백신은 가장 최근 접종 기록만 기준으로 함
+function latestVaccinations(vaccinations: Vaccination[]): Vaccination[] {
+  const latest = new Map<string, Vaccination>();
+  for (const vaccination of vaccinations) {
+    const key = `${vaccination.petId}:${vaccination.name}`;
+    const current = latest.get(key);
+    if (!current || vaccination.date > current.date) {
+      latest.set(key, vaccination);
+    }
+  }
+  return [...latest.values()];
+}
+
+function isMedicationActiveOn(medication: Medication, date: string): boolean {
+  if (!medication.isActive || medication.frequency === 'asNeeded') return false;
+  if (date < medication.startDate.slice(0, 10)) return false;
+  return !medication.endDate || date <= medication.endDate.slice(0, 10);
+}
+
+/**
+ * 현재 시각 기준으로 발송해야 할 리마인더 목록
+ */
+export function findDueReminders(
+  input: ReminderScanInput,
+  local: LocalDateTime,
+  lookbackMinutes: number = DUE_LOOKBACK_MINUTES
+): DueReminder[] {
+  const due: DueReminder[] = [];
+  const petName = (petId: string) => input.petNames[petId] || '반려동물';
+  // lookback이 자정을 넘을 수 있으므로 어제도 확인
+  const candidateDates = [local.date, addDays(local.date, -1)];
+
+  for (const medication of input.medications) {
+    for (const date of candidateDates) {
+      if (!isMedicationActiveOn(medication, date)) continue;
+
+      for (const slot of getDailySlots(medication)) {
+        if (!isDue(local, date, MEDICATION_SLOT_TIMES[slot], lookbackMinutes)) continue;
+
+        // 이미 복용 기록을 남겼으면 알리지 않음
+        const taken = medication.logs?.some((log) => log.date === date && log.time === slot && log.taken);
+        if (taken) continue;
+
+        due.push({
+          dedupKey: `medication:${medication.id}:${date}:${slot}`,
+          source: 'medication',
+          petId: medication.petId,
+          message: buildMedicationReminder(petName(medication.petId), medication.name),
+        });
+      }
+    }
+
+    // 리필 예정일이 없으면 남은 재고로 예측
+    const refillDate = predictRefillDate(medication, local.date);
+    if (medication.isActive && refillDate && isDue(local, refillDate, DATE_REMINDER_TIME, lookbackMinutes)) {
+      due.push({
+        dedupKey: `refill:${medication.id}:${refillDate}`,
+        source: 'refill',
+        petId: medication.petId,
+        message: buildRefillReminder(petName(medication.petId), medication.name, refillDate),
+      });
+    }
+  }
+
+  for (const vaccination of latestVaccinations(input.vaccinations)) {
+    const nextDate = vaccination.nextDate?.slice(0, 10);
+    if (!nextDate) continue;
+
+    for (const daysBefore of VACCINATION_REMINDER_DAYS_BEFORE) {
+      if (!isDue(local, addDays(nextDate, -daysBefore), DATE_REMINDER_TIME, lookbackMinutes)) continue;
+
+      due.push({
+        dedupKey: `vaccination:${vaccination.id}:${nextDate}:${daysBefore}`,
+        source: 'vaccination',
+        petId: vaccination.petId,
+        message: buildVaccinationReminder(petName(vaccination.petId), vaccination.name, nextDate),
+      });
+    }
+  }
+
+  for (const reminder of input.reminders) {
+    if (!reminder.enabled) continue;
+
+    for (const date of candidateDates) {
+      if (!occursOn(reminder, date) || !isDue(local, date, reminder.time, lookbackMinutes)) continue;
+
+      due.push({
+        dedupKey: `reminder:${reminder.id}:${date}`,
+        source: 'custom',
+        petId: reminder.petId,
+        message: buildCustomReminder(
+          reminder.petName || petName(reminder.petId),
+          reminder.title,
+          reminder.description
+        ),
+      });
+    }
+  }
+
+  return due;
+}
@@ -0,0 +1,83 @@
+// 캘린더 API 서비스
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type { CalendarReservation } from "@/lib/calendar";
+
+// 구독 주소 응답
+export interface CalendarFeedResponse {
+  url: string;
+}
+
+// /api/reservation 목록 행 (캘린더에 필요한 컬럼만)
+interface ReservationRow {
+  id: string | number;
+  pet_name: string;
+  hospital_name: string;
+  preferred_date: string;
+  preferred_time: string | null;
+  status: string;
+}
+
+interface ReservationsResponse {
+  reservations: ReservationRow[];
+}
+
+// 캘린더에 보여줄 최근 예약 수 (/api/reservation 최대치)
+const RESERVATION_LIMIT = 50;
+
+/**
+ * 캘린더 서비스 (로그인 필요)
+ * - iCal 구독 주소 조회/재발급
+ * - 병원 예약 목록 (캘린더 이벤트용)
+ */
+export const calendarService = {
+  /**
+   * 내 구독 주소 (없으면 발급)
+   */
+  async getFeedUrl(token: string): Promise<ServiceResult<string>> {
+    const response = await apiClient.get<CalendarFeedResponse>("/api/calendar/feed", { token });
+
+    if (response.error || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.url };
+  },
+
+  /**
+   * 구독 주소 재발급 (이전 주소는 더 이상 동작하지 않음)
+   */
+  async rotateFeedUrl(token: string): Promise<ServiceResult<string>> {
+    const response = await apiClient.post<CalendarFeedResponse>("/api/calendar/feed", {}, { token, retries: 0 });
+
+    if (response.error || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.url };
+  },
+
+  /**
+   * 병원 예약 목록
+   */
+  async listReservations(token: string): Promise<ServiceResult<CalendarReservation[]>> {
+    const response = await apiClient.get<ReservationsResponse>(`/api/reservation?limit=${RESERVATION_LIMIT}`, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return {
+      success: true,
+      data: (response.data?.reservations || []).map((row) => ({
+        id: String(row.id),
+        petName: row.pet_name,
+        hospitalName: row.hospital_name,
+        date: row.preferred_date,
+        time: row.preferred_time || undefined,
+        status: row.status,
+      })),
+    };
+  },
+};
@@ -1,8 +1,12 @@
 // 채팅 API 서비스
 
 import { apiClient, ApiResponse, ApiError } from "./apiClient";
-import type { PetProfile, ChatMessage, ChatApiResponse } from "@/types/chat";
+import { AppError, ERROR_CODES } from "@/lib/errors";
+import { readSSEStream } from "@/lib/sse";
+import type { PetProfile, ChatMessage, ChatApiResponse, SharedHealthRecord } from "@/types/chat";
 import type { Severity } from "@/lib/constants";
+import type { Triage } from "@/lib/validations/triage";
+import type { PetHealthRecordsInput } from "@/lib/validations/chat";
 
 // 채팅 요청 타입
 export interface SendMessageRequest {
@@ -13,12 +17,15 @@ export interface SendMessageRequest {
     data: string;
     mimeType: string;
   };
+  healthRecords?: PetHealthRecordsInput;
 }
 
 // 채팅 응답 타입
 export interface SendMessageResponse {
   message: string;
   severity?: Severity;
+  triage?: Triage;
+  sharedRecords?: SharedHealthRecord[];
   limitExceeded?: boolean;
   requirePremiumPlus?: boolean;
   usage?: number;
@@ -33,6 +40,21 @@ export interface ChatServiceResult {
   error?: ApiError;
 }
 
+// 스트리밍 결과 타입 (status는 HTTP 상태 코드)
+export interface ChatStreamResult {
+  status: number;
+  streamed: boolean;
+  data: SendMessageResponse;
+}
+
+function parseEventData<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * 채팅 서비스
  */
@@ -51,6 +73,7 @@ export const chatService = {
         petProfile: request.petProfile,
         history: request.history || [],
         image: request.image,
+        healthRecords: request.healthRecords,
       },
       { token }
     );
@@ -68,6 +91,70 @@ export const chatService = {
     };
   },
 
+  /**
+   * 스트리밍 메시지 전송
+   * 서버가 SSE로 응답하면 토큰마다 onToken을 호출하고, 최종 done 이벤트의 응답을 반환합니다.
+   * 한도 초과 등 스트림 시작 전 오류는 JSON 응답 그대로 반환합니다.
+   */
+  async streamMessage(
+    request: SendMessageRequest,
+    token: string | null | undefined,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatStreamResult> {
+    const headers: HeadersInit = {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    };
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        message: request.message,
+        petProfile: request.petProfile,
+        history: request.history || [],
+        image: request.image,
+        healthRecords: request.healthRecords,
+        stream: true,
+      }),
+      signal,
+    });
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!contentType.includes("text/event-stream") || !response.body) {
+      const data = (await response.json()) as SendMessageResponse;
+      return { status: response.status, streamed: false, data };
+    }
+
+    let text = "";
+    for await (const { event, data } of readSSEStream(response.body)) {
+      if (event === "token") {
+        const chunk = parseEventData<{ text: string }>(data)?.text;
+        if (chunk) {
+          text += chunk;
+          onToken(chunk);
+        }
+      } else if (event === "done") {
+        const final = parseEventData<SendMessageResponse>(data);
+        return { status: response.status, streamed: true, data: final || { message: text } };
+      } else if (event === "error") {
+        const error = parseEventData<SendMessageResponse>(data);
+        return {
+          status: 500,
+          streamed: true,
+          data: error || { message: text, severity: "low" },
+        };
+      }
+    }
+
+    // done 이벤트 없이 연결이 끊긴 경우
+    throw new AppError(ERROR_CODES.NETWORK_ERROR, "Chat stream closed unexpectedly", 502);
+  },
+
   /**
    * 사용량 조회
    */
@@ -1,6 +1,7 @@
 // 커뮤니티 API 서비스
 
 import { apiClient, ApiError } from "./apiClient";
+import type { PetSpecies } from "@/lib/species";
 
 // 게시글 타입
 export interface Post {
@@ -9,8 +10,9 @@ export interface Post {
   title: string;
   content: string;
   category: "question" | "tip" | "daily" | "review";
-  pet_species?: "dog" | "cat";
+  pet_species?: PetSpecies;
   author_name: string;
+  hashtags?: string[];
   likes_count: number;
   comments_count: number;
   views_count: number;
@@ -27,13 +29,37 @@ export interface Comment {
   content: string;
   author_name: string;
   parent_id?: string;
+  depth?: number;
+  reply_count?: number;
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
-// 게시글 목록 응답
+// 답글 트리 노드 (삭제된 댓글은 is_deleted만 남고 내용/작성자는 비어 있음)
+export interface CommentNode extends Comment {
+  depth: number;
+  reply_count: number;
+  is_deleted: boolean;
+  replies: CommentNode[];
+  has_more_replies: boolean;
+}
+
+// 게시글 목록/검색 응답 (next_cursor로 다음 페이지, 없으면 null)
 export interface PostsResponse {
   posts: Post[];
+  next_cursor: string | null;
+}
+
+// 게시글 목록/검색 조건
+export interface PostSearchParams {
+  q?: string;
+  category?: string;
+  species?: PetSpecies;
+  tags?: string[];
+  sort?: "relevance" | "recent" | "likes";
+  cursor?: string | null;
+  limit?: number;
 }
 
 // 게시글 상세 응답
@@ -41,9 +67,16 @@ export interface PostDetailResponse {
   post: Post;
 }
 
-// 댓글 목록 응답
+// 댓글 트리 응답
 export interface CommentsResponse {
-  comments: Comment[];
+  comments: CommentNode[];
+  total: number;
+}
+
+// 답글 더 보기 응답
+export interface RepliesResponse {
+  replies: CommentNode[];
+  has_more: boolean;
 }
 
 // 게시글 작성 요청
@@ -52,11 +85,13 @@ export interface CreatePostRequest {
   content: string;
   category: string;
   pet_species?: string;
+  hashtags?: string[];
 }
 
 // 댓글 작성 요청
 export interface CreateCommentRequest {
   content: string;
+  // 최대 단계의 댓글에 답하면 서버가 같은 단계에 붙이고 @멘션을 남김
   parent_id?: string;
 }
 
@@ -73,6 +108,23 @@ export interface ServiceResult<T> {
   error?: ApiError;
 }
 
+/**
+ * 게시글 목록/검색 쿼리 문자열 (빈 값은 생략)
+ */
+export function buildPostSearchQuery(params: PostSearchParams = {}): string {
+  const queryParams = new URLSearchParams();
+  if (params.q?.trim()) queryParams.append("q", params.q.trim());
+  if (params.category && params.category !== "all") queryParams.append("category", params.category);
+  if (params.species) queryParams.append("species", params.species);
+  if (params.tags?.length) queryParams.append("tags", params.tags.join(","));
+  if (params.sort) queryParams.append("sort", params.sort);
+  if (params.cursor) queryParams.append("cursor", params.cursor);
+  if (params.limit) queryParams.append("limit", params.limit.toString());
+
+  const query = queryParams.toString();
+  return query ? `?${query}` : "";
+}
+
 /**
  * 커뮤니티 서비스
  */
@@ -80,35 +132,17 @@ export const communityService = {
   // ============ 게시글 API ============
 
   /**
-   * 게시글 목록 조회
+   * 게시글 목록/검색 (cursor를 주면 그 다음 페이지)
    */
-  async getPosts(
-    params?: {
-      category?: string;
-      limit?: number;
-      offset?: number;
-    },
-    token?: string | null
-  ): Promise<ServiceResult<Post[]>> {
-    const queryParams = new URLSearchParams();
-    if (params?.category && params.category !== "all") {
-      queryParams.append("category", params.category);
-    }
-    if (params?.limit) {
-      queryParams.append("limit", params.limit.toString());
-    }
-    if (params?.offset) {
-      queryParams.append("offset", params.offset.toString());
-    }
-
-    const url = `/api/community/posts${queryParams.toString() ? `?${queryParams}` : ""}`;
+  async getPosts(params?: PostSearchParams, token?: string | null): Promise<ServiceResult<PostsResponse>> {
+    const url = `/api/community/posts${buildPostSearchQuery(params)}`;
     const response = await apiClient.get<PostsResponse>(url, { token });
 
     if (response.error) {
       return { success: false, error: response.error };
     }
 
-    return { success: true, data: response.data?.posts || [] };
+    return { success: true, data: response.data || { posts: [], next_cursor: null } };
   },
 
   /**
@@ -209,12 +243,12 @@ export const communityService = {
   // ============ 댓글 API ============
 
   /**
-   * 댓글 목록 조회
+   * 댓글 트리 조회 (댓글마다 답글 일부 포함)
    */
   async getComments(
     postId: string,
     token?: string | null
-  ): Promise<ServiceResult<Comment[]>> {
+  ): Promise<ServiceResult<CommentsResponse>> {
     const response = await apiClient.get<CommentsResponse>(
       `/api/community/posts/${postId}/comments`,
       { token }
@@ -224,7 +258,31 @@ export const communityService = {
       return { success: false, error: response.error };
     }
 
-    return { success: true, data: response.data?.comments || [] };
+    return { success: true, data: response.data };
+  },
+
+  /**
+   * 답글 더 보기 (after: 마지막으로 받은 답글의 created_at)
+   */
+  async getReplies(
+    postId: string,
+    parentId: string,
+    after?: string,
+    token?: string | null
+  ): Promise<ServiceResult<RepliesResponse>> {
+    const params = new URLSearchParams({ parentId });
+    if (after) params.set("after", after);
+
+    const response = await apiClient.get<RepliesResponse>(
+      `/api/community/posts/${postId}/comments?${params.toString()}`,
+      { token }
+    );
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data };
   },
 
   /**
@@ -234,8 +292,8 @@ export const communityService = {
     postId: string,
     data: CreateCommentRequest,
     token: string
-  ): Promise<ServiceResult<Comment>> {
-    const response = await apiClient.post<{ comment: Comment }>(
+  ): Promise<ServiceResult<CommentNode>> {
+    const response = await apiClient.post<{ comment: CommentNode }>(
       `/api/community/posts/${postId}/comments`,
       data,
       { token }
@@ -10,15 +10,45 @@ export type {
   ChatServiceResult,
 } from "./chatService";
 
-export { communityService } from "./communityService";
+export { communityService, buildPostSearchQuery } from "./communityService";
 export type {
   Post,
+  PostSearchParams,
   Comment,
+  CommentNode,
   PostsResponse,
   PostDetailResponse,
   CommentsResponse,
+  RepliesResponse,
   CreatePostRequest,
   CreateCommentRequest,
   LikeResponse,
   ServiceResult,
 } from "./communityService";
+
+export { petRecordsService } from "./petRecordsService";
+export type {
+  PetRecordsResponse,
+  PetRecordResponse,
+  MigrationResponse,
+} from "./petRecordsService";
+
+export { petTagsService } from "./petTagsService";
+export type { PetTagsResponse, PetTagResponse } from "./petTagsService";
+
+export { calendarService } from "./calendarService";
+export type { CalendarFeedResponse } from "./calendarService";
+
+export { notificationService } from "./notificationService";
+export type { NotificationsResponse } from "./notificationService";
+
+export { messageService } from "./messageService";
+export type {
+  ConversationsResponse,
+  ConversationResponse,
+  MessagesResponse,
+  BlocksResponse,
+} from "./messageService";
+
+export { moderationService } from "./moderationService";
+export type { ModerationItemsResponse, CommunityBansResponse } from "./moderationService";
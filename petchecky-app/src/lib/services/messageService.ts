@@ -0,0 +1,154 @@
+// 1:1 메시지 API 서비스
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type { BlockedUser, DirectConversation, DirectMessage } from "@/types/messages";
+
+// 대화 목록 응답
+export interface ConversationsResponse {
+  conversations: DirectConversation[];
+  unreadCount: number;
+}
+
+// 대화방 열기 응답
+export interface ConversationResponse {
+  conversation: DirectConversation;
+}
+
+// 메시지 목록 응답 (오래된 순, hasMore면 더 이전 메시지가 있음)
+export interface MessagesResponse {
+  conversation: DirectConversation;
+  messages: DirectMessage[];
+  hasMore: boolean;
+}
+
+// 차단 목록 응답
+export interface BlocksResponse {
+  blocks: BlockedUser[];
+}
+
+/**
+ * 1:1 메시지 서비스
+ */
+export const messageService = {
+  /**
+   * 내 대화 목록 조회
+   */
+  async listConversations(token: string): Promise<ServiceResult<ConversationsResponse>> {
+    const response = await apiClient.get<ConversationsResponse>("/api/messages", { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data };
+  },
+
+  /**
+   * 상대와의 대화방 열기 (없으면 새로 만듦)
+   */
+  async startConversation(participantId: string, token: string): Promise<ServiceResult<DirectConversation>> {
+    const response = await apiClient.post<ConversationResponse>("/api/messages", { participantId }, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.conversation };
+  },
+
+  /**
+   * 메시지 조회 (before를 주면 그보다 이전 메시지)
+   */
+  async getMessages(
+    conversationId: string,
+    token: string,
+    before?: string
+  ): Promise<ServiceResult<MessagesResponse>> {
+    const query = before ? `?before=${encodeURIComponent(before)}` : "";
+    const response = await apiClient.get<MessagesResponse>(`/api/messages/${conversationId}${query}`, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data };
+  },
+
+  /**
+   * 메시지 보내기
+   */
+  async sendMessage(
+    conversationId: string,
+    content: string,
+    token: string
+  ): Promise<ServiceResult<DirectMessage>> {
+    const response = await apiClient.post<{ message: DirectMessage }>(
+      `/api/messages/${conversationId}`,
+      { content },
+      { token }
+    );
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.message };
+  },
+
+  /**
+   * 대화방의 받은 메시지 읽음 처리
+   */
+  async markRead(conversationId: string, token: string): Promise<ServiceResult<string | null>> {
+    const response = await apiClient.post<{ readAt: string | null }>(
+      `/api/messages/${conversationId}/read`,
+      undefined,
+      { token }
+    );
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.readAt ?? null };
+  },
+
+  /**
+   * 차단한 사용자 목록
+   */
+  async listBlocks(token: string): Promise<ServiceResult<BlockedUser[]>> {
+    const response = await apiClient.get<BlocksResponse>("/api/messages/blocks", { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.blocks || [] };
+  },
+
+  /**
+   * 사용자 차단
+   */
+  async block(userId: string, token: string): Promise<ServiceResult<void>> {
+    const response = await apiClient.post("/api/messages/blocks", { userId }, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+
+  /**
+   * 차단 해제
+   */
+  async unblock(userId: string, token: string): Promise<ServiceResult<void>> {
+    const response = await apiClient.delete(`/api/messages/blocks?userId=${encodeURIComponent(userId)}`, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+};
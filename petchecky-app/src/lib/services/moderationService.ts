@@ -0,0 +1,60 @@
+// 커뮤니티 관리 API 서비스 (관리자 전용)
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type { ModerationActionInput } from "@/lib/validations/moderation";
+import type { CommunityBan, ModerationItem } from "@/types/moderation";
+
+// 검토 목록 응답
+export interface ModerationItemsResponse {
+  items: ModerationItem[];
+}
+
+// 이용 제한 목록 응답
+export interface CommunityBansResponse {
+  bans: CommunityBan[];
+}
+
+/**
+ * 커뮤니티 관리 서비스
+ */
+export const moderationService = {
+  /**
+   * 검토 목록 (queue: 검토 대기/신고된 글, hidden: 숨긴 글)
+   */
+  async listItems(view: "queue" | "hidden", token: string): Promise<ServiceResult<ModerationItem[]>> {
+    const response = await apiClient.get<ModerationItemsResponse>(`/api/admin/moderation?view=${view}`, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.items || [] };
+  },
+
+  /**
+   * 이용 제한 중인 사용자 목록
+   */
+  async listBans(token: string): Promise<ServiceResult<CommunityBan[]>> {
+    const response = await apiClient.get<CommunityBansResponse>("/api/admin/moderation?view=bans", { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.bans || [] };
+  },
+
+  /**
+   * 관리 작업 실행 (숨김/복구/신고 종료/이용 제한/제한 해제)
+   */
+  async apply(input: ModerationActionInput, token: string): Promise<ServiceResult<void>> {
+    const response = await apiClient.post("/api/admin/moderation", input, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+};
@@ -0,0 +1,45 @@
+// 알림 API 서비스
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type { Notification, NotificationSettings } from "@/lib/notifications";
+
+// 서버 알림 목록 응답
+export interface NotificationsResponse {
+  notifications: Notification[];
+}
+
+/**
+ * 알림 서비스
+ */
+export const notificationService = {
+  /**
+   * 서버에서 만든 알림 가져오기 (한 번 가져간 알림은 다시 내려오지 않음)
+   */
+  async fetchPending(token: string): Promise<ServiceResult<Notification[]>> {
+    const response = await apiClient.get<NotificationsResponse>("/api/notifications", { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.notifications || [] };
+  },
+
+  /**
+   * 알림 설정과 시간대를 서버에 저장 (서버 리마인더 발송에 사용)
+   */
+  async saveSettings(
+    settings: NotificationSettings,
+    timezone: string,
+    token: string
+  ): Promise<ServiceResult<void>> {
+    const response = await apiClient.put("/api/notifications/settings", { settings, timezone }, { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+};
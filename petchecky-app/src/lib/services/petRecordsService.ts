@@ -0,0 +1,140 @@
+// 펫 건강 기록 API 서비스
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type { LegacyMigrationInput } from "@/lib/validations/petRecords";
+import type { PetRecord, PetRecordInput, PetRecordKind } from "@/types/petRecords";
+
+// 기록 목록 응답
+export interface PetRecordsResponse<K extends PetRecordKind> {
+  records: PetRecord<K>[];
+}
+
+// 기록 단건 응답
+export interface PetRecordResponse<K extends PetRecordKind> {
+  record: PetRecord<K>;
+}
+
+// 마이그레이션 응답
+export interface MigrationResponse {
+  success: boolean;
+  petIdMap: Record<string, string>;
+  createdPets: number;
+  importedRecords: number;
+  // 만들지 못한 펫의 localId
+  failedPets: string[];
+  // 종류별로 저장하지 못한 기록 ID
+  failedRecords: Partial<Record<PetRecordKind, string[]>>;
+}
+
+function recordsUrl(petId: string, kind: PetRecordKind): string {
+  return `/api/pets/${encodeURIComponent(petId)}/${kind}`;
+}
+
+/**
+ * 펫 건강 기록 서비스
+ */
+export const petRecordsService = {
+  /**
+   * 기록 목록 조회
+   */
+  async list<K extends PetRecordKind>(
+    petId: string,
+    kind: K,
+    token: string
+  ): Promise<ServiceResult<PetRecord<K>[]>> {
+    const response = await apiClient.get<PetRecordsResponse<K>>(recordsUrl(petId, kind), { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.records || [] };
+  },
+
+  /**
+   * 기록 추가
+   */
+  async create<K extends PetRecordKind>(
+    petId: string,
+    kind: K,
+    data: PetRecordInput<K>,
+    token: string
+  ): Promise<ServiceResult<PetRecord<K>>> {
+    const response = await apiClient.post<PetRecordResponse<K>>(recordsUrl(petId, kind), data, {
+      token,
+      retries: 0,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.record };
+  },
+
+  /**
+   * 기록 수정
+   */
+  async update<K extends PetRecordKind>(
+    petId: string,
+    kind: K,
+    recordId: string,
+    data: Partial<PetRecordInput<K>>,
+    token: string
+  ): Promise<ServiceResult<PetRecord<K>>> {
+    const response = await apiClient.patch<PetRecordResponse<K>>(
+      `${recordsUrl(petId, kind)}/${encodeURIComponent(recordId)}`,
+      data,
+      { token }
+    );
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.record };
+  },
+
+  /**
+   * 기록 삭제
+   */
+  async remove(
+    petId: string,
+    kind: PetRecordKind,
+    recordId: string,
+    token: string
+  ): Promise<ServiceResult<void>> {
+    const response = await apiClient.delete(
+      `${recordsUrl(petId, kind)}/${encodeURIComponent(recordId)}`,
+      { token }
+    );
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+
+  /**
+   * 레거시 localStorage 데이터 업로드 (1회)
+   */
+  async migrateLegacy(
+    data: LegacyMigrationInput,
+    token: string
+  ): Promise<ServiceResult<MigrationResponse>> {
+    const response = await apiClient.post<MigrationResponse>("/api/pets/migrate", data, {
+      token,
+      retries: 0,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data };
+  },
+};
+
+export default petRecordsService;
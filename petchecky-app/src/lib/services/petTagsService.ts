@@ -0,0 +1,146 @@
+// QR 인식표 API 서비스
+
+import { apiClient } from "./apiClient";
+import type { ServiceResult } from "./communityService";
+import type {
+  CreatePetTagInput,
+  FinderMessageInput,
+  TagScanInput,
+  UpdatePetTagInput,
+} from "@/lib/validations/petTags";
+import type { FoundPetProfile, PetTag, PetTagActivity } from "@/types/petTags";
+
+// 인식표 목록 응답
+export interface PetTagsResponse {
+  tags: PetTag[];
+}
+
+// 인식표 단건 응답
+export interface PetTagResponse {
+  tag: PetTag;
+}
+
+function foundUrl(token: string): string {
+  return `/api/found/${encodeURIComponent(token)}`;
+}
+
+/**
+ * QR 인식표 서비스
+ * - 보호자: 발급/수정/폐기, 스캔 기록 조회 (로그인 필요)
+ * - 발견자: 펫 정보 조회, 스캔 기록, 메시지 전송 (비로그인)
+ */
+export const petTagsService = {
+  /**
+   * 내 인식표 목록
+   */
+  async list(token: string): Promise<ServiceResult<PetTag[]>> {
+    const response = await apiClient.get<PetTagsResponse>("/api/pet-tags", { token });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.tags || [] };
+  },
+
+  /**
+   * 인식표 발급
+   */
+  async create(data: CreatePetTagInput, token: string): Promise<ServiceResult<PetTag>> {
+    const response = await apiClient.post<PetTagResponse>("/api/pet-tags", data, { token, retries: 0 });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.tag };
+  },
+
+  /**
+   * 사진/특이사항 수정
+   */
+  async update(tagId: string, data: UpdatePetTagInput, token: string): Promise<ServiceResult<PetTag>> {
+    const response = await apiClient.patch<PetTagResponse>(`/api/pet-tags/${encodeURIComponent(tagId)}`, data, {
+      token,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.tag };
+  },
+
+  /**
+   * 인식표 폐기
+   */
+  async revoke(tagId: string, token: string): Promise<ServiceResult<PetTag>> {
+    const response = await apiClient.delete<PetTagResponse>(`/api/pet-tags/${encodeURIComponent(tagId)}`, {
+      token,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.tag };
+  },
+
+  /**
+   * 스캔 기록과 발견자 메시지
+   */
+  async activity(tagId: string, token: string): Promise<ServiceResult<PetTagActivity>> {
+    const response = await apiClient.get<PetTagActivity>(`/api/pet-tags/${encodeURIComponent(tagId)}/activity`, {
+      token,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data };
+  },
+
+  /**
+   * 발견자 페이지 정보
+   */
+  async getFoundPet(tagToken: string): Promise<ServiceResult<FoundPetProfile>> {
+    const response = await apiClient.get<{ pet: FoundPetProfile }>(foundUrl(tagToken), { retries: 0 });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.pet };
+  },
+
+  /**
+   * 스캔 기록 (위치를 나중에 공유하면 scanId와 함께 다시 호출)
+   */
+  async recordScan(tagToken: string, data: TagScanInput): Promise<ServiceResult<string>> {
+    const response = await apiClient.post<{ scanId: string }>(`${foundUrl(tagToken)}/scans`, data, {
+      retries: 0,
+    });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.scanId };
+  },
+
+  /**
+   * 보호자에게 메시지 보내기
+   */
+  async sendMessage(tagToken: string, data: FinderMessageInput): Promise<ServiceResult<void>> {
+    const response = await apiClient.post(`${foundUrl(tagToken)}/messages`, data, { retries: 0 });
+
+    if (response.error) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true };
+  },
+};
+
+export default petTagsService;
@@ -0,0 +1,397 @@
+/**
+ * 반려동물 종(species) 레지스트리
+ *
+ * 종별 이모지, 다국어 이름, 예방접종 일정, 정상 활력징후 범위, 위험 음식을 한곳에서 관리합니다.
+ * 새 종을 추가할 때는 SPECIES_REGISTRY에 항목을 추가하고 DB CHECK 제약(마이그레이션)을 함께 갱신하세요.
+ * 페이지와 AI 프롬프트는 species === 'dog' 같은 분기 대신 이 모듈의 헬퍼를 사용합니다.
+ */
+
+export const PET_SPECIES = ['dog', 'cat', 'rabbit', 'hamster', 'ferret', 'bird', 'reptile'] as const;
+
+export type PetSpecies = typeof PET_SPECIES[number];
+
+export type SpeciesLanguage = 'ko' | 'en' | 'ja' | 'zh';
+
+// 생활 환경 (선택 접종 대상을 정할 때 사용)
+// indoor: 실내 위주, outdoor: 산책/외출이 잦음, social: 호텔·유치원·미용 등 다른 동물과 자주 접촉
+export const VACCINE_LIFESTYLES = ['indoor', 'outdoor', 'social'] as const;
+
+export type VaccineLifestyle = typeof VACCINE_LIFESTYLES[number];
+
+/**
+ * 예방접종 규칙 (일정 계산은 lib/vaccineSchedule.ts)
+ *
+ * 어릴 때는 series 주령마다 기초 접종을 하고, 그 시기를 놓쳤으면 catchUpDoses회를 간격을 두고 맞습니다.
+ * 기초 접종을 마치면 boosterAfter일 뒤 첫 추가접종, 이후 interval일마다 반복합니다.
+ */
+export interface SpeciesVaccine {
+  id: string;
+  name: string;
+  /** 접종 기록 이름 매칭용 다른 표기 */
+  aliases?: string[];
+  type: 'required' | 'optional';
+  /** 기초 접종 주령 (생후 N주) */
+  series: number[];
+  /** 기초 접종 시기를 놓쳤을 때 필요한 횟수 (기본 1) */
+  catchUpDoses?: number;
+  /** 기초 접종 후 첫 추가접종까지 (일, 기본 interval) */
+  boosterAfter?: number;
+  /** 추가접종 주기 (일) */
+  interval: number;
+  /** 항체가 검사 결과가 충분하면 추가접종을 미룰 수 있음 */
+  titerEligible?: boolean;
+  /** 선택 접종을 권하는 생활 환경 (없으면 모두) */
+  lifestyles?: VaccineLifestyle[];
+}
+
+export interface VitalRange {
+  min: number;
+  max: number;
+}
+
+export interface SpeciesVitals {
+  /** 체온 (°C), 변온동물은 사육 온도에 따라 달라지므로 없음 */
+  temperature?: VitalRange;
+  /** 심박수 (회/분) */
+  heartRate?: VitalRange;
+  /** 호흡수 (회/분) */
+  respiratoryRate?: VitalRange;
+}
+
+export interface ToxicFood {
+  name: string;
+  danger: 'high' | 'medium' | 'low';
+  effect: string;
+}
+
+export interface SpeciesInfo {
+  id: PetSpecies;
+  emoji: string;
+  names: Record<SpeciesLanguage, string>;
+  vaccines: SpeciesVaccine[];
+  vitals: SpeciesVitals;
+  toxicFoods: ToxicFood[];
+  /** 노령으로 보는 나이 (년) */
+  seniorAge: number;
+}
+
+// 여러 종에 공통으로 위험한 음식
+const CHOCOLATE: ToxicFood = { name: '초콜릿', danger: 'high', effect: '테오브로민 중독' };
+const ONION_GARLIC: ToxicFood = { name: '양파/마늘', danger: 'high', effect: '적혈구 손상' };
+const CAFFEINE: ToxicFood = { name: '카페인', danger: 'high', effect: '심장/신경계 이상' };
+const ALCOHOL: ToxicFood = { name: '알코올', danger: 'high', effect: '중추신경 억제' };
+
+export const SPECIES_REGISTRY: Record<PetSpecies, SpeciesInfo> = {
+  dog: {
+    id: 'dog',
+    emoji: '🐕',
+    names: { ko: '강아지', en: 'Dog', ja: '犬', zh: '狗' },
+    vaccines: [
+      {
+        id: 'dog-dhppl',
+        name: '종합백신 (DHPPL)',
+        aliases: ['DHPPL', 'DHPPi', '종합백신', '5종 종합백신'],
+        type: 'required',
+        series: [6, 8, 10, 12, 14],
+        catchUpDoses: 2,
+        interval: 365,
+        titerEligible: true,
+      },
+      { id: 'dog-rabies', name: '광견병', aliases: ['Rabies'], type: 'required', series: [12], interval: 365 },
+      {
+        id: 'dog-corona',
+        name: '코로나 장염',
+        aliases: ['코로나', 'CCV'],
+        type: 'optional',
+        series: [6, 8],
+        catchUpDoses: 2,
+        interval: 365,
+      },
+      {
+        id: 'dog-kennel-cough',
+        name: '켄넬코프',
+        aliases: ['KC', '전염성 기관지염'],
+        type: 'optional',
+        series: [8, 10],
+        catchUpDoses: 2,
+        interval: 365,
+        lifestyles: ['social'],
+      },
+      {
+        id: 'dog-influenza',
+        name: '인플루엔자',
+        aliases: ['CIV', '독감'],
+        type: 'optional',
+        series: [12, 14],
+        catchUpDoses: 2,
+        interval: 365,
+        lifestyles: ['outdoor', 'social'],
+      },
+      { id: 'dog-heartworm', name: '심장사상충 예방', aliases: ['심장사상충'], type: 'required', series: [8], interval: 30 },
+    ],
+    vitals: {
+      temperature: { min: 38.0, max: 39.2 },
+      heartRate: { min: 60, max: 140 },
+      respiratoryRate: { min: 10, max: 30 },
+    },
+    toxicFoods: [
+      CHOCOLATE,
+      { name: '포도/건포도', danger: 'high', effect: '급성 신부전' },
+      ONION_GARLIC,
+      { name: '자일리톨', danger: 'high', effect: '저혈당, 간부전' },
+      { name: '아보카도', danger: 'medium', effect: '구토, 설사' },
+      CAFFEINE,
+      ALCOHOL,
+      { name: '마카다미아', danger: 'medium', effect: '무기력, 구토' },
+    ],
+    seniorAge: 7,
+  },
+  cat: {
+    id: 'cat',
+    emoji: '🐈',
+    names: { ko: '고양이', en: 'Cat', ja: '猫', zh: '猫' },
+    vaccines: [
+      {
+        id: 'cat-fvrcp',
+        name: '종합백신 (FVRCP)',
+        aliases: ['FVRCP', '종합백신', '3종 종합백신'],
+        type: 'required',
+        series: [8, 12, 16],
+        catchUpDoses: 2,
+        interval: 365,
+        titerEligible: true,
+      },
+      { id: 'cat-rabies', name: '광견병', aliases: ['Rabies'], type: 'required', series: [12], interval: 365 },
+      {
+        id: 'cat-felv',
+        name: '백혈병 (FeLV)',
+        aliases: ['FeLV', '백혈병'],
+        type: 'optional',
+        series: [8, 12],
+        catchUpDoses: 2,
+        interval: 365,
+        lifestyles: ['outdoor', 'social'],
+      },
+      {
+        id: 'cat-fip',
+        name: '전염성 복막염 (FIP)',
+        aliases: ['FIP', '복막염'],
+        type: 'optional',
+        series: [16, 19],
+        catchUpDoses: 2,
+        interval: 365,
+      },
+      { id: 'cat-heartworm', name: '심장사상충 예방', aliases: ['심장사상충'], type: 'required', series: [8], interval: 30 },
+    ],
+    vitals: {
+      temperature: { min: 38.0, max: 39.2 },
+      heartRate: { min: 140, max: 220 },
+      respiratoryRate: { min: 20, max: 30 },
+    },
+    toxicFoods: [
+      CHOCOLATE,
+      ONION_GARLIC,
+      ALCOHOL,
+      CAFFEINE,
+      { name: '포도/건포도', danger: 'high', effect: '신부전 가능' },
+      { name: '백합', danger: 'high', effect: '급성 신부전 (꽃가루만으로도 위험)' },
+      { name: '날생선', danger: 'medium', effect: '티아민 결핍' },
+      { name: '우유', danger: 'low', effect: '유당불내증' },
+      { name: '날계란', danger: 'medium', effect: '살모넬라' },
+    ],
+    seniorAge: 10,
+  },
+  rabbit: {
+    id: 'rabbit',
+    emoji: '🐇',
+    names: { ko: '토끼', en: 'Rabbit', ja: 'うさぎ', zh: '兔子' },
+    vaccines: [
+      { id: 'rabbit-rhdv2', name: '토끼 출혈병 (RHDV2)', aliases: ['RHDV2', 'RHD'], type: 'optional', series: [10], interval: 365 },
+      { id: 'rabbit-myxomatosis', name: '점액종증', aliases: ['Myxomatosis'], type: 'optional', series: [5], interval: 365, lifestyles: ['outdoor'] },
+    ],
+    vitals: {
+      temperature: { min: 38.5, max: 40.0 },
+      heartRate: { min: 130, max: 325 },
+      respiratoryRate: { min: 30, max: 60 },
+    },
+    toxicFoods: [
+      CHOCOLATE,
+      { name: '아보카도', danger: 'high', effect: '심근 손상, 호흡곤란' },
+      ONION_GARLIC,
+      { name: '감자 싹/잎', danger: 'medium', effect: '솔라닌 중독' },
+      { name: '사과씨/과일씨', danger: 'medium', effect: '시안화물 중독' },
+      { name: '양상추(결구)', danger: 'low', effect: '설사' },
+    ],
+    seniorAge: 5,
+  },
+  hamster: {
+    id: 'hamster',
+    emoji: '🐹',
+    names: { ko: '햄스터', en: 'Hamster', ja: 'ハムスター', zh: '仓鼠' },
+    vaccines: [],
+    vitals: {
+      temperature: { min: 36.0, max: 38.0 },
+      heartRate: { min: 250, max: 500 },
+      respiratoryRate: { min: 35, max: 135 },
+    },
+    toxicFoods: [
+      CHOCOLATE,
+      { name: '아몬드(생)', danger: 'high', effect: '시안화물 중독' },
+      ONION_GARLIC,
+      { name: '감귤류', danger: 'medium', effect: '소화 장애' },
+      { name: '생감자', danger: 'medium', effect: '솔라닌 중독' },
+      { name: '날콩', danger: 'medium', effect: '소화 효소 억제' },
+    ],
+    seniorAge: 1.5,
+  },
+  ferret: {
+    id: 'ferret',
+    emoji: '🦦',
+    names: { ko: '페럿', en: 'Ferret', ja: 'フェレット', zh: '雪貂' },
+    vaccines: [
+      {
+        id: 'ferret-distemper',
+        name: '디스템퍼',
+        aliases: ['Distemper', 'CDV'],
+        type: 'required',
+        series: [8, 11, 14],
+        catchUpDoses: 2,
+        interval: 365,
+      },
+      { id: 'ferret-rabies', name: '광견병', aliases: ['Rabies'], type: 'required', series: [12], interval: 365 },
+      { id: 'ferret-heartworm', name: '심장사상충 예방', aliases: ['심장사상충'], type: 'optional', series: [12], interval: 30 },
+    ],
+    vitals: {
+      temperature: { min: 37.8, max: 40.0 },
+      heartRate: { min: 180, max: 250 },
+      respiratoryRate: { min: 33, max: 36 },
+    },
+    toxicFoods: [
+      CHOCOLATE,
+      { name: '포도/건포도', danger: 'high', effect: '급성 신부전' },
+      ONION_GARLIC,
+      { name: '자일리톨', danger: 'high', effect: '저혈당, 간부전' },
+      CAFFEINE,
+      { name: '유제품', danger: 'medium', effect: '유당불내증, 설사' },
+      { name: '설탕/과일', danger: 'medium', effect: '인슐린종 위험 증가' },
+    ],
+    seniorAge: 4,
+  },
+  bird: {
+    id: 'bird',
+    emoji: '🦜',
+    names: { ko: '새', en: 'Bird', ja: '鳥', zh: '鸟' },
+    vaccines: [
+      {
+        id: 'bird-polyomavirus',
+        name: '폴리오마 바이러스',
+        aliases: ['APV', '폴리오마'],
+        type: 'optional',
+        series: [5, 7],
+        catchUpDoses: 2,
+        interval: 365,
+        lifestyles: ['social'],
+      },
+    ],
+    vitals: {
+      temperature: { min: 40.0, max: 42.0 },
+      heartRate: { min: 150, max: 600 },
+      respiratoryRate: { min: 15, max: 45 },
+    },
+    toxicFoods: [
+      { name: '아보카도', danger: 'high', effect: '심근 손상, 급사' },
+      CHOCOLATE,
+      CAFFEINE,
+      ALCOHOL,
+      ONION_GARLIC,
+      { name: '소금/짠 음식', danger: 'medium', effect: '탈수, 신장 손상' },
+      { name: '과일씨', danger: 'medium', effect: '시안화물 중독' },
+    ],
+    seniorAge: 10,
+  },
+  reptile: {
+    id: 'reptile',
+    emoji: '🦎',
+    names: { ko: '파충류', en: 'Reptile', ja: '爬虫類', zh: '爬行动物' },
+    vaccines: [],
+    // 변온동물이라 체온은 사육장 온도를 따르고, 심박/호흡수도 온도에 따라 크게 달라짐
+    vitals: {},
+    toxicFoods: [
+      { name: '반딧불이', danger: 'high', effect: '심장 독성, 급사' },
+      { name: '아보카도', danger: 'high', effect: '심근 손상' },
+      { name: '대황', danger: 'high', effect: '옥살산 중독' },
+      { name: '시금치', danger: 'medium', effect: '칼슘 흡수 저해' },
+      { name: '야생 곤충', danger: 'medium', effect: '농약, 기생충' },
+      { name: '양상추', danger: 'low', effect: '영양 부족, 설사' },
+    ],
+    seniorAge: 10,
+  },
+};
+
+export function isPetSpecies(value: unknown): value is PetSpecies {
+  return typeof value === 'string' && (PET_SPECIES as readonly string[]).includes(value);
+}
+
+/**
+ * 저장된 값이 레지스트리에 없는 종이면 fallback으로 대체
+ */
+export function normalizeSpecies(value: unknown, fallback: PetSpecies = 'dog'): PetSpecies {
+  return isPetSpecies(value) ? value : fallback;
+}
+
+/**
+ * 종 정보 조회 (알 수 없는 종은 강아지 정보로 대체)
+ */
+export function getSpecies(species: string | null | undefined): SpeciesInfo {
+  return SPECIES_REGISTRY[normalizeSpecies(species)];
+}
+
+export function getSpeciesEmoji(species: string | null | undefined): string {
+  return isPetSpecies(species) ? SPECIES_REGISTRY[species].emoji : '🐾';
+}
+
+export function getSpeciesName(species: string | null | undefined, language: SpeciesLanguage = 'ko'): string {
+  return getSpecies(species).names[language];
+}
+
+/**
+ * 종별 데이터 테이블 조회 (해당 종 데이터가 없으면 fallback)
+ * 페이지별 팁/프리셋처럼 일부 종만 준비된 데이터를 안전하게 꺼낼 때 사용합니다.
+ */
+export function getSpeciesData<T>(
+  table: Partial<Record<PetSpecies, T>>,
+  species: string | null | undefined,
+  fallback: T
+): T {
+  return (isPetSpecies(species) ? table[species] : undefined) ?? fallback;
+}
+
+/**
+ * 활력징후 범위를 사람이 읽는 문자열로 (AI 프롬프트/화면 표시용)
+ */
+export function formatVitalRanges(species: string | null | undefined): string | null {
+  const { temperature, heartRate, respiratoryRate } = getSpecies(species).vitals;
+  const parts = [
+    temperature && `체온 ${temperature.min}~${temperature.max}°C`,
+    heartRate && `심박수 ${heartRate.min}~${heartRate.max}회/분`,
+    respiratoryRate && `호흡수 ${respiratoryRate.min}~${respiratoryRate.max}회/분`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * AI 상담 프롬프트에 넣을 종별 참고 정보 (한국어 목록 항목)
+ * 강아지/고양이 외의 종은 일반 상식으로 답하기 쉬워 정상 범위와 위험 음식을 함께 알려줍니다.
+ */
+export function describeSpeciesForPrompt(species: string | null | undefined): string {
+  const info = getSpecies(species);
+  const vitals = formatVitalRanges(info.id);
+  const lines = [
+    `- 종류: ${info.names.ko}`,
+    vitals
+      ? `- ${info.names.ko} 정상 활력징후: ${vitals}`
+      : `- ${info.names.ko}는 변온동물이므로 체온/심박수는 사육 온도에 따라 달라집니다`,
+    `- ${info.names.ko}에게 위험한 음식: ${info.toxicFoods.map((food) => food.name).join(', ')}`,
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,88 @@
+/**
+ * Server-Sent Events 유틸리티
+ * 서버(스트림 생성)와 클라이언트(스트림 읽기)에서 공통으로 사용합니다.
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * SSE 이벤트 한 건을 직렬화합니다.
+ *
+ * @example
+ * ```typescript
+ * controller.enqueue(encoder.encode(encodeSSE("token", { text: "안녕" })));
+ * ```
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  const lines = payload.split("\n").map((line) => `data: ${line}`).join("\n");
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+/**
+ * 이벤트 블록(빈 줄로 구분된 한 덩어리)을 파싱합니다.
+ * event 필드가 없으면 "message"로 간주합니다.
+ */
+function parseEventBlock(block: string): SSEEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const rawLine of block.split("\n")) {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (!line || line.startsWith(":")) continue;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join("\n") };
+}
+
+/**
+ * ReadableStream을 SSE 이벤트 단위로 읽습니다.
+ * 청크 경계에서 잘린 이벤트(줄바꿈 포함)는 다음 청크와 합쳐서 처리합니다.
+ */
+export async function* readSSEStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // 청크 경계에서 \r\n이 나뉠 수 있으므로 합친 버퍼에서 정규화 (끝의 \r은 다음 청크까지 남음)
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+
+    // 마지막 빈 줄 없이 끝난 이벤트
+    buffer = (buffer + decoder.decode()).replace(/\r\n/g, "\n");
+    const parsed = parseEventBlock(buffer);
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,11 +1,12 @@
 import { supabase } from './client';
+import type { PetSpecies } from '@/lib/species';
 
 export interface ChatRecord {
   id: string;
   user_id: string;
   pet_id: string;
   pet_name: string;
-  pet_species: 'dog' | 'cat';
+  pet_species: PetSpecies;
   preview: string;
   severity: 'low' | 'medium' | 'high' | null;
   messages: Array<{
@@ -1,4 +1,8 @@
 import { supabase } from './client';
+import type { PetSpecies } from '@/lib/species';
+
+// 관리자 검토 상태 (supabase/migrations/017_community_moderation.sql)
+export type ModerationStatus = 'visible' | 'pending' | 'hidden';
 
 export interface CommunityPost {
   id: string;
@@ -6,11 +10,15 @@ export interface CommunityPost {
   title: string;
   content: string;
   category: 'question' | 'tip' | 'daily' | 'review';
-  pet_species?: 'dog' | 'cat';
+  pet_species?: PetSpecies;
   author_name: string;
+  // 자유 입력 해시태그 (# 없이 소문자, supabase/migrations/018_community_search.sql)
+  hashtags?: string[];
   likes_count: number;
   comments_count: number;
   views_count: number;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -22,10 +30,29 @@ export interface CommunityComment {
   content: string;
   author_name: string;
   parent_id?: string;
+  // 답글 단계 (0: 댓글, 최대 2)
+  depth?: number;
+  reply_count?: number;
+  // 답글이 남아 있어 자리만 남긴 삭제 댓글
+  deleted_at?: string | null;
+  moderation_status?: ModerationStatus;
+  moderation_reason?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// 답글 트리 노드 (GET /api/community/posts/[id]/comments)
+export interface CommunityCommentNode extends CommunityComment {
+  depth: number;
+  reply_count: number;
+  is_deleted: boolean;
+  // 관리자가 숨겼거나 검토 중인 댓글 (내용/작성자는 가림)
+  is_hidden: boolean;
+  // 미리보기로 함께 내려주는 답글 (나머지는 has_more_replies로 더 불러오기)
+  replies: CommunityCommentNode[];
+  has_more_replies: boolean;
+}
+
 export interface CommunityLike {
   id: string;
   post_id: string;
@@ -35,45 +62,13 @@ export interface CommunityLike {
 
 // ============ 게시글 API ============
 
-// 게시글 목록 조회 (필요한 컬럼만 조회)
-export async function getCommunityPosts(
-  options?: {
-    category?: string;
-    limit?: number;
-    offset?: number;
-  }
-): Promise<CommunityPost[]> {
-  let query = supabase
-    .from('community_posts')
-    .select('id, user_id, title, content, category, pet_species, author_name, likes_count, comments_count, views_count, created_at, updated_at')
-    .order('created_at', { ascending: false });
-
-  if (options?.category && options.category !== 'all') {
-    query = query.eq('category', options.category);
-  }
-
-  if (options?.limit) {
-    query = query.limit(options.limit);
-  }
-
-  if (options?.offset) {
-    query = query.range(options.offset, options.offset + (options.limit || 20) - 1);
-  }
-
-  const { data, error } = await query;
-
-  if (error) {
-    console.error('Error fetching posts:', error);
-    return [];
-  }
-  return data || [];
-}
+// 게시글 목록/검색은 lib/communitySearch.ts (keyset 페이지네이션)
 
 // 게시글 상세 조회 (필요한 컬럼만 조회)
 export async function getCommunityPost(postId: string): Promise<CommunityPost | null> {
   const { data, error } = await supabase
     .from('community_posts')
-    .select('id, user_id, title, content, category, pet_species, author_name, likes_count, comments_count, views_count, created_at, updated_at')
+    .select('id, user_id, title, content, category, pet_species, author_name, hashtags, likes_count, comments_count, views_count, created_at, updated_at')
     .eq('id', postId)
     .single();
 
@@ -132,7 +127,7 @@ export async function createCommunityPost(
 // 게시글 수정
 export async function updateCommunityPost(
   postId: string,
-  updates: Partial<Pick<CommunityPost, 'title' | 'content' | 'category' | 'pet_species'>>
+  updates: Partial<Pick<CommunityPost, 'title' | 'content' | 'category' | 'pet_species' | 'hashtags'>>
 ): Promise<CommunityPost | null> {
   const { data, error } = await supabase
     .from('community_posts')
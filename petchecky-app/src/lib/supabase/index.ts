@@ -23,7 +23,6 @@ export type { UsageRecord } from './usage';
 
 // Community
 export {
-  getCommunityPosts,
   getCommunityPost,
   incrementPostViews,
   createCommunityPost,
@@ -36,4 +35,4 @@ export {
   checkLikeStatus,
   toggleLike,
 } from './community';
-export type { CommunityPost, CommunityComment, CommunityLike } from './community';
+export type { CommunityPost, CommunityComment, CommunityCommentNode, CommunityLike, ModerationStatus } from './community';
@@ -1,13 +1,17 @@
 import { supabase } from './client';
+import type { PetSpecies, VaccineLifestyle } from '@/lib/species';
 
 export interface Pet {
   id: string;
   user_id: string;
   name: string;
-  species: 'dog' | 'cat';
+  species: PetSpecies;
   breed: string;
+  breed_id: string | null;
   age: number;
   weight: number;
+  birth_date: string | null;
+  lifestyle: VaccineLifestyle | null;
   created_at: string;
   updated_at: string;
 }
@@ -16,7 +20,7 @@ export interface Pet {
 export async function getPets(userId: string): Promise<Pet[]> {
   const { data, error } = await supabase
     .from('pets')
-    .select('id, user_id, name, species, breed, age, weight, created_at, updated_at')
+    .select('id, user_id, name, species, breed, breed_id, age, weight, birth_date, lifestyle, created_at, updated_at')
     .eq('user_id', userId)
     .order('created_at', { ascending: false });
 
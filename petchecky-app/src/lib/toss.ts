@@ -2,6 +2,32 @@
 
 const TOSS_API_URL = "https://api.tosspayments.com/v1";
 
+// 토스 API 오류 (code 예: REJECT_CARD_PAYMENT, DUPLICATED_ORDER_ID)
+export class TossPaymentError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "TossPaymentError";
+  }
+}
+
+// 토스 결제 객체 중 사용하는 필드
+export interface TossPayment {
+  paymentKey: string;
+  orderId: string;
+  status: "READY" | "IN_PROGRESS" | "WAITING_FOR_DEPOSIT" | "DONE" | "CANCELED" | "PARTIAL_CANCELED" | "ABORTED" | "EXPIRED";
+  totalAmount: number;
+  approvedAt?: string | null;
+  card?: { company?: string | null; number?: string | null } | null;
+}
+
+function toTossError(status: number, data: { code?: string; message?: string }, fallback: string) {
+  return new TossPaymentError(data.code || "UNKNOWN_ERROR", status, data.message || fallback);
+}
+
 // Basic 인증 헤더 생성
 export function getAuthHeader(): string {
   const secretKey = process.env.TOSS_SECRET_KEY;
@@ -32,19 +58,26 @@ export async function issueBillingKey(authKey: string, customerKey: string) {
 }
 
 // 빌링키로 결제 실행
+// idempotencyKey를 주면 같은 키로 다시 요청해도 토스가 첫 결과를 돌려주고 중복 결제하지 않습니다.
 export async function chargeBilling(
   billingKey: string,
   customerKey: string,
   amount: number,
   orderId: string,
-  orderName: string
-) {
+  orderName: string,
+  idempotencyKey?: string
+): Promise<TossPayment> {
+  const headers: Record<string, string> = {
+    Authorization: getAuthHeader(),
+    "Content-Type": "application/json",
+  };
+  if (idempotencyKey) {
+    headers["Idempotency-Key"] = idempotencyKey;
+  }
+
   const response = await fetch(`${TOSS_API_URL}/billing/${billingKey}`, {
     method: "POST",
-    headers: {
-      Authorization: getAuthHeader(),
-      "Content-Type": "application/json",
-    },
+    headers,
     body: JSON.stringify({
       customerKey,
       amount,
@@ -56,7 +89,22 @@ export async function chargeBilling(
   const data = await response.json();
 
   if (!response.ok) {
-    throw new Error(data.message || "결제 실패");
+    throw toTossError(response.status, data, "결제 실패");
+  }
+
+  return data;
+}
+
+// 결제 조회 (웹훅 검증용 - 웹훅 본문 대신 토스 API 응답을 기준으로 처리)
+export async function getPayment(paymentKey: string): Promise<TossPayment> {
+  const response = await fetch(`${TOSS_API_URL}/payments/${encodeURIComponent(paymentKey)}`, {
+    headers: { Authorization: getAuthHeader() },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw toTossError(response.status, data, "결제 조회 실패");
   }
 
   return data;
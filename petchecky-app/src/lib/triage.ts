@@ -0,0 +1,120 @@
+import type { Language } from './constants';
+import { parseTriage, type Triage, type VetTimeframe } from './validations/triage';
+
+/**
+ * 구조화된 triage 블록 처리
+ * 모델이 응답 끝에 <triage>{...}</triage> 형태의 JSON을 붙이도록 요청하고,
+ * 서버에서 분리·검증합니다. 블록이 없거나 잘못되면 호출 측에서 키워드 분석으로 대체합니다.
+ */
+
+export const TRIAGE_OPEN_TAG = '<triage>';
+export const TRIAGE_CLOSE_TAG = '</triage>';
+
+const TRIAGE_BLOCK_PATTERN = /<triage>([\s\S]*?)<\/triage>/;
+
+/**
+ * 프롬프트에 덧붙일 triage 블록 작성 지시문
+ */
+export function getTriageInstruction(language: Language = 'ko'): string {
+  const format = `${TRIAGE_OPEN_TAG}{"severity":"low|medium|high","suspectedCauses":["..."],"redFlags":["..."],"vetTimeframe":"immediately|within_24h|within_week|monitor"}${TRIAGE_CLOSE_TAG}`;
+
+  const instructions = {
+    ko: `응답 형식:
+- 본문은 일반 텍스트로 작성하세요.
+- 본문이 끝나면 마지막 줄에 아래 형식의 triage 블록을 정확히 한 번 붙이세요. 블록 안에는 JSON만 넣으세요.
+${format}
+- severity: high(즉시 진료 필요), medium(경과 관찰 후 진료 고려), low(가정 관리 가능)
+- suspectedCauses: 의심되는 원인 (최대 5개), redFlags: 나타나면 바로 병원에 가야 하는 증상 (최대 5개)
+- 배열 항목은 한국어로 짧게 작성하세요.`,
+    en: `Response format:
+- Write the body in plain text.
+- After the body, append exactly one triage block on the last line in the format below. Put only JSON inside the block.
+${format}
+- severity: high (needs immediate care), medium (observe, consider a vet visit), low (home care is fine)
+- suspectedCauses: likely causes (max 5), redFlags: symptoms that mean go to the vet right away (max 5)
+- Keep array items short and in English.`,
+    ja: `応答形式:
+- 本文はプレーンテキストで書いてください。
+- 本文の後、最後の行に以下の形式のtriageブロックを必ず1回だけ付けてください。ブロック内にはJSONのみを入れてください。
+${format}
+- severity: high(すぐに受診が必要)、medium(経過観察の上で受診を検討)、low(自宅ケアで可)
+- suspectedCauses: 考えられる原因(最大5つ)、redFlags: 現れたらすぐ病院へ行くべき症状(最大5つ)
+- 配列の項目は日本語で短く書いてください。`,
+  };
+
+  return instructions[language] || instructions.ko;
+}
+
+/**
+ * 응답 텍스트에서 triage 블록을 분리합니다.
+ * 블록은 항상 본문에서 제거되며, JSON이 스키마에 맞을 때만 triage를 반환합니다.
+ */
+export function extractTriage(rawText: string): { text: string; triage: Triage | null } {
+  const match = rawText.match(TRIAGE_BLOCK_PATTERN);
+
+  if (!match) {
+    // 토큰 한도로 닫는 태그 없이 끝난 블록도 본문에서 제거
+    return { text: hideTriageBlock(rawText).trim(), triage: null };
+  }
+
+  const text = rawText.replace(TRIAGE_BLOCK_PATTERN, '').trim();
+  const json = match[1]
+    .replace(/```(?:json)?/g, '')
+    .trim();
+
+  try {
+    return { text, triage: parseTriage(JSON.parse(json)) };
+  } catch {
+    return { text, triage: null };
+  }
+}
+
+/**
+ * 스트리밍 중 화면에 보여줄 부분만 반환합니다.
+ * triage 블록이 시작되면 그 앞까지만, 여는 태그가 잘려서 도착하는 중이면 해당 부분을 보류합니다.
+ */
+export function hideTriageBlock(text: string): string {
+  const openIndex = text.indexOf(TRIAGE_OPEN_TAG);
+  if (openIndex !== -1) {
+    return text.slice(0, openIndex);
+  }
+
+  const maxPartial = Math.min(TRIAGE_OPEN_TAG.length - 1, text.length);
+  for (let length = maxPartial; length > 0; length--) {
+    if (TRIAGE_OPEN_TAG.startsWith(text.slice(-length))) {
+      return text.slice(0, -length);
+    }
+  }
+
+  return text;
+}
+
+/**
+ * 권장 방문 시점 라벨 반환
+ */
+export function getVetTimeframeLabel(timeframe: VetTimeframe, language: Language = 'ko'): string {
+  const labels = {
+    immediately: {
+      ko: '지금 바로 병원 방문',
+      en: 'Visit a vet right away',
+      ja: '今すぐ病院へ',
+    },
+    within_24h: {
+      ko: '24시간 이내 병원 방문',
+      en: 'See a vet within 24 hours',
+      ja: '24時間以内に受診',
+    },
+    within_week: {
+      ko: '일주일 이내 진료 권장',
+      en: 'See a vet within a week',
+      ja: '1週間以内の受診を推奨',
+    },
+    monitor: {
+      ko: '집에서 경과 관찰',
+      en: 'Monitor at home',
+      ja: '自宅で経過観察',
+    },
+  };
+
+  return labels[timeframe][language] || labels[timeframe].ko;
+}
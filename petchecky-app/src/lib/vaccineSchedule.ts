@@ -0,0 +1,278 @@
+/**
+ * 예방접종 일정 계산
+ *
+ * 종 레지스트리의 접종 규칙(기초 접종 주령, 추가접종 주기)과 생년월일, 생활 환경으로 접종 일정을 만들고
+ * 실제 접종 기록과 맞춰 완료/지연/예정 상태를 계산합니다. (순수 함수 - 저장소/네트워크 없음)
+ * 날짜는 모두 "YYYY-MM-DD" 문자열로 다룹니다.
+ */
+
+import { getSpecies, type SpeciesVaccine, type VaccineLifestyle } from "./species";
+import type { Vaccination } from "@/types/petRecords";
+
+export type DoseKind = "primary" | "booster" | "titer";
+
+export type DoseStatus = "completed" | "overdue" | "due" | "upcoming";
+
+export interface ScheduledDose {
+  vaccineId: string;
+  name: string;
+  kind: DoseKind;
+  /** 기초 접종 회차 (1부터), 추가접종/항체가 검사는 없음 */
+  doseNumber?: number;
+  dueDate: string;
+  status: DoseStatus;
+  completedDate?: string;
+  recordId?: string;
+  titerResult?: Vaccination["titerResult"];
+}
+
+export interface VaccineScheduleEntry {
+  vaccine: SpeciesVaccine;
+  /** 완료한 접종과 남은 기초 접종, 다음 추가접종 (날짜순) */
+  doses: ScheduledDose[];
+  /** 다음에 맞아야 할 접종 */
+  next: ScheduledDose | null;
+  /** 지난 기초 접종 회차 수 */
+  missedSeriesDoses: number;
+}
+
+export interface VaccineScheduleInput {
+  species: string;
+  /** 없으면 나이로 추정 */
+  birthDate?: string;
+  age?: number;
+  lifestyle?: VaccineLifestyle;
+  vaccinations: Vaccination[];
+  today: string;
+}
+
+export interface VaccineSchedule {
+  entries: VaccineScheduleEntry[];
+  /** 지연/임박한 접종 (날짜순) */
+  dueDoses: ScheduledDose[];
+  birthDateEstimated: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 이 기간 안에 예정된 접종은 "곧 맞아야 함"
+export const DUE_SOON_DAYS = 14;
+// 기초 접종 사이 최소 간격
+const MIN_SERIES_GAP_DAYS = 14;
+// 시기를 놓쳐 다시 시작하는 기초 접종 간격
+const CATCH_UP_GAP_DAYS = 21;
+// 이 나이 이후 처음 기록된 접종은 기초 접종을 이미 마친 것으로 봄 (기록 이전 이력)
+const ADULT_AGE_DAYS = 365;
+// 나이가 0세인데 생년월일이 없으면 입양 시기(생후 8주)로 가정
+const ASSUMED_ADOPTION_WEEKS = 8;
+
+function toEpoch(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(toEpoch(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toEpoch(to) - toEpoch(from)) / DAY_MS);
+}
+
+function laterOf(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function normalizeName(name: string): string {
+  return name.normalize("NFKC").toLowerCase().replace(/[\s\-_.·()]/g, "");
+}
+
+/**
+ * 접종 기록 이름에 해당하는 규칙 (이름 또는 다른 표기가 일치)
+ */
+export function matchVaccine(vaccines: SpeciesVaccine[], recordName: string): SpeciesVaccine | null {
+  const name = normalizeName(recordName);
+  if (!name) return null;
+  return (
+    vaccines.find((vaccine) =>
+      [vaccine.name, ...(vaccine.aliases ?? [])].some((term) => normalizeName(term) === name)
+    ) ?? null
+  );
+}
+
+/**
+ * 회차 표시 (기초 2차, 추가접종 등)
+ */
+export function getDoseLabel(dose: Pick<ScheduledDose, "kind" | "doseNumber" | "titerResult">): string {
+  if (dose.kind === "primary") return `기초 ${dose.doseNumber}차`;
+  if (dose.kind === "titer") return dose.titerResult === "protective" ? "항체가 검사 (충분)" : "항체가 검사 (부족)";
+  return "추가접종";
+}
+
+/**
+ * 생년월일 (없으면 나이로 추정)
+ */
+export function resolveBirthDate(
+  pet: { birthDate?: string; age?: number },
+  today: string
+): { birthDate: string; estimated: boolean } {
+  if (pet.birthDate) return { birthDate: pet.birthDate.slice(0, 10), estimated: false };
+  const age = pet.age ?? 0;
+  const days = age > 0 ? Math.round(age * 365) : ASSUMED_ADOPTION_WEEKS * 7;
+  return { birthDate: addDays(today, -days), estimated: true };
+}
+
+function statusFor(dueDate: string, today: string): DoseStatus {
+  if (dueDate < today) return "overdue";
+  if (dueDate <= addDays(today, DUE_SOON_DAYS)) return "due";
+  return "upcoming";
+}
+
+/**
+ * 백신 하나의 일정
+ */
+export function scheduleVaccine(
+  vaccine: SpeciesVaccine,
+  records: Vaccination[],
+  birthDate: string,
+  today: string
+): VaccineScheduleEntry {
+  const sorted = [...records].sort((a, b) => a.date.localeCompare(b.date));
+  const doses = sorted.filter((r) => !r.titerResult);
+  const titers = sorted.filter((r) => r.titerResult);
+
+  const seriesDates = vaccine.series.map((weeks) => addDays(birthDate, weeks * 7));
+  const seriesEnd = seriesDates[seriesDates.length - 1] ?? birthDate;
+  const firstDose = doses[0]?.date.slice(0, 10);
+
+  // 첫 접종이 성견/성묘 이후에 기록됐으면 그 이전 기초 접종은 기록 밖에서 마친 것으로 봄
+  const primaryDone = !!firstDose && daysBetween(birthDate, firstDose) >= ADULT_AGE_DAYS;
+  // 기초 접종 시기를 놓침 -> 간격을 두고 catchUpDoses회
+  const catchUp = !primaryDone && (firstDose ?? today) > seriesEnd;
+  const primaryCount = primaryDone ? 0 : catchUp ? (vaccine.catchUpDoses ?? 1) : vaccine.series.length;
+
+  const result: ScheduledDose[] = [];
+  const base = { vaccineId: vaccine.id, name: vaccine.name };
+  // 직전 접종일 (맞지 않은 회차는 예정일, 이미 지났으면 오늘 기준으로 다음 회차를 계산)
+  let previous: string | null = null;
+
+  for (let i = 0; i < primaryCount; i++) {
+    const planned: string = catchUp
+      ? previous
+        ? addDays(previous, CATCH_UP_GAP_DAYS)
+        : today
+      : previous
+        ? laterOf(seriesDates[i], addDays(previous, MIN_SERIES_GAP_DAYS))
+        : seriesDates[i];
+    const record = doses[i];
+
+    if (record) {
+      const completedDate = record.date.slice(0, 10);
+      result.push({ ...base, kind: "primary", doseNumber: i + 1, dueDate: planned, status: "completed", completedDate, recordId: record.id });
+      previous = completedDate;
+    } else {
+      result.push({ ...base, kind: "primary", doseNumber: i + 1, dueDate: planned, status: statusFor(planned, today) });
+      previous = laterOf(planned, today);
+    }
+  }
+
+  // 추가접종과 항체가 검사를 날짜순으로 반영
+  const boosterAfter = vaccine.boosterAfter ?? vaccine.interval;
+  let boosted = primaryDone;
+  let lowTiterOn: string | null = null;
+  const later = [...doses.slice(primaryCount), ...titers].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const record of later) {
+    const date = record.date.slice(0, 10);
+    const planned: string = previous ? addDays(previous, boosted ? vaccine.interval : boosterAfter) : date;
+
+    if (record.titerResult) {
+      result.push({ ...base, kind: "titer", dueDate: planned, status: "completed", completedDate: date, recordId: record.id, titerResult: record.titerResult });
+      if (record.titerResult === "protective") {
+        // 항체가 충분하면 검사일부터 다시 주기를 셈
+        previous = date;
+        boosted = true;
+        lowTiterOn = null;
+      } else {
+        lowTiterOn = date;
+      }
+      continue;
+    }
+
+    result.push({ ...base, kind: "booster", dueDate: planned, status: "completed", completedDate: date, recordId: record.id });
+    previous = date;
+    boosted = true;
+    lowTiterOn = null;
+  }
+
+  // 다음 추가접종 (항체가가 낮게 나왔으면 바로)
+  if (previous) {
+    let dueDate = addDays(previous, boosted ? vaccine.interval : boosterAfter);
+    if (lowTiterOn && lowTiterOn < dueDate) dueDate = lowTiterOn;
+    result.push({ ...base, kind: "booster", dueDate, status: statusFor(dueDate, today) });
+  }
+
+  const pending = result.filter((dose) => dose.status !== "completed");
+  return {
+    vaccine,
+    doses: result,
+    next: pending[0] ?? null,
+    missedSeriesDoses: pending.filter((dose) => dose.kind === "primary" && dose.status === "overdue").length,
+  };
+}
+
+/**
+ * 펫의 전체 접종 일정
+ * 선택 접종은 생활 환경에 맞거나 이미 맞은 적이 있을 때만 포함합니다.
+ */
+export function buildVaccineSchedule(input: VaccineScheduleInput): VaccineSchedule {
+  const vaccines = getSpecies(input.species).vaccines;
+  const { birthDate, estimated } = resolveBirthDate(input, input.today);
+
+  const recordsByVaccine = new Map<string, Vaccination[]>();
+  for (const record of input.vaccinations) {
+    if (!record.completed) continue;
+    const vaccine = matchVaccine(vaccines, record.name);
+    if (!vaccine) continue;
+    recordsByVaccine.set(vaccine.id, [...(recordsByVaccine.get(vaccine.id) ?? []), record]);
+  }
+
+  const entries = vaccines
+    .filter((vaccine) => {
+      if (recordsByVaccine.has(vaccine.id) || !vaccine.lifestyles) return true;
+      return !!input.lifestyle && vaccine.lifestyles.includes(input.lifestyle);
+    })
+    .map((vaccine) => scheduleVaccine(vaccine, recordsByVaccine.get(vaccine.id) ?? [], birthDate, input.today));
+
+  const dueDoses = entries
+    .flatMap((entry) => entry.doses)
+    .filter((dose) => dose.status === "overdue" || dose.status === "due")
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return { entries, dueDoses, birthDateEstimated: estimated };
+}
+
+/**
+ * 새 접종 기록을 저장할 때 다음 접종 예정일 (규칙에 없는 백신이면 null)
+ */
+export function suggestNextDoseDate(
+  input: VaccineScheduleInput,
+  record: Pick<Vaccination, "name" | "date" | "titerResult">
+): string | null {
+  const vaccine = matchVaccine(getSpecies(input.species).vaccines, record.name);
+  if (!vaccine) return null;
+
+  const { birthDate } = resolveBirthDate(input, input.today);
+  const records = input.vaccinations.filter((r) => r.completed && matchVaccine([vaccine], r.name));
+  const hypothetical: Vaccination = {
+    id: "__new__",
+    petId: "",
+    name: record.name,
+    date: record.date,
+    completed: true,
+    type: vaccine.type,
+    titerResult: record.titerResult,
+  };
+  // 기록 날짜 기준으로 계산해야 과거 기록을 입력할 때도 맞음
+  const entry = scheduleVaccine(vaccine, [...records, hypothetical], birthDate, record.date);
+  return entry.next?.dueDate ?? null;
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { PET_SPECIES, VACCINE_LIFESTYLES } from "./species";
 
 // ============================================
 // 보안 관련 상수
@@ -163,10 +164,11 @@ export const petProfileSchema = z.object({
   name: z.string()
     .min(1, "이름을 입력해주세요")
     .max(20, "이름은 20자 이하로 입력해주세요"),
-  species: z.enum(["dog", "cat"], { message: "종류를 선택해주세요" }),
+  species: z.enum(PET_SPECIES, { message: "종류를 선택해주세요" }),
   breed: z.string()
     .min(1, "품종을 입력해주세요")
     .max(50, "품종은 50자 이하로 입력해주세요"),
+  breedId: z.string().max(50).optional(),
   age: z.number()
     .min(0, "나이는 0 이상이어야 합니다")
     .max(30, "나이는 30 이하로 입력해주세요"),
@@ -177,6 +179,7 @@ export const petProfileSchema = z.object({
   gender: z.enum(["male", "female", "unknown"]).optional(),
   neutered: z.boolean().optional(),
   birthDate: z.string().optional(),
+  lifestyle: z.enum(VACCINE_LIFESTYLES).optional(),
   profileImage: z.string().optional(),
 });
 
@@ -193,7 +196,7 @@ export const communityPostSchema = z.object({
     .min(10, "내용은 10자 이상 입력해주세요")
     .max(5000, "내용은 5000자 이하로 입력해주세요"),
   category: z.enum(["question", "share", "concern", "tip"], { message: "카테고리를 선택해주세요" }),
-  petType: z.enum(["dog", "cat", "all"]).optional(),
+  petType: z.enum([...PET_SPECIES, "all"]).optional(),
   tags: z.array(z.string().max(20)).max(5, "태그는 최대 5개까지 가능합니다").optional(),
 });
 
@@ -0,0 +1,43 @@
+// 결제 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+// 토스 웹훅 본문 (PAYMENT_STATUS_CHANGED 등)
+// 결제 상태는 본문을 믿지 않고 결제 조회 API로 다시 확인하므로 식별자만 검증합니다.
+export const TossWebhookSchema = z.object({
+  eventType: z.string().min(1),
+  createdAt: z.string().optional(),
+  data: z.object({
+    paymentKey: z.string().min(1).max(200),
+    orderId: z.string().min(1).max(64),
+    status: z.string().optional(),
+  }).passthrough(),
+});
+
+// 구독 플랜 변경 (/api/subscription/change)
+export const PlanChangeRequestSchema = z.object({
+  planType: z.enum(["premium", "premium_plus"], { message: "유효하지 않은 플랜입니다." }),
+});
+
+export type TossWebhookInput = z.infer<typeof TossWebhookSchema>;
+export type PlanChangeInput = z.infer<typeof PlanChangeRequestSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateTossWebhook(data: unknown): ValidationResult<TossWebhookInput> {
+  return toValidationResult(TossWebhookSchema.safeParse(data));
+}
+
+export function validatePlanChange(data: unknown): ValidationResult<PlanChangeInput> {
+  return toValidationResult(PlanChangeRequestSchema.safeParse(data));
+}
@@ -2,6 +2,7 @@
 
 import { z } from "zod";
 import { LIMITS, FILE_LIMITS } from "@/lib/constants";
+import { PET_SPECIES, VACCINE_LIFESTYLES } from "@/lib/species";
 
 // 펫 프로필 스키마
 export const PetProfileSchema = z.object({
@@ -9,18 +10,21 @@ export const PetProfileSchema = z.object({
   name: z.string()
     .min(1, "펫 이름을 입력해주세요")
     .max(LIMITS.PET_NAME_MAX_LENGTH, `이름은 ${LIMITS.PET_NAME_MAX_LENGTH}자 이내로 입력해주세요`),
-  species: z.enum(["dog", "cat"], {
-    message: "종류는 dog 또는 cat만 가능합니다",
+  species: z.enum(PET_SPECIES, {
+    message: "지원하지 않는 반려동물 종류입니다",
   }),
   breed: z.string()
     .min(1, "품종을 입력해주세요")
     .max(LIMITS.PET_NAME_MAX_LENGTH, `품종은 ${LIMITS.PET_NAME_MAX_LENGTH}자 이내로 입력해주세요`),
+  breedId: z.string().max(50).optional(),
   age: z.number()
     .min(0, "나이는 0 이상이어야 합니다")
     .max(100, "나이는 100 이하여야 합니다"),
   weight: z.number()
     .min(0, "체중은 0 이상이어야 합니다")
     .max(200, "체중은 200kg 이하여야 합니다"),
+  birthDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  lifestyle: z.enum(VACCINE_LIFESTYLES).optional(),
 });
 
 // 채팅 메시지 스키마
@@ -49,6 +53,30 @@ export const ImageDataSchema = z.object({
     ),
 });
 
+// 상담에 공유할 건강 기록 요약 스키마 (opt-in)
+const HealthRecordTextSchema = z.string().trim().min(1).max(100);
+const HealthRecordDateSchema = z.string().max(30);
+
+export const PetHealthRecordsSchema = z.object({
+  allergies: z.array(z.object({
+    name: HealthRecordTextSchema,
+    severity: z.enum(["mild", "moderate", "severe"]).optional(),
+  })).max(20).default([]),
+  medications: z.array(z.object({
+    name: HealthRecordTextSchema,
+    dosage: HealthRecordTextSchema.optional(),
+  })).max(20).default([]),
+  vetVisits: z.array(z.object({
+    date: HealthRecordDateSchema,
+    diagnosis: HealthRecordTextSchema.optional(),
+    hospitalName: HealthRecordTextSchema.optional(),
+  })).max(3, "진료 기록은 최근 3건까지만 공유할 수 있습니다").default([]),
+  overdueVaccines: z.array(z.object({
+    name: HealthRecordTextSchema,
+    dueDate: HealthRecordDateSchema,
+  })).max(20).default([]),
+});
+
 // 채팅 API 요청 스키마
 export const ChatRequestSchema = z.object({
   message: z.string()
@@ -59,6 +87,10 @@ export const ChatRequestSchema = z.object({
     .max(LIMITS.MESSAGE_HISTORY_COUNT, `히스토리는 최대 ${LIMITS.MESSAGE_HISTORY_COUNT}개까지 가능합니다`)
     .default([]),
   image: ImageDataSchema.optional(),
+  // true면 SSE(text/event-stream)로 토큰 단위 응답
+  stream: z.boolean().optional(),
+  // 보호자가 "건강 기록 사용"을 켰을 때만 전달
+  healthRecords: PetHealthRecordsSchema.optional(),
 });
 
 // 타입 추론
@@ -66,6 +98,7 @@ export type ChatRequestInput = z.infer<typeof ChatRequestSchema>;
 export type PetProfileInput = z.infer<typeof PetProfileSchema>;
 export type ChatMessageInput = z.infer<typeof ChatMessageSchema>;
 export type ImageDataInput = z.infer<typeof ImageDataSchema>;
+export type PetHealthRecordsInput = z.infer<typeof PetHealthRecordsSchema>;
 
 // 검증 결과 타입
 export interface ValidationResult<T> {
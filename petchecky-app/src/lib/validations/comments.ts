@@ -0,0 +1,46 @@
+// 커뮤니티 댓글 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+export const COMMENT_MAX_LENGTH = 1000;
+// "답글 더 보기" 한 번에 불러오는 답글 수
+export const REPLY_PAGE_SIZE = 10;
+const REPLY_PAGE_MAX = 50;
+
+export const CreateCommentSchema = z.object({
+  content: z.string()
+    .trim()
+    .min(1, "댓글 내용을 입력해주세요")
+    .max(COMMENT_MAX_LENGTH, `댓글은 ${COMMENT_MAX_LENGTH}자 이내로 입력해주세요`),
+  parent_id: z.string().uuid("답글을 달 댓글이 올바르지 않습니다").nullish(),
+});
+
+// 답글 더 불러오기 (after 이후에 달린 답글, 작성순)
+export const ReplyQuerySchema = z.object({
+  parentId: z.string().uuid("댓글 정보가 올바르지 않습니다"),
+  after: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(REPLY_PAGE_MAX).default(REPLY_PAGE_SIZE),
+});
+
+export type CreateCommentInput = z.infer<typeof CreateCommentSchema>;
+export type ReplyQuery = z.infer<typeof ReplyQuerySchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateCreateComment(data: unknown): ValidationResult<CreateCommentInput> {
+  return toValidationResult(CreateCommentSchema.safeParse(data));
+}
+
+export function validateReplyQuery(data: unknown): ValidationResult<ReplyQuery> {
+  return toValidationResult(ReplyQuerySchema.safeParse(data));
+}
@@ -0,0 +1,68 @@
+// 1:1 메시지 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+export const DIRECT_MESSAGE_MAX_LENGTH = 1000;
+// 한 번에 불러오는 메시지 수
+export const MESSAGE_PAGE_SIZE = 30;
+const MESSAGE_PAGE_MAX = 100;
+
+const userId = z.string().uuid("사용자 정보가 올바르지 않습니다");
+
+export const StartConversationSchema = z.object({
+  participantId: userId,
+});
+
+export const SendDirectMessageSchema = z.object({
+  content: z.string()
+    .trim()
+    .min(1, "메시지를 입력해주세요")
+    .max(DIRECT_MESSAGE_MAX_LENGTH, `메시지는 ${DIRECT_MESSAGE_MAX_LENGTH}자 이내로 입력해주세요`),
+});
+
+// 이전 메시지 불러오기 (before보다 오래된 메시지, 최신순)
+export const MessageHistoryQuerySchema = z.object({
+  before: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(MESSAGE_PAGE_MAX).default(MESSAGE_PAGE_SIZE),
+});
+
+export const BlockUserSchema = z.object({
+  userId,
+});
+
+export function isValidConversationId(id: string): boolean {
+  return z.string().uuid().safeParse(id).success;
+}
+
+export type StartConversationInput = z.infer<typeof StartConversationSchema>;
+export type SendDirectMessageInput = z.infer<typeof SendDirectMessageSchema>;
+export type MessageHistoryQuery = z.infer<typeof MessageHistoryQuerySchema>;
+export type BlockUserInput = z.infer<typeof BlockUserSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateStartConversation(data: unknown): ValidationResult<StartConversationInput> {
+  return toValidationResult(StartConversationSchema.safeParse(data));
+}
+
+export function validateSendDirectMessage(data: unknown): ValidationResult<SendDirectMessageInput> {
+  return toValidationResult(SendDirectMessageSchema.safeParse(data));
+}
+
+export function validateMessageHistoryQuery(data: unknown): ValidationResult<MessageHistoryQuery> {
+  return toValidationResult(MessageHistoryQuerySchema.safeParse(data));
+}
+
+export function validateBlockUser(data: unknown): ValidationResult<BlockUserInput> {
+  return toValidationResult(BlockUserSchema.safeParse(data));
+}
@@ -0,0 +1,91 @@
+// 커뮤니티 신고/관리 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+export const REPORT_REASONS = ["spam", "scam", "abuse", "dangerous_medical", "other"] as const;
+export const MODERATION_TARGET_TYPES = ["post", "comment"] as const;
+export const MODERATION_VIEWS = ["queue", "hidden", "bans"] as const;
+
+const REPORT_DETAILS_MAX_LENGTH = 500;
+const MODERATION_REASON_MAX_LENGTH = 200;
+// 기간 없이 제한하면 영구
+const BAN_DAYS_MAX = 3650;
+
+const targetType = z.enum(MODERATION_TARGET_TYPES, { message: "신고 대상이 올바르지 않습니다" });
+const targetId = z.string().uuid("대상 정보가 올바르지 않습니다");
+const userId = z.string().uuid("사용자 정보가 올바르지 않습니다");
+const reason = z.string()
+  .trim()
+  .min(1, "사유를 입력해주세요")
+  .max(MODERATION_REASON_MAX_LENGTH, `사유는 ${MODERATION_REASON_MAX_LENGTH}자 이내로 입력해주세요`);
+
+// POST /api/community/posts/[id]/report (commentId가 없으면 게시글 신고)
+export const ReportContentSchema = z.object({
+  commentId: z.string().uuid("댓글 정보가 올바르지 않습니다").optional(),
+  reason: z.enum(REPORT_REASONS, { message: "신고 사유를 선택해주세요" }),
+  details: z.string()
+    .trim()
+    .max(REPORT_DETAILS_MAX_LENGTH, `상세 내용은 ${REPORT_DETAILS_MAX_LENGTH}자 이내로 입력해주세요`)
+    .optional(),
+});
+
+// POST /api/admin/moderation
+export const ModerationActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("hide"), targetType, targetId, reason }),
+  z.object({ action: z.literal("restore"), targetType, targetId }),
+  // 조치 없이 신고만 종료
+  z.object({ action: z.literal("dismiss"), targetType, targetId }),
+  z.object({
+    action: z.literal("ban"),
+    userId,
+    reason,
+    days: z.number().int().min(1).max(BAN_DAYS_MAX).optional(),
+  }),
+  z.object({ action: z.literal("unban"), userId }),
+]);
+
+export const ModerationQueueQuerySchema = z.object({
+  view: z.enum(MODERATION_VIEWS).default("queue"),
+});
+
+// 의료 정보 검사 LLM 응답
+export const MedicalClaimCheckSchema = z.object({
+  risky: z.boolean(),
+  reason: z.string().max(MODERATION_REASON_MAX_LENGTH).optional(),
+});
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+export type ModerationTargetType = (typeof MODERATION_TARGET_TYPES)[number];
+export type ModerationView = (typeof MODERATION_VIEWS)[number];
+export type ReportContentInput = z.infer<typeof ReportContentSchema>;
+export type ModerationActionInput = z.infer<typeof ModerationActionSchema>;
+export type MedicalClaimCheck = z.infer<typeof MedicalClaimCheckSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateReportContent(data: unknown): ValidationResult<ReportContentInput> {
+  return toValidationResult(ReportContentSchema.safeParse(data));
+}
+
+export function validateModerationAction(data: unknown): ValidationResult<ModerationActionInput> {
+  return toValidationResult(ModerationActionSchema.safeParse(data));
+}
+
+export function validateModerationQueueQuery(data: unknown): ValidationResult<z.infer<typeof ModerationQueueQuerySchema>> {
+  return toValidationResult(ModerationQueueQuerySchema.safeParse(data));
+}
+
+export function parseMedicalClaimCheck(data: unknown): MedicalClaimCheck | null {
+  const result = MedicalClaimCheckSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
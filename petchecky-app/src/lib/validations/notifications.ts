@@ -0,0 +1,52 @@
+// 알림 설정 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "시간 형식이 올바르지 않습니다");
+
+// lib/notifications.ts NotificationSettings
+export const NotificationSettingsSchema = z.object({
+  push: z.boolean(),
+  email: z.boolean(),
+  inApp: z.boolean(),
+  types: z.object({
+    reminder: z.boolean(),
+    health: z.boolean(),
+    community: z.boolean(),
+    reservation: z.boolean(),
+    system: z.boolean(),
+  }),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: clockTime,
+    end: clockTime,
+  }).optional(),
+});
+
+export const NotificationSettingsRequestSchema = z.object({
+  settings: NotificationSettingsSchema,
+  // IANA 시간대 (예: Asia/Seoul)
+  timezone: z.string().min(1).max(64).refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "알 수 없는 시간대입니다"),
+});
+
+export type NotificationSettingsRequest = z.infer<typeof NotificationSettingsRequestSchema>;
+
+export function validateNotificationSettings(data: unknown): ValidationResult<NotificationSettingsRequest> {
+  const result = NotificationSettingsRequestSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
@@ -0,0 +1,184 @@
+// 펫 건강 기록 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import { LIMITS } from "@/lib/constants";
+import { PET_SPECIES } from "@/lib/species";
+import type { PetRecordInput, PetRecordKind } from "@/types/petRecords";
+import type { ValidationResult } from "./chat";
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}/, "날짜 형식이 올바르지 않습니다");
+const timeString = z.string().regex(/^\d{2}:\d{2}$/, "시간 형식이 올바르지 않습니다");
+const shortText = z.string().trim().min(1).max(100);
+const notesText = z.string().max(LIMITS.DESCRIPTION_MAX_LENGTH);
+
+// 산책 경로: 단순화한 경로(최대 500개 점, lib/walkTracking.ts)를 인코딩한 길이
+export const WALK_ROUTE_MAX_LENGTH = 8000;
+
+export const MedicationInputSchema = z.object({
+  name: shortText,
+  dosage: shortText,
+  frequency: z.enum(["once", "twice", "three", "asNeeded"]),
+  timeOfDay: z.array(z.enum(["morning", "afternoon", "evening", "night"])).max(4),
+  startDate: dateString,
+  endDate: dateString.optional(),
+  prescribedBy: z.string().max(100).optional(),
+  notes: notesText.optional(),
+  refillDate: dateString.optional(),
+  remainingDoses: z.number().int().min(0).optional(),
+  isActive: z.boolean(),
+  logs: z.array(z.object({
+    id: z.string(),
+    date: dateString,
+    time: z.string().max(20),
+    taken: z.boolean(),
+    takenAt: z.string().datetime().optional(),
+    notes: notesText.optional(),
+  })),
+});
+
+export const VetRecordInputSchema = z.object({
+  date: dateString,
+  hospitalName: shortText,
+  vetName: z.string().max(50).optional(),
+  visitType: z.enum(["checkup", "vaccination", "treatment", "surgery", "emergency", "other"]),
+  diagnosis: notesText.optional(),
+  symptoms: z.array(z.string().max(100)).max(20).optional(),
+  treatment: notesText.optional(),
+  prescriptions: z.array(z.object({
+    name: z.string().max(100),
+    dosage: z.string().max(100),
+    frequency: z.string().max(100),
+    duration: z.string().max(100),
+  })).max(20).optional(),
+  testResults: z.array(z.object({
+    testName: z.string().max(100),
+    result: z.string().max(100),
+    normalRange: z.string().max(100).optional(),
+    status: z.enum(["normal", "abnormal", "critical"]),
+  })).max(50).optional(),
+  nextVisitDate: dateString.optional(),
+  cost: z.number().min(0).optional(),
+  notes: notesText.optional(),
+  attachments: z.array(z.string()).optional(),
+  createdAt: z.string(),
+});
+
+export const WalkRecordInputSchema = z.object({
+  date: dateString,
+  startTime: timeString,
+  endTime: timeString.optional(),
+  duration: z.number().min(0).max(24 * 60),
+  distance: z.number().min(0).max(1000).optional(),
+  location: z.string().max(100).optional(),
+  weather: z.enum(["sunny", "cloudy", "rainy", "snowy"]).optional(),
+  mood: z.enum(["happy", "normal", "tired"]).optional(),
+  notes: notesText.optional(),
+  // Encoded Polyline 문자 범위 (ASCII 63~126)
+  route: z.string().max(WALK_ROUTE_MAX_LENGTH).regex(/^[?-~]*$/, "경로 형식이 올바르지 않습니다").optional(),
+  movingTime: z.number().int().min(0).max(24 * 60 * 60).optional(),
+});
+
+export const DietLogInputSchema = z.object({
+  date: dateString,
+  foodName: shortText,
+  amount: z.string().trim().min(1).max(50),
+  mealTime: z.enum(["breakfast", "lunch", "dinner", "snack"]),
+  ingredients: z.array(shortText).max(30).optional(),
+  notes: notesText.optional(),
+});
+
+export const VaccinationInputSchema = z.object({
+  name: shortText,
+  date: dateString,
+  nextDate: dateString.optional(),
+  hospital: z.string().max(100).optional(),
+  notes: notesText.optional(),
+  completed: z.boolean(),
+  type: z.enum(["required", "optional"]),
+  titerResult: z.enum(["protective", "low"]).optional(),
+});
+
+export const InsuranceClaimInputSchema = z.object({
+  date: dateString,
+  hospitalName: shortText,
+  treatmentType: shortText,
+  totalAmount: z.number().min(0),
+  claimedAmount: z.number().min(0),
+  status: z.enum(["pending", "approved", "rejected", "paid"]),
+  notes: notesText.optional(),
+});
+
+export const ReminderInputSchema = z.object({
+  petName: z.string().trim().min(1).max(LIMITS.PET_NAME_MAX_LENGTH),
+  type: z.enum(["vaccination", "medication", "vet_visit", "grooming", "other"]),
+  title: shortText,
+  description: notesText.optional(),
+  date: dateString,
+  time: timeString,
+  repeat: z.enum(["none", "daily", "weekly", "monthly", "yearly"]),
+  enabled: z.boolean(),
+});
+
+export const PET_RECORD_SCHEMAS = {
+  medications: MedicationInputSchema,
+  "vet-records": VetRecordInputSchema,
+  walks: WalkRecordInputSchema,
+  "diet-logs": DietLogInputSchema,
+  vaccinations: VaccinationInputSchema,
+  "insurance-claims": InsuranceClaimInputSchema,
+  reminders: ReminderInputSchema,
+} as const;
+
+// 레거시 localStorage 마이그레이션 요청 스키마
+export const LegacyMigrationSchema = z.object({
+  pets: z.array(z.object({
+    localId: z.string().min(1),
+    name: z.string().trim().min(1).max(LIMITS.PET_NAME_MAX_LENGTH),
+    species: z.enum(PET_SPECIES),
+    breed: z.string().max(LIMITS.PET_NAME_MAX_LENGTH).default(""),
+    age: z.number().min(0).max(100).default(0),
+    weight: z.number().min(0).max(200).default(0),
+  })).max(50),
+  records: z.record(z.string(), z.array(z.record(z.string(), z.unknown())).max(1000)).default({}),
+});
+
+export type LegacyMigrationInput = z.infer<typeof LegacyMigrationSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  for (const issue of result.error.issues) {
+    const path = issue.path.join(".");
+    if (!fieldErrors[path]) {
+      fieldErrors[path] = [];
+    }
+    fieldErrors[path].push(issue.message);
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+    fieldErrors,
+  };
+}
+
+/**
+ * 기록 종류별 입력 검증
+ * partial=true이면 PATCH 요청처럼 일부 필드만 검증합니다.
+ */
+export function validatePetRecordInput<K extends PetRecordKind>(
+  kind: K,
+  data: unknown,
+  partial = false
+): ValidationResult<PetRecordInput<K>> {
+  const schema = PET_RECORD_SCHEMAS[kind];
+  const result = partial ? schema.partial().safeParse(data) : schema.safeParse(data);
+  return toValidationResult<unknown>(result) as ValidationResult<PetRecordInput<K>>;
+}
+
+export function validateLegacyMigration(data: unknown): ValidationResult<LegacyMigrationInput> {
+  return toValidationResult(LegacyMigrationSchema.safeParse(data));
+}
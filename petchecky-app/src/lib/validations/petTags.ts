@@ -0,0 +1,81 @@
+// QR 인식표 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+// 발견자 페이지 사진: 클라이언트에서 축소한 이미지 data URL (약 300KB 이하)
+export const TAG_PHOTO_MAX_LENGTH = 400_000;
+
+const emergencyNote = z.string().trim().max(500, "특이사항은 500자 이내로 입력해주세요");
+const photo = z.string()
+  .max(TAG_PHOTO_MAX_LENGTH, "사진 용량이 너무 큽니다")
+  .regex(/^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/, "사진 형식이 올바르지 않습니다");
+
+// 인식표 토큰 (lib/petTags.ts generateTagToken)
+export const TagTokenSchema = z.string().regex(/^[a-f0-9]{32}$/, "인식표 주소가 올바르지 않습니다");
+
+export const CreatePetTagSchema = z.object({
+  petId: z.string().min(1).max(100),
+  emergencyNote: emergencyNote.optional(),
+  photo: photo.optional(),
+});
+
+// null이면 삭제, 생략하면 유지
+export const UpdatePetTagSchema = z.object({
+  emergencyNote: emergencyNote.nullable().optional(),
+  photo: photo.nullable().optional(),
+});
+
+// 발견자 위치 (둘 다 있거나 둘 다 없어야 함)
+export const TagScanSchema = z.object({
+  // 같은 방문에서 위치를 나중에 공유하면 기존 스캔 기록에 추가
+  scanId: z.string().uuid().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  accuracy: z.number().min(0).max(100_000).optional(),
+}).refine(
+  (scan) => (scan.latitude === undefined) === (scan.longitude === undefined),
+  "위치 정보가 올바르지 않습니다"
+);
+
+export const FinderMessageSchema = z.object({
+  scanId: z.string().uuid().optional(),
+  message: z.string().trim().min(1, "메시지를 입력해주세요").max(1000, "메시지는 1000자 이내로 입력해주세요"),
+  contact: z.string().trim().max(100, "연락처는 100자 이내로 입력해주세요").optional(),
+});
+
+export function isValidTagToken(token: string): boolean {
+  return TagTokenSchema.safeParse(token).success;
+}
+
+export type CreatePetTagInput = z.infer<typeof CreatePetTagSchema>;
+export type UpdatePetTagInput = z.infer<typeof UpdatePetTagSchema>;
+export type TagScanInput = z.infer<typeof TagScanSchema>;
+export type FinderMessageInput = z.infer<typeof FinderMessageSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateCreatePetTag(data: unknown): ValidationResult<CreatePetTagInput> {
+  return toValidationResult(CreatePetTagSchema.safeParse(data));
+}
+
+export function validateUpdatePetTag(data: unknown): ValidationResult<UpdatePetTagInput> {
+  return toValidationResult(UpdatePetTagSchema.safeParse(data));
+}
+
+export function validateTagScan(data: unknown): ValidationResult<TagScanInput> {
+  return toValidationResult(TagScanSchema.safeParse(data));
+}
+
+export function validateFinderMessage(data: unknown): ValidationResult<FinderMessageInput> {
+  return toValidationResult(FinderMessageSchema.safeParse(data));
+}
@@ -0,0 +1,47 @@
+// 커뮤니티 게시글 검색/목록 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import { PET_SPECIES } from "@/lib/species";
+import type { ValidationResult } from "./chat";
+
+export const POST_CATEGORIES = ["question", "tip", "daily", "review"] as const;
+// relevance는 검색어가 있을 때만 의미가 있음 (없으면 최신순)
+export const POST_SORTS = ["relevance", "recent", "likes"] as const;
+
+export const POSTS_PAGE_SIZE = 20;
+const POSTS_PAGE_MAX = 50;
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+// 해시태그 필터는 모두 포함한 글만 (AND)
+export const HASHTAG_FILTER_MAX = 5;
+
+// GET /api/community/posts?q=&category=&species=&tags=a,b&sort=&cursor=&limit=
+export const PostSearchQuerySchema = z.object({
+  q: z.string().trim().max(SEARCH_QUERY_MAX_LENGTH, `검색어는 ${SEARCH_QUERY_MAX_LENGTH}자 이내로 입력해주세요`).optional(),
+  category: z.enum(["all", ...POST_CATEGORIES], { message: "올바른 카테고리를 선택해주세요" }).default("all"),
+  species: z.enum(PET_SPECIES, { message: "올바른 반려동물 종류를 선택해주세요" }).optional(),
+  tags: z.string()
+    .transform((value) => value.split(",").map((tag) => tag.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).max(HASHTAG_FILTER_MAX, `해시태그는 ${HASHTAG_FILTER_MAX}개까지 선택할 수 있습니다`))
+    .optional(),
+  sort: z.enum(POST_SORTS, { message: "정렬 기준이 올바르지 않습니다" }).optional(),
+  cursor: z.string().max(300).optional(),
+  limit: z.coerce.number().int().min(1).max(POSTS_PAGE_MAX).default(POSTS_PAGE_SIZE),
+});
+
+export type PostSearchQuery = z.infer<typeof PostSearchQuerySchema>;
+export type PostSort = (typeof POST_SORTS)[number];
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validatePostSearchQuery(data: unknown): ValidationResult<PostSearchQuery> {
+  return toValidationResult(PostSearchQuerySchema.safeParse(data));
+}
@@ -0,0 +1,50 @@
+// 푸시 구독 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+// base64url 문자열 (PushSubscription.toJSON()의 keys 형식)
+const base64UrlString = z.string().regex(/^[A-Za-z0-9_-]+=*$/, "키 형식이 올바르지 않습니다");
+
+// PushSubscription.toJSON() 결과
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url("엔드포인트 형식이 올바르지 않습니다").max(1000)
+    .refine((url) => url.startsWith("https://"), "엔드포인트는 https 주소여야 합니다"),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: base64UrlString.max(200),
+    auth: base64UrlString.max(100),
+  }),
+});
+
+export const PushSubscribeRequestSchema = z.object({
+  subscription: PushSubscriptionSchema,
+});
+
+// endpoint가 없으면 사용자의 모든 구독 해제
+export const PushUnsubscribeRequestSchema = z.object({
+  endpoint: z.string().max(1000).optional(),
+});
+
+export type PushSubscriptionInput = z.infer<typeof PushSubscriptionSchema>;
+export type PushUnsubscribeInput = z.infer<typeof PushUnsubscribeRequestSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validatePushSubscribe(data: unknown): ValidationResult<PushSubscriptionInput> {
+  const result = toValidationResult(PushSubscribeRequestSchema.safeParse(data));
+  return { ...result, data: result.data?.subscription };
+}
+
+export function validatePushUnsubscribe(data: unknown): ValidationResult<PushUnsubscribeInput> {
+  return toValidationResult(PushUnsubscribeRequestSchema.safeParse(data));
+}
@@ -0,0 +1,60 @@
+// 건강 리포트 API 입력 검증 스키마 (Zod)
+
+import { z } from "zod";
+import type { ValidationResult } from "./chat";
+
+// 리포트 기간 최대 일수 (약 3년)
+export const MAX_REPORT_RANGE_DAYS = 366 * 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "날짜 형식이 올바르지 않습니다 (YYYY-MM-DD)");
+const shortText = z.string().trim().min(1).max(100);
+
+// 서버에 아직 저장되지 않는 기록(알레르기, 체중)은 클라이언트가 함께 보냅니다.
+export const ReportAllergySchema = z.object({
+  name: shortText,
+  type: z.enum(["food", "environmental", "medication", "contact"]).optional(),
+  severity: z.enum(["mild", "moderate", "severe"]).optional(),
+  symptoms: z.array(shortText).max(20).default([]),
+  diagnosedDate: dateString.optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const ReportWeightSchema = z.object({
+  date: dateString,
+  weight: z.number().positive().max(200),
+});
+
+export const HealthReportRequestSchema = z.object({
+  from: dateString,
+  to: dateString,
+  allergies: z.array(ReportAllergySchema).max(50).default([]),
+  weights: z.array(ReportWeightSchema).max(1000).default([]),
+})
+  .refine((data) => data.from <= data.to, {
+    message: "시작일은 종료일보다 늦을 수 없습니다",
+  })
+  .refine(
+    (data) => (Date.parse(data.to) - Date.parse(data.from)) / DAY_MS <= MAX_REPORT_RANGE_DAYS,
+    { message: "리포트 기간은 최대 3년까지 선택할 수 있습니다" }
+  );
+
+export type ReportAllergyInput = z.infer<typeof ReportAllergySchema>;
+export type ReportWeightInput = z.infer<typeof ReportWeightSchema>;
+export type HealthReportRequestInput = z.infer<typeof HealthReportRequestSchema>;
+
+function toValidationResult<T>(result: z.ZodSafeParseResult<T>): ValidationResult<T> {
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    error: result.error.issues[0]?.message || "입력값이 올바르지 않습니다",
+  };
+}
+
+export function validateHealthReportRequest(data: unknown): ValidationResult<HealthReportRequestInput> {
+  return toValidationResult(HealthReportRequestSchema.safeParse(data));
+}
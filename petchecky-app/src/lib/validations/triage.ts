@@ -0,0 +1,25 @@
+// AI 응답에 포함되는 구조화된 triage 블록 검증 스키마 (Zod)
+
+import { z } from "zod";
+
+// 권장 병원 방문 시점
+export const VET_TIMEFRAMES = ["immediately", "within_24h", "within_week", "monitor"] as const;
+
+const TriageItemSchema = z.string().trim().min(1).max(200);
+
+export const TriageSchema = z.object({
+  severity: z.enum(["low", "medium", "high"]),
+  suspectedCauses: z.array(TriageItemSchema).max(5).default([]),
+  redFlags: z.array(TriageItemSchema).max(5).default([]),
+  vetTimeframe: z.enum(VET_TIMEFRAMES),
+});
+
+// 타입 추론
+export type Triage = z.infer<typeof TriageSchema>;
+export type VetTimeframe = (typeof VET_TIMEFRAMES)[number];
+
+// 모델 출력은 신뢰할 수 없으므로 실패 시 null
+export function parseTriage(data: unknown): Triage | null {
+  const result = TriageSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,319 @@
+/**
+ * GPS 산책 기록 유틸리티
+ *
+ * watchPosition으로 받은 위치를 걸러 경로를 만들고, 거리/이동 시간/페이스를 계산합니다.
+ * 저장할 때는 경로를 단순화한 뒤 Encoded Polyline(정밀도 1e-5) 문자열로 변환합니다.
+ */
+
+import { formatDateForInput } from "./dateUtils";
+import type { WalkRecord } from "@/types/petRecords";
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  /** 측정 시각 (epoch ms) */
+  time: number;
+  /** 위치 정확도 (미터) */
+  accuracy: number;
+}
+
+// 진행 중인 산책 (새로고침해도 이어서 기록하도록 localStorage에 저장)
+export interface ActiveWalk {
+  petId: string;
+  /** 시작 시각 (epoch ms) */
+  startedAt: number;
+  points: TrackPoint[];
+}
+
+export interface TrackSummary {
+  /** 총 거리 (km) */
+  distance: number;
+  /** 시작부터 경과 시간 (초) */
+  elapsedTime: number;
+  /** 멈춰 있던 구간을 뺀 이동 시간 (초) */
+  movingTime: number;
+  /** 이동 시간 기준 페이스 (분/km), 거리가 너무 짧으면 null */
+  pace: number | null;
+}
+
+export interface WeeklyDistance {
+  /** 주 시작일 (일요일, YYYY-MM-DD) */
+  weekStart: string;
+  distance: number;
+  walks: number;
+}
+
+const EARTH_RADIUS_M = 6_371_000;
+// 이보다 부정확한 위치는 버림
+const MAX_ACCURACY_M = 50;
+// 제자리에서 GPS가 흔들리는 정도는 이동으로 보지 않음
+const MIN_STEP_M = 5;
+// 사람/반려견이 낼 수 없는 속도(약 43km/h)는 GPS 튐으로 간주
+const MAX_SPEED_MPS = 12;
+// 이보다 느린 구간은 멈춘 것으로 보고 이동 시간에서 제외
+const MIN_MOVING_SPEED_MPS = 0.3;
+// 페이스를 보여주기 위한 최소 거리 (km)
+const MIN_PACE_DISTANCE_KM = 0.05;
+// 저장하는 경로의 최대 점 수 (DB 용량 제한)
+export const MAX_ROUTE_POINTS = 500;
+const SIMPLIFY_TOLERANCE_M = 3;
+
+/**
+ * 두 좌표 사이 거리 (미터, haversine)
+ */
+export function distanceBetween(a: Pick<TrackPoint, "lat" | "lng">, b: Pick<TrackPoint, "lat" | "lng">): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * 새 위치를 경로에 추가
+ * 부정확한 위치, 제자리 흔들림, 순간이동(GPS 튐)은 추가하지 않고 기존 배열을 그대로 반환합니다.
+ */
+export function appendTrackPoint(points: TrackPoint[], point: TrackPoint): TrackPoint[] {
+  if (point.accuracy > MAX_ACCURACY_M) return points;
+
+  const last = points[points.length - 1];
+  if (!last) return [point];
+  if (point.time <= last.time) return points;
+
+  const distance = distanceBetween(last, point);
+  if (distance < Math.max(MIN_STEP_M, point.accuracy / 2)) return points;
+  if (distance / ((point.time - last.time) / 1000) > MAX_SPEED_MPS) return points;
+
+  return [...points, point];
+}
+
+/**
+ * 경로 요약 (거리, 경과/이동 시간, 페이스)
+ * @param now 진행 중인 산책의 현재 시각 (epoch ms)
+ */
+export function summarizeTrack(points: TrackPoint[], startedAt: number, now: number): TrackSummary {
+  let meters = 0;
+  let movingSeconds = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const distance = distanceBetween(points[i - 1], points[i]);
+    const seconds = (points[i].time - points[i - 1].time) / 1000;
+    meters += distance;
+    if (seconds > 0 && distance / seconds >= MIN_MOVING_SPEED_MPS) {
+      movingSeconds += seconds;
+    }
+  }
+
+  const distance = meters / 1000;
+  return {
+    distance,
+    elapsedTime: Math.max(0, Math.round((now - startedAt) / 1000)),
+    movingTime: Math.round(movingSeconds),
+    pace: distance >= MIN_PACE_DISTANCE_KM && movingSeconds > 0 ? movingSeconds / 60 / distance : null,
+  };
+}
+
+// 점과 선분 사이 거리 (미터, 짧은 구간이므로 평면 근사)
+function perpendicularDistance(point: TrackPoint, start: TrackPoint, end: TrackPoint): number {
+  const metersPerLng = Math.cos((start.lat * Math.PI) / 180);
+  const x = (point.lng - start.lng) * metersPerLng;
+  const y = point.lat - start.lat;
+  const dx = (end.lng - start.lng) * metersPerLng;
+  const dy = end.lat - start.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, (x * dx + y * dy) / lengthSquared));
+  const degrees = Math.hypot(x - t * dx, y - t * dy);
+  return (degrees * Math.PI * EARTH_RADIUS_M) / 180;
+}
+
+// Douglas-Peucker
+function simplify(points: TrackPoint[], tolerance: number): TrackPoint[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * 저장용 경로 단순화 (모양은 유지하면서 MAX_ROUTE_POINTS 이하로)
+ */
+export function simplifyTrack(points: TrackPoint[], maxPoints: number = MAX_ROUTE_POINTS): TrackPoint[] {
+  let tolerance = SIMPLIFY_TOLERANCE_M;
+  let simplified = simplify(points, tolerance);
+  while (simplified.length > maxPoints) {
+    tolerance *= 2;
+    simplified = simplify(points, tolerance);
+  }
+  return simplified;
+}
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = "";
+  while (v >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return encoded + String.fromCharCode(v + 63);
+}
+
+/**
+ * 좌표 목록을 Encoded Polyline 문자열로 변환
+ */
+export function encodePolyline(points: Array<Pick<TrackPoint, "lat" | "lng">>): string {
+  let prevLat = 0;
+  let prevLng = 0;
+  let encoded = "";
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    encoded += encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return encoded;
+}
+
+/**
+ * Encoded Polyline 문자열을 좌표 목록으로 변환
+ * @returns 형식이 잘못되었으면 빈 배열
+ */
+export function decodePolyline(encoded: string): Array<{ lat: number; lng: number }> {
+  const points: Array<{ lat: number; lng: number }> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = readValue();
+    const dLng = readValue();
+    if (dLat === null || dLng === null) return [];
+    lat += dLat;
+    lng += dLng;
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+/**
+ * 초 -> 12:05 / 1:02:05
+ */
+export function formatClock(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+/**
+ * 페이스(분/km) -> 8'30"
+ */
+export function formatPace(pace: number | null): string {
+  if (pace === null || !isFinite(pace)) return "-";
+  const totalSeconds = Math.round(pace * 60);
+  return `${Math.floor(totalSeconds / 60)}'${String(totalSeconds % 60).padStart(2, "0")}"`;
+}
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * 끝난 산책을 WalkRecord 입력값으로 변환
+ */
+export function buildTrackedWalkRecord(
+  walk: ActiveWalk,
+  endedAt: number
+): Pick<WalkRecord, "date" | "startTime" | "endTime" | "duration" | "distance" | "route" | "movingTime"> {
+  const summary = summarizeTrack(walk.points, walk.startedAt, endedAt);
+  const start = new Date(walk.startedAt);
+  const route = walk.points.length >= 2 ? encodePolyline(simplifyTrack(walk.points)) : undefined;
+
+  return {
+    date: formatDateForInput(start),
+    startTime: toTimeString(start),
+    endTime: toTimeString(new Date(endedAt)),
+    duration: Math.max(1, Math.round(summary.elapsedTime / 60)),
+    distance: Math.round(summary.distance * 100) / 100,
+    route,
+    movingTime: route ? summary.movingTime : undefined,
+  };
+}
+
+// 해당 날짜가 속한 주의 일요일 00:00
+function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setDate(start.getDate() - start.getDay());
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * 최근 N주 주간 산책 거리 (오래된 주 -> 이번 주 순서)
+ */
+export function getWeeklyDistances(
+  records: Array<Pick<WalkRecord, "date" | "distance">>,
+  weeks: number,
+  now: Date = new Date()
+): WeeklyDistance[] {
+  const thisWeek = startOfWeek(now);
+  const result: WeeklyDistance[] = [];
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const start = new Date(thisWeek);
+    start.setDate(start.getDate() - i * 7);
+    result.push({ weekStart: formatDateForInput(start), distance: 0, walks: 0 });
+  }
+
+  for (const record of records) {
+    // YYYY-MM-DD는 로컬 날짜로 해석
+    const weekStart = formatDateForInput(startOfWeek(new Date(`${record.date}T00:00:00`)));
+    const week = result.find((w) => w.weekStart === weekStart);
+    if (week) {
+      week.distance += record.distance || 0;
+      week.walks += 1;
+    }
+  }
+
+  return result;
+}
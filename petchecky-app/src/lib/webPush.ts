@@ -0,0 +1,234 @@
+/**
+ * Web Push 발송 유틸리티 (서버 전용)
+ *
+ * 외부 라이브러리 없이 Node crypto로 구현합니다.
+ * - VAPID 인증 (RFC 8292): ES256 JWT
+ * - 페이로드 암호화 (RFC 8291): aes128gcm 콘텐츠 인코딩
+ */
+
+import {
+  createECDH,
+  createCipheriv,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign,
+  type ECDH,
+} from "crypto";
+
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface VapidConfig {
+  /** base64url, 비압축 P-256 공개키 (65바이트) */
+  publicKey: string;
+  /** base64url, P-256 개인키 (32바이트) */
+  privateKey: string;
+  /** 푸시 서비스가 연락할 수 있는 주소 (mailto: 또는 https:) */
+  subject: string;
+}
+
+export interface WebPushOptions {
+  /** 푸시 서비스가 메시지를 보관할 시간 (초) */
+  ttl?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+  /** 같은 topic의 미전달 메시지는 최신 것으로 교체됨 */
+  topic?: string;
+}
+
+/**
+ * 푸시 서비스 HTTP 오류
+ * 404/410은 구독이 만료되었다는 뜻이므로 저장된 구독을 삭제해야 합니다.
+ */
+export class WebPushError extends Error {
+  constructor(
+    public statusCode: number,
+    public endpoint: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "WebPushError";
+  }
+
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+const DEFAULT_TTL = 24 * 60 * 60;
+const VAPID_TOKEN_EXPIRY_SECONDS = 12 * 60 * 60;
+// aes128gcm 레코드 크기 - 페이로드는 단일 레코드로 보냄
+const RECORD_SIZE = 4096;
+// 푸시 서비스가 보장하는 최대 페이로드 (4096 - 헤더 86 - 태그 16 - 구분자 1)
+export const MAX_PAYLOAD_BYTES = 3993;
+
+function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value.replace(/=+$/, ""), "base64url");
+}
+
+function base64UrlEncode(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * 환경변수에서 VAPID 설정 읽기
+ * 키가 없으면 null (서버 푸시 비활성화)
+ */
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT || "mailto:support@petchecky.app",
+  };
+}
+
+/**
+ * VAPID Authorization 헤더 생성
+ * aud는 엔드포인트의 origin이어야 합니다.
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidConfig,
+  now: number = Date.now()
+): string {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error("VAPID public key must be an uncompressed P-256 point");
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: base64UrlEncode(base64UrlDecode(vapid.privateKey)),
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = base64UrlEncode(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64UrlEncode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_EXPIRY_SECONDS,
+    sub: vapid.subject,
+  }));
+  const unsigned = `${header}.${claims}`;
+  // JWT는 DER이 아닌 r||s (64바이트) 형식의 서명을 사용
+  const signature = sign("sha256", Buffer.from(unsigned), { key, dsaEncoding: "ieee-p1363" });
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey.replace(/=+$/, "")}`;
+}
+
+interface EncryptOptions {
+  /** 테스트용 - 지정하지 않으면 매번 새로 생성 */
+  salt?: Buffer;
+  localKeys?: ECDH;
+}
+
+/**
+ * 구독 키로 페이로드 암호화 (aes128gcm)
+ * @returns 헤더(salt, rs, keyid)와 암호문을 이어붙인 요청 본문
+ */
+export function encryptPayload(
+  payload: string,
+  subscription: WebPushSubscription,
+  options: EncryptOptions = {}
+): Buffer {
+  const plaintext = Buffer.from(payload, "utf8");
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload too large: ${plaintext.length} bytes`);
+  }
+
+  const clientPublicKey = base64UrlDecode(subscription.keys.p256dh);
+  const authSecret = base64UrlDecode(subscription.keys.auth);
+
+  let localKeys = options.localKeys;
+  if (!localKeys) {
+    localKeys = createECDH("prime256v1");
+    localKeys.generateKeys();
+  }
+  const serverPublicKey = localKeys.getPublicKey();
+  const sharedSecret = localKeys.computeSecret(clientPublicKey);
+  const salt = options.salt ?? randomBytes(16);
+
+  // IKM = HKDF(auth_secret, ecdh_secret, "WebPush: info" || 0x00 || ua_public || as_public)
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    clientPublicKey,
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32));
+
+  const contentKey = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16));
+  const nonce = Buffer.from(hkdfSync("sha256", ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12));
+
+  // 마지막 레코드 구분자 0x02
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  const encrypted = Buffer.concat([
+    cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(16 + 4 + 1);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, encrypted]);
+}
+
+/**
+ * 단일 구독으로 푸시 메시지 발송
+ * 2xx가 아니면 WebPushError를 던집니다.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  vapid: VapidConfig,
+  options: WebPushOptions = {}
+): Promise<{ statusCode: number }> {
+  const body = encryptPayload(payload, subscription);
+
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+    "Content-Encoding": "aes128gcm",
+    "Content-Type": "application/octet-stream",
+    TTL: String(options.ttl ?? DEFAULT_TTL),
+  };
+  if (options.urgency) {
+    headers.Urgency = options.urgency;
+  }
+  if (options.topic) {
+    headers.Topic = options.topic;
+  }
+
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers,
+    body: new Uint8Array(body),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new WebPushError(
+      response.status,
+      subscription.endpoint,
+      `Push service responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`
+    );
+  }
+
+  return { statusCode: response.status };
+}
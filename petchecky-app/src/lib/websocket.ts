@@ -331,6 +331,39 @@ export interface TypingPayload {
   isTyping: boolean;
 }
 
+export interface RoomPayload {
+  roomId: string;
+}
+
+export interface PetUpdatePayload {
+  petId: string;
+  kind?: string;
+  recordId?: string;
+  action: "created" | "updated" | "deleted";
+}
+
+export interface HealthAlertPayload {
+  id: string;
+  title: string;
+  body: string;
+  url?: string;
+}
+
+export interface SyncRequestPayload {
+  /** 마지막으로 받은 메시지의 timestamp (없으면 보관 중인 전체) */
+  since?: number;
+}
+
+export interface SyncResponsePayload {
+  events: WebSocketMessage[];
+  serverTime: number;
+}
+
+export interface ErrorPayload {
+  code: string;
+  message: string;
+}
+
 // ============================================
 // Message Type Constants
 // ============================================
@@ -354,6 +387,10 @@ export const MESSAGE_TYPES = {
   PRESENCE_UPDATE: "presence:update",
   PRESENCE_SUBSCRIBE: "presence:subscribe",
 
+  // Rooms
+  ROOM_JOIN: "room:join",
+  ROOM_LEAVE: "room:leave",
+
   // Pets
   PET_UPDATE: "pet:update",
   HEALTH_ALERT: "health:alert",
@@ -523,21 +523,63 @@ export const en: TranslationKeys = {
   qrPetId: {
     title: "QR Pet ID",
     description: "Create a QR code for contact if your pet is lost.",
-    generate: "Generate QR Code",
+    generate: "Create Tag",
     download: "Save Image",
     print: "Print",
     petInfo: "Pet Information",
-    ownerInfo: "Owner Information",
-    ownerName: "Owner Name",
-    ownerPhone: "Phone Number",
     emergencyNote: "Notes (illness, allergies, etc.)",
+    photo: "Photo shown to finders",
+    photoHint: "A clear photo of the face works best",
+    removePhoto: "Remove photo",
     howToUse: "How to Use",
-    step1: "Generate and save your QR code",
+    step1: "Create a tag and save the QR code",
     step2: "Attach to collar or ID tag",
-    step3: "Finder scans to see contact info",
+    step3: "Finders see the photo and notes, and their messages reach you as app notifications",
     preview: "Preview",
-    noQr: "Enter information to generate QR code",
-    disclaimer: "Personal info is only stored in QR code, not sent to server.",
+    tagLink: "Tag link",
+    copyLink: "Copy link",
+    linkCopied: "Link copied",
+    saveChanges: "Save changes",
+    saved: "Saved",
+    revoke: "Revoke tag",
+    revokeConfirm: "Printed QR codes will stop showing your pet's info. Continue?",
+    revoked: "Revoked tag",
+    reissue: "Issue new tag",
+    activity: "Scan history",
+    messages: "Finder messages",
+    noActivity: "No scans yet",
+    viewMap: "View on map",
+    noLocation: "Location not shared",
+    accuracy: "±{meters}m",
+    finderContact: "Finder contact",
+    scanToContact: "Scan to contact the owner",
+    loginRequired: "Please log in to create a tag",
+    login: "Go to login",
+    error: "Something went wrong",
+    photoError: "Could not load the photo",
+    disclaimer: "Your name and phone number are never shown in the QR code or the finder page.",
+  },
+
+  // Lost Pet Finder
+  found: {
+    title: "I'm looking for my family",
+    description: "Thank you for finding me. You can contact my owner below.",
+    emergencyNote: "Notes from the owner",
+    shareLocation: "Share my current location",
+    locating: "Getting location...",
+    locationShared: "Your location was sent to the owner",
+    locationError: "Could not get your location",
+    messageTitle: "Send a message to the owner",
+    messagePlaceholder: "e.g. I'm keeping them at the park entrance",
+    contact: "Your contact (optional)",
+    contactHint: "Only shared with the owner",
+    send: "Send",
+    sending: "Sending...",
+    sent: "Your message was sent to the owner",
+    sendError: "Could not send the message. Please try again later.",
+    notFound: "Tag not found",
+    notFoundDescription: "This QR code was revoked or is invalid.",
+    privacy: "The owner's contact details stay private; messages are relayed through PetChecky.",
   },
 
   // Emergency
@@ -647,12 +689,22 @@ export const en: TranslationKeys = {
     today: "Today",
     all: "All",
     noEvents: "No events",
+    export: "Export",
+    subscribe: "Subscribe",
+    subscribeHint: "Add this URL to Google/Apple Calendar via 'Subscribe by URL' to keep events in sync. Do not share this URL.",
+    copy: "Copy",
+    rotate: "Reset URL",
+    rotateConfirm: "Issue a new subscription URL? Calendars subscribed with the old URL will stop syncing.",
+    subscribeError: "Failed to load the subscription URL",
     eventTypes: {
       vaccination: "Vaccination",
       reminder: "Reminder",
       health: "Health Record",
       walk: "Walk",
       vet_visit: "Vet Visit",
+      medication: "Medication",
+      reservation: "Reservation",
+      insurance: "Insurance Claim",
     },
   },
 
@@ -669,6 +721,17 @@ export const en: TranslationKeys = {
     walkRecords: "Walk Records",
     dietLogs: "Diet Logs",
     gallery: "Gallery",
+    medications: "Medications",
+    vetRecords: "Vet Records",
+    insuranceClaims: "Insurance Claims",
+    allergies: "Allergies",
+    dietaryRestrictions: "Dietary Restrictions",
+    expenses: "Expenses",
+    budgets: "Budgets",
+    trainingCommands: "Training",
+    behaviorIssues: "Behavior Issues",
+    insuranceEnrollments: "Enrolled Insurance",
+    galleryAlbums: "Albums",
     total: "Total Data",
     cloudSync: "Cloud Sync",
     cloudSyncDesc: "Data syncs automatically when logged in.",
@@ -678,14 +741,34 @@ export const en: TranslationKeys = {
     exportButton: "Download Backup File",
     exportSuccess: "Data exported successfully.",
     exportError: "Error occurred while exporting.",
+    encrypt: "Encrypt with a password",
+    passphrase: "Password",
+    passphraseHint: "If you forget the password, the backup cannot be restored.",
     import: "Import Data",
     importDesc: "Restore data from a backup file.",
     selectFile: "Select Backup File",
     fileFormat: "Only .json format supported",
     importSuccess: "Data restored successfully.",
     importError: "Invalid backup file.",
+    encryptedFile: "This backup is encrypted. Enter the password.",
+    unlock: "Open",
+    wrongPassphrase: "Incorrect password.",
+    newerVersion: "This backup was made with a newer version of the app. Please update.",
+    preview: "Restore Preview",
+    backupDate: "Backup date",
+    modeMerge: "Merge",
+    modeReplace: "Replace",
+    modeSkip: "Skip",
+    added: "{count} added",
+    updated: "{count} updated",
+    removed: "{count} removed",
+    unchanged: "{count} unchanged",
+    rejected: "{count} invalid items will be skipped",
+    restoreButton: "Restore",
+    noChanges: "Nothing to change.",
+    cloudNote: "Records stored in your account are not changed.",
     warning: "Warning",
-    warningItem1: "Importing will overwrite existing data.",
+    warningItem1: "When importing, you can merge or replace each type of data.",
     warningItem2: "Keep backup files in a safe place.",
     warningItem3: "Can be used on other devices.",
     clearData: "Clear All Data",
@@ -856,6 +939,12 @@ export const en: TranslationKeys = {
     idealWeight: "Ideal Weight",
     exerciseNeeds: "Exercise Needs",
     commonIssues: "Common Issues",
+    normalVitals: "Normal Vital Signs",
+    temperature: "Temperature",
+    heartRate: "Heart Rate",
+    respiratoryRate: "Respiratory Rate",
+    perMinute: "/min",
+    vitalsVaryWithEnvironment: "As a cold-blooded animal, body temperature and heart rate depend on the enclosure temperature. Keep a log of enclosure temperatures.",
     alerts: "Alerts",
     warnings: "Warnings",
     tips: "Tips",
@@ -523,21 +523,63 @@ export const ja: TranslationKeys = {
   qrPetId: {
     title: "QRペットID",
     description: "迷子になった時に連絡を受けられるQRコードを作成します。",
-    generate: "QRコードを生成",
+    generate: "迷子札を作成",
     download: "画像を保存",
     print: "印刷",
     petInfo: "ペット情報",
-    ownerInfo: "飼い主情報",
-    ownerName: "飼い主の名前",
-    ownerPhone: "電話番号",
     emergencyNote: "備考（病気、アレルギーなど）",
+    photo: "発見者に表示する写真",
+    photoHint: "顔がよく見える写真がおすすめです",
+    removePhoto: "写真を削除",
     howToUse: "使用方法",
-    step1: "QRコードを生成して保存",
+    step1: "迷子札を作成してQRコードを保存",
     step2: "首輪やIDタグに取り付け",
-    step3: "発見者がスキャンで連絡先を確認",
+    step3: "発見者がスキャンすると写真と備考が表示され、メッセージはアプリ通知で届きます",
     preview: "プレビュー",
-    noQr: "QRコード生成には情報を入力してください",
-    disclaimer: "個人情報はQRコードにのみ保存され、サーバーには送信されません。",
+    tagLink: "迷子札のURL",
+    copyLink: "URLをコピー",
+    linkCopied: "URLをコピーしました",
+    saveChanges: "変更を保存",
+    saved: "保存しました",
+    revoke: "迷子札を無効化",
+    revokeConfirm: "無効化すると、印刷済みのQRコードでは情報が表示されなくなります。続けますか？",
+    revoked: "無効化された迷子札",
+    reissue: "新しい迷子札を発行",
+    activity: "スキャン履歴",
+    messages: "発見者からのメッセージ",
+    noActivity: "まだスキャンされていません",
+    viewMap: "地図で見る",
+    noLocation: "位置情報なし",
+    accuracy: "誤差 約{meters}m",
+    finderContact: "発見者の連絡先",
+    scanToContact: "スキャンして飼い主に連絡してください",
+    loginRequired: "迷子札を作成するにはログインが必要です",
+    login: "ログインする",
+    error: "エラーが発生しました",
+    photoError: "写真を読み込めませんでした",
+    disclaimer: "飼い主の名前と電話番号はQRコードや発見者ページに公開されません。",
+  },
+
+  // Lost Pet Finder
+  found: {
+    title: "飼い主を探しています",
+    description: "見つけてくださりありがとうございます。下から飼い主に連絡できます。",
+    emergencyNote: "飼い主からの備考",
+    shareLocation: "現在地を知らせる",
+    locating: "位置情報を取得中...",
+    locationShared: "現在地を飼い主に送りました",
+    locationError: "位置情報を取得できませんでした",
+    messageTitle: "飼い主にメッセージを送る",
+    messagePlaceholder: "例：〇〇公園の入口で保護しています",
+    contact: "あなたの連絡先（任意）",
+    contactHint: "飼い主にのみ伝えられます",
+    send: "送信",
+    sending: "送信中...",
+    sent: "メッセージを飼い主に送りました",
+    sendError: "メッセージを送信できませんでした。しばらくしてから再度お試しください。",
+    notFound: "迷子札が見つかりません",
+    notFoundDescription: "無効化されたか、正しくないQRコードです。",
+    privacy: "飼い主の連絡先は公開されず、メッセージはPetChecky経由で届けられます。",
   },
 
   // Emergency
@@ -647,12 +689,22 @@ export const ja: TranslationKeys = {
     today: "今日",
     all: "すべて",
     noEvents: "予定がありません",
+    export: "エクスポート",
+    subscribe: "購読",
+    subscribeHint: "このURLをGoogle/Appleカレンダーの「URLで購読」に追加すると予定が自動で同期されます。URLは他の人と共有しないでください。",
+    copy: "コピー",
+    rotate: "URLを再発行",
+    rotateConfirm: "購読URLを再発行しますか？以前のURLで購読したカレンダーは同期されなくなります。",
+    subscribeError: "購読URLを読み込めませんでした",
     eventTypes: {
       vaccination: "予防接種",
       reminder: "リマインダー",
       health: "健康記録",
       walk: "散歩",
       vet_visit: "病院訪問",
+      medication: "投薬",
+      reservation: "病院予約",
+      insurance: "保険請求",
     },
   },
 
@@ -669,6 +721,17 @@ export const ja: TranslationKeys = {
     walkRecords: "散歩記録",
     dietLogs: "食事記録",
     gallery: "ギャラリー",
+    medications: "お薬",
+    vetRecords: "診療記録",
+    insuranceClaims: "保険請求",
+    allergies: "アレルギー",
+    dietaryRestrictions: "食事制限",
+    expenses: "支出",
+    budgets: "予算",
+    trainingCommands: "トレーニング",
+    behaviorIssues: "問題行動",
+    insuranceEnrollments: "加入保険",
+    galleryAlbums: "アルバム",
     total: "合計データ",
     cloudSync: "クラウド同期",
     cloudSyncDesc: "ログインするとデータが自動的に同期されます。",
@@ -678,14 +741,34 @@ export const ja: TranslationKeys = {
     exportButton: "バックアップファイルをダウンロード",
     exportSuccess: "データを正常にエクスポートしました。",
     exportError: "エクスポート中にエラーが発生しました。",
+    encrypt: "パスワードで暗号化",
+    passphrase: "パスワード",
+    passphraseHint: "パスワードを忘れるとバックアップを復元できません。",
     import: "データインポート",
     importDesc: "バックアップファイルからデータを復元します。",
     selectFile: "バックアップファイルを選択",
     fileFormat: ".json形式のみ対応",
     importSuccess: "データを正常に復元しました。",
     importError: "無効なバックアップファイルです。",
+    encryptedFile: "暗号化されたバックアップです。パスワードを入力してください。",
+    unlock: "開く",
+    wrongPassphrase: "パスワードが正しくありません。",
+    newerVersion: "新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください。",
+    preview: "復元プレビュー",
+    backupDate: "バックアップ日時",
+    modeMerge: "統合",
+    modeReplace: "置換",
+    modeSkip: "スキップ",
+    added: "追加 {count}",
+    updated: "変更 {count}",
+    removed: "削除 {count}",
+    unchanged: "同一 {count}",
+    rejected: "形式が正しくない{count}件は除外されます",
+    restoreButton: "復元する",
+    noChanges: "変更する内容がありません。",
+    cloudNote: "アカウントに保存された記録は変更されません。",
     warning: "注意事項",
-    warningItem1: "インポートすると既存のデータが上書きされます。",
+    warningItem1: "インポート時にデータの種類ごとに統合か置換かを選べます。",
     warningItem2: "バックアップファイルは安全な場所に保管してください。",
     warningItem3: "他のデバイスでも使用できます。",
     clearData: "すべてのデータを削除",
@@ -856,6 +939,12 @@ export const ja: TranslationKeys = {
     idealWeight: "理想体重",
     exerciseNeeds: "運動量",
     commonIssues: "注意疾患",
+    normalVitals: "正常なバイタルサイン",
+    temperature: "体温",
+    heartRate: "心拍数",
+    respiratoryRate: "呼吸数",
+    perMinute: "回/分",
+    vitalsVaryWithEnvironment: "変温動物のため、体温と心拍数は飼育温度によって変わります。飼育環境の温度を記録しましょう。",
     alerts: "警告",
     warnings: "注意",
     tips: "ヒント",
@@ -470,21 +470,63 @@ export const ko = {
   qrPetId: {
     title: "QR 펫 ID",
     description: "분실 시 연락받을 수 있는 QR 코드를 생성하세요.",
-    generate: "QR 코드 생성",
+    generate: "인식표 만들기",
     download: "이미지 저장",
     print: "인쇄",
     petInfo: "반려동물 정보",
-    ownerInfo: "보호자 정보",
-    ownerName: "보호자 이름",
-    ownerPhone: "연락처",
     emergencyNote: "특이사항 (질병, 알레르기 등)",
+    photo: "발견자에게 보여줄 사진",
+    photoHint: "얼굴이 잘 보이는 사진을 권장합니다",
+    removePhoto: "사진 삭제",
     howToUse: "사용 방법",
-    step1: "QR 코드를 생성하고 저장하세요",
+    step1: "인식표를 만들고 QR 코드를 저장하세요",
     step2: "목걸이나 인식표에 부착하세요",
-    step3: "발견자가 스캔하면 연락처가 표시됩니다",
+    step3: "발견자가 스캔하면 사진과 특이사항이 보이고, 메시지는 앱 알림으로 전달됩니다",
     preview: "미리보기",
-    noQr: "QR 코드를 생성하려면 정보를 입력하세요",
-    disclaimer: "개인정보는 QR 코드에만 저장되며 서버에 전송되지 않습니다.",
+    tagLink: "인식표 주소",
+    copyLink: "주소 복사",
+    linkCopied: "주소를 복사했습니다",
+    saveChanges: "변경사항 저장",
+    saved: "저장했습니다",
+    revoke: "인식표 폐기",
+    revokeConfirm: "폐기하면 이미 인쇄한 QR 코드로는 정보를 볼 수 없습니다. 계속할까요?",
+    revoked: "폐기된 인식표",
+    reissue: "새 인식표 발급",
+    activity: "스캔 기록",
+    messages: "발견자 메시지",
+    noActivity: "아직 스캔 기록이 없습니다",
+    viewMap: "지도에서 보기",
+    noLocation: "위치 미공유",
+    accuracy: "오차 약 {meters}m",
+    finderContact: "발견자 연락처",
+    scanToContact: "스캔하여 보호자에게 연락하세요",
+    loginRequired: "인식표를 만들려면 로그인이 필요합니다",
+    login: "로그인하러 가기",
+    error: "처리 중 오류가 발생했습니다",
+    photoError: "사진을 불러올 수 없습니다",
+    disclaimer: "보호자 이름과 연락처는 QR 코드와 발견자 페이지에 공개되지 않습니다.",
+  },
+
+  // Lost Pet Finder
+  found: {
+    title: "주인을 찾고 있어요",
+    description: "이 아이를 발견해 주셔서 감사합니다. 아래에서 보호자에게 연락할 수 있어요.",
+    emergencyNote: "보호자 특이사항",
+    shareLocation: "현재 위치 알려주기",
+    locating: "위치 확인 중...",
+    locationShared: "위치를 보호자에게 전달했습니다",
+    locationError: "위치를 가져올 수 없습니다",
+    messageTitle: "보호자에게 메시지 보내기",
+    messagePlaceholder: "예: OO공원 정문에서 보호 중입니다",
+    contact: "내 연락처 (선택)",
+    contactHint: "보호자에게만 전달됩니다",
+    send: "보내기",
+    sending: "보내는 중...",
+    sent: "메시지를 보호자에게 전달했습니다",
+    sendError: "메시지를 보내지 못했습니다. 잠시 후 다시 시도해주세요.",
+    notFound: "인식표를 찾을 수 없습니다",
+    notFoundDescription: "폐기되었거나 잘못된 QR 코드입니다.",
+    privacy: "보호자의 연락처는 공개되지 않으며, 메시지는 펫체키를 통해 전달됩니다.",
   },
 
   // Emergency
@@ -594,12 +636,22 @@ export const ko = {
     today: "오늘",
     all: "전체",
     noEvents: "일정이 없습니다",
+    export: "내보내기",
+    subscribe: "구독",
+    subscribeHint: "이 주소를 구글/애플 캘린더의 'URL로 구독'에 추가하면 일정이 자동으로 동기화돼요. 주소를 다른 사람과 공유하지 마세요.",
+    copy: "복사",
+    rotate: "주소 재발급",
+    rotateConfirm: "구독 주소를 새로 발급할까요? 이전 주소로 구독한 캘린더는 더 이상 동기화되지 않습니다.",
+    subscribeError: "구독 주소를 불러오지 못했습니다",
     eventTypes: {
       vaccination: "예방접종",
       reminder: "리마인더",
       health: "건강기록",
       walk: "산책",
       vet_visit: "병원방문",
+      medication: "투약",
+      reservation: "병원예약",
+      insurance: "보험청구",
     },
   },
 
@@ -616,6 +668,17 @@ export const ko = {
     walkRecords: "산책 기록",
     dietLogs: "식사 기록",
     gallery: "갤러리",
+    medications: "약물",
+    vetRecords: "진료 기록",
+    insuranceClaims: "보험 청구",
+    allergies: "알레르기",
+    dietaryRestrictions: "식이 제한",
+    expenses: "지출",
+    budgets: "예산",
+    trainingCommands: "훈련",
+    behaviorIssues: "문제 행동",
+    insuranceEnrollments: "가입 보험",
+    galleryAlbums: "앨범",
     total: "총 데이터",
     cloudSync: "클라우드 동기화",
     cloudSyncDesc: "로그인하면 데이터가 자동으로 동기화됩니다.",
@@ -625,14 +688,34 @@ export const ko = {
     exportButton: "백업 파일 다운로드",
     exportSuccess: "데이터를 성공적으로 내보냈습니다.",
     exportError: "내보내기 중 오류가 발생했습니다.",
+    encrypt: "비밀번호로 암호화",
+    passphrase: "비밀번호",
+    passphraseHint: "비밀번호를 잊으면 백업을 복원할 수 없습니다.",
     import: "데이터 가져오기",
     importDesc: "백업 파일에서 데이터를 복원합니다.",
     selectFile: "백업 파일 선택",
     fileFormat: ".json 형식만 지원됩니다",
     importSuccess: "데이터를 성공적으로 복원했습니다.",
     importError: "유효하지 않은 백업 파일입니다.",
+    encryptedFile: "암호화된 백업 파일입니다. 비밀번호를 입력하세요.",
+    unlock: "열기",
+    wrongPassphrase: "비밀번호가 올바르지 않습니다.",
+    newerVersion: "더 새로운 버전의 앱에서 만든 백업입니다. 앱을 업데이트해주세요.",
+    preview: "복원 미리보기",
+    backupDate: "백업 일시",
+    modeMerge: "병합",
+    modeReplace: "교체",
+    modeSkip: "건너뛰기",
+    added: "추가 {count}",
+    updated: "변경 {count}",
+    removed: "삭제 {count}",
+    unchanged: "동일 {count}",
+    rejected: "형식이 올바르지 않은 {count}개 항목은 제외됩니다",
+    restoreButton: "복원하기",
+    noChanges: "변경할 내용이 없습니다.",
+    cloudNote: "로그인 계정에 저장된 기록은 바뀌지 않습니다.",
     warning: "주의사항",
-    warningItem1: "가져오기 시 기존 데이터가 덮어씌워집니다.",
+    warningItem1: "가져오기 시 데이터 종류별로 병합 또는 교체를 선택할 수 있습니다.",
     warningItem2: "백업 파일은 안전한 곳에 보관하세요.",
     warningItem3: "다른 기기에서 사용할 수 있습니다.",
     clearData: "모든 데이터 삭제",
@@ -854,6 +937,12 @@ export const ko = {
     idealWeight: "권장 체중",
     exerciseNeeds: "운동 필요량",
     commonIssues: "주의 질환",
+    normalVitals: "정상 활력징후",
+    temperature: "체온",
+    heartRate: "심박수",
+    respiratoryRate: "호흡수",
+    perMinute: "회/분",
+    vitalsVaryWithEnvironment: "변온동물이라 체온과 심박수가 사육 온도에 따라 달라져요. 사육장 온도를 꾸준히 기록해주세요.",
     alerts: "경고",
     warnings: "주의",
     tips: "팁",
@@ -523,21 +523,63 @@ export const zh: TranslationKeys = {
   qrPetId: {
     title: "QR宠物ID",
     description: "创建宠物走失时可联系的二维码。",
-    generate: "生成二维码",
+    generate: "创建身份牌",
     download: "保存图片",
     print: "打印",
     petInfo: "宠物信息",
-    ownerInfo: "主人信息",
-    ownerName: "主人姓名",
-    ownerPhone: "电话号码",
     emergencyNote: "备注（疾病、过敏等）",
+    photo: "展示给发现者的照片",
+    photoHint: "建议使用能看清脸部的照片",
+    removePhoto: "删除照片",
     howToUse: "使用方法",
-    step1: "生成并保存二维码",
+    step1: "创建身份牌并保存二维码",
     step2: "贴在项圈或ID牌上",
-    step3: "发现者扫描即可查看联系方式",
+    step3: "发现者扫描后可看到照片和备注，留言会通过应用通知发送给您",
     preview: "预览",
-    noQr: "输入信息以生成二维码",
-    disclaimer: "个人信息仅存储在二维码中，不会发送到服务器。",
+    tagLink: "身份牌链接",
+    copyLink: "复制链接",
+    linkCopied: "链接已复制",
+    saveChanges: "保存更改",
+    saved: "已保存",
+    revoke: "停用身份牌",
+    revokeConfirm: "停用后，已打印的二维码将无法显示信息。是否继续？",
+    revoked: "已停用的身份牌",
+    reissue: "发放新身份牌",
+    activity: "扫描记录",
+    messages: "发现者留言",
+    noActivity: "暂无扫描记录",
+    viewMap: "在地图上查看",
+    noLocation: "未共享位置",
+    accuracy: "误差约{meters}米",
+    finderContact: "发现者联系方式",
+    scanToContact: "扫描联系主人",
+    loginRequired: "创建身份牌需要登录",
+    login: "去登录",
+    error: "处理时发生错误",
+    photoError: "无法加载照片",
+    disclaimer: "主人的姓名和电话不会显示在二维码或发现者页面中。",
+  },
+
+  // Lost Pet Finder
+  found: {
+    title: "我在找我的家人",
+    description: "感谢您发现了我。您可以在下方联系我的主人。",
+    emergencyNote: "主人的备注",
+    shareLocation: "告知当前位置",
+    locating: "正在获取位置...",
+    locationShared: "已将您的位置发送给主人",
+    locationError: "无法获取位置",
+    messageTitle: "给主人留言",
+    messagePlaceholder: "例：我在某某公园门口照看它",
+    contact: "您的联系方式（可选）",
+    contactHint: "仅提供给主人",
+    send: "发送",
+    sending: "发送中...",
+    sent: "留言已发送给主人",
+    sendError: "留言发送失败，请稍后再试。",
+    notFound: "找不到身份牌",
+    notFoundDescription: "该二维码已停用或无效。",
+    privacy: "主人的联系方式不会公开，留言通过PetChecky转达。",
   },
 
   // Emergency
@@ -647,12 +689,22 @@ export const zh: TranslationKeys = {
     today: "今天",
     all: "全部",
     noEvents: "无事件",
+    export: "导出",
+    subscribe: "订阅",
+    subscribeHint: "将此链接添加到 Google/Apple 日历的“通过 URL 订阅”，即可自动同步日程。请勿与他人分享此链接。",
+    copy: "复制",
+    rotate: "重新生成链接",
+    rotateConfirm: "要重新生成订阅链接吗？使用旧链接订阅的日历将不再同步。",
+    subscribeError: "无法加载订阅链接",
     eventTypes: {
       vaccination: "疫苗接种",
       reminder: "提醒",
       health: "健康记录",
       walk: "散步",
       vet_visit: "就医",
+      medication: "用药",
+      reservation: "医院预约",
+      insurance: "保险理赔",
     },
   },
 
@@ -669,6 +721,17 @@ export const zh: TranslationKeys = {
     walkRecords: "散步记录",
     dietLogs: "饮食记录",
     gallery: "相册",
+    medications: "药物",
+    vetRecords: "就诊记录",
+    insuranceClaims: "保险理赔",
+    allergies: "过敏",
+    dietaryRestrictions: "饮食限制",
+    expenses: "支出",
+    budgets: "预算",
+    trainingCommands: "训练",
+    behaviorIssues: "行为问题",
+    insuranceEnrollments: "已投保险",
+    galleryAlbums: "相册",
     total: "总数据",
     cloudSync: "云同步",
     cloudSyncDesc: "登录后数据自动同步。",
@@ -678,14 +741,34 @@ export const zh: TranslationKeys = {
     exportButton: "下载备份文件",
     exportSuccess: "数据导出成功。",
     exportError: "导出时发生错误。",
+    encrypt: "使用密码加密",
+    passphrase: "密码",
+    passphraseHint: "忘记密码将无法恢复备份。",
     import: "导入数据",
     importDesc: "从备份文件恢复数据。",
     selectFile: "选择备份文件",
     fileFormat: "仅支持.json格式",
     importSuccess: "数据恢复成功。",
     importError: "无效的备份文件。",
+    encryptedFile: "此备份已加密，请输入密码。",
+    unlock: "打开",
+    wrongPassphrase: "密码不正确。",
+    newerVersion: "此备份由更新版本的应用创建，请更新应用。",
+    preview: "恢复预览",
+    backupDate: "备份时间",
+    modeMerge: "合并",
+    modeReplace: "替换",
+    modeSkip: "跳过",
+    added: "新增 {count}",
+    updated: "更新 {count}",
+    removed: "删除 {count}",
+    unchanged: "相同 {count}",
+    rejected: "{count} 个无效项目将被跳过",
+    restoreButton: "恢复",
+    noChanges: "没有需要更改的内容。",
+    cloudNote: "账户中保存的记录不会被更改。",
     warning: "注意",
-    warningItem1: "导入将覆盖现有数据。",
+    warningItem1: "导入时可为每类数据选择合并或替换。",
     warningItem2: "请将备份文件保存在安全的地方。",
     warningItem3: "可在其他设备上使用。",
     clearData: "清除所有数据",
@@ -857,6 +940,12 @@ export const zh: TranslationKeys = {
     idealWeight: "理想体重",
     exerciseNeeds: "运动需求",
     commonIssues: "常见问题",
+    normalVitals: "正常生命体征",
+    temperature: "体温",
+    heartRate: "心率",
+    respiratoryRate: "呼吸频率",
+    perMinute: "次/分",
+    vitalsVaryWithEnvironment: "作为冷血动物，体温和心率会随饲养环境温度变化。请持续记录饲养箱温度。",
     alerts: "警报",
     warnings: "警告",
     tips: "建议",
@@ -1,6 +1,9 @@
 // 채팅 관련 공통 타입 정의
 
 import { PetSpecies, Severity } from "@/lib/constants";
+import type { Triage } from "@/lib/validations/triage";
+import type { PetHealthRecordsInput } from "@/lib/validations/chat";
+import type { VaccineLifestyle } from "@/lib/species";
 
 // 기본 메시지 타입 (API 통신용)
 export interface ChatMessage {
@@ -13,6 +16,8 @@ export interface ChatMessage {
 export interface Message extends ChatMessage {
   id: string;
   image?: string; // Base64 이미지 URL (미리보기용)
+  isStreaming?: boolean; // 스트리밍 응답 수신 중
+  triage?: Triage; // AI가 반환한 구조화된 위험도 정보
 }
 
 // 채팅 기록 타입
@@ -32,8 +37,19 @@ export interface PetProfile {
   name: string;
   species: PetSpecies;
   breed: string;
+  /** 품종 카탈로그 id (카탈로그에 없는 품종이면 비어 있음) */
+  breedId?: string;
   age: number;
   weight: number;
+  /** 생년월일 (YYYY-MM-DD), 접종 일정 계산에 사용 */
+  birthDate?: string;
+  lifestyle?: VaccineLifestyle;
+}
+
+// 상담에 실제로 공유된 건강 기록 항목 (ChatHeader 표시용)
+export interface SharedHealthRecord {
+  category: "allergy" | "medication" | "vetVisit" | "vaccine";
+  label: string;
 }
 
 // API 요청 타입
@@ -45,12 +61,15 @@ export interface ChatApiRequest {
     data: string; // Base64 encoded image
     mimeType: string; // image/jpeg, image/png, etc.
   };
+  healthRecords?: PetHealthRecordsInput; // "건강 기록 사용"을 켠 경우만
 }
 
 // API 응답 타입
 export interface ChatApiResponse {
   message: string;
   severity?: Severity;
+  triage?: Triage;
+  sharedRecords?: SharedHealthRecord[];
   limitExceeded?: boolean;
   requirePremiumPlus?: boolean;
   usage?: number;
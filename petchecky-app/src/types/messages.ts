@@ -0,0 +1,39 @@
+// 1:1 메시지 공통 타입 정의
+// 메시지 페이지(/messages)와 /api/messages 라우트가 같은 응답 형식을 사용합니다.
+
+export interface DirectConversation {
+  id: string;
+  participantId: string;
+  participantName: string;
+  lastMessage: string | null;
+  lastMessageAt: string | null;
+  /** 상대가 보냈고 아직 읽지 않은 메시지 수 */
+  unreadCount: number;
+  /** 내가 상대를 차단했는지 (상대가 나를 차단했는지는 알려주지 않음) */
+  blocked: boolean;
+  createdAt: string;
+}
+
+export interface DirectMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  recipientId: string;
+  content: string;
+  createdAt: string;
+  /** 상대가 읽은 시각 (안 읽었으면 null) */
+  readAt: string | null;
+}
+
+// 읽음 처리 알림 (MESSAGE_TYPES.CHAT_READ)
+export interface DirectReadReceipt {
+  conversationId: string;
+  readerId: string;
+  readAt: string;
+}
+
+export interface BlockedUser {
+  userId: string;
+  name: string;
+  blockedAt: string;
+}
@@ -0,0 +1,38 @@
+// 커뮤니티 관리 공통 타입 정의
+// 관리 페이지(/admin/moderation)와 /api/admin/moderation 라우트가 같은 응답 형식을 사용합니다.
+
+import type { ModerationStatus } from "@/lib/supabase/community";
+import type { ModerationTargetType, ReportReason } from "@/lib/validations/moderation";
+
+export interface ContentReportSummary {
+  reason: ReportReason;
+  details: string | null;
+  createdAt: string;
+}
+
+// 검토 대상 게시글/댓글
+export interface ModerationItem {
+  targetType: ModerationTargetType;
+  targetId: string;
+  postId: string;
+  /** 게시글만 */
+  title: string | null;
+  content: string;
+  authorId: string;
+  authorName: string;
+  status: ModerationStatus;
+  /** 자동 검사/신고 누적/관리자 사유 */
+  reason: string | null;
+  createdAt: string;
+  /** 처리되지 않은 신고 */
+  reports: ContentReportSummary[];
+}
+
+export interface CommunityBan {
+  userId: string;
+  reason: string;
+  bannedBy: string | null;
+  /** null이면 영구 제한 */
+  expiresAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,171 @@
+// 펫 건강 기록 공통 타입 정의
+// 약물/진료/산책/식단/예방접종/보험 페이지가 같은 저장소를 공유합니다.
+
+// === 약물 ===
+export interface MedicationLog {
+  id: string;
+  date: string;
+  time: string;
+  taken: boolean;
+  /** 실제 복용 시각 (ISO), 지각 복용 판정에 사용 */
+  takenAt?: string;
+  notes?: string;
+}
+
+export interface Medication {
+  id: string;
+  petId: string;
+  name: string;
+  dosage: string;
+  frequency: "once" | "twice" | "three" | "asNeeded";
+  timeOfDay: ("morning" | "afternoon" | "evening" | "night")[];
+  startDate: string;
+  endDate?: string;
+  prescribedBy?: string;
+  notes?: string;
+  refillDate?: string;
+  remainingDoses?: number;
+  isActive: boolean;
+  logs: MedicationLog[];
+}
+
+// === 진료 기록 ===
+export interface Prescription {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+}
+
+export interface TestResult {
+  testName: string;
+  result: string;
+  normalRange?: string;
+  status: "normal" | "abnormal" | "critical";
+}
+
+export interface VetRecord {
+  id: string;
+  petId: string;
+  date: string;
+  hospitalName: string;
+  vetName?: string;
+  visitType: "checkup" | "vaccination" | "treatment" | "surgery" | "emergency" | "other";
+  diagnosis?: string;
+  symptoms?: string[];
+  treatment?: string;
+  prescriptions?: Prescription[];
+  testResults?: TestResult[];
+  nextVisitDate?: string;
+  cost?: number;
+  notes?: string;
+  attachments?: string[];
+  createdAt: string;
+}
+
+// === 산책 ===
+export interface WalkRecord {
+  id: string;
+  petId: string;
+  date: string;
+  startTime: string;
+  endTime?: string;
+  duration: number; // 분 단위
+  distance?: number; // km 단위
+  location?: string;
+  weather?: "sunny" | "cloudy" | "rainy" | "snowy";
+  mood?: "happy" | "normal" | "tired";
+  notes?: string;
+  route?: string; // GPS 경로 (Encoded Polyline)
+  movingTime?: number; // 초 단위, 멈춘 시간 제외 (GPS 기록만)
+}
+
+// === 식단 ===
+export interface DietLog {
+  id: string;
+  petId: string;
+  date: string;
+  foodName: string;
+  amount: string;
+  mealTime: "breakfast" | "lunch" | "dinner" | "snack";
+  // 주요 재료 (알레르기 확인용, lib/dietAllergy.ts)
+  ingredients?: string[];
+  notes?: string;
+}
+
+// === 예방접종 ===
+export interface Vaccination {
+  id: string;
+  petId: string;
+  name: string;
+  date: string; // 접종일
+  nextDate?: string; // 다음 접종 예정일
+  hospital?: string;
+  notes?: string;
+  completed: boolean;
+  type: "required" | "optional";
+  // 항체가 검사 기록이면 결과 (접종 기록이면 없음)
+  titerResult?: "protective" | "low";
+}
+
+// === 보험 청구 ===
+export interface InsuranceClaim {
+  id: string;
+  petId: string;
+  date: string;
+  hospitalName: string;
+  treatmentType: string;
+  totalAmount: number;
+  claimedAmount: number;
+  status: "pending" | "approved" | "rejected" | "paid";
+  notes?: string;
+}
+
+// === 리마인더 ===
+export interface PetReminder {
+  id: string;
+  petId: string;
+  petName: string;
+  type: "vaccination" | "medication" | "vet_visit" | "grooming" | "other";
+  title: string;
+  description?: string;
+  date: string;
+  time: string; // HH:mm (보호자 시간대 기준)
+  repeat: "none" | "daily" | "weekly" | "monthly" | "yearly";
+  enabled: boolean;
+  // 비로그인 사용자의 브라우저 알림 여부 (로그인 사용자는 서버 발송 기록 사용)
+  notified?: boolean;
+}
+
+// === 기록 종류 ===
+// 값은 /api/pets/[id]/[kind] 경로 세그먼트로도 사용됩니다.
+export const PET_RECORD_KINDS = [
+  "medications",
+  "vet-records",
+  "walks",
+  "diet-logs",
+  "vaccinations",
+  "insurance-claims",
+  "reminders",
+] as const;
+
+export type PetRecordKind = typeof PET_RECORD_KINDS[number];
+
+export interface PetRecordMap {
+  medications: Medication;
+  "vet-records": VetRecord;
+  walks: WalkRecord;
+  "diet-logs": DietLog;
+  vaccinations: Vaccination;
+  "insurance-claims": InsuranceClaim;
+  reminders: PetReminder;
+}
+
+export type PetRecord<K extends PetRecordKind = PetRecordKind> = PetRecordMap[K];
+
+// 생성/수정 시 클라이언트가 보내는 값 (id, petId는 서버/저장소가 결정)
+export type PetRecordInput<K extends PetRecordKind> = Omit<PetRecordMap[K], "id" | "petId">;
+
+export function isPetRecordKind(value: string): value is PetRecordKind {
+  return (PET_RECORD_KINDS as readonly string[]).includes(value);
+}
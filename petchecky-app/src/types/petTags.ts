@@ -0,0 +1,47 @@
+// QR 인식표 공통 타입 정의
+// 보호자 화면(/qr-pet-id)과 발견자 공개 페이지(/found/[token])가 같은 API 응답 형식을 사용합니다.
+
+import type { PetSpecies } from "@/lib/species";
+
+// 보호자가 관리하는 인식표
+export interface PetTag {
+  id: string;
+  petId: string;
+  token: string;
+  emergencyNote: string | null;
+  photo: string | null;
+  /** 폐기된 인식표는 발견자 페이지에서 조회되지 않음 */
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// 발견자에게 공개되는 정보 (보호자 연락처 제외)
+export interface FoundPetProfile {
+  name: string;
+  species: PetSpecies;
+  breed: string;
+  photo: string | null;
+  emergencyNote: string | null;
+}
+
+export interface PetTagScan {
+  id: string;
+  latitude: number | null;
+  longitude: number | null;
+  /** 위치 정확도 (미터) */
+  accuracy: number | null;
+  scannedAt: string;
+}
+
+export interface PetTagMessage {
+  id: string;
+  message: string;
+  /** 발견자가 직접 남긴 연락처 */
+  contact: string | null;
+  createdAt: string;
+}
+
+export interface PetTagActivity {
+  scans: PetTagScan[];
+  messages: PetTagMessage[];
+}
@@ -1,6 +1,9 @@
 export type PlanType = "free" | "premium" | "premium_plus";
 export type SubscriptionStatus = "active" | "paused" | "cancelled" | "payment_failed" | "expired";
 
+// 프리미엄 기능을 쓸 수 있는 상태 (payment_failed는 grace_period_end까지)
+export const PREMIUM_ACCESS_STATUSES: SubscriptionStatus[] = ["active", "payment_failed"];
+
 export interface Subscription {
   id: string;
   user_id: string;
@@ -13,6 +16,11 @@ export interface Subscription {
   status: SubscriptionStatus;
   current_period_start: string;
   current_period_end: string;
+  // 갱신 결제 실패 시 이용 유지 기한
+  grace_period_end: string | null;
+  last_payment_error: string | null;
+  // 다음 갱신부터 적용될 플랜 (예약된 다운그레이드)
+  scheduled_plan_type: "premium" | "premium_plus" | null;
   vet_consultations_remaining: number;
   created_at: string;
   updated_at: string;
@@ -33,6 +41,21 @@ export interface Payment {
   created_at: string;
 }
 
+// 플랜 변경 견적 (/api/subscription/change)
+export interface PlanChangeQuote {
+  fromPlan: "premium" | "premium_plus";
+  toPlan: "premium" | "premium_plus";
+  direction: "upgrade" | "downgrade";
+  /** 지금 청구할 금액 (원) */
+  chargeAmount: number;
+  /** 남은 기간의 현재 플랜 미사용 금액 (원) - 업그레이드 차액 계산에 사용 */
+  unusedCredit: number;
+  /** 변경이 적용되는 시각 (ISO) */
+  effectiveAt: string;
+  /** 다음 갱신부터 청구할 월 요금 */
+  nextPrice: number;
+}
+
 export interface Plan {
   id: PlanType;
   name: string;
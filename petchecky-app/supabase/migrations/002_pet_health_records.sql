@@ -0,0 +1,167 @@
+-- =====================================================
+-- PetChecky Pet Health Records
+-- 페이지별 localStorage 키에 흩어져 있던 건강 기록을 통합 저장합니다.
+-- (약물, 진료 기록, 산책, 식단, 예방접종, 보험 청구)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 약물 관리
+CREATE TABLE IF NOT EXISTS pet_medications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  dosage VARCHAR(100) NOT NULL,
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('once', 'twice', 'three', 'asNeeded')),
+  time_of_day TEXT[] NOT NULL DEFAULT '{}',
+  start_date DATE NOT NULL,
+  end_date DATE,
+  prescribed_by VARCHAR(100),
+  notes TEXT,
+  refill_date DATE,
+  remaining_doses INTEGER CHECK (remaining_doses >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  logs JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. 진료 기록
+CREATE TABLE IF NOT EXISTS pet_vet_records (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  visit_date DATE NOT NULL,
+  hospital_name VARCHAR(100) NOT NULL,
+  vet_name VARCHAR(50),
+  visit_type VARCHAR(20) NOT NULL CHECK (visit_type IN ('checkup', 'vaccination', 'treatment', 'surgery', 'emergency', 'other')),
+  diagnosis TEXT,
+  symptoms TEXT[],
+  treatment TEXT,
+  prescriptions JSONB NOT NULL DEFAULT '[]',
+  test_results JSONB NOT NULL DEFAULT '[]',
+  next_visit_date DATE,
+  cost INTEGER CHECK (cost >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 3. 산책 기록
+CREATE TABLE IF NOT EXISTS pet_walks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  walk_date DATE NOT NULL,
+  start_time VARCHAR(5) NOT NULL,
+  end_time VARCHAR(5),
+  duration INTEGER NOT NULL CHECK (duration >= 0),
+  distance DECIMAL(6,2) CHECK (distance >= 0),
+  location VARCHAR(100),
+  weather VARCHAR(10) CHECK (weather IN ('sunny', 'cloudy', 'rainy', 'snowy')),
+  mood VARCHAR(10) CHECK (mood IN ('happy', 'normal', 'tired')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 4. 식단 기록
+CREATE TABLE IF NOT EXISTS pet_diet_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  log_date DATE NOT NULL,
+  food_name VARCHAR(100) NOT NULL,
+  amount VARCHAR(50) NOT NULL,
+  meal_time VARCHAR(10) NOT NULL CHECK (meal_time IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 5. 예방접종
+CREATE TABLE IF NOT EXISTS pet_vaccinations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  vaccinated_on DATE NOT NULL,
+  next_date DATE,
+  hospital VARCHAR(100),
+  notes TEXT,
+  completed BOOLEAN NOT NULL DEFAULT TRUE,
+  vaccine_type VARCHAR(10) NOT NULL CHECK (vaccine_type IN ('required', 'optional')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 6. 보험 청구
+CREATE TABLE IF NOT EXISTS pet_insurance_claims (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  claim_date DATE NOT NULL,
+  hospital_name VARCHAR(100) NOT NULL,
+  treatment_type VARCHAR(100) NOT NULL,
+  total_amount INTEGER NOT NULL CHECK (total_amount >= 0),
+  claimed_amount INTEGER NOT NULL CHECK (claimed_amount >= 0),
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'paid')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 7. 인덱스 (펫별 조회 + 날짜 정렬)
+CREATE INDEX IF NOT EXISTS idx_pet_medications_pet ON pet_medications(pet_id, start_date DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_vet_records_pet ON pet_vet_records(pet_id, visit_date DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_walks_pet ON pet_walks(pet_id, walk_date DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_diet_logs_pet ON pet_diet_logs(pet_id, log_date DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_vaccinations_pet ON pet_vaccinations(pet_id, vaccinated_on DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_insurance_claims_pet ON pet_insurance_claims(pet_id, claim_date DESC);
+
+-- 8. RLS 정책: 본인 데이터만 접근 가능
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'pet_medications',
+    'pet_vet_records',
+    'pet_walks',
+    'pet_diet_logs',
+    'pet_vaccinations',
+    'pet_insurance_claims'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t);
+
+    EXECUTE format('CREATE POLICY "Users can view own %1$s" ON %1$I FOR SELECT USING (auth.uid() = user_id)', t);
+    -- 작성/수정 시 본인 펫의 기록인지도 확인 (다른 사람 펫에 기록을 붙이거나 옮길 수 없음)
+    EXECUTE format(
+      'CREATE POLICY "Users can insert own %1$s" ON %1$I FOR INSERT WITH CHECK (' ||
+      'auth.uid() = user_id AND EXISTS (SELECT 1 FROM pets p WHERE p.id = %1$I.pet_id AND p.user_id = auth.uid())' ||
+      ')',
+      t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Users can update own %1$s" ON %1$I FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (' ||
+      'auth.uid() = user_id AND EXISTS (SELECT 1 FROM pets p WHERE p.id = %1$I.pet_id AND p.user_id = auth.uid())' ||
+      ')',
+      t
+    );
+    EXECUTE format('CREATE POLICY "Users can delete own %1$s" ON %1$I FOR DELETE USING (auth.uid() = user_id)', t);
+
+    EXECUTE format(
+      'CREATE TRIGGER update_%1$s_updated_at BEFORE UPDATE ON %1$I FOR EACH ROW EXECUTE FUNCTION update_updated_at_column()',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- =====================================================
+-- 적용 후 확인 쿼리:
+-- SELECT tablename FROM pg_tables WHERE tablename LIKE 'pet\_%';
+-- =====================================================
@@ -0,0 +1,80 @@
+-- =====================================================
+-- PetChecky Rate Limits
+-- 서버리스 인스턴스 간에 공유되는 sliding window 요청 기록
+-- (RATE_LIMIT_STORE=postgres 일 때 사용)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 요청 기록 테이블 (윈도우가 지난 행은 rate_limit_hit 호출 시 정리)
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at BIGINT NOT NULL -- epoch milliseconds
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_hit_at ON rate_limit_hits(hit_at);
+
+-- 서비스 롤만 접근 (정책 없음 = 일반 사용자 접근 불가)
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- 2. 요청 기록 (원자적 처리)
+-- 윈도우가 지난 기록을 지우고, 한도 미만이면 현재 요청을 추가한 뒤
+-- 기록 여부(allowed)와 윈도우 내 요청 시각 목록(hits, 오름차순)을 반환합니다.
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  p_key TEXT,
+  p_now BIGINT,
+  p_window_ms BIGINT,
+  p_limit INTEGER,
+  OUT allowed BOOLEAN,
+  OUT hits BIGINT[]
+) AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- 같은 키에 대한 동시 요청 직렬화
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits
+  WHERE key = p_key AND hit_at <= p_now - p_window_ms;
+
+  -- 더 이상 요청이 없는 키의 기록도 가끔 정리 (1% 확률, 하루 지난 기록)
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits WHERE hit_at <= p_now - 86400000;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM rate_limit_hits WHERE key = p_key;
+
+  allowed := v_count < p_limit;
+  IF allowed THEN
+    INSERT INTO rate_limit_hits (key, hit_at) VALUES (p_key, p_now);
+  END IF;
+
+  SELECT COALESCE(array_agg(hit_at ORDER BY hit_at), '{}')
+  INTO hits
+  FROM rate_limit_hits
+  WHERE key = p_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- 3. 기록 초기화 (p_key가 NULL이면 전체)
+CREATE OR REPLACE FUNCTION rate_limit_reset(p_key TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF p_key IS NULL THEN
+    DELETE FROM rate_limit_hits;
+  ELSE
+    DELETE FROM rate_limit_hits WHERE key = p_key;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- 4. 실행 권한: 서버(service_role)만 호출
+-- SECURITY DEFINER라 RLS를 우회하므로 anon/authenticated가 RPC로 기록을 조작하거나 지우지 못하게 막습니다.
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, BIGINT, BIGINT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_reset(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, BIGINT, BIGINT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_reset(TEXT) TO service_role;
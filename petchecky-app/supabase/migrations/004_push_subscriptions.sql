@@ -0,0 +1,40 @@
+-- =====================================================
+-- PetChecky Push Subscriptions
+-- 브라우저 Web Push 구독 정보를 저장합니다.
+-- 탭이 닫혀 있어도 서버(lib/pushSubscriptions.ts)에서 알림을 보낼 수 있습니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 푸시 서비스가 발급한 엔드포인트 (기기/브라우저마다 고유)
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent VARCHAR(300),
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- RLS 정책: 본인 구독만 조회/삭제 가능 (등록·발송은 서비스 롤 API에서 처리)
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own push_subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can view own push_subscriptions" ON push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own push_subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can delete own push_subscriptions" ON push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_push_subscriptions_updated_at ON push_subscriptions;
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON push_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,103 @@
+-- =====================================================
+-- PetChecky Scheduled Reminders
+-- /api/cron/reminders 가 서버에서 리마인더를 발송하는 데 필요한 테이블
+-- - pet_reminders: 리마인더 페이지의 사용자 정의 알림 (기존 localStorage petchecky_reminders)
+-- - notification_settings: 알림 설정 + 시간대 (방해금지 시간 판단용)
+-- - notifications: 서버에서 만든 인앱 알림 (클라이언트가 가져가서 알림 센터에 합침)
+-- - reminder_deliveries: 발송 기록 (같은 리마인더 중복 발송 방지)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 사용자 정의 리마인더
+CREATE TABLE IF NOT EXISTS pet_reminders (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  pet_name VARCHAR(50) NOT NULL,
+  reminder_type VARCHAR(20) NOT NULL CHECK (reminder_type IN ('vaccination', 'medication', 'vet_visit', 'grooming', 'other')),
+  title VARCHAR(100) NOT NULL,
+  description TEXT,
+  remind_date DATE NOT NULL,
+  remind_time VARCHAR(5) NOT NULL,
+  repeat VARCHAR(10) NOT NULL DEFAULT 'none' CHECK (repeat IN ('none', 'daily', 'weekly', 'monthly', 'yearly')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_reminders_pet ON pet_reminders(pet_id, remind_date DESC);
+CREATE INDEX IF NOT EXISTS idx_pet_reminders_enabled ON pet_reminders(user_id) WHERE enabled;
+
+ALTER TABLE pet_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pet_reminders" ON pet_reminders FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own pet_reminders" ON pet_reminders FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own pet_reminders" ON pet_reminders FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own pet_reminders" ON pet_reminders FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pet_reminders_updated_at
+  BEFORE UPDATE ON pet_reminders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. 알림 설정 (lib/notifications.ts NotificationSettings 형식 그대로 저장)
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  -- IANA 시간대 (예: Asia/Seoul)
+  timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Seoul',
+  settings JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification_settings" ON notification_settings FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. 서버 인앱 알림함
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type VARCHAR(20) NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  message TEXT NOT NULL,
+  priority VARCHAR(10) NOT NULL DEFAULT 'normal',
+  link VARCHAR(200),
+  -- 클라이언트가 가져간 시각 (NULL이면 아직 전달되지 않음)
+  fetched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unfetched ON notifications(user_id, created_at) WHERE fetched_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications" ON notifications FOR SELECT USING (auth.uid() = user_id);
+
+-- 4. 리마인더 발송 기록
+-- dedup_key 예: medication:<id>:2025-03-01:morning
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  dedup_key VARCHAR(200) NOT NULL UNIQUE,
+  source VARCHAR(20) NOT NULL,
+  -- 실제로 전달된 채널 (push, inApp)
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_created ON reminder_deliveries(created_at);
+
+-- 서비스 롤 전용 (정책 없음)
+ALTER TABLE reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 오래된 발송 기록 정리 (선택, pg_cron 등으로 주기 실행):
+-- DELETE FROM reminder_deliveries WHERE created_at < NOW() - INTERVAL '90 days';
+-- =====================================================
@@ -0,0 +1,61 @@
+-- =====================================================
+-- PetChecky Billing Renewals
+-- /api/cron/billing 정기결제 갱신과 /api/billing/webhook 결제 상태 동기화에 필요한 스키마
+-- - subscriptions: 결제 실패 시 유예 기간/재시도 상태 컬럼 추가
+-- - billing_cycles: 결제 주기별 청구 기록 (주기당 한 행 - 중복 청구 방지)
+--
+-- 구독 상태 흐름:
+--   active --(갱신 결제 실패)--> payment_failed (grace_period_end까지 이용 가능, 재시도)
+--   payment_failed --(재시도 성공)--> active
+--   payment_failed --(재시도 소진/유예 기간 종료)--> expired
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 구독 유예 상태
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS grace_period_end TIMESTAMP WITH TIME ZONE;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS last_payment_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_renewal
+  ON subscriptions(current_period_end)
+  WHERE status IN ('active', 'payment_failed');
+
+-- 2. 결제 주기별 청구 기록
+-- (subscription_id, period_start)가 같으면 같은 주기이므로 한 번만 만들어집니다.
+-- 재시도마다 order_id는 바뀌지만(토스는 실패한 orderId 재사용 불가),
+-- 처리 중 중단된 시도는 같은 order_id를 Idempotency-Key로 다시 보내 토스가 중복 결제하지 않게 합니다.
+CREATE TABLE IF NOT EXISTS billing_cycles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  amount INTEGER NOT NULL,
+  -- pending: 시도 전, processing: 결제 요청 중, paid: 완료, failed: 재시도 대기, abandoned: 재시도 소진
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- 마지막 시도의 주문 ID (= Idempotency-Key)
+  order_id VARCHAR(64),
+  payment_key VARCHAR(200),
+  last_error TEXT,
+  next_retry_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (subscription_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_cycles_order ON billing_cycles(order_id);
+
+ALTER TABLE billing_cycles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own billing_cycles" ON billing_cycles FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_billing_cycles_updated_at ON billing_cycles;
+CREATE TRIGGER update_billing_cycles_updated_at
+  BEFORE UPDATE ON billing_cycles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. 결제 내역 주문 ID 중복 방지 (웹훅과 갱신 작업이 동시에 기록하는 경우)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
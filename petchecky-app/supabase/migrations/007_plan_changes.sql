@@ -0,0 +1,47 @@
+-- =====================================================
+-- PetChecky Plan Changes
+-- 구독 중 플랜 변경(/api/subscription/change)에 필요한 스키마
+-- - 업그레이드(premium -> premium_plus): 남은 기간만큼 차액을 바로 청구하고 즉시 변경
+-- - 다운그레이드(premium_plus -> premium): scheduled_plan_type에 기록해 두고 다음 갱신 결제부터 적용
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- (006_billing_renewals.sql 이후에 적용)
+-- =====================================================
+
+-- 1. 다음 갱신 때 바뀔 플랜 (없으면 현재 플랜 유지)
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS scheduled_plan_type VARCHAR(20);
+
+-- 2. 갱신 주기별 청구 플랜 (예약된 다운그레이드 반영)
+ALTER TABLE billing_cycles ADD COLUMN IF NOT EXISTS plan_type VARCHAR(20);
+
+-- 3. 업그레이드 차액 청구 기록
+CREATE TABLE IF NOT EXISTS plan_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  from_plan VARCHAR(20) NOT NULL,
+  to_plan VARCHAR(20) NOT NULL,
+  amount INTEGER NOT NULL,
+  -- processing: 결제 요청 중, paid: 완료(플랜 변경됨), failed: 결제 실패
+  status VARCHAR(20) NOT NULL DEFAULT 'processing',
+  order_id VARCHAR(64) NOT NULL UNIQUE,
+  payment_key VARCHAR(200),
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 구독당 진행 중인 변경은 하나만 (동시 요청으로 두 번 청구되는 것 방지)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plan_changes_processing
+  ON plan_changes(subscription_id) WHERE status = 'processing';
+
+ALTER TABLE plan_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own plan_changes" ON plan_changes FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_plan_changes_updated_at ON plan_changes;
+CREATE TRIGGER update_plan_changes_updated_at
+  BEFORE UPDATE ON plan_changes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
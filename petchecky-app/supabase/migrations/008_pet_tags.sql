@@ -0,0 +1,76 @@
+-- =====================================================
+-- PetChecky Lost-Pet Tags
+-- QR 인식표가 가리키는 공개 페이지(/found/[token])에 필요한 테이블
+-- - pet_tags: 인식표 (토큰, 발견자에게 보여줄 사진/특이사항, 폐기 시각)
+-- - pet_tag_scans: 스캔 기록 (발견자가 동의하면 위치 포함)
+-- - pet_tag_messages: 발견자가 보호자에게 남긴 메시지 (보호자 연락처는 공개하지 않고 중계)
+--
+-- 모든 조회/기록은 서비스 롤 API(lib/petTags.ts)에서 처리하며, 보호자는 본인 데이터만 조회할 수 있습니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 인식표
+CREATE TABLE IF NOT EXISTS pet_tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  pet_id UUID REFERENCES pets(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- QR URL에 들어가는 추측 불가능한 토큰 (16진수 32자)
+  token VARCHAR(64) NOT NULL UNIQUE,
+  emergency_note TEXT,
+  -- 발견자 페이지에 보여줄 사진 (축소한 data URL)
+  photo TEXT,
+  -- 폐기된 토큰은 발견자 페이지에서 조회되지 않음
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_tags_user ON pet_tags(user_id, created_at DESC);
+
+ALTER TABLE pet_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pet_tags" ON pet_tags FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pet_tags_updated_at
+  BEFORE UPDATE ON pet_tags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. 스캔 기록
+CREATE TABLE IF NOT EXISTS pet_tag_scans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tag_id UUID REFERENCES pet_tags(id) ON DELETE CASCADE NOT NULL,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  -- 위치 정확도 (미터)
+  accuracy DOUBLE PRECISION,
+  user_agent VARCHAR(300),
+  scanned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_tag_scans_tag ON pet_tag_scans(tag_id, scanned_at DESC);
+
+ALTER TABLE pet_tag_scans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pet_tag_scans" ON pet_tag_scans
+  FOR SELECT USING (EXISTS (SELECT 1 FROM pet_tags WHERE pet_tags.id = tag_id AND pet_tags.user_id = auth.uid()));
+
+-- 3. 발견자 메시지
+CREATE TABLE IF NOT EXISTS pet_tag_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tag_id UUID REFERENCES pet_tags(id) ON DELETE CASCADE NOT NULL,
+  scan_id UUID REFERENCES pet_tag_scans(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  -- 발견자가 직접 남긴 연락처 (선택)
+  finder_contact VARCHAR(100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_tag_messages_tag ON pet_tag_messages(tag_id, created_at DESC);
+
+ALTER TABLE pet_tag_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pet_tag_messages" ON pet_tag_messages
+  FOR SELECT USING (EXISTS (SELECT 1 FROM pet_tags WHERE pet_tags.id = tag_id AND pet_tags.user_id = auth.uid()));
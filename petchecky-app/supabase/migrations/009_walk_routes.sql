@@ -0,0 +1,13 @@
+-- =====================================================
+-- PetChecky Walk Routes
+-- GPS로 기록한 산책 경로와 이동 시간
+-- - route: 단순화한 경로를 Encoded Polyline(정밀도 1e-5)으로 저장
+-- - moving_time: 멈춰 있던 구간을 뺀 이동 시간 (초)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+ALTER TABLE pet_walks ADD COLUMN IF NOT EXISTS route TEXT CHECK (char_length(route) <= 8000);
+ALTER TABLE pet_walks ADD COLUMN IF NOT EXISTS moving_time INTEGER CHECK (moving_time >= 0);
@@ -0,0 +1,18 @@
+-- =====================================================
+-- PetChecky Pet Species
+-- 강아지/고양이 외 종(토끼, 햄스터, 페럿, 새, 파충류) 지원
+-- - pets.species, community_posts.pet_species CHECK 제약을 종 레지스트리(src/lib/species.ts)와 맞춤
+-- - 종을 추가할 때는 레지스트리의 PET_SPECIES와 이 목록을 함께 갱신하세요
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+ALTER TABLE pets DROP CONSTRAINT IF EXISTS pets_species_check;
+ALTER TABLE pets ADD CONSTRAINT pets_species_check
+  CHECK (species IN ('dog', 'cat', 'rabbit', 'hamster', 'ferret', 'bird', 'reptile'));
+
+ALTER TABLE community_posts DROP CONSTRAINT IF EXISTS community_posts_pet_species_check;
+ALTER TABLE community_posts ADD CONSTRAINT community_posts_pet_species_check
+  CHECK (pet_species IN ('dog', 'cat', 'rabbit', 'hamster', 'ferret', 'bird', 'reptile'));
@@ -0,0 +1,12 @@
+-- =====================================================
+-- PetChecky Pet Breed Id
+-- 품종 카탈로그(src/lib/breeds) id 저장
+-- - breed는 보호자가 입력한 표시용 품종명, breed_id는 카탈로그 품종 id
+-- - 카탈로그에 없는 품종(기타 입력)은 breed_id가 NULL
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS breed_id VARCHAR(50);
@@ -0,0 +1,18 @@
+-- =====================================================
+-- PetChecky Vaccine Schedule
+-- 생년월일/생활 환경 기반 예방접종 일정 (src/lib/vaccineSchedule.ts)
+-- - pets.birth_date: 기초 접종(생후 N주) 일정 계산용
+-- - pets.lifestyle: 선택 접종 대상 판단 (indoor/outdoor/social)
+-- - pet_vaccinations.titer_result: 항체가 검사 기록이면 결과 (protective/low)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS birth_date DATE;
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS lifestyle VARCHAR(10)
+  CHECK (lifestyle IN ('indoor', 'outdoor', 'social'));
+
+ALTER TABLE pet_vaccinations ADD COLUMN IF NOT EXISTS titer_result VARCHAR(10)
+  CHECK (titer_result IN ('protective', 'low'));
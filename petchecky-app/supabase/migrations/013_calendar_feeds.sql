@@ -0,0 +1,25 @@
+-- =====================================================
+-- PetChecky Calendar Feeds
+-- 사용자별 iCal 구독 피드 (/api/calendar/feed/[token])
+-- - calendar_feeds: 구독 주소 토큰 (사용자당 하나, 재발급하면 이전 주소는 더 이상 동작하지 않음)
+--
+-- 캘린더 앱은 로그인 없이 피드를 가져가므로 토큰이 곧 인증 수단입니다.
+-- 모든 조회/기록은 서비스 롤 API(lib/calendarFeed.ts)에서 처리합니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  -- 구독 URL에 들어가는 추측 불가능한 토큰 (16진수 32자)
+  token VARCHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- 캘린더 앱이 마지막으로 가져간 시각
+  last_fetched_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar_feeds" ON calendar_feeds FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+-- =====================================================
+-- PetChecky Diet Ingredients
+-- 식사 기록의 주요 재료 (알레르기/식이 제한 확인용, src/lib/dietAllergy.ts)
+-- - pet_diet_logs.ingredients: 재료 이름 목록 (최대 30개)
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+ALTER TABLE pet_diet_logs ADD COLUMN IF NOT EXISTS ingredients TEXT[]
+  CHECK (cardinality(ingredients) <= 30);
@@ -0,0 +1,88 @@
+-- =====================================================
+-- PetChecky Direct Messages
+-- 사용자 간 1:1 메시지 (/messages, src/lib/directMessages.ts)
+-- - direct_conversations: 두 사용자의 대화방 (user_a < user_b 로 정렬해 한 쌍에 하나)
+-- - direct_messages: 메시지 (받는 사람이 읽으면 read_at 기록)
+-- - user_blocks: 차단 (차단한 쪽과 차단당한 쪽 모두 메시지를 보낼 수 없음)
+--
+-- 쓰기는 서비스 롤 API에서만 처리하고, 클라이언트는 본인 대화/메시지만 조회할 수 있습니다.
+-- direct_messages는 Supabase Realtime으로 실시간 전달하므로 supabase_realtime publication에 추가합니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 대화방
+CREATE TABLE IF NOT EXISTS direct_conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_a UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  user_b UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 대화 목록에 보여줄 이름 (커뮤니티 작성자명과 같은 익명 표기)
+  user_a_name VARCHAR(50) NOT NULL,
+  user_b_name VARCHAR(50) NOT NULL,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (user_a < user_b),
+  UNIQUE (user_a, user_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_direct_conversations_user_a ON direct_conversations(user_a, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_direct_conversations_user_b ON direct_conversations(user_b, last_message_at DESC);
+
+ALTER TABLE direct_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view direct_conversations" ON direct_conversations
+  FOR SELECT USING (auth.uid() = user_a OR auth.uid() = user_b);
+
+CREATE TRIGGER update_direct_conversations_updated_at
+  BEFORE UPDATE ON direct_conversations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. 메시지
+CREATE TABLE IF NOT EXISTS direct_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES direct_conversations(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_direct_messages_conversation ON direct_messages(conversation_id, created_at DESC);
+-- 안 읽은 메시지 수
+CREATE INDEX IF NOT EXISTS idx_direct_messages_unread ON direct_messages(recipient_id, conversation_id) WHERE read_at IS NULL;
+
+ALTER TABLE direct_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view direct_messages" ON direct_messages
+  FOR SELECT USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+-- 다시 실행해도 실패하지 않도록 이미 추가되어 있으면 건너뜀
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'direct_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE direct_messages;
+  END IF;
+END $$;
+
+-- 3. 차단
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own user_blocks" ON user_blocks FOR SELECT USING (auth.uid() = blocker_id);
@@ -0,0 +1,85 @@
+-- =====================================================
+-- PetChecky Comment Threads
+-- 커뮤니티 댓글 답글 트리 (src/lib/communityComments.ts)
+-- - depth: 0(댓글) ~ 2(답글의 답글), 더 깊은 답글은 2단계에 @멘션으로 붙임
+-- - reply_count: 바로 아래 답글 수 ("답글 더 보기" 표시용)
+-- - deleted_at: 답글이 달린 댓글은 지우지 않고 "삭제된 댓글" 자리만 남김
+--   (마지막 답글까지 지워지면 자리도 함께 삭제)
+--
+-- 게시글의 comments_count는 삭제 표시된 댓글을 빼고 셉니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 컬럼
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS depth SMALLINT NOT NULL DEFAULT 0
+  CHECK (depth BETWEEN 0 AND 2);
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- 트리 정보와 삭제 표시는 서비스 롤(API)과 트리거만 변경
+-- (본인 댓글 수정 정책으로 답글 수를 바꾸거나 삭제를 되돌리면 게시글 댓글 수도 어긋남)
+CREATE OR REPLACE FUNCTION keep_comment_thread_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND pg_trigger_depth() = 1 THEN
+    NEW.parent_id = OLD.parent_id;
+    NEW.depth = OLD.depth;
+    NEW.reply_count = OLD.reply_count;
+    NEW.deleted_at = OLD.deleted_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_keep_comment_thread_columns ON community_comments;
+CREATE TRIGGER trigger_keep_comment_thread_columns
+  BEFORE UPDATE ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_comment_thread_columns();
+
+-- 답글 목록 (parent_id별 작성순, "답글 더 보기" 커서)
+CREATE INDEX IF NOT EXISTS idx_community_comments_parent ON community_comments(parent_id, created_at)
+  WHERE parent_id IS NOT NULL;
+
+-- 2. 답글 수 자동 업데이트
+CREATE OR REPLACE FUNCTION update_comment_reply_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE community_comments SET reply_count = reply_count + 1 WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    UPDATE community_comments SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = OLD.parent_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_update_reply_count ON community_comments;
+CREATE TRIGGER trigger_update_reply_count
+  AFTER INSERT OR DELETE ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_comment_reply_count();
+
+-- 3. 게시글 댓글 수: 삭제 표시(deleted_at)도 반영
+CREATE OR REPLACE FUNCTION update_post_comments_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE community_posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.deleted_at IS NULL THEN
+    UPDATE community_posts SET comments_count = comments_count - 1 WHERE id = OLD.post_id;
+  ELSIF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    UPDATE community_posts SET comments_count = comments_count - 1 WHERE id = NEW.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_update_comments_count ON community_comments;
+CREATE TRIGGER trigger_update_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_post_comments_count();
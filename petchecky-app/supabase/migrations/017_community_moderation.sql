@@ -0,0 +1,132 @@
+-- =====================================================
+-- PetChecky Community Moderation
+-- 커뮤니티 신고/자동 검사/관리자 검토 (/admin/moderation, src/lib/communityModeration.ts)
+-- - moderation_status: visible(공개) / pending(검토 대기) / hidden(관리자가 숨김)
+--   자동 검사(src/lib/contentScreening.ts)에 걸리거나 신고가 쌓이면 pending으로 바뀝니다.
+-- - content_reports: 게시글/댓글 신고 (신고자당 한 번)
+-- - community_bans: 커뮤니티 이용 제한 (글/댓글/신고 불가)
+--
+-- 검토 상태와 신고/제한 쓰기는 서비스 롤 API에서만 처리합니다.
+-- 글/댓글 작성도 자동 검사를 거치도록 서비스 롤 API로 저장합니다.
+-- 관리자는 auth.users의 app_metadata.role = 'admin' 으로 지정합니다 (서비스 키로만 변경 가능).
+-- 관리 작업 기록은 lib/securityLogger(admin_action)로 남깁니다.
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 검토 상태
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(10) NOT NULL DEFAULT 'visible'
+  CHECK (moderation_status IN ('visible', 'pending', 'hidden'));
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(10) NOT NULL DEFAULT 'visible'
+  CHECK (moderation_status IN ('visible', 'pending', 'hidden'));
+ALTER TABLE community_comments ADD COLUMN IF NOT EXISTS moderation_reason TEXT;
+
+-- 검토 대기열
+CREATE INDEX IF NOT EXISTS idx_community_posts_moderation ON community_posts(moderation_status, created_at DESC)
+  WHERE moderation_status <> 'visible';
+CREATE INDEX IF NOT EXISTS idx_community_comments_moderation ON community_comments(moderation_status, created_at DESC)
+  WHERE moderation_status <> 'visible';
+
+-- 검토 상태는 서비스 롤만 변경
+-- - 직접 작성한 글/댓글은 자동 검사를 거치지 않았으므로 검토 대기로 시작
+-- - 본인이 수정하더라도 검토 상태는 그대로
+CREATE OR REPLACE FUNCTION keep_moderation_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.moderation_status = 'pending';
+      NEW.moderation_reason = NULL;
+    ELSE
+      NEW.moderation_status = OLD.moderation_status;
+      NEW.moderation_reason = OLD.moderation_reason;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_keep_post_moderation ON community_posts;
+CREATE TRIGGER trigger_keep_post_moderation
+  BEFORE INSERT OR UPDATE ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_moderation_status();
+
+DROP TRIGGER IF EXISTS trigger_keep_comment_moderation ON community_comments;
+CREATE TRIGGER trigger_keep_comment_moderation
+  BEFORE INSERT OR UPDATE ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_moderation_status();
+
+-- 2. 신고
+CREATE TABLE IF NOT EXISTS content_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  target_type VARCHAR(10) NOT NULL CHECK (target_type IN ('post', 'comment')),
+  target_id UUID NOT NULL,
+  -- 댓글 신고도 게시글로 바로 이동할 수 있도록
+  post_id UUID REFERENCES community_posts(id) ON DELETE CASCADE NOT NULL,
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('spam', 'scam', 'abuse', 'dangerous_medical', 'other')),
+  details TEXT,
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(target_type, target_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_open ON content_reports(target_type, target_id)
+  WHERE status = 'open';
+
+ALTER TABLE content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own content_reports" ON content_reports
+  FOR SELECT USING (auth.uid() = reporter_id);
+
+-- 3. 이용 제한
+CREATE TABLE IF NOT EXISTS community_bans (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE PRIMARY KEY,
+  reason TEXT NOT NULL,
+  banned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- NULL이면 영구 제한
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE community_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own community_bans" ON community_bans
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 4. 공개 조회는 visible만 (작성자는 본인 글 확인 가능), 제한된 사용자는 작성 불가
+DROP POLICY IF EXISTS "Anyone can view posts" ON community_posts;
+CREATE POLICY "Anyone can view posts" ON community_posts
+  FOR SELECT USING (moderation_status = 'visible' OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Anyone can view comments" ON community_comments;
+CREATE POLICY "Anyone can view comments" ON community_comments
+  FOR SELECT USING (moderation_status = 'visible' OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Authenticated users can create posts" ON community_posts;
+CREATE POLICY "Authenticated users can create posts" ON community_posts
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM community_bans b
+      WHERE b.user_id = auth.uid() AND (b.expires_at IS NULL OR b.expires_at > NOW())
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can create comments" ON community_comments;
+CREATE POLICY "Authenticated users can create comments" ON community_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM community_bans b
+      WHERE b.user_id = auth.uid() AND (b.expires_at IS NULL OR b.expires_at > NOW())
+    )
+  );
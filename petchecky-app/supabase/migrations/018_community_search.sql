@@ -0,0 +1,185 @@
+-- =====================================================
+-- PetChecky Community Search
+-- 커뮤니티 전문 검색 (GET /api/community/posts?q=, src/lib/communitySearch.ts)
+-- - 한국어는 조사/어미가 붙어 형태소 분석 없이는 단어 단위로 맞추기 어려워
+--   한글은 2글자 단위(bigram)로 잘라 색인합니다. ("강아지가" → 강아, 아지, 지가)
+--   검색어도 같은 방식으로 잘라 모든 조각이 들어 있는 글을 찾습니다.
+--   한 글자 검색어("약")도 찾을 수 있도록 본문은 한 글자 조각도 함께 색인합니다.
+-- - 영문/숫자는 소문자 단어 그대로 색인
+-- - 가중치: 제목/해시태그(A) > 본문(B) > 댓글(C)
+-- - hashtags: 자유 입력 해시태그 (# 없이 소문자로 저장)
+--
+-- 목록은 정렬 키 + id 기준 keyset 페이지네이션을 사용합니다 (offset 없음).
+--
+-- 적용 방법:
+-- 1. Supabase 대시보드 > SQL Editor에서 실행
+-- 2. 또는 supabase db push 명령 사용
+-- =====================================================
+
+-- 1. 컬럼
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS hashtags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE community_posts ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_community_posts_search ON community_posts USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_community_posts_hashtags ON community_posts USING GIN(hashtags);
+-- 인기순 keyset
+CREATE INDEX IF NOT EXISTS idx_community_posts_likes ON community_posts(likes_count DESC, created_at DESC, id DESC);
+
+-- 2. 한글 n-gram 토큰
+-- with_unigrams: 본문 색인은 TRUE, 검색어는 FALSE (한 글자 검색어만 한 글자 조각 사용)
+CREATE OR REPLACE FUNCTION korean_ngrams(input TEXT, with_unigrams BOOLEAN DEFAULT TRUE)
+RETURNS TEXT[] AS $$
+DECLARE
+  word TEXT;
+  tokens TEXT[] := '{}';
+  i INTEGER;
+BEGIN
+  FOR word IN
+    SELECT (regexp_matches(lower(coalesce(input, '')), '[가-힣]+|[0-9a-z]+', 'g'))[1]
+  LOOP
+    IF word ~ '^[0-9a-z]' THEN
+      tokens := tokens || word;
+    ELSE
+      IF with_unigrams OR char_length(word) = 1 THEN
+        FOR i IN 1..char_length(word) LOOP
+          tokens := tokens || substr(word, i, 1);
+        END LOOP;
+      END IF;
+      FOR i IN 1..char_length(word) - 1 LOOP
+        tokens := tokens || substr(word, i, 2);
+      END LOOP;
+    END IF;
+  END LOOP;
+  RETURN tokens;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 검색어 → tsquery (모든 조각 AND), 조각이 없으면 NULL
+CREATE OR REPLACE FUNCTION korean_search_query(input TEXT)
+RETURNS TSQUERY AS $$
+  SELECT CASE WHEN count(*) = 0 THEN NULL
+    ELSE string_agg(DISTINCT quote_literal(token), ' & ')::tsquery END
+  FROM unnest(korean_ngrams(input, FALSE)) AS token;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 3. 색인 갱신
+CREATE OR REPLACE FUNCTION build_post_search_vector(
+  p_title TEXT,
+  p_content TEXT,
+  p_hashtags TEXT[],
+  p_comments TEXT
+)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(array_to_tsvector(korean_ngrams(p_title || ' ' || array_to_string(p_hashtags, ' '))), 'A') ||
+    setweight(array_to_tsvector(korean_ngrams(p_content)), 'B') ||
+    setweight(array_to_tsvector(korean_ngrams(p_comments)), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 공개 중이고 삭제되지 않은 댓글만 색인
+CREATE OR REPLACE FUNCTION post_comments_text(p_post_id UUID)
+RETURNS TEXT AS $$
+  SELECT coalesce(string_agg(content, ' '), '')
+  FROM community_comments
+  WHERE post_id = p_post_id AND deleted_at IS NULL AND moderation_status = 'visible';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_post_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := build_post_search_vector(
+    NEW.title, NEW.content, NEW.hashtags,
+    CASE WHEN TG_OP = 'INSERT' THEN '' ELSE post_comments_text(NEW.id) END
+  );
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS trigger_update_post_search_vector ON community_posts;
+CREATE TRIGGER trigger_update_post_search_vector
+  BEFORE INSERT OR UPDATE OF title, content, hashtags ON community_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_post_search_vector();
+
+-- 댓글이 바뀌면 게시글 색인도 다시 계산 (다른 사람 글도 갱신해야 하므로 SECURITY DEFINER)
+CREATE OR REPLACE FUNCTION refresh_post_search_vector_from_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_post_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+BEGIN
+  UPDATE community_posts
+  SET search_vector = build_post_search_vector(title, content, hashtags, post_comments_text(id))
+  WHERE id = v_post_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+DROP TRIGGER IF EXISTS trigger_refresh_post_search_vector ON community_comments;
+CREATE TRIGGER trigger_refresh_post_search_vector
+  AFTER INSERT OR DELETE OR UPDATE OF content, deleted_at, moderation_status ON community_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_post_search_vector_from_comment();
+
+-- 기존 글 색인
+UPDATE community_posts
+SET search_vector = build_post_search_vector(title, content, hashtags, post_comments_text(id));
+
+-- 4. 검색/목록 (공개된 글만)
+-- p_sort: relevance(검색어가 있을 때만, 없으면 recent) / recent / likes
+-- 커서: 이전 페이지 마지막 글의 (p_cursor_score, p_cursor_created_at, p_cursor_id)
+--   score는 relevance면 관련도(소수 6자리), likes면 좋아요 수, recent면 사용하지 않음
+CREATE OR REPLACE FUNCTION search_community_posts(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_pet_species TEXT DEFAULT NULL,
+  p_hashtags TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recent',
+  p_cursor_score NUMERIC DEFAULT NULL,
+  p_cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  content TEXT,
+  category TEXT,
+  pet_species TEXT,
+  author_name TEXT,
+  hashtags TEXT[],
+  likes_count INTEGER,
+  comments_count INTEGER,
+  views_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  score NUMERIC
+) AS $$
+  WITH search AS (
+    SELECT korean_search_query(p_query) AS query
+  ),
+  matched AS (
+    SELECT
+      p.*,
+      CASE
+        WHEN p_sort = 'likes' THEN coalesce(p.likes_count, 0)::NUMERIC
+        WHEN p_sort = 'relevance' AND s.query IS NOT NULL
+          THEN round(ts_rank_cd(p.search_vector, s.query)::NUMERIC, 6)
+        ELSE 0::NUMERIC
+      END AS sort_score
+    FROM community_posts p, search s
+    WHERE p.moderation_status = 'visible'
+      AND (s.query IS NULL OR p.search_vector @@ s.query)
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_pet_species IS NULL OR p.pet_species = p_pet_species)
+      AND (p_hashtags IS NULL OR p.hashtags @> p_hashtags)
+  )
+  SELECT
+    m.id, m.user_id, m.title::TEXT, m.content, m.category::TEXT, m.pet_species::TEXT, m.author_name::TEXT, m.hashtags,
+    m.likes_count, m.comments_count, m.views_count, m.created_at, m.updated_at, m.sort_score
+  FROM matched m
+  WHERE p_cursor_id IS NULL
+    OR (m.sort_score, m.created_at, m.id) < (coalesce(p_cursor_score, 0), p_cursor_created_at, p_cursor_id)
+  ORDER BY m.sort_score DESC, m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;